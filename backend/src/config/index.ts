@@ -5,10 +5,76 @@ export const config = {
     userApiKey: process.env.TRMNL_USER_API_KEY,
     macAddress: process.env.TRMNL_MAC_ADDRESS!,
     customPluginUuid: process.env.TRMNL_CUSTOM_PLUGIN_UUID,
+    // Numeric /api/trmnl/webhook/:userId and /api/images/synced/:userId URLs stop working after this date
+    legacyPollingSunset: process.env.LEGACY_POLLING_SUNSET || "2027-01-31",
   },
   openai: {
     apiKey: process.env.OPENAI_API_KEY!,
     adminKey: process.env.OPENAI_ADMIN_KEY, // Optional: for usage/billing API access
+    // Proxy or gateway in front of OpenAI (must include /v1)
+    baseUrl: (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/+$/, ""),
+    // Serve fixture responses instead of calling OpenAI - no network or API key needed
+    mock: process.env.OPENAI_MOCK === "true",
+  },
+  imageProviders: {
+    // Provider used when a request or job doesn't pick one
+    default: process.env.IMAGE_PROVIDER || "openai",
+    // Self-hosted server exposing OpenAI's /v1/images API (LocalAI, vLLM, ...)
+    openaiCompatible: {
+      baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL,
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+      model: process.env.OPENAI_COMPATIBLE_MODEL || "stable-diffusion",
+      name: process.env.OPENAI_COMPATIBLE_NAME || "Self-hosted",
+    },
+    stableDiffusion: {
+      baseUrl: process.env.SD_WEBUI_URL, // AUTOMATIC1111 / Forge WebUI started with --api
+      steps: parseInt(process.env.SD_WEBUI_STEPS || "25"),
+      sampler: process.env.SD_WEBUI_SAMPLER || "Euler a",
+    },
+    comfyui: {
+      baseUrl: process.env.COMFYUI_URL,
+      checkpoint: process.env.COMFYUI_CHECKPOINT || "sd_xl_base_1.0.safetensors",
+      workflowPath: process.env.COMFYUI_WORKFLOW, // Optional API-format workflow JSON with {{prompt}} etc. placeholders
+    },
+    // Deterministic placeholder images - always on outside production
+    placeholderEnabled: process.env.IMAGE_PROVIDER_PLACEHOLDER === "true" || process.env.NODE_ENV !== "production",
+  },
+  jobQueue: {
+    // Jobs running at once across batch items, TRMNL syncs and scheduled runs
+    concurrency: parseInt(process.env.JOB_QUEUE_CONCURRENCY || "2"),
+    // Attempts before a job moves to the dead-letter list
+    maxAttempts: parseInt(process.env.JOB_QUEUE_MAX_ATTEMPTS || "3"),
+    // First retry delay; doubles on each further attempt
+    retryBaseMs: parseInt(process.env.JOB_QUEUE_RETRY_BASE_SECONDS || "30") * 1000,
+    // How long a worker holds a job before it's considered crashed and reclaimed
+    leaseMs: parseInt(process.env.JOB_QUEUE_LEASE_SECONDS || "300") * 1000,
+  },
+  quotas: {
+    // Monthly allowances per plan (calendar month, UTC). Users without an active subscription
+    // are on the free plan; 0 means the plan can't use the feature at all.
+    free: {
+      images: parseInt(process.env.QUOTA_FREE_IMAGES_PER_MONTH || "0"),
+      transcriptions: parseInt(process.env.QUOTA_FREE_TRANSCRIPTIONS_PER_MONTH || "0"),
+    },
+    subscriber: {
+      images: parseInt(process.env.QUOTA_SUBSCRIBER_IMAGES_PER_MONTH || "300"),
+      transcriptions: parseInt(process.env.QUOTA_SUBSCRIBER_TRANSCRIPTIONS_PER_MONTH || "300"),
+    },
+  },
+  batch: {
+    // Batch items each user may start per hour; users take turns within these budgets
+    freeItemsPerHour: parseInt(process.env.BATCH_FREE_ITEMS_PER_HOUR || "120"),
+    subscriberItemsPerHour: parseInt(process.env.BATCH_SUBSCRIBER_ITEMS_PER_HOUR || "360"),
+  },
+  rateLimit: {
+    enabled: process.env.RATE_LIMIT_ENABLED !== "false",
+    // sqlite (shared by processes on the same database, kept across restarts) or memory
+    store: process.env.RATE_LIMIT_STORE === "memory" ? "memory" as const : "sqlite" as const,
+    // Proxies whose X-Forwarded-For entries are believed: IPs, CIDR ranges, "loopback" and "private"
+    trustedProxies: (process.env.RATE_LIMIT_TRUSTED_PROXIES || "loopback,private")
+      .split(",")
+      .map(entry => entry.trim())
+      .filter(Boolean),
   },
   server: {
     port: parseInt(process.env.PORT || "3000"),
@@ -18,12 +84,34 @@ export const config = {
     imagesDir: process.env.IMAGES_DIR || "/app/data/images",
   },
   email: {
+    // resend, smtp, file or outbox; when unset it follows from the settings below
+    // (EMAIL_OUTBOX_DIR, then SMTP_HOST, then RESEND_API_KEY, else outbox)
+    transport: process.env.EMAIL_TRANSPORT,
     resendApiKey: process.env.RESEND_API_KEY,
     senderEmail: process.env.SENDER_EMAIL || "noreply@promptink.app",
     senderName: process.env.SENDER_NAME || "Promptink",
     frontendUrl: process.env.FRONTEND_URL || "http://localhost:5173",
+    // Development: write emails to this directory (.html + .json) instead of sending them
+    outboxDir: process.env.EMAIL_OUTBOX_DIR,
+    smtp: {
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || "587"),
+      // true: TLS from the start (usually port 465); false: STARTTLS when the server offers it
+      secure: process.env.SMTP_SECURE === "true",
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+    },
+  },
+  webPush: {
+    // VAPID key pair (base64url, e.g. from `bunx web-push generate-vapid-keys`); push is off without it
+    publicKey: process.env.VAPID_PUBLIC_KEY,
+    privateKey: process.env.VAPID_PRIVATE_KEY,
+    // Contact for push services, as a mailto: or https: URL
+    subject: process.env.VAPID_SUBJECT || `mailto:${process.env.SENDER_EMAIL || "noreply@promptink.app"}`,
   },
   admin: {
+    // First superadmin, created on first login while no admin accounts exist
+    email: (process.env.ADMIN_EMAIL || "admin@promptink.local").toLowerCase(),
     password: process.env.ADMIN_PASSWORD || "admin123",
     jwtSecret: process.env.ADMIN_JWT_SECRET || process.env.JWT_SECRET || "admin-secret-key",
   },
@@ -96,6 +96,7 @@ export interface Order {
   paid_at: string | null
   shipped_at: string | null
   delivered_at: string | null
+  language: 'en' | 'zh' // Language of the order's emails (the buyer's app language)
 }
 
 // Order device type (for tracking individual devices in an order)
@@ -120,6 +121,7 @@ export interface UserSettings {
 export interface SyncedImage {
   id: number
   user_id: number
+  device_id: number | null
   image_url: string
   prompt: string | null
   synced_at: string
@@ -149,10 +151,13 @@ export interface ScheduledJob {
   prompt: string
   size: string
   style_preset: string | null
-  schedule_type: 'once' | 'daily' | 'weekly'
+  schedule_type: 'once' | 'daily' | 'weekly' | 'cron' | 'interval'
   schedule_time: string // HH:MM format
   schedule_days: string | null // JSON array of days for weekly (e.g., "[1,3,5]" for Mon, Wed, Fri)
   scheduled_at: string | null // For 'once' type - specific datetime
+  cron_expression: string | null // For 'cron' type - one or more 5-field expressions separated by ';'
+  interval_minutes: number | null // For 'interval' type - minutes between runs
+  provider: string | null // Image provider ID; null uses the server default
   timezone: string
   is_enabled: number
   auto_sync_trmnl: number
@@ -161,6 +166,7 @@ export interface ScheduledJob {
   run_count: number
   last_error: string | null // Error message from last failed run
   last_error_at: string | null // When the last error occurred
+  consecutive_failures: number // Runs failed in a row; reset by a successful run
   created_at: string
   updated_at: string
 }
@@ -170,13 +176,15 @@ export interface BatchJob {
   id: number
   user_id: number
   name: string | null
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+  status: 'pending' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled'
   total_count: number
   completed_count: number
   failed_count: number
   size: string
   style_preset: string | null
+  provider: string | null // Image provider ID; null uses the server default
   auto_sync_trmnl: number
+  matrix: string | null // JSON prompt matrix for variation sweeps (null = plain batch)
   created_at: string
   started_at: string | null
   completed_at: string | null
@@ -193,6 +201,14 @@ export interface BatchJobItem {
   created_at: string
   completed_at: string | null
   synced_to_trmnl: number // 0 = not synced, 1 = synced
+  // Per-item overrides from imported batches (null = batch setting)
+  size: string | null
+  style_preset: string | null
+  collection_id: number | null // Add the image to this collection
+  device_id: number | null // Sync the image to this device
+  picked: number // 1 = chosen as a winner in a matrix comparison
+  failure_reason: 'content_policy' | 'rate_limit' | 'network' | 'invalid_size' | 'plan_limit' | 'other' | null
+  retry_count: number // Times the user retried the item after it failed
 }
 
 // User device type (multiple TRMNL devices per user)
@@ -205,6 +221,11 @@ export interface UserDevice {
   is_default: number
   mac_address: string | null
   device_api_key: string | null
+  eink_dither: string | null
+  eink_bit_depth: number | null
+  eink_orientation: string | null
+  eink_fit: string | null
+  polling_token: string | null
   created_at: string
   updated_at: string
 }
@@ -228,6 +249,204 @@ export interface CollectionImage {
   added_at: string
 }
 
+// Device playlist type (rotating gallery images on a TRMNL device)
+export interface DevicePlaylist {
+  id: number
+  device_id: number
+  user_id: number
+  source_type: 'collection' | 'images'
+  collection_id: number | null
+  mode: 'sequential' | 'shuffle' | 'weighted'
+  dwell_minutes: number
+  is_enabled: number
+  current_image_id: number | null
+  last_advanced_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Device playlist item type (hand-ordered gallery images)
+export interface DevicePlaylistItem {
+  id: number
+  playlist_id: number
+  image_id: number
+  position: number
+}
+
+// Prompt list type (named word lists for {{list:name}} prompt template variables)
+export interface PromptList {
+  id: number
+  user_id: number
+  name: string
+  items: string // JSON array of strings
+  created_at: string
+  updated_at: string
+}
+
+// Style preset: a user's own (user_id set) or published by an admin (user_id NULL, visibility 'global')
+export interface StylePreset {
+  id: number
+  user_id: number | null
+  name: string
+  prompt_prefix: string | null
+  prompt_suffix: string | null
+  negative_prompt: string | null // Only sent to providers that support negative prompts
+  size: string | null // Default size when the request doesn't choose one
+  quality: 'standard' | 'hd' | null
+  style: 'vivid' | 'natural' | null
+  visibility: 'private' | 'shared' | 'global' // shared = usable by every user
+  created_at: string
+  updated_at: string
+}
+
+// Notification channels for one event; events without a row use the defaults in notification-service.ts
+export interface NotificationPreference {
+  user_id: number
+  event: string
+  push: number
+  email: number
+  updated_at: string
+}
+
+// Web Push subscription of one browser where the user enabled notifications
+export interface WebPushSubscription {
+  id: number
+  user_id: number
+  endpoint: string
+  p256dh: string // Browser's public key (base64url)
+  auth: string // Browser's auth secret (base64url)
+  user_agent: string | null
+  created_at: string
+}
+
+// Generations a user made in one quota period, per kind (see entitlement-service.ts)
+export interface GenerationUsage {
+  user_id: number
+  period: string // Calendar month, "YYYY-MM" (UTC)
+  kind: 'images' | 'transcriptions'
+  count: number
+  updated_at: string
+}
+
+// One billable OpenAI call, for per-user cost tracking (see usage-service.ts)
+export interface UsageEvent {
+  id: number
+  user_id: number | null // null for calls no user made (prompt suggestions) or deleted users
+  source: 'chat' | 'infographic' | 'batch' | 'schedule' | 'suggestions'
+  source_id: number | null // Batch or scheduled job the call was made for
+  operation: 'image_generation' | 'image_edit' | 'image_variation' | 'chat_completion' | 'transcription'
+  model: string
+  size: string | null
+  quality: string | null
+  image_count: number
+  input_tokens: number
+  output_tokens: number
+  audio_seconds: number
+  estimated_cost: number // USD, from list prices at the time of the call
+  created_at: string
+}
+
+// Sums over a set of usage events
+export interface UsageTotals {
+  requests: number
+  images: number
+  input_tokens: number
+  output_tokens: number
+  audio_seconds: number
+  estimated_cost: number
+}
+
+export interface UsageSourceTotals extends UsageTotals {
+  source: UsageEvent['source']
+}
+
+// One user's usage in a period, for the admin rollup
+export interface UserUsageTotals extends UsageTotals {
+  user_id: number | null
+  email: string | null
+  name: string | null
+}
+
+// Operator account for the admin dashboard (see admin-service.ts). Accounts are disabled, never deleted
+export interface AdminUser {
+  id: number
+  email: string
+  name: string | null
+  password_hash: string
+  role: 'viewer' | 'support' | 'superadmin'
+  disabled: number
+  last_login_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// One admin action. The table is append-only: triggers reject updates and deletes
+export interface AdminAuditEntry {
+  id: number
+  admin_user_id: number
+  admin_email: string // Copied so the entry reads on its own
+  action: string // e.g. device.update, data.import (ADMIN_AUDIT_ACTIONS)
+  target_type: string | null // admin_user, device, style_preset or email
+  target_id: number | null
+  user_id: number | null // User the action affected, e.g. a device's owner
+  details: string | null // JSON
+  ip_address: string | null
+  created_at: string
+}
+
+// Rate limiter counter for one key and window (middleware/rate-limit-store.ts)
+export interface RateLimitCounter {
+  key: string // limiter|window|tier|subject
+  count: number
+  expires_at: number // Unix ms
+}
+
+// Every email the app sent (or tried to), for the admin email log
+export interface SentEmail {
+  id: number
+  to_address: string
+  from_address: string
+  subject: string
+  html_content: string
+  text_content: string | null
+  transport: string // Transport of the last attempt: resend, smtp, file or outbox
+  status: 'sent' | 'failed' | 'captured' // captured = kept locally (file/outbox), not delivered
+  error: string | null
+  provider_message_id: string | null
+  attempts: number
+  created_at: string
+  last_attempt_at: string
+}
+
+// Email log row without the message bodies, for listings
+export type SentEmailSummary = Omit<SentEmail, 'html_content' | 'text_content'>
+
+// Chat conversation type (server-side chat history)
+export interface Conversation {
+  id: number
+  user_id: number
+  title: string
+  created_at: string
+  updated_at: string
+}
+
+// Conversation list row with message count and latest image
+export interface ConversationSummary extends Conversation {
+  message_count: number
+  last_image_url: string | null
+}
+
+// Conversation message type
+export interface ConversationMessage {
+  id: number
+  conversation_id: number
+  type: "user" | "assistant"
+  content: string
+  image_url: string | null
+  image_id: number | null // gallery image shown in this message, if any
+  created_at: string
+}
+
 // Password reset token type
 export interface PasswordResetToken {
   id: number
@@ -238,6 +457,33 @@ export interface PasswordResetToken {
   created_at: string
 }
 
+// TOTP second factor for a user; enabled stays 0 until enrollment is confirmed with a code
+export interface UserTwoFactor {
+  user_id: number
+  secret: string // Base32 TOTP secret
+  enabled: number
+  last_used_step: number | null // Time step of the last accepted code, so codes can't be replayed
+  enabled_at: string | null
+  created_at: string
+}
+
+// One-time recovery code, stored as a SHA-256 hash
+export interface RecoveryCode {
+  id: number
+  user_id: number
+  code_hash: string
+  used_at: string | null
+  created_at: string
+}
+
+// Wrong codes entered against one two-factor login challenge
+export interface TwoFactorChallengeFailure {
+  jti: string
+  user_id: number
+  failed_attempts: number
+  expires_at: string
+}
+
 // Token blacklist type
 export interface TokenBlacklist {
   id: number
@@ -263,6 +509,35 @@ export interface RefreshToken {
   revoked_at: string | null
 }
 
+// Job queue entry (batch items, TRMNL syncs and scheduled runs)
+export interface QueuedJob {
+  id: number
+  type: string
+  user_id: number | null
+  payload: string // JSON, shape depends on type
+  status: 'queued' | 'running' | 'completed' | 'dead'
+  attempts: number
+  max_attempts: number
+  dedupe_key: string | null // Unique while the row exists, so the same work isn't queued twice
+  group_key: string | null // e.g. "batch:12", used to drop a batch's queued items on cancel
+  run_at: string // Earliest start (ISO); pushed back by retry backoff
+  locked_by: string | null
+  locked_until: string | null // Lease expiry; expired running jobs are reclaimed
+  last_error: string | null
+  created_at: string
+  started_at: string | null
+  finished_at: string | null
+}
+
+export interface QueuedJobWithUser extends QueuedJob {
+  user_email: string | null
+}
+
+// A user's next queued job, with when that user last started a job of the same type
+export interface QueuedJobCandidate extends QueuedJob {
+  user_last_started_at: string | null
+}
+
 // Initialize database tables
 export function initDatabase() {
   log("INFO", "Initializing database...", { dbPath: DB_PATH })
@@ -362,6 +637,11 @@ export function initDatabase() {
   db.run(`CREATE INDEX IF NOT EXISTS idx_orders_order_number ON orders(order_number)`)
   db.run(`CREATE INDEX IF NOT EXISTS idx_orders_razorpay_order_id ON orders(razorpay_order_id)`)
 
+  // Migration: Add email language to orders
+  try {
+    db.run(`ALTER TABLE orders ADD COLUMN language TEXT DEFAULT 'en'`)
+  } catch { /* column already exists */ }
+
   // Order devices table (for tracking individual devices in an order)
   db.run(`
     CREATE TABLE IF NOT EXISTS order_devices (
@@ -461,6 +741,24 @@ export function initDatabase() {
     db.run(`ALTER TABLE scheduled_jobs ADD COLUMN last_error_at DATETIME`)
   } catch { /* column already exists */ }
 
+  // Migration: Add cron and interval schedule columns to scheduled_jobs
+  try {
+    db.run(`ALTER TABLE scheduled_jobs ADD COLUMN cron_expression TEXT`)
+  } catch { /* column already exists */ }
+  try {
+    db.run(`ALTER TABLE scheduled_jobs ADD COLUMN interval_minutes INTEGER`)
+  } catch { /* column already exists */ }
+
+  // Migration: Add image provider to scheduled_jobs
+  try {
+    db.run(`ALTER TABLE scheduled_jobs ADD COLUMN provider TEXT`)
+  } catch { /* column already exists */ }
+
+  // Migration: Count failed runs in a row (for failure notifications)
+  try {
+    db.run(`ALTER TABLE scheduled_jobs ADD COLUMN consecutive_failures INTEGER DEFAULT 0`)
+  } catch { /* column already exists */ }
+
   // Batch jobs table
   db.run(`
     CREATE TABLE IF NOT EXISTS batch_jobs (
@@ -510,6 +808,70 @@ export function initDatabase() {
     db.run(`ALTER TABLE batch_job_items ADD COLUMN synced_to_trmnl INTEGER DEFAULT 0`)
   } catch { /* Column already exists */ }
 
+  // Migration: Add image provider to batch_jobs
+  try {
+    db.run(`ALTER TABLE batch_jobs ADD COLUMN provider TEXT`)
+  } catch { /* Column already exists */ }
+
+  // Migration: Per-item parameters for imported batches
+  try {
+    db.run(`ALTER TABLE batch_job_items ADD COLUMN size TEXT`)
+  } catch { /* Column already exists */ }
+  try {
+    db.run(`ALTER TABLE batch_job_items ADD COLUMN style_preset TEXT`)
+  } catch { /* Column already exists */ }
+  // No foreign keys: collections and devices are created (and rebuilt) further down;
+  // the processor skips targets that no longer exist
+  try {
+    db.run(`ALTER TABLE batch_job_items ADD COLUMN collection_id INTEGER`)
+  } catch { /* Column already exists */ }
+  try {
+    db.run(`ALTER TABLE batch_job_items ADD COLUMN device_id INTEGER`)
+  } catch { /* Column already exists */ }
+
+  // Migration: Prompt matrix batches and their picked winners
+  try {
+    db.run(`ALTER TABLE batch_jobs ADD COLUMN matrix TEXT`)
+  } catch { /* Column already exists */ }
+  try {
+    db.run(`ALTER TABLE batch_job_items ADD COLUMN picked INTEGER DEFAULT 0`)
+  } catch { /* Column already exists */ }
+
+  // Migration: Classified failures and manual retries of batch items
+  try {
+    db.run(`ALTER TABLE batch_job_items ADD COLUMN failure_reason TEXT`)
+  } catch { /* Column already exists */ }
+  try {
+    db.run(`ALTER TABLE batch_job_items ADD COLUMN retry_count INTEGER DEFAULT 0`)
+  } catch { /* Column already exists */ }
+
+  // Durable job queue shared by the batch processor, TRMNL syncs and the scheduler.
+  // Times are ISO strings written by the app so they compare with the app clock.
+  db.run(`
+    CREATE TABLE IF NOT EXISTS job_queue (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      type TEXT NOT NULL,
+      user_id INTEGER,
+      payload TEXT NOT NULL DEFAULT '{}',
+      status TEXT NOT NULL DEFAULT 'queued',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER NOT NULL DEFAULT 3,
+      dedupe_key TEXT UNIQUE,
+      group_key TEXT,
+      run_at TEXT NOT NULL,
+      locked_by TEXT,
+      locked_until TEXT,
+      last_error TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      started_at TEXT,
+      finished_at TEXT,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `)
+  db.run(`CREATE INDEX IF NOT EXISTS idx_job_queue_type_status_run_at ON job_queue(type, status, run_at)`)
+  db.run(`CREATE INDEX IF NOT EXISTS idx_job_queue_type_user_started ON job_queue(type, user_id, started_at)`)
+  db.run(`CREATE INDEX IF NOT EXISTS idx_job_queue_group_key ON job_queue(group_key)`)
+
   // Token blacklist table (for revoked tokens)
   db.run(`
     CREATE TABLE IF NOT EXISTS token_blacklist (
@@ -566,6 +928,40 @@ export function initDatabase() {
   db.run(`CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_token ON password_reset_tokens(token)`)
   db.run(`CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_expires_at ON password_reset_tokens(expires_at)`)
 
+  // Two-factor authentication (TOTP secret and recovery codes)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS user_two_factor (
+      user_id INTEGER PRIMARY KEY,
+      secret TEXT NOT NULL,
+      enabled INTEGER DEFAULT 0,
+      last_used_step INTEGER,
+      enabled_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS user_recovery_codes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      code_hash TEXT NOT NULL,
+      used_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `)
+  db.run(`CREATE INDEX IF NOT EXISTS idx_user_recovery_codes_user_id ON user_recovery_codes(user_id)`)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS two_factor_challenge_failures (
+      jti TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      failed_attempts INTEGER NOT NULL DEFAULT 1,
+      expires_at DATETIME NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `)
+  db.run(`CREATE INDEX IF NOT EXISTS idx_two_factor_challenge_failures_expires_at ON two_factor_challenge_failures(expires_at)`)
+
   // User devices table (multiple TRMNL devices per user)
   // Migration: Remove UNIQUE constraint from webhook_uuid (users enter their own external URLs)
   // Migration 2: Add mac_address and device_api_key columns
@@ -604,6 +1000,23 @@ export function initDatabase() {
       db.run(`ALTER TABLE user_devices ADD COLUMN mac_address TEXT`)
       db.run(`ALTER TABLE user_devices ADD COLUMN device_api_key TEXT`)
     }
+
+    // Check if e-ink rendering columns exist, add them if not
+    const hasEinkDither = columns.some(c => c.name === "eink_dither")
+    if (!hasEinkDither) {
+      log("INFO", "Adding e-ink rendering columns to user_devices")
+      db.run(`ALTER TABLE user_devices ADD COLUMN eink_dither TEXT DEFAULT 'floyd-steinberg'`)
+      db.run(`ALTER TABLE user_devices ADD COLUMN eink_bit_depth INTEGER DEFAULT 1`)
+      db.run(`ALTER TABLE user_devices ADD COLUMN eink_orientation TEXT DEFAULT 'landscape'`)
+      db.run(`ALTER TABLE user_devices ADD COLUMN eink_fit TEXT DEFAULT 'cover'`)
+    }
+
+    // Check if polling_token column exists, add it if not
+    const hasPollingToken = columns.some(c => c.name === "polling_token")
+    if (!hasPollingToken) {
+      log("INFO", "Adding polling_token column to user_devices")
+      db.run(`ALTER TABLE user_devices ADD COLUMN polling_token TEXT`)
+    }
   } else {
     db.run(`
       CREATE TABLE IF NOT EXISTS user_devices (
@@ -615,6 +1028,11 @@ export function initDatabase() {
         is_default INTEGER DEFAULT 0,
         mac_address TEXT,
         device_api_key TEXT,
+        eink_dither TEXT DEFAULT 'floyd-steinberg',
+        eink_bit_depth INTEGER DEFAULT 1,
+        eink_orientation TEXT DEFAULT 'landscape',
+        eink_fit TEXT DEFAULT 'cover',
+        polling_token TEXT,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
@@ -627,6 +1045,27 @@ export function initDatabase() {
   db.run(`CREATE INDEX IF NOT EXISTS idx_user_devices_webhook_uuid ON user_devices(webhook_uuid)`)
   db.run(`CREATE INDEX IF NOT EXISTS idx_user_devices_is_default ON user_devices(is_default)`)
 
+  // Give every device a random polling token (devices created before tokens existed)
+  db.run(`UPDATE user_devices SET polling_token = lower(hex(randomblob(24))) WHERE polling_token IS NULL`)
+  db.run(`CREATE UNIQUE INDEX IF NOT EXISTS idx_user_devices_polling_token ON user_devices(polling_token)`)
+
+  // Migration: Per-device synced image history
+  // Existing rows belong to the user's default device (or their first device if none is marked default)
+  try {
+    db.run(`ALTER TABLE synced_images ADD COLUMN device_id INTEGER REFERENCES user_devices(id) ON DELETE CASCADE`)
+    db.run(`
+      UPDATE synced_images SET device_id = (
+        SELECT id FROM user_devices
+        WHERE user_devices.user_id = synced_images.user_id
+        ORDER BY is_default DESC, created_at ASC
+        LIMIT 1
+      )
+      WHERE device_id IS NULL
+    `)
+    log("INFO", "Migrated synced_images to per-device history")
+  } catch { /* column already exists */ }
+  db.run(`CREATE INDEX IF NOT EXISTS idx_synced_images_device_id ON synced_images(device_id)`)
+
   // Collections table
   db.run(`
     CREATE TABLE IF NOT EXISTS collections (
@@ -660,6 +1099,244 @@ export function initDatabase() {
   db.run(`CREATE INDEX IF NOT EXISTS idx_collection_images_collection_id ON collection_images(collection_id)`)
   db.run(`CREATE INDEX IF NOT EXISTS idx_collection_images_image_id ON collection_images(image_id)`)
 
+  // Device playlists table (one per device; rotates a collection or hand-ordered images)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS device_playlists (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      device_id INTEGER NOT NULL UNIQUE,
+      user_id INTEGER NOT NULL,
+      source_type TEXT NOT NULL DEFAULT 'collection',
+      collection_id INTEGER,
+      mode TEXT NOT NULL DEFAULT 'sequential',
+      dwell_minutes INTEGER NOT NULL DEFAULT 60,
+      is_enabled INTEGER DEFAULT 1,
+      current_image_id INTEGER,
+      last_advanced_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (device_id) REFERENCES user_devices(id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (collection_id) REFERENCES collections(id) ON DELETE SET NULL
+    )
+  `)
+  db.run(`CREATE INDEX IF NOT EXISTS idx_device_playlists_user_id ON device_playlists(user_id)`)
+
+  // Device playlist items table (hand-ordered image lists)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS device_playlist_items (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      playlist_id INTEGER NOT NULL,
+      image_id INTEGER NOT NULL,
+      position INTEGER NOT NULL DEFAULT 0,
+      FOREIGN KEY (playlist_id) REFERENCES device_playlists(id) ON DELETE CASCADE,
+      FOREIGN KEY (image_id) REFERENCES generated_images(id) ON DELETE CASCADE,
+      UNIQUE(playlist_id, image_id)
+    )
+  `)
+  db.run(`CREATE INDEX IF NOT EXISTS idx_device_playlist_items_playlist_id ON device_playlist_items(playlist_id)`)
+
+  // Prompt lists table (user-defined values for prompt templates)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS prompt_lists (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      items TEXT NOT NULL DEFAULT '[]',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      UNIQUE(user_id, name)
+    )
+  `)
+
+  // Style presets table (user-defined and admin-published presets; built-in presets live in code)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS style_presets (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER,
+      name TEXT NOT NULL,
+      prompt_prefix TEXT,
+      prompt_suffix TEXT,
+      negative_prompt TEXT,
+      size TEXT,
+      quality TEXT,
+      style TEXT,
+      visibility TEXT NOT NULL DEFAULT 'private',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `)
+  db.run(`CREATE INDEX IF NOT EXISTS idx_style_presets_user_id ON style_presets(user_id)`)
+  db.run(`CREATE INDEX IF NOT EXISTS idx_style_presets_visibility ON style_presets(visibility)`)
+
+  // Notification preferences table (one row per user and event the user changed)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS notification_preferences (
+      user_id INTEGER NOT NULL,
+      event TEXT NOT NULL,
+      push INTEGER NOT NULL DEFAULT 1,
+      email INTEGER NOT NULL DEFAULT 1,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (user_id, event),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `)
+
+  // Web Push subscriptions table
+  db.run(`
+    CREATE TABLE IF NOT EXISTS push_subscriptions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      endpoint TEXT NOT NULL UNIQUE,
+      p256dh TEXT NOT NULL,
+      auth TEXT NOT NULL,
+      user_agent TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `)
+  db.run(`CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON push_subscriptions(user_id)`)
+
+  // Generation usage counters for monthly quotas
+  db.run(`
+    CREATE TABLE IF NOT EXISTS generation_usage (
+      user_id INTEGER NOT NULL,
+      period TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      count INTEGER NOT NULL DEFAULT 0,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (user_id, period, kind),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `)
+
+  // Usage ledger: one row per OpenAI call, with its estimated cost
+  db.run(`
+    CREATE TABLE IF NOT EXISTS usage_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER,
+      source TEXT NOT NULL,
+      source_id INTEGER,
+      operation TEXT NOT NULL,
+      model TEXT NOT NULL,
+      size TEXT,
+      quality TEXT,
+      image_count INTEGER NOT NULL DEFAULT 0,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      audio_seconds REAL NOT NULL DEFAULT 0,
+      estimated_cost REAL NOT NULL DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+    )
+  `)
+  db.run(`CREATE INDEX IF NOT EXISTS idx_usage_events_user_created ON usage_events(user_id, created_at)`)
+  db.run(`CREATE INDEX IF NOT EXISTS idx_usage_events_created_at ON usage_events(created_at)`)
+
+  // Admin users table (operators of the admin dashboard)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS admin_users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      email TEXT UNIQUE NOT NULL,
+      name TEXT,
+      password_hash TEXT NOT NULL,
+      role TEXT NOT NULL CHECK(role IN ('viewer', 'support', 'superadmin')),
+      disabled INTEGER NOT NULL DEFAULT 0,
+      last_login_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `)
+
+  // Admin audit log table (append-only record of admin actions)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS admin_audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      admin_user_id INTEGER NOT NULL,
+      admin_email TEXT NOT NULL,
+      action TEXT NOT NULL,
+      target_type TEXT,
+      target_id INTEGER,
+      user_id INTEGER,
+      details TEXT,
+      ip_address TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (admin_user_id) REFERENCES admin_users(id)
+    )
+  `)
+  db.run(`CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at ON admin_audit_log(created_at)`)
+  db.run(`CREATE INDEX IF NOT EXISTS idx_admin_audit_log_admin ON admin_audit_log(admin_user_id, created_at)`)
+  db.run(`CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON admin_audit_log(target_type, target_id)`)
+  db.run(`CREATE INDEX IF NOT EXISTS idx_admin_audit_log_user ON admin_audit_log(user_id)`)
+  db.run(`
+    CREATE TRIGGER IF NOT EXISTS admin_audit_log_no_update BEFORE UPDATE ON admin_audit_log
+    BEGIN SELECT RAISE(ABORT, 'admin_audit_log is append-only'); END
+  `)
+  db.run(`
+    CREATE TRIGGER IF NOT EXISTS admin_audit_log_no_delete BEFORE DELETE ON admin_audit_log
+    BEGIN SELECT RAISE(ABORT, 'admin_audit_log is append-only'); END
+  `)
+
+  // Rate limit counters (shared by every process using this database, kept across restarts)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS rate_limit_counters (
+      key TEXT PRIMARY KEY,
+      count INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL
+    )
+  `)
+  db.run(`CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_expires_at ON rate_limit_counters(expires_at)`)
+
+  // Sent emails table (email log shown to admins, and the outbox for local development)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS sent_emails (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      to_address TEXT NOT NULL,
+      from_address TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      html_content TEXT NOT NULL,
+      text_content TEXT,
+      transport TEXT NOT NULL,
+      status TEXT NOT NULL CHECK(status IN ('sent', 'failed', 'captured')),
+      error TEXT,
+      provider_message_id TEXT,
+      attempts INTEGER NOT NULL DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      last_attempt_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `)
+  db.run(`CREATE INDEX IF NOT EXISTS idx_sent_emails_created_at ON sent_emails(created_at)`)
+
+  // Chat conversations table
+  db.run(`
+    CREATE TABLE IF NOT EXISTS conversations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      title TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `)
+  db.run(`CREATE INDEX IF NOT EXISTS idx_conversations_user_id ON conversations(user_id, updated_at)`)
+
+  // Conversation messages table
+  db.run(`
+    CREATE TABLE IF NOT EXISTS conversation_messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      conversation_id INTEGER NOT NULL,
+      type TEXT NOT NULL CHECK(type IN ('user', 'assistant')),
+      content TEXT NOT NULL,
+      image_url TEXT,
+      image_id INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE,
+      FOREIGN KEY (image_id) REFERENCES generated_images(id) ON DELETE SET NULL
+    )
+  `)
+  db.run(`CREATE INDEX IF NOT EXISTS idx_conversation_messages_conversation_id ON conversation_messages(conversation_id)`)
+
   // Shared galleries table (for bulk sharing multiple images)
   db.run(`
     CREATE TABLE IF NOT EXISTS shared_galleries (
@@ -726,8 +1403,11 @@ let _userQueries: {
 let _syncedImageQueries: {
   findLatestByUserId: Statement<SyncedImage, [number]>
   findAllByUserId: Statement<SyncedImage, [number]>
-  create: Statement<SyncedImage, [number, string, string | null]>
+  findLatestByDeviceId: Statement<SyncedImage, [number]>
+  findAllByDeviceId: Statement<SyncedImage, [number]>
+  create: Statement<SyncedImage, [number, number | null, string, string | null]>
   deleteByUserId: Statement<void, [number]>
+  deleteByDeviceId: Statement<void, [number]>
 }
 
 let _generatedImageQueries: {
@@ -752,7 +1432,7 @@ let _orderQueries: {
   findAllByUserId: Statement<Order, [number]>
   findPaidByUserId: Statement<Order, [number]>
   countPaidByUserId: Statement<{ count: number }, [number]>
-  create: Statement<Order, [number, string, number, number, number, string, string, string | null, string, string, string | null, string, string, string, string, number, string | null, string | null]>
+  create: Statement<Order, [number, string, number, number, number, string, string, string | null, string, string, string | null, string, string, string, string, number, string | null, string | null, string]>
   updateRazorpayOrderId: Statement<void, [string, number]>
   updatePayment: Statement<void, [string, number]>
   updateStatus: Statement<void, [string, number]>
@@ -766,8 +1446,8 @@ let _scheduledJobQueries: {
   findAllByUserIdPaginated: Statement<ScheduledJob, [number, number, number]>
   findDueJobs: Statement<ScheduledJob, [string]>
   countByUserId: Statement<{ count: number }, [number]>
-  create: Statement<ScheduledJob, [number, string, string, string | null, string, string, string | null, string | null, string, number, number, string | null]>
-  update: Statement<void, [string, string, string | null, string, string, string | null, string | null, string, number, number, string | null, number, number]>
+  create: Statement<ScheduledJob, [number, string, string, string | null, string, string, string | null, string | null, string, number, number, string | null, string | null, number | null, string | null]>
+  update: Statement<void, [string, string, string | null, string, string, string | null, string | null, string, number, number, string | null, string | null, number | null, string | null, number, number]>
   updateEnabled: Statement<void, [number, number, number]>
   updateLastRun: Statement<void, [string, string | null, number]>
   updateError: Statement<void, [string, number]>
@@ -781,24 +1461,51 @@ let _batchJobQueries: {
   findAllByUserId: Statement<BatchJob, [number]>
   findAllByUserIdPaginated: Statement<BatchJob, [number, number, number]>
   countByUserId: Statement<{ count: number }, [number]>
-  findPending: Statement<BatchJob, []>
-  create: Statement<BatchJob, [number, string | null, number, string, string | null, number]>
+  findActive: Statement<BatchJob, []>
+  create: Statement<BatchJob, [number, string | null, number, string, string | null, number, string | null, string | null]>
   updateStatus: Statement<void, [string, number]>
   updateProgress: Statement<void, [number, number, number]>
   incrementCompleted: Statement<void, [number]>
   incrementFailed: Statement<void, [number]>
   updateStarted: Statement<void, [number]>
   updateCompleted: Statement<void, [string, number]>
+  reopenForRetry: Statement<void, [number, number]>
   delete: Statement<void, [number, number]>
 }
 
 let _batchJobItemQueries: {
+  findById: Statement<BatchJobItem, [number]>
   findByBatchId: Statement<BatchJobItem, [number]>
   findPendingByBatchId: Statement<BatchJobItem, [number]>
-  create: Statement<BatchJobItem, [number, string]>
+  create: Statement<BatchJobItem, [number, string, string | null, string | null, number | null, number | null]>
   updateStatus: Statement<void, [string, number | null, string | null, number]>
   updateCompleted: Statement<void, [string, number | null, string | null, number]>
   markSyncedToTrmnl: Statement<void, [number]>
+  markPicked: Statement<void, [number, number]>
+  markFailed: Statement<void, [string, string, number]>
+  resetForRetry: Statement<void, [number]>
+  updatePrompt: Statement<void, [string, number]>
+}
+
+let _jobQueueQueries: {
+  findById: Statement<QueuedJob, [number]>
+  create: Statement<QueuedJob, [string, number | null, string, number, string | null, string | null, string]>
+  createOrRequeue: Statement<QueuedJob, [string, number | null, string, number, string | null, string | null, string]>
+  findNextQueuedPerUser: Statement<QueuedJobCandidate, [string, string]>
+  findExpiredLeases: Statement<QueuedJob, [string, string]>
+  findLastStartedAt: Statement<{ started_at: string | null }, [string]>
+  findUserLastStartedAt: Statement<{ started_at: string | null }, [string, number]>
+  countActiveUsers: Statement<{ count: number }, [string]>
+  averageDurationMs: Statement<{ duration_ms: number | null }, [string]>
+  countRunning: Statement<{ count: number }, [string]>
+  claim: Statement<QueuedJob, [string, string, string, number]>
+  complete: Statement<void, [string, number, string | null, number]>
+  retry: Statement<void, [string, string, number, string | null, number]>
+  markDead: Statement<void, [string, string, number, string | null, number]>
+  deleteQueuedByGroup: Statement<void, [string]>
+  deleteCompletedBefore: Statement<void, [string]>
+  findAllByStatus: Statement<QueuedJobWithUser, [string, number, number]>
+  countByStatus: Statement<{ status: string; count: number }, []>
 }
 
 let _passwordResetTokenQueries: {
@@ -809,6 +1516,26 @@ let _passwordResetTokenQueries: {
   deleteByUserId: Statement<void, [number]>
 }
 
+let _twoFactorQueries: {
+  findByUserId: Statement<UserTwoFactor, [number]>
+  startEnrollment: Statement<UserTwoFactor, [number, string]>
+  enable: Statement<void, [number, number]>
+  markStepUsed: Statement<void, [number, number]>
+  deleteByUserId: Statement<void, [number]>
+}
+
+let _recoveryCodeQueries: {
+  create: Statement<RecoveryCode, [number, string]>
+  countUnused: Statement<{ count: number }, [number]>
+  use: Statement<void, [number, string]>
+  deleteByUserId: Statement<void, [number]>
+}
+
+let _twoFactorChallengeFailureQueries: {
+  recordFailure: Statement<TwoFactorChallengeFailure, [string, number, string]>
+  deleteExpired: Statement<void, [string]>
+}
+
 let _tokenBlacklistQueries: {
   findByJti: Statement<TokenBlacklist, [string]>
   create: Statement<TokenBlacklist, [string, number, string, string | null]>
@@ -840,6 +1567,7 @@ let _collectionImageQueries: {
   addImage: Statement<CollectionImage, [number, number]>
   removeImage: Statement<void, [number, number]>
   findImagesByCollectionId: Statement<GeneratedImage, [number, number, number]>
+  findAllImagesByCollectionId: Statement<GeneratedImage, [number]>
   countImagesByCollectionId: Statement<{ count: number }, [number]>
   findCollectionsForImage: Statement<{ collection_id: number }, [number, number]>
 }
@@ -850,14 +1578,131 @@ let _userDeviceQueries: {
   findAllByUserId: Statement<UserDevice, [number]>
   findDefaultByUserId: Statement<UserDevice, [number]>
   findByWebhookUuid: Statement<UserDevice, [string]>
+  findByPollingToken: Statement<UserDevice, [string]>
   countByUserId: Statement<{ count: number }, [number]>
-  create: Statement<UserDevice, [number, string, string, string, number, string | null, string | null]>
+  create: Statement<UserDevice, [number, string, string, string, number, string | null, string | null, string]>
   update: Statement<void, [string, string, string, string | null, string | null, number]>
+  updateEinkSettings: Statement<void, [string, number, string, string, number]>
+  updatePollingToken: Statement<void, [string, number]>
   setDefault: Statement<void, [number, number]>
   clearDefault: Statement<void, [number]>
   delete: Statement<void, [number, number]>
 }
 
+let _devicePlaylistQueries: {
+  findByDeviceId: Statement<DevicePlaylist, [number]>
+  upsert: Statement<DevicePlaylist, [number, number, string, number | null, string, number, number]>
+  updateProgress: Statement<void, [number | null, string | null, number, number | null, string | null]>
+  deleteByDeviceId: Statement<void, [number]>
+}
+
+let _devicePlaylistItemQueries: {
+  findImagesByPlaylistId: Statement<GeneratedImage, [number]>
+  create: Statement<DevicePlaylistItem, [number, number, number]>
+  deleteByPlaylistId: Statement<void, [number]>
+}
+
+let _promptListQueries: {
+  findAllByUserId: Statement<PromptList, [number]>
+  findByIdAndUserId: Statement<PromptList, [number, number]>
+  findByUserIdAndName: Statement<PromptList, [number, string]>
+  countByUserId: Statement<{ count: number }, [number]>
+  create: Statement<PromptList, [number, string, string]>
+  update: Statement<void, [string, string, number, number]>
+  delete: Statement<void, [number, number]>
+}
+
+let _stylePresetQueries: {
+  findById: Statement<StylePreset, [number]>
+  findAvailable: Statement<StylePreset, [number]>
+  findGlobal: Statement<StylePreset, []>
+  countByUserId: Statement<{ count: number }, [number]>
+  create: Statement<StylePreset, [number | null, string, string | null, string | null, string | null, string | null, string | null, string | null, string]>
+  update: Statement<void, [string, string | null, string | null, string | null, string | null, string | null, string | null, string, number]>
+  delete: Statement<void, [number]>
+}
+
+let _notificationPreferenceQueries: {
+  findByUserId: Statement<NotificationPreference, [number]>
+  upsert: Statement<void, [number, string, number, number]>
+}
+
+let _pushSubscriptionQueries: {
+  findByUserId: Statement<WebPushSubscription, [number]>
+  upsert: Statement<WebPushSubscription, [number, string, string, string, string | null]>
+  deleteByEndpoint: Statement<void, [string]>
+  deleteByEndpointAndUserId: Statement<void, [string, number]>
+}
+
+let _generationUsageQueries: {
+  findByUserAndPeriod: Statement<GenerationUsage, [number, string]>
+  ensure: Statement<void, [number, string, string]>
+  consume: Statement<GenerationUsage, [number, number, string, string, number]>
+  refund: Statement<void, [number, number, string, string]>
+}
+
+let _usageEventQueries: {
+  create: Statement<void, [number | null, string, number | null, string, string, string | null, string | null, number, number, number, number, number]>
+  totals: Statement<UsageTotals, [string, string]>
+  totalsByUser: Statement<UsageTotals, [number, string, string]>
+  totalsBySourceForUser: Statement<UsageSourceTotals, [number, string, string]>
+  findPageByUser: Statement<UsageEvent, [number, string, string, number, number]>
+  countByUser: Statement<{ count: number }, [number, string, string]>
+  rollupByUser: Statement<UserUsageTotals, [string, string, number, number]>
+  countUsers: Statement<{ count: number }, [string, string]>
+}
+
+let _adminUserQueries: {
+  findById: Statement<AdminUser, [number]>
+  findByEmail: Statement<AdminUser, [string]>
+  findAll: Statement<AdminUser, []>
+  count: Statement<{ count: number }, []>
+  countActiveSuperadmins: Statement<{ count: number }, []>
+  create: Statement<AdminUser, [string, string | null, string, string]>
+  update: Statement<AdminUser, [string | null, string, number, number]>
+  updatePassword: Statement<void, [string, number]>
+  touchLastLogin: Statement<void, [number]>
+}
+
+let _adminAuditQueries: {
+  create: Statement<AdminAuditEntry, [number, string, string, string | null, number | null, number | null, string | null, string | null]>
+  findPage: Statement<AdminAuditEntry, [number | null, string | null, string | null, number | null, number | null, number, number]>
+  count: Statement<{ count: number }, [number | null, string | null, string | null, number | null, number | null]>
+}
+
+let _rateLimitQueries: {
+  increment: Statement<{ count: number }, [string, number, number]>
+  get: Statement<{ count: number }, [string, number]>
+  scan: Statement<Pick<RateLimitCounter, "key" | "count">, [string, number]>
+  deleteExpired: Statement<void, [number]>
+  deleteAll: Statement<void, []>
+}
+
+let _sentEmailQueries: {
+  findById: Statement<SentEmail, [number]>
+  findPage: Statement<SentEmailSummary, [string | null, string | null, number, number]>
+  count: Statement<{ count: number }, [string | null, string | null]>
+  create: Statement<SentEmail, [string, string, string, string, string | null, string, string, string | null, string | null]>
+  recordAttempt: Statement<SentEmail, [string, string, string | null, string | null, number]>
+  deleteBefore: Statement<void, [string]>
+}
+
+let _conversationQueries: {
+  findAllByUserId: Statement<ConversationSummary, [number, number]>
+  findByIdAndUserId: Statement<Conversation, [number, number]>
+  create: Statement<Conversation, [number, string]>
+  updateTitle: Statement<void, [string, number, number]>
+  touch: Statement<void, [number]>
+  delete: Statement<void, [number, number]>
+}
+
+let _conversationMessageQueries: {
+  findByConversationId: Statement<ConversationMessage, [number]>
+  countByConversationId: Statement<{ count: number }, [number]>
+  create: Statement<ConversationMessage, [number, string, string, string | null, number | null]>
+  deleteByConversationId: Statement<void, [number]>
+}
+
 function initPreparedStatements() {
   _userQueries = {
     findByEmail: db.prepare<User, [string]>(
@@ -914,12 +1759,21 @@ function initPreparedStatements() {
     findAllByUserId: db.prepare<SyncedImage, [number]>(
       "SELECT * FROM synced_images WHERE user_id = ? ORDER BY synced_at DESC"
     ),
-    create: db.prepare<SyncedImage, [number, string, string | null]>(
-      "INSERT INTO synced_images (user_id, image_url, prompt) VALUES (?, ?, ?) RETURNING *"
+    findLatestByDeviceId: db.prepare<SyncedImage, [number]>(
+      "SELECT * FROM synced_images WHERE device_id = ? ORDER BY synced_at DESC, id DESC LIMIT 1"
+    ),
+    findAllByDeviceId: db.prepare<SyncedImage, [number]>(
+      "SELECT * FROM synced_images WHERE device_id = ? ORDER BY synced_at DESC, id DESC"
+    ),
+    create: db.prepare<SyncedImage, [number, number | null, string, string | null]>(
+      "INSERT INTO synced_images (user_id, device_id, image_url, prompt) VALUES (?, ?, ?, ?) RETURNING *"
     ),
     deleteByUserId: db.prepare<void, [number]>(
       "DELETE FROM synced_images WHERE user_id = ?"
     ),
+    deleteByDeviceId: db.prepare<void, [number]>(
+      "DELETE FROM synced_images WHERE device_id = ?"
+    ),
   }
 
   _generatedImageQueries = {
@@ -985,8 +1839,8 @@ function initPreparedStatements() {
         user_id, order_number, quantity, unit_price, total_amount, currency,
         shipping_name, shipping_email, shipping_phone, shipping_address_line1,
         shipping_address_line2, shipping_city, shipping_state, shipping_postal_code,
-        shipping_country, is_gift, gift_recipient_name, gift_message
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`
+        shipping_country, is_gift, gift_recipient_name, gift_message, language
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`
     ),
     updateRazorpayOrderId: db.prepare<void, [string, number]>(
       "UPDATE orders SET razorpay_order_id = ? WHERE id = ?"
@@ -994,11 +1848,15 @@ function initPreparedStatements() {
     updatePayment: db.prepare<void, [string, number]>(
       "UPDATE orders SET razorpay_payment_id = ?, status = 'paid', paid_at = CURRENT_TIMESTAMP WHERE id = ?"
     ),
+    // Stamps shipped_at / delivered_at the first time an order reaches that status
     updateStatus: db.prepare<void, [string, number]>(
-      "UPDATE orders SET status = ? WHERE id = ?"
+      `UPDATE orders SET status = ?1,
+         shipped_at = CASE WHEN ?1 = 'shipped' THEN COALESCE(shipped_at, CURRENT_TIMESTAMP) ELSE shipped_at END,
+         delivered_at = CASE WHEN ?1 = 'delivered' THEN COALESCE(delivered_at, CURRENT_TIMESTAMP) ELSE delivered_at END
+       WHERE id = ?2`
     ),
     updateTracking: db.prepare<void, [string, string, string | null, number]>(
-      "UPDATE orders SET tracking_number = ?, carrier = ?, tracking_url = ?, status = 'shipped', shipped_at = CURRENT_TIMESTAMP WHERE id = ?"
+      "UPDATE orders SET tracking_number = ?, carrier = ?, tracking_url = ?, status = CASE WHEN status = 'delivered' THEN status ELSE 'shipped' END, shipped_at = CURRENT_TIMESTAMP WHERE id = ?"
     ),
   }
 
@@ -1021,17 +1879,18 @@ function initPreparedStatements() {
     countByUserId: db.prepare<{ count: number }, [number]>(
       "SELECT COUNT(*) as count FROM scheduled_jobs WHERE user_id = ?"
     ),
-    create: db.prepare<ScheduledJob, [number, string, string, string | null, string, string, string | null, string | null, string, number, number, string | null]>(
+    create: db.prepare<ScheduledJob, [number, string, string, string | null, string, string, string | null, string | null, string, number, number, string | null, string | null, number | null, string | null]>(
       `INSERT INTO scheduled_jobs (
         user_id, prompt, size, style_preset, schedule_type, schedule_time,
-        schedule_days, scheduled_at, timezone, is_enabled, auto_sync_trmnl, next_run_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`
+        schedule_days, scheduled_at, timezone, is_enabled, auto_sync_trmnl, next_run_at,
+        cron_expression, interval_minutes, provider
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`
     ),
-    update: db.prepare<void, [string, string, string | null, string, string, string | null, string | null, string, number, number, string | null, number, number]>(
+    update: db.prepare<void, [string, string, string | null, string, string, string | null, string | null, string, number, number, string | null, string | null, number | null, string | null, number, number]>(
       `UPDATE scheduled_jobs SET 
         prompt = ?, size = ?, style_preset = ?, schedule_type = ?, schedule_time = ?,
         schedule_days = ?, scheduled_at = ?, timezone = ?, is_enabled = ?, auto_sync_trmnl = ?,
-        next_run_at = ?, updated_at = CURRENT_TIMESTAMP
+        next_run_at = ?, cron_expression = ?, interval_minutes = ?, provider = ?, updated_at = CURRENT_TIMESTAMP
       WHERE id = ? AND user_id = ?`
     ),
     updateEnabled: db.prepare<void, [number, number, number]>(
@@ -1041,10 +1900,12 @@ function initPreparedStatements() {
       "UPDATE scheduled_jobs SET last_run_at = ?, next_run_at = ?, run_count = run_count + 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?"
     ),
     updateError: db.prepare<void, [string, number]>(
-      "UPDATE scheduled_jobs SET last_error = ?, last_error_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = ?"
+      `UPDATE scheduled_jobs SET last_error = ?, last_error_at = CURRENT_TIMESTAMP,
+         consecutive_failures = COALESCE(consecutive_failures, 0) + 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?`
     ),
     clearError: db.prepare<void, [number]>(
-      "UPDATE scheduled_jobs SET last_error = NULL, last_error_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?"
+      `UPDATE scheduled_jobs SET last_error = NULL, last_error_at = NULL, consecutive_failures = 0,
+         updated_at = CURRENT_TIMESTAMP WHERE id = ?`
     ),
     delete: db.prepare<void, [number, number]>(
       "DELETE FROM scheduled_jobs WHERE id = ? AND user_id = ?"
@@ -1067,11 +1928,11 @@ function initPreparedStatements() {
     countByUserId: db.prepare<{ count: number }, [number]>(
       "SELECT COUNT(*) as count FROM batch_jobs WHERE user_id = ?"
     ),
-    findPending: db.prepare<BatchJob, []>(
-      "SELECT * FROM batch_jobs WHERE status = 'pending' OR status = 'processing' ORDER BY created_at ASC LIMIT 1"
+    findActive: db.prepare<BatchJob, []>(
+      "SELECT * FROM batch_jobs WHERE status = 'pending' OR status = 'processing' ORDER BY created_at ASC"
     ),
-    create: db.prepare<BatchJob, [number, string | null, number, string, string | null, number]>(
-      "INSERT INTO batch_jobs (user_id, name, total_count, size, style_preset, auto_sync_trmnl) VALUES (?, ?, ?, ?, ?, ?) RETURNING *"
+    create: db.prepare<BatchJob, [number, string | null, number, string, string | null, number, string | null, string | null]>(
+      "INSERT INTO batch_jobs (user_id, name, total_count, size, style_preset, auto_sync_trmnl, provider, matrix) VALUES (?, ?, ?, ?, ?, ?, ?, ?) RETURNING *"
     ),
     updateStatus: db.prepare<void, [string, number]>(
       "UPDATE batch_jobs SET status = ? WHERE id = ?"
@@ -1091,12 +1952,22 @@ function initPreparedStatements() {
     updateCompleted: db.prepare<void, [string, number]>(
       "UPDATE batch_jobs SET status = ?, completed_at = CURRENT_TIMESTAMP WHERE id = ?"
     ),
+    // Failed items go back to pending: drop them from failed_count and reopen a finished batch
+    reopenForRetry: db.prepare<void, [number, number]>(
+      `UPDATE batch_jobs SET failed_count = MAX(0, failed_count - ?),
+         status = CASE WHEN status IN ('completed', 'failed') THEN 'processing' ELSE status END,
+         completed_at = NULL
+       WHERE id = ?`
+    ),
     delete: db.prepare<void, [number, number]>(
       "DELETE FROM batch_jobs WHERE id = ? AND user_id = ?"
     ),
   }
 
   _batchJobItemQueries = {
+    findById: db.prepare<BatchJobItem, [number]>(
+      "SELECT * FROM batch_job_items WHERE id = ?"
+    ),
     findByBatchId: db.prepare<BatchJobItem, [number]>(
       "SELECT * FROM batch_job_items WHERE batch_id = ? ORDER BY id ASC"
     ),
@@ -1104,8 +1975,8 @@ function initPreparedStatements() {
       // Include 'processing' items in case server crashed mid-processing
       "SELECT * FROM batch_job_items WHERE batch_id = ? AND (status = 'pending' OR status = 'processing') ORDER BY id ASC LIMIT 1"
     ),
-    create: db.prepare<BatchJobItem, [number, string]>(
-      "INSERT INTO batch_job_items (batch_id, prompt) VALUES (?, ?) RETURNING *"
+    create: db.prepare<BatchJobItem, [number, string, string | null, string | null, number | null, number | null]>(
+      "INSERT INTO batch_job_items (batch_id, prompt, size, style_preset, collection_id, device_id) VALUES (?, ?, ?, ?, ?, ?) RETURNING *"
     ),
     updateStatus: db.prepare<void, [string, number | null, string | null, number]>(
       "UPDATE batch_job_items SET status = ?, image_id = ?, error_message = ? WHERE id = ?"
@@ -1116,6 +1987,108 @@ function initPreparedStatements() {
     markSyncedToTrmnl: db.prepare<void, [number]>(
       "UPDATE batch_job_items SET synced_to_trmnl = 1 WHERE id = ?"
     ),
+    markPicked: db.prepare<void, [number, number]>(
+      "UPDATE batch_job_items SET picked = 1 WHERE id = ? AND batch_id = ?"
+    ),
+    markFailed: db.prepare<void, [string, string, number]>(
+      "UPDATE batch_job_items SET status = 'failed', error_message = ?, failure_reason = ?, completed_at = CURRENT_TIMESTAMP WHERE id = ?"
+    ),
+    resetForRetry: db.prepare<void, [number]>(
+      "UPDATE batch_job_items SET status = 'pending', error_message = NULL, failure_reason = NULL, completed_at = NULL, retry_count = retry_count + 1 WHERE id = ? AND status = 'failed'"
+    ),
+    updatePrompt: db.prepare<void, [string, number]>(
+      "UPDATE batch_job_items SET prompt = ? WHERE id = ?"
+    ),
+  }
+
+  _jobQueueQueries = {
+    findById: db.prepare<QueuedJob, [number]>(
+      "SELECT * FROM job_queue WHERE id = ?"
+    ),
+    // Returns nothing when the dedupe key is already queued
+    create: db.prepare<QueuedJob, [string, number | null, string, number, string | null, string | null, string]>(
+      "INSERT INTO job_queue (type, user_id, payload, max_attempts, dedupe_key, group_key, run_at) VALUES (?, ?, ?, ?, ?, ?, ?) ON CONFLICT(dedupe_key) DO NOTHING RETURNING *"
+    ),
+    // Like create, but a finished (completed or dead) job with the same dedupe key is queued again
+    createOrRequeue: db.prepare<QueuedJob, [string, number | null, string, number, string | null, string | null, string]>(
+      `INSERT INTO job_queue (type, user_id, payload, max_attempts, dedupe_key, group_key, run_at) VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(dedupe_key) DO UPDATE SET
+         status = 'queued', payload = excluded.payload, attempts = 0, max_attempts = excluded.max_attempts,
+         group_key = excluded.group_key, run_at = excluded.run_at, locked_by = NULL, locked_until = NULL,
+         last_error = NULL, started_at = NULL, finished_at = NULL
+       WHERE job_queue.status IN ('completed', 'dead')
+       RETURNING *`
+    ),
+    // One job per user (their oldest runnable one), least recently served users first.
+    // Users with a job of this type already running are skipped.
+    findNextQueuedPerUser: db.prepare<QueuedJobCandidate, [string, string]>(
+      `SELECT * FROM (
+         SELECT q.*,
+           (SELECT MAX(s.started_at) FROM job_queue s WHERE s.type = q.type AND s.user_id = q.user_id) as user_last_started_at,
+           ROW_NUMBER() OVER (PARTITION BY COALESCE(q.user_id, -q.id) ORDER BY q.run_at ASC, q.id ASC) as user_rank
+         FROM job_queue q
+         WHERE q.type = ?1 AND q.status = 'queued' AND q.run_at <= ?2
+           AND (q.user_id IS NULL OR NOT EXISTS (
+             SELECT 1 FROM job_queue r WHERE r.type = q.type AND r.user_id = q.user_id AND r.status = 'running'
+           ))
+       )
+       WHERE user_rank = 1
+       ORDER BY COALESCE(user_last_started_at, '') ASC, run_at ASC, id ASC`
+    ),
+    findExpiredLeases: db.prepare<QueuedJob, [string, string]>(
+      "SELECT * FROM job_queue WHERE type = ? AND status = 'running' AND locked_until <= ?"
+    ),
+    findLastStartedAt: db.prepare<{ started_at: string | null }, [string]>(
+      "SELECT MAX(started_at) as started_at FROM job_queue WHERE type = ?"
+    ),
+    findUserLastStartedAt: db.prepare<{ started_at: string | null }, [string, number]>(
+      "SELECT MAX(started_at) as started_at FROM job_queue WHERE type = ? AND user_id = ?"
+    ),
+    countActiveUsers: db.prepare<{ count: number }, [string]>(
+      "SELECT COUNT(DISTINCT user_id) as count FROM job_queue WHERE type = ? AND status IN ('queued', 'running') AND user_id IS NOT NULL"
+    ),
+    averageDurationMs: db.prepare<{ duration_ms: number | null }, [string]>(
+      `SELECT AVG((julianday(finished_at) - julianday(started_at)) * 86400000) as duration_ms FROM (
+         SELECT started_at, finished_at FROM job_queue
+         WHERE type = ? AND status = 'completed' AND started_at IS NOT NULL AND finished_at IS NOT NULL
+         ORDER BY finished_at DESC LIMIT 20
+       )`
+    ),
+    countRunning: db.prepare<{ count: number }, [string]>(
+      "SELECT COUNT(*) as count FROM job_queue WHERE status = 'running' AND locked_until > ?"
+    ),
+    claim: db.prepare<QueuedJob, [string, string, string, number]>(
+      "UPDATE job_queue SET status = 'running', attempts = attempts + 1, locked_by = ?, locked_until = ?, started_at = ? WHERE id = ? AND status = 'queued' RETURNING *"
+    ),
+    // complete, retry and markDead only apply while the caller still holds the lease it claimed
+    // (same worker and attempt), so a worker whose lease expired can't overwrite a newer run
+    complete: db.prepare<void, [string, number, string | null, number]>(
+      `UPDATE job_queue SET status = 'completed', finished_at = ?, locked_by = NULL, locked_until = NULL
+       WHERE id = ? AND status = 'running' AND locked_by = ? AND attempts = ?`
+    ),
+    retry: db.prepare<void, [string, string, number, string | null, number]>(
+      `UPDATE job_queue SET status = 'queued', run_at = ?, last_error = ?, locked_by = NULL, locked_until = NULL
+       WHERE id = ? AND status = 'running' AND locked_by = ? AND attempts = ?`
+    ),
+    markDead: db.prepare<void, [string, string, number, string | null, number]>(
+      `UPDATE job_queue SET status = 'dead', last_error = ?, finished_at = ?, locked_by = NULL, locked_until = NULL
+       WHERE id = ? AND status = 'running' AND locked_by = ? AND attempts = ?`
+    ),
+    deleteQueuedByGroup: db.prepare<void, [string]>(
+      "DELETE FROM job_queue WHERE group_key = ? AND status = 'queued'"
+    ),
+    deleteCompletedBefore: db.prepare<void, [string]>(
+      "DELETE FROM job_queue WHERE status = 'completed' AND finished_at < ?"
+    ),
+    findAllByStatus: db.prepare<QueuedJobWithUser, [string, number, number]>(
+      `SELECT q.*, u.email as user_email FROM job_queue q
+       LEFT JOIN users u ON u.id = q.user_id
+       WHERE q.status = ?
+       ORDER BY q.finished_at DESC, q.run_at ASC, q.id ASC LIMIT ? OFFSET ?`
+    ),
+    countByStatus: db.prepare<{ status: string; count: number }, []>(
+      "SELECT status, COUNT(*) as count FROM job_queue GROUP BY status"
+    ),
   }
 
   _passwordResetTokenQueries = {
@@ -1136,6 +2109,56 @@ function initPreparedStatements() {
     ),
   }
 
+  _twoFactorQueries = {
+    findByUserId: db.prepare<UserTwoFactor, [number]>(
+      "SELECT * FROM user_two_factor WHERE user_id = ?"
+    ),
+    // A new secret replaces any unconfirmed one
+    startEnrollment: db.prepare<UserTwoFactor, [number, string]>(
+      `INSERT INTO user_two_factor (user_id, secret) VALUES (?, ?)
+       ON CONFLICT(user_id) DO UPDATE SET secret = excluded.secret, enabled = 0, last_used_step = NULL,
+         enabled_at = NULL, created_at = CURRENT_TIMESTAMP
+       RETURNING *`
+    ),
+    enable: db.prepare<void, [number, number]>(
+      "UPDATE user_two_factor SET enabled = 1, enabled_at = CURRENT_TIMESTAMP, last_used_step = ? WHERE user_id = ?"
+    ),
+    // Changes nothing when the step was already used (a replayed code)
+    markStepUsed: db.prepare<void, [number, number]>(
+      `UPDATE user_two_factor SET last_used_step = ?1
+       WHERE user_id = ?2 AND (last_used_step IS NULL OR last_used_step < ?1)`
+    ),
+    deleteByUserId: db.prepare<void, [number]>(
+      "DELETE FROM user_two_factor WHERE user_id = ?"
+    ),
+  }
+
+  _recoveryCodeQueries = {
+    create: db.prepare<RecoveryCode, [number, string]>(
+      "INSERT INTO user_recovery_codes (user_id, code_hash) VALUES (?, ?) RETURNING *"
+    ),
+    countUnused: db.prepare<{ count: number }, [number]>(
+      "SELECT COUNT(*) as count FROM user_recovery_codes WHERE user_id = ? AND used_at IS NULL"
+    ),
+    use: db.prepare<void, [number, string]>(
+      "UPDATE user_recovery_codes SET used_at = CURRENT_TIMESTAMP WHERE user_id = ? AND code_hash = ? AND used_at IS NULL"
+    ),
+    deleteByUserId: db.prepare<void, [number]>(
+      "DELETE FROM user_recovery_codes WHERE user_id = ?"
+    ),
+  }
+
+  _twoFactorChallengeFailureQueries = {
+    recordFailure: db.prepare<TwoFactorChallengeFailure, [string, number, string]>(
+      `INSERT INTO two_factor_challenge_failures (jti, user_id, expires_at) VALUES (?, ?, ?)
+       ON CONFLICT(jti) DO UPDATE SET failed_attempts = failed_attempts + 1
+       RETURNING *`
+    ),
+    deleteExpired: db.prepare<void, [string]>(
+      "DELETE FROM two_factor_challenge_failures WHERE expires_at < ?"
+    ),
+  }
+
   _tokenBlacklistQueries = {
     findByJti: db.prepare<TokenBlacklist, [string]>(
       "SELECT * FROM token_blacklist WHERE jti = ?"
@@ -1218,6 +2241,12 @@ function initPreparedStatements() {
        ORDER BY ci.added_at DESC
        LIMIT ? OFFSET ?`
     ),
+    findAllImagesByCollectionId: db.prepare<GeneratedImage, [number]>(
+      `SELECT gi.* FROM generated_images gi
+       INNER JOIN collection_images ci ON ci.image_id = gi.id
+       WHERE ci.collection_id = ? AND gi.is_deleted = 0
+       ORDER BY ci.added_at ASC, ci.id ASC`
+    ),
     countImagesByCollectionId: db.prepare<{ count: number }, [number]>(
       `SELECT COUNT(*) as count FROM collection_images ci
        INNER JOIN generated_images gi ON gi.id = ci.image_id
@@ -1244,15 +2273,24 @@ function initPreparedStatements() {
     findByWebhookUuid: db.prepare<UserDevice, [string]>(
       "SELECT * FROM user_devices WHERE webhook_uuid = ?"
     ),
+    findByPollingToken: db.prepare<UserDevice, [string]>(
+      "SELECT * FROM user_devices WHERE polling_token = ?"
+    ),
     countByUserId: db.prepare<{ count: number }, [number]>(
       "SELECT COUNT(*) as count FROM user_devices WHERE user_id = ?"
     ),
-    create: db.prepare<UserDevice, [number, string, string, string, number, string | null, string | null]>(
-      "INSERT INTO user_devices (user_id, name, webhook_uuid, background_color, is_default, mac_address, device_api_key) VALUES (?, ?, ?, ?, ?, ?, ?) RETURNING *"
+    create: db.prepare<UserDevice, [number, string, string, string, number, string | null, string | null, string]>(
+      "INSERT INTO user_devices (user_id, name, webhook_uuid, background_color, is_default, mac_address, device_api_key, polling_token) VALUES (?, ?, ?, ?, ?, ?, ?, ?) RETURNING *"
     ),
     update: db.prepare<void, [string, string, string, string | null, string | null, number]>(
       "UPDATE user_devices SET name = ?, webhook_uuid = ?, background_color = ?, mac_address = ?, device_api_key = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?"
     ),
+    updateEinkSettings: db.prepare<void, [string, number, string, string, number]>(
+      "UPDATE user_devices SET eink_dither = ?, eink_bit_depth = ?, eink_orientation = ?, eink_fit = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?"
+    ),
+    updatePollingToken: db.prepare<void, [string, number]>(
+      "UPDATE user_devices SET polling_token = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?"
+    ),
     setDefault: db.prepare<void, [number, number]>(
       "UPDATE user_devices SET is_default = 1, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ?"
     ),
@@ -1263,6 +2301,345 @@ function initPreparedStatements() {
       "DELETE FROM user_devices WHERE id = ? AND user_id = ?"
     ),
   }
+
+  _devicePlaylistQueries = {
+    findByDeviceId: db.prepare<DevicePlaylist, [number]>(
+      "SELECT * FROM device_playlists WHERE device_id = ?"
+    ),
+    // Saving a playlist clears last_advanced_at so the change shows on the next poll
+    upsert: db.prepare<DevicePlaylist, [number, number, string, number | null, string, number, number]>(
+      `INSERT INTO device_playlists (device_id, user_id, source_type, collection_id, mode, dwell_minutes, is_enabled)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(device_id) DO UPDATE SET
+         source_type = excluded.source_type,
+         collection_id = excluded.collection_id,
+         mode = excluded.mode,
+         dwell_minutes = excluded.dwell_minutes,
+         is_enabled = excluded.is_enabled,
+         last_advanced_at = NULL,
+         updated_at = CURRENT_TIMESTAMP
+       RETURNING *`
+    ),
+    // Only while the progress is still what the caller read, so concurrent polls advance a slot once
+    updateProgress: db.prepare<void, [number | null, string | null, number, number | null, string | null]>(
+      `UPDATE device_playlists SET current_image_id = ?1, last_advanced_at = ?2
+       WHERE id = ?3 AND current_image_id IS ?4 AND last_advanced_at IS ?5`
+    ),
+    deleteByDeviceId: db.prepare<void, [number]>(
+      "DELETE FROM device_playlists WHERE device_id = ?"
+    ),
+  }
+
+  _devicePlaylistItemQueries = {
+    findImagesByPlaylistId: db.prepare<GeneratedImage, [number]>(
+      `SELECT gi.* FROM generated_images gi
+       INNER JOIN device_playlist_items dpi ON dpi.image_id = gi.id
+       WHERE dpi.playlist_id = ? AND gi.is_deleted = 0
+       ORDER BY dpi.position ASC`
+    ),
+    create: db.prepare<DevicePlaylistItem, [number, number, number]>(
+      "INSERT OR IGNORE INTO device_playlist_items (playlist_id, image_id, position) VALUES (?, ?, ?) RETURNING *"
+    ),
+    deleteByPlaylistId: db.prepare<void, [number]>(
+      "DELETE FROM device_playlist_items WHERE playlist_id = ?"
+    ),
+  }
+
+  _stylePresetQueries = {
+    findById: db.prepare<StylePreset, [number]>(
+      "SELECT * FROM style_presets WHERE id = ?"
+    ),
+    // Global and shared presets plus the user's own: global first, then the user's, then shared
+    findAvailable: db.prepare<StylePreset, [number]>(
+      `SELECT * FROM style_presets WHERE visibility IN ('global', 'shared') OR user_id = ?1
+       ORDER BY visibility = 'global' DESC, user_id = ?1 DESC, name COLLATE NOCASE ASC`
+    ),
+    findGlobal: db.prepare<StylePreset, []>(
+      "SELECT * FROM style_presets WHERE visibility = 'global' ORDER BY name COLLATE NOCASE ASC"
+    ),
+    countByUserId: db.prepare<{ count: number }, [number]>(
+      "SELECT COUNT(*) as count FROM style_presets WHERE user_id = ?"
+    ),
+    create: db.prepare<StylePreset, [number | null, string, string | null, string | null, string | null, string | null, string | null, string | null, string]>(
+      `INSERT INTO style_presets (user_id, name, prompt_prefix, prompt_suffix, negative_prompt, size, quality, style, visibility)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`
+    ),
+    update: db.prepare<void, [string, string | null, string | null, string | null, string | null, string | null, string | null, string, number]>(
+      `UPDATE style_presets SET name = ?, prompt_prefix = ?, prompt_suffix = ?, negative_prompt = ?, size = ?,
+         quality = ?, style = ?, visibility = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`
+    ),
+    delete: db.prepare<void, [number]>(
+      "DELETE FROM style_presets WHERE id = ?"
+    ),
+  }
+
+  _promptListQueries = {
+    findAllByUserId: db.prepare<PromptList, [number]>(
+      "SELECT * FROM prompt_lists WHERE user_id = ? ORDER BY name ASC"
+    ),
+    findByIdAndUserId: db.prepare<PromptList, [number, number]>(
+      "SELECT * FROM prompt_lists WHERE id = ? AND user_id = ?"
+    ),
+    findByUserIdAndName: db.prepare<PromptList, [number, string]>(
+      "SELECT * FROM prompt_lists WHERE user_id = ? AND name = ?"
+    ),
+    countByUserId: db.prepare<{ count: number }, [number]>(
+      "SELECT COUNT(*) as count FROM prompt_lists WHERE user_id = ?"
+    ),
+    create: db.prepare<PromptList, [number, string, string]>(
+      "INSERT INTO prompt_lists (user_id, name, items) VALUES (?, ?, ?) RETURNING *"
+    ),
+    update: db.prepare<void, [string, string, number, number]>(
+      "UPDATE prompt_lists SET name = ?, items = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ?"
+    ),
+    delete: db.prepare<void, [number, number]>(
+      "DELETE FROM prompt_lists WHERE id = ? AND user_id = ?"
+    ),
+  }
+
+  _notificationPreferenceQueries = {
+    findByUserId: db.prepare<NotificationPreference, [number]>(
+      "SELECT * FROM notification_preferences WHERE user_id = ?"
+    ),
+    upsert: db.prepare<void, [number, string, number, number]>(
+      `INSERT INTO notification_preferences (user_id, event, push, email) VALUES (?, ?, ?, ?)
+       ON CONFLICT(user_id, event) DO UPDATE SET push = excluded.push, email = excluded.email, updated_at = CURRENT_TIMESTAMP`
+    ),
+  }
+
+  _pushSubscriptionQueries = {
+    findByUserId: db.prepare<WebPushSubscription, [number]>(
+      "SELECT * FROM push_subscriptions WHERE user_id = ? ORDER BY created_at ASC"
+    ),
+    // A browser re-subscribing (or another user signing in on it) takes over the endpoint
+    upsert: db.prepare<WebPushSubscription, [number, string, string, string, string | null]>(
+      `INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(endpoint) DO UPDATE SET user_id = excluded.user_id, p256dh = excluded.p256dh,
+         auth = excluded.auth, user_agent = excluded.user_agent
+       RETURNING *`
+    ),
+    deleteByEndpoint: db.prepare<void, [string]>(
+      "DELETE FROM push_subscriptions WHERE endpoint = ?"
+    ),
+    deleteByEndpointAndUserId: db.prepare<void, [string, number]>(
+      "DELETE FROM push_subscriptions WHERE endpoint = ? AND user_id = ?"
+    ),
+  }
+
+  _generationUsageQueries = {
+    findByUserAndPeriod: db.prepare<GenerationUsage, [number, string]>(
+      "SELECT * FROM generation_usage WHERE user_id = ? AND period = ?"
+    ),
+    ensure: db.prepare<void, [number, string, string]>(
+      "INSERT INTO generation_usage (user_id, period, kind) VALUES (?, ?, ?) ON CONFLICT DO NOTHING"
+    ),
+    // Adds ?1 to the counter unless that would go over the limit ?5; returns no row when it would
+    consume: db.prepare<GenerationUsage, [number, number, string, string, number]>(
+      `UPDATE generation_usage SET count = count + ?1, updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = ?2 AND period = ?3 AND kind = ?4 AND count + ?1 <= ?5
+       RETURNING *`
+    ),
+    refund: db.prepare<void, [number, number, string, string]>(
+      `UPDATE generation_usage SET count = MAX(count - ?, 0), updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = ? AND period = ? AND kind = ?`
+    ),
+  }
+
+  // Period bounds are "YYYY-MM-DD HH:MM:SS" (UTC), compared as text like CURRENT_TIMESTAMP
+  const usageSums = `COUNT(*) as requests,
+    COALESCE(SUM(image_count), 0) as images,
+    COALESCE(SUM(input_tokens), 0) as input_tokens,
+    COALESCE(SUM(output_tokens), 0) as output_tokens,
+    COALESCE(SUM(audio_seconds), 0) as audio_seconds,
+    COALESCE(SUM(estimated_cost), 0) as estimated_cost`
+
+  _usageEventQueries = {
+    create: db.prepare<void, [number | null, string, number | null, string, string, string | null, string | null, number, number, number, number, number]>(
+      `INSERT INTO usage_events (user_id, source, source_id, operation, model, size, quality,
+         image_count, input_tokens, output_tokens, audio_seconds, estimated_cost)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ),
+    totals: db.prepare<UsageTotals, [string, string]>(
+      `SELECT ${usageSums} FROM usage_events WHERE created_at >= ? AND created_at < ?`
+    ),
+    totalsByUser: db.prepare<UsageTotals, [number, string, string]>(
+      `SELECT ${usageSums} FROM usage_events WHERE user_id = ? AND created_at >= ? AND created_at < ?`
+    ),
+    totalsBySourceForUser: db.prepare<UsageSourceTotals, [number, string, string]>(
+      `SELECT source, ${usageSums} FROM usage_events
+       WHERE user_id = ? AND created_at >= ? AND created_at < ?
+       GROUP BY source ORDER BY estimated_cost DESC`
+    ),
+    findPageByUser: db.prepare<UsageEvent, [number, string, string, number, number]>(
+      `SELECT * FROM usage_events WHERE user_id = ? AND created_at >= ? AND created_at < ?
+       ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`
+    ),
+    countByUser: db.prepare<{ count: number }, [number, string, string]>(
+      "SELECT COUNT(*) as count FROM usage_events WHERE user_id = ? AND created_at >= ? AND created_at < ?"
+    ),
+    // Costliest users first; calls without a user are grouped into one row with user_id null
+    rollupByUser: db.prepare<UserUsageTotals, [string, string, number, number]>(
+      `SELECT e.user_id, u.email, u.name, ${usageSums}
+       FROM usage_events e LEFT JOIN users u ON u.id = e.user_id
+       WHERE e.created_at >= ? AND e.created_at < ?
+       GROUP BY e.user_id ORDER BY estimated_cost DESC, requests DESC LIMIT ? OFFSET ?`
+    ),
+    countUsers: db.prepare<{ count: number }, [string, string]>(
+      `SELECT COUNT(*) as count FROM
+       (SELECT 1 FROM usage_events WHERE created_at >= ? AND created_at < ? GROUP BY user_id)`
+    ),
+  }
+
+  _adminUserQueries = {
+    findById: db.prepare<AdminUser, [number]>(
+      "SELECT * FROM admin_users WHERE id = ?"
+    ),
+    findByEmail: db.prepare<AdminUser, [string]>(
+      "SELECT * FROM admin_users WHERE email = ?"
+    ),
+    findAll: db.prepare<AdminUser, []>(
+      "SELECT * FROM admin_users ORDER BY disabled, created_at, id"
+    ),
+    count: db.prepare<{ count: number }, []>(
+      "SELECT COUNT(*) as count FROM admin_users"
+    ),
+    countActiveSuperadmins: db.prepare<{ count: number }, []>(
+      "SELECT COUNT(*) as count FROM admin_users WHERE role = 'superadmin' AND disabled = 0"
+    ),
+    create: db.prepare<AdminUser, [string, string | null, string, string]>(
+      "INSERT INTO admin_users (email, name, password_hash, role) VALUES (?, ?, ?, ?) RETURNING *"
+    ),
+    update: db.prepare<AdminUser, [string | null, string, number, number]>(
+      `UPDATE admin_users SET name = ?, role = ?, disabled = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? RETURNING *`
+    ),
+    updatePassword: db.prepare<void, [string, number]>(
+      "UPDATE admin_users SET password_hash = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?"
+    ),
+    touchLastLogin: db.prepare<void, [number]>(
+      "UPDATE admin_users SET last_login_at = CURRENT_TIMESTAMP WHERE id = ?"
+    ),
+  }
+
+  // ?1 admin, ?2 action, ?3 target type, ?4 target id, ?5 affected user; all optional
+  const adminAuditFilter = `(?1 IS NULL OR admin_user_id = ?1)
+    AND (?2 IS NULL OR action = ?2)
+    AND (?3 IS NULL OR target_type = ?3)
+    AND (?4 IS NULL OR target_id = ?4)
+    AND (?5 IS NULL OR user_id = ?5)`
+
+  _adminAuditQueries = {
+    create: db.prepare<AdminAuditEntry, [number, string, string, string | null, number | null, number | null, string | null, string | null]>(
+      `INSERT INTO admin_audit_log (admin_user_id, admin_email, action, target_type, target_id, user_id, details, ip_address)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`
+    ),
+    findPage: db.prepare<AdminAuditEntry, [number | null, string | null, string | null, number | null, number | null, number, number]>(
+      `SELECT * FROM admin_audit_log WHERE ${adminAuditFilter}
+       ORDER BY created_at DESC, id DESC LIMIT ?6 OFFSET ?7`
+    ),
+    count: db.prepare<{ count: number }, [number | null, string | null, string | null, number | null, number | null]>(
+      `SELECT COUNT(*) as count FROM admin_audit_log WHERE ${adminAuditFilter}`
+    ),
+  }
+
+  // ?1 key, ?2 now, ?3 expiry for a new counter; an expired counter starts again at 1
+  _rateLimitQueries = {
+    increment: db.prepare<{ count: number }, [string, number, number]>(
+      `INSERT INTO rate_limit_counters (key, count, expires_at) VALUES (?1, 1, ?3)
+       ON CONFLICT(key) DO UPDATE SET
+         count = CASE WHEN expires_at <= ?2 THEN 1 ELSE count + 1 END,
+         expires_at = CASE WHEN expires_at <= ?2 THEN ?3 ELSE expires_at END
+       RETURNING count`
+    ),
+    get: db.prepare<{ count: number }, [string, number]>(
+      "SELECT count FROM rate_limit_counters WHERE key = ? AND expires_at > ?"
+    ),
+    scan: db.prepare<Pick<RateLimitCounter, "key" | "count">, [string, number]>(
+      `SELECT key, count FROM rate_limit_counters
+       WHERE substr(key, 1, length(?1)) = ?1 AND expires_at > ?2`
+    ),
+    deleteExpired: db.prepare<void, [number]>(
+      "DELETE FROM rate_limit_counters WHERE expires_at <= ?"
+    ),
+    deleteAll: db.prepare<void, []>(
+      "DELETE FROM rate_limit_counters"
+    ),
+  }
+
+  // ?1 filters by status, ?2 searches recipient and subject; both optional
+  const sentEmailFilter = `(?1 IS NULL OR status = ?1)
+    AND (?2 IS NULL OR to_address LIKE '%' || ?2 || '%' OR subject LIKE '%' || ?2 || '%')`
+
+  _sentEmailQueries = {
+    findById: db.prepare<SentEmail, [number]>(
+      "SELECT * FROM sent_emails WHERE id = ?"
+    ),
+    findPage: db.prepare<SentEmailSummary, [string | null, string | null, number, number]>(
+      `SELECT id, to_address, from_address, subject, transport, status, error, provider_message_id,
+         attempts, created_at, last_attempt_at
+       FROM sent_emails WHERE ${sentEmailFilter}
+       ORDER BY created_at DESC, id DESC LIMIT ?3 OFFSET ?4`
+    ),
+    count: db.prepare<{ count: number }, [string | null, string | null]>(
+      `SELECT COUNT(*) as count FROM sent_emails WHERE ${sentEmailFilter}`
+    ),
+    create: db.prepare<SentEmail, [string, string, string, string, string | null, string, string, string | null, string | null]>(
+      `INSERT INTO sent_emails (to_address, from_address, subject, html_content, text_content, transport, status, error, provider_message_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`
+    ),
+    recordAttempt: db.prepare<SentEmail, [string, string, string | null, string | null, number]>(
+      `UPDATE sent_emails SET transport = ?, status = ?, error = ?, provider_message_id = ?,
+         attempts = attempts + 1, last_attempt_at = CURRENT_TIMESTAMP
+       WHERE id = ? RETURNING *`
+    ),
+    deleteBefore: db.prepare<void, [string]>(
+      "DELETE FROM sent_emails WHERE created_at < datetime(?)"
+    ),
+  }
+
+  _conversationQueries = {
+    findAllByUserId: db.prepare<ConversationSummary, [number, number]>(
+      `SELECT c.*,
+        (SELECT COUNT(*) FROM conversation_messages m WHERE m.conversation_id = c.id) as message_count,
+        (SELECT m.image_url FROM conversation_messages m
+          WHERE m.conversation_id = c.id AND m.type = 'assistant' AND m.image_url IS NOT NULL
+          ORDER BY m.id DESC LIMIT 1) as last_image_url
+      FROM conversations c
+      WHERE c.user_id = ?
+      ORDER BY c.updated_at DESC, c.id DESC
+      LIMIT ?`
+    ),
+    findByIdAndUserId: db.prepare<Conversation, [number, number]>(
+      "SELECT * FROM conversations WHERE id = ? AND user_id = ?"
+    ),
+    create: db.prepare<Conversation, [number, string]>(
+      "INSERT INTO conversations (user_id, title) VALUES (?, ?) RETURNING *"
+    ),
+    updateTitle: db.prepare<void, [string, number, number]>(
+      "UPDATE conversations SET title = ? WHERE id = ? AND user_id = ?"
+    ),
+    touch: db.prepare<void, [number]>(
+      "UPDATE conversations SET updated_at = CURRENT_TIMESTAMP WHERE id = ?"
+    ),
+    delete: db.prepare<void, [number, number]>(
+      "DELETE FROM conversations WHERE id = ? AND user_id = ?"
+    ),
+  }
+
+  _conversationMessageQueries = {
+    findByConversationId: db.prepare<ConversationMessage, [number]>(
+      "SELECT * FROM conversation_messages WHERE conversation_id = ? ORDER BY id ASC"
+    ),
+    countByConversationId: db.prepare<{ count: number }, [number]>(
+      "SELECT COUNT(*) as count FROM conversation_messages WHERE conversation_id = ?"
+    ),
+    create: db.prepare<ConversationMessage, [number, string, string, string | null, number | null]>(
+      "INSERT INTO conversation_messages (conversation_id, type, content, image_url, image_id) VALUES (?, ?, ?, ?, ?) RETURNING *"
+    ),
+    deleteByConversationId: db.prepare<void, [number]>(
+      "DELETE FROM conversation_messages WHERE conversation_id = ?"
+    ),
+  }
 }
 
 // Getters for prepared statements
@@ -1287,8 +2664,11 @@ export const userQueries = {
 export const syncedImageQueries = {
   get findLatestByUserId() { return _syncedImageQueries.findLatestByUserId },
   get findAllByUserId() { return _syncedImageQueries.findAllByUserId },
+  get findLatestByDeviceId() { return _syncedImageQueries.findLatestByDeviceId },
+  get findAllByDeviceId() { return _syncedImageQueries.findAllByDeviceId },
   get create() { return _syncedImageQueries.create },
   get deleteByUserId() { return _syncedImageQueries.deleteByUserId },
+  get deleteByDeviceId() { return _syncedImageQueries.deleteByDeviceId },
 }
 
 export const generatedImageQueries = {
@@ -1354,7 +2734,7 @@ export const batchJobQueries = {
   get findAllByUserId() { return _batchJobQueries.findAllByUserId },
   get findAllByUserIdPaginated() { return _batchJobQueries.findAllByUserIdPaginated },
   get countByUserId() { return _batchJobQueries.countByUserId },
-  get findPending() { return _batchJobQueries.findPending },
+  get findActive() { return _batchJobQueries.findActive },
   get create() { return _batchJobQueries.create },
   get updateStatus() { return _batchJobQueries.updateStatus },
   get updateProgress() { return _batchJobQueries.updateProgress },
@@ -1362,16 +2742,43 @@ export const batchJobQueries = {
   get incrementFailed() { return _batchJobQueries.incrementFailed },
   get updateStarted() { return _batchJobQueries.updateStarted },
   get updateCompleted() { return _batchJobQueries.updateCompleted },
+  get reopenForRetry() { return _batchJobQueries.reopenForRetry },
   get delete() { return _batchJobQueries.delete },
 }
 
 export const batchJobItemQueries = {
+  get findById() { return _batchJobItemQueries.findById },
   get findByBatchId() { return _batchJobItemQueries.findByBatchId },
   get findPendingByBatchId() { return _batchJobItemQueries.findPendingByBatchId },
   get create() { return _batchJobItemQueries.create },
   get updateStatus() { return _batchJobItemQueries.updateStatus },
   get updateCompleted() { return _batchJobItemQueries.updateCompleted },
   get markSyncedToTrmnl() { return _batchJobItemQueries.markSyncedToTrmnl },
+  get markPicked() { return _batchJobItemQueries.markPicked },
+  get markFailed() { return _batchJobItemQueries.markFailed },
+  get resetForRetry() { return _batchJobItemQueries.resetForRetry },
+  get updatePrompt() { return _batchJobItemQueries.updatePrompt },
+}
+
+export const jobQueueQueries = {
+  get findById() { return _jobQueueQueries.findById },
+  get create() { return _jobQueueQueries.create },
+  get createOrRequeue() { return _jobQueueQueries.createOrRequeue },
+  get findNextQueuedPerUser() { return _jobQueueQueries.findNextQueuedPerUser },
+  get findExpiredLeases() { return _jobQueueQueries.findExpiredLeases },
+  get findLastStartedAt() { return _jobQueueQueries.findLastStartedAt },
+  get findUserLastStartedAt() { return _jobQueueQueries.findUserLastStartedAt },
+  get countActiveUsers() { return _jobQueueQueries.countActiveUsers },
+  get averageDurationMs() { return _jobQueueQueries.averageDurationMs },
+  get countRunning() { return _jobQueueQueries.countRunning },
+  get claim() { return _jobQueueQueries.claim },
+  get complete() { return _jobQueueQueries.complete },
+  get retry() { return _jobQueueQueries.retry },
+  get markDead() { return _jobQueueQueries.markDead },
+  get deleteQueuedByGroup() { return _jobQueueQueries.deleteQueuedByGroup },
+  get deleteCompletedBefore() { return _jobQueueQueries.deleteCompletedBefore },
+  get findAllByStatus() { return _jobQueueQueries.findAllByStatus },
+  get countByStatus() { return _jobQueueQueries.countByStatus },
 }
 
 export const passwordResetTokenQueries = {
@@ -1382,6 +2789,26 @@ export const passwordResetTokenQueries = {
   get deleteByUserId() { return _passwordResetTokenQueries.deleteByUserId },
 }
 
+export const twoFactorQueries = {
+  get findByUserId() { return _twoFactorQueries.findByUserId },
+  get startEnrollment() { return _twoFactorQueries.startEnrollment },
+  get enable() { return _twoFactorQueries.enable },
+  get markStepUsed() { return _twoFactorQueries.markStepUsed },
+  get deleteByUserId() { return _twoFactorQueries.deleteByUserId },
+}
+
+export const recoveryCodeQueries = {
+  get create() { return _recoveryCodeQueries.create },
+  get countUnused() { return _recoveryCodeQueries.countUnused },
+  get use() { return _recoveryCodeQueries.use },
+  get deleteByUserId() { return _recoveryCodeQueries.deleteByUserId },
+}
+
+export const twoFactorChallengeFailureQueries = {
+  get recordFailure() { return _twoFactorChallengeFailureQueries.recordFailure },
+  get deleteExpired() { return _twoFactorChallengeFailureQueries.deleteExpired },
+}
+
 export const tokenBlacklistQueries = {
   get findByJti() { return _tokenBlacklistQueries.findByJti },
   get create() { return _tokenBlacklistQueries.create },
@@ -1413,6 +2840,7 @@ export const collectionImageQueries = {
   get addImage() { return _collectionImageQueries.addImage },
   get removeImage() { return _collectionImageQueries.removeImage },
   get findImagesByCollectionId() { return _collectionImageQueries.findImagesByCollectionId },
+  get findAllImagesByCollectionId() { return _collectionImageQueries.findAllImagesByCollectionId },
   get countImagesByCollectionId() { return _collectionImageQueries.countImagesByCollectionId },
   get findCollectionsForImage() { return _collectionImageQueries.findCollectionsForImage },
 }
@@ -1423,10 +2851,128 @@ export const userDeviceQueries = {
   get findAllByUserId() { return _userDeviceQueries.findAllByUserId },
   get findDefaultByUserId() { return _userDeviceQueries.findDefaultByUserId },
   get findByWebhookUuid() { return _userDeviceQueries.findByWebhookUuid },
+  get findByPollingToken() { return _userDeviceQueries.findByPollingToken },
   get countByUserId() { return _userDeviceQueries.countByUserId },
   get create() { return _userDeviceQueries.create },
   get update() { return _userDeviceQueries.update },
+  get updateEinkSettings() { return _userDeviceQueries.updateEinkSettings },
+  get updatePollingToken() { return _userDeviceQueries.updatePollingToken },
   get setDefault() { return _userDeviceQueries.setDefault },
   get clearDefault() { return _userDeviceQueries.clearDefault },
   get delete() { return _userDeviceQueries.delete },
 }
+
+export const devicePlaylistQueries = {
+  get findByDeviceId() { return _devicePlaylistQueries.findByDeviceId },
+  get upsert() { return _devicePlaylistQueries.upsert },
+  get updateProgress() { return _devicePlaylistQueries.updateProgress },
+  get deleteByDeviceId() { return _devicePlaylistQueries.deleteByDeviceId },
+}
+
+export const devicePlaylistItemQueries = {
+  get findImagesByPlaylistId() { return _devicePlaylistItemQueries.findImagesByPlaylistId },
+  get create() { return _devicePlaylistItemQueries.create },
+  get deleteByPlaylistId() { return _devicePlaylistItemQueries.deleteByPlaylistId },
+}
+
+export const stylePresetQueries = {
+  get findById() { return _stylePresetQueries.findById },
+  get findAvailable() { return _stylePresetQueries.findAvailable },
+  get findGlobal() { return _stylePresetQueries.findGlobal },
+  get countByUserId() { return _stylePresetQueries.countByUserId },
+  get create() { return _stylePresetQueries.create },
+  get update() { return _stylePresetQueries.update },
+  get delete() { return _stylePresetQueries.delete },
+}
+
+export const promptListQueries = {
+  get findAllByUserId() { return _promptListQueries.findAllByUserId },
+  get findByIdAndUserId() { return _promptListQueries.findByIdAndUserId },
+  get findByUserIdAndName() { return _promptListQueries.findByUserIdAndName },
+  get countByUserId() { return _promptListQueries.countByUserId },
+  get create() { return _promptListQueries.create },
+  get update() { return _promptListQueries.update },
+  get delete() { return _promptListQueries.delete },
+}
+
+export const notificationPreferenceQueries = {
+  get findByUserId() { return _notificationPreferenceQueries.findByUserId },
+  get upsert() { return _notificationPreferenceQueries.upsert },
+}
+
+export const pushSubscriptionQueries = {
+  get findByUserId() { return _pushSubscriptionQueries.findByUserId },
+  get upsert() { return _pushSubscriptionQueries.upsert },
+  get deleteByEndpoint() { return _pushSubscriptionQueries.deleteByEndpoint },
+  get deleteByEndpointAndUserId() { return _pushSubscriptionQueries.deleteByEndpointAndUserId },
+}
+
+export const generationUsageQueries = {
+  get findByUserAndPeriod() { return _generationUsageQueries.findByUserAndPeriod },
+  get ensure() { return _generationUsageQueries.ensure },
+  get consume() { return _generationUsageQueries.consume },
+  get refund() { return _generationUsageQueries.refund },
+}
+
+export const usageEventQueries = {
+  get create() { return _usageEventQueries.create },
+  get totals() { return _usageEventQueries.totals },
+  get totalsByUser() { return _usageEventQueries.totalsByUser },
+  get totalsBySourceForUser() { return _usageEventQueries.totalsBySourceForUser },
+  get findPageByUser() { return _usageEventQueries.findPageByUser },
+  get countByUser() { return _usageEventQueries.countByUser },
+  get rollupByUser() { return _usageEventQueries.rollupByUser },
+  get countUsers() { return _usageEventQueries.countUsers },
+}
+
+export const adminUserQueries = {
+  get findById() { return _adminUserQueries.findById },
+  get findByEmail() { return _adminUserQueries.findByEmail },
+  get findAll() { return _adminUserQueries.findAll },
+  get count() { return _adminUserQueries.count },
+  get countActiveSuperadmins() { return _adminUserQueries.countActiveSuperadmins },
+  get create() { return _adminUserQueries.create },
+  get update() { return _adminUserQueries.update },
+  get updatePassword() { return _adminUserQueries.updatePassword },
+  get touchLastLogin() { return _adminUserQueries.touchLastLogin },
+}
+
+// No update or delete statements: the audit log is append-only
+export const adminAuditQueries = {
+  get create() { return _adminAuditQueries.create },
+  get findPage() { return _adminAuditQueries.findPage },
+  get count() { return _adminAuditQueries.count },
+}
+
+export const rateLimitQueries = {
+  get increment() { return _rateLimitQueries.increment },
+  get get() { return _rateLimitQueries.get },
+  get scan() { return _rateLimitQueries.scan },
+  get deleteExpired() { return _rateLimitQueries.deleteExpired },
+  get deleteAll() { return _rateLimitQueries.deleteAll },
+}
+
+export const sentEmailQueries = {
+  get findById() { return _sentEmailQueries.findById },
+  get findPage() { return _sentEmailQueries.findPage },
+  get count() { return _sentEmailQueries.count },
+  get create() { return _sentEmailQueries.create },
+  get recordAttempt() { return _sentEmailQueries.recordAttempt },
+  get deleteBefore() { return _sentEmailQueries.deleteBefore },
+}
+
+export const conversationQueries = {
+  get findAllByUserId() { return _conversationQueries.findAllByUserId },
+  get findByIdAndUserId() { return _conversationQueries.findByIdAndUserId },
+  get create() { return _conversationQueries.create },
+  get updateTitle() { return _conversationQueries.updateTitle },
+  get touch() { return _conversationQueries.touch },
+  get delete() { return _conversationQueries.delete },
+}
+
+export const conversationMessageQueries = {
+  get findByConversationId() { return _conversationMessageQueries.findByConversationId },
+  get countByConversationId() { return _conversationMessageQueries.countByConversationId },
+  get create() { return _conversationMessageQueries.create },
+  get deleteByConversationId() { return _conversationMessageQueries.deleteByConversationId },
+}
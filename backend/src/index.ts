@@ -2,6 +2,7 @@ import { config } from "./config"
 import { log } from "./utils"
 import { routes } from "./routes"
 import { initDatabase } from "./db"
+import { migrateLegacySyncedImages } from "./routes/sync"
 import { startScheduler } from "./services/scheduler-service"
 import { startBatchProcessor } from "./services/batch-service"
 import {
@@ -151,6 +152,11 @@ verifyVolumePersistence()
 // Initialize database
 initDatabase()
 
+// Move pre-device synced images to each user's default device
+migrateLegacySyncedImages().catch((error) => {
+  log("ERROR", "Synced image migration failed", error)
+})
+
 // Start the scheduler service
 startScheduler()
 
@@ -416,3 +422,4 @@ log("INFO", `TRMNL Backend running on http://localhost:${config.server.port}`)
 log("INFO", `Device MAC: ${config.trmnl.macAddress}`)
 log("INFO", `Device API: ${config.trmnl.deviceApiKey ? "configured" : "missing"}`)
 log("INFO", `User API: ${config.trmnl.userApiKey ? "configured" : "not configured"}`)
+log("INFO", `OpenAI: ${config.openai.mock ? "mock mode (fixture responses)" : config.openai.baseUrl}`)
@@ -0,0 +1,107 @@
+/**
+ * Counter stores for the rate limiter
+ *
+ * The interface mirrors the Redis commands a shared store needs (INCR with PEXPIRE on the
+ * first hit, GET, SCAN MATCH prefix*), so a Redis-backed store can be passed to
+ * setRateLimitStore without touching the limiter.
+ */
+
+import { rateLimitQueries } from '../db';
+
+export interface RateLimitStore {
+  readonly name: string;
+  // Add one to a counter; a new (or expired) counter starts at 1 and expires ttlMs later
+  increment(key: string, ttlMs: number): Promise<number>;
+  // Current value, 0 when missing or expired
+  get(key: string): Promise<number>;
+  // Live counters whose key starts with prefix
+  scan(prefix: string): Promise<Array<{ key: string; count: number }>>;
+  // Remove every counter (for testing)
+  clear(): Promise<void>;
+}
+
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * In-process store: counters reset on restart and aren't shared between processes
+ */
+export function createMemoryStore(): RateLimitStore {
+  const entries = new Map<string, { count: number; expiresAt: number }>();
+
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+      }
+    }
+  }, CLEANUP_INTERVAL_MS);
+  cleanup.unref();
+
+  const live = (key: string, now: number) => {
+    const entry = entries.get(key);
+    return entry && entry.expiresAt > now ? entry : null;
+  };
+
+  return {
+    name: 'memory',
+    async increment(key, ttlMs) {
+      const now = Date.now();
+      const entry = live(key, now);
+      if (entry) {
+        entry.count++;
+        return entry.count;
+      }
+      entries.set(key, { count: 1, expiresAt: now + ttlMs });
+      return 1;
+    },
+    async get(key) {
+      return live(key, Date.now())?.count ?? 0;
+    },
+    async scan(prefix) {
+      const now = Date.now();
+      const matches: Array<{ key: string; count: number }> = [];
+      for (const [key, entry] of entries) {
+        if (key.startsWith(prefix) && entry.expiresAt > now) {
+          matches.push({ key, count: entry.count });
+        }
+      }
+      return matches;
+    },
+    async clear() {
+      entries.clear();
+    },
+  };
+}
+
+/**
+ * SQLite store: counters live in rate_limit_counters, so they survive deploys and are
+ * shared by every process using the same database file
+ */
+export function createSqliteStore(): RateLimitStore {
+  const cleanup = setInterval(() => {
+    try {
+      rateLimitQueries.deleteExpired.run(Date.now());
+    } catch {
+      // Database closed during shutdown
+    }
+  }, CLEANUP_INTERVAL_MS);
+  cleanup.unref();
+
+  return {
+    name: 'sqlite',
+    async increment(key, ttlMs) {
+      const now = Date.now();
+      return rateLimitQueries.increment.get(key, now, now + ttlMs)?.count ?? 1;
+    },
+    async get(key) {
+      return rateLimitQueries.get.get(key, Date.now())?.count ?? 0;
+    },
+    async scan(prefix) {
+      return rateLimitQueries.scan.all(prefix, Date.now());
+    },
+    async clear() {
+      rateLimitQueries.deleteAll.run();
+    },
+  };
+}
@@ -1,187 +1,216 @@
 /**
- * In-memory rate limiting middleware for Bun
- * 
+ * Rate limiting middleware for Bun
+ *
  * Features:
- * - Configurable windows and request limits
- * - Per-IP tracking with automatic cleanup
- * - Pre-configured limiters for auth, image generation, and general API
+ * - Sliding-window counters (the previous window is weighted by how much of it still overlaps)
+ * - Keyed by signed-in user, falling back to the client IP, with limits per plan tier
+ * - Client IP taken from X-Forwarded-For only through trusted proxies
+ * - Pluggable counter store (SQLite by default, in-memory, or anything Redis-like)
+ * - Pre-configured limiters for auth, image generation, speech and general API
  */
 
-import { log } from '../utils/logger';
+import { config } from '../config';
+import { getPlan, type Plan } from '../services/entitlement-service';
+import { getClientIp, log, parseIpRanges } from '../utils';
+import { optionalAuth } from './auth';
+import { createMemoryStore, createSqliteStore, type RateLimitStore } from './rate-limit-store';
 
-interface RateLimitEntry {
-  count: number;
-  resetAt: number;
-}
+export type RateLimitTier = 'anonymous' | Plan;
 
 interface RateLimitOptions {
-  windowMs: number;      // Time window in milliseconds
-  maxRequests: number;   // Max requests per window
-  keyGenerator?: (req: Request) => string;  // Custom key generator (default: IP-based)
-  skipFailedRequests?: boolean;  // Don't count failed requests
+  windowMs: number;                          // Sliding window length in milliseconds
+  limits: Record<RateLimitTier, number>;     // Max requests per window, by tier
+  keyBy?: 'user' | 'ip';                     // 'ip' ignores the signed-in user (default: 'user')
+}
+
+// Anything that knows a request's socket address (Bun's Server)
+export interface RequestIPSource {
+  requestIP(req: Request): { address: string } | null;
+}
+
+export type RateLimiter = (req: Request, server?: RequestIPSource) => Promise<Response | null>;
+
+// Usage of one user or IP within a limiter
+export interface RateLimitKeyUsage {
+  subject: string;   // user:<id> or ip:<address>
+  tier: RateLimitTier;
+  count: number;     // Sliding-window estimate, rounded
+  limit: number;
 }
 
-interface RateLimitStore {
-  entries: Map<string, RateLimitEntry>;
-  cleanupInterval: ReturnType<typeof setInterval>;
+export interface RateLimitStats {
+  activeEntries: number;
+  totalRequests: number;
+  keys: RateLimitKeyUsage[];   // Busiest first
 }
 
-// Store rate limit data in memory
-const stores = new Map<string, RateLimitStore>();
-
-/**
- * Get or create a rate limit store for a specific limiter
- */
-function getStore(name: string, windowMs: number): RateLimitStore {
-  if (!stores.has(name)) {
-    const store: RateLimitStore = {
-      entries: new Map(),
-      cleanupInterval: setInterval(() => {
-        const now = Date.now();
-        for (const [key, entry] of store.entries) {
-          if (entry.resetAt <= now) {
-            store.entries.delete(key);
-          }
-        }
-      }, Math.min(windowMs, 60000)) // Cleanup at most every minute
-    };
-    stores.set(name, store);
+const limiters = new Map<string, RateLimitOptions>();
+
+const trustedProxies = parseIpRanges(config.rateLimit.trustedProxies);
+
+let store: RateLimitStore | null = null;
+
+/**
+ * The counter store, created on first use so the database is initialized by then
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = config.rateLimit.store === 'memory' ? createMemoryStore() : createSqliteStore();
   }
-  return stores.get(name)!;
+  return store;
 }
 
 /**
- * Extract IP address from request
+ * Replace the counter store (e.g. with a Redis-backed one)
  */
-function getClientIP(req: Request): string {
-  // Railway/proxy headers
-  const forwarded = req.headers.get('x-forwarded-for');
-  if (forwarded) {
-    const firstIP = forwarded.split(',')[0];
-    return firstIP ? firstIP.trim() : '127.0.0.1';
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+/**
+ * The client's IP address, believing X-Forwarded-For only through the configured trusted proxies
+ */
+export function getRequestIp(req: Request, server?: RequestIPSource): string {
+  const peerAddress = server?.requestIP(req)?.address ?? null;
+  return getClientIp(req, peerAddress, trustedProxies);
+}
+
+/**
+ * Who is making the request: the signed-in user and their plan, else the client IP
+ */
+async function identify(
+  req: Request,
+  server: RequestIPSource | undefined,
+  keyBy: 'user' | 'ip'
+): Promise<{ subject: string; tier: RateLimitTier }> {
+  if (keyBy === 'user') {
+    const { user } = await optionalAuth(req);
+    if (user) {
+      return { subject: `user:${user.id}`, tier: getPlan(user.id) };
+    }
   }
-  
-  const realIP = req.headers.get('x-real-ip');
-  if (realIP) {
-    return realIP;
+
+  return { subject: `ip:${getRequestIp(req, server)}`, tier: 'anonymous' };
+}
+
+/**
+ * Milliseconds until the sliding-window estimate is back within the limit, assuming no
+ * further requests
+ */
+function getRetryAfterMs(now: number, windowMs: number, previous: number, current: number, limit: number): number {
+  const windowStart = now - (now % windowMs);
+  if (current > limit) {
+    // Wait for the next window, until enough of this one has slid out
+    return windowStart + windowMs + windowMs * (1 - limit / current) - now;
   }
-  
-  // Fallback for local development
-  return '127.0.0.1';
+  return windowStart + windowMs * (1 - (limit - current) / previous) - now;
 }
 
 /**
  * Create a rate limiter function
  */
-export function rateLimit(name: string, options: RateLimitOptions) {
-  const {
-    windowMs,
-    maxRequests,
-    keyGenerator = getClientIP,
-  } = options;
+export function rateLimit(name: string, options: RateLimitOptions): RateLimiter {
+  const { windowMs, limits, keyBy = 'user' } = options;
+  limiters.set(name, options);
 
-  const store = getStore(name, windowMs);
-
-  return async (req: Request): Promise<Response | null> => {
-    const key = keyGenerator(req);
+  return async (req: Request, server?: RequestIPSource): Promise<Response | null> => {
+    const { subject, tier } = await identify(req, server, keyBy);
+    const counters = getRateLimitStore();
     const now = Date.now();
-    
-    let entry = store.entries.get(key);
-    
-    if (!entry || entry.resetAt <= now) {
-      // Create new entry or reset expired one
-      entry = {
-        count: 1,
-        resetAt: now + windowMs
-      };
-      store.entries.set(key, entry);
+    const window = Math.floor(now / windowMs);
+
+    // Each counter is read during the following window too, so it lives for two
+    const current = await counters.increment(`${name}|${window}|${tier}|${subject}`, windowMs * 2);
+    const previous = await counters.get(`${name}|${window - 1}|${tier}|${subject}`);
+    const elapsed = (now % windowMs) / windowMs;
+    const count = previous * (1 - elapsed) + current;
+    const limit = limits[tier];
+
+    if (count <= limit) {
       return null; // Allow request
     }
-    
-    entry.count++;
-    
-    if (entry.count > maxRequests) {
-      const retryAfter = Math.ceil((entry.resetAt - now) / 1000);
-      
-      log('WARN', 'Rate limit exceeded', {
-        limiter: name,
-        ip: key,
-        count: entry.count,
-        maxRequests,
-        retryAfter
-      });
-      
-      return new Response(JSON.stringify({
-        success: false,
-        error: 'Too many requests. Please try again later.',
-        retryAfter
-      }), {
-        status: 429,
-        headers: {
-          'Content-Type': 'application/json',
-          'Retry-After': String(retryAfter),
-          'X-RateLimit-Limit': String(maxRequests),
-          'X-RateLimit-Remaining': '0',
-          'X-RateLimit-Reset': String(Math.ceil(entry.resetAt / 1000))
-        }
-      });
-    }
-    
-    return null; // Allow request
+
+    const retryAfterMs = getRetryAfterMs(now, windowMs, previous, current, limit);
+    const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000));
+
+    log('WARN', 'Rate limit exceeded', {
+      limiter: name,
+      subject,
+      tier,
+      count: Math.round(count),
+      limit,
+      retryAfter
+    });
+
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Too many requests. Please try again later.',
+      retryAfter
+    }), {
+      status: 429,
+      headers: {
+        'Content-Type': 'application/json',
+        'Retry-After': String(retryAfter),
+        'X-RateLimit-Limit': String(limit),
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset': String(Math.ceil((now + retryAfterMs) / 1000))
+      }
+    });
   };
 }
 
 // Pre-configured limiters
 
 /**
- * Auth limiter: 10 requests per 15 minutes
+ * Auth limiter: 10 requests per 15 minutes per client IP
  * Protects against brute force attacks while allowing password typos
  */
 export const authLimiter = rateLimit('auth', {
   windowMs: 15 * 60 * 1000, // 15 minutes
-  maxRequests: 10
+  limits: { anonymous: 10, free: 10, subscriber: 10 },
+  keyBy: 'ip'
 });
 
 /**
- * Image generation limiter: 5 requests per minute
+ * Image generation limiter: 5 requests per minute (15 for subscribers)
  * Protects against excessive DALL-E API usage (cost control)
  */
 export const generateLimiter = rateLimit('generate', {
   windowMs: 60 * 1000, // 1 minute
-  maxRequests: 5
+  limits: { anonymous: 5, free: 5, subscriber: 15 }
 });
 
 /**
- * General API limiter: 100 requests per minute
+ * General API limiter: 100 requests per minute per IP, more for signed-in users
  * Protects against DDoS and abuse
  */
 export const apiLimiter = rateLimit('api', {
   windowMs: 60 * 1000, // 1 minute
-  maxRequests: 100
+  limits: { anonymous: 100, free: 150, subscriber: 300 }
 });
 
 /**
- * Speech transcription limiter: 10 requests per minute
+ * Speech transcription limiter: 10 requests per minute (30 for subscribers)
  * Protects against Whisper API abuse (cost: $0.006/min audio)
  */
 export const speechLimiter = rateLimit('speech', {
   windowMs: 60 * 1000, // 1 minute
-  maxRequests: 10
+  limits: { anonymous: 10, free: 10, subscriber: 30 }
 });
 
 /**
  * Apply rate limiting to a route handler
  */
 export function withRateLimit(
-  limiter: (req: Request) => Promise<Response | null>,
-  handler: (req: Request) => Promise<Response> | Response
+  limiter: RateLimiter,
+  handler: (req: Request, server?: RequestIPSource) => Promise<Response> | Response
 ) {
-  return async (req: Request): Promise<Response> => {
-    const limitResponse = await limiter(req);
+  return async (req: Request, server?: RequestIPSource): Promise<Response> => {
+    const limitResponse = await limiter(req, server);
     if (limitResponse) {
       return limitResponse;
     }
-    return handler(req);
+    return handler(req, server);
   };
 }
 
@@ -190,10 +219,11 @@ export function withRateLimit(
  */
 export async function checkRateLimits(
   req: Request,
-  ...limiters: Array<(req: Request) => Promise<Response | null>>
+  server: RequestIPSource | undefined,
+  ...rateLimiters: RateLimiter[]
 ): Promise<Response | null> {
-  for (const limiter of limiters) {
-    const response = await limiter(req);
+  for (const limiter of rateLimiters) {
+    const response = await limiter(req, server);
     if (response) {
       return response;
     }
@@ -202,32 +232,56 @@ export async function checkRateLimits(
 }
 
 /**
- * Cleanup all stores (for testing or shutdown)
+ * Remove every counter (for testing)
  */
-export function clearAllStores(): void {
-  for (const [, store] of stores) {
-    clearInterval(store.cleanupInterval);
-    store.entries.clear();
-  }
-  stores.clear();
+export async function clearAllStores(): Promise<void> {
+  await getRateLimitStore().clear();
 }
 
 /**
- * Get current stats for a limiter (useful for monitoring)
+ * Names, windows and per-tier limits of the configured limiters
  */
-export function getRateLimitStats(name: string): { activeEntries: number; totalRequests: number } {
-  const store = stores.get(name);
-  if (!store) {
-    return { activeEntries: 0, totalRequests: 0 };
-  }
-  
-  let totalRequests = 0;
-  for (const entry of store.entries.values()) {
-    totalRequests += entry.count;
+export function getRateLimiters(): Array<{ name: string; windowMs: number; limits: Record<RateLimitTier, number> }> {
+  return [...limiters].map(([name, { windowMs, limits }]) => ({ name, windowMs, limits }));
+}
+
+/**
+ * Current usage of a limiter, per user or IP (useful for monitoring)
+ */
+export async function getRateLimitStats(name: string): Promise<RateLimitStats> {
+  const options = limiters.get(name);
+  if (!options) {
+    return { activeEntries: 0, totalRequests: 0, keys: [] };
   }
-  
+
+  const { windowMs, limits } = options;
+  const counters = getRateLimitStore();
+  const now = Date.now();
+  const window = Math.floor(now / windowMs);
+  const elapsed = (now % windowMs) / windowMs;
+
+  // Combine each subject's current and previous window the same way the limiter does
+  const estimates = new Map<string, { subject: string; tier: RateLimitTier; count: number }>();
+  const add = (entries: Array<{ key: string; count: number }>, weight: number) => {
+    for (const entry of entries) {
+      const [, , tier, subject] = entry.key.split('|') as [string, string, RateLimitTier, string];
+      const id = `${tier}|${subject}`;
+      const estimate = estimates.get(id) ?? { subject, tier, count: 0 };
+      estimate.count += entry.count * weight;
+      estimates.set(id, estimate);
+    }
+  };
+  add(await counters.scan(`${name}|${window}|`), 1);
+  add(await counters.scan(`${name}|${window - 1}|`), 1 - elapsed);
+
+  const keys = [...estimates.values()]
+    .map(({ subject, tier, count }) => ({ subject, tier, count: Math.round(count), limit: limits[tier] }))
+    .filter(usage => usage.count > 0)
+    .sort((a, b) => b.count / b.limit - a.count / a.limit || b.count - a.count);
+
   return {
-    activeEntries: store.entries.size,
-    totalRequests
+    activeEntries: keys.length,
+    totalRequests: keys.reduce((sum, usage) => sum + usage.count, 0),
+    keys
   };
 }
@@ -0,0 +1,13 @@
+import { log } from "./utils"
+import { handleMockOpenAIRequest } from "./services/openai-mock-service"
+
+// Standalone mock OpenAI server. Point the app (or any client) at it with
+// OPENAI_BASE_URL=http://localhost:4010/v1
+const port = parseInt(process.env.MOCK_OPENAI_PORT || "4010")
+
+Bun.serve({
+  port,
+  fetch: req => handleMockOpenAIRequest(req),
+})
+
+log("INFO", `Mock OpenAI server running on http://localhost:${port}/v1`)
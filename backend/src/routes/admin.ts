@@ -1,12 +1,37 @@
 import { config } from "../config"
-import { db, userDeviceQueries, type UserDevice } from "../db"
+import { adminUserQueries, db, stylePresetQueries, type AdminUser, type SentEmail, userDeviceQueries, userQueries, type UserDevice } from "../db"
 import { log, toISODate } from "../utils"
+import { deleteDevicePlaylist } from "../services/playlist-service"
+import { openaiFetch } from "../services/openai-client"
+import { getJobQueueCounts, isJobStatus, listJobs } from "../services/job-queue-service"
+import { normalizeStylePresetInput, saveStylePreset, toResolvedStylePreset } from "../services/style-preset-service"
+import { getSentEmail, listSentEmails, resendEmail, sendTwoFactorChangedEmail } from "../services/email-service"
+import { getEmailTransport } from "../services/email-transport-service"
+import { getQuotaPeriod } from "../services/entitlement-service"
+import { getUsageRollup, isUsagePeriod } from "../services/usage-service"
+import { disableTwoFactor, getEnabledTwoFactor } from "../services/two-factor-service"
+import { getRateLimiters, getRateLimitStats, getRateLimitStore, getRequestIp, type RequestIPSource } from "../middleware/rate-limit"
+import {
+  authenticateAdmin,
+  createAdminUser,
+  hasAdminRole,
+  isAdminAuditAction,
+  isAdminAuditTargetType,
+  listAdminAuditLog,
+  recordAdminAudit,
+  toAdminProfile,
+  updateAdminUser,
+  type AdminRole,
+} from "../services/admin-service"
+import { deleteDeviceImages, generatePollingToken, getDevicePollingUrl, rotateDevicePollingToken } from "./sync"
 import { readdir, stat } from "node:fs/promises"
 import { join, relative } from "node:path"
 import { createWriteStream, existsSync, mkdirSync, rmSync } from "node:fs"
 
 const DATA_DIR = "/app/data"
 
+const EMAIL_STATUSES: SentEmail["status"][] = ["sent", "failed", "captured"]
+
 const ADMIN_JWT_SECRET = config.admin.jwtSecret
 const ADMIN_TOKEN_EXPIRY_MS = 24 * 60 * 60 * 1000 // 24 hours
 
@@ -33,11 +58,12 @@ async function sign(data: string, secret: string): Promise<string> {
   return Buffer.from(signature).toString("base64url")
 }
 
-// Generate admin JWT token
-async function generateAdminToken(): Promise<string> {
+// Generate admin JWT token for one operator
+async function generateAdminToken(admin: AdminUser): Promise<string> {
   const header = base64UrlEncode(JSON.stringify({ alg: "HS256", typ: "JWT" }))
   const payload = base64UrlEncode(JSON.stringify({
     role: "admin",
+    sub: admin.id,
     iat: Math.floor(Date.now() / 1000),
     exp: Math.floor((Date.now() + ADMIN_TOKEN_EXPIRY_MS) / 1000),
   }))
@@ -45,48 +71,55 @@ async function generateAdminToken(): Promise<string> {
   return `${header}.${payload}.${signature}`
 }
 
-// Verify admin JWT token
-async function verifyAdminToken(token: string): Promise<boolean> {
+// Verify admin JWT token, returning the operator's admin user id
+async function verifyAdminToken(token: string): Promise<number | null> {
   try {
     const parts = token.split(".")
-    if (parts.length !== 3) return false
+    if (parts.length !== 3) return null
 
     const header = parts[0]
     const payload = parts[1]
     const signature = parts[2]
     
-    if (!header || !payload || !signature) return false
+    if (!header || !payload || !signature) return null
     
     const expectedSignature = await sign(`${header}.${payload}`, ADMIN_JWT_SECRET)
     
-    if (signature !== expectedSignature) return false
+    if (signature !== expectedSignature) return null
 
     const payloadData = JSON.parse(base64UrlDecode(payload))
     
-    if (payloadData.role !== "admin") return false
-    if (payloadData.exp < Math.floor(Date.now() / 1000)) return false
+    if (payloadData.role !== "admin") return null
+    if (typeof payloadData.sub !== "number") return null
+    if (payloadData.exp < Math.floor(Date.now() / 1000)) return null
 
-    return true
+    return payloadData.sub
   } catch {
-    return false
+    return null
   }
 }
 
-// Middleware to check admin auth
-async function requireAdminAuth(req: Request): Promise<Response | null> {
+// Middleware to check admin auth: returns the signed-in operator, or the error response.
+// The account is re-read on every request so role changes and disabling apply immediately.
+async function requireAdminAuth(req: Request, required: AdminRole): Promise<AdminUser | Response> {
   const authHeader = req.headers.get("Authorization")
   if (!authHeader?.startsWith("Bearer ")) {
     return Response.json({ error: "Unauthorized" }, { status: 401 })
   }
   
   const token = authHeader.slice(7)
-  const isValid = await verifyAdminToken(token)
+  const adminId = await verifyAdminToken(token)
+  const admin = adminId === null ? null : adminUserQueries.findById.get(adminId)
   
-  if (!isValid) {
+  if (!admin || admin.disabled === 1) {
     return Response.json({ error: "Invalid or expired admin token" }, { status: 401 })
   }
+
+  if (!hasAdminRole(admin.role, required)) {
+    return Response.json({ error: `This action requires the ${required} role` }, { status: 403 })
+  }
   
-  return null // Auth passed
+  return admin
 }
 
 // Get admin stats from database
@@ -120,7 +153,7 @@ async function getOpenAIUsage(): Promise<{
     keyPrefix: adminKey?.substring(0, 10) || "none"
   })
   
-  if (!adminKey) {
+  if (!adminKey && !config.openai.mock) {
     return {
       images: { total: 0, byModel: {}, bySize: {} },
       costs: { total: 0, currency: "usd", byLineItem: {} },
@@ -136,28 +169,24 @@ async function getOpenAIUsage(): Promise<{
   const startTime = Math.floor(startOfMonth.getTime() / 1000)
   const endTime = Math.floor(now.getTime() / 1000)
 
-  const headers = {
-    "Authorization": `Bearer ${adminKey}`,
-    "Content-Type": "application/json",
-  }
+  const request = (path: string) => openaiFetch(path, {
+    headers: { "Content-Type": "application/json" },
+  }, { apiKey: adminKey })
 
   try {
     // Fetch images usage
-    const imagesResponse = await fetch(
-      `https://api.openai.com/v1/organization/usage/images?start_time=${startTime}&end_time=${endTime}&group_by=model&group_by=size&limit=31`,
-      { headers }
+    const imagesResponse = await request(
+      `/organization/usage/images?start_time=${startTime}&end_time=${endTime}&group_by=model&group_by=size&limit=31`
     )
     
     // Fetch costs
-    const costsResponse = await fetch(
-      `https://api.openai.com/v1/organization/costs?start_time=${startTime}&end_time=${endTime}&group_by=line_item&limit=31`,
-      { headers }
+    const costsResponse = await request(
+      `/organization/costs?start_time=${startTime}&end_time=${endTime}&group_by=line_item&limit=31`
     )
 
     // Fetch completions usage (for GPT usage tracking)
-    const completionsResponse = await fetch(
-      `https://api.openai.com/v1/organization/usage/completions?start_time=${startTime}&end_time=${endTime}&limit=31`,
-      { headers }
+    const completionsResponse = await request(
+      `/organization/usage/completions?start_time=${startTime}&end_time=${endTime}&limit=31`
     )
 
     const result = {
@@ -255,7 +284,8 @@ function getPaginatedUsers(page: number, limit: number) {
       email, 
       name, 
       subscription_status,
-      created_at
+      created_at,
+      EXISTS(SELECT 1 FROM user_two_factor WHERE user_id = users.id AND enabled = 1) as two_factor_enabled
     FROM users 
     ORDER BY created_at DESC 
     LIMIT ? OFFSET ?
@@ -265,10 +295,11 @@ function getPaginatedUsers(page: number, limit: number) {
     name: string | null
     subscription_status: string | null
     created_at: string
+    two_factor_enabled: number
   }>
   
   return {
-    users,
+    users: users.map(user => ({ ...user, two_factor_enabled: user.two_factor_enabled === 1 })),
     pagination: {
       page,
       limit,
@@ -279,26 +310,28 @@ function getPaginatedUsers(page: number, limit: number) {
 }
 
 export const adminRoutes = {
-  // Admin login
+  // Admin login with an operator's email and password
   "/api/admin/login": {
-    POST: async (req: Request) => {
+    POST: async (req: Request, server: RequestIPSource) => {
       try {
-        const body = await req.json() as { password?: string }
-        const { password } = body
+        const body = await req.json() as { email?: string; password?: string }
+        const { email, password } = body
 
-        if (!password) {
-          return Response.json({ error: "Password is required" }, { status: 400 })
+        if (!email || !password) {
+          return Response.json({ error: "Email and password are required" }, { status: 400 })
         }
 
-        if (password !== config.admin.password) {
-          log("WARN", "Failed admin login attempt")
-          return Response.json({ error: "Invalid password" }, { status: 401 })
+        const admin = await authenticateAdmin(email, password)
+        if (!admin) {
+          log("WARN", "Failed admin login attempt", { email })
+          return Response.json({ error: "Invalid email or password" }, { status: 401 })
         }
 
-        const token = await generateAdminToken()
-        log("INFO", "Admin logged in successfully")
+        const token = await generateAdminToken(admin)
+        recordAdminAudit(admin, "admin.login", { ipAddress: getRequestIp(req, server) })
+        log("INFO", "Admin logged in successfully", { adminId: admin.id })
         
-        return Response.json({ token })
+        return Response.json({ token, admin: toAdminProfile(admin) })
       } catch (error) {
         log("ERROR", "Admin login error", error)
         return Response.json({ error: "Login failed" }, { status: 500 })
@@ -309,8 +342,8 @@ export const adminRoutes = {
   // Get admin stats
   "/api/admin/stats": {
     GET: async (req: Request) => {
-      const authError = await requireAdminAuth(req)
-      if (authError) return authError
+      const admin = await requireAdminAuth(req, "viewer")
+      if (admin instanceof Response) return admin
 
       try {
         const stats = getAdminStats()
@@ -325,8 +358,8 @@ export const adminRoutes = {
   // Get OpenAI usage and costs
   "/api/admin/openai-usage": {
     GET: async (req: Request) => {
-      const authError = await requireAdminAuth(req)
-      if (authError) return authError
+      const admin = await requireAdminAuth(req, "viewer")
+      if (admin instanceof Response) return admin
 
       try {
         const usage = await getOpenAIUsage()
@@ -338,21 +371,90 @@ export const adminRoutes = {
     },
   },
 
+  // Per-user OpenAI usage for one month from the usage ledger (?period=YYYY-MM), costliest first
+  "/api/admin/usage": {
+    GET: async (req: Request) => {
+      const admin = await requireAdminAuth(req, "viewer")
+      if (admin instanceof Response) return admin
+
+      try {
+        const url = new URL(req.url)
+        const period = url.searchParams.get("period") || getQuotaPeriod()
+        if (!isUsagePeriod(period)) {
+          return Response.json({ error: "period must be a month (YYYY-MM)" }, { status: 400 })
+        }
+
+        const page = Math.max(1, parseInt(url.searchParams.get("page") || "1", 10) || 1)
+        const limit = Math.min(Math.max(1, parseInt(url.searchParams.get("limit") || "20", 10) || 20), 100)
+
+        const { totals, users, total } = getUsageRollup(period, limit, (page - 1) * limit)
+
+        return Response.json({
+          period,
+          totals,
+          users,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+        })
+      } catch (error) {
+        log("ERROR", "Failed to get usage rollup", error)
+        return Response.json({ error: "Failed to get usage" }, { status: 500 })
+      }
+    },
+  },
+
+  // Current usage per limiter, busiest users and IPs first (?limit keys per limiter, default 20)
+  "/api/admin/rate-limits": {
+    GET: async (req: Request) => {
+      const admin = await requireAdminAuth(req, "viewer")
+      if (admin instanceof Response) return admin
+
+      try {
+        const url = new URL(req.url)
+        const limit = Math.min(Math.max(1, parseInt(url.searchParams.get("limit") || "20", 10) || 20), 100)
+
+        const limiters = await Promise.all(
+          getRateLimiters().map(async (limiter) => {
+            const { activeEntries, totalRequests, keys } = await getRateLimitStats(limiter.name)
+            return {
+              ...limiter,
+              activeEntries,
+              totalRequests,
+              keys: keys.slice(0, limit).map((usage) => {
+                const userId = usage.subject.startsWith("user:") ? Number(usage.subject.slice(5)) : null
+                return { ...usage, userId, email: userId ? userQueries.findById.get(userId)?.email ?? null : null }
+              }),
+            }
+          })
+        )
+
+        return Response.json({ store: getRateLimitStore().name, limiters })
+      } catch (error) {
+        log("ERROR", "Failed to get rate limit stats", error)
+        return Response.json({ error: "Failed to get rate limits" }, { status: 500 })
+      }
+    },
+  },
+
   // Verify admin token
   "/api/admin/verify": {
     GET: async (req: Request) => {
-      const authError = await requireAdminAuth(req)
-      if (authError) return authError
+      const admin = await requireAdminAuth(req, "viewer")
+      if (admin instanceof Response) return admin
       
-      return Response.json({ valid: true })
+      return Response.json({ valid: true, admin: toAdminProfile(admin) })
     },
   },
 
   // Get paginated users list
   "/api/admin/users": {
     GET: async (req: Request) => {
-      const authError = await requireAdminAuth(req)
-      if (authError) return authError
+      const admin = await requireAdminAuth(req, "viewer")
+      if (admin instanceof Response) return admin
 
       try {
         const url = new URL(req.url)
@@ -374,9 +476,9 @@ export const adminRoutes = {
 
   // Export data as zip
   "/api/admin/export": {
-    GET: async (req: Request) => {
-      const authError = await requireAdminAuth(req)
-      if (authError) return authError
+    GET: async (req: Request, server: RequestIPSource) => {
+      const admin = await requireAdminAuth(req, "superadmin")
+      if (admin instanceof Response) return admin
 
       try {
         // Close database connections to ensure data integrity
@@ -423,6 +525,7 @@ export const adminRoutes = {
         const filename = `promptink-backup-${timestamp}.zip`
         
         log("INFO", `Data export completed: ${files.length} files`)
+        recordAdminAudit(admin, "data.export", { details: { files: files.length }, ipAddress: getRequestIp(req, server) })
         
         return new Response(zipBuffer, {
           headers: {
@@ -440,9 +543,9 @@ export const adminRoutes = {
 
   // Import data from zip
   "/api/admin/import": {
-    POST: async (req: Request) => {
-      const authError = await requireAdminAuth(req)
-      if (authError) return authError
+    POST: async (req: Request, server: RequestIPSource) => {
+      const admin = await requireAdminAuth(req, "superadmin")
+      if (admin instanceof Response) return admin
 
       try {
         const formData = await req.formData()
@@ -494,6 +597,11 @@ export const adminRoutes = {
           log("INFO", `URL migration completed: ${urlsUpdated} URLs updated`)
         }
         
+        recordAdminAudit(admin, "data.import", {
+          details: { file: file.name, filesRestored, urlsUpdated, oldUrl: oldUrl || null, newUrl: newUrl || null },
+          ipAddress: getRequestIp(req, server),
+        })
+
         return Response.json({ 
           success: true, 
           message: `Successfully restored ${filesRestored} files${urlsUpdated > 0 ? ` and updated ${urlsUpdated} URLs` : ""}`,
@@ -507,11 +615,52 @@ export const adminRoutes = {
     },
   },
 
+  // Reset two-factor authentication for a user locked out of their authenticator app
+  "/api/admin/users/:userId/two-factor": {
+    DELETE: async (req: Request, server: RequestIPSource) => {
+      const admin = await requireAdminAuth(req, "support")
+      if (admin instanceof Response) return admin
+
+      try {
+        const url = new URL(req.url)
+        const pathParts = url.pathname.split("/")
+        const userId = parseInt(pathParts[pathParts.length - 2] || "0", 10)
+
+        if (isNaN(userId)) {
+          return Response.json({ error: "Invalid user ID" }, { status: 400 })
+        }
+
+        const user = userQueries.findById.get(userId)
+        if (!user) {
+          return Response.json({ error: "User not found" }, { status: 404 })
+        }
+        if (!getEnabledTwoFactor(userId)) {
+          return Response.json({ error: "Two-factor authentication is not enabled for this user" }, { status: 400 })
+        }
+
+        disableTwoFactor(userId)
+        await sendTwoFactorChangedEmail(user.email, "reset", user.name || undefined)
+
+        log("INFO", "Admin reset two-factor authentication", { userId })
+        recordAdminAudit(admin, "two_factor.reset", {
+          userId,
+          details: { email: user.email },
+          ipAddress: getRequestIp(req, server),
+        })
+
+        return Response.json({ success: true })
+      } catch (error) {
+        log("ERROR", "Failed to reset two-factor authentication", error)
+        return Response.json({ error: "Failed to reset two-factor authentication" }, { status: 500 })
+      }
+    },
+  },
+
   // Get devices for a specific user (admin)
   "/api/admin/users/:userId/devices": {
     GET: async (req: Request) => {
-      const authError = await requireAdminAuth(req)
-      if (authError) return authError
+      const admin = await requireAdminAuth(req, "viewer")
+      if (admin instanceof Response) return admin
 
       try {
         const url = new URL(req.url)
@@ -528,6 +677,7 @@ export const adminRoutes = {
             id: d.id,
             name: d.name,
             webhook_url: d.webhook_uuid,
+            polling_url: getDevicePollingUrl(d),
             background_color: d.background_color,
             is_default: d.is_default === 1,
             mac_address: d.mac_address,
@@ -542,9 +692,9 @@ export const adminRoutes = {
       }
     },
 
-    POST: async (req: Request) => {
-      const authError = await requireAdminAuth(req)
-      if (authError) return authError
+    POST: async (req: Request, server: RequestIPSource) => {
+      const admin = await requireAdminAuth(req, "support")
+      if (admin instanceof Response) return admin
 
       try {
         const url = new URL(req.url)
@@ -582,7 +732,8 @@ export const adminRoutes = {
           body.background_color || "black",
           isDefault ? 1 : 0,
           body.mac_address?.trim() || null,
-          body.device_api_key?.trim() || null
+          body.device_api_key?.trim() || null,
+          generatePollingToken()
         )
 
         if (!device) {
@@ -590,6 +741,12 @@ export const adminRoutes = {
         }
 
         log("INFO", "Admin created device", { userId, deviceId: device.id })
+        recordAdminAudit(admin, "device.create", {
+          target: { type: "device", id: device.id },
+          userId,
+          details: { name: device.name },
+          ipAddress: getRequestIp(req, server),
+        })
 
         return Response.json({
           success: true,
@@ -597,6 +754,7 @@ export const adminRoutes = {
             id: device.id,
             name: device.name,
             webhook_url: device.webhook_uuid,
+            polling_url: getDevicePollingUrl(device),
             background_color: device.background_color,
             is_default: device.is_default === 1,
             mac_address: device.mac_address,
@@ -614,9 +772,9 @@ export const adminRoutes = {
 
   // Update or delete a specific device (admin)
   "/api/admin/devices/:deviceId": {
-    PUT: async (req: Request) => {
-      const authError = await requireAdminAuth(req)
-      if (authError) return authError
+    PUT: async (req: Request, server: RequestIPSource) => {
+      const admin = await requireAdminAuth(req, "support")
+      if (admin instanceof Response) return admin
 
       try {
         const url = new URL(req.url)
@@ -656,6 +814,12 @@ export const adminRoutes = {
         const updatedDevice = userDeviceQueries.findById.get(deviceId)
 
         log("INFO", "Admin updated device", { deviceId })
+        recordAdminAudit(admin, "device.update", {
+          target: { type: "device", id: deviceId },
+          userId: device.user_id,
+          details: { fields: Object.keys(body) },
+          ipAddress: getRequestIp(req, server),
+        })
 
         return Response.json({
           success: true,
@@ -663,6 +827,7 @@ export const adminRoutes = {
             id: updatedDevice.id,
             name: updatedDevice.name,
             webhook_url: updatedDevice.webhook_uuid,
+            polling_url: getDevicePollingUrl(updatedDevice),
             background_color: updatedDevice.background_color,
             is_default: updatedDevice.is_default === 1,
             mac_address: updatedDevice.mac_address,
@@ -677,9 +842,9 @@ export const adminRoutes = {
       }
     },
 
-    DELETE: async (req: Request) => {
-      const authError = await requireAdminAuth(req)
-      if (authError) return authError
+    DELETE: async (req: Request, server: RequestIPSource) => {
+      const admin = await requireAdminAuth(req, "support")
+      if (admin instanceof Response) return admin
 
       try {
         const url = new URL(req.url)
@@ -698,6 +863,8 @@ export const adminRoutes = {
         const userId = device.user_id
 
         userDeviceQueries.delete.run(deviceId, userId)
+        deleteDeviceImages(userId, deviceId)
+        deleteDevicePlaylist(deviceId)
 
         if (wasDefault) {
           const remainingDevices = userDeviceQueries.findAllByUserId.all(userId)
@@ -707,6 +874,12 @@ export const adminRoutes = {
         }
 
         log("INFO", "Admin deleted device", { deviceId, userId })
+        recordAdminAudit(admin, "device.delete", {
+          target: { type: "device", id: deviceId },
+          userId,
+          details: { name: device.name },
+          ipAddress: getRequestIp(req, server),
+        })
 
         return Response.json({
           success: true,
@@ -718,6 +891,427 @@ export const adminRoutes = {
       }
     },
   },
+
+  // Rotate a device's polling token, revoking its old polling and image URLs (admin)
+  "/api/admin/devices/:deviceId/polling-token": {
+    POST: async (req: Request, server: RequestIPSource) => {
+      const admin = await requireAdminAuth(req, "support")
+      if (admin instanceof Response) return admin
+
+      try {
+        const url = new URL(req.url)
+        const pathParts = url.pathname.split("/")
+        const deviceId = parseInt(pathParts[pathParts.length - 2] || "0", 10)
+
+        if (isNaN(deviceId)) {
+          return Response.json({ error: "Invalid device ID" }, { status: 400 })
+        }
+
+        const device = userDeviceQueries.findById.get(deviceId)
+        if (!device) {
+          return Response.json({ error: "Device not found" }, { status: 404 })
+        }
+
+        const updatedDevice = await rotateDevicePollingToken(device)
+
+        log("INFO", "Admin rotated device polling token", { deviceId, userId: device.user_id })
+        recordAdminAudit(admin, "device.rotate_polling_token", {
+          target: { type: "device", id: deviceId },
+          userId: device.user_id,
+          ipAddress: getRequestIp(req, server),
+        })
+
+        return Response.json({
+          success: true,
+          polling_url: getDevicePollingUrl(updatedDevice),
+        })
+      } catch (error) {
+        log("ERROR", "Failed to rotate polling token", error)
+        return Response.json({ error: "Failed to rotate polling token" }, { status: 500 })
+      }
+    },
+  },
+
+  // List job queue entries by status (queued, running, completed, dead)
+  "/api/admin/jobs": {
+    GET: async (req: Request) => {
+      const admin = await requireAdminAuth(req, "viewer")
+      if (admin instanceof Response) return admin
+
+      try {
+        const url = new URL(req.url)
+        const status = url.searchParams.get("status") || "queued"
+        if (!isJobStatus(status)) {
+          return Response.json({ error: "Invalid status" }, { status: 400 })
+        }
+
+        const page = Math.max(1, parseInt(url.searchParams.get("page") || "1", 10) || 1)
+        const limit = Math.min(Math.max(1, parseInt(url.searchParams.get("limit") || "20", 10) || 20), 100)
+
+        const counts = getJobQueueCounts()
+        const jobs = listJobs(status, limit, (page - 1) * limit)
+
+        return Response.json({
+          jobs,
+          counts,
+          pagination: {
+            page,
+            limit,
+            total: counts[status],
+            totalPages: Math.ceil(counts[status] / limit),
+          },
+        })
+      } catch (error) {
+        log("ERROR", "Failed to list queue jobs", error)
+        return Response.json({ error: "Failed to list jobs" }, { status: 500 })
+      }
+    },
+  },
+
+  // List or publish global style presets (available to every user)
+  "/api/admin/style-presets": {
+    GET: async (req: Request) => {
+      const admin = await requireAdminAuth(req, "viewer")
+      if (admin instanceof Response) return admin
+
+      try {
+        const presets = stylePresetQueries.findGlobal.all()
+        return Response.json({ presets: presets.map(preset => toResolvedStylePreset(preset, null)) })
+      } catch (error) {
+        log("ERROR", "Failed to list global style presets", error)
+        return Response.json({ error: "Failed to list style presets" }, { status: 500 })
+      }
+    },
+    POST: async (req: Request, server: RequestIPSource) => {
+      const admin = await requireAdminAuth(req, "support")
+      if (admin instanceof Response) return admin
+
+      try {
+        const body = await req.json() as Record<string, unknown>
+        const input = normalizeStylePresetInput({ ...body, visibility: "global" }, ["global"])
+        if ("error" in input) {
+          return Response.json({ error: input.error }, { status: 400 })
+        }
+
+        const preset = saveStylePreset(null, input)
+        if (!preset) {
+          return Response.json({ error: "Failed to create style preset" }, { status: 500 })
+        }
+
+        log("INFO", "Admin published global style preset", { presetId: preset.id, name: preset.name })
+        recordAdminAudit(admin, "style_preset.create", {
+          target: { type: "style_preset", id: preset.id },
+          details: { name: preset.name },
+          ipAddress: getRequestIp(req, server),
+        })
+
+        return Response.json({ preset: toResolvedStylePreset(preset, null) }, { status: 201 })
+      } catch (error) {
+        log("ERROR", "Failed to create global style preset", error)
+        return Response.json({ error: "Failed to create style preset" }, { status: 500 })
+      }
+    },
+  },
+
+  // Update or delete a global style preset
+  "/api/admin/style-presets/:presetId": {
+    PUT: async (req: Request, server: RequestIPSource) => {
+      const admin = await requireAdminAuth(req, "support")
+      if (admin instanceof Response) return admin
+
+      try {
+        const url = new URL(req.url)
+        const presetId = parseInt(url.pathname.split("/").pop() || "0", 10)
+        const existing = isNaN(presetId) ? null : stylePresetQueries.findById.get(presetId)
+        if (!existing || existing.visibility !== "global") {
+          return Response.json({ error: "Style preset not found" }, { status: 404 })
+        }
+
+        const body = await req.json() as Record<string, unknown>
+        const input = normalizeStylePresetInput(
+          { ...toResolvedStylePreset(existing, null), ...body, visibility: "global" },
+          ["global"]
+        )
+        if ("error" in input) {
+          return Response.json({ error: input.error }, { status: 400 })
+        }
+
+        const updated = saveStylePreset(null, input, existing.id)
+
+        log("INFO", "Admin updated global style preset", { presetId: existing.id })
+        recordAdminAudit(admin, "style_preset.update", {
+          target: { type: "style_preset", id: existing.id },
+          details: { fields: Object.keys(body) },
+          ipAddress: getRequestIp(req, server),
+        })
+
+        return Response.json({ preset: updated ? toResolvedStylePreset(updated, null) : null })
+      } catch (error) {
+        log("ERROR", "Failed to update global style preset", error)
+        return Response.json({ error: "Failed to update style preset" }, { status: 500 })
+      }
+    },
+    DELETE: async (req: Request, server: RequestIPSource) => {
+      const admin = await requireAdminAuth(req, "support")
+      if (admin instanceof Response) return admin
+
+      try {
+        const url = new URL(req.url)
+        const presetId = parseInt(url.pathname.split("/").pop() || "0", 10)
+        const existing = isNaN(presetId) ? null : stylePresetQueries.findById.get(presetId)
+        if (!existing || existing.visibility !== "global") {
+          return Response.json({ error: "Style preset not found" }, { status: 404 })
+        }
+
+        stylePresetQueries.delete.run(existing.id)
+
+        log("INFO", "Admin deleted global style preset", { presetId: existing.id })
+        recordAdminAudit(admin, "style_preset.delete", {
+          target: { type: "style_preset", id: existing.id },
+          details: { name: existing.name },
+          ipAddress: getRequestIp(req, server),
+        })
+
+        return Response.json({ success: true })
+      } catch (error) {
+        log("ERROR", "Failed to delete global style preset", error)
+        return Response.json({ error: "Failed to delete style preset" }, { status: 500 })
+      }
+    },
+  },
+
+  // Email log: every email the app sent, newest first, with the active transport
+  "/api/admin/emails": {
+    GET: async (req: Request) => {
+      const admin = await requireAdminAuth(req, "viewer")
+      if (admin instanceof Response) return admin
+
+      try {
+        const url = new URL(req.url)
+        const status = url.searchParams.get("status") || null
+        if (status !== null && !EMAIL_STATUSES.includes(status as SentEmail["status"])) {
+          return Response.json({ error: "Invalid status" }, { status: 400 })
+        }
+        const search = url.searchParams.get("search")?.trim() || null
+
+        const page = Math.max(1, parseInt(url.searchParams.get("page") || "1", 10) || 1)
+        const limit = Math.min(Math.max(1, parseInt(url.searchParams.get("limit") || "20", 10) || 20), 100)
+
+        const { emails, total } = listSentEmails(
+          { status: status as SentEmail["status"] | null, search },
+          limit,
+          (page - 1) * limit
+        )
+        const transport = getEmailTransport()
+
+        return Response.json({
+          emails,
+          transport: { id: transport.id, name: transport.name, delivers: transport.delivers },
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+        })
+      } catch (error) {
+        log("ERROR", "Failed to list sent emails", error)
+        return Response.json({ error: "Failed to list emails" }, { status: 500 })
+      }
+    },
+  },
+
+  // One logged email with its HTML and text content
+  "/api/admin/emails/:emailId": {
+    GET: async (req: Request, server: RequestIPSource) => {
+      const admin = await requireAdminAuth(req, "support")
+      if (admin instanceof Response) return admin
+
+      try {
+        const url = new URL(req.url)
+        const emailId = parseInt(url.pathname.split("/").pop() || "0", 10)
+        const email = isNaN(emailId) ? null : getSentEmail(emailId)
+        if (!email) {
+          return Response.json({ error: "Email not found" }, { status: 404 })
+        }
+
+        // Bodies can contain password reset links, so reading one is audited
+        recordAdminAudit(admin, "email.view", {
+          target: { type: "email", id: email.id },
+          details: { to: email.to_address },
+          ipAddress: getRequestIp(req, server),
+        })
+
+        return Response.json({ email })
+      } catch (error) {
+        log("ERROR", "Failed to get sent email", error)
+        return Response.json({ error: "Failed to get email" }, { status: 500 })
+      }
+    },
+  },
+
+  // Send a logged email again through the current transport
+  "/api/admin/emails/:emailId/resend": {
+    POST: async (req: Request, server: RequestIPSource) => {
+      const admin = await requireAdminAuth(req, "support")
+      if (admin instanceof Response) return admin
+
+      try {
+        const url = new URL(req.url)
+        const emailId = parseInt(url.pathname.split("/").at(-2) || "0", 10)
+        const email = isNaN(emailId) ? null : await resendEmail(emailId)
+        if (!email) {
+          return Response.json({ error: "Email not found" }, { status: 404 })
+        }
+
+        log("INFO", "Admin resent email", { emailId: email.id, status: email.status })
+        recordAdminAudit(admin, "email.resend", {
+          target: { type: "email", id: email.id },
+          details: { to: email.to_address, status: email.status },
+          ipAddress: getRequestIp(req, server),
+        })
+
+        return Response.json({ email })
+      } catch (error) {
+        log("ERROR", "Failed to resend email", error)
+        return Response.json({ error: "Failed to resend email" }, { status: 500 })
+      }
+    },
+  },
+
+  // Admin accounts (superadmin only)
+  "/api/admin/admins": {
+    GET: async (req: Request) => {
+      const admin = await requireAdminAuth(req, "superadmin")
+      if (admin instanceof Response) return admin
+
+      try {
+        const admins = adminUserQueries.findAll.all()
+        return Response.json({ admins: admins.map(toAdminProfile) })
+      } catch (error) {
+        log("ERROR", "Failed to list admins", error)
+        return Response.json({ error: "Failed to list admins" }, { status: 500 })
+      }
+    },
+    POST: async (req: Request, server: RequestIPSource) => {
+      const admin = await requireAdminAuth(req, "superadmin")
+      if (admin instanceof Response) return admin
+
+      try {
+        const body = await req.json() as Record<string, unknown>
+        const result = await createAdminUser(body)
+        if ("error" in result) {
+          return Response.json({ error: result.error }, { status: 400 })
+        }
+
+        log("INFO", "Admin created admin account", { adminId: result.admin.id, role: result.admin.role })
+        recordAdminAudit(admin, "admin_user.create", {
+          target: { type: "admin_user", id: result.admin.id },
+          details: { email: result.admin.email, role: result.admin.role },
+          ipAddress: getRequestIp(req, server),
+        })
+
+        return Response.json({ admin: toAdminProfile(result.admin) }, { status: 201 })
+      } catch (error) {
+        log("ERROR", "Failed to create admin", error)
+        return Response.json({ error: "Failed to create admin" }, { status: 500 })
+      }
+    },
+  },
+
+  // Change an admin's name, role, password or disable the account (superadmin only)
+  "/api/admin/admins/:adminId": {
+    PUT: async (req: Request, server: RequestIPSource) => {
+      const admin = await requireAdminAuth(req, "superadmin")
+      if (admin instanceof Response) return admin
+
+      try {
+        const url = new URL(req.url)
+        const adminId = parseInt(url.pathname.split("/").pop() || "0", 10)
+        const target = isNaN(adminId) ? null : adminUserQueries.findById.get(adminId)
+        if (!target) {
+          return Response.json({ error: "Admin not found" }, { status: 404 })
+        }
+
+        const body = await req.json() as Record<string, unknown>
+        const result = await updateAdminUser(admin, target, body)
+        if ("error" in result) {
+          return Response.json({ error: result.error }, { status: 400 })
+        }
+
+        if (result.changes.length > 0) {
+          log("INFO", "Admin updated admin account", { adminId: target.id, changes: result.changes })
+          recordAdminAudit(admin, "admin_user.update", {
+            target: { type: "admin_user", id: target.id },
+            details: {
+              email: target.email,
+              changes: result.changes,
+              ...(result.changes.includes("role") ? { fromRole: target.role, toRole: result.admin.role } : {}),
+            },
+            ipAddress: getRequestIp(req, server),
+          })
+        }
+
+        return Response.json({ admin: toAdminProfile(result.admin) })
+      } catch (error) {
+        log("ERROR", "Failed to update admin", error)
+        return Response.json({ error: "Failed to update admin" }, { status: 500 })
+      }
+    },
+  },
+
+  // Audit log of admin actions, newest first; filter by admin, action, target or affected user
+  "/api/admin/audit-log": {
+    GET: async (req: Request) => {
+      const admin = await requireAdminAuth(req, "support")
+      if (admin instanceof Response) return admin
+
+      try {
+        const url = new URL(req.url)
+        const action = url.searchParams.get("action") || null
+        if (action !== null && !isAdminAuditAction(action)) {
+          return Response.json({ error: "Invalid action" }, { status: 400 })
+        }
+        const targetType = url.searchParams.get("targetType") || null
+        if (targetType !== null && !isAdminAuditTargetType(targetType)) {
+          return Response.json({ error: "Invalid target type" }, { status: 400 })
+        }
+
+        const ids: Record<"adminId" | "targetId" | "userId", number | null> = { adminId: null, targetId: null, userId: null }
+        for (const key of Object.keys(ids) as (keyof typeof ids)[]) {
+          const value = url.searchParams.get(key)
+          if (!value) continue
+          const id = parseInt(value, 10)
+          if (isNaN(id)) {
+            return Response.json({ error: `Invalid ${key}` }, { status: 400 })
+          }
+          ids[key] = id
+        }
+
+        const page = Math.max(1, parseInt(url.searchParams.get("page") || "1", 10) || 1)
+        const limit = Math.min(Math.max(1, parseInt(url.searchParams.get("limit") || "20", 10) || 20), 100)
+
+        const { entries, total } = listAdminAuditLog(
+          { adminUserId: ids.adminId, action, targetType, targetId: ids.targetId, userId: ids.userId },
+          limit,
+          (page - 1) * limit
+        )
+
+        return Response.json({
+          entries,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+        })
+      } catch (error) {
+        log("ERROR", "Failed to list admin audit log", error)
+        return Response.json({ error: "Failed to list audit log" }, { status: 500 })
+      }
+    },
+  },
 }
 
 // Migrate URLs in database tables
@@ -1,8 +1,20 @@
-import { registerUser, loginUser, refreshAccessToken, revokeToken, revokeAllUserTokens, verifyToken, hashPassword, verifyPassword } from "../services/auth-service"
+import { registerUser, loginUser, completeTwoFactorLogin, refreshAccessToken, revokeToken, revokeAllUserTokens, verifyToken, hashPassword, verifyPassword, TRUSTED_DEVICE_EXPIRES_IN } from "../services/auth-service"
+import {
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startTwoFactorEnrollment,
+  verifySecondFactor,
+} from "../services/two-factor-service"
 import { withAuth } from "../middleware/auth"
+import { config } from "../config"
 import { log } from "../utils"
 import { userQueries, passwordResetTokenQueries } from "../db"
-import { sendPasswordResetEmail, sendPasswordChangeConfirmation } from "../services/email-service"
+import { sendPasswordResetEmail, sendPasswordChangeConfirmation, sendTwoFactorChangedEmail } from "../services/email-service"
+
+// "Remember this device" cookie, only ever sent to the auth endpoints
+const TRUSTED_DEVICE_COOKIE = "promptink_trusted_device"
 
 // Helper to extract IP and User-Agent from request
 function getClientInfo(req: Request) {
@@ -14,6 +26,43 @@ function getClientInfo(req: Request) {
   return { ipAddress, userAgent }
 }
 
+function getCookie(req: Request, name: string): string | undefined {
+  const cookies = req.headers.get("cookie")?.split(";") ?? []
+  for (const cookie of cookies) {
+    const [key, ...value] = cookie.trim().split("=")
+    if (key === name) return decodeURIComponent(value.join("="))
+  }
+  return undefined
+}
+
+// Set-Cookie header for the trusted device cookie; null clears it
+function trustedDeviceCookie(token: string | null): string {
+  const attributes = [
+    `${TRUSTED_DEVICE_COOKIE}=${token ?? ""}`,
+    "Path=/api/auth",
+    "HttpOnly",
+    "SameSite=Strict",
+    `Max-Age=${token ? TRUSTED_DEVICE_EXPIRES_IN : 0}`,
+  ]
+  if (config.server.baseUrl.startsWith("https://")) {
+    attributes.push("Secure")
+  }
+  return attributes.join("; ")
+}
+
+// Check the account password for sensitive two-factor changes
+async function checkPassword(userId: number, password: unknown): Promise<Response | null> {
+  if (typeof password !== "string" || !password) {
+    return Response.json({ error: "Password is required" }, { status: 400 })
+  }
+  const fullUser = userQueries.findById.get(userId)
+  if (!fullUser || !(await verifyPassword(password, fullUser.password_hash))) {
+    log("WARN", "Invalid password for two-factor change", { userId })
+    return Response.json({ error: "Password is incorrect" }, { status: 401 })
+  }
+  return null
+}
+
 export const authRoutes = {
   // Register new user
   "/api/auth/register": {
@@ -70,13 +119,21 @@ export const authRoutes = {
         }
 
         const { ipAddress, userAgent } = getClientInfo(req)
-        const result = await loginUser(email, password, ipAddress, userAgent)
+        const result = await loginUser(email, password, ipAddress, userAgent, getCookie(req, TRUSTED_DEVICE_COOKIE))
 
         if ("error" in result) {
           log("WARN", "Login failed", { email, error: result.error })
           return Response.json({ error: result.error }, { status: 401 })
         }
 
+        if ("twoFactorRequired" in result) {
+          return Response.json({
+            message: "Two-factor authentication required",
+            twoFactorRequired: true,
+            challengeToken: result.challengeToken,
+          })
+        }
+
         log("INFO", "Login successful", { email, userId: result.user.id })
         return Response.json({
           message: "Login successful",
@@ -92,6 +149,168 @@ export const authRoutes = {
     },
   },
 
+  // Second step of a login with two-factor authentication (public)
+  "/api/auth/2fa/verify": {
+    POST: async (req: Request) => {
+      try {
+        const text = await req.text()
+        const { challengeToken, code, rememberDevice } = text ? JSON.parse(text) : {}
+
+        if (!challengeToken || !code) {
+          return Response.json(
+            { error: "Challenge token and code are required" },
+            { status: 400 }
+          )
+        }
+
+        const { ipAddress, userAgent } = getClientInfo(req)
+        const result = await completeTwoFactorLogin(
+          challengeToken,
+          String(code),
+          rememberDevice === true,
+          ipAddress,
+          userAgent
+        )
+
+        if ("error" in result) {
+          return Response.json({ error: result.error }, { status: 401 })
+        }
+
+        const headers = result.trustedDeviceToken
+          ? { "Set-Cookie": trustedDeviceCookie(result.trustedDeviceToken) }
+          : undefined
+
+        return Response.json({
+          message: "Login successful",
+          user: result.user,
+          accessToken: result.tokens.accessToken,
+          refreshToken: result.tokens.refreshToken,
+          expiresIn: result.tokens.expiresIn,
+          usedRecoveryCode: result.usedRecoveryCode,
+          recoveryCodesRemaining: getTwoFactorStatus(result.user.id).recoveryCodesRemaining,
+        }, { headers })
+      } catch (error) {
+        log("ERROR", "Two-factor verification error", error)
+        return Response.json({ error: "Login failed" }, { status: 500 })
+      }
+    },
+  },
+
+  // Two-factor status (authenticated)
+  "/api/auth/2fa": {
+    GET: withAuth(async (req, user) => {
+      return Response.json(getTwoFactorStatus(user.id))
+    }),
+  },
+
+  // Start two-factor enrollment: new secret and QR code (authenticated)
+  "/api/auth/2fa/setup": {
+    POST: withAuth(async (req, user) => {
+      try {
+        const text = await req.text()
+        const { password } = text ? JSON.parse(text) : {}
+
+        const passwordError = await checkPassword(user.id, password)
+        if (passwordError) return passwordError
+
+        const result = startTwoFactorEnrollment(user)
+        if ("error" in result) {
+          return Response.json({ error: result.error }, { status: 400 })
+        }
+
+        return Response.json(result)
+      } catch (error) {
+        log("ERROR", "Two-factor setup error", error)
+        return Response.json({ error: "Failed to start two-factor setup" }, { status: 500 })
+      }
+    }),
+  },
+
+  // Confirm enrollment with a code from the authenticator app (authenticated)
+  "/api/auth/2fa/enable": {
+    POST: withAuth(async (req, user) => {
+      try {
+        const text = await req.text()
+        const { code } = text ? JSON.parse(text) : {}
+
+        if (!code) {
+          return Response.json({ error: "Code is required" }, { status: 400 })
+        }
+
+        const result = confirmTwoFactorEnrollment(user.id, String(code))
+        if ("error" in result) {
+          return Response.json({ error: result.error }, { status: 400 })
+        }
+
+        await sendTwoFactorChangedEmail(user.email, "enabled", user.name || undefined)
+        return Response.json({
+          message: "Two-factor authentication enabled",
+          recoveryCodes: result.recoveryCodes,
+        })
+      } catch (error) {
+        log("ERROR", "Two-factor enable error", error)
+        return Response.json({ error: "Failed to enable two-factor authentication" }, { status: 500 })
+      }
+    }),
+  },
+
+  // Turn two-factor authentication off; needs the password and a current code (authenticated)
+  "/api/auth/2fa/disable": {
+    POST: withAuth(async (req, user) => {
+      try {
+        const text = await req.text()
+        const { password, code } = text ? JSON.parse(text) : {}
+
+        const passwordError = await checkPassword(user.id, password)
+        if (passwordError) return passwordError
+
+        if (!code) {
+          return Response.json({ error: "Code is required" }, { status: 400 })
+        }
+
+        const result = verifySecondFactor(user.id, String(code))
+        if ("error" in result) {
+          return Response.json({ error: result.error }, { status: 400 })
+        }
+
+        disableTwoFactor(user.id)
+        await sendTwoFactorChangedEmail(user.email, "disabled", user.name || undefined)
+
+        return Response.json(
+          { message: "Two-factor authentication disabled" },
+          { headers: { "Set-Cookie": trustedDeviceCookie(null) } }
+        )
+      } catch (error) {
+        log("ERROR", "Two-factor disable error", error)
+        return Response.json({ error: "Failed to disable two-factor authentication" }, { status: 500 })
+      }
+    }),
+  },
+
+  // Replace the recovery codes; needs a current code (authenticated)
+  "/api/auth/2fa/recovery-codes": {
+    POST: withAuth(async (req, user) => {
+      try {
+        const text = await req.text()
+        const { code } = text ? JSON.parse(text) : {}
+
+        if (!code) {
+          return Response.json({ error: "Code is required" }, { status: 400 })
+        }
+
+        const result = regenerateRecoveryCodes(user.id, String(code))
+        if ("error" in result) {
+          return Response.json({ error: result.error }, { status: 400 })
+        }
+
+        return Response.json({ recoveryCodes: result.recoveryCodes })
+      } catch (error) {
+        log("ERROR", "Recovery code regeneration error", error)
+        return Response.json({ error: "Failed to regenerate recovery codes" }, { status: 500 })
+      }
+    }),
+  },
+
   // Refresh access token
   "/api/auth/refresh": {
     POST: async (req: Request) => {
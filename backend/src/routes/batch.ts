@@ -9,7 +9,24 @@ import {
   cancelBatchJob,
   deleteBatchJob,
   MAX_BATCH_SIZE,
+  MAX_IMPORTED_BATCH_SIZE,
+  pickBatchItem,
+  pauseBatchJob,
+  resumeBatchJob,
+  retryBatchItems,
+  updateBatchItemPrompt,
 } from "../services/batch-service"
+import { buildPromptMatrix } from "../services/batch-matrix-service"
+import {
+  isBatchImportFormat,
+  parseBatchImportFile,
+  toBatchImportRows,
+  validateBatchImportRows,
+  type BatchImportRow,
+} from "../services/batch-import-service"
+import { validateJobProvider } from "../services/image-provider-service"
+import { findStylePreset, validateStylePreset } from "../services/style-preset-service"
+import { checkEntitlement } from "../services/entitlement-service"
 
 // Default pagination settings
 const DEFAULT_PAGE_SIZE = 10
@@ -23,6 +40,49 @@ export const batchRoutes = {
         const text = await req.text()
         const body = text ? JSON.parse(text) : {}
 
+        // Imported rows with per-item settings, as returned by /api/batch/import
+        if (Array.isArray(body.items)) {
+          const size = body.size || findStylePreset(body.stylePreset, user.id)?.size || "1024x1024"
+          const providerError = validateJobProvider(body.provider, size) || validateStylePreset(body.stylePreset, user.id)
+          if (providerError) {
+            return Response.json({ error: providerError }, { status: 400 })
+          }
+
+          const validated = validateBatchImportRows(user.id, toBatchImportRows(body.items), body.provider)
+          if ("error" in validated) {
+            return Response.json({ error: validated.error }, { status: 400 })
+          }
+          if (validated.errors.length > 0) {
+            return Response.json(
+              { error: "Some rows are invalid", errors: validated.errors },
+              { status: 400 }
+            )
+          }
+
+          const denied = checkEntitlement(user.id, "images", validated.items.length)
+          if (denied) {
+            return Response.json({ error: denied.error, code: denied.code }, { status: denied.status })
+          }
+
+          const batch = createBatchJob({
+            userId: user.id,
+            name: body.name,
+            items: validated.items,
+            size,
+            stylePreset: body.stylePreset,
+            provider: body.provider,
+            autoSyncTrmnl: body.autoSyncTrmnl || false,
+          })
+
+          log("INFO", "Imported batch job created via API", {
+            batchId: batch?.id,
+            userId: user.id,
+            itemCount: validated.items.length,
+          })
+
+          return Response.json({ batch })
+        }
+
         if (!body.prompts || !Array.isArray(body.prompts)) {
           return Response.json(
             { error: "prompts array is required" },
@@ -44,12 +104,26 @@ export const batchRoutes = {
           )
         }
 
+        const size = body.size || findStylePreset(body.stylePreset, user.id)?.size || "1024x1024"
+        const providerError = validateJobProvider(body.provider, size)
+          || validateStylePreset(body.stylePreset, user.id)
+        if (providerError) {
+          return Response.json({ error: providerError }, { status: 400 })
+        }
+
+        // The whole batch has to fit in what's left of this month's quota
+        const denied = checkEntitlement(user.id, "images", body.prompts.length)
+        if (denied) {
+          return Response.json({ error: denied.error, code: denied.code }, { status: denied.status })
+        }
+
         const batch = createBatchJob({
           userId: user.id,
           name: body.name,
           prompts: body.prompts,
-          size: body.size || "1024x1024",
+          size,
           stylePreset: body.stylePreset,
+          provider: body.provider,
           autoSyncTrmnl: body.autoSyncTrmnl || false,
         })
 
@@ -101,6 +175,198 @@ export const batchRoutes = {
     }),
   },
 
+  // Parse and validate an import file (or edited rows) without creating the batch
+  "/api/batch/import": {
+    POST: withAuth(async (req, user) => {
+      try {
+        const text = await req.text()
+        const body = text ? JSON.parse(text) : {}
+
+        let rows: BatchImportRow[]
+        if (typeof body.content === "string") {
+          if (!isBatchImportFormat(body.format)) {
+            return Response.json({ error: "format must be csv or json" }, { status: 400 })
+          }
+          const parsed = parseBatchImportFile(body.content, body.format)
+          if ("error" in parsed) {
+            return Response.json({ error: parsed.error }, { status: 400 })
+          }
+          rows = parsed.rows
+        } else if (Array.isArray(body.rows)) {
+          rows = toBatchImportRows(body.rows)
+        } else {
+          return Response.json({ error: "content or rows is required" }, { status: 400 })
+        }
+
+        const validated = validateBatchImportRows(user.id, rows, body.provider)
+        if ("error" in validated) {
+          return Response.json({ error: validated.error }, { status: 400 })
+        }
+
+        return Response.json({
+          rows,
+          errors: validated.errors,
+          valid: validated.errors.length === 0,
+          maxRows: MAX_IMPORTED_BATCH_SIZE,
+        })
+      } catch (error) {
+        log("ERROR", "Failed to validate batch import", error)
+        return Response.json({ error: String(error) }, { status: 500 })
+      }
+    }),
+  },
+
+  // Create a prompt matrix batch: base prompt x style presets x sizes x {a|b} phrases
+  "/api/batch/matrix": {
+    POST: withAuth(async (req, user) => {
+      try {
+        const text = await req.text()
+        const body = text ? JSON.parse(text) : {}
+
+        const size = body.size || "1024x1024"
+        const providerError = validateJobProvider(body.provider, size)
+        if (providerError) {
+          return Response.json({ error: providerError }, { status: 400 })
+        }
+
+        const built = buildPromptMatrix({
+          userId: user.id,
+          basePrompt: body.basePrompt,
+          stylePresets: body.stylePresets,
+          sizes: body.sizes,
+          provider: body.provider,
+          defaultSize: size,
+        })
+        if ("error" in built) {
+          return Response.json({ error: built.error }, { status: 400 })
+        }
+
+        const denied = checkEntitlement(user.id, "images", built.items.length)
+        if (denied) {
+          return Response.json({ error: denied.error, code: denied.code }, { status: denied.status })
+        }
+
+        const batch = createBatchJob({
+          userId: user.id,
+          name: body.name,
+          items: built.items,
+          matrix: built.matrix,
+          size,
+          provider: body.provider,
+          autoSyncTrmnl: body.autoSyncTrmnl || false,
+        })
+
+        log("INFO", "Matrix batch job created via API", {
+          batchId: batch?.id,
+          userId: user.id,
+          itemCount: built.items.length,
+        })
+
+        return Response.json({ batch })
+      } catch (error) {
+        log("ERROR", "Failed to create matrix batch job", error)
+        return Response.json({ error: String(error) }, { status: 500 })
+      }
+    }),
+  },
+
+  // Pick a batch result as a winner (favorite and/or add to a collection)
+  "/api/batch/:id/items/:itemId/pick": {
+    POST: withAuth(async (req, user) => {
+      try {
+        const url = new URL(req.url)
+        // Extract IDs from /api/batch/:id/items/:itemId/pick
+        const pathParts = url.pathname.split("/")
+        const batchId = parseInt(pathParts[3] || "0", 10)
+        const itemId = parseInt(pathParts[5] || "0", 10)
+        if (isNaN(batchId) || isNaN(itemId)) {
+          return Response.json({ error: "Invalid batch or item ID" }, { status: 400 })
+        }
+
+        const text = await req.text()
+        const body = text ? JSON.parse(text) : {}
+
+        const result = pickBatchItem(batchId, itemId, user.id, {
+          favorite: body.favorite === true,
+          collectionId: typeof body.collectionId === "number" ? body.collectionId : null,
+        })
+        if ("error" in result) {
+          return Response.json({ error: result.error }, { status: 400 })
+        }
+
+        return Response.json({ item: result.item })
+      } catch (error) {
+        log("ERROR", "Failed to pick batch item", error)
+        return Response.json({ error: String(error) }, { status: 500 })
+      }
+    }),
+  },
+
+  // Edit a failed item's prompt before retrying it
+  "/api/batch/:id/items/:itemId": {
+    PATCH: withAuth(async (req, user) => {
+      try {
+        const url = new URL(req.url)
+        // Extract IDs from /api/batch/:id/items/:itemId
+        const pathParts = url.pathname.split("/")
+        const batchId = parseInt(pathParts[3] || "0", 10)
+        const itemId = parseInt(pathParts[5] || "0", 10)
+        if (isNaN(batchId) || isNaN(itemId)) {
+          return Response.json({ error: "Invalid batch or item ID" }, { status: 400 })
+        }
+
+        const text = await req.text()
+        const body = text ? JSON.parse(text) : {}
+
+        const result = updateBatchItemPrompt(batchId, itemId, user.id, body.prompt)
+        if ("error" in result) {
+          return Response.json({ error: result.error }, { status: 400 })
+        }
+
+        return Response.json({ item: result.item })
+      } catch (error) {
+        log("ERROR", "Failed to update batch item", error)
+        return Response.json({ error: String(error) }, { status: 500 })
+      }
+    }),
+  },
+
+  // Retry failed items (all, or `itemIds`)
+  "/api/batch/:id/retry": {
+    POST: withAuth(async (req, user) => {
+      try {
+        const url = new URL(req.url)
+        // Extract ID from /api/batch/:id/retry
+        const pathParts = url.pathname.split("/")
+        const batchId = parseInt(pathParts[3] || "0", 10)
+        if (isNaN(batchId)) {
+          return Response.json({ error: "Invalid batch ID" }, { status: 400 })
+        }
+
+        const text = await req.text()
+        const body = text ? JSON.parse(text) : {}
+
+        let itemIds: number[] | undefined
+        if (body.itemIds !== undefined) {
+          if (!Array.isArray(body.itemIds) || !body.itemIds.every((id: unknown) => Number.isInteger(id))) {
+            return Response.json({ error: "itemIds must be an array of item IDs" }, { status: 400 })
+          }
+          itemIds = body.itemIds
+        }
+
+        const result = retryBatchItems(batchId, user.id, itemIds)
+        if ("error" in result) {
+          return Response.json({ error: result.error }, { status: 400 })
+        }
+
+        return Response.json({ success: true, retried: result.retried, batch: getBatchJobWithItems(batchId, user.id) })
+      } catch (error) {
+        log("ERROR", "Failed to retry batch items", error)
+        return Response.json({ error: String(error) }, { status: 500 })
+      }
+    }),
+  },
+
   // Get a specific batch job with items
   "/api/batch/:id": {
     GET: withAuth(async (req, user) => {
@@ -123,7 +389,7 @@ export const batchRoutes = {
       }
     }),
 
-    // Cancel a batch job
+    // Cancel, pause or resume a batch job
     PATCH: withAuth(async (req, user) => {
       try {
         const url = new URL(req.url)
@@ -146,6 +412,26 @@ export const batchRoutes = {
           return Response.json({ success: true, message: "Batch job cancelled" })
         }
 
+        if (body.action === "pause") {
+          if (!pauseBatchJob(batchId, user.id)) {
+            return Response.json(
+              { error: "Cannot pause batch job (not found or not running)" },
+              { status: 400 }
+            )
+          }
+          return Response.json({ success: true, message: "Batch job paused" })
+        }
+
+        if (body.action === "resume") {
+          if (!resumeBatchJob(batchId, user.id)) {
+            return Response.json(
+              { error: "Cannot resume batch job (not found or not paused)" },
+              { status: 400 }
+            )
+          }
+          return Response.json({ success: true, message: "Batch job resumed" })
+        }
+
         return Response.json({ error: "Invalid action" }, { status: 400 })
       } catch (error) {
         log("ERROR", "Failed to update batch job", error)
@@ -204,6 +490,7 @@ export const batchRoutes = {
           progress: Math.round(
             ((batch.completed_count + batch.failed_count) / batch.total_count) * 100
           ),
+          estimatedCompletionAt: batch.estimated_completion_at,
         })
       } catch (error) {
         log("ERROR", "Failed to get batch job status", error)
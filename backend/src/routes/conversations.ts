@@ -0,0 +1,207 @@
+import { log, toISODate } from "../utils"
+import { withAuth } from "../middleware/auth"
+import {
+  conversationQueries,
+  conversationMessageQueries,
+  type Conversation,
+  type ConversationMessage,
+  type ConversationSummary,
+} from "../db"
+import {
+  MAX_CONVERSATIONS_LISTED,
+  MAX_CONVERSATION_MESSAGES,
+  appendConversationMessages,
+  deleteConversation,
+  deriveConversationTitle,
+  normalizeConversationMessages,
+  normalizeConversationTitle,
+} from "../services/conversation-service"
+
+function toConversationResponse(conversation: Conversation | ConversationSummary) {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    messageCount: "message_count" in conversation ? conversation.message_count : undefined,
+    lastImageUrl: "last_image_url" in conversation ? conversation.last_image_url : undefined,
+    createdAt: toISODate(conversation.created_at),
+    updatedAt: toISODate(conversation.updated_at),
+  }
+}
+
+function toMessageResponse(message: ConversationMessage) {
+  return {
+    id: message.id,
+    type: message.type,
+    content: message.content,
+    imageUrl: message.image_url,
+    imageId: message.image_id,
+    createdAt: toISODate(message.created_at),
+  }
+}
+
+function getConversationId(req: Request): number {
+  return parseInt((req as any).params?.id, 10)
+}
+
+export const conversationRoutes = {
+  // List the user's chat conversations (most recently active first) or start a new one
+  "/api/conversations": {
+    GET: withAuth(async (req, user) => {
+      try {
+        const conversations = conversationQueries.findAllByUserId.all(user.id, MAX_CONVERSATIONS_LISTED)
+        return Response.json({ conversations: conversations.map(toConversationResponse) })
+      } catch (error) {
+        log("ERROR", "Failed to list conversations", error)
+        return Response.json({ error: "Failed to list conversations" }, { status: 500 })
+      }
+    }),
+    POST: withAuth(async (req, user) => {
+      try {
+        const body = await req.json() as { title?: unknown; messages?: unknown }
+
+        const messages = body.messages === undefined ? [] : normalizeConversationMessages(body.messages, user.id)
+        if ("error" in messages) {
+          return Response.json({ error: messages.error }, { status: 400 })
+        }
+
+        let title = deriveConversationTitle(messages)
+        if (body.title !== undefined) {
+          const normalized = normalizeConversationTitle(body.title)
+          if (typeof normalized !== "string") {
+            return Response.json({ error: normalized.error }, { status: 400 })
+          }
+          title = normalized
+        }
+
+        const conversation = conversationQueries.create.get(user.id, title)
+        if (!conversation) {
+          return Response.json({ error: "Failed to create conversation" }, { status: 500 })
+        }
+        const created = messages.length > 0 ? appendConversationMessages(conversation.id, messages) : []
+
+        log("INFO", "Conversation created", { conversationId: conversation.id, userId: user.id, messages: created.length })
+
+        return Response.json({
+          conversation: toConversationResponse(conversation),
+          messages: created.map(toMessageResponse),
+        }, { status: 201 })
+      } catch (error) {
+        log("ERROR", "Failed to create conversation", error)
+        return Response.json({ error: "Failed to create conversation" }, { status: 500 })
+      }
+    }),
+  },
+
+  // Resume (load with messages), rename or delete a conversation
+  "/api/conversations/:id": {
+    GET: withAuth(async (req, user) => {
+      try {
+        const conversationId = getConversationId(req)
+        if (isNaN(conversationId)) {
+          return Response.json({ error: "Invalid conversation ID" }, { status: 400 })
+        }
+
+        const conversation = conversationQueries.findByIdAndUserId.get(conversationId, user.id)
+        if (!conversation) {
+          return Response.json({ error: "Conversation not found" }, { status: 404 })
+        }
+
+        const messages = conversationMessageQueries.findByConversationId.all(conversationId)
+        return Response.json({
+          conversation: toConversationResponse(conversation),
+          messages: messages.map(toMessageResponse),
+        })
+      } catch (error) {
+        log("ERROR", "Failed to get conversation", error)
+        return Response.json({ error: "Failed to get conversation" }, { status: 500 })
+      }
+    }),
+    PATCH: withAuth(async (req, user) => {
+      try {
+        const conversationId = getConversationId(req)
+        if (isNaN(conversationId)) {
+          return Response.json({ error: "Invalid conversation ID" }, { status: 400 })
+        }
+
+        const existing = conversationQueries.findByIdAndUserId.get(conversationId, user.id)
+        if (!existing) {
+          return Response.json({ error: "Conversation not found" }, { status: 404 })
+        }
+
+        const body = await req.json() as { title?: unknown }
+        const title = normalizeConversationTitle(body.title)
+        if (typeof title !== "string") {
+          return Response.json({ error: title.error }, { status: 400 })
+        }
+
+        conversationQueries.updateTitle.run(title, conversationId, user.id)
+        const updated = conversationQueries.findByIdAndUserId.get(conversationId, user.id)
+
+        return Response.json({ conversation: updated ? toConversationResponse(updated) : null })
+      } catch (error) {
+        log("ERROR", "Failed to rename conversation", error)
+        return Response.json({ error: "Failed to rename conversation" }, { status: 500 })
+      }
+    }),
+    DELETE: withAuth(async (req, user) => {
+      try {
+        const conversationId = getConversationId(req)
+        if (isNaN(conversationId)) {
+          return Response.json({ error: "Invalid conversation ID" }, { status: 400 })
+        }
+
+        const existing = conversationQueries.findByIdAndUserId.get(conversationId, user.id)
+        if (!existing) {
+          return Response.json({ error: "Conversation not found" }, { status: 404 })
+        }
+
+        // Gallery images generated in the conversation are kept
+        deleteConversation(conversationId, user.id)
+
+        log("INFO", "Conversation deleted", { conversationId, userId: user.id })
+
+        return Response.json({ success: true })
+      } catch (error) {
+        log("ERROR", "Failed to delete conversation", error)
+        return Response.json({ error: "Failed to delete conversation" }, { status: 500 })
+      }
+    }),
+  },
+
+  // Append messages to a conversation
+  "/api/conversations/:id/messages": {
+    POST: withAuth(async (req, user) => {
+      try {
+        const conversationId = getConversationId(req)
+        if (isNaN(conversationId)) {
+          return Response.json({ error: "Invalid conversation ID" }, { status: 400 })
+        }
+
+        const existing = conversationQueries.findByIdAndUserId.get(conversationId, user.id)
+        if (!existing) {
+          return Response.json({ error: "Conversation not found" }, { status: 404 })
+        }
+
+        const body = await req.json() as { messages?: unknown }
+        const messages = normalizeConversationMessages(body.messages, user.id)
+        if ("error" in messages) {
+          return Response.json({ error: messages.error }, { status: 400 })
+        }
+
+        const count = conversationMessageQueries.countByConversationId.get(conversationId)?.count || 0
+        if (count + messages.length > MAX_CONVERSATION_MESSAGES) {
+          return Response.json(
+            { error: `A conversation can have at most ${MAX_CONVERSATION_MESSAGES} messages. Start a new chat to continue.` },
+            { status: 400 }
+          )
+        }
+
+        const created = appendConversationMessages(conversationId, messages)
+        return Response.json({ messages: created.map(toMessageResponse) }, { status: 201 })
+      } catch (error) {
+        log("ERROR", "Failed to save conversation messages", error)
+        return Response.json({ error: "Failed to save conversation messages" }, { status: 500 })
+      }
+    }),
+  },
+}
@@ -1,30 +1,175 @@
-import { userDeviceQueries, type UserDevice } from "../db"
+import {
+  userDeviceQueries,
+  collectionQueries,
+  generatedImageQueries,
+  devicePlaylistQueries,
+  type UserDevice,
+  type DevicePlaylist,
+} from "../db"
 import { withAuth } from "../middleware/auth"
 import { log, toISODate } from "../utils"
+import {
+  renderEinkImage,
+  getDeviceEinkOptions,
+  isDitherAlgorithm,
+  isEinkBitDepth,
+  isEinkOrientation,
+  isEinkFit,
+  DITHER_ALGORITHMS,
+  EINK_BIT_DEPTHS,
+  EINK_ORIENTATIONS,
+  EINK_FITS,
+  type DitherAlgorithm,
+  type EinkBitDepth,
+  type EinkOrientation,
+  type EinkFit,
+} from "../services/eink-service"
+import {
+  getPlaylistImages,
+  setPlaylistImages,
+  deleteDevicePlaylist,
+  isPlaylistSource,
+  isPlaylistMode,
+  PLAYLIST_SOURCES,
+  PLAYLIST_MODES,
+  DEFAULT_PLAYLIST_DWELL_MINUTES,
+  MIN_PLAYLIST_DWELL_MINUTES,
+  MAX_PLAYLIST_DWELL_MINUTES,
+  MAX_PLAYLIST_IMAGES,
+} from "../services/playlist-service"
+import {
+  getDevicePollingUrl,
+  generatePollingToken,
+  rotateDevicePollingToken,
+  renderImageForDevice,
+  deleteDeviceImages,
+} from "./sync"
+import { getGalleryThumbnailUrl } from "./gallery"
 
 // Device response type (includes webhook URL)
 interface DeviceResponse {
   id: number
   name: string
   webhook_url: string
+  polling_url: string
   background_color: "black" | "white"
   is_default: boolean
   mac_address: string | null
   device_api_key: string | null
+  eink_dither: DitherAlgorithm
+  eink_bit_depth: EinkBitDepth
+  eink_orientation: EinkOrientation
+  eink_fit: EinkFit
   created_at: string
   updated_at: string
 }
 
+// E-ink settings accepted on create/update/preview requests
+interface EinkSettingsBody {
+  eink_dither?: string
+  eink_bit_depth?: number
+  eink_orientation?: string
+  eink_fit?: string
+}
+
+// Validate e-ink settings in a request body, returning an error message for the first invalid field
+function validateEinkSettings(body: EinkSettingsBody): string | null {
+  if (body.eink_dither !== undefined && !isDitherAlgorithm(body.eink_dither)) {
+    return `eink_dither must be one of: ${DITHER_ALGORITHMS.join(", ")}`
+  }
+  if (body.eink_bit_depth !== undefined && !isEinkBitDepth(body.eink_bit_depth)) {
+    return `eink_bit_depth must be one of: ${EINK_BIT_DEPTHS.join(", ")}`
+  }
+  if (body.eink_orientation !== undefined && !isEinkOrientation(body.eink_orientation)) {
+    return `eink_orientation must be one of: ${EINK_ORIENTATIONS.join(", ")}`
+  }
+  if (body.eink_fit !== undefined && !isEinkFit(body.eink_fit)) {
+    return `eink_fit must be one of: ${EINK_FITS.join(", ")}`
+  }
+  return null
+}
+
+// Merge requested e-ink settings over a device's stored settings
+function mergeEinkSettings(device: UserDevice, body: EinkSettingsBody) {
+  const current = getDeviceEinkOptions(device)
+  return getDeviceEinkOptions({
+    eink_dither: body.eink_dither ?? current.dither,
+    eink_bit_depth: body.eink_bit_depth ?? current.bitDepth,
+    eink_orientation: body.eink_orientation ?? current.orientation,
+    eink_fit: body.eink_fit ?? current.fit,
+    background_color: device.background_color,
+  })
+}
+
+// Playlist settings accepted on PUT /api/devices/:id/playlist
+interface PlaylistBody {
+  source_type?: string
+  collection_id?: number
+  image_ids?: number[]
+  mode?: string
+  dwell_minutes?: number
+  is_enabled?: boolean
+}
+
+// Convert a device playlist to response format (images listed in playback order)
+function toPlaylistResponse(playlist: DevicePlaylist) {
+  return {
+    device_id: playlist.device_id,
+    source_type: playlist.source_type,
+    collection_id: playlist.collection_id,
+    mode: playlist.mode,
+    dwell_minutes: playlist.dwell_minutes,
+    is_enabled: playlist.is_enabled === 1,
+    current_image_id: playlist.current_image_id,
+    last_advanced_at: toISODate(playlist.last_advanced_at),
+    images: getPlaylistImages(playlist).map((image) => ({
+      id: image.id,
+      prompt: image.original_prompt,
+      thumbnail_url: getGalleryThumbnailUrl(image.id),
+      is_favorite: image.is_favorite === 1,
+    })),
+  }
+}
+
+// Build the TRMNL plugin settings.yml for a device (mirrors trmnl-plugin/src/settings.yml)
+// with the polling URL generated from the device's token
+function buildPluginSettingsYaml(device: UserDevice): string {
+  return [
+    "---",
+    "strategy: webhook",
+    "no_screen_padding: 'no'",
+    "dark_mode: 'no'",
+    "static_data: ''",
+    "polling_verb: get",
+    `polling_url: ${getDevicePollingUrl(device)}`,
+    "polling_headers: ''",
+    "polling_body: ''",
+    "custom_fields:",
+    "- keyname: copyable_webhook_url",
+    "  field_type: copyable_webhook_url",
+    "  name: Copyable Webhook",
+    "name: PromptInk",
+    "refresh_interval: 5",
+    "",
+  ].join("\n")
+}
+
 // Convert database device to response format
 function toDeviceResponse(device: UserDevice): DeviceResponse {
+  const eink = getDeviceEinkOptions(device)
   return {
     id: device.id,
     name: device.name,
     webhook_url: device.webhook_uuid, // webhook_uuid now stores the full URL
+    polling_url: getDevicePollingUrl(device),
     background_color: device.background_color,
     is_default: device.is_default === 1,
     mac_address: device.mac_address,
     device_api_key: device.device_api_key,
+    eink_dither: eink.dither,
+    eink_bit_depth: eink.bitDepth,
+    eink_orientation: eink.orientation,
+    eink_fit: eink.fit,
     created_at: toISODate(device.created_at) || device.created_at,
     updated_at: toISODate(device.updated_at) || device.updated_at,
   }
@@ -53,12 +198,17 @@ export const devicesRoutes = {
           webhook_url?: string
           background_color?: "black" | "white"
           is_default?: boolean
-        }
+        } & EinkSettingsBody
 
         if (!body.name || body.name.trim().length === 0) {
           return Response.json({ error: "Device name is required" }, { status: 400 })
         }
 
+        const einkError = validateEinkSettings(body)
+        if (einkError) {
+          return Response.json({ error: einkError }, { status: 400 })
+        }
+
         if (!body.webhook_url || body.webhook_url.trim().length === 0) {
           return Response.json({ error: "Webhook URL is required" }, { status: 400 })
         }
@@ -86,18 +236,23 @@ export const devicesRoutes = {
           backgroundColor,
           isDefault ? 1 : 0,
           null, // mac_address - set by admin
-          null  // device_api_key - set by admin
+          null, // device_api_key - set by admin
+          generatePollingToken()
         )
 
         if (!device) {
           return Response.json({ error: "Failed to create device" }, { status: 500 })
         }
 
+        const eink = mergeEinkSettings(device, body)
+        userDeviceQueries.updateEinkSettings.run(eink.dither, eink.bitDepth, eink.orientation, eink.fit, device.id)
+        const createdDevice = userDeviceQueries.findById.get(device.id) ?? device
+
         log("INFO", "Device created", { userId: user.id, deviceId: device.id, name })
 
         return Response.json({
           success: true,
-          device: toDeviceResponse(device),
+          device: toDeviceResponse(createdDevice),
         })
       } catch (error) {
         log("ERROR", "Failed to create device", error)
@@ -152,6 +307,11 @@ export const devicesRoutes = {
           webhook_url?: string
           background_color?: "black" | "white"
           is_default?: boolean
+        } & EinkSettingsBody
+
+        const einkError = validateEinkSettings(body)
+        if (einkError) {
+          return Response.json({ error: einkError }, { status: 400 })
         }
 
         const newName = body.name?.trim() || device.name
@@ -161,6 +321,9 @@ export const devicesRoutes = {
         // Update device (preserve mac_address and device_api_key - only admin can change those)
         userDeviceQueries.update.run(newName, newWebhookUrl, newBackgroundColor, device.mac_address, device.device_api_key, deviceId)
 
+        const eink = mergeEinkSettings(device, body)
+        userDeviceQueries.updateEinkSettings.run(eink.dither, eink.bitDepth, eink.orientation, eink.fit, deviceId)
+
         // Handle default flag
         if (body.is_default === true) {
           userDeviceQueries.clearDefault.run(user.id)
@@ -170,6 +333,11 @@ export const devicesRoutes = {
         // Fetch updated device
         const updatedDevice = userDeviceQueries.findByIdAndUserId.get(deviceId, user.id)
 
+        // Re-render the current image so new e-ink settings apply on the next poll
+        if (updatedDevice) {
+          await renderImageForDevice(user.id, updatedDevice)
+        }
+
         log("INFO", "Device updated", { userId: user.id, deviceId, name: newName })
 
         return Response.json({
@@ -199,8 +367,10 @@ export const devicesRoutes = {
 
         const wasDefault = device.is_default === 1
 
-        // Delete device
+        // Delete device, its synced images and its playlist
         userDeviceQueries.delete.run(deviceId, user.id)
+        deleteDeviceImages(user.id, deviceId)
+        deleteDevicePlaylist(deviceId)
 
         // If deleted device was default, set another device as default
         if (wasDefault) {
@@ -260,4 +430,281 @@ export const devicesRoutes = {
       }
     }),
   },
+
+  // Rotate a device's polling token, revoking its old polling and image URLs
+  "/api/devices/:id/polling-token": {
+    POST: withAuth(async (req, user) => {
+      try {
+        const url = new URL(req.url)
+        // URL pattern: /api/devices/:id/polling-token - get the second to last segment
+        const pathParts = url.pathname.split("/")
+        const deviceId = parseInt(pathParts[pathParts.length - 2] || "0", 10)
+
+        if (isNaN(deviceId)) {
+          return Response.json({ error: "Invalid device ID" }, { status: 400 })
+        }
+
+        const device = userDeviceQueries.findByIdAndUserId.get(deviceId, user.id)
+
+        if (!device) {
+          return Response.json({ error: "Device not found" }, { status: 404 })
+        }
+
+        const updatedDevice = await rotateDevicePollingToken(device)
+
+        return Response.json({
+          success: true,
+          device: toDeviceResponse(updatedDevice),
+        })
+      } catch (error) {
+        log("ERROR", "Failed to rotate polling token", error)
+        return Response.json({ error: "Failed to rotate polling token" }, { status: 500 })
+      }
+    }),
+  },
+
+  // Download the TRMNL plugin settings.yml for a device
+  "/api/devices/:id/plugin-settings": {
+    GET: withAuth(async (req, user) => {
+      try {
+        const url = new URL(req.url)
+        // URL pattern: /api/devices/:id/plugin-settings - get the second to last segment
+        const pathParts = url.pathname.split("/")
+        const deviceId = parseInt(pathParts[pathParts.length - 2] || "0", 10)
+
+        if (isNaN(deviceId)) {
+          return Response.json({ error: "Invalid device ID" }, { status: 400 })
+        }
+
+        const device = userDeviceQueries.findByIdAndUserId.get(deviceId, user.id)
+
+        if (!device) {
+          return Response.json({ error: "Device not found" }, { status: 404 })
+        }
+
+        return new Response(buildPluginSettingsYaml(device), {
+          headers: {
+            "Content-Type": "text/yaml; charset=utf-8",
+            "Content-Disposition": `attachment; filename="settings.yml"`,
+          },
+        })
+      } catch (error) {
+        log("ERROR", "Failed to build plugin settings", error)
+        return Response.json({ error: "Failed to build plugin settings" }, { status: 500 })
+      }
+    }),
+  },
+
+  // Get, replace or remove a device's playlist (rotates gallery images on each poll)
+  "/api/devices/:id/playlist": {
+    GET: withAuth(async (req, user) => {
+      try {
+        const url = new URL(req.url)
+        // URL pattern: /api/devices/:id/playlist - get the second to last segment
+        const pathParts = url.pathname.split("/")
+        const deviceId = parseInt(pathParts[pathParts.length - 2] || "0", 10)
+
+        if (isNaN(deviceId)) {
+          return Response.json({ error: "Invalid device ID" }, { status: 400 })
+        }
+
+        const device = userDeviceQueries.findByIdAndUserId.get(deviceId, user.id)
+
+        if (!device) {
+          return Response.json({ error: "Device not found" }, { status: 404 })
+        }
+
+        const playlist = devicePlaylistQueries.findByDeviceId.get(deviceId)
+
+        return Response.json({
+          playlist: playlist ? toPlaylistResponse(playlist) : null,
+        })
+      } catch (error) {
+        log("ERROR", "Failed to fetch device playlist", error)
+        return Response.json({ error: "Failed to fetch device playlist" }, { status: 500 })
+      }
+    }),
+
+    PUT: withAuth(async (req, user) => {
+      try {
+        const url = new URL(req.url)
+        const pathParts = url.pathname.split("/")
+        const deviceId = parseInt(pathParts[pathParts.length - 2] || "0", 10)
+
+        if (isNaN(deviceId)) {
+          return Response.json({ error: "Invalid device ID" }, { status: 400 })
+        }
+
+        const device = userDeviceQueries.findByIdAndUserId.get(deviceId, user.id)
+
+        if (!device) {
+          return Response.json({ error: "Device not found" }, { status: 404 })
+        }
+
+        const body = await req.json() as PlaylistBody
+        const existing = devicePlaylistQueries.findByDeviceId.get(deviceId)
+
+        if (!isPlaylistSource(body.source_type)) {
+          return Response.json({ error: `source_type must be one of: ${PLAYLIST_SOURCES.join(", ")}` }, { status: 400 })
+        }
+        if (body.mode !== undefined && !isPlaylistMode(body.mode)) {
+          return Response.json({ error: `mode must be one of: ${PLAYLIST_MODES.join(", ")}` }, { status: 400 })
+        }
+        if (
+          body.dwell_minutes !== undefined &&
+          (!Number.isInteger(body.dwell_minutes) ||
+            body.dwell_minutes < MIN_PLAYLIST_DWELL_MINUTES ||
+            body.dwell_minutes > MAX_PLAYLIST_DWELL_MINUTES)
+        ) {
+          return Response.json({
+            error: `dwell_minutes must be a whole number between ${MIN_PLAYLIST_DWELL_MINUTES} and ${MAX_PLAYLIST_DWELL_MINUTES}`,
+          }, { status: 400 })
+        }
+
+        let collectionId: number | null = null
+        let imageIds: number[] = []
+
+        if (body.source_type === "collection") {
+          const collection = typeof body.collection_id === "number"
+            ? collectionQueries.findByIdAndUserId.get(body.collection_id, user.id)
+            : null
+          if (!collection) {
+            return Response.json({ error: "Collection not found" }, { status: 404 })
+          }
+          collectionId = collection.id
+        } else {
+          if (!Array.isArray(body.image_ids) || body.image_ids.length === 0) {
+            return Response.json({ error: "image_ids must be a non-empty array" }, { status: 400 })
+          }
+          imageIds = [...new Set(body.image_ids)]
+          if (imageIds.length > MAX_PLAYLIST_IMAGES) {
+            return Response.json({ error: `Maximum ${MAX_PLAYLIST_IMAGES} images per playlist` }, { status: 400 })
+          }
+          if (!imageIds.every(Number.isInteger)) {
+            return Response.json({ error: "image_ids must be image IDs" }, { status: 400 })
+          }
+          if (generatedImageQueries.findByIds(imageIds, user.id).length !== imageIds.length) {
+            return Response.json({ error: "One or more images not found" }, { status: 404 })
+          }
+        }
+
+        const playlist = devicePlaylistQueries.upsert.get(
+          deviceId,
+          user.id,
+          body.source_type,
+          collectionId,
+          body.mode ?? existing?.mode ?? "sequential",
+          body.dwell_minutes ?? existing?.dwell_minutes ?? DEFAULT_PLAYLIST_DWELL_MINUTES,
+          (body.is_enabled ?? (existing ? existing.is_enabled === 1 : true)) ? 1 : 0
+        )
+
+        if (!playlist) {
+          return Response.json({ error: "Failed to save device playlist" }, { status: 500 })
+        }
+
+        setPlaylistImages(playlist.id, imageIds)
+
+        log("INFO", "Device playlist saved", {
+          userId: user.id,
+          deviceId,
+          sourceType: playlist.source_type,
+          mode: playlist.mode,
+          dwellMinutes: playlist.dwell_minutes,
+        })
+
+        return Response.json({
+          success: true,
+          playlist: toPlaylistResponse(playlist),
+        })
+      } catch (error) {
+        log("ERROR", "Failed to save device playlist", error)
+        return Response.json({ error: "Failed to save device playlist" }, { status: 500 })
+      }
+    }),
+
+    DELETE: withAuth(async (req, user) => {
+      try {
+        const url = new URL(req.url)
+        const pathParts = url.pathname.split("/")
+        const deviceId = parseInt(pathParts[pathParts.length - 2] || "0", 10)
+
+        if (isNaN(deviceId)) {
+          return Response.json({ error: "Invalid device ID" }, { status: 400 })
+        }
+
+        const device = userDeviceQueries.findByIdAndUserId.get(deviceId, user.id)
+
+        if (!device) {
+          return Response.json({ error: "Device not found" }, { status: 404 })
+        }
+
+        deleteDevicePlaylist(deviceId)
+
+        log("INFO", "Device playlist removed", { userId: user.id, deviceId })
+
+        return Response.json({ success: true })
+      } catch (error) {
+        log("ERROR", "Failed to remove device playlist", error)
+        return Response.json({ error: "Failed to remove device playlist" }, { status: 500 })
+      }
+    }),
+  },
+
+  // Preview how an image will look on a device's e-ink panel.
+  // Body e-ink settings override the stored ones so unsaved changes can be previewed.
+  "/api/devices/:id/preview": {
+    POST: withAuth(async (req, user) => {
+      try {
+        const url = new URL(req.url)
+        // URL pattern: /api/devices/:id/preview - get the second to last segment
+        const pathParts = url.pathname.split("/")
+        const deviceId = parseInt(pathParts[pathParts.length - 2] || "0", 10)
+
+        if (isNaN(deviceId)) {
+          return Response.json({ error: "Invalid device ID" }, { status: 400 })
+        }
+
+        const device = userDeviceQueries.findByIdAndUserId.get(deviceId, user.id)
+
+        if (!device) {
+          return Response.json({ error: "Device not found" }, { status: 404 })
+        }
+
+        const body = await req.json() as { imageUrl?: string; background_color?: "black" | "white" } & EinkSettingsBody
+
+        if (!body.imageUrl) {
+          return Response.json({ error: "imageUrl is required" }, { status: 400 })
+        }
+
+        const einkError = validateEinkSettings(body)
+        if (einkError) {
+          return Response.json({ error: einkError }, { status: 400 })
+        }
+
+        const imageResponse = await fetch(body.imageUrl)
+        if (!imageResponse.ok) {
+          return Response.json({ error: `Failed to download image: HTTP ${imageResponse.status}` }, { status: 400 })
+        }
+
+        const options = mergeEinkSettings(device, body)
+        if (body.background_color === "white" || body.background_color === "black") {
+          options.background = body.background_color
+        }
+
+        const rendered = await renderEinkImage(await imageResponse.arrayBuffer(), options)
+
+        log("INFO", "Rendered e-ink preview", { userId: user.id, deviceId, ...options })
+
+        return new Response(rendered, {
+          headers: {
+            "Content-Type": "image/png",
+            "Cache-Control": "no-store",
+          },
+        })
+      } catch (error) {
+        log("ERROR", "Failed to render e-ink preview", error)
+        return Response.json({ error: "Failed to render preview" }, { status: 500 })
+      }
+    }),
+  },
 }
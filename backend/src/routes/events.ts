@@ -0,0 +1,94 @@
+import type { Server } from "bun"
+import { log } from "../utils"
+import { authenticateRequest } from "../middleware/auth"
+import {
+  MAX_EVENT_STREAMS_PER_USER,
+  formatServerEvent,
+  getUserEventStreamCount,
+  subscribeToUserEvents,
+} from "../services/event-service"
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25_000
+
+// How long the browser waits before reconnecting after the stream drops
+const RECONNECT_DELAY_MS = 5_000
+
+export const eventRoutes = {
+  // Server-Sent Events stream of the user's batch, schedule, sync and generation events.
+  // Authenticated with the Authorization header, so the client reads it with fetch rather than EventSource.
+  "/api/events": {
+    GET: async (req: Request, server?: Server<undefined>) => {
+      const authResult = await authenticateRequest(req)
+      if ("error" in authResult) {
+        return Response.json({ error: authResult.error }, { status: authResult.status })
+      }
+      const { user, payload } = authResult
+
+      if (getUserEventStreamCount(user.id) >= MAX_EVENT_STREAMS_PER_USER) {
+        return Response.json({ error: "Too many open event streams" }, { status: 429 })
+      }
+
+      // The stream stays open until the client leaves, its token is revoked or the token expires;
+      // the client then reconnects with a fresh token
+      server?.timeout(req, 0)
+
+      const encoder = new TextEncoder()
+      let cleanup: (() => void) | null = null
+
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          const send = (chunk: string) => {
+            try {
+              controller.enqueue(encoder.encode(chunk))
+            } catch {
+              // Stream already closed; the abort handler unsubscribes
+            }
+          }
+
+          const close = () => {
+            cleanup?.()
+            try {
+              controller.close()
+            } catch {
+              // Already closed by the client
+            }
+            log("DEBUG", "Event stream ended by the server", { userId: user.id })
+          }
+
+          const unsubscribe = subscribeToUserEvents(user.id, event => send(formatServerEvent(event)), {
+            tokenId: payload.jti,
+            close,
+          })
+          const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_INTERVAL_MS)
+          const expiry = setTimeout(close, Math.max(0, payload.exp * 1000 - Date.now()))
+
+          cleanup = () => {
+            clearInterval(heartbeat)
+            clearTimeout(expiry)
+            unsubscribe()
+            cleanup = null
+          }
+          req.signal.addEventListener("abort", () => cleanup?.())
+
+          send(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+          send("event: ready\ndata: {}\n\n")
+          log("DEBUG", "Event stream opened", { userId: user.id })
+        },
+        cancel() {
+          cleanup?.()
+          log("DEBUG", "Event stream closed", { userId: user.id })
+        },
+      })
+
+      return new Response(stream, {
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          "Connection": "keep-alive",
+          "X-Accel-Buffering": "no",
+        },
+      })
+    },
+  },
+}
@@ -57,12 +57,20 @@ export function getGalleryThumbnailUrl(imageId: number): string {
 export async function saveImageToGallery(imageUrl: string, userId: number, imageId: number): Promise<string> {
   log("INFO", "Saving image to gallery", { imageUrl: imageUrl.substring(0, 100) + "...", userId, imageId })
 
-  const response = await fetch(imageUrl)
-  if (!response.ok) {
-    throw new Error(`Failed to download image: HTTP ${response.status}`)
+  let arrayBuffer: ArrayBuffer
+  const dataUrlMatch = imageUrl.match(/^data:image\/[\w+.-]+;base64,(.+)$/)
+  if (dataUrlMatch) {
+    // Providers that return image bytes (Stable Diffusion, placeholder, ...) hand over data URLs
+    const bytes = Buffer.from(dataUrlMatch[1]!, "base64")
+    arrayBuffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+  } else {
+    const response = await fetch(imageUrl)
+    if (!response.ok) {
+      throw new Error(`Failed to download image: HTTP ${response.status}`)
+    }
+    arrayBuffer = await response.arrayBuffer()
   }
 
-  const arrayBuffer = await response.arrayBuffer()
   const filePath = getGalleryImagePath(userId, imageId)
 
   await Bun.write(filePath, arrayBuffer)
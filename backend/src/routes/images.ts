@@ -1,102 +1,151 @@
 import { log } from "../utils"
 import {
-  generateImage,
-  generateImageEdit,
-  generateImageVariation,
   translateText,
   generateInfographicPrompt,
   fetchUrlContent,
   isGitHubRepoUrl,
-  type GenerateImageOptions,
 } from "../services/openai-service"
+import {
+  getAvailableImageProviders,
+  getDefaultImageProviderId,
+  resolveImageProvider,
+  toImageProviderResponse,
+  validateProviderOptions,
+  type ProviderGenerateOptions,
+} from "../services/image-provider-service"
 import { summarizeGitHubRepo } from "../services/repomix-service"
-import { verifyToken } from "../services/auth-service"
 import { generatedImageQueries } from "../db"
+import { withAuth } from "../middleware/auth"
 import { saveImageToGallery, getGalleryImageUrl } from "./gallery"
+import {
+  applyStylePreset,
+  findStylePreset,
+  getPresetNegativePrompt,
+  validateStylePreset,
+} from "../services/style-preset-service"
+import { publishUserEvent, type GenerationStage } from "../services/event-service"
+import { consumeQuota, getQuotaPeriod, refundQuota, type EntitlementDenial } from "../services/entitlement-service"
+
+type GenerationProgress = (stage: GenerationStage, error?: string) => void
+
+// Reports a generation's stages to the user's event stream when the client sent a requestId
+function createGenerationProgress(userId: number, requestId: unknown): GenerationProgress {
+  if (typeof requestId !== "string" || !requestId || requestId.length > 100) {
+    return () => {}
+  }
+  return (stage, error) => {
+    publishUserEvent(userId, { type: "generation.progress", requestId, stage, error: error ?? null })
+  }
+}
 
-// Style preset definitions with prompt modifiers
-const stylePresets: Record<string, string> = {
-  "none": "",
-  "photorealistic": ", photorealistic, high-resolution photography, detailed, sharp focus, professional photography",
-  "anime": ", anime style, Japanese animation, vibrant colors, cel-shaded, manga-inspired",
-  "watercolor": ", watercolor painting style, soft brushstrokes, flowing colors, artistic, traditional watercolor on paper",
-  "oil-painting": ", oil painting style, textured brushstrokes, rich colors, classical art technique, canvas texture",
-  "pixel-art": ", pixel art style, 8-bit, retro video game aesthetic, blocky pixels, nostalgic",
-  "3d-render": ", 3D render, CGI, Blender style, realistic lighting, raytraced, octane render",
-  "sketch": ", pencil sketch style, hand-drawn, graphite, charcoal drawing, artistic sketch on paper",
-  "pop-art": ", pop art style, bold colors, comic book style, Roy Lichtenstein inspired, halftone dots",
-  "minimalist": ", minimalist style, clean lines, simple shapes, flat design, negative space, modern",
-  "cinematic": ", cinematic style, dramatic lighting, movie poster aesthetic, film grain, wide aspect, epic",
+// Images a request asks for, as counted against the monthly quota
+function getRequestedImageCount(n: unknown): number {
+  return Math.max(1, Math.floor(Number(n)) || 1)
 }
 
-// Apply style preset to prompt
-function applyStylePreset(prompt: string, stylePreset: string): string {
-  const modifier = stylePresets[stylePreset] || ""
-  if (!modifier) return prompt
-  return prompt + modifier
+function entitlementResponse(denied: EntitlementDenial): Response {
+  return Response.json({ error: denied.error, code: denied.code }, { status: denied.status })
 }
 
-// Helper to extract user from request (optional auth)
-async function getUserFromRequest(req: Request): Promise<{ id: number } | null> {
-  const authHeader = req.headers.get("Authorization")
-  if (!authHeader?.startsWith("Bearer ")) {
-    return null
-  }
-  const token = authHeader.slice(7)
+// Run a provider call, giving back the quota taken for it (in `period`) if the call fails
+async function refundImagesOnFailure<T>(
+  userId: number,
+  count: number,
+  period: string,
+  generate: () => Promise<T>
+): Promise<T> {
   try {
-    const payload = await verifyToken(token, "access")
-    if (!payload) return null
-    return { id: payload.userId }
-  } catch {
-    return null
+    return await generate()
+  } catch (error) {
+    refundQuota(userId, "images", period, count)
+    throw error
   }
 }
 
 export const imageRoutes = {
+  // Image providers available on this server and what each supports
+  "/api/images/providers": {
+    GET: withAuth(async () => {
+      return Response.json({
+        defaultProvider: getDefaultImageProviderId(),
+        providers: getAvailableImageProviders().map(toImageProviderResponse),
+      })
+    }),
+  },
+
   // Generate image from prompt
   "/api/images/generate": {
-    POST: async (req: Request) => {
+    POST: withAuth(async (req, user) => {
+      let progress: GenerationProgress | null = null
       try {
-        const user = await getUserFromRequest(req)
         const text = await req.text()
         const body = text ? JSON.parse(text) : {}
+        progress = createGenerationProgress(user.id, body.requestId)
 
         if (!body.prompt) {
           return Response.json({ error: "prompt is required" }, { status: 400 })
         }
 
+        const provider = resolveImageProvider(body.provider)
+        if ("error" in provider) {
+          return Response.json({ error: provider.error }, { status: 400 })
+        }
+        const presetError = validateStylePreset(body.stylePreset, user.id)
+        if (presetError) {
+          return Response.json({ error: presetError }, { status: 400 })
+        }
+        // Size, quality and style fall back to the preset's defaults
+        const preset = findStylePreset(body.stylePreset, user.id)
+        const size = body.size || preset?.size || undefined
+        const optionsError = validateProviderOptions(provider, {
+          size,
+          negativePrompt: body.negativePrompt,
+        })
+        if (optionsError) {
+          return Response.json({ error: optionsError }, { status: 400 })
+        }
+
         // Apply style preset to prompt if specified
         const originalPrompt = body.prompt
-        const styledPrompt = body.stylePreset 
-          ? applyStylePreset(body.prompt, body.stylePreset)
-          : body.prompt
+        const styledPrompt = applyStylePreset(body.prompt, preset)
 
         log("INFO", "Generating image", {
-          userId: user?.id,
+          userId: user.id,
+          provider: provider.id,
           stylePreset: body.stylePreset || "none",
           originalPromptPreview: originalPrompt.substring(0, 50),
           styledPromptPreview: styledPrompt.substring(0, 80),
         })
 
-        const options: GenerateImageOptions = {
+        const options: ProviderGenerateOptions = {
           prompt: styledPrompt,
-          model: body.model || "dall-e-3",
+          negativePrompt: getPresetNegativePrompt(body.negativePrompt, preset, provider),
+          model: body.model,
           n: body.n,
-          size: body.size || "1024x1024",
-          quality: body.quality,
-          style: body.style || "vivid",
-          response_format: body.response_format,
+          size: size || "1024x1024",
+          quality: body.quality || preset?.quality || undefined,
+          style: body.style || preset?.style || "vivid",
+          responseFormat: body.response_format,
+          usage: { userId: user.id, source: "chat" },
         }
 
         // Store values for database with guaranteed non-null/non-undefined defaults
-        const dbModel = String(options.model || "dall-e-3")
+        const dbModel = provider.getModel({ model: body.model })
         const dbSize = String(options.size || "1024x1024")
-        const dbStyle = options.style ? String(options.style) : null
+        const dbStyle = provider.id === "openai" && options.style ? String(options.style) : null
 
-        const result = await generateImage(options)
+        const imageCount = getRequestedImageCount(options.n)
+        const quotaPeriod = getQuotaPeriod()
+        const denied = consumeQuota(user.id, "images", imageCount, quotaPeriod)
+        if (denied) {
+          return entitlementResponse(denied)
+        }
+
+        progress("generating")
+        const result = await refundImagesOnFailure(user.id, imageCount, quotaPeriod, () => provider.generate(options))
 
         log("INFO", "Image generated", {
-          userId: user?.id,
+          userId: user.id,
           language: body.language,
           stylePreset: body.stylePreset || "none",
           hasRevisedPrompt: !!result.data?.[0]?.revised_prompt,
@@ -108,7 +157,7 @@ export const imageRoutes = {
         if (body.language === "zh" && result.data?.[0]?.revised_prompt) {
           log("INFO", "Translating revised_prompt to Chinese")
           try {
-            const translatedPrompt = await translateText(result.data[0].revised_prompt, "zh")
+            const translatedPrompt = await translateText(result.data[0].revised_prompt, "zh", { userId: user.id, source: "chat" })
             log("INFO", "Translation completed", { translatedPreview: translatedPrompt.substring(0, 50) })
             result.data[0].revised_prompt = translatedPrompt
           } catch (translateError) {
@@ -117,8 +166,9 @@ export const imageRoutes = {
           }
         }
 
-        // Auto-save to gallery if user is authenticated
-        if (user && result.data?.[0]?.url) {
+        // Auto-save to gallery
+        if (result.data?.[0]?.url) {
+          progress("saving")
           try {
             // Ensure userId is a valid number
             const userId = typeof user.id === 'number' ? user.id : null
@@ -184,19 +234,20 @@ export const imageRoutes = {
           }
         }
 
+        progress("completed")
         return Response.json(result)
       } catch (error) {
         log("ERROR", "Failed to generate image", error)
+        progress?.("failed", String(error))
         return Response.json({ error: String(error) }, { status: 500 })
       }
-    },
+    }),
   },
 
   // Edit an existing image
   "/api/images/edit": {
-    POST: async (req: Request) => {
+    POST: withAuth(async (req, user) => {
       try {
-        const user = await getUserFromRequest(req)
         const formData = await req.formData()
         const image = formData.get("image") as File | null
         const prompt = formData.get("prompt") as string | null
@@ -205,6 +256,8 @@ export const imageRoutes = {
         const size = formData.get("size") as string | null
         const response_format = formData.get("response_format") as string | null
         const parentImageId = formData.get("parentImageId") as string | null
+        const providerId = formData.get("provider") as string | null
+        const negativePrompt = formData.get("negativePrompt") as string | null
 
         if (!image) {
           return Response.json({ error: "image file is required" }, { status: 400 })
@@ -213,7 +266,17 @@ export const imageRoutes = {
           return Response.json({ error: "prompt is required" }, { status: 400 })
         }
 
+        const provider = resolveImageProvider(providerId)
+        if ("error" in provider) {
+          return Response.json({ error: provider.error }, { status: 400 })
+        }
+        const optionsError = validateProviderOptions(provider, { size, operation: "edit", negativePrompt })
+        if (optionsError) {
+          return Response.json({ error: optionsError }, { status: 400 })
+        }
+
         log("INFO", "Image edit request", { 
+          provider: provider.id,
           imageSize: image.size, 
           imageName: image.name,
           hasMask: !!mask, 
@@ -222,27 +285,38 @@ export const imageRoutes = {
           size 
         })
 
+        const imageCount = getRequestedImageCount(n)
+        const quotaPeriod = getQuotaPeriod()
+        const denied = consumeQuota(user.id, "images", imageCount, quotaPeriod)
+        if (denied) {
+          return entitlementResponse(denied)
+        }
+
         const sizeValue = size || "1024x1024"
-        const result = await generateImageEdit(
-          await image.arrayBuffer(),
+        const imageData = await image.arrayBuffer()
+        const maskData = mask ? await mask.arrayBuffer() : undefined
+        const result = await refundImagesOnFailure(user.id, imageCount, quotaPeriod, () => provider.edit!(
+          imageData,
           prompt,
           {
-            mask: mask ? await mask.arrayBuffer() : undefined,
+            mask: maskData,
+            negativePrompt: negativePrompt || undefined,
             n: n ? parseInt(n) : undefined,
             size: sizeValue as any,
-            response_format: response_format as any,
+            responseFormat: response_format as any,
+            usage: { userId: user.id, source: "chat" },
           }
-        )
+        ))
 
-        // Auto-save to gallery if user is authenticated
-        if (user && result.data?.[0]?.url) {
+        // Auto-save to gallery
+        if (result.data?.[0]?.url) {
           try {
             const galleryImage = generatedImageQueries.create.get(
               user.id,
               result.data[0].url,
               prompt,
               null, // Edit API doesn't return revised_prompt
-              "dall-e-2", // Edit uses DALL-E 2
+              provider.id === "openai" ? "dall-e-2" : provider.getModel(), // OpenAI edits use DALL-E 2
               sizeValue,
               null,
               1, // is_edit = true
@@ -267,47 +341,69 @@ export const imageRoutes = {
         log("ERROR", "Failed to edit image", error)
         return Response.json({ error: String(error) }, { status: 500 })
       }
-    },
+    }),
   },
 
   // Create variation of an image
   "/api/images/variation": {
-    POST: async (req: Request) => {
+    POST: withAuth(async (req, user) => {
       try {
         const formData = await req.formData()
         const image = formData.get("image") as File | null
         const n = formData.get("n") as string | null
         const size = formData.get("size") as string | null
         const response_format = formData.get("response_format") as string | null
+        const providerId = formData.get("provider") as string | null
 
         if (!image) {
           return Response.json({ error: "image file is required" }, { status: 400 })
         }
 
-        const result = await generateImageVariation(
-          await image.arrayBuffer(),
+        const provider = resolveImageProvider(providerId)
+        if ("error" in provider) {
+          return Response.json({ error: provider.error }, { status: 400 })
+        }
+        const optionsError = validateProviderOptions(provider, { size, operation: "variation" })
+        if (optionsError) {
+          return Response.json({ error: optionsError }, { status: 400 })
+        }
+
+        const imageCount = getRequestedImageCount(n)
+        const quotaPeriod = getQuotaPeriod()
+        const denied = consumeQuota(user.id, "images", imageCount, quotaPeriod)
+        if (denied) {
+          return entitlementResponse(denied)
+        }
+
+        const imageData = await image.arrayBuffer()
+        const result = await refundImagesOnFailure(user.id, imageCount, quotaPeriod, () => provider.variation!(
+          imageData,
           {
             n: n ? parseInt(n) : undefined,
             size: size as any,
-            response_format: response_format as any,
+            responseFormat: response_format as any,
+            usage: { userId: user.id, source: "chat" },
           }
-        )
+        ))
 
         return Response.json(result)
       } catch (error) {
         log("ERROR", "Failed to create image variation", error)
         return Response.json({ error: String(error) }, { status: 500 })
       }
-    },
+    }),
   },
 
   // Generate infographic from text or URL
   "/api/images/infographic": {
-    POST: async (req: Request) => {
+    POST: withAuth(async (req, user) => {
+      let progress: GenerationProgress | null = null
+      // Period the quota was taken from, set until an image has been generated
+      let refundPeriod: string | null = null
       try {
-        const user = await getUserFromRequest(req)
         const text = await req.text()
         const body = text ? JSON.parse(text) : {}
+        progress = createGenerationProgress(user.id, body.requestId)
 
         // Either content (text/markdown) or url is required
         if (!body.content && !body.url) {
@@ -317,41 +413,73 @@ export const imageRoutes = {
           )
         }
 
+        const provider = resolveImageProvider(body.provider)
+        if ("error" in provider) {
+          return Response.json({ error: provider.error }, { status: 400 })
+        }
+        const presetError = validateStylePreset(body.stylePreset, user.id)
+        if (presetError) {
+          return Response.json({ error: presetError }, { status: 400 })
+        }
+        const preset = findStylePreset(body.stylePreset, user.id)
+        const size = body.size || preset?.size || undefined
+        const optionsError = validateProviderOptions(provider, { size })
+        if (optionsError) {
+          return Response.json({ error: optionsError }, { status: 400 })
+        }
+
+        // Taken before the prompt is written, which also calls OpenAI
+        const quotaPeriod = getQuotaPeriod()
+        const denied = consumeQuota(user.id, "images", 1, quotaPeriod)
+        if (denied) {
+          return entitlementResponse(denied)
+        }
+        refundPeriod = quotaPeriod
+
+        progress("preparing")
         let content = body.content
 
         // If URL provided, fetch the content
         if (body.url) {
           if (isGitHubRepoUrl(body.url)) {
             // Use Repomix for full repository URLs
-            log("INFO", "Summarizing GitHub repo with Repomix for infographic", { url: body.url, userId: user?.id })
+            log("INFO", "Summarizing GitHub repo with Repomix for infographic", { url: body.url, userId: user.id })
             content = await summarizeGitHubRepo(body.url)
           } else {
             // Use existing fetch for individual file URLs
-            log("INFO", "Fetching content from URL for infographic", { url: body.url, userId: user?.id })
+            log("INFO", "Fetching content from URL for infographic", { url: body.url, userId: user.id })
             content = await fetchUrlContent(body.url)
           }
         }
 
         // Generate infographic prompt using GPT-4
-        log("INFO", "Generating infographic", { userId: user?.id, contentLength: content.length })
-        const infographicPrompt = await generateInfographicPrompt(content)
+        log("INFO", "Generating infographic", { userId: user.id, contentLength: content.length })
+        const infographicPrompt = await generateInfographicPrompt(content, { userId: user.id, source: "infographic" })
 
-        // Add infographic styling to the prompt
-        const styledPrompt = `${infographicPrompt}, professional infographic design, clean modern layout, presentation style, high quality, 4K resolution, suitable for business presentation or social media`
+        // Add infographic styling to the prompt, then the optional style preset
+        const styledPrompt = applyStylePreset(
+          `${infographicPrompt}, professional infographic design, clean modern layout, presentation style, high quality, 4K resolution, suitable for business presentation or social media`,
+          preset
+        )
 
-        // Generate the image with DALL-E
-        const options: GenerateImageOptions = {
+        // Generate the image
+        const options: ProviderGenerateOptions = {
           prompt: styledPrompt,
           model: "dall-e-3",
-          size: body.size || "1792x1024", // Wide format for presentations
-          quality: "hd",
-          style: "vivid",
+          size: size || "1792x1024", // Wide format for presentations
+          quality: preset?.quality || "hd",
+          style: preset?.style || "vivid",
+          negativePrompt: getPresetNegativePrompt(null, preset, provider),
+          usage: { userId: user.id, source: "infographic" },
         }
 
-        const result = await generateImage(options)
+        progress("generating")
+        const result = await provider.generate(options)
+        refundPeriod = null
 
-        // Save to gallery if user is authenticated
-        if (user && result.data?.[0]?.url) {
+        // Save to gallery
+        if (result.data?.[0]?.url) {
+          progress("saving")
           try {
             const originalPrompt = `[Infographic] ${content.substring(0, 200)}${content.length > 200 ? '...' : ''}`
             const galleryImage = generatedImageQueries.create.get(
@@ -359,9 +487,9 @@ export const imageRoutes = {
               result.data[0].url, // Temporary URL, will be replaced
               originalPrompt,
               result.data[0].revised_prompt || styledPrompt,
-              options.model || "dall-e-3",
+              provider.getModel({ model: options.model }),
               options.size || "1792x1024",
-              options.style || null,
+              provider.id === "openai" ? options.style || null : null,
               0, // is_edit
               null // parent_image_id
             )
@@ -379,14 +507,19 @@ export const imageRoutes = {
           }
         }
 
+        progress("completed")
         return Response.json({
           ...result,
           infographicPrompt, // Include the generated prompt for transparency
         })
       } catch (error) {
         log("ERROR", "Failed to generate infographic", error)
+        if (refundPeriod) {
+          refundQuota(user.id, "images", refundPeriod)
+        }
+        progress?.("failed", String(error))
         return Response.json({ error: String(error) }, { status: 500 })
       }
-    },
+    }),
   },
 }
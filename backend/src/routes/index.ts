@@ -18,13 +18,20 @@ import { speechRoutes } from "./speech"
 import { adminRoutes } from "./admin"
 import { promptRoutes } from "./prompt"
 import { collectionRoutes } from "./collections"
+import { promptListRoutes } from "./prompt-lists"
+import { stylePresetRoutes } from "./style-presets"
+import { eventRoutes } from "./events"
+import { notificationRoutes } from "./notifications"
+import { conversationRoutes } from "./conversations"
+import { usageRoutes } from "./usage"
 import { db } from "../db"
 import { config } from "../config"
 import { existsSync, readFileSync, readdirSync, statSync } from "fs"
 import { join } from "path"
 import { withAuth } from "../middleware/auth"
-import { authLimiter, generateLimiter, apiLimiter, speechLimiter, getRateLimitStats } from "../middleware/rate-limit"
+import { authLimiter, generateLimiter, apiLimiter, speechLimiter, getRateLimitStats, type RateLimiter } from "../middleware/rate-limit"
 import { gzipSync } from "bun"
+import { getEventConnectionCount } from "../services/event-service"
 
 type RouteHandler = (req: Request, ...args: any[]) => Promise<Response> | Response
 type RouteDefinition = { [method: string]: RouteHandler }
@@ -40,11 +47,12 @@ async function compressResponse(request: Request, response: Response): Promise<R
   const acceptEncoding = request.headers.get("Accept-Encoding") || ""
   const contentType = response.headers.get("Content-Type") || ""
   
-  // Check if content is compressible (text-based content)
-  const isCompressible = 
-    contentType.includes("application/json") ||
-    contentType.includes("text/") ||
-    contentType.includes("application/javascript")
+  // Check if content is compressible (text-based content); event streams must not be buffered
+  const isCompressible =
+    (contentType.includes("application/json") ||
+      contentType.includes("text/") ||
+      contentType.includes("application/javascript")) &&
+    !contentType.includes("text/event-stream")
   
   if (!acceptEncoding.includes("gzip") || !isCompressible) {
     return response
@@ -131,63 +139,81 @@ async function processResponse(request: Request, response: Response): Promise<Re
   return compressResponse(request, withHeaders)
 }
 
+// Endpoints that check a password or code, or send email, get the strict per-IP auth limiter;
+// the rest of /api/auth/ (me, refresh, logout) is called on every page load
+const CREDENTIAL_PATHS = new Set([
+  "/api/auth/register",
+  "/api/auth/login",
+  "/api/auth/forgot-password",
+  "/api/auth/reset-password",
+  "/api/auth/change-password",
+  "/api/auth/2fa/verify",
+  "/api/auth/2fa/setup",
+  "/api/auth/2fa/enable",
+  "/api/auth/2fa/disable",
+  "/api/auth/2fa/recovery-codes",
+  "/api/admin/login",
+])
+
+// Polled by TRMNL devices and TRMNL's cloud, which share IPs across many displays and would
+// use up the anonymous per-IP bucket, so displays would stop updating. Only the token routes:
+// the legacy numeric ones (/api/trmnl/webhook/, /api/images/synced/) take guessable IDs, so they
+// keep the general limit until LEGACY_POLLING_SUNSET retires them
+const DEVICE_PATH_PREFIXES = ["/api/trmnl/poll/", "/api/trmnl/images/"]
+
 /**
- * Apply rate limiting to routes based on path patterns
+ * Which limiter guards a route, based on its path; null for none
  */
-function applyRateLimiting(routes: Routes): Routes {
-  const rateLimitedRoutes: Routes = {}
+export function getRouteLimiter(path: string): RateLimiter | null {
+  if (CREDENTIAL_PATHS.has(path)) {
+    // Credential endpoints: brute force protection (10 req / 15 min per IP)
+    return authLimiter
+  }
+  if (path === "/api/images/generate" || path === "/api/images/edit") {
+    // Image generation: cost control (5 req / min, 15 for subscribers)
+    return generateLimiter
+  }
+  if (path === "/api/speech/transcribe") {
+    // Speech transcription: Whisper API cost control (10 req / min, 30 for subscribers)
+    return speechLimiter
+  }
+  if (path === "/api/health" || DEVICE_PATH_PREFIXES.some(prefix => path.startsWith(prefix))) {
+    // Health check for Railway uptime monitoring, and token-authenticated device polling
+    return null
+  }
+  if (path.startsWith("/api/")) {
+    // General API endpoints: DDoS protection (limits per plan tier)
+    return apiLimiter
+  }
+  return null
+}
 
-  for (const [path, methods] of Object.entries(routes)) {
-    const rateLimitedMethods: RouteDefinition = {}
+/**
+ * Add security headers and compression to every route, and rate limiting when enabled.
+ * Handlers receive the Bun server as their second argument, which the limiters use to read
+ * the client's socket address.
+ */
+function applyMiddleware<T extends object>(routes: T, rateLimiting: boolean): T {
+  const wrappedRoutes: Routes = {}
+
+  // Wrapped handlers take the same arguments, so the route table keeps its type
+  for (const [path, methods] of Object.entries(routes as Routes)) {
+    const wrappedMethods: RouteDefinition = {}
+    const limiter = rateLimiting ? getRouteLimiter(path) : null
 
     for (const [method, handler] of Object.entries(methods)) {
-      // Determine which rate limiter(s) to apply based on path
-      if (path.startsWith("/api/auth/")) {
-        // Auth endpoints: strict rate limiting (5 req / 15 min)
-        rateLimitedMethods[method] = async (req: Request, ...args: any[]) => {
-          const limitResponse = await authLimiter(req)
-          if (limitResponse) return processResponse(req, limitResponse)
-          const response = await handler(req, ...args)
-          return processResponse(req, response)
-        }
-      } else if (path === "/api/images/generate" || path === "/api/images/edit") {
-        // Image generation: cost control (5 req / min)
-        rateLimitedMethods[method] = async (req: Request, ...args: any[]) => {
-          const limitResponse = await generateLimiter(req)
-          if (limitResponse) return processResponse(req, limitResponse)
-          const response = await handler(req, ...args)
-          return processResponse(req, response)
-        }
-      } else if (path === "/api/speech/transcribe") {
-        // Speech transcription: Whisper API cost control (10 req / min)
-        rateLimitedMethods[method] = async (req: Request, ...args: any[]) => {
-          const limitResponse = await speechLimiter(req)
-          if (limitResponse) return processResponse(req, limitResponse)
-          const response = await handler(req, ...args)
-          return processResponse(req, response)
-        }
-      } else if (path.startsWith("/api/") && path !== "/api/health") {
-        // General API endpoints: DDoS protection (100 req / min)
-        // Skip health check for Railway uptime monitoring
-        rateLimitedMethods[method] = async (req: Request, ...args: any[]) => {
-          const limitResponse = await apiLimiter(req)
-          if (limitResponse) return processResponse(req, limitResponse)
-          const response = await handler(req, ...args)
-          return processResponse(req, response)
-        }
-      } else {
-        // No rate limiting (health check, non-API routes) - still add security headers + compression
-        rateLimitedMethods[method] = async (req: Request, ...args: any[]) => {
-          const response = await handler(req, ...args)
-          return processResponse(req, response)
-        }
+      wrappedMethods[method] = async (req: Request, ...args: any[]) => {
+        const limitResponse = limiter ? await limiter(req, args[0]) : null
+        if (limitResponse) return processResponse(req, limitResponse)
+        const response = await handler(req, ...args)
+        return processResponse(req, response)
       }
     }
 
-    rateLimitedRoutes[path] = rateLimitedMethods
+    wrappedRoutes[path] = wrappedMethods
   }
 
-  return rateLimitedRoutes
+  return wrappedRoutes as T
 }
 
 // Helper to recursively list files in a directory
@@ -225,6 +251,12 @@ function listFilesRecursive(dir: string, baseDir: string = dir): { path: string;
 }
 
 // Health check endpoint for Railway (basic - no auth required for Railway health checks)
+// Totals only: health details are open to any signed-in user, per-key usage is in /api/admin/rate-limits
+async function getRateLimitSummary(name: string): Promise<{ activeEntries: number; totalRequests: number }> {
+  const { activeEntries, totalRequests } = await getRateLimitStats(name)
+  return { activeEntries, totalRequests }
+}
+
 const healthRoutes = {
   "/api/health": {
     GET: () => {
@@ -278,10 +310,11 @@ const healthRoutes = {
         userCount,
         requestedBy: { id: user.id, email: user.email },
         rateLimits: {
-          auth: getRateLimitStats("auth"),
-          generate: getRateLimitStats("generate"),
-          api: getRateLimitStats("api"),
+          auth: await getRateLimitSummary("auth"),
+          generate: await getRateLimitSummary("generate"),
+          api: await getRateLimitSummary("api"),
         },
+        eventConnections: getEventConnectionCount(),
         volume: {
           status: volumeStatus,
           info: volumeInfo,
@@ -346,7 +379,13 @@ const allRoutes = {
   ...adminRoutes,
   ...promptRoutes,
   ...collectionRoutes,
+  ...promptListRoutes,
+  ...stylePresetRoutes,
+  ...eventRoutes,
+  ...notificationRoutes,
+  ...conversationRoutes,
+  ...usageRoutes,
 }
 
-// Export routes without rate limiting (rate limiting disabled)
-export const routes = allRoutes
+// RATE_LIMIT_ENABLED=false turns off the limiters only (tests, local debugging)
+export const routes = applyMiddleware(allRoutes, config.rateLimit.enabled)
@@ -0,0 +1,93 @@
+import { log } from "../utils"
+import { withAuth } from "../middleware/auth"
+import { pushSubscriptionQueries } from "../db"
+import {
+  getNotificationPreferences,
+  normalizeNotificationPreferences,
+  normalizePushSubscriptionInput,
+  saveNotificationPreferences,
+} from "../services/notification-service"
+import { getVapidPublicKey } from "../services/web-push-service"
+
+// Browsers a user can receive push notifications on
+const MAX_PUSH_SUBSCRIPTIONS_PER_USER = 20
+
+export const notificationRoutes = {
+  // Per-event channel preferences, plus the key the browser needs to subscribe to push
+  "/api/notifications/preferences": {
+    GET: withAuth(async (req, user) => {
+      try {
+        return Response.json({
+          preferences: getNotificationPreferences(user.id),
+          push: { publicKey: getVapidPublicKey() },
+        })
+      } catch (error) {
+        log("ERROR", "Failed to get notification preferences", error)
+        return Response.json({ error: "Failed to get notification preferences" }, { status: 500 })
+      }
+    }),
+    PUT: withAuth(async (req, user) => {
+      try {
+        const body = await req.json() as { preferences?: unknown }
+        const updates = normalizeNotificationPreferences(body.preferences)
+        if ("error" in updates) {
+          return Response.json({ error: updates.error }, { status: 400 })
+        }
+
+        const preferences = saveNotificationPreferences(user.id, updates)
+        log("INFO", "Notification preferences updated", { userId: user.id, events: Object.keys(updates) })
+
+        return Response.json({ preferences })
+      } catch (error) {
+        log("ERROR", "Failed to update notification preferences", error)
+        return Response.json({ error: "Failed to update notification preferences" }, { status: 500 })
+      }
+    }),
+  },
+
+  // Register or remove this browser's push subscription
+  "/api/notifications/push-subscriptions": {
+    POST: withAuth(async (req, user) => {
+      try {
+        const body = await req.json() as Record<string, unknown>
+        const target = normalizePushSubscriptionInput(body)
+        if ("error" in target) {
+          return Response.json({ error: target.error }, { status: 400 })
+        }
+
+        const existing = pushSubscriptionQueries.findByUserId.all(user.id)
+        if (existing.length >= MAX_PUSH_SUBSCRIPTIONS_PER_USER && !existing.some(s => s.endpoint === target.endpoint)) {
+          return Response.json(
+            { error: `Maximum of ${MAX_PUSH_SUBSCRIPTIONS_PER_USER} browsers allowed for push notifications` },
+            { status: 400 }
+          )
+        }
+
+        const userAgent = req.headers.get("User-Agent")?.slice(0, 255) || null
+        const subscription = pushSubscriptionQueries.upsert.get(user.id, target.endpoint, target.p256dh, target.auth, userAgent)
+        log("INFO", "Push subscription saved", { userId: user.id, subscriptionId: subscription?.id })
+
+        return Response.json({ success: true }, { status: 201 })
+      } catch (error) {
+        log("ERROR", "Failed to save push subscription", error)
+        return Response.json({ error: "Failed to save push subscription" }, { status: 500 })
+      }
+    }),
+    DELETE: withAuth(async (req, user) => {
+      try {
+        const body = await req.json() as { endpoint?: unknown }
+        if (typeof body.endpoint !== "string") {
+          return Response.json({ error: "endpoint is required" }, { status: 400 })
+        }
+
+        pushSubscriptionQueries.deleteByEndpointAndUserId.run(body.endpoint, user.id)
+        log("INFO", "Push subscription removed", { userId: user.id })
+
+        return Response.json({ success: true })
+      } catch (error) {
+        log("ERROR", "Failed to remove push subscription", error)
+        return Response.json({ error: "Failed to remove push subscription" }, { status: 500 })
+      }
+    }),
+  },
+}
@@ -64,7 +64,7 @@ export const orderRoutes = {
         const text = await req.text()
         const body = text ? JSON.parse(text) : {}
 
-        const { quantity, shipping, gift } = body
+        const { quantity, shipping, gift, language } = body
 
         if (!quantity || !shipping) {
           return Response.json(
@@ -101,6 +101,7 @@ export const orderRoutes = {
                 message: gift.message,
               }
             : undefined,
+          language: language === "zh" ? "zh" : "en",
         }
 
         const orderResult = createOrder(orderInput)
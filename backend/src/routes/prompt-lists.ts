@@ -0,0 +1,126 @@
+import { log, toISODate } from "../utils"
+import { withAuth } from "../middleware/auth"
+import { promptListQueries, type PromptList } from "../db"
+import {
+  MAX_PROMPT_LISTS_PER_USER,
+  normalizePromptListInput,
+  parsePromptListItems,
+} from "../services/prompt-template-service"
+
+function toPromptListResponse(list: PromptList) {
+  return {
+    id: list.id,
+    name: list.name,
+    items: parsePromptListItems(list),
+    createdAt: toISODate(list.created_at),
+    updatedAt: toISODate(list.updated_at),
+  }
+}
+
+export const promptListRoutes = {
+  // List or create the user's prompt lists (values for {{list:name}} template variables)
+  "/api/prompt-lists": {
+    GET: withAuth(async (req, user) => {
+      try {
+        const lists = promptListQueries.findAllByUserId.all(user.id)
+        return Response.json({ lists: lists.map(toPromptListResponse) })
+      } catch (error) {
+        log("ERROR", "Failed to list prompt lists", error)
+        return Response.json({ error: "Failed to list prompt lists" }, { status: 500 })
+      }
+    }),
+    POST: withAuth(async (req, user) => {
+      try {
+        const body = await req.json() as { name?: unknown; items?: unknown }
+        const input = normalizePromptListInput(body.name, body.items)
+        if ("error" in input) {
+          return Response.json({ error: input.error }, { status: 400 })
+        }
+
+        const count = promptListQueries.countByUserId.get(user.id)?.count || 0
+        if (count >= MAX_PROMPT_LISTS_PER_USER) {
+          return Response.json(
+            { error: `Maximum of ${MAX_PROMPT_LISTS_PER_USER} prompt lists allowed` },
+            { status: 400 }
+          )
+        }
+        if (promptListQueries.findByUserIdAndName.get(user.id, input.name)) {
+          return Response.json({ error: `A list named "${input.name}" already exists` }, { status: 400 })
+        }
+
+        const list = promptListQueries.create.get(user.id, input.name, JSON.stringify(input.items))
+        if (!list) {
+          return Response.json({ error: "Failed to create prompt list" }, { status: 500 })
+        }
+
+        log("INFO", "Prompt list created", { listId: list.id, userId: user.id })
+
+        return Response.json({ list: toPromptListResponse(list) }, { status: 201 })
+      } catch (error) {
+        log("ERROR", "Failed to create prompt list", error)
+        return Response.json({ error: "Failed to create prompt list" }, { status: 500 })
+      }
+    }),
+  },
+
+  // Update or delete a prompt list
+  "/api/prompt-lists/:id": {
+    PUT: withAuth(async (req, user) => {
+      try {
+        const listId = parseInt((req as any).params?.id, 10)
+        if (isNaN(listId)) {
+          return Response.json({ error: "Invalid list ID" }, { status: 400 })
+        }
+
+        const existing = promptListQueries.findByIdAndUserId.get(listId, user.id)
+        if (!existing) {
+          return Response.json({ error: "Prompt list not found" }, { status: 404 })
+        }
+
+        const body = await req.json() as { name?: unknown; items?: unknown }
+        const input = normalizePromptListInput(body.name ?? existing.name, body.items ?? parsePromptListItems(existing))
+        if ("error" in input) {
+          return Response.json({ error: input.error }, { status: 400 })
+        }
+
+        const sameName = promptListQueries.findByUserIdAndName.get(user.id, input.name)
+        if (sameName && sameName.id !== listId) {
+          return Response.json({ error: `A list named "${input.name}" already exists` }, { status: 400 })
+        }
+
+        promptListQueries.update.run(input.name, JSON.stringify(input.items), listId, user.id)
+        const updated = promptListQueries.findByIdAndUserId.get(listId, user.id)
+
+        log("INFO", "Prompt list updated", { listId, userId: user.id })
+
+        return Response.json({ list: updated ? toPromptListResponse(updated) : null })
+      } catch (error) {
+        log("ERROR", "Failed to update prompt list", error)
+        return Response.json({ error: "Failed to update prompt list" }, { status: 500 })
+      }
+    }),
+    DELETE: withAuth(async (req, user) => {
+      try {
+        const listId = parseInt((req as any).params?.id, 10)
+        if (isNaN(listId)) {
+          return Response.json({ error: "Invalid list ID" }, { status: 400 })
+        }
+
+        const existing = promptListQueries.findByIdAndUserId.get(listId, user.id)
+        if (!existing) {
+          return Response.json({ error: "Prompt list not found" }, { status: 404 })
+        }
+
+        // Scheduled jobs still using {{list:name}} will report the missing list when they run
+        promptListQueries.delete.run(listId, user.id)
+
+        log("INFO", "Prompt list deleted", { listId, userId: user.id })
+
+        return Response.json({ success: true })
+      } catch (error) {
+        log("ERROR", "Failed to delete prompt list", error)
+        return Response.json({ error: "Failed to delete prompt list" }, { status: 500 })
+      }
+    }),
+  },
+}
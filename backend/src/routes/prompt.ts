@@ -29,7 +29,7 @@ export const promptRoutes = {
 
         log("INFO", "Enhancing prompt for user", { userId: user.id, promptLength: prompt.length })
 
-        const enhanced = await enhancePrompt(prompt.trim())
+        const enhanced = await enhancePrompt(prompt.trim(), { userId: user.id, source: "chat" })
 
         return Response.json({
           original: prompt.trim(),
@@ -1,7 +1,11 @@
-import { log, toISODate } from "../utils"
+import { log, toISODate, isValidTimezone, toWallTime, wallTimeToInstant } from "../utils"
 import { withAuth } from "../middleware/auth"
 import { scheduledJobQueries, type ScheduledJob } from "../db"
-import { calculateNextRunTime, validateScheduleInput } from "../services/scheduler-service"
+import { calculateNextRunTime, getUpcomingRunTimes, validateScheduleInput, validateScheduleRule } from "../services/scheduler-service"
+import { resolvePromptTemplate, validatePromptTemplate } from "../services/prompt-template-service"
+import { validateJobProvider } from "../services/image-provider-service"
+import { findStylePreset, validateStylePreset } from "../services/style-preset-service"
+import { checkEntitlement } from "../services/entitlement-service"
 
 // Maximum scheduled jobs per user (configurations, not concurrent runs)
 const MAX_JOBS_PER_USER = 100
@@ -10,18 +14,41 @@ const MAX_JOBS_PER_USER = 100
 const DEFAULT_PAGE_SIZE = 10
 const MAX_PAGE_SIZE = 50
 
+// Upcoming runs shown when previewing a schedule before saving it
+const DEFAULT_PREVIEW_RUN_COUNT = 5
+const MAX_PREVIEW_RUN_COUNT = 20
+const PREVIEW_HORIZON_MS = 366 * 24 * 60 * 60 * 1000
+
+// Calendar occurrence lookups
+const MAX_OCCURRENCE_RANGE_MS = 62 * 24 * 60 * 60 * 1000
+const MAX_OCCURRENCES_PER_JOB = 20000
+const MAX_TIMES_PER_DAY = 12
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
 // Request body interface for schedule creation/update
 interface ScheduleRequestBody {
   prompt?: string
   size?: string
   stylePreset?: string
+  provider?: string | null
   scheduleType?: string
   scheduleTime?: string
   scheduleDays?: number[]
   scheduledAt?: string
+  cronExpression?: string
+  intervalMinutes?: number
   timezone?: string
   isEnabled?: boolean
   autoSyncTrmnl?: boolean
+  count?: number // Preview only: number of upcoming runs
+}
+
+// Cron/interval fields only apply to their own schedule type
+function getRuleFields(body: ScheduleRequestBody, scheduleType: string) {
+  return {
+    cronExpression: scheduleType === "cron" ? (body.cronExpression || "").trim() : null,
+    intervalMinutes: scheduleType === "interval" ? body.intervalMinutes ?? null : null,
+  }
 }
 
 // Transform scheduled job dates to ISO format with UTC indicator
@@ -81,6 +108,12 @@ export const scheduleRoutes = {
       try {
         const body = await req.json() as ScheduleRequestBody
 
+        // Runs use the monthly quota when they happen; the plan has to allow images at all
+        const denied = checkEntitlement(user.id, "images", 0)
+        if (denied) {
+          return Response.json({ error: denied.error, code: denied.code }, { status: denied.status })
+        }
+
         // Check if user has reached the limit
         const count = scheduledJobQueries.countByUserId.get(user.id)?.count || 0
         if (count >= MAX_JOBS_PER_USER) {
@@ -90,27 +123,34 @@ export const scheduleRoutes = {
           )
         }
 
-        // Validate input
+        // Validate input; without a size, the style preset's default size is used
+        const size = body.size || findStylePreset(body.stylePreset, user.id)?.size || "1024x1024"
         const validationError = validateScheduleInput(body)
+          || validatePromptTemplate(body.prompt || "", user.id)
+          || validateStylePreset(body.stylePreset, user.id)
+          || validateJobProvider(body.provider, size)
         if (validationError) {
           return Response.json({ error: validationError }, { status: 400 })
         }
 
         // Calculate next run time
         const scheduleType = body.scheduleType || "daily"
+        const { cronExpression, intervalMinutes } = getRuleFields(body, scheduleType)
         const nextRunAt = calculateNextRunTime(
           scheduleType,
           body.scheduleTime || "00:00",
           body.scheduleDays ? JSON.stringify(body.scheduleDays) : null,
           body.scheduledAt || null,
-          body.timezone || "UTC"
+          body.timezone || "UTC",
+          cronExpression,
+          intervalMinutes
         )
 
         // Create the job
         const job = scheduledJobQueries.create.get(
           user.id,
           (body.prompt || "").trim(),
-          body.size || "1024x1024",
+          size,
           body.stylePreset || null,
           scheduleType,
           body.scheduleTime || "00:00",
@@ -119,7 +159,10 @@ export const scheduleRoutes = {
           body.timezone || "UTC",
           body.isEnabled !== false ? 1 : 0,
           body.autoSyncTrmnl ? 1 : 0,
-          nextRunAt
+          nextRunAt,
+          cronExpression,
+          intervalMinutes,
+          body.provider || null
         )
 
         if (!job) {
@@ -167,26 +210,33 @@ export const scheduleRoutes = {
           return Response.json({ error: "Scheduled job not found" }, { status: 404 })
         }
 
-        // Validate input
+        // Validate input; without a size, the style preset's default size is used
+        const size = body.size || findStylePreset(body.stylePreset, user.id)?.size || "1024x1024"
         const validationError = validateScheduleInput(body)
+          || validatePromptTemplate(body.prompt || "", user.id)
+          || validateStylePreset(body.stylePreset, user.id)
+          || validateJobProvider(body.provider, size)
         if (validationError) {
           return Response.json({ error: validationError }, { status: 400 })
         }
 
         // Calculate next run time
         const scheduleType = body.scheduleType || existing.schedule_type
+        const { cronExpression, intervalMinutes } = getRuleFields(body, scheduleType)
         const nextRunAt = calculateNextRunTime(
           scheduleType,
           body.scheduleTime || "00:00",
           body.scheduleDays ? JSON.stringify(body.scheduleDays) : null,
           body.scheduledAt || null,
-          body.timezone || "UTC"
+          body.timezone || "UTC",
+          cronExpression,
+          intervalMinutes
         )
 
         // Update the job
         scheduledJobQueries.update.run(
           body.prompt?.trim() || existing.prompt,
-          body.size || "1024x1024",
+          size,
           body.stylePreset || null,
           scheduleType,
           body.scheduleTime || "00:00",
@@ -196,6 +246,9 @@ export const scheduleRoutes = {
           body.isEnabled !== false ? 1 : 0,
           body.autoSyncTrmnl ? 1 : 0,
           nextRunAt,
+          cronExpression,
+          intervalMinutes,
+          body.provider || null,
           id,
           user.id
         )
@@ -252,6 +305,12 @@ export const scheduleRoutes = {
 
         // Toggle enabled status
         const newEnabled = existing.is_enabled ? 0 : 1
+        if (newEnabled === 1) {
+          const denied = checkEntitlement(user.id, "images", 0)
+          if (denied) {
+            return Response.json({ error: denied.error, code: denied.code }, { status: denied.status })
+          }
+        }
         scheduledJobQueries.updateEnabled.run(newEnabled, id, user.id)
 
         // If re-enabling, recalculate next run time
@@ -261,7 +320,10 @@ export const scheduleRoutes = {
             existing.schedule_time,
             existing.schedule_days,
             existing.scheduled_at,
-            existing.timezone
+            existing.timezone,
+            existing.cron_expression,
+            existing.interval_minutes,
+            existing.next_run_at
           )
           if (nextRunAt) {
             scheduledJobQueries.updateLastRun.run(
@@ -285,6 +347,98 @@ export const scheduleRoutes = {
     }),
   },
 
+  // Preview the next few runs of a schedule (and its resolved prompt) before saving it
+  "/api/schedule/preview": {
+    POST: withAuth(async (req, user) => {
+      try {
+        const body = await req.json() as ScheduleRequestBody
+
+        const validationError = validateScheduleRule(body) || validatePromptTemplate(body.prompt || "", user.id)
+        if (validationError) {
+          return Response.json({ error: validationError }, { status: 400 })
+        }
+
+        const scheduleType = body.scheduleType || "daily"
+        const { cronExpression, intervalMinutes } = getRuleFields(body, scheduleType)
+        const count = Math.min(MAX_PREVIEW_RUN_COUNT, Math.max(1, Math.floor(body.count || DEFAULT_PREVIEW_RUN_COUNT)))
+        const timezone = body.timezone || "UTC"
+        const now = new Date()
+        const runs = getUpcomingRunTimes(
+          {
+            schedule_type: scheduleType as ScheduledJob["schedule_type"],
+            schedule_time: body.scheduleTime || "00:00",
+            schedule_days: body.scheduleDays ? JSON.stringify(body.scheduleDays) : null,
+            scheduled_at: body.scheduledAt || null,
+            timezone,
+            cron_expression: cronExpression,
+            interval_minutes: intervalMinutes,
+            next_run_at: null,
+          },
+          now,
+          new Date(now.getTime() + PREVIEW_HORIZON_MS),
+          count
+        )
+
+        // Resolve the prompt template for each run when a prompt is given
+        const prompts = body.prompt
+          ? runs.map(runAt => resolvePromptTemplate(body.prompt!, { runAt: new Date(runAt), timezone, userId: user.id }))
+          : undefined
+
+        return Response.json({ runs, prompts })
+      } catch (error) {
+        log("ERROR", "Failed to preview schedule", error)
+        return Response.json({ error: "Failed to preview schedule" }, { status: 500 })
+      }
+    }),
+  },
+
+  // Run times of all the user's jobs between two dates (YYYY-MM-DD, `to` exclusive),
+  // grouped by day in the given timezone - used by the calendar view
+  "/api/schedule/occurrences": {
+    GET: withAuth(async (req, user) => {
+      try {
+        const url = new URL(req.url)
+        const timezone = url.searchParams.get("timezone") || "UTC"
+        const fromDate = url.searchParams.get("from") || ""
+        const toDate = url.searchParams.get("to") || ""
+
+        if (!isValidTimezone(timezone)) {
+          return Response.json({ error: "Invalid timezone" }, { status: 400 })
+        }
+        const fromWall = Date.parse(`${fromDate}T00:00:00Z`)
+        const toWall = Date.parse(`${toDate}T00:00:00Z`)
+        if (!DATE_PATTERN.test(fromDate) || !DATE_PATTERN.test(toDate) || isNaN(fromWall) || isNaN(toWall) || toWall <= fromWall) {
+          return Response.json({ error: "Valid 'from' and 'to' dates (YYYY-MM-DD) are required" }, { status: 400 })
+        }
+        if (toWall - fromWall > MAX_OCCURRENCE_RANGE_MS) {
+          return Response.json({ error: "Date range is too large" }, { status: 400 })
+        }
+
+        const from = new Date(wallTimeToInstant(fromWall, timezone))
+        const to = new Date(wallTimeToInstant(toWall, timezone))
+        const jobs = scheduledJobQueries.findAllByUserId.all(user.id)
+
+        const occurrences: Record<number, Record<string, { times: string[]; count: number }>> = {}
+        for (const job of jobs) {
+          const days: Record<string, { times: string[]; count: number }> = {}
+          for (const runAt of getUpcomingRunTimes(job, from, to, MAX_OCCURRENCES_PER_JOB)) {
+            // "YYYY-MM-DDTHH:MM" in the requested timezone
+            const local = new Date(toWallTime(new Date(runAt).getTime(), timezone)).toISOString()
+            const day = days[local.slice(0, 10)] ??= { times: [], count: 0 }
+            if (day.times.length < MAX_TIMES_PER_DAY) day.times.push(local.slice(11, 16))
+            day.count++
+          }
+          occurrences[job.id] = days
+        }
+
+        return Response.json({ occurrences })
+      } catch (error) {
+        log("ERROR", "Failed to list schedule occurrences", error)
+        return Response.json({ error: "Failed to list schedule occurrences" }, { status: 500 })
+      }
+    }),
+  },
+
   // Debug endpoint to check scheduler status
   "/api/schedule/debug": {
     GET: withAuth(async (req, user) => {
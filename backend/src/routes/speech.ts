@@ -1,9 +1,8 @@
 import { withAuth } from "../middleware/auth"
-import { config } from "../config"
+import { consumeQuota, getQuotaPeriod, refundQuota } from "../services/entitlement-service"
+import { isOpenAIConfigured, openaiFetch, recordUsage, type UsageContext } from "../services"
 import { log } from "../utils"
 
-const OPENAI_API_BASE = "https://api.openai.com/v1"
-
 // Maximum file size: 10MB (Whisper API limit is 25MB, we use 10MB for safety)
 const MAX_FILE_SIZE = 10 * 1024 * 1024
 
@@ -24,9 +23,10 @@ const SUPPORTED_FORMATS = [
  */
 async function transcribeAudio(
   audioBlob: Blob,
+  usage: UsageContext,
   language?: string
 ): Promise<{ text: string; language?: string }> {
-  if (!config.openai.apiKey) {
+  if (!isOpenAIConfigured()) {
     throw new Error("OPENAI_API_KEY not configured")
   }
 
@@ -36,7 +36,8 @@ async function transcribeAudio(
   const file = new File([audioBlob], 'audio.webm', { type: audioBlob.type })
   formData.append('file', file)
   formData.append('model', 'whisper-1')
-  formData.append('response_format', 'json')
+  // verbose_json includes the audio duration, which is what Whisper is billed by
+  formData.append('response_format', 'verbose_json')
   
   // If language is specified, tell Whisper to use it (improves accuracy)
   // Otherwise, Whisper will auto-detect
@@ -52,11 +53,8 @@ async function transcribeAudio(
     language: language || 'auto-detect'
   })
 
-  const response = await fetch(`${OPENAI_API_BASE}/audio/transcriptions`, {
+  const response = await openaiFetch("/audio/transcriptions", {
     method: "POST",
-    headers: {
-      "Authorization": `Bearer ${config.openai.apiKey}`,
-    },
     body: formData,
   })
 
@@ -66,7 +64,12 @@ async function transcribeAudio(
     throw new Error(errorData.error?.message || "Failed to transcribe audio")
   }
 
-  const result = await response.json() as { text?: string; language?: string }
+  const result = await response.json() as { text?: string; language?: string; duration?: number }
+  recordUsage(usage, {
+    operation: "transcription",
+    model: "whisper-1",
+    audioSeconds: result.duration,
+  })
   
   log("INFO", "Transcription completed", {
     textLength: result.text?.length || 0
@@ -152,7 +155,26 @@ export const speechRoutes = {
           language
         })
 
-        const result = await transcribeAudio(audioBlob, language)
+        const quotaPeriod = getQuotaPeriod()
+        const denied = consumeQuota(user.id, "transcriptions", 1, quotaPeriod)
+        if (denied) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: denied.error,
+            code: denied.code
+          }), {
+            status: denied.status,
+            headers: { 'Content-Type': 'application/json' }
+          })
+        }
+
+        let result: Awaited<ReturnType<typeof transcribeAudio>>
+        try {
+          result = await transcribeAudio(audioBlob, { userId: user.id, source: "chat" }, language)
+        } catch (error) {
+          refundQuota(user.id, "transcriptions", quotaPeriod)
+          throw error
+        }
         
         return new Response(JSON.stringify({
           success: true,
@@ -0,0 +1,111 @@
+import { log } from "../utils"
+import { withAuth } from "../middleware/auth"
+import { stylePresetQueries } from "../db"
+import {
+  MAX_STYLE_PRESETS_PER_USER,
+  USER_STYLE_PRESET_VISIBILITIES,
+  listStylePresets,
+  normalizeStylePresetInput,
+  saveStylePreset,
+  toResolvedStylePreset,
+} from "../services/style-preset-service"
+
+// The user's own preset, or null (other users' shared presets can be used but not edited)
+function findOwnStylePreset(req: Request, userId: number) {
+  const presetId = parseInt((req as any).params?.id, 10)
+  if (isNaN(presetId)) return null
+  const preset = stylePresetQueries.findById.get(presetId)
+  return preset && preset.user_id === userId ? preset : null
+}
+
+export const stylePresetRoutes = {
+  // List the presets available to the user (built-in, global, shared and own), or create one
+  "/api/style-presets": {
+    GET: withAuth(async (req, user) => {
+      try {
+        return Response.json({ presets: listStylePresets(user.id) })
+      } catch (error) {
+        log("ERROR", "Failed to list style presets", error)
+        return Response.json({ error: "Failed to list style presets" }, { status: 500 })
+      }
+    }),
+    POST: withAuth(async (req, user) => {
+      try {
+        const body = await req.json() as Record<string, unknown>
+        const input = normalizeStylePresetInput(body, USER_STYLE_PRESET_VISIBILITIES)
+        if ("error" in input) {
+          return Response.json({ error: input.error }, { status: 400 })
+        }
+
+        const count = stylePresetQueries.countByUserId.get(user.id)?.count || 0
+        if (count >= MAX_STYLE_PRESETS_PER_USER) {
+          return Response.json(
+            { error: `Maximum of ${MAX_STYLE_PRESETS_PER_USER} style presets allowed` },
+            { status: 400 }
+          )
+        }
+
+        const preset = saveStylePreset(user.id, input)
+        if (!preset) {
+          return Response.json({ error: "Failed to create style preset" }, { status: 500 })
+        }
+
+        log("INFO", "Style preset created", { presetId: preset.id, userId: user.id, visibility: preset.visibility })
+
+        return Response.json({ preset: toResolvedStylePreset(preset, user.id) }, { status: 201 })
+      } catch (error) {
+        log("ERROR", "Failed to create style preset", error)
+        return Response.json({ error: "Failed to create style preset" }, { status: 500 })
+      }
+    }),
+  },
+
+  // Update or delete one of the user's presets
+  "/api/style-presets/:id": {
+    PUT: withAuth(async (req, user) => {
+      try {
+        const existing = findOwnStylePreset(req, user.id)
+        if (!existing) {
+          return Response.json({ error: "Style preset not found" }, { status: 404 })
+        }
+
+        // Fields missing from the body keep their current values
+        const body = await req.json() as Record<string, unknown>
+        const input = normalizeStylePresetInput(
+          { ...toResolvedStylePreset(existing, user.id), ...body },
+          USER_STYLE_PRESET_VISIBILITIES
+        )
+        if ("error" in input) {
+          return Response.json({ error: input.error }, { status: 400 })
+        }
+
+        const updated = saveStylePreset(user.id, input, existing.id)
+
+        log("INFO", "Style preset updated", { presetId: existing.id, userId: user.id })
+
+        return Response.json({ preset: updated ? toResolvedStylePreset(updated, user.id) : null })
+      } catch (error) {
+        log("ERROR", "Failed to update style preset", error)
+        return Response.json({ error: "Failed to update style preset" }, { status: 500 })
+      }
+    }),
+    DELETE: withAuth(async (req, user) => {
+      try {
+        const existing = findOwnStylePreset(req, user.id)
+        if (!existing) {
+          return Response.json({ error: "Style preset not found" }, { status: 404 })
+        }
+
+        // Batches and schedules still using the preset report it as unavailable when they run
+        stylePresetQueries.delete.run(existing.id)
+
+        log("INFO", "Style preset deleted", { presetId: existing.id, userId: user.id })
+
+        return Response.json({ success: true })
+      } catch (error) {
+        log("ERROR", "Failed to delete style preset", error)
+        return Response.json({ error: "Failed to delete style preset" }, { status: 500 })
+      }
+    }),
+  },
+}
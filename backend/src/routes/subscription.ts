@@ -23,6 +23,7 @@ import {
   isSubscriptionConfigured,
 } from "../services/razorpay-service"
 import { hasCompletedOrder } from "../services/order-service"
+import { getQuotaSummary } from "../services/entitlement-service"
 import { userQueries } from "../db"
 
 export const subscriptionRoutes = {
@@ -50,6 +51,24 @@ export const subscriptionRoutes = {
     }),
   },
 
+  // Plan and this month's generation quotas
+  "/api/subscription/quota": {
+    GET: withAuth(async (req, user) => {
+      try {
+        return Response.json({
+          success: true,
+          quota: getQuotaSummary(user.id),
+        })
+      } catch (error) {
+        log("ERROR", "Failed to get generation quota", error)
+        return Response.json(
+          { error: "Failed to get generation quota" },
+          { status: 500 }
+        )
+      }
+    }),
+  },
+
   // Cancel subscription
   "/api/subscription/cancel": {
     POST: withAuth(async (req, user) => {
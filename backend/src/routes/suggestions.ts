@@ -1,8 +1,6 @@
-import { config } from "../config"
+import { isOpenAIConfigured, openaiFetch, recordUsage } from "../services"
 import { log } from "../utils"
 
-const OPENAI_API_BASE = "https://api.openai.com/v1"
-
 // Simple in-memory cache for suggestions
 interface CacheEntry {
   suggestions: string[]
@@ -13,7 +11,7 @@ const cache: Map<string, CacheEntry> = new Map()
 const CACHE_TTL = 30 * 60 * 1000 // 30 minutes - suggestions don't need to be fresh
 
 async function generateSuggestions(language: "en" | "zh"): Promise<string[]> {
-  if (!config.openai.apiKey) {
+  if (!isOpenAIConfigured()) {
     throw new Error("OPENAI_API_KEY not configured")
   }
 
@@ -33,10 +31,9 @@ Requirements:
 
   log("INFO", "Generating suggestions", { language })
 
-  const response = await fetch(`${OPENAI_API_BASE}/chat/completions`, {
+  const response = await openaiFetch("/chat/completions", {
     method: "POST",
     headers: {
-      "Authorization": `Bearer ${config.openai.apiKey}`,
       "Content-Type": "application/json",
     },
     body: JSON.stringify({
@@ -56,7 +53,17 @@ Requirements:
     throw new Error(error.error?.message || "Failed to generate suggestions")
   }
 
-  const result = await response.json() as { choices?: { message?: { content?: string } }[] }
+  const result = await response.json() as {
+    choices?: { message?: { content?: string } }[]
+    usage?: { prompt_tokens?: number; completion_tokens?: number }
+  }
+  // Suggestions are cached and shared, so nobody in particular made the call
+  recordUsage({ userId: null, source: "suggestions" }, {
+    operation: "chat_completion",
+    model: "gpt-4o-mini",
+    inputTokens: result.usage?.prompt_tokens,
+    outputTokens: result.usage?.completion_tokens,
+  })
   const content = result.choices?.[0]?.message?.content?.trim() || ""
   
   // Parse the response - split by newlines and filter empty lines
@@ -1,9 +1,14 @@
 import { log } from "../utils"
 import { withAuth } from "../middleware/auth"
-import { syncedImageQueries, userQueries, userDeviceQueries, type UserDevice } from "../db"
+import { syncedImageQueries, userQueries, userDeviceQueries, devicePlaylistQueries, type UserDevice } from "../db"
 import { config } from "../config"
-import { mkdirSync, existsSync } from "fs"
+import { renderEinkImage, getDeviceEinkOptions } from "../services/eink-service"
+import { getPlaylistImages, isPlaylistAdvanceDue, pickNextPlaylistImage } from "../services/playlist-service"
+import { getGalleryImagePath } from "./gallery"
+import { publishUserEvent } from "../services/event-service"
+import { mkdirSync, existsSync, unlinkSync, renameSync, readdirSync } from "fs"
 import { join } from "path"
+import { randomBytes } from "crypto"
 
 // Get device's background color
 function getDeviceBackgroundColor(device: UserDevice): string {
@@ -17,40 +22,230 @@ if (!existsSync(IMAGES_DIR)) {
   log("INFO", "Created images directory", { path: IMAGES_DIR })
 }
 
-// Get the file path for a user's synced image
-function getUserImagePath(userId: number): string {
+// Get the file path for a user's pre-device synced image (kept for migration and legacy URLs)
+function getLegacyUserImagePath(userId: number): string {
   return join(IMAGES_DIR, `user_${userId}.png`)
 }
 
-// Get the public URL for a user's synced image
-function getUserImageUrl(userId: number): string {
-  return `${config.server.baseUrl}/api/images/synced/${userId}`
+// Get the file path for the image a device displays (e-ink rendered)
+function getDeviceImagePath(userId: number, deviceId: number): string {
+  return join(IMAGES_DIR, `user_${userId}_device_${deviceId}.png`)
 }
 
-// Download image from URL and save to file
-async function downloadAndSaveImage(imageUrl: string, userId: number): Promise<string> {
-  log("INFO", "Downloading image", { imageUrl: imageUrl.substring(0, 100) + "...", userId })
+// Get the file path for the original image a device was synced with
+function getDeviceSourcePath(userId: number, deviceId: number): string {
+  return join(IMAGES_DIR, `user_${userId}_device_${deviceId}_original.png`)
+}
+
+// Generate a random, unguessable polling token for a device
+export function generatePollingToken(): string {
+  return randomBytes(24).toString("hex")
+}
+
+// Get a device's polling token, assigning one if the device somehow has none
+function getPollingToken(device: UserDevice): string {
+  if (device.polling_token) return device.polling_token
+  const token = generatePollingToken()
+  userDeviceQueries.updatePollingToken.run(token, device.id)
+  device.polling_token = token
+  return token
+}
+
+// Get the public URL for the image a device displays
+function getDeviceImageUrl(device: UserDevice): string {
+  return `${config.server.baseUrl}/api/trmnl/images/${getPollingToken(device)}`
+}
+
+// Get the public URL for the original image a device was synced with
+function getDeviceSourceUrl(device: UserDevice): string {
+  return `${config.server.baseUrl}/api/trmnl/images/${getPollingToken(device)}/original`
+}
+
+// Get the deprecated numeric image URL for a device. Legacy polling responses use it so
+// enumerating numeric IDs never reveals a device's polling token.
+function getLegacyDeviceImageUrl(userId: number, deviceId: number): string {
+  return `${config.server.baseUrl}/api/images/synced/${userId}/${deviceId}`
+}
+
+// Get the public polling URL for a device (used in the TRMNL plugin settings)
+export function getDevicePollingUrl(device: UserDevice): string {
+  return `${config.server.baseUrl}/api/trmnl/poll/${getPollingToken(device)}`
+}
+
+// Numeric user/device ID URLs are enumerable. They keep working (with deprecation headers)
+// until the configured sunset date and are rejected with 410 Gone afterwards.
+function isLegacyPollingSunset(): boolean {
+  return Date.now() >= new Date(config.trmnl.legacyPollingSunset).getTime()
+}
+
+function legacyUrlGone(): Response {
+  return Response.json({
+    has_image: false,
+    message: "This URL has been retired. Use the device polling URL from your PromptInk settings.",
+  }, { status: 410 })
+}
+
+function withDeprecationHeaders(response: Response, path: string): Response {
+  log("WARN", "Deprecated numeric polling URL used", { path })
+  response.headers.set("Deprecation", "true")
+  response.headers.set("Sunset", new Date(config.trmnl.legacyPollingSunset).toUTCString())
+  return response
+}
+
+// Pick the device that legacy per-user URLs resolve to
+function getPrimaryDevice(userId: number): UserDevice | null {
+  return userDeviceQueries.findDefaultByUserId.get(userId)
+    ?? userDeviceQueries.findAllByUserId.all(userId)[0]
+    ?? null
+}
+
+// Download image from URL
+async function downloadImage(imageUrl: string): Promise<ArrayBuffer> {
+  log("INFO", "Downloading image", { imageUrl: imageUrl.substring(0, 100) + "..." })
 
   const response = await fetch(imageUrl)
   if (!response.ok) {
     throw new Error(`Failed to download image: HTTP ${response.status}`)
   }
 
-  const arrayBuffer = await response.arrayBuffer()
-  const filePath = getUserImagePath(userId)
+  return response.arrayBuffer()
+}
+
+// Render a device's stored original with its e-ink settings (no-op if nothing has been synced).
+// Falls back to the unprocessed original if rendering fails so the device still updates.
+export async function renderImageForDevice(userId: number, device: UserDevice): Promise<void> {
+  const sourceFile = Bun.file(getDeviceSourcePath(userId, device.id))
+  if (!(await sourceFile.exists())) return
+
+  const source = await sourceFile.arrayBuffer()
+  try {
+    const rendered = await renderEinkImage(source, getDeviceEinkOptions(device))
+    await Bun.write(getDeviceImagePath(userId, device.id), rendered)
+  } catch (error) {
+    log("WARN", "E-ink render failed, using original image", { userId, deviceId: device.id, error: String(error) })
+    await Bun.write(getDeviceImagePath(userId, device.id), source)
+  }
+}
 
-  // Write the image file
-  await Bun.write(filePath, arrayBuffer)
+// Store an image as a device's current image (original + rendered copy)
+async function saveImageForDevice(userId: number, device: UserDevice, image: ArrayBuffer): Promise<string> {
+  const filePath = getDeviceImagePath(userId, device.id)
+  await Bun.write(getDeviceSourcePath(userId, device.id), image)
+  await renderImageForDevice(userId, device)
 
-  log("INFO", "Image saved to file", {
+  log("INFO", "Image saved for device", {
     userId,
+    deviceId: device.id,
     filePath,
-    size: arrayBuffer.byteLength
+    size: image.byteLength
   })
 
   return filePath
 }
 
+// Delete a device's current image files and sync history
+export function deleteDeviceImages(userId: number, deviceId: number): void {
+  for (const filePath of [getDeviceImagePath(userId, deviceId), getDeviceSourcePath(userId, deviceId)]) {
+    try {
+      unlinkSync(filePath)
+    } catch {}
+  }
+  syncedImageQueries.deleteByDeviceId.run(deviceId)
+}
+
+// Replace a device's polling token, revoking its old URLs immediately.
+// If the device has a current image its webhook is re-sent the new image URL so the display keeps working.
+export async function rotateDevicePollingToken(device: UserDevice): Promise<UserDevice> {
+  const token = generatePollingToken()
+  userDeviceQueries.updatePollingToken.run(token, device.id)
+  const updatedDevice: UserDevice = { ...device, polling_token: token }
+
+  log("INFO", "Rotated device polling token", { userId: device.user_id, deviceId: device.id })
+
+  if (device.webhook_uuid && await Bun.file(getDeviceImagePath(device.user_id, device.id)).exists()) {
+    const latestImage = syncedImageQueries.findLatestByDeviceId.get(device.id)
+    await sendToDeviceWebhook(
+      device.webhook_uuid,
+      getDeviceImageUrl(updatedDevice),
+      latestImage?.prompt || "",
+      getDeviceBackgroundColor(device)
+    )
+  }
+
+  return updatedDevice
+}
+
+// Move a device with an enabled playlist on to its next image once the dwell time has passed.
+// Runs on each token poll, so rotation needs no scheduled jobs. The slot is claimed before the
+// image is saved, so when polls arrive together only one of them advances.
+export async function advanceDevicePlaylist(device: UserDevice): Promise<void> {
+  const playlist = devicePlaylistQueries.findByDeviceId.get(device.id)
+  if (!playlist) return
+
+  const latestSync = syncedImageQueries.findLatestByDeviceId.get(device.id)
+  if (!isPlaylistAdvanceDue(playlist, latestSync?.synced_at ?? null)) return
+
+  const nextImage = pickNextPlaylistImage(getPlaylistImages(playlist), playlist.current_image_id, playlist.mode)
+  if (!nextImage) return
+
+  const advancedAt = new Date().toISOString().slice(0, 19).replace("T", " ")
+  const claimed = devicePlaylistQueries.updateProgress.run(
+    nextImage.id,
+    advancedAt,
+    playlist.id,
+    playlist.current_image_id,
+    playlist.last_advanced_at
+  )
+  if (claimed.changes === 0) return
+
+  try {
+    const galleryFile = Bun.file(getGalleryImagePath(nextImage.user_id, nextImage.id))
+    const image = await galleryFile.exists()
+      ? await galleryFile.arrayBuffer()
+      : await downloadImage(nextImage.image_url)
+
+    await saveImageForDevice(device.user_id, device, image)
+    syncedImageQueries.create.run(device.user_id, device.id, getDeviceImageUrl(device), nextImage.original_prompt)
+
+    log("INFO", "Advanced device playlist", {
+      userId: device.user_id,
+      deviceId: device.id,
+      imageId: nextImage.id,
+      mode: playlist.mode,
+    })
+  } catch (error) {
+    // Give the slot back so the next poll tries again
+    devicePlaylistQueries.updateProgress.run(
+      playlist.current_image_id,
+      playlist.last_advanced_at,
+      playlist.id,
+      nextImage.id,
+      advancedAt
+    )
+    log("ERROR", "Failed to advance device playlist", { deviceId: device.id, error: String(error) })
+  }
+}
+
+// Move each user's pre-device synced image (user_{id}.png) to their default device.
+// Users without devices keep the legacy file until they add one.
+export async function migrateLegacySyncedImages(): Promise<void> {
+  const legacyFiles = readdirSync(IMAGES_DIR).filter(name => /^user_\d+\.png$/.test(name))
+
+  for (const fileName of legacyFiles) {
+    const userId = parseInt(fileName.slice("user_".length), 10)
+    const device = getPrimaryDevice(userId)
+    if (!device) continue
+
+    try {
+      renameSync(join(IMAGES_DIR, fileName), getDeviceSourcePath(userId, device.id))
+      await renderImageForDevice(userId, device)
+      log("INFO", "Migrated synced image to default device", { userId, deviceId: device.id })
+    } catch (error) {
+      log("ERROR", "Failed to migrate synced image", { userId, error: String(error) })
+    }
+  }
+}
+
 // Send image to a device's webhook URL
 async function sendToDeviceWebhook(
   webhookUrl: string,
@@ -96,6 +291,38 @@ async function sendToDeviceWebhook(
   }
 }
 
+// Serve an image file to TRMNL without caching
+function servePng(file: ReturnType<typeof Bun.file>): Response {
+  return new Response(file, {
+    headers: {
+      "Content-Type": "image/png",
+      "Cache-Control": "no-cache, no-store, must-revalidate",
+    },
+  })
+}
+
+// Build the polling payload for a device's current image
+async function buildPollingResponse(userId: number, device: UserDevice, imageUrl: string): Promise<Response> {
+  if (!(await Bun.file(getDeviceImagePath(userId, device.id)).exists())) {
+    return Response.json({
+      has_image: false,
+      message: "No image synced yet",
+    })
+  }
+
+  const latestImage = syncedImageQueries.findLatestByDeviceId.get(device.id)
+
+  log("INFO", "TRMNL polling - returning latest image", { userId, deviceId: device.id })
+
+  return Response.json({
+    has_image: true,
+    image_url: imageUrl,
+    prompt: latestImage?.prompt || "",
+    background_color: getDeviceBackgroundColor(device) === "white" ? "#fff" : "#000",
+    synced_at: latestImage?.synced_at || new Date().toISOString(),
+  })
+}
+
 // Exported helper for programmatic sync (used by scheduler)
 export async function syncToTrmnl(
   imageUrl: string,
@@ -104,15 +331,6 @@ export async function syncToTrmnl(
   deviceIds?: number[]
 ): Promise<{ success: boolean; error?: string; deviceResults?: Array<{ deviceId: number; success: boolean; error?: string }> }> {
   try {
-    // Download and save the image
-    await downloadAndSaveImage(imageUrl, userId)
-
-    // Get the permanent URL
-    const permanentUrl = getUserImageUrl(userId)
-
-    // Save to database
-    syncedImageQueries.create.run(userId, permanentUrl, prompt || null)
-
     // Get devices to sync to
     let devices: UserDevice[]
     if (deviceIds && deviceIds.length > 0) {
@@ -130,15 +348,21 @@ export async function syncToTrmnl(
       return { success: true, deviceResults: [] }
     }
 
-    // Send to all device webhooks in parallel
+    // Download the image once, then store it for each device
+    const image = await downloadImage(imageUrl)
+
     const results = await Promise.all(
       devices.map(async (device) => {
+        await saveImageForDevice(userId, device, image)
+        const deviceImageUrl = getDeviceImageUrl(device)
+        syncedImageQueries.create.run(userId, device.id, deviceImageUrl, prompt || null)
+
         if (!device.webhook_uuid) {
           return { deviceId: device.id, success: false, error: "No webhook URL" }
         }
         const result = await sendToDeviceWebhook(
           device.webhook_uuid,
-          permanentUrl,
+          deviceImageUrl,
           prompt || "",
           getDeviceBackgroundColor(device)
         )
@@ -146,6 +370,17 @@ export async function syncToTrmnl(
       })
     )
 
+    // Background syncs (batches, schedules) report each device's result to the user's event stream
+    for (const result of results) {
+      publishUserEvent(userId, {
+        type: "sync.result",
+        deviceId: result.deviceId,
+        deviceName: devices.find(device => device.id === result.deviceId)?.name || "",
+        success: result.success,
+        error: result.error || null,
+      })
+    }
+
     const allSuccess = results.every(r => r.success)
     return { success: allSuccess, deviceResults: results }
   } catch (error) {
@@ -155,7 +390,7 @@ export async function syncToTrmnl(
 }
 
 export const syncRoutes = {
-  // Sync image - downloads and stores physical copy for TRMNL (authenticated)
+  // Sync image - downloads and stores a physical copy per device for TRMNL (authenticated)
   "/api/sync/trmnl": {
     POST: withAuth(async (req, user) => {
       const startTime = performance.now()
@@ -185,11 +420,11 @@ export const syncRoutes = {
 
         log("INFO", "Syncing image for TRMNL", { userId: user.id, deviceCount: devices.length, prompt })
 
-        // Download and save image to file system
+        // Download image once for all devices
         const downloadStart = performance.now()
-        let filePath: string
+        let image: ArrayBuffer
         try {
-          filePath = await downloadAndSaveImage(imageUrl, user.id)
+          image = await downloadImage(imageUrl)
         } catch (downloadError) {
           log("ERROR", "Failed to download image", downloadError)
           return Response.json({ error: `Failed to download image: ${String(downloadError)}` }, { status: 500 })
@@ -197,36 +432,42 @@ export const syncRoutes = {
         const downloadTime = performance.now() - downloadStart
         log("INFO", `Image download completed`, { downloadTimeMs: Math.round(downloadTime) })
 
-        // Get permanent URL for this user's image
-        const permanentImageUrl = getUserImageUrl(user.id)
-
-        // Store reference in database
-        const dbStart = performance.now()
-        const syncedImage = syncedImageQueries.create.get(user.id, permanentImageUrl, prompt || null)
-        const dbTime = performance.now() - dbStart
-        log("INFO", `Database insert completed`, { dbTimeMs: Math.round(dbTime) })
+        // Store the image for each device and record it in that device's history
+        const storeStart = performance.now()
+        const syncedImages = await Promise.all(
+          devices.map(async (device) => {
+            await saveImageForDevice(user.id, device, image)
+            const deviceImageUrl = getDeviceImageUrl(device)
+            const syncedImage = syncedImageQueries.create.get(user.id, device.id, deviceImageUrl, prompt || null)
+            return { device, deviceImageUrl, syncedImage }
+          })
+        )
+        const storeTime = performance.now() - storeStart
+        log("INFO", `Device images stored`, { storeTimeMs: Math.round(storeTime) })
 
-        if (!syncedImage) {
+        const firstSynced = syncedImages[0]?.syncedImage
+        if (!firstSynced) {
           return Response.json({ error: "Failed to store image reference" }, { status: 500 })
         }
 
-        log("INFO", "Image synced successfully", { userId: user.id, filePath, permanentImageUrl })
+        log("INFO", "Image synced successfully", { userId: user.id, deviceCount: devices.length })
 
         // Send to all device webhooks in parallel
         const webhookStart = performance.now()
         const deviceResults = await Promise.all(
-          devices.map(async (device) => {
+          syncedImages.map(async ({ device, deviceImageUrl }) => {
             const result = await sendToDeviceWebhook(
               device.webhook_uuid!,
-              permanentImageUrl,
+              deviceImageUrl,
               prompt || "",
               getDeviceBackgroundColor(device)
             )
-            return { 
-              deviceId: device.id, 
+            return {
+              deviceId: device.id,
               deviceName: device.name,
-              success: result.success, 
-              error: result.error 
+              imageUrl: deviceImageUrl,
+              success: result.success,
+              error: result.error
             }
           })
         )
@@ -239,7 +480,7 @@ export const syncRoutes = {
         log("INFO", `Sync completed`, {
           totalTimeMs: Math.round(totalTime),
           downloadTimeMs: Math.round(downloadTime),
-          dbTimeMs: Math.round(dbTime),
+          storeTimeMs: Math.round(storeTime),
           webhookTimeMs: Math.round(webhookTime),
           successCount,
           totalDevices: devices.length
@@ -252,12 +493,13 @@ export const syncRoutes = {
             : successCount > 0
               ? `Image synced to ${successCount} of ${devices.length} devices`
               : "Failed to sync to any devices",
-          syncedAt: syncedImage.synced_at,
-          imageUrl: permanentImageUrl,
+          syncedAt: firstSynced.synced_at,
+          imageUrl: syncedImages[0]!.deviceImageUrl,
           deviceResults,
           timing: {
             totalMs: Math.round(totalTime),
             downloadMs: Math.round(downloadTime),
+            storeMs: Math.round(storeTime),
             webhookMs: Math.round(webhookTime),
           },
         })
@@ -268,31 +510,98 @@ export const syncRoutes = {
     }),
   },
 
-  // Serve synced image file (public - for TRMNL to fetch)
+  // Serve the image a device displays (public - for TRMNL to fetch, keyed by polling token)
+  "/api/trmnl/images/:token": {
+    GET: async (req: Request & { params: { token: string } }) => {
+      try {
+        const device = userDeviceQueries.findByPollingToken.get(req.params.token)
+        if (!device) {
+          return new Response("Image not found", { status: 404 })
+        }
+
+        const file = Bun.file(getDeviceImagePath(device.user_id, device.id))
+
+        if (!(await file.exists())) {
+          return new Response("Image not found", { status: 404 })
+        }
+
+        log("INFO", "Serving device synced image", { userId: device.user_id, deviceId: device.id })
+
+        return servePng(file)
+      } catch (error) {
+        log("ERROR", "Failed to serve device image", error)
+        return new Response("Internal server error", { status: 500 })
+      }
+    },
+  },
+
+  // Serve the original (unrendered) image a device was synced with (public - used for previews)
+  "/api/trmnl/images/:token/original": {
+    GET: async (req: Request & { params: { token: string } }) => {
+      try {
+        const device = userDeviceQueries.findByPollingToken.get(req.params.token)
+        if (!device) {
+          return new Response("Image not found", { status: 404 })
+        }
+
+        const file = Bun.file(getDeviceSourcePath(device.user_id, device.id))
+
+        if (!(await file.exists())) {
+          return new Response("Image not found", { status: 404 })
+        }
+
+        return servePng(file)
+      } catch (error) {
+        log("ERROR", "Failed to serve original device image", error)
+        return new Response("Internal server error", { status: 500 })
+      }
+    },
+  },
+
+  // TRMNL polling endpoint - returns a device's latest image (public, keyed by polling token)
+  "/api/trmnl/poll/:token": {
+    GET: async (req: Request & { params: { token: string } }) => {
+      try {
+        const device = userDeviceQueries.findByPollingToken.get(req.params.token)
+        if (!device) {
+          return Response.json({
+            has_image: false,
+            message: "Device not found",
+          }, { status: 404 })
+        }
+
+        // Only token polls rotate the playlist; anyone can call the numeric legacy URLs
+        await advanceDevicePlaylist(device)
+        return buildPollingResponse(device.user_id, device, getDeviceImageUrl(device))
+      } catch (error) {
+        log("ERROR", "TRMNL polling error", error)
+        return Response.json({ error: String(error) }, { status: 500 })
+      }
+    },
+  },
+
+  // Serve the default device's image (public - deprecated numeric URL)
   "/api/images/synced/:userId": {
     GET: async (req: Request & { params: { userId: string } }) => {
       try {
+        if (isLegacyPollingSunset()) {
+          return legacyUrlGone()
+        }
+
         const userId = parseInt(req.params.userId, 10)
 
         if (isNaN(userId)) {
           return new Response("Invalid user ID", { status: 400 })
         }
 
-        const filePath = getUserImagePath(userId)
-        const file = Bun.file(filePath)
+        const device = getPrimaryDevice(userId)
+        const file = Bun.file(device ? getDeviceImagePath(userId, device.id) : getLegacyUserImagePath(userId))
 
         if (!(await file.exists())) {
           return new Response("Image not found", { status: 404 })
         }
 
-        log("INFO", "Serving synced image", { userId, filePath })
-
-        return new Response(file, {
-          headers: {
-            "Content-Type": "image/png",
-            "Cache-Control": "no-cache, no-store, must-revalidate",
-          },
-        })
+        return withDeprecationHeaders(servePng(file), new URL(req.url).pathname)
       } catch (error) {
         log("ERROR", "Failed to serve image", error)
         return new Response("Internal server error", { status: 500 })
@@ -300,11 +609,45 @@ export const syncRoutes = {
     },
   },
 
-  // TRMNL webhook endpoint - returns the latest synced image info for a specific user (public)
+  // Serve a device's image (public - deprecated numeric URL)
+  "/api/images/synced/:userId/:deviceId": {
+    GET: async (req: Request & { params: { userId: string; deviceId: string } }) => {
+      try {
+        if (isLegacyPollingSunset()) {
+          return legacyUrlGone()
+        }
+
+        const userId = parseInt(req.params.userId, 10)
+        const deviceId = parseInt(req.params.deviceId, 10)
+
+        if (isNaN(userId) || isNaN(deviceId)) {
+          return new Response("Invalid image ID", { status: 400 })
+        }
+
+        const file = Bun.file(getDeviceImagePath(userId, deviceId))
+
+        if (!(await file.exists())) {
+          return new Response("Image not found", { status: 404 })
+        }
+
+        return withDeprecationHeaders(servePng(file), new URL(req.url).pathname)
+      } catch (error) {
+        log("ERROR", "Failed to serve device image", error)
+        return new Response("Internal server error", { status: 500 })
+      }
+    },
+  },
+
+  // TRMNL webhook endpoint - returns the default device's latest image (public - deprecated numeric URL)
   "/api/trmnl/webhook/:userId": {
     GET: async (req: Request & { params: { userId: string } }) => {
       try {
+        if (isLegacyPollingSunset()) {
+          return legacyUrlGone()
+        }
+
         const userId = parseInt(req.params.userId, 10)
+        const path = new URL(req.url).pathname
 
         if (isNaN(userId)) {
           return Response.json({
@@ -322,28 +665,63 @@ export const syncRoutes = {
           })
         }
 
-        // Check if image file exists
-        const filePath = getUserImagePath(userId)
-        const file = Bun.file(filePath)
+        const device = getPrimaryDevice(userId)
+        if (device) {
+          const imageUrl = getLegacyDeviceImageUrl(userId, device.id)
+          return withDeprecationHeaders(await buildPollingResponse(userId, device, imageUrl), path)
+        }
 
-        if (!(await file.exists())) {
+        // No devices yet - fall back to a pre-device synced image if one exists
+        if (!(await Bun.file(getLegacyUserImagePath(userId)).exists())) {
           return Response.json({
             has_image: false,
             message: "No image synced yet",
           })
         }
 
-        // Get latest synced image metadata from database
         const latestImage = syncedImageQueries.findLatestByUserId.get(userId)
 
-        log("INFO", "TRMNL polling - returning latest image", { userId })
-
-        return Response.json({
+        return withDeprecationHeaders(Response.json({
           has_image: true,
-          image_url: getUserImageUrl(userId),
+          image_url: `${config.server.baseUrl}/api/images/synced/${userId}`,
           prompt: latestImage?.prompt || "",
           synced_at: latestImage?.synced_at || new Date().toISOString(),
-        })
+        }), path)
+      } catch (error) {
+        log("ERROR", "TRMNL webhook error", error)
+        return Response.json({ error: String(error) }, { status: 500 })
+      }
+    },
+  },
+
+  // TRMNL webhook endpoint - returns a specific device's latest image (public - deprecated numeric URL)
+  "/api/trmnl/webhook/:userId/:deviceId": {
+    GET: async (req: Request & { params: { userId: string; deviceId: string } }) => {
+      try {
+        if (isLegacyPollingSunset()) {
+          return legacyUrlGone()
+        }
+
+        const userId = parseInt(req.params.userId, 10)
+        const deviceId = parseInt(req.params.deviceId, 10)
+
+        if (isNaN(userId) || isNaN(deviceId)) {
+          return Response.json({
+            has_image: false,
+            message: "Invalid device",
+          })
+        }
+
+        const device = userDeviceQueries.findByIdAndUserId.get(deviceId, userId)
+        if (!device) {
+          return Response.json({
+            has_image: false,
+            message: "Device not found",
+          })
+        }
+
+        const imageUrl = getLegacyDeviceImageUrl(userId, device.id)
+        return withDeprecationHeaders(await buildPollingResponse(userId, device, imageUrl), new URL(req.url).pathname)
       } catch (error) {
         log("ERROR", "TRMNL webhook error", error)
         return Response.json({ error: String(error) }, { status: 500 })
@@ -351,26 +729,56 @@ export const syncRoutes = {
     },
   },
 
-  // Get current sync status (authenticated)
+  // Get current sync status per device (authenticated)
   "/api/sync/status": {
     GET: withAuth(async (req, user) => {
-      const filePath = getUserImagePath(user.id)
-      const file = Bun.file(filePath)
-      const hasImage = await file.exists()
+      const devices = await Promise.all(
+        userDeviceQueries.findAllByUserId.all(user.id).map(async (device) => {
+          const hasImage = await Bun.file(getDeviceImagePath(user.id, device.id)).exists()
+          const latestImage = syncedImageQueries.findLatestByDeviceId.get(device.id)
+          return {
+            deviceId: device.id,
+            deviceName: device.name,
+            isDefault: device.is_default === 1,
+            hasSyncedImage: hasImage,
+            syncedAt: latestImage?.synced_at || null,
+            imageUrl: hasImage ? getDeviceImageUrl(device) : null,
+            originalImageUrl: hasImage ? getDeviceSourceUrl(device) : null,
+            pollingUrl: getDevicePollingUrl(device),
+          }
+        })
+      )
 
-      const latestImage = syncedImageQueries.findLatestByUserId.get(user.id)
+      // Top-level fields describe the default device for older clients
+      const primary = devices.find(d => d.isDefault) || devices[0]
 
       return Response.json({
-        hasSyncedImage: hasImage,
-        syncedAt: latestImage?.synced_at || null,
-        imageUrl: hasImage ? getUserImageUrl(user.id) : null,
+        hasSyncedImage: primary?.hasSyncedImage || false,
+        syncedAt: primary?.syncedAt || null,
+        imageUrl: primary?.imageUrl || null,
+        devices,
       })
     }),
   },
 
-  // Get sync history (authenticated)
+  // Get sync history, optionally for a single device (authenticated)
   "/api/sync/history": {
     GET: withAuth(async (req, user) => {
+      const url = new URL(req.url)
+      const deviceIdParam = url.searchParams.get("deviceId")
+
+      if (deviceIdParam) {
+        const device = userDeviceQueries.findByIdAndUserId.get(parseInt(deviceIdParam, 10), user.id)
+        if (!device) {
+          return Response.json({ error: "Device not found" }, { status: 404 })
+        }
+        const images = syncedImageQueries.findAllByDeviceId.all(device.id)
+        return Response.json({
+          images,
+          count: images.length,
+        })
+      }
+
       const images = syncedImageQueries.findAllByUserId.all(user.id)
       return Response.json({
         images,
@@ -379,21 +787,35 @@ export const syncRoutes = {
     }),
   },
 
-  // Clear sync history (authenticated)
+  // Clear sync history and images, optionally for a single device (authenticated)
   "/api/sync/clear": {
     DELETE: withAuth(async (req, user) => {
-      // Delete the image file
-      const filePath = getUserImagePath(user.id)
-      const file = Bun.file(filePath)
-      if (await file.exists()) {
-        await Bun.write(filePath, "") // Clear the file
-        const { unlinkSync } = await import("fs")
-        try {
-          unlinkSync(filePath)
-        } catch {}
+      const url = new URL(req.url)
+      const deviceIdParam = url.searchParams.get("deviceId")
+
+      if (deviceIdParam) {
+        const device = userDeviceQueries.findByIdAndUserId.get(parseInt(deviceIdParam, 10), user.id)
+        if (!device) {
+          return Response.json({ error: "Device not found" }, { status: 404 })
+        }
+        deleteDeviceImages(user.id, device.id)
+        log("INFO", "Cleared device sync history and image", { userId: user.id, deviceId: device.id })
+
+        return Response.json({
+          success: true,
+          message: "Sync history cleared",
+        })
       }
 
-      // Clear database records
+      // Delete every device's images and the legacy per-user image
+      for (const device of userDeviceQueries.findAllByUserId.all(user.id)) {
+        deleteDeviceImages(user.id, device.id)
+      }
+      try {
+        unlinkSync(getLegacyUserImagePath(user.id))
+      } catch {}
+
+      // Clear remaining database records
       syncedImageQueries.deleteByUserId.run(user.id)
       log("INFO", "Cleared sync history and image", { userId: user.id })
 
@@ -0,0 +1,40 @@
+import { log } from "../utils"
+import { withAuth } from "../middleware/auth"
+import { getQuotaPeriod } from "../services/entitlement-service"
+import { getUserUsage, isUsagePeriod } from "../services/usage-service"
+
+export const usageRoutes = {
+  // The signed-in user's OpenAI usage for one month (?period=YYYY-MM, default this month)
+  "/api/usage": {
+    GET: withAuth(async (req, user) => {
+      try {
+        const url = new URL(req.url)
+        const period = url.searchParams.get("period") || getQuotaPeriod()
+        if (!isUsagePeriod(period)) {
+          return Response.json({ error: "period must be a month (YYYY-MM)" }, { status: 400 })
+        }
+
+        const page = Math.max(1, parseInt(url.searchParams.get("page") || "1", 10) || 1)
+        const limit = Math.min(Math.max(1, parseInt(url.searchParams.get("limit") || "20", 10) || 20), 100)
+
+        const { totals, bySource, events, total } = getUserUsage(user.id, period, limit, (page - 1) * limit)
+
+        return Response.json({
+          period,
+          totals,
+          bySource,
+          events,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+        })
+      } catch (error) {
+        log("ERROR", "Failed to get usage", error)
+        return Response.json({ error: "Failed to get usage" }, { status: 500 })
+      }
+    }),
+  },
+}
@@ -0,0 +1,283 @@
+import { config } from "../config"
+import { adminAuditQueries, adminUserQueries, type AdminAuditEntry, type AdminUser } from "../db"
+import { log, toISODate } from "../utils"
+import { hashPassword, validatePasswordStrength, verifyPassword } from "./auth-service"
+
+/**
+ * Admin accounts and the admin audit log. Every operator signs in to the admin dashboard
+ * with their own account; routes in routes/admin.ts require a minimum role and record
+ * what each operator changed with `recordAdminAudit`.
+ *
+ * Roles, least to most privileged:
+ * - viewer: read-only dashboards (stats, users, devices, jobs, usage)
+ * - support: also edits devices and global style presets, resets users' two-factor authentication,
+ *   reads and resends emails, reads the audit log
+ * - superadmin: also exports and imports backups and manages admin accounts
+ *
+ * While no account exists, signing in with ADMIN_EMAIL and ADMIN_PASSWORD creates the
+ * first superadmin.
+ */
+
+export const ADMIN_ROLES = ["viewer", "support", "superadmin"] as const
+
+export type AdminRole = typeof ADMIN_ROLES[number]
+
+export const ADMIN_AUDIT_ACTIONS = [
+  "admin.login",
+  "admin_user.create",
+  "admin_user.update",
+  "data.export",
+  "data.import",
+  "device.create",
+  "device.update",
+  "device.delete",
+  "device.rotate_polling_token",
+  "style_preset.create",
+  "style_preset.update",
+  "style_preset.delete",
+  "email.view",
+  "email.resend",
+  "two_factor.reset",
+] as const
+
+export type AdminAuditAction = typeof ADMIN_AUDIT_ACTIONS[number]
+
+export const ADMIN_AUDIT_TARGET_TYPES = ["admin_user", "device", "style_preset", "email"] as const
+
+export type AdminAuditTargetType = typeof ADMIN_AUDIT_TARGET_TYPES[number]
+
+// Admin account as returned by the API (no password hash)
+export interface AdminProfile {
+  id: number
+  email: string
+  name: string | null
+  role: AdminRole
+  disabled: boolean
+  last_login_at: string | null
+  created_at: string
+}
+
+export interface AdminAuditFilter {
+  adminUserId: number | null
+  action: AdminAuditAction | null
+  targetType: AdminAuditTargetType | null
+  targetId: number | null
+  userId: number | null
+}
+
+export type AdminAuditLogEntry = Omit<AdminAuditEntry, "details"> & {
+  details: Record<string, unknown> | null
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// ADMIN_PASSWORD when unset (config/index.ts)
+const DEFAULT_ADMIN_PASSWORD = "admin123"
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return ADMIN_ROLES.includes(value as AdminRole)
+}
+
+export function isAdminAuditAction(value: unknown): value is AdminAuditAction {
+  return ADMIN_AUDIT_ACTIONS.includes(value as AdminAuditAction)
+}
+
+export function isAdminAuditTargetType(value: unknown): value is AdminAuditTargetType {
+  return ADMIN_AUDIT_TARGET_TYPES.includes(value as AdminAuditTargetType)
+}
+
+// Whether a role includes everything the required role may do
+export function hasAdminRole(role: AdminRole, required: AdminRole): boolean {
+  return ADMIN_ROLES.indexOf(role) >= ADMIN_ROLES.indexOf(required)
+}
+
+export function toAdminProfile(admin: AdminUser): AdminProfile {
+  return {
+    id: admin.id,
+    email: admin.email,
+    name: admin.name,
+    role: admin.role,
+    disabled: admin.disabled === 1,
+    last_login_at: toISODate(admin.last_login_at),
+    created_at: toISODate(admin.created_at) || admin.created_at,
+  }
+}
+
+// First superadmin from ADMIN_EMAIL/ADMIN_PASSWORD; does nothing once any account exists.
+// Production refuses the well-known default password, which anyone could log in with.
+async function ensureBootstrapAdmin(email: string, password: string): Promise<void> {
+  if ((adminUserQueries.count.get()?.count ?? 0) > 0) return
+  if (email !== config.admin.email || password !== config.admin.password) return
+  if (process.env.NODE_ENV === "production" && password === DEFAULT_ADMIN_PASSWORD) {
+    log("ERROR", "Refusing to create the bootstrap superadmin with the default password; set ADMIN_PASSWORD", { email })
+    return
+  }
+
+  try {
+    const admin = adminUserQueries.create.get(email, null, await hashPassword(password), "superadmin")
+    log("INFO", "Created bootstrap superadmin", { adminId: admin?.id, email })
+  } catch (error) {
+    // Another login created it first
+    log("DEBUG", "Bootstrap superadmin not created", { error: String(error) })
+  }
+}
+
+// Check an operator's credentials; null for unknown, disabled or wrong password
+export async function authenticateAdmin(email: string, password: string): Promise<AdminUser | null> {
+  const normalizedEmail = email.trim().toLowerCase()
+  await ensureBootstrapAdmin(normalizedEmail, password)
+
+  const admin = adminUserQueries.findByEmail.get(normalizedEmail)
+  if (!admin || admin.disabled === 1) return null
+  if (!(await verifyPassword(password, admin.password_hash))) return null
+
+  adminUserQueries.touchLastLogin.run(admin.id)
+  return admin
+}
+
+export async function createAdminUser(
+  input: Record<string, unknown>
+): Promise<{ admin: AdminUser } | { error: string }> {
+  const email = typeof input.email === "string" ? input.email.trim().toLowerCase() : ""
+  if (!EMAIL_PATTERN.test(email)) {
+    return { error: "A valid email is required" }
+  }
+  if (adminUserQueries.findByEmail.get(email)) {
+    return { error: "An admin with this email already exists" }
+  }
+  if (!isAdminRole(input.role)) {
+    return { error: `Role must be one of: ${ADMIN_ROLES.join(", ")}` }
+  }
+  if (typeof input.password !== "string") {
+    return { error: "Password is required" }
+  }
+  const strength = validatePasswordStrength(input.password)
+  if (!strength.valid) {
+    return { error: strength.error! }
+  }
+  const name = typeof input.name === "string" ? input.name.trim() || null : null
+
+  const admin = adminUserQueries.create.get(email, name, await hashPassword(input.password), input.role)
+  if (!admin) {
+    return { error: "Failed to create admin" }
+  }
+  return { admin }
+}
+
+// Change name, role, disabled or password. Operators can't change their own role or disable
+// themselves, so the dashboard always keeps an active superadmin.
+export async function updateAdminUser(
+  actor: AdminUser,
+  target: AdminUser,
+  input: Record<string, unknown>
+): Promise<{ admin: AdminUser; changes: string[] } | { error: string }> {
+  const changes: string[] = []
+
+  let name = target.name
+  if (input.name !== undefined) {
+    if (input.name !== null && typeof input.name !== "string") {
+      return { error: "Name must be a string" }
+    }
+    name = input.name?.trim() || null
+    if (name !== target.name) changes.push("name")
+  }
+
+  let role = target.role
+  if (input.role !== undefined) {
+    if (!isAdminRole(input.role)) {
+      return { error: `Role must be one of: ${ADMIN_ROLES.join(", ")}` }
+    }
+    role = input.role
+    if (role !== target.role) changes.push("role")
+  }
+
+  let disabled = target.disabled
+  if (input.disabled !== undefined) {
+    if (typeof input.disabled !== "boolean") {
+      return { error: "Disabled must be a boolean" }
+    }
+    disabled = input.disabled ? 1 : 0
+    if (disabled !== target.disabled) changes.push("disabled")
+  }
+
+  if (actor.id === target.id && (changes.includes("role") || changes.includes("disabled"))) {
+    return { error: "You can't change your own role or disable your own account" }
+  }
+
+  let passwordHash: string | null = null
+  if (input.password !== undefined) {
+    if (typeof input.password !== "string") {
+      return { error: "Password must be a string" }
+    }
+    const strength = validatePasswordStrength(input.password)
+    if (!strength.valid) {
+      return { error: strength.error! }
+    }
+    passwordHash = await hashPassword(input.password)
+    changes.push("password")
+  }
+
+  const admin = adminUserQueries.update.get(name, role, disabled, target.id)
+  if (!admin) {
+    return { error: "Failed to update admin" }
+  }
+  if (passwordHash) {
+    adminUserQueries.updatePassword.run(passwordHash, target.id)
+  }
+  return { admin, changes }
+}
+
+// Append an entry to the audit log. Never throws: the action it describes already happened.
+export function recordAdminAudit(
+  admin: AdminUser,
+  action: AdminAuditAction,
+  options: {
+    target?: { type: AdminAuditTargetType; id: number }
+    userId?: number | null
+    details?: Record<string, unknown>
+    ipAddress?: string | null
+  } = {}
+): void {
+  try {
+    adminAuditQueries.create.get(
+      admin.id,
+      admin.email,
+      action,
+      options.target?.type ?? null,
+      options.target?.id ?? null,
+      options.userId ?? null,
+      options.details ? JSON.stringify(options.details) : null,
+      options.ipAddress ?? null
+    )
+  } catch (error) {
+    log("ERROR", "Failed to record admin audit entry", { adminId: admin.id, action, error: String(error) })
+  }
+}
+
+function parseDetails(details: string | null): Record<string, unknown> | null {
+  if (!details) return null
+  try {
+    return JSON.parse(details) as Record<string, unknown>
+  } catch {
+    return null
+  }
+}
+
+// Newest first
+export function listAdminAuditLog(
+  filter: AdminAuditFilter,
+  limit: number,
+  offset: number
+): { entries: AdminAuditLogEntry[]; total: number } {
+  const params = [filter.adminUserId, filter.action, filter.targetType, filter.targetId, filter.userId] as const
+  const entries = adminAuditQueries.findPage.all(...params, limit, offset)
+  const total = adminAuditQueries.count.get(...params)?.count ?? 0
+  return {
+    entries: entries.map(entry => ({
+      ...entry,
+      details: parseDetails(entry.details),
+      created_at: toISODate(entry.created_at) || entry.created_at,
+    })),
+    total,
+  }
+}
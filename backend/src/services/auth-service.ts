@@ -1,5 +1,7 @@
-import { userQueries, tokenBlacklistQueries, refreshTokenQueries, passwordResetTokenQueries, type User } from "../db"
+import { userQueries, tokenBlacklistQueries, refreshTokenQueries, passwordResetTokenQueries, twoFactorChallengeFailureQueries, type User } from "../db"
 import { log } from "../utils"
+import { closeUserEventStreams } from "./event-service"
+import { getEnabledTwoFactor, verifySecondFactor } from "./two-factor-service"
 
 // JWT Configuration
 const JWT_SECRET = process.env.JWT_SECRET
@@ -11,6 +13,15 @@ const JWT_ACCESS_EXPIRES_IN = 15 * 60 // 15 minutes in seconds
 // Refresh token: 7 days (longer-lived, stored in database)
 const JWT_REFRESH_EXPIRES_IN = 7 * 24 * 60 * 60 // 7 days in seconds
 
+// Two-factor challenge: 5 minutes to enter the code after the password
+const JWT_TWO_FACTOR_EXPIRES_IN = 5 * 60 // 5 minutes in seconds
+
+// Wrong codes a challenge takes before it is revoked and the password is needed again
+const MAX_TWO_FACTOR_ATTEMPTS = 5
+
+// Remembered device: skips the second factor for 30 days
+export const TRUSTED_DEVICE_EXPIRES_IN = 30 * 24 * 60 * 60 // 30 days in seconds
+
 // CRITICAL: Enforce JWT_SECRET in production
 if (process.env.NODE_ENV === "production" && !JWT_SECRET) {
   console.error("[AUTH] CRITICAL: JWT_SECRET must be set in production!")
@@ -30,13 +41,16 @@ if (!JWT_SECRET) {
 const SECRET = JWT_SECRET || "promptink-secret-change-in-production"
 const REFRESH_SECRET = JWT_REFRESH_SECRET || SECRET
 
+// two_factor tokens only prove the password was checked; they can't be used as access tokens
+export type TokenType = "access" | "refresh" | "two_factor"
+
 export interface JWTPayload {
   userId: number
   email: string
   jti: string // JWT ID for tracking and revocation
   iat: number
   exp: number
-  type: "access" | "refresh"
+  type: TokenType
 }
 
 export interface AuthUser {
@@ -52,6 +66,12 @@ export interface TokenPair {
   expiresIn: number
 }
 
+// Password accepted, but the account needs a second factor before tokens are issued
+export interface TwoFactorChallenge {
+  twoFactorRequired: true
+  challengeToken: string
+}
+
 // Generate a unique JWT ID using cryptographically secure random UUID
 function generateJti(): string {
   return crypto.randomUUID()
@@ -156,10 +176,16 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
   return await Bun.password.verify(password, hash)
 }
 
-// Generate JWT token (access or refresh)
-async function generateToken(user: User, type: "access" | "refresh", jti: string): Promise<string> {
+function getTokenExpiry(type: TokenType): number {
+  if (type === "access") return JWT_ACCESS_EXPIRES_IN
+  if (type === "two_factor") return JWT_TWO_FACTOR_EXPIRES_IN
+  return JWT_REFRESH_EXPIRES_IN
+}
+
+// Generate JWT token (access, refresh or two-factor challenge)
+async function generateToken(user: User, type: TokenType, jti: string): Promise<string> {
   const now = Math.floor(Date.now() / 1000)
-  const expiresIn = type === "access" ? JWT_ACCESS_EXPIRES_IN : JWT_REFRESH_EXPIRES_IN
+  const expiresIn = getTokenExpiry(type)
 
   const payload: JWTPayload = {
     userId: user.id,
@@ -176,7 +202,7 @@ async function generateToken(user: User, type: "access" | "refresh", jti: string
   const payloadB64 = base64urlEncode(JSON.stringify(payload))
 
   const data = `${headerB64}.${payloadB64}`
-  const secret = type === "access" ? SECRET : REFRESH_SECRET
+  const secret = type === "refresh" ? REFRESH_SECRET : SECRET
   const signature = await signHMAC(data, secret)
 
   return `${data}.${signature}`
@@ -222,7 +248,7 @@ export async function generateTokenPair(
 }
 
 // Verify JWT token
-export async function verifyToken(token: string, type: "access" | "refresh" = "access"): Promise<JWTPayload | null> {
+export async function verifyToken(token: string, type: TokenType = "access"): Promise<JWTPayload | null> {
   try {
     const parts = token.split(".")
     if (parts.length !== 3) return null
@@ -245,7 +271,7 @@ export async function verifyToken(token: string, type: "access" | "refresh" = "a
     const data = `${headerB64}.${payloadB64}`
 
     // Verify signature using constant-time comparison
-    const secret = type === "access" ? SECRET : REFRESH_SECRET
+    const secret = type === "refresh" ? REFRESH_SECRET : SECRET
     const expectedSignature = await signHMAC(data, secret)
 
     if (!constantTimeEqual(signature, expectedSignature)) {
@@ -363,6 +389,8 @@ export function revokeToken(jti: string, userId: number, exp: number, reason?: s
   try {
     const expiresAt = new Date(exp * 1000).toISOString()
     tokenBlacklistQueries.create.get(jti, userId, expiresAt, reason || null)
+    // Event streams are only authenticated when they open, so end the ones using this token
+    closeUserEventStreams(userId, jti)
     log("INFO", "Token revoked", { jti, userId, reason })
   } catch (error) {
     log("ERROR", "Failed to revoke token", error)
@@ -373,6 +401,7 @@ export function revokeToken(jti: string, userId: number, exp: number, reason?: s
 export function revokeAllUserTokens(userId: number): void {
   try {
     refreshTokenQueries.revokeAllByUserId.run(userId)
+    closeUserEventStreams(userId)
     log("INFO", "All tokens revoked for user", { userId })
   } catch (error) {
     log("ERROR", "Failed to revoke all user tokens", error)
@@ -386,14 +415,15 @@ export function cleanupExpiredTokens(): void {
     tokenBlacklistQueries.deleteExpired.run(now)
     refreshTokenQueries.deleteExpired.run(now)
     passwordResetTokenQueries.deleteExpired.run(now)
-    log("INFO", "Expired tokens cleaned up (blacklist, refresh, password reset)")
+    twoFactorChallengeFailureQueries.deleteExpired.run(now)
+    log("INFO", "Expired tokens cleaned up (blacklist, refresh, password reset, two-factor challenges)")
   } catch (error) {
     log("ERROR", "Failed to cleanup expired tokens", error)
   }
 }
 
 // Validate password strength
-function validatePasswordStrength(password: string): { valid: boolean; error?: string } {
+export function validatePasswordStrength(password: string): { valid: boolean; error?: string } {
   if (password.length < 8) {
     return { valid: false, error: "Password must be at least 8 characters" }
   }
@@ -472,13 +502,37 @@ export async function registerUser(
   }
 }
 
+// Trusted device token: userId.expiry.signature, signed with the user's TOTP secret so
+// re-enrolling or turning two-factor off forgets every remembered device
+async function signTrustedDevice(userId: number, exp: number, totpSecret: string): Promise<string> {
+  return signHMAC(`${userId}.${exp}`, `${SECRET}:${totpSecret}`)
+}
+
+export async function createTrustedDeviceToken(userId: number): Promise<string | null> {
+  const twoFactor = getEnabledTwoFactor(userId)
+  if (!twoFactor) return null
+
+  const exp = Math.floor(Date.now() / 1000) + TRUSTED_DEVICE_EXPIRES_IN
+  return `${userId}.${exp}.${await signTrustedDevice(userId, exp, twoFactor.secret)}`
+}
+
+async function isTrustedDevice(token: string | undefined, userId: number, totpSecret: string): Promise<boolean> {
+  const [tokenUserId, expStr, signature] = token?.split(".") ?? []
+  const exp = parseInt(expStr || "", 10)
+  if (!signature || Number(tokenUserId) !== userId || isNaN(exp) || exp < Math.floor(Date.now() / 1000)) {
+    return false
+  }
+  return constantTimeEqual(signature, await signTrustedDevice(userId, exp, totpSecret))
+}
+
 // Login user
 export async function loginUser(
   email: string,
   password: string,
   ipAddress?: string,
-  userAgent?: string
-): Promise<{ user: AuthUser; tokens: TokenPair } | { error: string }> {
+  userAgent?: string,
+  trustedDeviceToken?: string
+): Promise<{ user: AuthUser; tokens: TokenPair } | TwoFactorChallenge | { error: string }> {
   try {
     // Find user
     const normalizedEmail = email.toLowerCase()
@@ -499,10 +553,20 @@ export async function loginUser(
       return { error: "Invalid email or password" }
     }
 
+    // Ask for the second factor unless this device was remembered
+    const twoFactor = getEnabledTwoFactor(user.id)
+    if (twoFactor && !(await isTrustedDevice(trustedDeviceToken, user.id, twoFactor.secret))) {
+      log("INFO", "Two-factor challenge issued", { userId: user.id })
+      return {
+        twoFactorRequired: true,
+        challengeToken: await generateToken(user, "two_factor", generateJti()),
+      }
+    }
+
     // Generate tokens
     const tokens = await generateTokenPair(user, ipAddress, userAgent)
 
-    log("INFO", "User logged in", { userId: user.id, email: user.email })
+    log("INFO", "User logged in", { userId: user.id, email: user.email, trustedDevice: !!twoFactor })
 
     return {
       user: {
@@ -519,6 +583,76 @@ export async function loginUser(
   }
 }
 
+// Count a wrong code against its challenge, revoking the challenge once it has had too many.
+// Counted per challenge rather than per IP, so spreading guesses across addresses doesn't help.
+function recordTwoFactorFailure(payload: JWTPayload, error: string): { error: string } {
+  const expiresAt = new Date(payload.exp * 1000).toISOString()
+  const { failed_attempts } = twoFactorChallengeFailureQueries.recordFailure.get(payload.jti, payload.userId, expiresAt)!
+  if (failed_attempts < MAX_TWO_FACTOR_ATTEMPTS) {
+    return { error }
+  }
+
+  revokeToken(payload.jti, payload.userId, payload.exp, "too many two-factor attempts")
+  log("WARN", "Two-factor challenge revoked after too many failed attempts", {
+    userId: payload.userId,
+    attempts: failed_attempts,
+  })
+  return { error: "Too many incorrect codes. Please enter your password again." }
+}
+
+// Finish a login that needed a second factor
+export async function completeTwoFactorLogin(
+  challengeToken: string,
+  code: string,
+  rememberDevice: boolean,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<
+  | { user: AuthUser; tokens: TokenPair; trustedDeviceToken: string | null; usedRecoveryCode: boolean }
+  | { error: string }
+> {
+  try {
+    const payload = await verifyToken(challengeToken, "two_factor")
+    if (!payload) {
+      return { error: "Sign-in expired. Please enter your password again." }
+    }
+
+    const user = userQueries.findById.get(payload.userId)
+    if (!user) {
+      return { error: "User not found" }
+    }
+
+    const result = verifySecondFactor(user.id, code)
+    if ("error" in result) {
+      log("WARN", "Two-factor verification failed", { userId: user.id, error: result.error })
+      return recordTwoFactorFailure(payload, result.error)
+    }
+
+    // Each challenge completes one login
+    revokeToken(payload.jti, user.id, payload.exp, "two-factor challenge completed")
+
+    const tokens = await generateTokenPair(user, ipAddress, userAgent)
+    const trustedDeviceToken = rememberDevice ? await createTrustedDeviceToken(user.id) : null
+
+    log("INFO", "User logged in", { userId: user.id, email: user.email, secondFactor: result.method })
+
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        created_at: user.created_at,
+      },
+      tokens,
+      trustedDeviceToken,
+      usedRecoveryCode: result.method === "recovery",
+    }
+  } catch (error) {
+    log("ERROR", "Two-factor login failed", error)
+    return { error: "Login failed" }
+  }
+}
+
 // Get user by ID
 export function getUserById(id: number): AuthUser | null {
   const user = userQueries.findById.get(id)
@@ -0,0 +1,222 @@
+import { collectionQueries, userDeviceQueries } from "../db"
+import { parseCsv } from "../utils"
+import { MAX_IMPORTED_BATCH_SIZE, type BatchJobItemInput } from "./batch-service"
+import { listStylePresets } from "./style-preset-service"
+import { resolveImageProvider, validateProviderOptions } from "./image-provider-service"
+
+/**
+ * Batch import: CSV or JSON files where each row sets its own prompt, size, style preset,
+ * target collection and target device. Rows are validated one by one so the user can fix
+ * them in the preview before the batch is created.
+ */
+
+export const BATCH_IMPORT_FORMATS = ["csv", "json"] as const
+
+export type BatchImportFormat = typeof BATCH_IMPORT_FORMATS[number]
+
+export function isBatchImportFormat(value: unknown): value is BatchImportFormat {
+  return typeof value === "string" && (BATCH_IMPORT_FORMATS as readonly string[]).includes(value)
+}
+
+// Longest prompt accepted in an imported row
+export const MAX_IMPORTED_PROMPT_LENGTH = 4000
+
+// A row as shown in the preview: plain text, empty meaning "use the batch setting".
+// Collections and devices are referenced by ID or name.
+export interface BatchImportRow {
+  prompt: string
+  size: string
+  stylePreset: string
+  collection: string
+  device: string
+}
+
+export interface BatchImportRowError {
+  row: number // 1-based, header excluded
+  field: keyof BatchImportRow
+  message: string
+}
+
+// Accepted column names (CSV headers and JSON keys, compared lowercased without separators)
+const COLUMN_ALIASES: Record<string, keyof BatchImportRow> = {
+  prompt: "prompt",
+  size: "size",
+  style: "stylePreset",
+  stylepreset: "stylePreset",
+  collection: "collection",
+  collectionid: "collection",
+  device: "device",
+  deviceid: "device",
+}
+
+function toColumn(name: string): keyof BatchImportRow | undefined {
+  return COLUMN_ALIASES[name.toLowerCase().replace(/[\s_-]+/g, "")]
+}
+
+function emptyRow(): BatchImportRow {
+  return { prompt: "", size: "", stylePreset: "", collection: "", device: "" }
+}
+
+// Convert JSON values (a prompt string or an object of columns) into rows
+export function toBatchImportRows(values: unknown[]): BatchImportRow[] {
+  return values.map(value => {
+    const row = emptyRow()
+    if (typeof value === "string") {
+      row.prompt = value
+    } else if (value && typeof value === "object") {
+      for (const [key, cell] of Object.entries(value)) {
+        const column = toColumn(key)
+        if (column && (typeof cell === "string" || typeof cell === "number")) {
+          row[column] = String(cell).trim()
+        }
+      }
+    }
+    return row
+  })
+}
+
+// Parse an uploaded file into rows; the structure is checked here, the values in validateBatchImportRows
+export function parseBatchImportFile(
+  content: string,
+  format: BatchImportFormat
+): { rows: BatchImportRow[] } | { error: string } {
+  if (format === "json") {
+    let data: unknown
+    try {
+      data = JSON.parse(content)
+    } catch {
+      return { error: "File is not valid JSON" }
+    }
+    const values = Array.isArray(data) ? data : (data as { items?: unknown })?.items
+    if (!Array.isArray(values)) {
+      return { error: "JSON must be an array of rows or an object with an items array" }
+    }
+    return { rows: toBatchImportRows(values) }
+  }
+
+  let records: string[][]
+  try {
+    records = parseCsv(content)
+  } catch (error) {
+    return { error: `File is not valid CSV: ${String(error).replace(/^Error:\s*/, "")}` }
+  }
+
+  const [header, ...lines] = records
+  const columns = (header ?? []).map(name => toColumn(name.trim()))
+  if (!columns.includes("prompt")) {
+    return { error: "CSV needs a header row with a prompt column" }
+  }
+
+  return {
+    rows: lines.map(cells => {
+      const row = emptyRow()
+      cells.forEach((cell, index) => {
+        const column = columns[index]
+        if (column) row[column] = cell.trim()
+      })
+      return row
+    }),
+  }
+}
+
+// Find a collection or device by ID, or by name when the name is unique
+function resolveReference<T extends { id: number; name: string }>(
+  reference: string,
+  candidates: T[],
+  kind: string
+): { id: number } | { error: string } {
+  if (/^\d+$/.test(reference)) {
+    const match = candidates.find(candidate => candidate.id === parseInt(reference, 10))
+    if (match) return { id: match.id }
+  }
+
+  const matches = candidates.filter(candidate => candidate.name.toLowerCase() === reference.toLowerCase())
+  if (matches.length === 1) {
+    return { id: matches[0]!.id }
+  }
+  if (matches.length > 1) {
+    return { error: `Several ${kind}s are named "${reference}"; use the ID instead` }
+  }
+  return { error: `No ${kind} named "${reference}"` }
+}
+
+// Check every row against the user's collections and devices and the batch's provider
+export function validateBatchImportRows(
+  userId: number,
+  rows: BatchImportRow[],
+  provider?: string | null
+): { items: BatchJobItemInput[]; errors: BatchImportRowError[] } | { error: string } {
+  if (rows.length === 0) {
+    return { error: "The file has no rows" }
+  }
+  if (rows.length > MAX_IMPORTED_BATCH_SIZE) {
+    return { error: `Maximum ${MAX_IMPORTED_BATCH_SIZE} rows allowed per imported batch` }
+  }
+
+  const imageProvider = resolveImageProvider(provider)
+  if ("error" in imageProvider) {
+    return { error: imageProvider.error }
+  }
+
+  const stylePresets = listStylePresets(userId)
+  const collections = collectionQueries.findAllByUserId.all(userId)
+  const devices = userDeviceQueries.findAllByUserId.all(userId)
+  const items: BatchJobItemInput[] = []
+  const errors: BatchImportRowError[] = []
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 1
+    const item: BatchJobItemInput = { prompt: row.prompt.trim() }
+    const addError = (field: keyof BatchImportRow, message: string) => errors.push({ row: rowNumber, field, message })
+
+    if (!item.prompt) {
+      addError("prompt", "Prompt is required")
+    } else if (item.prompt.length > MAX_IMPORTED_PROMPT_LENGTH) {
+      addError("prompt", `Prompt must be at most ${MAX_IMPORTED_PROMPT_LENGTH} characters`)
+    }
+
+    if (row.size) {
+      const sizeError = validateProviderOptions(imageProvider, { size: row.size })
+      if (sizeError) {
+        addError("size", sizeError)
+      }
+      item.size = row.size
+    }
+
+    // Presets by key ("anime", "custom:12") or by name
+    if (row.stylePreset) {
+      const reference = row.stylePreset.toLowerCase()
+      const matches = stylePresets.filter(preset => preset.key === reference || preset.name.toLowerCase() === reference)
+      if (matches.length === 1) {
+        item.stylePreset = matches[0]!.key
+      } else {
+        addError("stylePreset", matches.length > 1
+          ? `Several style presets are named "${row.stylePreset}"; use the key instead`
+          : `Unknown style preset "${row.stylePreset}"`)
+        item.stylePreset = reference
+      }
+    }
+
+    if (row.collection) {
+      const collection = resolveReference(row.collection, collections, "collection")
+      if ("error" in collection) {
+        addError("collection", collection.error)
+      } else {
+        item.collectionId = collection.id
+      }
+    }
+
+    if (row.device) {
+      const device = resolveReference(row.device, devices, "device")
+      if ("error" in device) {
+        addError("device", device.error)
+      } else {
+        item.deviceId = device.id
+      }
+    }
+
+    items.push(item)
+  })
+
+  return { items, errors }
+}
@@ -0,0 +1,121 @@
+import { MAX_IMPORTED_BATCH_SIZE, type BatchJobItemInput } from "./batch-service"
+import { resolveImageProvider, validateProviderOptions } from "./image-provider-service"
+import { validateStylePreset } from "./style-preset-service"
+
+/**
+ * Prompt matrix batches: one base prompt expanded against style presets, sizes and
+ * `{a|b}` phrase alternatives, so designers can compare the variations side by side.
+ */
+
+// Largest matrix, in generated images
+export const MAX_MATRIX_BATCH_SIZE = MAX_IMPORTED_BATCH_SIZE
+
+// `{cat|dog}` groups; `{{variable}}` template syntax is left alone
+const ALTERNATIVES_PATTERN = /(?<!\{)\{([^{}]*\|[^{}]*)\}(?!\})/g
+
+// Stored on the batch (JSON) so the comparison grid knows its axes
+export interface PromptMatrix {
+  basePrompt: string
+  phrases: string[][] // Options of each `{a|b}` group, in prompt order
+  stylePresets: string[]
+  sizes: string[]
+}
+
+export interface PromptMatrixInput {
+  userId: number
+  basePrompt: unknown
+  stylePresets?: unknown
+  sizes?: unknown
+  provider?: string | null
+  defaultSize: string
+}
+
+// Options of each `{a|b}` group in the prompt
+export function parsePromptAlternatives(basePrompt: string): string[][] {
+  return Array.from(basePrompt.matchAll(ALTERNATIVES_PATTERN), match => match[1]!.split("|").map(option => option.trim()))
+}
+
+// Every combination of one option per group, first group varying slowest
+function combinations(groups: string[][]): string[][] {
+  return groups.reduce<string[][]>(
+    (result, options) => result.flatMap(combination => options.map(option => [...combination, option])),
+    [[]]
+  )
+}
+
+// Number of images a matrix produces
+export function countMatrixItems(matrix: PromptMatrix): number {
+  return matrix.phrases.reduce((count, options) => count * options.length, 1)
+    * matrix.stylePresets.length
+    * matrix.sizes.length
+}
+
+// Expand a matrix into batch items: phrase combinations, then styles, then sizes
+export function expandPromptMatrix(matrix: PromptMatrix): BatchJobItemInput[] {
+  const items: BatchJobItemInput[] = []
+  for (const phrases of combinations(matrix.phrases)) {
+    let index = 0
+    const prompt = matrix.basePrompt.replace(ALTERNATIVES_PATTERN, () => phrases[index++]!)
+    for (const stylePreset of matrix.stylePresets) {
+      for (const size of matrix.sizes) {
+        items.push({ prompt, stylePreset, size })
+      }
+    }
+  }
+  return items
+}
+
+function toStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  const strings = value.filter((entry): entry is string => typeof entry === "string").map(entry => entry.trim())
+  return [...new Set(strings.filter(Boolean))]
+}
+
+// Validate matrix input against the provider and the batch limit
+export function buildPromptMatrix(
+  input: PromptMatrixInput
+): { matrix: PromptMatrix; items: BatchJobItemInput[] } | { error: string } {
+  if (typeof input.basePrompt !== "string" || input.basePrompt.trim().length === 0) {
+    return { error: "basePrompt is required" }
+  }
+  const basePrompt = input.basePrompt.trim()
+
+  const phrases = parsePromptAlternatives(basePrompt)
+  if (phrases.some(options => options.some(option => option.length === 0))) {
+    return { error: "Phrase alternatives can't be empty, e.g. {cat|dog}" }
+  }
+
+  const stylePresets = toStringList(input.stylePresets).map(style => style.toLowerCase())
+  for (const style of stylePresets) {
+    const styleError = validateStylePreset(style, input.userId)
+    if (styleError) {
+      return { error: styleError }
+    }
+  }
+
+  const provider = resolveImageProvider(input.provider)
+  if ("error" in provider) {
+    return { error: provider.error }
+  }
+  const sizes = toStringList(input.sizes)
+  for (const size of sizes) {
+    const sizeError = validateProviderOptions(provider, { size })
+    if (sizeError) {
+      return { error: sizeError }
+    }
+  }
+
+  const matrix: PromptMatrix = {
+    basePrompt,
+    phrases,
+    stylePresets: stylePresets.length > 0 ? stylePresets : ["none"],
+    sizes: sizes.length > 0 ? sizes : [input.defaultSize],
+  }
+
+  const count = countMatrixItems(matrix)
+  if (count > MAX_MATRIX_BATCH_SIZE) {
+    return { error: `This matrix makes ${count} images; the limit is ${MAX_MATRIX_BATCH_SIZE}` }
+  }
+
+  return { matrix, items: expandPromptMatrix(matrix) }
+}
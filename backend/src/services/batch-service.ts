@@ -1,19 +1,41 @@
+import { config } from "../config"
 import { log, toISODate } from "../utils"
 import {
+  db,
   batchJobQueries,
   batchJobItemQueries,
   generatedImageQueries,
+  collectionQueries,
+  collectionImageQueries,
+  userDeviceQueries,
   type BatchJob,
   type BatchJobItem,
 } from "../db"
-import { generateImage, type GenerateImageOptions } from "./openai-service"
+import { resolveImageProvider, validateJobProvider, type ImageProvider, type ProviderGenerateOptions } from "./image-provider-service"
+import { applyStylePreset, getPresetNegativePrompt, requireStylePreset, validateStylePreset } from "./style-preset-service"
 import { saveImageToGallery, getGalleryImageUrl } from "../routes/gallery"
 import { syncToTrmnl } from "../routes/sync"
+import { consumeQuota, getPlan, getQuotaPeriod, isEntitlementError, refundQuota, type Plan } from "./entitlement-service"
+import { publishUserEvent } from "./event-service"
+import { notifyBatchFinished } from "./notification-service"
+import {
+  enqueueJob,
+  parseJobPayload,
+  registerJobHandler,
+  runQueuedJobs,
+  cancelQueuedJobs,
+  estimateCompletion,
+} from "./job-queue-service"
+import type { PromptMatrix } from "./batch-matrix-service"
+
+// Batch as returned by the API, with the prompt matrix parsed
+export type BatchJobResponse = Omit<BatchJob, "matrix"> & { matrix: PromptMatrix | null }
 
 // Transform batch job dates to ISO format with UTC indicator
-function transformBatchJob(batch: BatchJob): BatchJob {
+function transformBatchJob(batch: BatchJob): BatchJobResponse {
   return {
     ...batch,
+    matrix: batch.matrix ? JSON.parse(batch.matrix) as PromptMatrix : null,
     created_at: toISODate(batch.created_at) || batch.created_at,
     started_at: toISODate(batch.started_at),
     completed_at: toISODate(batch.completed_at),
@@ -29,53 +51,149 @@ function transformBatchItem(item: BatchJobItem): BatchJobItem {
   }
 }
 
-// Style preset definitions (same as in images.ts)
-const stylePresets: Record<string, string> = {
-  "none": "",
-  "photorealistic": ", photorealistic, high-resolution photography, detailed, sharp focus, professional photography",
-  "anime": ", anime style, Japanese animation, vibrant colors, cel-shaded, manga-inspired",
-  "watercolor": ", watercolor painting style, soft brushstrokes, flowing colors, artistic, traditional watercolor on paper",
-  "oil-painting": ", oil painting style, textured brushstrokes, rich colors, classical art technique, canvas texture",
-  "pixel-art": ", pixel art style, 8-bit, retro video game aesthetic, blocky pixels, nostalgic",
-  "3d-render": ", 3D render, CGI, Blender style, realistic lighting, raytraced, octane render",
-  "sketch": ", pencil sketch style, hand-drawn, graphite, charcoal drawing, artistic sketch on paper",
-  "pop-art": ", pop art style, bold colors, comic book style, Roy Lichtenstein inspired, halftone dots",
-  "minimalist": ", minimalist style, clean lines, simple shapes, flat design, negative space, modern",
-  "cinematic": ", cinematic style, dramatic lighting, movie poster aesthetic, film grain, wide aspect, epic",
-}
-
-// Apply style preset to prompt
-function applyStylePreset(prompt: string, stylePreset: string | null): string {
-  if (!stylePreset) return prompt
-  const modifier = stylePresets[stylePreset] || ""
-  if (!modifier) return prompt
-  return prompt + modifier
-}
-
 // Maximum items per batch
 export const MAX_BATCH_SIZE = 10
 
-// Rate limiting: 30 second delay between each image generation to avoid OpenAI rate limits
-const RATE_LIMIT_DELAY_MS = 30000
+// Maximum items per batch imported from a CSV or JSON file
+export const MAX_IMPORTED_BATCH_SIZE = 50
+
+export type BatchPlan = Plan
+
+export const BATCH_FAILURE_REASONS = ["content_policy", "rate_limit", "network", "invalid_size", "plan_limit", "other"] as const
+
+export type BatchFailureReason = typeof BATCH_FAILURE_REASONS[number]
+
+// Failures a retry won't fix; the item fails without using up its attempts
+const PERMANENT_FAILURE_REASONS: readonly BatchFailureReason[] = ["content_policy", "invalid_size", "plan_limit"]
+
+// Classify a generation error message from any provider
+export function classifyBatchFailure(error: string): BatchFailureReason {
+  // Before rate_limit, whose pattern also matches "quota"
+  if (isEntitlementError(error)) {
+    return "plan_limit"
+  }
+  if (/content.?policy|safety system|moderation|not allowed by our safety/i.test(error)) {
+    return "content_policy"
+  }
+  if (/rate.?limit|too many requests|HTTP 429|quota/i.test(error)) {
+    return "rate_limit"
+  }
+  if (/supports sizes|invalid size|size must be|dimensions/i.test(error)) {
+    return "invalid_size"
+  }
+  if (/network|fetch failed|timed? ?out|ECONN|ENOTFOUND|EAI_AGAIN|socket|HTTP 50[234]/i.test(error)) {
+    return "network"
+  }
+  return "other"
+}
 
 // TRMNL sync delay: 10 minutes between each sync to stagger updates
 const TRMNL_SYNC_DELAY_MS = 10 * 60 * 1000 // 10 minutes
 
-// Batch processor singleton
-let isProcessing = false
 let processorInterval: Timer | null = null
-let lastImageGeneratedAt: number = 0
-let lastSyncToTrmnlAt: number = 0
 
-// Queue for pending TRMNL syncs (imageUrl, prompt, userId, batchId, itemId)
-interface PendingSync {
+// Queue payloads
+interface BatchItemJobPayload {
+  batchId: number
+  itemId: number
+}
+
+interface TrmnlSyncJobPayload {
   imageUrl: string
   prompt: string
   userId: number
   batchId: number
   itemId: number
+  deviceIds?: number[] // All of the user's devices when omitted
+}
+
+export function getBatchPlan(userId: number): BatchPlan {
+  return getPlan(userId)
+}
+
+// Minimum time between two of a user's batch items starting, from their plan's hourly budget
+export function getBatchItemIntervalMs(userId: number): number {
+  const itemsPerHour = getBatchPlan(userId) === "subscriber"
+    ? config.batch.subscriberItemsPerHour
+    : config.batch.freeItemsPerHour
+  return Math.ceil((60 * 60 * 1000) / Math.max(1, itemsPerHour))
+}
+
+function batchGroupKey(batchId: number): string {
+  return `batch:${batchId}`
+}
+
+// `requeue` replaces the item's finished job (retried items, resumed batches)
+function enqueueBatchItem(batch: BatchJob, item: BatchJobItem, requeue = false): void {
+  enqueueJob({
+    type: "batch_item",
+    userId: batch.user_id,
+    payload: { batchId: batch.id, itemId: item.id } satisfies BatchItemJobPayload,
+    dedupeKey: `batch_item:${item.id}`,
+    groupKey: batchGroupKey(batch.id),
+    requeueFinished: requeue,
+  })
 }
-let pendingSyncs: PendingSync[] = []
+
+registerJobHandler("batch_item", {
+  userIntervalMs: getBatchItemIntervalMs,
+  isPermanentFailure: error => PERMANENT_FAILURE_REASONS.includes(classifyBatchFailure(error)),
+  run: async (job) => {
+    const { batchId, itemId } = parseJobPayload<BatchItemJobPayload>(job)
+    const batch = batchJobQueries.findById.get(batchId)
+    const item = batchJobItemQueries.findById.get(itemId)
+
+    // Cancelled, paused or deleted since it was queued; a paused item is queued again on resume
+    if (
+      !batch || !item
+      || batch.status === "cancelled" || batch.status === "paused"
+      || (item.status !== "pending" && item.status !== "processing")
+    ) {
+      log("DEBUG", "Skipping batch item job", { jobId: job.id, batchId, itemId })
+      return
+    }
+
+    // Mark as processing if still pending
+    if (batch.status === "pending") {
+      batchJobQueries.updateStarted.run(batch.id)
+    }
+
+    await processBatchItem(batch, item)
+    finishBatchIfDone(batch.id)
+    publishBatchUpdate(batch.id, item.id)
+  },
+  onDeadLetter: (job, error) => {
+    const { batchId, itemId } = parseJobPayload<BatchItemJobPayload>(job)
+
+    // Update item as failed
+    batchJobItemQueries.markFailed.run(error, classifyBatchFailure(error), itemId)
+
+    // Update batch progress atomically
+    batchJobQueries.incrementFailed.run(batchId)
+    finishBatchIfDone(batchId)
+    publishBatchUpdate(batchId, itemId)
+  },
+})
+
+registerJobHandler("trmnl_sync", {
+  minIntervalMs: TRMNL_SYNC_DELAY_MS,
+  run: async (job) => {
+    const sync = parseJobPayload<TrmnlSyncJobPayload>(job)
+    const result = await syncToTrmnl(sync.imageUrl, sync.prompt, sync.userId, sync.deviceIds)
+
+    // Retry when nothing was delivered; a device whose webhook failed doesn't resend to the others
+    if (!result.success && !result.deviceResults) {
+      throw new Error(result.error || "TRMNL sync failed")
+    }
+    if (!result.success) {
+      log("WARN", "Batch image synced to some TRMNL devices only", { batchId: sync.batchId, itemId: sync.itemId })
+    }
+
+    // Mark the item as synced to TRMNL
+    batchJobItemQueries.markSyncedToTrmnl.run(sync.itemId)
+    log("INFO", "Batch image synced to TRMNL", { batchId: sync.batchId, itemId: sync.itemId })
+  },
+})
 
 // Start the batch processor
 export function startBatchProcessor(intervalMs: number = 5000): void {
@@ -84,18 +202,26 @@ export function startBatchProcessor(intervalMs: number = 5000): void {
     return
   }
 
-  // Check for any in-progress batches that need to be resumed (e.g., after server restart)
-  const pendingBatch = batchJobQueries.findPending.get()
-  if (pendingBatch) {
-    log("INFO", "Found in-progress batch job to resume", { 
-      batchId: pendingBatch.id, 
-      status: pendingBatch.status,
-      completed: pendingBatch.completed_count,
-      total: pendingBatch.total_count
+  // Queue items of batches created before the job queue existed; already queued items are skipped
+  for (const batch of batchJobQueries.findActive.all()) {
+    const items = batchJobItemQueries.findByBatchId.all(batch.id)
+      .filter(item => item.status === "pending" || item.status === "processing")
+    items.forEach(item => enqueueBatchItem(batch, item))
+    log("INFO", "Found in-progress batch job to resume", {
+      batchId: batch.id,
+      status: batch.status,
+      completed: batch.completed_count,
+      total: batch.total_count,
+      remaining: items.length,
     })
   }
 
-  log("INFO", "Starting batch processor", { intervalMs, rateLimitDelayMs: RATE_LIMIT_DELAY_MS, trmnlSyncDelayMs: TRMNL_SYNC_DELAY_MS })
+  log("INFO", "Starting batch processor", {
+    intervalMs,
+    freeItemsPerHour: config.batch.freeItemsPerHour,
+    subscriberItemsPerHour: config.batch.subscriberItemsPerHour,
+    trmnlSyncDelayMs: TRMNL_SYNC_DELAY_MS,
+  })
 
   processorInterval = setInterval(async () => {
     await processPendingSyncs()
@@ -116,274 +242,300 @@ export function stopBatchProcessor(): void {
   }
 }
 
-// Process pending TRMNL syncs with 10-minute delay between each
-async function processPendingSyncs(): Promise<void> {
-  if (pendingSyncs.length === 0) {
-    return
-  }
-
-  const now = Date.now()
-  const timeSinceLastSync = now - lastSyncToTrmnlAt
-
-  // Check if 10 minutes have passed since last sync
-  if (lastSyncToTrmnlAt > 0 && timeSinceLastSync < TRMNL_SYNC_DELAY_MS) {
-    const remainingMs = TRMNL_SYNC_DELAY_MS - timeSinceLastSync
-    const remainingMin = Math.ceil(remainingMs / 60000)
-    log("DEBUG", `TRMNL sync delayed, ${remainingMin} min remaining`, { 
-      pendingCount: pendingSyncs.length 
-    })
-    return
+// Process queued TRMNL syncs (at most one per 10 minutes)
+export async function processPendingSyncs(): Promise<void> {
+  try {
+    await runQueuedJobs("trmnl_sync")
+  } catch (error) {
+    log("ERROR", "Error in TRMNL sync processor", error)
   }
+}
 
-  // Process the next sync in queue
-  const sync = pendingSyncs.shift()
-  if (!sync) return
-
+// Process queued batch items, taking turns between users within their plan budgets (exported for tests)
+export async function processPendingBatches(): Promise<void> {
   try {
-    await syncToTrmnl(sync.imageUrl, sync.prompt, sync.userId)
-    lastSyncToTrmnlAt = Date.now()
-    // Mark the item as synced to TRMNL
-    batchJobItemQueries.markSyncedToTrmnl.run(sync.itemId)
-    log("INFO", "Batch image synced to TRMNL (delayed)", { 
-      batchId: sync.batchId, 
-      itemId: sync.itemId,
-      remainingInQueue: pendingSyncs.length
-    })
-  } catch (syncError) {
-    log("WARN", "Failed to sync batch image to TRMNL", syncError)
+    await runQueuedJobs("batch_item")
+  } catch (error) {
+    log("ERROR", "Error in batch processor", error)
   }
 }
 
-// Process pending batch jobs
-async function processPendingBatches(): Promise<void> {
-  if (isProcessing) {
+// Mark a batch completed or failed once none of its items are left to run
+function finishBatchIfDone(batchId: number): void {
+  if (batchJobItemQueries.findPendingByBatchId.get(batchId)) {
     return
   }
 
-  // Rate limiting: Check if 30 seconds have passed since last image generation
-  const now = Date.now()
-  const timeSinceLastGeneration = now - lastImageGeneratedAt
-  if (lastImageGeneratedAt > 0 && timeSinceLastGeneration < RATE_LIMIT_DELAY_MS) {
-    // Not enough time has passed, skip this cycle
+  // Fetch fresh batch data to get accurate counts
+  const freshBatch = batchJobQueries.findById.get(batchId)
+  if (!freshBatch || (freshBatch.status !== "pending" && freshBatch.status !== "processing")) {
     return
   }
 
-  try {
-    isProcessing = true
-
-    // Find the next pending or in-progress batch
-    const batch = batchJobQueries.findPending.get()
-    if (!batch) {
-      return
-    }
-
-    log("INFO", "Processing batch job", { batchId: batch.id, status: batch.status })
+  // Determine status based on fresh counts
+  const status = freshBatch.failed_count > 0 && freshBatch.completed_count === 0
+    ? "failed"
+    : "completed"
+  batchJobQueries.updateCompleted.run(status, batchId)
+  log("INFO", "Batch job completed", {
+    batchId,
+    status,
+    completed: freshBatch.completed_count,
+    failed: freshBatch.failed_count
+  })
 
-    // Mark as processing if still pending
-    if (batch.status === "pending") {
-      batchJobQueries.updateStarted.run(batch.id)
-    }
+  void notifyBatchFinished({ ...freshBatch, status })
+}
 
-    // Process the next pending item in this batch
-    await processNextBatchItem(batch)
+// Push the batch's progress, and a finished item, to the user's event streams
+function publishBatchUpdate(batchId: number, itemId?: number): void {
+  const batch = batchJobQueries.findById.get(batchId)
+  if (!batch) return
 
-  } catch (error) {
-    log("ERROR", "Error in batch processor", error)
-  } finally {
-    isProcessing = false
+  const item = itemId !== undefined ? batchJobItemQueries.findById.get(itemId) : null
+  if (item) {
+    publishUserEvent(batch.user_id, { type: "batch.item", batchId, item: transformBatchItem(item) })
   }
+  publishUserEvent(batch.user_id, {
+    type: "batch.progress",
+    batchId,
+    status: batch.status,
+    completed: batch.completed_count,
+    failed: batch.failed_count,
+    total: batch.total_count,
+    estimatedCompletionAt: estimateBatchCompletion(batch),
+  })
 }
 
-// Process the next item in a batch
-async function processNextBatchItem(batch: BatchJob): Promise<void> {
-  const item = batchJobItemQueries.findPendingByBatchId.get(batch.id)
+// Generate one batch item. Throws on failure so the queue can retry it.
+async function processBatchItem(batch: BatchJob, item: BatchJobItem): Promise<void> {
+  log("INFO", "Processing batch item", { batchId: batch.id, itemId: item.id })
 
-  if (!item) {
-    // No more items to process - fetch fresh batch data to get accurate counts
-    const freshBatch = batchJobQueries.findById.get(batch.id)
-    if (!freshBatch) {
-      log("ERROR", "Batch not found when trying to mark as complete", { batchId: batch.id })
-      return
-    }
+  // Imported items can override the batch's size and style
+  const size = item.size || batch.size
+  const preset = requireStylePreset(item.style_preset || batch.style_preset, batch.user_id)
 
-    // Determine status based on fresh counts
-    const status = freshBatch.failed_count > 0 && freshBatch.completed_count === 0
-      ? "failed"
-      : "completed"
-    batchJobQueries.updateCompleted.run(status, batch.id)
-    log("INFO", "Batch job completed", {
-      batchId: batch.id,
-      status,
-      completed: freshBatch.completed_count,
-      failed: freshBatch.failed_count
-    })
-    return
+  // Generate the image with the batch's provider (or the server default)
+  const provider = resolveImageProvider(batch.provider)
+  if ("error" in provider) {
+    throw new Error(provider.error)
   }
 
-  log("INFO", "Processing batch item", { batchId: batch.id, itemId: item.id })
+  const options: ProviderGenerateOptions = {
+    prompt: applyStylePreset(item.prompt, preset),
+    negativePrompt: getPresetNegativePrompt(null, preset, provider),
+    model: "dall-e-3",
+    size: size as any,
+    quality: preset?.quality || undefined,
+    style: preset?.style || undefined,
+    responseFormat: "url",
+    usage: { userId: batch.user_id, source: "batch", sourceId: batch.id },
+  }
 
-  try {
-    // Apply style preset
-    const styledPrompt = applyStylePreset(item.prompt, batch.style_preset)
-
-    // Generate the image
-    const options: GenerateImageOptions = {
-      prompt: styledPrompt,
-      model: "dall-e-3",
-      size: batch.size as any,
-      response_format: "url",
-    }
+  const quotaPeriod = getQuotaPeriod()
+  const denied = consumeQuota(batch.user_id, "images", 1, quotaPeriod)
+  if (denied) {
+    throw new Error(denied.error)
+  }
 
-    const result = await generateImage(options)
-    
-    // Update rate limit timestamp after API call
-    lastImageGeneratedAt = Date.now()
+  // A failure anywhere past this point (provider, gallery save, sync) makes the queue retry
+  // the item, which generates and charges for it again, so this attempt's quota goes back
+  try {
+    await generateBatchItem(batch, item, provider, options)
+  } catch (error) {
+    refundQuota(batch.user_id, "images", quotaPeriod)
+    throw error
+  }
+}
 
-    if (!result.data?.[0]?.url) {
-      throw new Error("No image URL in response")
-    }
+// Generate a batch item's image, save it to the gallery and queue its sync
+async function generateBatchItem(
+  batch: BatchJob,
+  item: BatchJobItem,
+  provider: ImageProvider,
+  options: ProviderGenerateOptions
+): Promise<void> {
+  const size = item.size || batch.size
+  const result = await provider.generate(options)
+
+  if (!result.data?.[0]?.url) {
+    throw new Error("No image URL in response")
+  }
 
-    // Save to gallery
-    const galleryImage = generatedImageQueries.create.get(
-      batch.user_id,
-      result.data[0].url, // Temporary URL
-      item.prompt,
-      result.data[0].revised_prompt || null,
-      "dall-e-3",
-      batch.size,
-      null, // style (DALL-E style param)
-      0, // is_edit
-      null // parent_image_id
-    )
+  // Save to gallery
+  const galleryImage = generatedImageQueries.create.get(
+    batch.user_id,
+    result.data[0].url, // Temporary URL
+    item.prompt,
+    result.data[0].revised_prompt || null,
+    provider.getModel({ model: options.model }),
+    size,
+    null, // style (DALL-E style param)
+    0, // is_edit
+    null // parent_image_id
+  )
 
-    if (!galleryImage) {
-      throw new Error("Failed to create gallery record")
-    }
+  if (!galleryImage) {
+    throw new Error("Failed to create gallery record")
+  }
 
-    // Download and save the image
-    await saveImageToGallery(result.data[0].url, batch.user_id, galleryImage.id)
-    
-    // Update the database with the permanent URL (replace expired DALL-E URL)
-    const permanentUrl = getGalleryImageUrl(galleryImage.id)
-    generatedImageQueries.updateImageUrl.run(permanentUrl, galleryImage.id)
-
-    // Auto-sync to TRMNL if enabled
-    if (batch.auto_sync_trmnl === 1) {
-      // First image syncs immediately, subsequent ones are queued with 10-min delay
-      if (lastSyncToTrmnlAt === 0) {
-        // First sync - do it immediately
-        try {
-          await syncToTrmnl(permanentUrl, item.prompt, batch.user_id)
-          lastSyncToTrmnlAt = Date.now()
-          // Mark the item as synced to TRMNL
-          batchJobItemQueries.markSyncedToTrmnl.run(item.id)
-          log("INFO", "Batch image synced to TRMNL (first/immediate)", { 
-            batchId: batch.id, 
-            itemId: item.id,
-            imageId: galleryImage.id 
-          })
-        } catch (syncError) {
-          log("WARN", "Failed to sync batch image to TRMNL", syncError)
-        }
-      } else {
-        // Queue for delayed sync (10 min between each)
-        pendingSyncs.push({
-          imageUrl: permanentUrl,
-          prompt: item.prompt,
-          userId: batch.user_id,
-          batchId: batch.id,
-          itemId: item.id
-        })
-        log("INFO", "Batch image queued for TRMNL sync", { 
-          batchId: batch.id, 
-          itemId: item.id,
-          imageId: galleryImage.id,
-          queuePosition: pendingSyncs.length
-        })
-      }
-    }
+  // Download and save the image
+  await saveImageToGallery(result.data[0].url, batch.user_id, galleryImage.id)
 
-    // Update item as completed
-    batchJobItemQueries.updateCompleted.run("completed", galleryImage.id, null, item.id)
+  // Update the database with the permanent URL (replace expired DALL-E URL)
+  const permanentUrl = getGalleryImageUrl(galleryImage.id)
+  generatedImageQueries.updateImageUrl.run(permanentUrl, galleryImage.id)
 
-    // Update batch progress atomically
-    batchJobQueries.incrementCompleted.run(batch.id)
+  if (item.collection_id) {
+    addToCollection(batch.user_id, item.collection_id, galleryImage.id)
+  }
 
-    log("INFO", "Batch item completed", {
+  // Sync to the item's device, or to every device if auto-sync is enabled;
+  // syncs are staggered 10 minutes apart by the queue
+  const targetDevice = item.device_id ? userDeviceQueries.findByIdAndUserId.get(item.device_id, batch.user_id) : null
+  if (item.device_id && !targetDevice) {
+    log("WARN", "Batch item device no longer exists, skipping sync", { batchId: batch.id, itemId: item.id, deviceId: item.device_id })
+  }
+  if (targetDevice || (!item.device_id && batch.auto_sync_trmnl === 1)) {
+    enqueueJob({
+      type: "trmnl_sync",
+      userId: batch.user_id,
+      payload: {
+        imageUrl: permanentUrl,
+        prompt: item.prompt,
+        userId: batch.user_id,
+        batchId: batch.id,
+        itemId: item.id,
+        deviceIds: targetDevice ? [targetDevice.id] : undefined,
+      } satisfies TrmnlSyncJobPayload,
+      dedupeKey: `trmnl_sync:${item.id}`,
+    })
+    log("INFO", "Batch image queued for TRMNL sync", {
       batchId: batch.id,
       itemId: item.id,
-      imageId: galleryImage.id
+      imageId: galleryImage.id,
+      deviceId: targetDevice?.id,
     })
+  }
 
-  } catch (error) {
-    // Update rate limit timestamp even on failure (API call was still made)
-    lastImageGeneratedAt = Date.now()
-    
-    const errorMessage = String(error)
-    log("ERROR", "Failed to process batch item", { 
-      batchId: batch.id, 
-      itemId: item.id, 
-      error: errorMessage 
-    })
+  // Update item as completed
+  batchJobItemQueries.updateCompleted.run("completed", galleryImage.id, null, item.id)
 
-    // Update item as failed
-    batchJobItemQueries.updateCompleted.run("failed", null, errorMessage, item.id)
+  // Update batch progress atomically
+  batchJobQueries.incrementCompleted.run(batch.id)
 
-    // Update batch progress atomically
-    batchJobQueries.incrementFailed.run(batch.id)
+  log("INFO", "Batch item completed", {
+    batchId: batch.id,
+    itemId: item.id,
+    imageId: galleryImage.id
+  })
+}
+
+// Add a batch image to the item's target collection, if it still exists
+function addToCollection(userId: number, collectionId: number, imageId: number): void {
+  const collection = collectionQueries.findByIdAndUserId.get(collectionId, userId)
+  if (!collection) {
+    log("WARN", "Batch item collection no longer exists", { userId, collectionId, imageId })
+    return
   }
+  collectionImageQueries.addImage.get(collectionId, imageId)
+  // Update collection's updated_at
+  collectionQueries.update.run(collection.name, collection.description, collectionId, userId)
+}
+
+// One batch item with optional per-item settings (imported batches)
+export interface BatchJobItemInput {
+  prompt: string
+  size?: string | null
+  stylePreset?: string | null
+  collectionId?: number | null
+  deviceId?: number | null
 }
 
 // Create a new batch job
 export interface CreateBatchJobInput {
   userId: number
   name?: string | null
-  prompts: string[]
+  prompts?: string[]
+  // Imported or matrix items; replaces `prompts` and allows up to MAX_IMPORTED_BATCH_SIZE
+  items?: BatchJobItemInput[]
+  matrix?: PromptMatrix
   size: string
   stylePreset?: string | null
+  provider?: string | null
   autoSyncTrmnl?: boolean
 }
 
-export function createBatchJob(input: CreateBatchJobInput): BatchJob | null {
-  const { userId, name, prompts, size, stylePreset, autoSyncTrmnl = false } = input
+export function createBatchJob(input: CreateBatchJobInput): BatchJobResponse | null {
+  const { userId, name, prompts = [], size, stylePreset, provider, autoSyncTrmnl = false } = input
+  const maxItems = input.items ? MAX_IMPORTED_BATCH_SIZE : MAX_BATCH_SIZE
+  const items: BatchJobItemInput[] = input.items ?? prompts.map(prompt => ({ prompt }))
 
-  if (prompts.length === 0) {
+  if (items.length === 0) {
     throw new Error("At least one prompt is required")
   }
 
-  if (prompts.length > MAX_BATCH_SIZE) {
-    throw new Error(`Maximum ${MAX_BATCH_SIZE} prompts allowed per batch`)
+  if (items.length > maxItems) {
+    throw new Error(`Maximum ${maxItems} prompts allowed per batch`)
   }
 
   // Validate prompts are not empty
-  const validPrompts = prompts.filter(p => p.trim().length > 0)
-  if (validPrompts.length === 0) {
+  const validItems = items.filter(item => item.prompt.trim().length > 0)
+  if (validItems.length === 0) {
     throw new Error("At least one non-empty prompt is required")
   }
 
+  for (const styleKey of new Set([stylePreset, ...validItems.map(item => item.stylePreset)])) {
+    const styleError = validateStylePreset(styleKey, userId)
+    if (styleError) {
+      throw new Error(styleError)
+    }
+  }
+
+  for (const itemSize of new Set([size, ...validItems.map(item => item.size || size)])) {
+    const providerError = validateJobProvider(provider, itemSize)
+    if (providerError) {
+      throw new Error(providerError)
+    }
+  }
+
   // Create the batch job
   const batch = batchJobQueries.create.get(
     userId,
     name || null,
-    validPrompts.length,
+    validItems.length,
     size,
     stylePreset || null,
-    autoSyncTrmnl ? 1 : 0
+    autoSyncTrmnl ? 1 : 0,
+    provider || null,
+    input.matrix ? JSON.stringify(input.matrix) : null
   )
 
   if (!batch) {
     throw new Error("Failed to create batch job")
   }
 
-  // Create items for each prompt
-  for (const prompt of validPrompts) {
-    batchJobItemQueries.create.get(batch.id, prompt.trim())
+  // Create and queue items for each prompt
+  for (const input of validItems) {
+    const item = batchJobItemQueries.create.get(
+      batch.id,
+      input.prompt.trim(),
+      input.size || null,
+      input.stylePreset || null,
+      input.collectionId ?? null,
+      input.deviceId ?? null
+    )
+    if (item) {
+      enqueueBatchItem(batch, item)
+    }
   }
 
   log("INFO", "Batch job created", {
     batchId: batch.id,
     userId,
-    totalPrompts: validPrompts.length,
+    totalPrompts: validItems.length,
+    imported: Boolean(input.items),
+    matrix: Boolean(input.matrix),
     stylePreset,
     autoSyncTrmnl
   })
@@ -392,8 +544,19 @@ export function createBatchJob(input: CreateBatchJobInput): BatchJob | null {
 }
 
 // Get batch job with items
-export interface BatchJobWithItems extends BatchJob {
+export interface BatchJobWithItems extends BatchJobResponse {
   items: BatchJobItem[]
+  // When the remaining items should be done; null once the batch has finished
+  estimated_completion_at: string | null
+}
+
+// Estimated finish time of a pending or processing batch
+export function estimateBatchCompletion(batch: BatchJob): string | null {
+  if (batch.status !== "pending" && batch.status !== "processing") {
+    return null
+  }
+  const remaining = batch.total_count - batch.completed_count - batch.failed_count
+  return estimateCompletion("batch_item", batch.user_id, remaining)?.toISOString() ?? null
 }
 
 export function getBatchJobWithItems(batchId: number, userId: number): BatchJobWithItems | null {
@@ -406,11 +569,12 @@ export function getBatchJobWithItems(batchId: number, userId: number): BatchJobW
   return {
     ...transformBatchJob(batch),
     items: items.map(transformBatchItem),
+    estimated_completion_at: estimateBatchCompletion(batch),
   }
 }
 
 // Get all batch jobs for a user
-export function getUserBatchJobs(userId: number): BatchJob[] {
+export function getUserBatchJobs(userId: number): BatchJobResponse[] {
   return batchJobQueries.findAllByUserId.all(userId).map(transformBatchJob)
 }
 
@@ -419,13 +583,47 @@ export function getUserBatchJobsPaginated(
   userId: number,
   limit: number,
   offset: number
-): { batches: BatchJob[]; total: number } {
+): { batches: BatchJobResponse[]; total: number } {
   const batches = batchJobQueries.findAllByUserIdPaginated.all(userId, limit, offset).map(transformBatchJob)
   const countResult = batchJobQueries.countByUserId.get(userId)
   const total = countResult?.count || 0
   return { batches, total }
 }
 
+// Pick a matrix result as a winner: favorite its image and/or add it to a collection
+export function pickBatchItem(
+  batchId: number,
+  itemId: number,
+  userId: number,
+  options: { favorite?: boolean; collectionId?: number | null }
+): { item: BatchJobItem } | { error: string } {
+  const batch = batchJobQueries.findByIdAndUserId.get(batchId, userId)
+  const item = batchJobItemQueries.findById.get(itemId)
+  if (!batch || !item || item.batch_id !== batch.id) {
+    return { error: "Batch item not found" }
+  }
+  if (!item.image_id) {
+    return { error: "This item has no image yet" }
+  }
+  if (!options.favorite && !options.collectionId) {
+    return { error: "Choose favorite or a collection" }
+  }
+  if (options.collectionId && !collectionQueries.findByIdAndUserId.get(options.collectionId, userId)) {
+    return { error: "Collection not found" }
+  }
+
+  if (options.favorite) {
+    generatedImageQueries.updateFavorite.run(1, item.image_id, userId)
+  }
+  if (options.collectionId) {
+    addToCollection(userId, options.collectionId, item.image_id)
+  }
+  batchJobItemQueries.markPicked.run(item.id, batch.id)
+
+  log("INFO", "Batch item picked", { batchId, itemId, favorite: Boolean(options.favorite), collectionId: options.collectionId })
+  return { item: transformBatchItem(batchJobItemQueries.findById.get(item.id)!) }
+}
+
 // Cancel a batch job
 export function cancelBatchJob(batchId: number, userId: number): boolean {
   const batch = batchJobQueries.findByIdAndUserId.get(batchId, userId)
@@ -438,10 +636,105 @@ export function cancelBatchJob(batchId: number, userId: number): boolean {
   }
 
   batchJobQueries.updateStatus.run("cancelled", batch.id)
+  cancelQueuedJobs(batchGroupKey(batch.id))
+  publishBatchUpdate(batch.id)
   log("INFO", "Batch job cancelled", { batchId })
   return true
 }
 
+// Pause a batch: queued items are dropped and queued again on resume; a running item finishes
+export function pauseBatchJob(batchId: number, userId: number): boolean {
+  const batch = batchJobQueries.findByIdAndUserId.get(batchId, userId)
+  if (!batch || (batch.status !== "pending" && batch.status !== "processing")) {
+    return false
+  }
+
+  batchJobQueries.updateStatus.run("paused", batch.id)
+  cancelQueuedJobs(batchGroupKey(batch.id))
+  publishBatchUpdate(batch.id)
+  log("INFO", "Batch job paused", { batchId })
+  return true
+}
+
+// Resume a paused batch from its remaining items
+export function resumeBatchJob(batchId: number, userId: number): boolean {
+  const batch = batchJobQueries.findByIdAndUserId.get(batchId, userId)
+  if (!batch || batch.status !== "paused") {
+    return false
+  }
+
+  batchJobQueries.updateStatus.run(batch.started_at ? "processing" : "pending", batch.id)
+  const items = batchJobItemQueries.findByBatchId.all(batch.id)
+    .filter(item => item.status === "pending" || item.status === "processing")
+  items.forEach(item => enqueueBatchItem(batch, item, true))
+  finishBatchIfDone(batch.id)
+  publishBatchUpdate(batch.id)
+
+  log("INFO", "Batch job resumed", { batchId, remaining: items.length })
+  return true
+}
+
+// Retry failed items (all of them, or the given ones); a paused batch runs them on resume
+export function retryBatchItems(
+  batchId: number,
+  userId: number,
+  itemIds?: number[]
+): { retried: number } | { error: string } {
+  const batch = batchJobQueries.findByIdAndUserId.get(batchId, userId)
+  if (!batch) {
+    return { error: "Batch job not found" }
+  }
+  if (batch.status === "cancelled") {
+    return { error: "Cancelled batches can't be retried" }
+  }
+
+  const items = batchJobItemQueries.findByBatchId.all(batch.id)
+  const selected = itemIds ? items.filter(item => itemIds.includes(item.id)) : items.filter(item => item.status === "failed")
+  if (itemIds && (selected.length !== new Set(itemIds).size || selected.some(item => item.status !== "failed"))) {
+    return { error: "Only failed items of this batch can be retried" }
+  }
+  if (selected.length === 0) {
+    return { error: "No failed items to retry" }
+  }
+
+  db.transaction(() => {
+    selected.forEach(item => batchJobItemQueries.resetForRetry.run(item.id))
+    batchJobQueries.reopenForRetry.run(selected.length, batch.id)
+  })()
+
+  if (batch.status !== "paused") {
+    selected.forEach(item => enqueueBatchItem(batch, item, true))
+  }
+  publishBatchUpdate(batch.id)
+
+  log("INFO", "Batch items retried", { batchId, itemIds: selected.map(item => item.id) })
+  return { retried: selected.length }
+}
+
+// Edit a failed item's prompt before retrying it
+export function updateBatchItemPrompt(
+  batchId: number,
+  itemId: number,
+  userId: number,
+  prompt: unknown
+): { item: BatchJobItem } | { error: string } {
+  const batch = batchJobQueries.findByIdAndUserId.get(batchId, userId)
+  const item = batchJobItemQueries.findById.get(itemId)
+  if (!batch || !item || item.batch_id !== batch.id) {
+    return { error: "Batch item not found" }
+  }
+  if (item.status !== "failed") {
+    return { error: "Only failed items can be edited" }
+  }
+  if (typeof prompt !== "string" || prompt.trim().length === 0) {
+    return { error: "Prompt is required" }
+  }
+
+  batchJobItemQueries.updatePrompt.run(prompt.trim(), item.id)
+  log("INFO", "Batch item prompt updated", { batchId, itemId })
+  return { item: transformBatchItem(batchJobItemQueries.findById.get(item.id)!) }
+}
+
 // Delete a batch job
 export function deleteBatchJob(batchId: number, userId: number): boolean {
   const batch = batchJobQueries.findByIdAndUserId.get(batchId, userId)
@@ -0,0 +1,125 @@
+import {
+  db,
+  conversationQueries,
+  conversationMessageQueries,
+  generatedImageQueries,
+  type ConversationMessage,
+} from "../db"
+
+export const CONVERSATION_MESSAGE_TYPES = ["user", "assistant"] as const
+
+export type ConversationMessageType = typeof CONVERSATION_MESSAGE_TYPES[number]
+
+export const MAX_CONVERSATIONS_LISTED = 100
+export const MAX_CONVERSATION_TITLE_LENGTH = 100
+export const MAX_CONVERSATION_MESSAGES = 500
+export const MAX_MESSAGES_PER_REQUEST = 100
+export const MAX_MESSAGE_CONTENT_LENGTH = 10000
+export const MAX_MESSAGE_IMAGE_URL_LENGTH = 2048
+
+export interface ConversationMessageInput {
+  type: ConversationMessageType
+  content: string
+  imageUrl: string | null
+  imageId: number | null
+}
+
+export function isConversationMessageType(value: unknown): value is ConversationMessageType {
+  return typeof value === "string" && (CONVERSATION_MESSAGE_TYPES as readonly string[]).includes(value)
+}
+
+// Titles come from the first user prompt until the conversation is renamed
+export function deriveConversationTitle(messages: ConversationMessageInput[]): string {
+  const firstPrompt = messages.find(message => message.type === "user")?.content.replace(/\s+/g, " ").trim()
+  if (!firstPrompt) return "New conversation"
+  return firstPrompt.length > MAX_CONVERSATION_TITLE_LENGTH
+    ? firstPrompt.slice(0, MAX_CONVERSATION_TITLE_LENGTH - 1).trimEnd() + "…"
+    : firstPrompt
+}
+
+export function normalizeConversationTitle(title: unknown): string | { error: string } {
+  if (typeof title !== "string" || !title.trim()) {
+    return { error: "Title is required" }
+  }
+  const trimmed = title.replace(/\s+/g, " ").trim()
+  if (trimmed.length > MAX_CONVERSATION_TITLE_LENGTH) {
+    return { error: `Title must be at most ${MAX_CONVERSATION_TITLE_LENGTH} characters` }
+  }
+  return trimmed
+}
+
+// Browser-only URLs (blob:, data:) can't be shown on another device, so they aren't stored
+function normalizeImageUrl(value: unknown): string | null {
+  if (typeof value !== "string" || value.length > MAX_MESSAGE_IMAGE_URL_LENGTH) return null
+  return value.startsWith("/") || /^https?:\/\//i.test(value) ? value : null
+}
+
+// Validate messages sent by the client. Image IDs that aren't the user's gallery images are dropped.
+export function normalizeConversationMessages(
+  messages: unknown,
+  userId: number
+): ConversationMessageInput[] | { error: string } {
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return { error: "messages must be a non-empty array" }
+  }
+  if (messages.length > MAX_MESSAGES_PER_REQUEST) {
+    return { error: `At most ${MAX_MESSAGES_PER_REQUEST} messages can be saved at once` }
+  }
+
+  const normalized: ConversationMessageInput[] = []
+  for (const message of messages) {
+    const { type, content, imageUrl, imageId } = (message ?? {}) as Record<string, unknown>
+    if (!isConversationMessageType(type)) {
+      return { error: `Message type must be one of: ${CONVERSATION_MESSAGE_TYPES.join(", ")}` }
+    }
+    if (typeof content !== "string") {
+      return { error: "Message content must be a string" }
+    }
+    if (content.length > MAX_MESSAGE_CONTENT_LENGTH) {
+      return { error: `Message content must be at most ${MAX_MESSAGE_CONTENT_LENGTH} characters` }
+    }
+
+    const galleryImage = typeof imageId === "number" && Number.isInteger(imageId)
+      ? generatedImageQueries.findByIdAndUserId.get(imageId, userId)
+      : null
+
+    normalized.push({
+      type,
+      content,
+      imageUrl: normalizeImageUrl(imageUrl),
+      imageId: galleryImage ? galleryImage.id : null,
+    })
+  }
+
+  return normalized
+}
+
+// Append messages to a conversation and bump it to the top of the list
+export function appendConversationMessages(
+  conversationId: number,
+  messages: ConversationMessageInput[]
+): ConversationMessage[] {
+  const insertMessages = db.transaction(() => {
+    const created = messages.map(message =>
+      conversationMessageQueries.create.get(
+        conversationId,
+        message.type,
+        message.content,
+        message.imageUrl,
+        message.imageId
+      )!
+    )
+    conversationQueries.touch.run(conversationId)
+    return created
+  })
+  return insertMessages()
+}
+
+// Remove a conversation and its messages
+export function deleteConversation(conversationId: number, userId: number): void {
+  const removeConversation = db.transaction(() => {
+    conversationMessageQueries.deleteByConversationId.run(conversationId)
+    conversationQueries.delete.run(conversationId, userId)
+  })
+  removeConversation()
+}
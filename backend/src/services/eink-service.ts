@@ -0,0 +1,223 @@
+import sharp from "sharp"
+import { log } from "../utils"
+
+// TRMNL panels are 800x480 natively; portrait devices are the same panel mounted sideways
+export const EINK_PANEL_WIDTH = 800
+export const EINK_PANEL_HEIGHT = 480
+
+export const DITHER_ALGORITHMS = ["floyd-steinberg", "atkinson", "ordered", "none"] as const
+export const EINK_BIT_DEPTHS = [1, 2] as const
+export const EINK_ORIENTATIONS = ["landscape", "portrait", "landscape-flipped", "portrait-flipped"] as const
+export const EINK_FITS = ["cover", "contain"] as const
+
+export type DitherAlgorithm = typeof DITHER_ALGORITHMS[number]
+export type EinkBitDepth = typeof EINK_BIT_DEPTHS[number]
+export type EinkOrientation = typeof EINK_ORIENTATIONS[number]
+export type EinkFit = typeof EINK_FITS[number]
+
+export interface EinkRenderOptions {
+  dither: DitherAlgorithm
+  bitDepth: EinkBitDepth
+  orientation: EinkOrientation
+  fit: EinkFit
+  background: "black" | "white"
+}
+
+export const DEFAULT_EINK_OPTIONS: EinkRenderOptions = {
+  dither: "floyd-steinberg",
+  bitDepth: 1,
+  orientation: "landscape",
+  fit: "cover",
+  background: "black",
+}
+
+// Subset of user_devices columns the renderer cares about
+export interface EinkDeviceSettings {
+  eink_dither: string | null
+  eink_bit_depth: number | null
+  eink_orientation: string | null
+  eink_fit: string | null
+  background_color: "black" | "white"
+}
+
+export function isDitherAlgorithm(value: unknown): value is DitherAlgorithm {
+  return typeof value === "string" && (DITHER_ALGORITHMS as readonly string[]).includes(value)
+}
+
+export function isEinkBitDepth(value: unknown): value is EinkBitDepth {
+  return typeof value === "number" && (EINK_BIT_DEPTHS as readonly number[]).includes(value)
+}
+
+export function isEinkOrientation(value: unknown): value is EinkOrientation {
+  return typeof value === "string" && (EINK_ORIENTATIONS as readonly string[]).includes(value)
+}
+
+export function isEinkFit(value: unknown): value is EinkFit {
+  return typeof value === "string" && (EINK_FITS as readonly string[]).includes(value)
+}
+
+// Build render options from a device row, falling back to defaults for unknown values
+export function getDeviceEinkOptions(device: EinkDeviceSettings): EinkRenderOptions {
+  return {
+    dither: isDitherAlgorithm(device.eink_dither) ? device.eink_dither : DEFAULT_EINK_OPTIONS.dither,
+    bitDepth: isEinkBitDepth(device.eink_bit_depth) ? device.eink_bit_depth : DEFAULT_EINK_OPTIONS.bitDepth,
+    orientation: isEinkOrientation(device.eink_orientation) ? device.eink_orientation : DEFAULT_EINK_OPTIONS.orientation,
+    fit: isEinkFit(device.eink_fit) ? device.eink_fit : DEFAULT_EINK_OPTIONS.fit,
+    background: device.background_color === "white" ? "white" : "black",
+  }
+}
+
+// Canvas size the image is composed at before rotating onto the native panel
+function getLogicalSize(orientation: EinkOrientation): { width: number; height: number } {
+  return orientation === "portrait" || orientation === "portrait-flipped"
+    ? { width: EINK_PANEL_HEIGHT, height: EINK_PANEL_WIDTH }
+    : { width: EINK_PANEL_WIDTH, height: EINK_PANEL_HEIGHT }
+}
+
+function getRotation(orientation: EinkOrientation): number {
+  switch (orientation) {
+    case "portrait": return 90
+    case "landscape-flipped": return 180
+    case "portrait-flipped": return 270
+    default: return 0
+  }
+}
+
+// Error diffusion kernels as [dx, dy, weight]
+const FLOYD_STEINBERG_KERNEL: Array<[number, number, number]> = [
+  [1, 0, 7 / 16],
+  [-1, 1, 3 / 16],
+  [0, 1, 5 / 16],
+  [1, 1, 1 / 16],
+]
+
+// Atkinson only diffuses 6/8 of the error, which keeps highlights and shadows clean
+const ATKINSON_KERNEL: Array<[number, number, number]> = [
+  [1, 0, 1 / 8],
+  [2, 0, 1 / 8],
+  [-1, 1, 1 / 8],
+  [0, 1, 1 / 8],
+  [1, 1, 1 / 8],
+  [0, 2, 1 / 8],
+]
+
+const BAYER_8X8 = [
+  0, 32, 8, 40, 2, 34, 10, 42,
+  48, 16, 56, 24, 50, 18, 58, 26,
+  12, 44, 4, 36, 14, 46, 6, 38,
+  60, 28, 52, 20, 62, 30, 54, 22,
+  3, 35, 11, 43, 1, 33, 9, 41,
+  51, 19, 59, 27, 49, 17, 57, 25,
+  15, 47, 7, 39, 13, 45, 5, 37,
+  63, 31, 55, 23, 61, 29, 53, 21,
+]
+
+// Snap a 0-255 value to the nearest of (levels) evenly spaced gray levels
+function quantize(value: number, levels: number): number {
+  const step = 255 / (levels - 1)
+  const clamped = Math.min(255, Math.max(0, value))
+  return Math.round(clamped / step) * step
+}
+
+function diffuseError(
+  pixels: Float32Array,
+  width: number,
+  height: number,
+  levels: number,
+  kernel: Array<[number, number, number]>
+): Uint8Array {
+  const output = new Uint8Array(width * height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x
+      const oldValue = pixels[index]!
+      const newValue = quantize(oldValue, levels)
+      output[index] = newValue
+      const error = oldValue - newValue
+      for (const [dx, dy, weight] of kernel) {
+        const nx = x + dx
+        const ny = y + dy
+        if (nx >= 0 && nx < width && ny < height) {
+          pixels[ny * width + nx]! += error * weight
+        }
+      }
+    }
+  }
+  return output
+}
+
+function orderedDither(pixels: Float32Array, width: number, height: number, levels: number): Uint8Array {
+  const output = new Uint8Array(width * height)
+  const step = 255 / (levels - 1)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x
+      const threshold = (BAYER_8X8[(y % 8) * 8 + (x % 8)]! + 0.5) / 64 - 0.5
+      output[index] = quantize(pixels[index]! + threshold * step, levels)
+    }
+  }
+  return output
+}
+
+// Reduce 8-bit grayscale pixels to 2^bitDepth levels using the given algorithm
+export function ditherGrayscale(
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+  bitDepth: EinkBitDepth,
+  algorithm: DitherAlgorithm
+): Uint8Array {
+  const levels = 2 ** bitDepth
+  const working = Float32Array.from(pixels)
+
+  switch (algorithm) {
+    case "floyd-steinberg":
+      return diffuseError(working, width, height, levels, FLOYD_STEINBERG_KERNEL)
+    case "atkinson":
+      return diffuseError(working, width, height, levels, ATKINSON_KERNEL)
+    case "ordered":
+      return orderedDither(working, width, height, levels)
+    case "none":
+      return Uint8Array.from(working, (value) => quantize(value, levels))
+  }
+}
+
+// Render an image for a TRMNL panel: fit to the panel, grayscale, dither and encode as a low bit depth PNG
+export async function renderEinkImage(input: ArrayBuffer | Buffer, options: EinkRenderOptions): Promise<Buffer> {
+  const startTime = performance.now()
+  const { width, height } = getLogicalSize(options.orientation)
+  const background = options.background === "white" ? "#ffffff" : "#000000"
+
+  const { data, info } = await sharp(Buffer.from(input as ArrayBuffer))
+    .resize(width, height, { fit: options.fit, position: "centre", background })
+    .flatten({ background })
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  // Grayscale output can still carry extra channels on some inputs - keep only luminance
+  let luminance: Uint8Array = data
+  if (info.channels > 1) {
+    luminance = new Uint8Array(info.width * info.height)
+    for (let i = 0; i < luminance.length; i++) {
+      luminance[i] = data[i * info.channels]!
+    }
+  }
+
+  const dithered = ditherGrayscale(luminance, info.width, info.height, options.bitDepth, options.dither)
+
+  const png = await sharp(Buffer.from(dithered), {
+    raw: { width: info.width, height: info.height, channels: 1 },
+  })
+    .rotate(getRotation(options.orientation))
+    .png({ palette: true, colours: 2 ** options.bitDepth, dither: 0, compressionLevel: 9 })
+    .toBuffer()
+
+  log("DEBUG", "Rendered e-ink image", {
+    ...options,
+    sizeBytes: png.length,
+    renderTimeMs: Math.round(performance.now() - startTime),
+  })
+
+  return png
+}
@@ -1,14 +1,17 @@
-import { log } from "../utils"
+import { log, toISODate } from "../utils"
 import { config } from "../config"
+import { sentEmailQueries, type SentEmail, type SentEmailSummary } from "../db"
+import { getEmailTransport, type EmailMessage } from "./email-transport-service"
 
-// Resend API configuration - use centralized config
-const RESEND_API_URL = "https://api.resend.com/emails"
-const { resendApiKey: RESEND_API_KEY, senderEmail: SENDER_EMAIL, senderName: SENDER_NAME, frontendUrl: FRONTEND_URL } = config.email
+const { senderEmail: SENDER_EMAIL, senderName: SENDER_NAME, frontendUrl: FRONTEND_URL } = config.email
+
+// Sent emails are kept this long in the admin email log
+const SENT_EMAIL_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
 
 /**
  * Escape HTML special characters to prevent XSS in email templates
  */
-function escapeHtml(unsafe: string): string {
+export function escapeHtml(unsafe: string): string {
   return unsafe
     .replace(/&/g, "&amp;")
     .replace(/</g, "&lt;")
@@ -24,50 +27,203 @@ interface SendEmailParams {
   textContent?: string
 }
 
+type DeliveryResult = Pick<SentEmail, "transport" | "status" | "error" | "provider_message_id">
+
+// Hand a message to the configured transport; never throws
+async function deliver(message: EmailMessage): Promise<DeliveryResult> {
+  const transport = getEmailTransport()
+  try {
+    const providerMessageId = await transport.send(message)
+    log("INFO", transport.delivers ? "Email sent successfully" : "Email kept in outbox", {
+      to: message.to,
+      subject: message.subject,
+      transport: transport.id,
+    })
+    return {
+      transport: transport.id,
+      status: transport.delivers ? "sent" : "captured",
+      error: null,
+      provider_message_id: providerMessageId,
+    }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    log("ERROR", "Failed to send email", { to: message.to, subject: message.subject, transport: transport.id, error: reason })
+    return { transport: transport.id, status: "failed", error: reason, provider_message_id: null }
+  }
+}
+
 /**
- * Send email using Resend API
+ * Send an email through the configured transport (see email-transport-service.ts) and
+ * record it in the email log. Emails kept locally by the file/outbox transports count as sent.
  */
 export async function sendEmail(params: SendEmailParams): Promise<boolean> {
-  if (!RESEND_API_KEY) {
-    // Log the misconfiguration but return true to avoid leaking information
-    // through error responses (e.g., in forgot password endpoint)
-    log("ERROR", "Resend API key not configured - email not sent", { to: params.to, subject: params.subject })
-    return true
+  const message: EmailMessage = {
+    from: `${SENDER_NAME} <${SENDER_EMAIL}>`,
+    to: params.to,
+    subject: params.subject,
+    html: params.htmlContent,
+    text: params.textContent ?? null,
   }
+  const result = await deliver(message)
 
   try {
-    const response = await fetch(RESEND_API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${RESEND_API_KEY}`,
-      },
-      body: JSON.stringify({
-        from: `${SENDER_NAME} <${SENDER_EMAIL}>`,
-        to: [params.to],
-        subject: params.subject,
-        html: params.htmlContent,
-        text: params.textContent,
-      }),
-    })
+    sentEmailQueries.create.get(
+      message.to,
+      message.from,
+      message.subject,
+      message.html,
+      message.text,
+      result.transport,
+      result.status,
+      result.error,
+      result.provider_message_id
+    )
+  } catch (error) {
+    log("ERROR", "Failed to record sent email", { error: String(error) })
+  }
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ message: "Unknown error" }))
-      log("ERROR", "Failed to send email via Resend", {
-        status: response.status,
-        error: errorData
-      })
-      return false
-    }
+  return result.status !== "failed"
+}
 
-    log("INFO", "Email sent successfully", { to: params.to, subject: params.subject })
-    return true
-  } catch (error) {
-    log("ERROR", "Error sending email", { error })
-    return false
+function toSentEmailResponse<T extends SentEmailSummary>(email: T): T {
+  return {
+    ...email,
+    created_at: toISODate(email.created_at) || email.created_at,
+    last_attempt_at: toISODate(email.last_attempt_at) || email.last_attempt_at,
   }
 }
 
+export function listSentEmails(
+  filter: { status: SentEmail["status"] | null; search: string | null },
+  limit: number,
+  offset: number
+): { emails: SentEmailSummary[]; total: number } {
+  const emails = sentEmailQueries.findPage.all(filter.status, filter.search, limit, offset)
+  const total = sentEmailQueries.count.get(filter.status, filter.search)?.count ?? 0
+  return { emails: emails.map(toSentEmailResponse), total }
+}
+
+export function getSentEmail(id: number): SentEmail | null {
+  const email = sentEmailQueries.findById.get(id)
+  return email ? toSentEmailResponse(email) : null
+}
+
+// Send a logged email again through the current transport, updating its log entry
+export async function resendEmail(id: number): Promise<SentEmail | null> {
+  const email = sentEmailQueries.findById.get(id)
+  if (!email) return null
+
+  const result = await deliver({
+    from: email.from_address,
+    to: email.to_address,
+    subject: email.subject,
+    html: email.html_content,
+    text: email.text_content,
+  })
+  const updated = sentEmailQueries.recordAttempt.get(
+    result.transport,
+    result.status,
+    result.error,
+    result.provider_message_id,
+    email.id
+  )
+  return updated ? toSentEmailResponse(updated) : null
+}
+
+// Delete log entries past the retention window
+export function cleanupSentEmails(): void {
+  const cutoff = new Date(Date.now() - SENT_EMAIL_RETENTION_MS).toISOString()
+  sentEmailQueries.deleteBefore.run(cutoff)
+}
+
+// Content of a templated email; every string is plain text and escaped when rendered
+export interface EmailContent {
+  title: string
+  greeting: string
+  paragraphs: string[]
+  details?: { label: string; value: string }[]
+  action?: { label: string; url: string }
+  footer: string
+}
+
+/**
+ * Render templated content in the shared Promptink layout, as HTML and plain text
+ */
+export function renderEmail(content: EmailContent, lang = "en"): { htmlContent: string; textContent: string } {
+  const paragraphs = content.paragraphs
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`)
+    .join("\n        ")
+
+  const details = content.details?.length
+    ? `<table style="width: 100%; border-collapse: collapse; margin: 20px 0; font-size: 14px;">
+          ${content.details.map(({ label, value }) => `<tr>
+            <td style="padding: 6px 0; color: #666; vertical-align: top; width: 40%;">${escapeHtml(label)}</td>
+            <td style="padding: 6px 0;">${escapeHtml(value).replace(/\n/g, "<br>")}</td>
+          </tr>`).join("\n          ")}
+        </table>`
+    : ""
+
+  const action = content.action
+    ? `<div style="text-align: center; margin: 30px 0;">
+          <a href="${escapeHtml(content.action.url)}"
+             style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+                    color: white;
+                    padding: 14px 30px;
+                    text-decoration: none;
+                    border-radius: 5px;
+                    display: inline-block;
+                    font-weight: bold;">
+            ${escapeHtml(content.action.label)}
+          </a>
+        </div>`
+    : ""
+
+  const htmlContent = `
+    <!DOCTYPE html>
+    <html lang="${lang}">
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${escapeHtml(content.title)}</title>
+    </head>
+    <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+        <h1 style="color: white; margin: 0; font-size: 28px;">Promptink</h1>
+      </div>
+
+      <div style="background-color: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px;">
+        <h2 style="color: #333; margin-top: 0;">${escapeHtml(content.title)}</h2>
+
+        <p>${escapeHtml(content.greeting)}</p>
+
+        ${paragraphs}
+
+        ${details}
+
+        ${action}
+
+        <hr style="border: none; border-top: 1px solid #ddd; margin: 30px 0;">
+
+        <p style="color: #999; font-size: 12px; text-align: center;">
+          ${escapeHtml(content.footer)}
+        </p>
+      </div>
+    </body>
+    </html>
+  `
+
+  const textContent = [
+    content.title,
+    content.greeting,
+    ...content.paragraphs,
+    ...(content.details?.length ? [content.details.map(({ label, value }) => `${label}: ${value}`).join("\n")] : []),
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`] : []),
+    `---\n${content.footer}`,
+  ].join("\n\n")
+
+  return { htmlContent, textContent }
+}
+
 /**
  * Send password reset email
  */
@@ -245,3 +401,63 @@ export async function sendPasswordChangeConfirmation(
     textContent,
   })
 }
+
+/**
+ * Send a notification email (batch finished, schedule failing, ...)
+ */
+export async function sendNotificationEmail(
+  email: string,
+  notification: { title: string; body: string; path: string },
+  userName?: string
+): Promise<boolean> {
+  const { htmlContent, textContent } = renderEmail({
+    title: notification.title,
+    greeting: `Hi ${userName || email},`,
+    paragraphs: [notification.body],
+    action: { label: "Open Promptink", url: `${FRONTEND_URL}${notification.path}` },
+    footer: `You can choose which emails you get in your notification settings: ${FRONTEND_URL}/#settings`,
+  })
+
+  return sendEmail({
+    to: email,
+    subject: `${notification.title} - Promptink`,
+    htmlContent,
+    textContent,
+  })
+}
+
+/**
+ * Tell a user two-factor authentication was turned on or off for their account
+ */
+export async function sendTwoFactorChangedEmail(
+  email: string,
+  change: "enabled" | "disabled" | "reset",
+  userName?: string
+): Promise<boolean> {
+  const title = change === "enabled"
+    ? "Two-Factor Authentication Enabled"
+    : "Two-Factor Authentication Turned Off"
+  const summary = {
+    enabled: "Two-factor authentication is now on for your Promptink account. Signing in will ask for a code from your authenticator app.",
+    disabled: "Two-factor authentication was turned off for your Promptink account. Signing in now only needs your password.",
+    reset: "Our support team reset two-factor authentication for your Promptink account at your request. Signing in now only needs your password; you can set it up again in Settings.",
+  }[change]
+
+  const { htmlContent, textContent } = renderEmail({
+    title,
+    greeting: `Hi ${userName || email},`,
+    paragraphs: [
+      summary,
+      "If you didn't make this change, reset your password and contact our support team immediately.",
+    ],
+    action: { label: "Open Settings", url: `${FRONTEND_URL}/#settings` },
+    footer: "This is an automated message from Promptink. Please do not reply to this email.",
+  })
+
+  return sendEmail({
+    to: email,
+    subject: `${title} - Promptink`,
+    htmlContent,
+    textContent,
+  })
+}
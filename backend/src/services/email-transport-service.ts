@@ -0,0 +1,377 @@
+import { mkdirSync, writeFileSync } from "fs"
+import { join } from "path"
+import { randomBytes } from "crypto"
+import { hostname } from "os"
+import { connect as connectTcp, type Socket } from "net"
+import { connect as connectTls } from "tls"
+import { config } from "../config"
+import { log } from "../utils"
+
+/**
+ * Email transports. `sendEmail` (email-service.ts) hands every message to the configured
+ * transport and records the result in `sent_emails`, so "file" and "outbox" work without
+ * any email account: the admin email log shows what would have been sent.
+ */
+
+export const EMAIL_TRANSPORT_IDS = ["resend", "smtp", "file", "outbox"] as const
+
+export type EmailTransportId = typeof EMAIL_TRANSPORT_IDS[number]
+
+export interface EmailMessage {
+  from: string // "Name <address>"
+  to: string
+  subject: string
+  html: string
+  text: string | null
+}
+
+export interface EmailTransport {
+  id: EmailTransportId
+  name: string
+  // false for transports that only keep the email locally (recorded as "captured")
+  delivers: boolean
+  isConfigured(): boolean
+  // Throws when the email could not be handed over; resolves to the provider's message ID
+  send(message: EmailMessage): Promise<string | null>
+}
+
+const RESEND_API_URL = "https://api.resend.com/emails"
+const SMTP_TIMEOUT_MS = 30 * 1000
+
+export function isEmailTransportId(value: unknown): value is EmailTransportId {
+  return typeof value === "string" && (EMAIL_TRANSPORT_IDS as readonly string[]).includes(value)
+}
+
+// The address part of "Name <address>"
+function getAddress(mailbox: string): string {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox
+}
+
+const resendTransport: EmailTransport = {
+  id: "resend",
+  name: "Resend",
+  delivers: true,
+  isConfigured: () => !!config.email.resendApiKey,
+  async send(message) {
+    const response = await fetch(RESEND_API_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${config.email.resendApiKey}`,
+      },
+      body: JSON.stringify({
+        from: message.from,
+        to: [message.to],
+        subject: message.subject,
+        html: message.html,
+        text: message.text ?? undefined,
+      }),
+    })
+
+    const body = await response.json().catch(() => ({})) as { id?: string; message?: string }
+    if (!response.ok) {
+      throw new Error(`Resend rejected the email: ${body.message || `HTTP ${response.status}`}`)
+    }
+    return body.id ?? null
+  },
+}
+
+// Write <id>.html to open in a browser and <id>.json with the rest
+const fileTransport: EmailTransport = {
+  id: "file",
+  name: "Outbox directory",
+  delivers: false,
+  isConfigured: () => !!config.email.outboxDir,
+  async send(message) {
+    const dir = config.email.outboxDir!
+    mkdirSync(dir, { recursive: true })
+    const id = `${Date.now()}-${randomBytes(3).toString("hex")}`
+    writeFileSync(join(dir, `${id}.html`), message.html)
+    writeFileSync(join(dir, `${id}.json`), JSON.stringify({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      createdAt: new Date().toISOString(),
+    }, null, 2))
+    return id
+  },
+}
+
+// Keep the email in `sent_emails` only
+const outboxTransport: EmailTransport = {
+  id: "outbox",
+  name: "Email log only",
+  delivers: false,
+  isConfigured: () => true,
+  async send() {
+    return null
+  },
+}
+
+// ============================================================================
+// SMTP
+// ============================================================================
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  password?: string
+}
+
+interface SmtpReply {
+  code: number
+  lines: string[] // Reply text, one entry per line of a multi-line reply
+}
+
+// Reads replies from the server one at a time; the socket is swapped after STARTTLS
+class SmtpReplyReader {
+  private buffer = ""
+  private lines: string[] = []
+  private replies: SmtpReply[] = []
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null
+  private failure: Error | null = null
+  private socket: Socket | null = null
+
+  private readonly onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString("utf8")
+    let end: number
+    while ((end = this.buffer.indexOf("\r\n")) !== -1) {
+      const line = this.buffer.slice(0, end)
+      this.buffer = this.buffer.slice(end + 2)
+      this.lines.push(line.slice(4))
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line[3] === "-") continue
+
+      const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.lines }
+      this.lines = []
+      if (this.waiting) {
+        this.waiting.resolve(reply)
+        this.waiting = null
+      } else {
+        this.replies.push(reply)
+      }
+    }
+  }
+
+  private readonly onError = (error: Error) => this.fail(error)
+  private readonly onClose = () => this.fail(new Error("SMTP server closed the connection"))
+
+  private fail(error: Error) {
+    this.failure ??= error
+    this.waiting?.reject(this.failure)
+    this.waiting = null
+  }
+
+  attach(socket: Socket) {
+    this.detach()
+    this.socket = socket
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP server timed out")))
+    socket.on("data", this.onData)
+    socket.on("error", this.onError)
+    socket.on("close", this.onClose)
+  }
+
+  detach() {
+    this.socket?.setTimeout(0)
+    this.socket?.off("data", this.onData)
+    this.socket?.off("error", this.onError)
+    this.socket?.off("close", this.onClose)
+    this.socket = null
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift()
+    if (reply) return Promise.resolve(reply)
+    if (this.failure) return Promise.reject(this.failure)
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject }
+    })
+  }
+}
+
+function openSocket(options: SmtpOptions): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket: Socket = options.secure
+      ? connectTls({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+      : connectTcp({ host: options.host, port: options.port }, () => resolve(socket))
+    socket.once("error", reject)
+  })
+}
+
+function upgradeToTls(socket: Socket, host: string): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const secureSocket = connectTls({ socket, servername: host }, () => resolve(secureSocket))
+    secureSocket.once("error", reject)
+  })
+}
+
+// RFC 2047 encoded words for non-ASCII header text, split so each word stays short
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value
+
+  const words: string[] = []
+  let chunk = ""
+  for (const char of value) {
+    if (Buffer.byteLength(chunk + char) > 45) {
+      words.push(chunk)
+      chunk = ""
+    }
+    chunk += char
+  }
+  words.push(chunk)
+  return words.map(word => `=?UTF-8?B?${Buffer.from(word).toString("base64")}?=`).join("\r\n ")
+}
+
+function encodeMailbox(mailbox: string): string {
+  const match = mailbox.match(/^(.*?)\s*<([^>]+)>$/)
+  return match?.[1] ? `${encodeHeader(match[1])} <${match[2]}>` : mailbox
+}
+
+function base64Lines(content: string): string {
+  return Buffer.from(content).toString("base64").replace(/.{76}/g, "$&\r\n")
+}
+
+// multipart/alternative with base64 parts, so no body line needs dot-stuffing or wrapping
+export function buildMimeMessage(message: EmailMessage, messageId: string): string {
+  const boundary = `promptink-${randomBytes(12).toString("hex")}`
+  const parts = [
+    ...(message.text ? [{ type: "text/plain", content: message.text }] : []),
+    { type: "text/html", content: message.html },
+  ]
+
+  return [
+    `From: ${encodeMailbox(message.from)}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    ...parts.flatMap(part => [
+      `--${boundary}`,
+      `Content-Type: ${part.type}; charset=utf-8`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      base64Lines(part.content),
+    ]),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n")
+}
+
+/**
+ * Send one email over SMTP: EHLO, STARTTLS when offered (unless already on TLS),
+ * AUTH PLAIN or LOGIN when credentials are set, then the message. Returns its Message-ID.
+ */
+export async function sendSmtpMail(options: SmtpOptions, message: EmailMessage): Promise<string> {
+  const reader = new SmtpReplyReader()
+  let socket = await openSocket(options)
+  reader.attach(socket)
+
+  const write = (line: string) => { socket.write(`${line}\r\n`) }
+  const expect = async (step: string, codes: number[]) => {
+    const reply = await reader.read()
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${step} failed: ${reply.code} ${reply.lines.join(" ")}`)
+    }
+    return reply
+  }
+  const command = (line: string, step: string, codes: number[]) => {
+    write(line)
+    return expect(step, codes)
+  }
+
+  try {
+    await expect("greeting", [220])
+    const clientName = hostname() || "localhost"
+    let extensions = (await command(`EHLO ${clientName}`, "EHLO", [250])).lines.map(line => line.toUpperCase())
+
+    if (!options.secure && extensions.includes("STARTTLS")) {
+      await command("STARTTLS", "STARTTLS", [220])
+      reader.detach()
+      socket = await upgradeToTls(socket, options.host)
+      reader.attach(socket)
+      extensions = (await command(`EHLO ${clientName}`, "EHLO", [250])).lines.map(line => line.toUpperCase())
+    }
+
+    if (options.user) {
+      const authMethods = extensions.find(line => line.startsWith("AUTH"))?.split(/[\s=]+/) ?? []
+      if (!authMethods.includes("PLAIN") && authMethods.includes("LOGIN")) {
+        await command("AUTH LOGIN", "AUTH", [334])
+        await command(Buffer.from(options.user).toString("base64"), "AUTH", [334])
+        await command(Buffer.from(options.password ?? "").toString("base64"), "AUTH", [235])
+      } else {
+        const credentials = Buffer.from(`\0${options.user}\0${options.password ?? ""}`).toString("base64")
+        await command(`AUTH PLAIN ${credentials}`, "AUTH", [235])
+      }
+    }
+
+    const sender = getAddress(message.from)
+    const messageId = `<${Date.now()}.${randomBytes(6).toString("hex")}@${sender.split("@")[1] || "promptink"}>`
+
+    await command(`MAIL FROM:<${sender}>`, "MAIL FROM", [250])
+    await command(`RCPT TO:<${message.to}>`, "RCPT TO", [250, 251])
+    await command("DATA", "DATA", [354])
+    socket.write(buildMimeMessage(message, messageId))
+    await command(".", "DATA", [250])
+
+    write("QUIT")
+    await reader.read().catch(() => null)
+    return messageId
+  } finally {
+    reader.detach()
+    socket.end()
+  }
+}
+
+const smtpTransport: EmailTransport = {
+  id: "smtp",
+  name: "SMTP",
+  delivers: true,
+  isConfigured: () => !!config.email.smtp.host,
+  send(message) {
+    const { host, port, secure, user, password } = config.email.smtp
+    return sendSmtpMail({ host: host!, port, secure, user, password }, message)
+  },
+}
+
+// ============================================================================
+// Transport selection
+// ============================================================================
+
+const EMAIL_TRANSPORTS: Record<EmailTransportId, EmailTransport> = {
+  resend: resendTransport,
+  smtp: smtpTransport,
+  file: fileTransport,
+  outbox: outboxTransport,
+}
+
+function resolveTransportId(): EmailTransportId {
+  const configured = config.email.transport
+  if (configured) {
+    if (isEmailTransportId(configured) && EMAIL_TRANSPORTS[configured].isConfigured()) {
+      return configured
+    }
+    log("WARN", "EMAIL_TRANSPORT is unknown or missing its settings - emails are kept in the email log only", { transport: configured })
+    return "outbox"
+  }
+
+  if (fileTransport.isConfigured()) return "file"
+  if (smtpTransport.isConfigured()) return "smtp"
+  if (resendTransport.isConfigured()) return "resend"
+  return "outbox"
+}
+
+let activeTransport: EmailTransport | null = null
+
+export function getEmailTransport(): EmailTransport {
+  if (!activeTransport) {
+    activeTransport = EMAIL_TRANSPORTS[resolveTransportId()]
+    log("INFO", "Email transport selected", { transport: activeTransport.id })
+  }
+  return activeTransport
+}
@@ -0,0 +1,166 @@
+import { config } from "../config"
+import { generationUsageQueries, userQueries, type GenerationUsage } from "../db"
+import { log } from "../utils"
+import { hasActiveSubscription } from "./subscription-service"
+
+/**
+ * Server-side entitlements: which plan a user is on and how much of its monthly quota is
+ * left. Every generation path (chat, edits, infographics, batch items, scheduled runs and
+ * speech input) goes through `consumeQuota` before calling a provider, and gives the quota
+ * back with `refundQuota` when the provider fails (for queued jobs, when anything in the
+ * attempt fails, since the queue's retry is charged again).
+ *
+ * Plans: "subscriber" while the subscription is active, "free" otherwise. Past-due users
+ * are blocked until they pay, whatever the free plan allows.
+ */
+
+export const QUOTA_KINDS = ["images", "transcriptions"] as const
+
+export type QuotaKind = typeof QUOTA_KINDS[number]
+
+export type Plan = "free" | "subscriber"
+
+// 402: subscribing or paying fixes it; 403: the plan's quota is used up
+export interface EntitlementDenial {
+  error: string
+  status: 402 | 403
+  code: "subscription_required" | "payment_past_due" | "quota_exceeded"
+}
+
+export interface QuotaUsage {
+  limit: number
+  used: number
+  remaining: number
+}
+
+export interface QuotaSummary {
+  plan: Plan
+  period: string
+  resetsAt: string
+  quotas: Record<QuotaKind, QuotaUsage>
+}
+
+const ACTIONS: Record<QuotaKind, string> = {
+  images: "generate images",
+  transcriptions: "use speech input",
+}
+
+// Messages start with these, so queued jobs can recognise entitlement failures from the error text
+const DENIAL_PREFIXES = ["A subscription is required to", "Your subscription payment is past due", "You have used your monthly"]
+
+// Calendar month in UTC, e.g. "2026-10"
+export function getQuotaPeriod(date = new Date()): string {
+  return date.toISOString().slice(0, 7)
+}
+
+function getPeriodEnd(period: string): Date {
+  const [year, month] = period.split("-").map(Number)
+  return new Date(Date.UTC(year!, month!, 1))
+}
+
+export function getPlan(userId: number): Plan {
+  return hasActiveSubscription(userId) ? "subscriber" : "free"
+}
+
+export function getQuotaLimit(plan: Plan, kind: QuotaKind): number {
+  return config.quotas[plan][kind]
+}
+
+export function isEntitlementError(error: string): boolean {
+  return DENIAL_PREFIXES.some(prefix => error.startsWith(prefix))
+}
+
+// Whether the plan allows the feature at all; null when it does
+function checkPlan(userId: number, plan: Plan, kind: QuotaKind): EntitlementDenial | null {
+  if (plan === "free" && userQueries.getSubscriptionStatus.get(userId)?.subscription_status === "past_due") {
+    return {
+      error: `${DENIAL_PREFIXES[1]}. Update your payment method to ${ACTIONS[kind]} again`,
+      status: 402,
+      code: "payment_past_due",
+    }
+  }
+  if (getQuotaLimit(plan, kind) <= 0) {
+    return {
+      error: `${DENIAL_PREFIXES[0]} ${ACTIONS[kind]}`,
+      status: 402,
+      code: "subscription_required",
+    }
+  }
+  return null
+}
+
+function quotaExceeded(plan: Plan, kind: QuotaKind): EntitlementDenial {
+  return {
+    error: `${DENIAL_PREFIXES[2]} ${kind === "images" ? "image" : "speech input"} quota (${getQuotaLimit(plan, kind)}). It resets at the start of next month`,
+    // Free users can subscribe for more; subscribers have the largest quota there is
+    status: plan === "free" ? 402 : 403,
+    code: "quota_exceeded",
+  }
+}
+
+function getUsed(userId: number, period: string, kind: QuotaKind): number {
+  return generationUsageQueries.findByUserAndPeriod.all(userId, period).find(row => row.kind === kind)?.count ?? 0
+}
+
+/**
+ * Check that the user may make `amount` more generations this month without using them up,
+ * e.g. before accepting a batch. With amount 0 only the plan is checked (new schedules).
+ */
+export function checkEntitlement(userId: number, kind: QuotaKind, amount = 1): EntitlementDenial | null {
+  const plan = getPlan(userId)
+  const denial = checkPlan(userId, plan, kind)
+  if (denial) return denial
+
+  if (amount > 0 && getUsed(userId, getQuotaPeriod(), kind) + amount > getQuotaLimit(plan, kind)) {
+    return quotaExceeded(plan, kind)
+  }
+  return null
+}
+
+/**
+ * Use up `amount` of this month's quota, or nothing when that would go over it. Callers that
+ * may refund pass the period in, so the refund goes back to the month that was charged.
+ */
+export function consumeQuota(
+  userId: number,
+  kind: QuotaKind,
+  amount = 1,
+  period = getQuotaPeriod()
+): EntitlementDenial | null {
+  const plan = getPlan(userId)
+  const denial = checkPlan(userId, plan, kind)
+  if (denial) return denial
+
+  generationUsageQueries.ensure.run(userId, period, kind)
+  const usage = generationUsageQueries.consume.get(amount, userId, period, kind, getQuotaLimit(plan, kind))
+  if (!usage) {
+    log("INFO", "Generation quota exceeded", { userId, plan, kind })
+    return quotaExceeded(plan, kind)
+  }
+  return null
+}
+
+// Give back quota for a generation that failed, to the period it was charged to (which is no
+// longer the current one when a job fails across a month boundary)
+export function refundQuota(userId: number, kind: QuotaKind, period: string, amount = 1): void {
+  try {
+    generationUsageQueries.refund.run(amount, userId, period, kind)
+  } catch (error) {
+    log("ERROR", "Failed to refund generation quota", { userId, kind, period, error: String(error) })
+  }
+}
+
+export function getQuotaSummary(userId: number): QuotaSummary {
+  const plan = getPlan(userId)
+  const period = getQuotaPeriod()
+  const rows: GenerationUsage[] = generationUsageQueries.findByUserAndPeriod.all(userId, period)
+
+  const quotas = {} as Record<QuotaKind, QuotaUsage>
+  for (const kind of QUOTA_KINDS) {
+    const limit = checkPlan(userId, plan, kind) ? 0 : getQuotaLimit(plan, kind)
+    const used = rows.find(row => row.kind === kind)?.count ?? 0
+    quotas[kind] = { limit, used, remaining: Math.max(0, limit - used) }
+  }
+
+  return { plan, period, resetsAt: getPeriodEnd(period).toISOString(), quotas }
+}
@@ -0,0 +1,146 @@
+import { log } from "../utils"
+import type { BatchJobItem } from "../db"
+
+/**
+ * In-process pub/sub for per-user server events, delivered to the browser over
+ * Server-Sent Events by `GET /api/events`. Events are fire-and-forget: nothing is
+ * stored, so a client that reconnects fetches current state over the REST API.
+ */
+
+export type BatchProgressEvent = {
+  type: "batch.progress"
+  batchId: number
+  status: string
+  completed: number
+  failed: number
+  total: number
+  estimatedCompletionAt: string | null
+}
+
+// Sent when an item finishes (completed, or failed for good)
+export type BatchItemEvent = {
+  type: "batch.item"
+  batchId: number
+  item: BatchJobItem
+}
+
+export type ScheduleRunEvent = {
+  type: "schedule.run"
+  jobId: number
+  status: "completed" | "failed"
+  imageId: number | null
+  imageUrl: string | null
+  error: string | null
+  nextRunAt: string | null
+}
+
+export type SyncResultEvent = {
+  type: "sync.result"
+  deviceId: number
+  deviceName: string
+  success: boolean
+  error: string | null
+}
+
+// "preparing" covers work before the image request, such as writing an infographic prompt
+export type GenerationStage = "preparing" | "generating" | "saving" | "completed" | "failed"
+
+export type GenerationProgressEvent = {
+  type: "generation.progress"
+  requestId: string
+  stage: GenerationStage
+  error: string | null
+}
+
+export type ServerEvent =
+  | BatchProgressEvent
+  | BatchItemEvent
+  | ScheduleRunEvent
+  | SyncResultEvent
+  | GenerationProgressEvent
+
+export type ServerEventListener = (event: ServerEvent) => void
+
+// Open streams a user may have at once, across tabs and devices
+export const MAX_EVENT_STREAMS_PER_USER = 5
+
+type Subscriber = {
+  listener: ServerEventListener
+  // The access token the stream was opened with, so revoking it can close the stream
+  tokenId: string | null
+  close: (() => void) | null
+}
+
+const listeners = new Map<number, Set<Subscriber>>()
+
+// Listen to a user's events; returns the unsubscribe function. `close` ends the connection
+// when its token is revoked, and is expected to unsubscribe.
+export function subscribeToUserEvents(
+  userId: number,
+  listener: ServerEventListener,
+  options: { tokenId?: string; close?: () => void } = {}
+): () => void {
+  let userListeners = listeners.get(userId)
+  if (!userListeners) {
+    userListeners = new Set()
+    listeners.set(userId, userListeners)
+  }
+  const subscriber: Subscriber = { listener, tokenId: options.tokenId ?? null, close: options.close ?? null }
+  userListeners.add(subscriber)
+
+  return () => {
+    userListeners.delete(subscriber)
+    if (userListeners.size === 0 && listeners.get(userId) === userListeners) {
+      listeners.delete(userId)
+    }
+  }
+}
+
+export function getUserEventStreamCount(userId: number): number {
+  return listeners.get(userId)?.size ?? 0
+}
+
+// Close the user's streams opened with the given access token, or all of them; returns how many closed
+export function closeUserEventStreams(userId: number, tokenId?: string): number {
+  const userListeners = listeners.get(userId)
+  if (!userListeners) return 0
+
+  let closed = 0
+  for (const subscriber of [...userListeners]) {
+    if (tokenId !== undefined && subscriber.tokenId !== tokenId) continue
+    userListeners.delete(subscriber)
+    subscriber.close?.()
+    closed++
+  }
+  if (userListeners.size === 0 && listeners.get(userId) === userListeners) {
+    listeners.delete(userId)
+  }
+  return closed
+}
+
+// Send an event to every open connection of the user; a failing listener doesn't affect the others
+export function publishUserEvent(userId: number, event: ServerEvent): void {
+  const userListeners = listeners.get(userId)
+  if (!userListeners) return
+
+  for (const { listener } of [...userListeners]) {
+    try {
+      listener(event)
+    } catch (error) {
+      log("WARN", "Server event listener failed", { userId, type: event.type, error: String(error) })
+    }
+  }
+}
+
+export function getEventConnectionCount(): number {
+  let count = 0
+  for (const userListeners of listeners.values()) {
+    count += userListeners.size
+  }
+  return count
+}
+
+// SSE wire format: the event type as the event name, the event as JSON data
+export function formatServerEvent(event: ServerEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+}
@@ -0,0 +1,517 @@
+import { createHash } from "crypto"
+import sharp from "sharp"
+import { config } from "../config"
+import { log } from "../utils"
+import {
+  generateImage,
+  generateImageEdit,
+  generateImageVariation,
+  type ImageGenerationResponse,
+  type ImageModel,
+  type ImageQuality,
+  type ImageSize,
+  type ImageStyle,
+  type ResponseFormat,
+} from "./openai-service"
+import type { UsageContext } from "./usage-service"
+import { isOpenAIConfigured } from "./openai-client"
+import { renderPlaceholderImage } from "./placeholder-image"
+
+/**
+ * Image generation providers. Every provider returns OpenAI-shaped responses; providers
+ * that only produce image bytes return them as `data:` URLs so callers can save them to
+ * the gallery the same way as OpenAI's temporary URLs.
+ */
+
+export const IMAGE_PROVIDER_IDS = ["openai", "openai-compatible", "stable-diffusion", "comfyui", "placeholder"] as const
+
+export type ImageProviderId = typeof IMAGE_PROVIDER_IDS[number]
+
+export interface ImageProviderCapabilities {
+  sizes: ImageSize[]
+  edit: boolean
+  variation: boolean
+  negativePrompt: boolean
+}
+
+export interface ProviderGenerateOptions {
+  prompt: string
+  negativePrompt?: string
+  size: ImageSize
+  n?: number
+  model?: ImageModel // OpenAI only
+  quality?: ImageQuality // OpenAI only
+  style?: ImageStyle // OpenAI only
+  responseFormat?: ResponseFormat
+  usage: UsageContext // Who the OpenAI usage ledger attributes the call to
+}
+
+export interface ProviderEditOptions {
+  mask?: ArrayBuffer // Transparent pixels mark the area to change (OpenAI convention)
+  negativePrompt?: string
+  size?: ImageSize
+  n?: number
+  responseFormat?: ResponseFormat
+  usage: UsageContext
+}
+
+export interface ProviderVariationOptions {
+  size?: ImageSize
+  n?: number
+  responseFormat?: ResponseFormat
+  usage: UsageContext
+}
+
+export interface ImageProvider {
+  id: ImageProviderId
+  name: string
+  capabilities: ImageProviderCapabilities
+  isConfigured(): boolean
+  // Model name recorded in the gallery
+  getModel(options?: { model?: string }): string
+  generate(options: ProviderGenerateOptions): Promise<ImageGenerationResponse>
+  edit?(image: ArrayBuffer, prompt: string, options: ProviderEditOptions): Promise<ImageGenerationResponse>
+  variation?(image: ArrayBuffer, options: ProviderVariationOptions): Promise<ImageGenerationResponse>
+}
+
+const APP_SIZES: ImageSize[] = ["1024x1024", "1792x1024", "1024x1792"]
+const MAX_IMAGES_PER_REQUEST = 4
+const COMFYUI_POLL_INTERVAL_MS = 1000
+const COMFYUI_TIMEOUT_MS = 5 * 60 * 1000
+// How much img2img may change the source image
+const SD_EDIT_DENOISING = 0.75
+const SD_VARIATION_DENOISING = 0.5
+
+export function isImageProviderId(value: unknown): value is ImageProviderId {
+  return typeof value === "string" && (IMAGE_PROVIDER_IDS as readonly string[]).includes(value)
+}
+
+function parseSize(size: ImageSize): { width: number; height: number } {
+  const [width, height] = size.split("x").map(Number)
+  return { width: width!, height: height! }
+}
+
+function clampCount(n: number | undefined): number {
+  return Math.min(Math.max(n || 1, 1), MAX_IMAGES_PER_REQUEST)
+}
+
+function toImageResponse(images: Buffer[], responseFormat: ResponseFormat = "url"): ImageGenerationResponse {
+  return {
+    created: Math.floor(Date.now() / 1000),
+    data: images.map(image => responseFormat === "b64_json"
+      ? { b64_json: image.toString("base64") }
+      : { url: `data:image/png;base64,${image.toString("base64")}` }),
+  }
+}
+
+async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  try {
+    const body = await response.json() as { error?: string | { message?: string }; detail?: unknown; message?: string }
+    if (typeof body.error === "string") return body.error
+    if (body.error?.message) return body.error.message
+    if (typeof body.detail === "string") return body.detail
+    if (body.message) return body.message
+  } catch {
+    // Not JSON
+  }
+  return `${fallback} (HTTP ${response.status})`
+}
+
+// OpenAI masks are transparent where the image should change; img2img masks are white there
+async function toInpaintMask(mask: ArrayBuffer, width: number, height: number): Promise<Buffer> {
+  return sharp(Buffer.from(mask))
+    .resize(width, height, { fit: "cover" })
+    .ensureAlpha()
+    .extractChannel("alpha")
+    .negate()
+    .png()
+    .toBuffer()
+}
+
+async function toSizedPng(image: ArrayBuffer, width: number, height: number): Promise<Buffer> {
+  return sharp(Buffer.from(image)).resize(width, height, { fit: "cover" }).png().toBuffer()
+}
+
+// --- OpenAI ---
+
+const openAIProvider: ImageProvider = {
+  id: "openai",
+  name: "OpenAI DALL·E",
+  capabilities: { sizes: APP_SIZES, edit: true, variation: true, negativePrompt: false },
+  isConfigured: isOpenAIConfigured,
+  getModel: options => options?.model === "dall-e-2" ? "dall-e-2" : "dall-e-3",
+  generate: options => generateImage({
+    prompt: options.prompt,
+    model: options.model || "dall-e-3",
+    n: options.n,
+    size: options.size,
+    quality: options.quality,
+    style: options.style || "vivid",
+    response_format: options.responseFormat,
+    usage: options.usage,
+  }),
+  edit: (image, prompt, options) => generateImageEdit(image, prompt, {
+    mask: options.mask,
+    n: options.n,
+    size: options.size,
+    response_format: options.responseFormat,
+    usage: options.usage,
+  }),
+  variation: (image, options) => generateImageVariation(image, {
+    n: options.n,
+    size: options.size,
+    response_format: options.responseFormat,
+    usage: options.usage,
+  }),
+}
+
+// --- OpenAI-compatible self-hosted endpoint ---
+
+const openAICompatibleProvider: ImageProvider = {
+  id: "openai-compatible",
+  name: config.imageProviders.openaiCompatible.name,
+  capabilities: { sizes: ["512x512", ...APP_SIZES], edit: false, variation: false, negativePrompt: false },
+  isConfigured: () => !!config.imageProviders.openaiCompatible.baseUrl,
+  getModel: () => config.imageProviders.openaiCompatible.model,
+  async generate(options) {
+    const { baseUrl, apiKey, model } = config.imageProviders.openaiCompatible
+    log("INFO", "Generating image (OpenAI-compatible)", { baseUrl, model, size: options.size })
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" }
+    if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`
+
+    // Ask for base64 - self-hosted servers often return URLs on an internal hostname
+    const response = await fetch(`${baseUrl!.replace(/\/$/, "")}/images/generations`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        prompt: options.prompt,
+        model,
+        n: clampCount(options.n),
+        size: options.size,
+        response_format: "b64_json",
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(await readErrorMessage(response, "Failed to generate image"))
+    }
+
+    const result = await response.json() as ImageGenerationResponse
+    const images = result.data
+      .filter(item => item.b64_json)
+      .map(item => Buffer.from(item.b64_json!, "base64"))
+    if (images.length === 0) {
+      // Server ignored response_format and returned URLs
+      return result
+    }
+
+    const converted = toImageResponse(images, options.responseFormat)
+    converted.data.forEach((item, i) => { item.revised_prompt = result.data[i]?.revised_prompt })
+    return converted
+  },
+}
+
+// --- Stable Diffusion WebUI (AUTOMATIC1111 / Forge) ---
+
+async function callStableDiffusion(path: string, payload: Record<string, unknown>, fallback: string): Promise<Buffer[]> {
+  const { baseUrl } = config.imageProviders.stableDiffusion
+  const response = await fetch(`${baseUrl!.replace(/\/$/, "")}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  })
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, fallback))
+  }
+
+  const result = await response.json() as { images?: string[] }
+  if (!result.images?.length) {
+    throw new Error(`${fallback}: no images returned`)
+  }
+  return result.images.map(image => Buffer.from(image, "base64"))
+}
+
+const stableDiffusionProvider: ImageProvider = {
+  id: "stable-diffusion",
+  name: "Stable Diffusion WebUI",
+  capabilities: { sizes: ["512x512", ...APP_SIZES], edit: true, variation: true, negativePrompt: true },
+  isConfigured: () => !!config.imageProviders.stableDiffusion.baseUrl,
+  getModel: () => "stable-diffusion",
+  async generate(options) {
+    const { steps, sampler } = config.imageProviders.stableDiffusion
+    const { width, height } = parseSize(options.size)
+    log("INFO", "Generating image (Stable Diffusion WebUI)", { size: options.size, steps })
+
+    const images = await callStableDiffusion("/sdapi/v1/txt2img", {
+      prompt: options.prompt,
+      negative_prompt: options.negativePrompt || "",
+      width,
+      height,
+      steps,
+      sampler_name: sampler,
+      batch_size: clampCount(options.n),
+    }, "Failed to generate image")
+    return toImageResponse(images, options.responseFormat)
+  },
+  async edit(image, prompt, options) {
+    const { steps, sampler } = config.imageProviders.stableDiffusion
+    const { width, height } = parseSize(options?.size || "1024x1024")
+    log("INFO", "Editing image (Stable Diffusion WebUI)", { size: options?.size, hasMask: !!options?.mask })
+
+    const source = await toSizedPng(image, width, height)
+    const images = await callStableDiffusion("/sdapi/v1/img2img", {
+      init_images: [source.toString("base64")],
+      mask: options?.mask ? (await toInpaintMask(options.mask, width, height)).toString("base64") : undefined,
+      prompt,
+      negative_prompt: options?.negativePrompt || "",
+      denoising_strength: SD_EDIT_DENOISING,
+      width,
+      height,
+      steps,
+      sampler_name: sampler,
+      batch_size: clampCount(options?.n),
+    }, "Failed to edit image")
+    return toImageResponse(images, options?.responseFormat)
+  },
+  async variation(image, options) {
+    const { steps, sampler } = config.imageProviders.stableDiffusion
+    const { width, height } = parseSize(options?.size || "1024x1024")
+
+    const source = await toSizedPng(image, width, height)
+    const images = await callStableDiffusion("/sdapi/v1/img2img", {
+      init_images: [source.toString("base64")],
+      prompt: "",
+      denoising_strength: SD_VARIATION_DENOISING,
+      width,
+      height,
+      steps,
+      sampler_name: sampler,
+      batch_size: clampCount(options?.n),
+    }, "Failed to create image variation")
+    return toImageResponse(images, options?.responseFormat)
+  },
+}
+
+// --- ComfyUI ---
+
+// Minimal SDXL text-to-image graph in ComfyUI's API format
+function getDefaultComfyWorkflow(): Record<string, unknown> {
+  return {
+    "1": { class_type: "CheckpointLoaderSimple", inputs: { ckpt_name: "{{checkpoint}}" } },
+    "2": { class_type: "CLIPTextEncode", inputs: { text: "{{prompt}}", clip: ["1", 1] } },
+    "3": { class_type: "CLIPTextEncode", inputs: { text: "{{negative_prompt}}", clip: ["1", 1] } },
+    "4": { class_type: "EmptyLatentImage", inputs: { width: "{{width}}", height: "{{height}}", batch_size: "{{batch_size}}" } },
+    "5": {
+      class_type: "KSampler",
+      inputs: {
+        seed: "{{seed}}", steps: 25, cfg: 7, sampler_name: "euler", scheduler: "normal", denoise: 1,
+        model: ["1", 0], positive: ["2", 0], negative: ["3", 0], latent_image: ["4", 0],
+      },
+    },
+    "6": { class_type: "VAEDecode", inputs: { samples: ["5", 0], vae: ["1", 2] } },
+    "7": { class_type: "SaveImage", inputs: { filename_prefix: "promptink", images: ["6", 0] } },
+  }
+}
+
+// Replace "{{name}}" placeholders anywhere in the workflow; whole-string numeric placeholders become numbers
+function fillComfyWorkflow(value: unknown, values: Record<string, string | number>): unknown {
+  if (typeof value === "string") {
+    const whole = value.match(/^\{\{(\w+)\}\}$/)
+    if (whole && whole[1]! in values) return values[whole[1]!]
+    return value.replace(/\{\{(\w+)\}\}/g, (original, name: string) => name in values ? String(values[name]) : original)
+  }
+  if (Array.isArray(value)) return value.map(item => fillComfyWorkflow(item, values))
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillComfyWorkflow(item, values)]))
+  }
+  return value
+}
+
+async function loadComfyWorkflow(): Promise<unknown> {
+  const { workflowPath } = config.imageProviders.comfyui
+  if (!workflowPath) return getDefaultComfyWorkflow()
+  return JSON.parse(await Bun.file(workflowPath).text())
+}
+
+interface ComfyHistoryEntry {
+  status?: { status_str?: string; completed?: boolean; messages?: unknown[] }
+  outputs?: Record<string, { images?: { filename: string; subfolder: string; type: string }[] }>
+}
+
+const comfyUIProvider: ImageProvider = {
+  id: "comfyui",
+  name: "ComfyUI",
+  capabilities: { sizes: ["512x512", ...APP_SIZES], edit: false, variation: false, negativePrompt: true },
+  isConfigured: () => !!config.imageProviders.comfyui.baseUrl,
+  getModel: () => "comfyui",
+  async generate(options) {
+    const baseUrl = config.imageProviders.comfyui.baseUrl!.replace(/\/$/, "")
+    const { width, height } = parseSize(options.size)
+    const workflow = fillComfyWorkflow(await loadComfyWorkflow(), {
+      prompt: options.prompt,
+      negative_prompt: options.negativePrompt || "",
+      width,
+      height,
+      batch_size: clampCount(options.n),
+      seed: Math.floor(Math.random() * 2 ** 32),
+      checkpoint: config.imageProviders.comfyui.checkpoint,
+    })
+
+    log("INFO", "Queueing ComfyUI workflow", { size: options.size })
+
+    const queued = await fetch(`${baseUrl}/prompt`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ prompt: workflow, client_id: "promptink" }),
+    })
+    if (!queued.ok) {
+      throw new Error(await readErrorMessage(queued, "Failed to queue ComfyUI workflow"))
+    }
+    const { prompt_id: promptId } = await queued.json() as { prompt_id: string }
+
+    // ComfyUI runs the graph asynchronously - poll its history until outputs appear
+    const deadline = Date.now() + COMFYUI_TIMEOUT_MS
+    let entry: ComfyHistoryEntry | undefined
+    while (Date.now() < deadline) {
+      await Bun.sleep(COMFYUI_POLL_INTERVAL_MS)
+      const history = await fetch(`${baseUrl}/history/${promptId}`)
+      if (!history.ok) continue
+      entry = (await history.json() as Record<string, ComfyHistoryEntry>)[promptId]
+      if (entry?.status?.status_str === "error") {
+        throw new Error("ComfyUI workflow failed")
+      }
+      if (entry?.status?.completed) break
+    }
+    if (!entry?.status?.completed) {
+      throw new Error("Timed out waiting for ComfyUI")
+    }
+
+    const outputs = Object.values(entry.outputs || {}).flatMap(output => output.images || [])
+    if (outputs.length === 0) {
+      throw new Error("ComfyUI workflow produced no images")
+    }
+
+    const images = await Promise.all(outputs.map(async output => {
+      const params = new URLSearchParams({ filename: output.filename, subfolder: output.subfolder, type: output.type })
+      const response = await fetch(`${baseUrl}/view?${params}`)
+      if (!response.ok) {
+        throw new Error(`Failed to download ComfyUI image: HTTP ${response.status}`)
+      }
+      return Buffer.from(await response.arrayBuffer())
+    }))
+    return toImageResponse(images, options.responseFormat)
+  },
+}
+
+// --- Placeholder (tests and offline development) ---
+
+function hashImage(image: ArrayBuffer): string {
+  return createHash("sha256").update(Buffer.from(image)).digest("hex")
+}
+
+async function renderPlaceholders(seed: string, size: ImageSize, label: string, n?: number): Promise<Buffer[]> {
+  const count = clampCount(n)
+  return Promise.all(Array.from({ length: count }, (_, i) =>
+    renderPlaceholderImage(count === 1 ? seed : `${seed}#${i}`, size, label)
+  ))
+}
+
+const placeholderProvider: ImageProvider = {
+  id: "placeholder",
+  name: "Placeholder",
+  capabilities: { sizes: ["256x256", "512x512", ...APP_SIZES], edit: true, variation: true, negativePrompt: true },
+  isConfigured: () => config.imageProviders.placeholderEnabled,
+  getModel: () => "placeholder",
+  async generate(options) {
+    const seed = `${options.prompt}|${options.negativePrompt || ""}`
+    const images = await renderPlaceholders(seed, options.size, options.prompt, options.n)
+    const response = toImageResponse(images, options.responseFormat)
+    response.data.forEach(item => { item.revised_prompt = options.prompt })
+    return response
+  },
+  async edit(image, prompt, options) {
+    const seed = `edit|${hashImage(image)}|${options?.mask ? hashImage(options.mask) : ""}|${prompt}`
+    const images = await renderPlaceholders(seed, options?.size || "1024x1024", prompt, options?.n)
+    return toImageResponse(images, options?.responseFormat)
+  },
+  async variation(image, options) {
+    const images = await renderPlaceholders(`variation|${hashImage(image)}`, options?.size || "1024x1024", "Variation", options?.n)
+    return toImageResponse(images, options?.responseFormat)
+  },
+}
+
+const IMAGE_PROVIDERS: Record<ImageProviderId, ImageProvider> = {
+  "openai": openAIProvider,
+  "openai-compatible": openAICompatibleProvider,
+  "stable-diffusion": stableDiffusionProvider,
+  "comfyui": comfyUIProvider,
+  "placeholder": placeholderProvider,
+}
+
+// Providers usable on this server, in display order
+export function getAvailableImageProviders(): ImageProvider[] {
+  return IMAGE_PROVIDER_IDS.map(id => IMAGE_PROVIDERS[id]).filter(provider => provider.isConfigured())
+}
+
+// The configured default, falling back to the first available provider
+export function getDefaultImageProviderId(): ImageProviderId | null {
+  const configured = config.imageProviders.default
+  if (isImageProviderId(configured) && IMAGE_PROVIDERS[configured].isConfigured()) {
+    return configured
+  }
+  return getAvailableImageProviders()[0]?.id ?? null
+}
+
+// Look up the provider for a request or job; null/empty means the server default
+export function resolveImageProvider(id: unknown): ImageProvider | { error: string } {
+  if (id === undefined || id === null || id === "") {
+    const defaultId = getDefaultImageProviderId()
+    return defaultId ? IMAGE_PROVIDERS[defaultId] : { error: "No image provider is configured" }
+  }
+  if (!isImageProviderId(id)) {
+    return { error: `Unknown image provider "${String(id)}"` }
+  }
+  const provider = IMAGE_PROVIDERS[id]
+  if (!provider.isConfigured()) {
+    return { error: `Image provider "${id}" is not configured on this server` }
+  }
+  return provider
+}
+
+// Check a request's options against what the provider supports
+export function validateProviderOptions(
+  provider: ImageProvider,
+  options: { size?: string | null; operation?: "generate" | "edit" | "variation"; negativePrompt?: string | null }
+): string | null {
+  if (options.size && !(provider.capabilities.sizes as string[]).includes(options.size)) {
+    return `${provider.name} supports sizes: ${provider.capabilities.sizes.join(", ")}`
+  }
+  if (options.operation === "edit" && (!provider.capabilities.edit || !provider.edit)) {
+    return `${provider.name} does not support image edits`
+  }
+  if (options.operation === "variation" && (!provider.capabilities.variation || !provider.variation)) {
+    return `${provider.name} does not support image variations`
+  }
+  if (options.negativePrompt && !provider.capabilities.negativePrompt) {
+    return `${provider.name} does not support negative prompts`
+  }
+  return null
+}
+
+// Validate the provider chosen for a scheduled or batch job (empty means the server default)
+export function validateJobProvider(providerId: unknown, size: string | null | undefined): string | null {
+  const provider = resolveImageProvider(providerId)
+  if ("error" in provider) return provider.error
+  return validateProviderOptions(provider, { size })
+}
+
+export function toImageProviderResponse(provider: ImageProvider) {
+  return {
+    id: provider.id,
+    name: provider.name,
+    model: provider.getModel(),
+    capabilities: provider.capabilities,
+  }
+}
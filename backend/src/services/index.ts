@@ -1,10 +1,31 @@
 export * from "./trmnl-service"
 export * from "./openai-service"
+export * from "./openai-client"
+export * from "./openai-mock-service"
+export * from "./placeholder-image"
 export * from "./image-store"
 export * from "./auth-service"
+export * from "./two-factor-service"
 export * from "./order-service"
 export * from "./subscription-service"
+export * from "./entitlement-service"
+export * from "./usage-service"
+export * from "./admin-service"
 export * from "./razorpay-service"
 export * from "./batch-service"
+export * from "./batch-import-service"
+export * from "./batch-matrix-service"
 export * from "./email-service"
+export * from "./email-transport-service"
+export * from "./order-email-service"
 export * from "./repomix-service"
+export * from "./eink-service"
+export * from "./playlist-service"
+export * from "./prompt-template-service"
+export * from "./style-preset-service"
+export * from "./conversation-service"
+export * from "./image-provider-service"
+export * from "./job-queue-service"
+export * from "./event-service"
+export * from "./web-push-service"
+export * from "./notification-service"
@@ -0,0 +1,278 @@
+import { hostname } from "os"
+import { config } from "../config"
+import { db, jobQueueQueries, type QueuedJob, type QueuedJobCandidate, type QueuedJobWithUser } from "../db"
+import { log, toISODate } from "../utils"
+
+/**
+ * SQLite-backed job queue. Workers lease a job before running it, failed jobs are retried
+ * with exponential backoff and end up in a dead-letter state once their attempts run out.
+ * Jobs survive restarts: a job whose worker died is picked up again when its lease expires.
+ */
+
+export const JOB_TYPES = ["batch_item", "trmnl_sync", "scheduled_job"] as const
+
+export type JobType = typeof JOB_TYPES[number]
+
+export const JOB_STATUSES = ["queued", "running", "completed", "dead"] as const
+
+export type JobStatus = typeof JOB_STATUSES[number]
+
+export function isJobStatus(value: unknown): value is JobStatus {
+  return typeof value === "string" && (JOB_STATUSES as readonly string[]).includes(value)
+}
+
+// Longest wait between two attempts, however many have failed
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000
+
+// Completed jobs are kept this long for the admin view and fairness ordering
+const COMPLETED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+// Assumed job duration for estimates until some jobs of the type have completed
+const DEFAULT_JOB_DURATION_MS = 20 * 1000
+
+// Identifies this process in locked_by
+const WORKER_ID = `${hostname()}:${process.pid}`
+
+export interface JobHandler {
+  run(job: QueuedJob): Promise<void>
+  // Called once when the job moves to the dead-letter state
+  onDeadLetter?(job: QueuedJob, error: string): void
+  maxAttempts?: number
+  // Errors that won't go away on retry (e.g. a rejected prompt) dead-letter the job at once
+  isPermanentFailure?(error: string): boolean
+  // Minimum time between starting two jobs of this type (provider and TRMNL rate limits)
+  minIntervalMs?: number
+  // Minimum time between starting two jobs of this type for the same user (per-plan budgets)
+  userIntervalMs?(userId: number): number
+  leaseMs?: number
+}
+
+const handlers = new Map<JobType, JobHandler>()
+
+export function registerJobHandler(type: JobType, handler: JobHandler): void {
+  handlers.set(type, handler)
+}
+
+export interface EnqueueJobInput {
+  type: JobType
+  userId?: number | null
+  payload?: unknown
+  dedupeKey?: string | null
+  groupKey?: string | null
+  runAt?: Date
+  maxAttempts?: number
+  // Queue a finished job with the same dedupe key again (manual retries, resumed batches)
+  requeueFinished?: boolean
+}
+
+// Add a job to the queue. Returns null when a job with the same dedupe key already exists
+// (unless requeueFinished is set and that job has finished).
+export function enqueueJob(input: EnqueueJobInput): QueuedJob | null {
+  const statement = input.requeueFinished ? jobQueueQueries.createOrRequeue : jobQueueQueries.create
+  const job = statement.get(
+    input.type,
+    input.userId ?? null,
+    JSON.stringify(input.payload ?? {}),
+    input.maxAttempts ?? handlers.get(input.type)?.maxAttempts ?? config.jobQueue.maxAttempts,
+    input.dedupeKey ?? null,
+    input.groupKey ?? null,
+    (input.runAt ?? new Date()).toISOString()
+  )
+  if (job) {
+    log("DEBUG", "Job queued", { jobId: job.id, type: job.type, userId: job.user_id })
+  }
+  return job ?? null
+}
+
+export function parseJobPayload<T>(job: QueuedJob): T {
+  return JSON.parse(job.payload) as T
+}
+
+// Delay before retrying a job that has failed `attempts` times
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(config.jobQueue.retryBaseMs * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS)
+}
+
+// Whether the job's user has waited out their budget since their last start
+function isWithinUserBudget(job: QueuedJobCandidate, handler: JobHandler, now: Date): boolean {
+  if (!handler.userIntervalMs || job.user_id === null || !job.user_last_started_at) {
+    return true
+  }
+  return now.getTime() - new Date(job.user_last_started_at).getTime() >= handler.userIntervalMs(job.user_id)
+}
+
+// Claim the next runnable job of a type, respecting global concurrency and the type's rate limits.
+// Users take turns: the user served least recently goes first.
+function claimNextJob(type: JobType, handler: JobHandler): QueuedJob | null {
+  const claim = db.transaction((): QueuedJob | null => {
+    const now = new Date()
+    const nowIso = now.toISOString()
+
+    const running = jobQueueQueries.countRunning.get(nowIso)?.count ?? 0
+    if (running >= config.jobQueue.concurrency) {
+      return null
+    }
+
+    if (handler.minIntervalMs) {
+      const lastStartedAt = jobQueueQueries.findLastStartedAt.get(type)?.started_at
+      if (lastStartedAt && now.getTime() - new Date(lastStartedAt).getTime() < handler.minIntervalMs) {
+        return null
+      }
+    }
+
+    const next = jobQueueQueries.findNextQueuedPerUser.all(type, nowIso)
+      .find(candidate => isWithinUserBudget(candidate, handler, now))
+    if (!next) {
+      return null
+    }
+
+    const lockedUntil = new Date(now.getTime() + (handler.leaseMs ?? config.jobQueue.leaseMs)).toISOString()
+    return jobQueueQueries.claim.get(WORKER_ID, lockedUntil, nowIso, next.id) ?? null
+  })
+  return claim.immediate()
+}
+
+// A worker whose lease expired and was taken over finishes too late; its result is dropped
+function logLostLease(job: QueuedJob, outcome: string): void {
+  log("WARN", "Job lease lost before it finished, dropping result", {
+    jobId: job.id,
+    type: job.type,
+    lockedBy: job.locked_by,
+    attempt: job.attempts,
+    outcome,
+  })
+}
+
+// Schedule a retry, or dead-letter the job when it has no attempts left
+function failJob(job: QueuedJob, handler: JobHandler, error: string): void {
+  const now = new Date()
+
+  if (job.attempts >= job.max_attempts || handler.isPermanentFailure?.(error)) {
+    if (jobQueueQueries.markDead.run(error, now.toISOString(), job.id, job.locked_by, job.attempts).changes === 0) {
+      logLostLease(job, "dead")
+      return
+    }
+    log("ERROR", "Job moved to dead letter", { jobId: job.id, type: job.type, attempts: job.attempts, error })
+    try {
+      handler.onDeadLetter?.(job, error)
+    } catch (hookError) {
+      log("ERROR", "Dead letter handler failed", { jobId: job.id, error: String(hookError) })
+    }
+    return
+  }
+
+  const delayMs = getRetryDelayMs(job.attempts)
+  const retryAt = new Date(now.getTime() + delayMs).toISOString()
+  if (jobQueueQueries.retry.run(retryAt, error, job.id, job.locked_by, job.attempts).changes === 0) {
+    logLostLease(job, "retry")
+    return
+  }
+  log("WARN", "Job failed, will retry", { jobId: job.id, type: job.type, attempts: job.attempts, retryInMs: delayMs, error })
+}
+
+async function executeJob(job: QueuedJob, handler: JobHandler): Promise<void> {
+  try {
+    await handler.run(job)
+  } catch (error) {
+    failJob(job, handler, String(error).replace(/^Error:\s*/, ""))
+    return
+  }
+
+  if (jobQueueQueries.complete.run(new Date().toISOString(), job.id, job.locked_by, job.attempts).changes === 0) {
+    logLostLease(job, "completed")
+  }
+}
+
+// Return jobs whose worker stopped (crash, restart) without finishing them
+function releaseExpiredLeases(type: JobType, handler: JobHandler): void {
+  const expired = jobQueueQueries.findExpiredLeases.all(type, new Date().toISOString())
+  for (const job of expired) {
+    log("WARN", "Job lease expired", { jobId: job.id, type, lockedBy: job.locked_by })
+    failJob(job, handler, "Worker stopped before the job finished")
+  }
+}
+
+// Run queued jobs of one type until none can be claimed. Returns the number of jobs run.
+export async function runQueuedJobs(type: JobType): Promise<number> {
+  const handler = handlers.get(type)
+  if (!handler) {
+    log("WARN", "No handler registered for job type", { type })
+    return 0
+  }
+
+  releaseExpiredLeases(type, handler)
+
+  const running = new Set<Promise<void>>()
+  let started = 0
+  while (true) {
+    const job = claimNextJob(type, handler)
+    if (!job) {
+      if (running.size === 0) break
+      // Wait for a slot to free up, then try again
+      await Promise.race(running)
+      continue
+    }
+
+    started++
+    const task: Promise<void> = executeJob(job, handler).finally(() => running.delete(task))
+    running.add(task)
+  }
+  return started
+}
+
+// Estimate when a user's `remaining` jobs of a type will have finished, given their budget,
+// the recent job duration and how many users currently share the workers
+export function estimateCompletion(type: JobType, userId: number, remaining: number): Date | null {
+  if (remaining <= 0) {
+    return null
+  }
+
+  const handler = handlers.get(type)
+  const now = Date.now()
+  const durationMs = jobQueueQueries.averageDurationMs.get(type)?.duration_ms ?? DEFAULT_JOB_DURATION_MS
+  const userIntervalMs = handler?.userIntervalMs?.(userId) ?? 0
+  const activeUsers = Math.max(1, jobQueueQueries.countActiveUsers.get(type)?.count ?? 0)
+
+  // Each user gets roughly an equal share of the workers and of the type's rate limit
+  const perJobMs = Math.max(
+    durationMs,
+    userIntervalMs,
+    (durationMs * activeUsers) / Math.max(1, config.jobQueue.concurrency),
+    (handler?.minIntervalMs ?? 0) * activeUsers
+  )
+
+  const lastStartedAt = jobQueueQueries.findUserLastStartedAt.get(type, userId)?.started_at
+  const firstStart = lastStartedAt
+    ? Math.max(now, new Date(lastStartedAt).getTime() + userIntervalMs)
+    : now
+
+  return new Date(firstStart + (remaining - 1) * perJobMs + durationMs)
+}
+
+// Drop queued (not yet running) jobs of a group, e.g. when a batch is cancelled
+export function cancelQueuedJobs(groupKey: string): void {
+  jobQueueQueries.deleteQueuedByGroup.run(groupKey)
+}
+
+// Delete completed jobs past the retention window (dead jobs are kept for inspection)
+export function cleanupFinishedJobs(): void {
+  const cutoff = new Date(Date.now() - COMPLETED_JOB_RETENTION_MS).toISOString()
+  jobQueueQueries.deleteCompletedBefore.run(cutoff)
+}
+
+export function getJobQueueCounts(): Record<JobStatus, number> {
+  const counts: Record<JobStatus, number> = { queued: 0, running: 0, completed: 0, dead: 0 }
+  for (const row of jobQueueQueries.countByStatus.all()) {
+    if (isJobStatus(row.status)) {
+      counts[row.status] = row.count
+    }
+  }
+  return counts
+}
+
+export function listJobs(status: JobStatus, limit: number, offset: number): QueuedJobWithUser[] {
+  return jobQueueQueries.findAllByStatus.all(status, limit, offset).map(job => ({
+    ...job,
+    created_at: toISODate(job.created_at) || job.created_at,
+  }))
+}
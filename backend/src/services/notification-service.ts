@@ -0,0 +1,194 @@
+import {
+  notificationPreferenceQueries,
+  pushSubscriptionQueries,
+  userQueries,
+  type BatchJob,
+  type Order,
+  type ScheduledJob,
+} from "../db"
+import { log } from "../utils"
+import { sendNotificationEmail } from "./email-service"
+import { sendOrderShippedEmail, type EmailRecipient } from "./order-email-service"
+import { isWebPushConfigured, sendWebPush, type PushTarget } from "./web-push-service"
+
+/**
+ * Job and account notifications, delivered by Web Push (to every browser the user
+ * subscribed) and email, on the channels the user enabled for each event.
+ */
+
+export const NOTIFICATION_EVENTS = ["batch_finished", "schedule_failing", "subscription_past_due", "order_shipped"] as const
+export type NotificationEvent = typeof NOTIFICATION_EVENTS[number]
+
+export type NotificationPreferences = Record<NotificationEvent, { push: boolean; email: boolean }>
+
+// Channels used until the user changes them; batches finish often, so they aren't emailed
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  batch_finished: { push: true, email: false },
+  schedule_failing: { push: true, email: true },
+  subscription_past_due: { push: true, email: true },
+  order_shipped: { push: true, email: true },
+}
+
+// Failed runs in a row before a schedule's owner is told
+export const SCHEDULE_FAILURE_NOTIFY_THRESHOLD = 3
+
+export interface Notification {
+  event: NotificationEvent
+  title: string
+  body: string
+  path: string // App page the notification opens, e.g. "/#batch"
+  sendEmail?: (recipient: EmailRecipient) => Promise<boolean> // Dedicated template instead of the generic one
+}
+
+export interface NotificationDelivery {
+  push: number // Browsers the push was delivered to
+  email: boolean
+}
+
+export function getNotificationPreferences(userId: number): NotificationPreferences {
+  const preferences = structuredClone(DEFAULT_PREFERENCES)
+  for (const row of notificationPreferenceQueries.findByUserId.all(userId)) {
+    if (row.event in preferences) {
+      preferences[row.event as NotificationEvent] = { push: row.push === 1, email: row.email === 1 }
+    }
+  }
+  return preferences
+}
+
+// Validate a preferences update: { [event]: { push?, email? } }
+export function normalizeNotificationPreferences(
+  body: unknown
+): Partial<Record<NotificationEvent, { push?: boolean; email?: boolean }>> | { error: string } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: "Preferences must be an object keyed by event" }
+  }
+
+  const updates: Partial<Record<NotificationEvent, { push?: boolean; email?: boolean }>> = {}
+  for (const [event, channels] of Object.entries(body)) {
+    if (!(NOTIFICATION_EVENTS as readonly string[]).includes(event)) {
+      return { error: `Unknown notification event "${event}"` }
+    }
+    if (!channels || typeof channels !== "object") {
+      return { error: `Preferences for "${event}" must be an object` }
+    }
+    const { push, email } = channels as Record<string, unknown>
+    if ((push !== undefined && typeof push !== "boolean") || (email !== undefined && typeof email !== "boolean")) {
+      return { error: `"push" and "email" for "${event}" must be true or false` }
+    }
+    updates[event as NotificationEvent] = { push, email }
+  }
+  return updates
+}
+
+// Apply validated updates on top of the current preferences
+export function saveNotificationPreferences(
+  userId: number,
+  updates: Partial<Record<NotificationEvent, { push?: boolean; email?: boolean }>>
+): NotificationPreferences {
+  const preferences = getNotificationPreferences(userId)
+  for (const [event, channels] of Object.entries(updates) as [NotificationEvent, { push?: boolean; email?: boolean }][]) {
+    const next = { push: channels.push ?? preferences[event].push, email: channels.email ?? preferences[event].email }
+    notificationPreferenceQueries.upsert.run(userId, event, next.push ? 1 : 0, next.email ? 1 : 0)
+    preferences[event] = next
+  }
+  return preferences
+}
+
+// Validate a browser PushSubscription (as serialized by PushSubscription.toJSON())
+export function normalizePushSubscriptionInput(body: Record<string, unknown>): PushTarget | { error: string } {
+  const endpoint = body.endpoint
+  const keys = body.keys as Record<string, unknown> | undefined
+  if (typeof endpoint !== "string" || !/^https:\/\//.test(endpoint) || endpoint.length > 1000) {
+    return { error: "endpoint must be an https URL" }
+  }
+  if (!keys || typeof keys.p256dh !== "string" || typeof keys.auth !== "string") {
+    return { error: "keys.p256dh and keys.auth are required" }
+  }
+
+  // p256dh is an uncompressed P-256 point, auth a 16-byte secret
+  if (Buffer.from(keys.p256dh, "base64url").length !== 65 || Buffer.from(keys.auth, "base64url").length !== 16) {
+    return { error: "Invalid subscription keys" }
+  }
+  return { endpoint, p256dh: keys.p256dh, auth: keys.auth }
+}
+
+// Deliver a notification over the channels the user enabled; never throws
+export async function notifyUser(userId: number, notification: Notification): Promise<NotificationDelivery> {
+  const delivery: NotificationDelivery = { push: 0, email: false }
+
+  try {
+    const user = userQueries.findById.get(userId)
+    if (!user) return delivery
+
+    const channels = getNotificationPreferences(userId)[notification.event]
+
+    if (channels.push && isWebPushConfigured()) {
+      const payload = { title: notification.title, body: notification.body, url: notification.path, tag: notification.event }
+      for (const subscription of pushSubscriptionQueries.findByUserId.all(userId)) {
+        const result = await sendWebPush(subscription, payload)
+        if (result.success) {
+          delivery.push++
+        } else if (result.expired) {
+          pushSubscriptionQueries.deleteByEndpoint.run(subscription.endpoint)
+          log("INFO", "Removed expired push subscription", { userId, subscriptionId: subscription.id })
+        }
+      }
+    }
+
+    if (channels.email) {
+      delivery.email = notification.sendEmail
+        ? await notification.sendEmail({ email: user.email, name: user.name })
+        : await sendNotificationEmail(user.email, notification, user.name || undefined)
+    }
+
+    log("INFO", "Notification sent", { userId, event: notification.event, ...delivery })
+  } catch (error) {
+    log("ERROR", "Failed to send notification", { userId, event: notification.event, error: String(error) })
+  }
+  return delivery
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text
+}
+
+export function notifyBatchFinished(batch: BatchJob): Promise<NotificationDelivery> {
+  const name = batch.name || `Batch #${batch.id}`
+  const failed = batch.failed_count > 0 ? `, ${batch.failed_count} failed` : ""
+  return notifyUser(batch.user_id, {
+    event: "batch_finished",
+    title: batch.status === "failed" ? "Batch failed" : "Batch finished",
+    body: `${name}: ${batch.completed_count} of ${batch.total_count} images generated${failed}.`,
+    path: "/#batch",
+  })
+}
+
+export function notifyScheduleFailing(job: ScheduledJob, error: string): Promise<NotificationDelivery> {
+  return notifyUser(job.user_id, {
+    event: "schedule_failing",
+    title: "Scheduled image keeps failing",
+    body: `"${truncate(job.prompt, 80)}" failed ${job.consecutive_failures} times in a row. Last error: ${truncate(error, 200)}`,
+    path: "/#schedule",
+  })
+}
+
+export function notifySubscriptionPastDue(userId: number): Promise<NotificationDelivery> {
+  return notifyUser(userId, {
+    event: "subscription_past_due",
+    title: "Subscription payment failed",
+    body: "We couldn't collect your latest subscription payment. Update your payment method to keep full access.",
+    path: "/#subscription",
+  })
+}
+
+export function notifyOrderShipped(order: Order): Promise<NotificationDelivery> {
+  const carrier = order.carrier ? ` with ${order.carrier}` : ""
+  const tracking = order.tracking_number ? ` Tracking number: ${order.tracking_number}.` : ""
+  return notifyUser(order.user_id, {
+    event: "order_shipped",
+    title: "Your order has shipped",
+    body: `Order ${order.order_number} is on its way${carrier}.${tracking}`,
+    path: "/#orders",
+    sendEmail: recipient => sendOrderShippedEmail(order, recipient),
+  })
+}
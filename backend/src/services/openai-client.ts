@@ -0,0 +1,27 @@
+import { config } from "../config"
+import { handleMockOpenAIRequest } from "./openai-mock-service"
+
+/**
+ * Single entry point for OpenAI API calls. Requests go to `OPENAI_BASE_URL`
+ * (default https://api.openai.com/v1), or to the in-process mock when `OPENAI_MOCK=true`.
+ */
+
+// Mock mode needs no API key
+export function isOpenAIConfigured(): boolean {
+  return config.openai.mock || !!config.openai.apiKey
+}
+
+export async function openaiFetch(
+  path: string,
+  init: RequestInit = {},
+  options: { apiKey?: string } = {}
+): Promise<Response> {
+  const headers = new Headers(init.headers)
+  headers.set("Authorization", `Bearer ${options.apiKey ?? config.openai.apiKey}`)
+  const request = new Request(`${config.openai.baseUrl}${path}`, { ...init, headers })
+
+  if (config.openai.mock) {
+    return handleMockOpenAIRequest(request)
+  }
+  return fetch(request)
+}
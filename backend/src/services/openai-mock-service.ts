@@ -0,0 +1,203 @@
+import { createHash } from "crypto"
+import { log } from "../utils"
+import { renderPlaceholderImage } from "./placeholder-image"
+
+/**
+ * Fixture responses for the OpenAI endpoints the app uses. Output depends only on the
+ * request, so the same prompt always gives the same text and image. Served in-process
+ * when OPENAI_MOCK=true, or standalone via `bun run mock:openai`.
+ */
+
+const MAX_MOCK_IMAGES = 4
+
+const MOCK_SUGGESTIONS = {
+  en: [
+    "A lighthouse on a cliff during a thunderstorm at dusk",
+    "A cozy reading nook with rain on the window and a sleeping cat",
+    "A floating island city with waterfalls and hot air balloons",
+    "A neon-lit ramen stall on a quiet street after midnight",
+  ],
+  zh: [
+    "黄昏雷雨中悬崖上的灯塔",
+    "窗外下雨、猫咪熟睡的温馨读书角",
+    "有瀑布和热气球的漂浮岛屿城市",
+    "午夜安静街道上霓虹闪烁的拉面摊",
+  ],
+}
+
+const MOCK_TRANSCRIPTIONS: Record<string, string> = {
+  en: "A watercolor painting of a mountain lake at sunrise",
+  zh: "日出时山间湖泊的水彩画",
+}
+
+interface ChatMessage {
+  role: string
+  content: string
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return Response.json(body, { status })
+}
+
+function errorResponse(message: string, status = 400): Response {
+  return jsonResponse({ error: { message, type: "invalid_request_error" } }, status)
+}
+
+function hashBytes(bytes: ArrayBuffer): string {
+  return createHash("sha256").update(Buffer.from(bytes)).digest("hex")
+}
+
+// Rough token count (~4 characters per token), so usage tracking sees plausible numbers
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+function hasChinese(text: string): boolean {
+  return /[\u4e00-\u9fff]/.test(text)
+}
+
+// Pick a canned reply from the system prompt each caller sends
+function mockChatContent(messages: ChatMessage[]): string {
+  const system = messages.find(m => m.role === "system")?.content || ""
+  const user = [...messages].reverse().find(m => m.role === "user")?.content || ""
+
+  if (/translator/i.test(system)) {
+    const target = /Chinese/.test(system) ? "zh" : "en"
+    return `[${target}] ${user}`
+  }
+  if (/infographic/i.test(system)) {
+    const content = user.replace(/^[^\n]*\n\n/, "").replace(/\s+/g, " ").trim()
+    return `Clean modern infographic with bold headings, icons and a teal gradient, summarizing: ${content.slice(0, 200)}`
+  }
+  if (/prompt generator|提示生成器/i.test(system)) {
+    return MOCK_SUGGESTIONS[hasChinese(system) ? "zh" : "en"].join("\n")
+  }
+  // Prompt enhancement echoes the prompt with fixed detail
+  return `${user}, highly detailed, soft natural lighting, rich colors, balanced composition`
+}
+
+async function mockChatCompletion(request: Request): Promise<Response> {
+  const body = await request.json() as { model?: string; messages?: ChatMessage[] }
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    return errorResponse("messages is required")
+  }
+
+  const content = mockChatContent(body.messages)
+  const promptTokens = estimateTokens(body.messages.map(m => m.content).join("\n"))
+  const completionTokens = estimateTokens(content)
+  return jsonResponse({
+    id: `chatcmpl-mock-${createHash("sha256").update(content).digest("hex").slice(0, 12)}`,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: body.model || "gpt-4o-mini",
+    choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+    usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+  })
+}
+
+async function mockImages(
+  seed: string,
+  label: string,
+  size: string,
+  n: number,
+  responseFormat: string | null,
+  revisedPrompt?: string
+): Promise<Response> {
+  if (!/^\d+x\d+$/.test(size)) {
+    return errorResponse(`Invalid size: ${size}`)
+  }
+  const count = Math.min(Math.max(n || 1, 1), MAX_MOCK_IMAGES)
+  const images = await Promise.all(Array.from({ length: count }, (_, i) =>
+    renderPlaceholderImage(count === 1 ? seed : `${seed}#${i}`, size, label)
+  ))
+
+  return jsonResponse({
+    created: Math.floor(Date.now() / 1000),
+    data: images.map(image => ({
+      ...(responseFormat === "b64_json"
+        ? { b64_json: image.toString("base64") }
+        : { url: `data:image/png;base64,${image.toString("base64")}` }),
+      ...(revisedPrompt ? { revised_prompt: revisedPrompt } : {}),
+    })),
+  })
+}
+
+async function mockImageGeneration(request: Request): Promise<Response> {
+  const body = await request.json() as { prompt?: string; model?: string; size?: string; n?: number; response_format?: string }
+  if (!body.prompt) {
+    return errorResponse("prompt is required")
+  }
+  const size = body.size || "1024x1024"
+  return mockImages(`${body.model || "dall-e-3"}|${body.prompt}`, body.prompt, size, body.n || 1, body.response_format || null, body.prompt)
+}
+
+async function mockImageEdit(request: Request, variation: boolean): Promise<Response> {
+  const form = await request.formData()
+  const image = form.get("image")
+  if (!(image instanceof Blob)) {
+    return errorResponse("image is required")
+  }
+  const prompt = form.get("prompt")?.toString() || ""
+  if (!variation && !prompt) {
+    return errorResponse("prompt is required")
+  }
+
+  const mask = form.get("mask")
+  const imageHash = hashBytes(await image.arrayBuffer())
+  const maskHash = mask instanceof Blob ? hashBytes(await mask.arrayBuffer()) : ""
+  const seed = variation ? `variation|${imageHash}` : `edit|${imageHash}|${maskHash}|${prompt}`
+
+  return mockImages(
+    seed,
+    variation ? "Variation" : prompt,
+    form.get("size")?.toString() || "1024x1024",
+    parseInt(form.get("n")?.toString() || "1"),
+    form.get("response_format")?.toString() || null
+  )
+}
+
+async function mockTranscription(request: Request): Promise<Response> {
+  const form = await request.formData()
+  const file = form.get("file")
+  if (!(file instanceof Blob)) {
+    return errorResponse("file is required")
+  }
+  const language = form.get("language")?.toString() === "zh" ? "zh" : "en"
+  // Duration as if the audio were 32 kbps Opus, the usual browser recording
+  const duration = Math.round(file.size / 4000 * 100) / 100
+  return jsonResponse({ text: MOCK_TRANSCRIPTIONS[language], language, duration })
+}
+
+export async function handleMockOpenAIRequest(request: Request): Promise<Response> {
+  const url = new URL(request.url)
+  // Match on the part after /v1 so any base URL works
+  const path = url.pathname.replace(/^.*?\/v1(?=\/)/, "")
+
+  log("DEBUG", "Mock OpenAI request", { method: request.method, path })
+
+  try {
+    if (request.method === "POST") {
+      switch (path) {
+        case "/chat/completions":
+          return await mockChatCompletion(request)
+        case "/images/generations":
+          return await mockImageGeneration(request)
+        case "/images/edits":
+          return await mockImageEdit(request, false)
+        case "/images/variations":
+          return await mockImageEdit(request, true)
+        case "/audio/transcriptions":
+          return await mockTranscription(request)
+      }
+    }
+    // Usage and cost reports for the admin dashboard are empty
+    if (request.method === "GET" && path.startsWith("/organization/")) {
+      return jsonResponse({ object: "page", data: [], has_more: false })
+    }
+  } catch (error) {
+    log("ERROR", "Mock OpenAI request failed", { path, error: String(error) })
+    return errorResponse("Malformed request")
+  }
+
+  return errorResponse(`Mock OpenAI does not implement ${request.method} ${path}`, 404)
+}
@@ -1,21 +1,33 @@
-import { config } from "../config"
 import { log } from "../utils"
 import sharp from "sharp"
+import { isOpenAIConfigured, openaiFetch } from "./openai-client"
+import { recordUsage, type UsageContext } from "./usage-service"
 
-const OPENAI_API_BASE = "https://api.openai.com/v1"
+interface ChatCompletionResult {
+  choices?: { message?: { content?: string } }[]
+  usage?: { prompt_tokens?: number; completion_tokens?: number }
+}
+
+function recordChatUsage(usage: UsageContext, model: string, result: ChatCompletionResult) {
+  recordUsage(usage, {
+    operation: "chat_completion",
+    model,
+    inputTokens: result.usage?.prompt_tokens,
+    outputTokens: result.usage?.completion_tokens,
+  })
+}
 
 // Enhance a user's image prompt using AI
-export async function enhancePrompt(prompt: string): Promise<string> {
-  if (!config.openai.apiKey) {
+export async function enhancePrompt(prompt: string, usage: UsageContext): Promise<string> {
+  if (!isOpenAIConfigured()) {
     throw new Error("OPENAI_API_KEY not configured")
   }
 
   log("INFO", "Enhancing prompt", { promptLength: prompt.length })
 
-  const response = await fetch(`${OPENAI_API_BASE}/chat/completions`, {
+  const response = await openaiFetch("/chat/completions", {
     method: "POST",
     headers: {
-      "Authorization": `Bearer ${config.openai.apiKey}`,
       "Content-Type": "application/json",
     },
     body: JSON.stringify({
@@ -51,7 +63,8 @@ Guidelines:
     throw new Error(error.error?.message || "Failed to enhance prompt")
   }
 
-  const result = await response.json() as { choices?: { message?: { content?: string } }[] }
+  const result = await response.json() as ChatCompletionResult
+  recordChatUsage(usage, "gpt-4o-mini", result)
   const enhancedPrompt = result.choices?.[0]?.message?.content?.trim() || prompt
 
   log("INFO", "Prompt enhanced", { originalLength: prompt.length, enhancedLength: enhancedPrompt.length })
@@ -62,9 +75,10 @@ Guidelines:
 // Translate text using OpenAI Chat API
 export async function translateText(
   text: string,
-  targetLanguage: "zh" | "en"
+  targetLanguage: "zh" | "en",
+  usage: UsageContext
 ): Promise<string> {
-  if (!config.openai.apiKey) {
+  if (!isOpenAIConfigured()) {
     throw new Error("OPENAI_API_KEY not configured")
   }
 
@@ -72,10 +86,9 @@ export async function translateText(
 
   log("INFO", "Translating text", { targetLanguage, textLength: text.length })
 
-  const response = await fetch(`${OPENAI_API_BASE}/chat/completions`, {
+  const response = await openaiFetch("/chat/completions", {
     method: "POST",
     headers: {
-      "Authorization": `Bearer ${config.openai.apiKey}`,
       "Content-Type": "application/json",
     },
     body: JSON.stringify({
@@ -100,7 +113,8 @@ export async function translateText(
     throw new Error(error.error?.message || "Failed to translate text")
   }
 
-  const result = await response.json() as { choices?: { message?: { content?: string } }[] }
+  const result = await response.json() as ChatCompletionResult
+  recordChatUsage(usage, "gpt-4o-mini", result)
   const translatedText = result.choices?.[0]?.message?.content?.trim() || text
 
   log("INFO", "Translation completed", { originalLength: text.length, translatedLength: translatedText.length })
@@ -122,6 +136,7 @@ export interface GenerateImageOptions {
   quality?: ImageQuality
   style?: ImageStyle
   response_format?: ResponseFormat
+  usage: UsageContext
 }
 
 export interface GeneratedImage {
@@ -144,18 +159,18 @@ export async function generateImage(options: GenerateImageOptions): Promise<Imag
     quality = "standard",
     style = "vivid",
     response_format = "url",
+    usage,
   } = options
 
-  if (!config.openai.apiKey) {
+  if (!isOpenAIConfigured()) {
     throw new Error("OPENAI_API_KEY not configured")
   }
 
   log("INFO", "Generating image", { prompt, model, size, quality, style })
 
-  const response = await fetch(`${OPENAI_API_BASE}/images/generations`, {
+  const response = await openaiFetch("/images/generations", {
     method: "POST",
     headers: {
-      "Authorization": `Bearer ${config.openai.apiKey}`,
       "Content-Type": "application/json",
     },
     body: JSON.stringify({
@@ -177,6 +192,14 @@ export async function generateImage(options: GenerateImageOptions): Promise<Imag
 
   const result = await response.json() as ImageGenerationResponse
   log("INFO", "Image generated successfully", { created: result.created, count: result.data.length })
+  recordUsage(usage, {
+    operation: "image_generation",
+    model,
+    size,
+    // DALL-E 2 has a single quality
+    quality: model === "dall-e-3" ? quality : "standard",
+    imageCount: result.data.length,
+  })
 
   return result
 }
@@ -184,18 +207,19 @@ export async function generateImage(options: GenerateImageOptions): Promise<Imag
 export async function generateImageEdit(
   image: ArrayBuffer,
   prompt: string,
-  options?: {
+  options: {
     mask?: ArrayBuffer
     n?: number
     size?: ImageSize
     response_format?: ResponseFormat
+    usage: UsageContext
   }
 ): Promise<ImageGenerationResponse> {
-  if (!config.openai.apiKey) {
+  if (!isOpenAIConfigured()) {
     throw new Error("OPENAI_API_KEY not configured")
   }
 
-  log("INFO", "Editing image", { prompt, size: options?.size, hasMask: !!options?.mask })
+  log("INFO", "Editing image", { prompt, size: options.size, hasMask: !!options.mask })
 
   // Get original image dimensions
   const originalMeta = await sharp(Buffer.from(image)).metadata()
@@ -255,11 +279,8 @@ export async function generateImageEdit(
     formData.append("response_format", options.response_format)
   }
 
-  const response = await fetch(`${OPENAI_API_BASE}/images/edits`, {
+  const response = await openaiFetch("/images/edits", {
     method: "POST",
-    headers: {
-      "Authorization": `Bearer ${config.openai.apiKey}`,
-    },
     body: formData,
   })
 
@@ -269,22 +290,30 @@ export async function generateImageEdit(
     throw new Error(error.error?.message || "Failed to edit image")
   }
 
-  return await response.json() as ImageGenerationResponse
+  const result = await response.json() as ImageGenerationResponse
+  recordUsage(options.usage, {
+    operation: "image_edit",
+    model: "dall-e-2",
+    size: options.size || "1024x1024",
+    imageCount: result.data.length,
+  })
+  return result
 }
 
 export async function generateImageVariation(
   image: ArrayBuffer,
-  options?: {
+  options: {
     n?: number
     size?: ImageSize
     response_format?: ResponseFormat
+    usage: UsageContext
   }
 ): Promise<ImageGenerationResponse> {
-  if (!config.openai.apiKey) {
+  if (!isOpenAIConfigured()) {
     throw new Error("OPENAI_API_KEY not configured")
   }
 
-  log("INFO", "Creating image variation", { size: options?.size })
+  log("INFO", "Creating image variation", { size: options.size })
 
   // Convert image to RGBA PNG format (required by DALL-E 2 variations API)
   const rgbaImage = await sharp(Buffer.from(image))
@@ -306,11 +335,8 @@ export async function generateImageVariation(
     formData.append("response_format", options.response_format)
   }
 
-  const response = await fetch(`${OPENAI_API_BASE}/images/variations`, {
+  const response = await openaiFetch("/images/variations", {
     method: "POST",
-    headers: {
-      "Authorization": `Bearer ${config.openai.apiKey}`,
-    },
     body: formData,
   })
 
@@ -320,23 +346,29 @@ export async function generateImageVariation(
     throw new Error(error.error?.message || "Failed to create image variation")
   }
 
-  return await response.json() as ImageGenerationResponse
+  const result = await response.json() as ImageGenerationResponse
+  recordUsage(options.usage, {
+    operation: "image_variation",
+    model: "dall-e-2",
+    size: options.size || "1024x1024",
+    imageCount: result.data.length,
+  })
+  return result
 }
 
 /**
  * Analyze markdown/text content and generate an infographic prompt
  */
-export async function generateInfographicPrompt(content: string): Promise<string> {
-  if (!config.openai.apiKey) {
+export async function generateInfographicPrompt(content: string, usage: UsageContext): Promise<string> {
+  if (!isOpenAIConfigured()) {
     throw new Error("OPENAI_API_KEY not configured")
   }
 
   log("INFO", "Analyzing content for infographic", { contentLength: content.length })
 
-  const response = await fetch(`${OPENAI_API_BASE}/chat/completions`, {
+  const response = await openaiFetch("/chat/completions", {
     method: "POST",
     headers: {
-      "Authorization": `Bearer ${config.openai.apiKey}`,
       "Content-Type": "application/json",
     },
     body: JSON.stringify({
@@ -375,7 +407,8 @@ Output ONLY the image generation prompt, nothing else. Start directly with the v
     throw new Error(error.error?.message || "Failed to analyze content")
   }
 
-  const result = await response.json() as { choices?: { message?: { content?: string } }[] }
+  const result = await response.json() as ChatCompletionResult
+  recordChatUsage(usage, "gpt-4o", result)
   const infographicPrompt = result.choices?.[0]?.message?.content?.trim()
 
   if (!infographicPrompt) {
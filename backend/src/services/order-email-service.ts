@@ -0,0 +1,267 @@
+import { config } from "../config"
+import { toISODate } from "../utils"
+import type { Order } from "../db"
+import { renderEmail, sendEmail, type EmailContent } from "./email-service"
+
+/**
+ * Transactional order emails (confirmation, receipt, shipped, delivered, gift notice)
+ * in the languages of the app (see frontend useLanguage). Each order keeps the
+ * language the buyer used when placing it.
+ */
+
+export type EmailLanguage = "en" | "zh"
+
+export interface EmailRecipient {
+  email: string
+  name: string | null
+}
+
+// Amounts in the smallest currency unit, as stored on the order
+export interface OrderAmounts {
+  frames: number
+  gst: number
+  subscription: number
+  total: number
+}
+
+type EmailDetail = NonNullable<EmailContent["details"]>[number]
+
+const ORDERS_URL = `${config.email.frontendUrl}/#orders`
+
+const COPY = {
+  en: {
+    locale: "en-US",
+    greeting: (name: string) => `Hi ${name},`,
+    footer: "This is an automated message from Promptink. Please do not reply to this email.",
+    viewOrder: "View your order",
+    trackPackage: "Track your package",
+    setUpFrame: "Set up your frame",
+    labels: {
+      order: "Order",
+      quantity: "TRMNL frames",
+      shipTo: "Shipping to",
+      giftFor: "Gift for",
+      giftMessage: "Gift message",
+      frames: "Frames",
+      gst: "GST",
+      subscription: "Subscription (first month)",
+      total: "Total paid",
+      paymentId: "Payment ID",
+      paidOn: "Paid on",
+      carrier: "Carrier",
+      trackingNumber: "Tracking number",
+      deliveredOn: "Delivered on",
+    },
+    confirmation: {
+      subject: (orderNumber: string) => `Order ${orderNumber} confirmed`,
+      title: "Thanks for your order!",
+      body: "We've received your order and are getting it ready. We'll email you again when it ships.",
+    },
+    receipt: {
+      subject: (orderNumber: string) => `Receipt for order ${orderNumber}`,
+      title: "Payment receipt",
+      body: "We've received your payment. Keep this email for your records.",
+    },
+    shipped: {
+      subject: (orderNumber: string) => `Order ${orderNumber} has shipped`,
+      title: "Your order is on its way",
+      body: (carrier: string | null) => carrier
+        ? `Your order has shipped with ${carrier}.`
+        : "Your order has shipped.",
+    },
+    delivered: {
+      subject: (orderNumber: string) => `Order ${orderNumber} was delivered`,
+      title: "Your order has arrived",
+      body: "Your order was delivered. Set up your frame in Settings to start sending images to it.",
+    },
+    gift: {
+      subject: (sender: string) => `${sender} sent you a gift`,
+      title: "A gift is on its way",
+      body: (sender: string) => `${sender} sent you a TRMNL e-ink frame from Promptink. It has shipped and will arrive soon.`,
+      message: "Their message:",
+    },
+  },
+  zh: {
+    locale: "zh-CN",
+    greeting: (name: string) => `${name}，您好：`,
+    footer: "这是 Promptink 自动发送的邮件，请勿直接回复。",
+    viewOrder: "查看订单",
+    trackPackage: "查看物流",
+    setUpFrame: "设置相框",
+    labels: {
+      order: "订单",
+      quantity: "TRMNL 相框",
+      shipTo: "收货地址",
+      giftFor: "礼物收件人",
+      giftMessage: "礼物留言",
+      frames: "相框",
+      gst: "消费税",
+      subscription: "订阅（首月）",
+      total: "实付金额",
+      paymentId: "支付编号",
+      paidOn: "支付时间",
+      carrier: "承运商",
+      trackingNumber: "运单号",
+      deliveredOn: "送达时间",
+    },
+    confirmation: {
+      subject: (orderNumber: string) => `订单 ${orderNumber} 已确认`,
+      title: "感谢您的订购！",
+      body: "我们已收到您的订单，正在为您准备。发货后我们会再发邮件通知您。",
+    },
+    receipt: {
+      subject: (orderNumber: string) => `订单 ${orderNumber} 付款收据`,
+      title: "付款收据",
+      body: "我们已收到您的付款，请保留此邮件作为凭证。",
+    },
+    shipped: {
+      subject: (orderNumber: string) => `订单 ${orderNumber} 已发货`,
+      title: "您的订单已发货",
+      body: (carrier: string | null) => carrier
+        ? `您的订单已通过 ${carrier} 发出。`
+        : "您的订单已发出。",
+    },
+    delivered: {
+      subject: (orderNumber: string) => `订单 ${orderNumber} 已送达`,
+      title: "您的订单已送达",
+      body: "您的订单已送达。在设置中添加相框，即可开始向它发送图片。",
+    },
+    gift: {
+      subject: (sender: string) => `${sender} 送了您一份礼物`,
+      title: "您的礼物正在路上",
+      body: (sender: string) => `${sender} 通过 Promptink 送了您一台 TRMNL 电子墨水相框。礼物已发货，很快就会送达。`,
+      message: "对方留言：",
+    },
+  },
+} as const
+
+function getCopy(order: Order) {
+  return COPY[order.language === "zh" ? "zh" : "en"]
+}
+
+function formatAmount(amount: number, currency: string, locale: string): string {
+  return new Intl.NumberFormat(locale, { style: "currency", currency }).format(amount / 100)
+}
+
+function formatDate(sqliteDate: string | null, locale: string): string {
+  const iso = toISODate(sqliteDate)
+  const date = iso ? new Date(iso) : new Date()
+  return new Intl.DateTimeFormat(locale, { dateStyle: "long", timeZone: "UTC" }).format(date)
+}
+
+function formatAddress(order: Order): string {
+  return [
+    order.shipping_name,
+    order.shipping_address_line1,
+    order.shipping_address_line2,
+    `${order.shipping_city}, ${order.shipping_state} ${order.shipping_postal_code}`,
+    order.shipping_country,
+  ].filter(Boolean).join("\n")
+}
+
+function send(order: Order, to: string, subject: string, content: EmailContent): Promise<boolean> {
+  const { htmlContent, textContent } = renderEmail(content, order.language === "zh" ? "zh" : "en")
+  return sendEmail({ to, subject: `${subject} - Promptink`, htmlContent, textContent })
+}
+
+export function sendOrderConfirmationEmail(order: Order, buyer: EmailRecipient): Promise<boolean> {
+  const copy = getCopy(order)
+  const details: EmailDetail[] = [
+    { label: copy.labels.order, value: order.order_number },
+    { label: copy.labels.quantity, value: String(order.quantity) },
+    { label: copy.labels.shipTo, value: formatAddress(order) },
+  ]
+  if (order.is_gift) {
+    details.push({ label: copy.labels.giftFor, value: order.gift_recipient_name || order.shipping_name })
+    if (order.gift_message) details.push({ label: copy.labels.giftMessage, value: order.gift_message })
+  }
+
+  return send(order, buyer.email, copy.confirmation.subject(order.order_number), {
+    title: copy.confirmation.title,
+    greeting: copy.greeting(buyer.name || buyer.email),
+    paragraphs: [copy.confirmation.body],
+    details,
+    action: { label: copy.viewOrder, url: ORDERS_URL },
+    footer: copy.footer,
+  })
+}
+
+export function sendPaymentReceiptEmail(order: Order, buyer: EmailRecipient, amounts: OrderAmounts): Promise<boolean> {
+  const copy = getCopy(order)
+  const money = (amount: number) => formatAmount(amount, order.currency, copy.locale)
+  const details: EmailDetail[] = [
+    { label: copy.labels.order, value: order.order_number },
+    { label: copy.labels.frames, value: `${order.quantity} × ${money(order.unit_price)}` },
+    { label: copy.labels.gst, value: money(amounts.gst) },
+  ]
+  if (amounts.subscription > 0) {
+    details.push({ label: copy.labels.subscription, value: money(amounts.subscription) })
+  }
+  details.push(
+    { label: copy.labels.total, value: money(amounts.total) },
+    { label: copy.labels.paymentId, value: order.razorpay_payment_id || "-" },
+    { label: copy.labels.paidOn, value: formatDate(order.paid_at, copy.locale) },
+  )
+
+  return send(order, buyer.email, copy.receipt.subject(order.order_number), {
+    title: copy.receipt.title,
+    greeting: copy.greeting(buyer.name || buyer.email),
+    paragraphs: [copy.receipt.body],
+    details,
+    footer: copy.footer,
+  })
+}
+
+function shippingDetails(order: Order, copy: ReturnType<typeof getCopy>) {
+  const details: EmailDetail[] = [{ label: copy.labels.order, value: order.order_number }]
+  if (order.carrier) details.push({ label: copy.labels.carrier, value: order.carrier })
+  if (order.tracking_number) details.push({ label: copy.labels.trackingNumber, value: order.tracking_number })
+  return details
+}
+
+export function sendOrderShippedEmail(order: Order, buyer: EmailRecipient): Promise<boolean> {
+  const copy = getCopy(order)
+  return send(order, buyer.email, copy.shipped.subject(order.order_number), {
+    title: copy.shipped.title,
+    greeting: copy.greeting(buyer.name || buyer.email),
+    paragraphs: [copy.shipped.body(order.carrier)],
+    details: [...shippingDetails(order, copy), { label: copy.labels.shipTo, value: formatAddress(order) }],
+    action: order.tracking_url
+      ? { label: copy.trackPackage, url: order.tracking_url }
+      : { label: copy.viewOrder, url: ORDERS_URL },
+    footer: copy.footer,
+  })
+}
+
+export function sendOrderDeliveredEmail(order: Order, buyer: EmailRecipient): Promise<boolean> {
+  const copy = getCopy(order)
+  return send(order, buyer.email, copy.delivered.subject(order.order_number), {
+    title: copy.delivered.title,
+    greeting: copy.greeting(buyer.name || buyer.email),
+    paragraphs: [copy.delivered.body],
+    details: [
+      { label: copy.labels.order, value: order.order_number },
+      { label: copy.labels.deliveredOn, value: formatDate(order.delivered_at, copy.locale) },
+    ],
+    action: { label: copy.setUpFrame, url: `${config.email.frontendUrl}/#settings` },
+    footer: copy.footer,
+  })
+}
+
+// Sent to the gift recipient's shipping email when a gift order ships
+export function sendGiftRecipientEmail(order: Order, senderName: string): Promise<boolean> {
+  const copy = getCopy(order)
+  const paragraphs: string[] = [copy.gift.body(senderName)]
+  if (order.gift_message) {
+    paragraphs.push(`${copy.gift.message}\n“${order.gift_message}”`)
+  }
+
+  return send(order, order.shipping_email!, copy.gift.subject(senderName), {
+    title: copy.gift.title,
+    greeting: copy.greeting(order.gift_recipient_name || order.shipping_name),
+    paragraphs,
+    details: shippingDetails(order, copy),
+    action: order.tracking_url ? { label: copy.trackPackage, url: order.tracking_url } : undefined,
+    footer: copy.footer,
+  })
+}
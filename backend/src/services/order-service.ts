@@ -1,5 +1,15 @@
 import { db, orderQueries, userQueries, type Order } from "../db"
 import { log } from "../utils"
+import { notifyOrderShipped } from "./notification-service"
+import {
+  sendGiftRecipientEmail,
+  sendOrderConfirmationEmail,
+  sendOrderDeliveredEmail,
+  sendPaymentReceiptEmail,
+  type EmailLanguage,
+  type EmailRecipient,
+  type OrderAmounts,
+} from "./order-email-service"
 
 // Constants
 const UNIT_PRICE = 12000 // $120.00 in cents
@@ -30,6 +40,7 @@ export interface CreateOrderInput {
     recipientName?: string
     message?: string
   }
+  language?: EmailLanguage
 }
 
 export interface OrderResponse {
@@ -110,6 +121,41 @@ function transformOrder(order: Order): OrderResponse {
   }
 }
 
+// Split an order's total the same way createOrder built it
+export function getOrderAmounts(order: Order): OrderAmounts {
+  const frames = order.quantity * order.unit_price
+  const gst = Math.round(frames * GST_RATE)
+  return { frames, gst, subscription: order.total_amount - frames - gst, total: order.total_amount }
+}
+
+function getBuyer(order: Order): EmailRecipient | null {
+  const user = userQueries.findById.get(order.user_id)
+  return user ? { email: user.email, name: user.name } : null
+}
+
+// Order confirmation and payment receipt, once the order is paid
+function sendPaidOrderEmails(order: Order): void {
+  const buyer = getBuyer(order)
+  if (!buyer) return
+  void sendOrderConfirmationEmail(order, buyer)
+  void sendPaymentReceiptEmail(order, buyer, getOrderAmounts(order))
+}
+
+// Statuses an order ships from; shipped and delivered orders have been announced already
+function isAwaitingShipment(status: Order["status"]): boolean {
+  return status === "pending" || status === "paid" || status === "processing"
+}
+
+// Shipped notification for the buyer (push/email per their preferences) and a notice for a gift's recipient
+function announceShipment(order: Order): void {
+  void notifyOrderShipped(order)
+
+  const buyer = getBuyer(order)
+  if (buyer && order.is_gift && order.shipping_email && order.shipping_email.toLowerCase() !== buyer.email.toLowerCase()) {
+    void sendGiftRecipientEmail(order, buyer.name || buyer.email)
+  }
+}
+
 // Create a new order
 export function createOrder(
   input: CreateOrderInput
@@ -186,7 +232,8 @@ export function createOrder(
       input.shipping.country.trim(),
       input.gift?.isGift ? 1 : 0,
       input.gift?.recipientName?.trim() || null,
-      input.gift?.message?.trim() || null
+      input.gift?.message?.trim() || null,
+      input.language === "zh" ? "zh" : "en"
     )
 
     if (!order) {
@@ -331,6 +378,8 @@ export function markOrderPaid(
 
     console.log(`[ORDER] Order marked as paid successfully - newStatus: ${updatedOrder.status}`)
     log("INFO", "Order marked as paid", { orderId, razorpayPaymentId })
+
+    sendPaidOrderEmails(updatedOrder)
     return { order: transformOrder(updatedOrder) }
   } catch (error) {
     console.log(`[ORDER] EXCEPTION in markOrderPaid:`, error)
@@ -358,6 +407,14 @@ export function updateOrderStatus(
       return { error: "Failed to fetch updated order" }
     }
 
+    if (status === "shipped" && isAwaitingShipment(order.status)) {
+      announceShipment(updatedOrder)
+    }
+    if (status === "delivered" && order.status !== "delivered") {
+      const buyer = getBuyer(updatedOrder)
+      if (buyer) void sendOrderDeliveredEmail(updatedOrder, buyer)
+    }
+
     log("INFO", "Order status updated", { orderId, status })
     return { order: transformOrder(updatedOrder) }
   } catch (error) {
@@ -387,6 +444,11 @@ export function addOrderTracking(
       return { error: "Failed to fetch updated order" }
     }
 
+    // Adding tracking marks the order shipped; corrections to the tracking don't notify again
+    if (isAwaitingShipment(order.status)) {
+      announceShipment(updatedOrder)
+    }
+
     log("INFO", "Order tracking added", { orderId, trackingNumber, carrier })
     return { order: transformOrder(updatedOrder) }
   } catch (error) {
@@ -0,0 +1,71 @@
+import { createHash } from "crypto"
+import sharp from "sharp"
+
+/**
+ * Deterministic placeholder images, used by the placeholder image provider and the
+ * OpenAI mock mode so tests and offline development get stable output.
+ */
+
+function parseSize(size: string): { width: number; height: number } {
+  const [width, height] = size.split("x").map(Number)
+  return { width: width || 1024, height: height || 1024 }
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`)
+}
+
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = []
+  let line = ""
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if ((line + " " + word).trim().length > maxChars && line) {
+      lines.push(line)
+      line = word
+    } else {
+      line = (line + " " + word).trim()
+    }
+  }
+  if (line) lines.push(line)
+  if (lines.length > maxLines) {
+    lines.length = maxLines
+    lines[maxLines - 1] = lines[maxLines - 1]!.slice(0, maxChars - 1) + "…"
+  }
+  return lines
+}
+
+// Same inputs always give the same image: colours and shapes come from a hash of the inputs
+export async function renderPlaceholderImage(seed: string, size: string, label: string): Promise<Buffer> {
+  const { width, height } = parseSize(size)
+  const hash = createHash("sha256").update(`${seed}|${size}`).digest()
+  const hueA = hash[0]! / 255 * 360
+  const hueB = (hueA + 60 + hash[1]! / 255 * 120) % 360
+
+  const circles = [0, 1, 2, 3].map(i => {
+    const cx = Math.round(hash[2 + i * 3]! / 255 * width)
+    const cy = Math.round(hash[3 + i * 3]! / 255 * height)
+    const r = Math.round((0.1 + hash[4 + i * 3]! / 255 * 0.25) * Math.min(width, height))
+    return `<circle cx="${cx}" cy="${cy}" r="${r}" fill="white" fill-opacity="0.15"/>`
+  }).join("")
+
+  const fontSize = Math.round(Math.min(width, height) / 22)
+  const lines = wrapText(label, Math.floor(width / (fontSize * 0.6)), 6)
+  const textTop = height / 2 - (lines.length - 1) * fontSize * 0.65
+  const text = lines.map((line, i) =>
+    `<text x="50%" y="${Math.round(textTop + i * fontSize * 1.3)}" text-anchor="middle" font-family="sans-serif" font-size="${fontSize}" fill="white">${escapeXml(line)}</text>`
+  ).join("")
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+    <defs>
+      <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+        <stop offset="0" stop-color="hsl(${hueA.toFixed(0)}, 60%, 45%)"/>
+        <stop offset="1" stop-color="hsl(${hueB.toFixed(0)}, 60%, 30%)"/>
+      </linearGradient>
+    </defs>
+    <rect width="100%" height="100%" fill="url(#bg)"/>
+    ${circles}
+    ${text}
+  </svg>`
+
+  return sharp(Buffer.from(svg)).png().toBuffer()
+}
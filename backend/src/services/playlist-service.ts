@@ -0,0 +1,108 @@
+import {
+  db,
+  collectionImageQueries,
+  devicePlaylistQueries,
+  devicePlaylistItemQueries,
+  type DevicePlaylist,
+  type GeneratedImage,
+} from "../db"
+import { toISODate } from "../utils"
+
+export const PLAYLIST_SOURCES = ["collection", "images"] as const
+export const PLAYLIST_MODES = ["sequential", "shuffle", "weighted"] as const
+
+export type PlaylistSource = typeof PLAYLIST_SOURCES[number]
+export type PlaylistMode = typeof PLAYLIST_MODES[number]
+
+export const DEFAULT_PLAYLIST_DWELL_MINUTES = 60
+export const MIN_PLAYLIST_DWELL_MINUTES = 1
+export const MAX_PLAYLIST_DWELL_MINUTES = 7 * 24 * 60
+export const MAX_PLAYLIST_IMAGES = 500
+
+// Favorites are this many times more likely to be picked in weighted mode
+export const FAVORITE_PLAYLIST_WEIGHT = 3
+
+export function isPlaylistSource(value: unknown): value is PlaylistSource {
+  return typeof value === "string" && (PLAYLIST_SOURCES as readonly string[]).includes(value)
+}
+
+export function isPlaylistMode(value: unknown): value is PlaylistMode {
+  return typeof value === "string" && (PLAYLIST_MODES as readonly string[]).includes(value)
+}
+
+// Images currently in a playlist, in playlist order (deleted gallery images are skipped)
+export function getPlaylistImages(playlist: DevicePlaylist): GeneratedImage[] {
+  if (playlist.source_type === "collection") {
+    return playlist.collection_id
+      ? collectionImageQueries.findAllImagesByCollectionId.all(playlist.collection_id)
+      : []
+  }
+  return devicePlaylistItemQueries.findImagesByPlaylistId.all(playlist.id)
+}
+
+// Replace a hand-ordered playlist's images, keeping the given order
+export function setPlaylistImages(playlistId: number, imageIds: number[]): void {
+  const replaceItems = db.transaction(() => {
+    devicePlaylistItemQueries.deleteByPlaylistId.run(playlistId)
+    imageIds.forEach((imageId, position) => {
+      devicePlaylistItemQueries.create.run(playlistId, imageId, position)
+    })
+  })
+  replaceItems()
+}
+
+// Remove a device's playlist and its items
+export function deleteDevicePlaylist(deviceId: number): void {
+  const playlist = devicePlaylistQueries.findByDeviceId.get(deviceId)
+  if (!playlist) return
+  devicePlaylistItemQueries.deleteByPlaylistId.run(playlist.id)
+  devicePlaylistQueries.deleteByDeviceId.run(deviceId)
+}
+
+// A playlist advances once the dwell time has passed since it last advanced or since the
+// device was last synced manually, so a manual sync stays on screen for a full dwell period.
+export function isPlaylistAdvanceDue(
+  playlist: DevicePlaylist,
+  lastSyncedAt: string | null,
+  now: number = Date.now()
+): boolean {
+  if (!playlist.is_enabled) return false
+  if (!playlist.last_advanced_at) return true
+
+  const lastAdvanced = new Date(toISODate(playlist.last_advanced_at)!).getTime()
+  const lastSynced = lastSyncedAt ? new Date(toISODate(lastSyncedAt)!).getTime() : 0
+  const dwellMs = playlist.dwell_minutes * 60 * 1000
+
+  return now - Math.max(lastAdvanced, lastSynced) >= dwellMs
+}
+
+// Pick the image to show after the current one.
+// Shuffle and weighted modes avoid repeating the current image when there is a choice.
+export function pickNextPlaylistImage(
+  images: GeneratedImage[],
+  currentImageId: number | null,
+  mode: PlaylistMode,
+  random: () => number = Math.random
+): GeneratedImage | null {
+  if (images.length === 0) return null
+
+  if (mode === "sequential") {
+    const currentIndex = images.findIndex(image => image.id === currentImageId)
+    return images[(currentIndex + 1) % images.length]!
+  }
+
+  const candidates = images.length > 1
+    ? images.filter(image => image.id !== currentImageId)
+    : images
+  const weights = candidates.map(image =>
+    mode === "weighted" && image.is_favorite ? FAVORITE_PLAYLIST_WEIGHT : 1
+  )
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+
+  let target = random() * totalWeight
+  for (let i = 0; i < candidates.length; i++) {
+    target -= weights[i]!
+    if (target < 0) return candidates[i]!
+  }
+  return candidates[candidates.length - 1]!
+}
@@ -0,0 +1,249 @@
+import { promptListQueries } from "../db"
+import { toWallTime } from "../utils"
+
+/**
+ * Prompt templates for scheduled jobs. Variables are resolved when a job runs, in the
+ * job's timezone:
+ *
+ *   {{date}} {{weekday}} {{month}} {{year}} {{time_of_day}} {{season}}
+ *   {{holiday}} / {{holiday:fallback}}   - holiday name, or the fallback (default empty)
+ *   {{random:a|b|c}}                     - one of the given options
+ *   {{list:name}}                        - a random item from the user's prompt list
+ */
+
+export const TEMPLATE_VARIABLES = [
+  "date", "weekday", "month", "year", "time_of_day", "season", "holiday", "random", "list",
+] as const
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number]
+
+export const MAX_PROMPT_LISTS_PER_USER = 50
+export const MAX_PROMPT_LIST_ITEMS = 200
+export const MAX_PROMPT_LIST_ITEM_LENGTH = 200
+export const PROMPT_LIST_NAME_PATTERN = /^[a-z0-9_-]{1,40}$/i
+
+const VARIABLE_PATTERN = /\{\{\s*([a-z_]+)\s*(?::([^}]*))?\}\}/gi
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+]
+
+// Meteorological seasons, indexed by month (northern hemisphere)
+const NORTHERN_SEASONS = [
+  "winter", "winter", "spring", "spring", "spring", "summer",
+  "summer", "summer", "autumn", "autumn", "autumn", "winter",
+]
+const OPPOSITE_SEASON: Record<string, string> = {
+  winter: "summer", spring: "autumn", summer: "winter", autumn: "spring",
+}
+
+// Timezones south of the equator get opposite seasons
+const SOUTHERN_HEMISPHERE_TIMEZONES = [
+  "Australia/", "Antarctica/", "Pacific/Auckland", "Pacific/Chatham", "Pacific/Fiji",
+  "America/Argentina/", "America/Buenos_Aires", "America/Santiago", "America/Sao_Paulo",
+  "America/Montevideo", "America/Asuncion", "America/Lima", "America/La_Paz",
+  "Africa/Johannesburg", "Africa/Maputo", "Africa/Harare", "Africa/Windhoek",
+  "Indian/Mauritius", "Indian/Reunion",
+]
+
+// Fixed-date holidays keyed by "month-day"
+const FIXED_HOLIDAYS: Record<string, string> = {
+  "1-1": "New Year's Day",
+  "2-14": "Valentine's Day",
+  "3-17": "St. Patrick's Day",
+  "4-22": "Earth Day",
+  "10-31": "Halloween",
+  "12-24": "Christmas Eve",
+  "12-25": "Christmas",
+  "12-31": "New Year's Eve",
+}
+
+// Holidays on the nth weekday of a month
+const WEEKDAY_HOLIDAYS: { month: number; weekday: number; nth: number; name: string }[] = [
+  { month: 5, weekday: 0, nth: 2, name: "Mother's Day" },
+  { month: 6, weekday: 0, nth: 3, name: "Father's Day" },
+  { month: 11, weekday: 4, nth: 4, name: "Thanksgiving" },
+]
+
+export interface PromptTemplateContext {
+  runAt: Date
+  timezone: string
+  userId: number
+  random?: () => number
+}
+
+// Easter Sunday (Gregorian) as [month, day] - anonymous Gregorian algorithm
+function getEasterDate(year: number): [number, number] {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return [month, day]
+}
+
+export function getHoliday(year: number, month: number, day: number): string | null {
+  const fixed = FIXED_HOLIDAYS[`${month}-${day}`]
+  if (fixed) return fixed
+
+  const [easterMonth, easterDay] = getEasterDate(year)
+  if (month === easterMonth && day === easterDay) return "Easter"
+
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+  const holiday = WEEKDAY_HOLIDAYS.find(h =>
+    h.month === month && h.weekday === weekday && h.nth === Math.ceil(day / 7)
+  )
+  if (holiday) return holiday.name
+
+  return null
+}
+
+export function getSeason(month: number, timezone: string): string {
+  const season = NORTHERN_SEASONS[month - 1]!
+  const southern = SOUTHERN_HEMISPHERE_TIMEZONES.some(prefix => timezone.startsWith(prefix))
+  return southern ? OPPOSITE_SEASON[season]! : season
+}
+
+function getTimeOfDay(hour: number): string {
+  if (hour < 5) return "night"
+  if (hour < 12) return "morning"
+  if (hour < 17) return "afternoon"
+  if (hour < 21) return "evening"
+  return "night"
+}
+
+function parseRandomOptions(argument: string | undefined): string[] {
+  return (argument || "").split("|").map(option => option.trim()).filter(Boolean)
+}
+
+export function parsePromptListItems(list: { items: string }): string[] {
+  try {
+    const items = JSON.parse(list.items)
+    return Array.isArray(items) ? items.filter((item): item is string => typeof item === "string") : []
+  } catch {
+    return []
+  }
+}
+
+export function hasTemplateVariables(prompt: string): boolean {
+  return new RegExp(VARIABLE_PATTERN.source, "i").test(prompt)
+}
+
+// Check a prompt's variables against the known set and the user's lists
+export function validatePromptTemplate(prompt: string, userId: number): string | null {
+  for (const match of prompt.matchAll(VARIABLE_PATTERN)) {
+    const name = match[1]!.toLowerCase()
+    const argument = match[2]?.trim()
+
+    if (!(TEMPLATE_VARIABLES as readonly string[]).includes(name)) {
+      return `Unknown template variable "{{${match[1]}}}"`
+    }
+    if (name === "random" && parseRandomOptions(argument).length === 0) {
+      return "{{random:...}} needs options separated by | (e.g. {{random:red|blue}})"
+    }
+    if (name === "list") {
+      if (!argument) {
+        return "{{list:...}} needs a list name (e.g. {{list:animals}})"
+      }
+      const list = promptListQueries.findByUserIdAndName.get(userId, argument)
+      if (!list) {
+        return `Prompt list "${argument}" not found`
+      }
+      if (parsePromptListItems(list).length === 0) {
+        return `Prompt list "${argument}" is empty`
+      }
+    }
+  }
+  return null
+}
+
+// Replace template variables for a run. Throws if a referenced prompt list is missing or empty.
+export function resolvePromptTemplate(prompt: string, context: PromptTemplateContext): string {
+  if (!hasTemplateVariables(prompt)) return prompt
+
+  const random = context.random ?? Math.random
+  const wall = new Date(toWallTime(context.runAt.getTime(), context.timezone))
+  const year = wall.getUTCFullYear()
+  const month = wall.getUTCMonth() + 1
+  const day = wall.getUTCDate()
+  const pick = (options: string[]) => options[Math.floor(random() * options.length)]!
+
+  const resolved = prompt.replace(VARIABLE_PATTERN, (original, rawName: string, rawArgument?: string) => {
+    const argument = rawArgument?.trim()
+    switch (rawName.toLowerCase() as TemplateVariable) {
+      case "date":
+        return `${MONTHS[month - 1]} ${day}, ${year}`
+      case "weekday":
+        return WEEKDAYS[wall.getUTCDay()]!
+      case "month":
+        return MONTHS[month - 1]!
+      case "year":
+        return String(year)
+      case "time_of_day":
+        return getTimeOfDay(wall.getUTCHours())
+      case "season":
+        return getSeason(month, context.timezone)
+      case "holiday":
+        return getHoliday(year, month, day) ?? argument ?? ""
+      case "random": {
+        const options = parseRandomOptions(argument)
+        return options.length > 0 ? pick(options) : ""
+      }
+      case "list": {
+        const list = argument ? promptListQueries.findByUserIdAndName.get(context.userId, argument) : null
+        const items = list ? parsePromptListItems(list) : []
+        if (items.length === 0) {
+          throw new Error(`Prompt list "${argument}" is missing or empty`)
+        }
+        return pick(items)
+      }
+      default:
+        // Unknown variables are left as typed
+        return original
+    }
+  })
+
+  // Empty substitutions (e.g. no holiday) shouldn't leave double spaces behind
+  return resolved.replace(/[ \t]{2,}/g, " ").trim()
+}
+
+// Validate a prompt list name and items, returning the cleaned items or an error
+export function normalizePromptListInput(
+  name: unknown,
+  items: unknown
+): { name: string; items: string[] } | { error: string } {
+  if (typeof name !== "string" || !PROMPT_LIST_NAME_PATTERN.test(name.trim())) {
+    return { error: "List name must be 1-40 letters, numbers, dashes or underscores" }
+  }
+  if (!Array.isArray(items)) {
+    return { error: "Items must be an array of strings" }
+  }
+
+  const cleaned = items
+    .filter((item): item is string => typeof item === "string")
+    .map(item => item.trim())
+    .filter(Boolean)
+
+  if (cleaned.length === 0) {
+    return { error: "A list needs at least one item" }
+  }
+  if (cleaned.length > MAX_PROMPT_LIST_ITEMS) {
+    return { error: `A list can have at most ${MAX_PROMPT_LIST_ITEMS} items` }
+  }
+  if (cleaned.some(item => item.length > MAX_PROMPT_LIST_ITEM_LENGTH)) {
+    return { error: `List items must be at most ${MAX_PROMPT_LIST_ITEM_LENGTH} characters` }
+  }
+
+  return { name: name.trim(), items: cleaned }
+}
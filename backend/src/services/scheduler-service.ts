@@ -1,30 +1,31 @@
-import { log } from "../utils"
+import { log, toISODate, getNextCronRun, splitCronExpressions, parseCronExpression, isValidTimezone } from "../utils"
 import { scheduledJobQueries, generatedImageQueries, userQueries, userDeviceQueries, type ScheduledJob } from "../db"
-import { generateImage, type GenerateImageOptions } from "./openai-service"
+import { resolveImageProvider, validateProviderOptions, type ImageProvider, type ProviderGenerateOptions } from "./image-provider-service"
 import { saveImageToGallery, getGalleryImageUrl } from "../routes/gallery"
 import { syncToTrmnl } from "../routes/sync"
 import { cleanupExpiredTokens } from "./auth-service"
+import { resolvePromptTemplate } from "./prompt-template-service"
+import { applyStylePreset, getPresetNegativePrompt, requireStylePreset } from "./style-preset-service"
+import { publishUserEvent } from "./event-service"
+import { notifyScheduleFailing, SCHEDULE_FAILURE_NOTIFY_THRESHOLD } from "./notification-service"
+import { cleanupSentEmails } from "./email-service"
+import { consumeQuota, getQuotaPeriod, isEntitlementError, refundQuota } from "./entitlement-service"
+import { cleanupFinishedJobs, enqueueJob, parseJobPayload, registerJobHandler, runQueuedJobs } from "./job-queue-service"
 
-// Style preset definitions (same as in images.ts)
-const stylePresets: Record<string, string> = {
-  "none": "",
-  "photorealistic": ", photorealistic, high-resolution photography, detailed, sharp focus, professional photography",
-  "anime": ", anime style, Japanese animation, vibrant colors, cel-shaded, manga-inspired",
-  "watercolor": ", watercolor painting style, soft brushstrokes, flowing colors, artistic, traditional watercolor on paper",
-  "oil-painting": ", oil painting style, textured brushstrokes, rich colors, classical art technique, canvas texture",
-  "pixel-art": ", pixel art style, 8-bit, retro video game aesthetic, blocky pixels, nostalgic",
-  "3d-render": ", 3D render, CGI, Blender style, realistic lighting, raytraced, octane render",
-  "sketch": ", pencil sketch style, hand-drawn, graphite, charcoal drawing, artistic sketch on paper",
-  "pop-art": ", pop art style, bold colors, comic book style, Roy Lichtenstein inspired, halftone dots",
-  "minimalist": ", minimalist style, clean lines, simple shapes, flat design, negative space, modern",
-  "cinematic": ", cinematic style, dramatic lighting, movie poster aesthetic, film grain, wide aspect, epic",
-}
+export const SCHEDULE_TYPES = ["once", "daily", "weekly", "cron", "interval"] as const
+
+export type ScheduleType = typeof SCHEDULE_TYPES[number]
+
+// Recurring schedules may not run more often than this (the scheduler checks once a minute)
+export const MIN_SCHEDULE_INTERVAL_MINUTES = 5
+export const MAX_SCHEDULE_INTERVAL_MINUTES = 30 * 24 * 60
+export const MAX_CRON_EXPRESSION_LENGTH = 500
+
+// Number of upcoming runs inspected when checking a cron schedule's minimum spacing
+const CRON_SPACING_SAMPLE_SIZE = 50
 
-function applyStylePreset(prompt: string, stylePreset: string | null): string {
-  if (!stylePreset) return prompt
-  const modifier = stylePresets[stylePreset] || ""
-  if (!modifier) return prompt
-  return prompt + modifier
+export function isScheduleType(value: unknown): value is ScheduleType {
+  return typeof value === "string" && (SCHEDULE_TYPES as readonly string[]).includes(value)
 }
 
 // Helper to get current time in a specific timezone
@@ -119,16 +120,41 @@ function localDatetimeToUTC(localDatetime: string, timezone: string): string {
   return adjustedUtc.toISOString()
 }
 
+// Next run of an interval schedule after `now`. Runs stay aligned to the previous
+// run time (when known) so they don't drift by however late the scheduler picked them up.
+function calculateNextIntervalRun(intervalMinutes: number, previousRunAt: string | null, now: Date): string {
+  const intervalMs = intervalMinutes * 60 * 1000
+  const anchor = previousRunAt ? new Date(toISODate(previousRunAt)!).getTime() : NaN
+  if (isNaN(anchor)) {
+    return new Date(Math.floor(now.getTime() / 60000) * 60000 + intervalMs).toISOString()
+  }
+  const steps = Math.max(1, Math.floor((now.getTime() - anchor) / intervalMs) + 1)
+  return new Date(anchor + steps * intervalMs).toISOString()
+}
+
 // Calculate next run time based on schedule
 export function calculateNextRunTime(
   scheduleType: string,
   scheduleTime: string, // HH:MM (in user's timezone)
   scheduleDays: string | null, // JSON array like "[1,3,5]" for Mon, Wed, Fri
   scheduledAt: string | null, // Local datetime like "2026-01-18T14:36" (in user's timezone)
-  timezone: string
+  timezone: string,
+  cronExpression: string | null = null, // For 'cron' - evaluated in the user's timezone
+  intervalMinutes: number | null = null, // For 'interval'
+  previousRunAt: string | null = null // For 'interval' - the run being replaced, to avoid drift
 ): string | null {
   const now = new Date()
-  
+
+  if (scheduleType === 'cron') {
+    if (!cronExpression) return null
+    return getNextCronRun(cronExpression, now, timezone)?.toISOString() ?? null
+  }
+
+  if (scheduleType === 'interval') {
+    if (!intervalMinutes || intervalMinutes <= 0) return null
+    return calculateNextIntervalRun(intervalMinutes, previousRunAt, now)
+  }
+
   if (scheduleType === 'once') {
     if (!scheduledAt) return null
     // Convert local datetime to UTC for storage and comparison
@@ -196,133 +222,294 @@ export function calculateNextRunTime(
   return null
 }
 
-// Execute a scheduled job
+// Cron equivalent of a daily/weekly/cron schedule, used to enumerate occurrences
+function toCronExpression(job: Pick<ScheduledJob, 'schedule_type' | 'schedule_time' | 'schedule_days' | 'cron_expression'>): string | null {
+  if (job.schedule_type === 'cron') return job.cron_expression
+
+  const [hours, minutes] = (job.schedule_time || "00:00").split(':').map(Number)
+  if (job.schedule_type === 'daily') return `${minutes ?? 0} ${hours ?? 0} * * *`
+  if (job.schedule_type === 'weekly') {
+    const days = job.schedule_days ? JSON.parse(job.schedule_days) as number[] : []
+    return days.length > 0 ? `${minutes ?? 0} ${hours ?? 0} * * ${days.join(',')}` : null
+  }
+  return null
+}
+
+// List a job's run times (UTC ISO strings) within [from, until), up to `limit` entries
+export function getUpcomingRunTimes(
+  job: Pick<ScheduledJob, 'schedule_type' | 'schedule_time' | 'schedule_days' | 'scheduled_at' | 'timezone' | 'cron_expression' | 'interval_minutes' | 'next_run_at'>,
+  from: Date,
+  until: Date,
+  limit: number
+): string[] {
+  const runs: string[] = []
+
+  if (job.schedule_type === 'once') {
+    if (!job.scheduled_at) return runs
+    const runAt = new Date(localDatetimeToUTC(job.scheduled_at, job.timezone))
+    return runAt >= from && runAt < until ? [runAt.toISOString()] : runs
+  }
+
+  if (job.schedule_type === 'interval') {
+    if (!job.interval_minutes || job.interval_minutes <= 0) return runs
+    const intervalMs = job.interval_minutes * 60 * 1000
+    const anchor = job.next_run_at
+      ? new Date(toISODate(job.next_run_at)!).getTime()
+      : Math.floor(from.getTime() / 60000) * 60000 + intervalMs
+    // First aligned run at or after `from`
+    let runAt = anchor + Math.max(0, Math.ceil((from.getTime() - anchor) / intervalMs)) * intervalMs
+    while (runAt < until.getTime() && runs.length < limit) {
+      runs.push(new Date(runAt).toISOString())
+      runAt += intervalMs
+    }
+    return runs
+  }
+
+  const cronExpression = toCronExpression(job)
+  if (!cronExpression) return runs
+
+  // getNextCronRun is exclusive, so start just before `from`
+  let cursor: Date | null = new Date(from.getTime() - 1)
+  while (runs.length < limit) {
+    cursor = getNextCronRun(cronExpression, cursor, job.timezone)
+    if (!cursor || cursor >= until) break
+    runs.push(cursor.toISOString())
+  }
+  return runs
+}
+
+// Execute a scheduled job. Throws on failure so the queue can retry it.
 async function executeScheduledJob(job: ScheduledJob): Promise<void> {
   log("INFO", "Executing scheduled job", { jobId: job.id, userId: job.user_id, prompt: job.prompt.substring(0, 50) })
 
-  try {
-    // Apply style preset to prompt
-    const styledPrompt = applyStylePreset(job.prompt, job.style_preset)
-
-    // Generate the image
-    const options: GenerateImageOptions = {
-      prompt: styledPrompt,
-      model: "dall-e-3",
-      size: job.size as any || "1024x1024",
-      quality: "standard",
-    }
+  // Resolve template variables ({{weekday}}, {{list:name}}, ...) for this run
+  const prompt = resolvePromptTemplate(job.prompt, {
+    runAt: job.next_run_at ? new Date(toISODate(job.next_run_at)!) : new Date(),
+    timezone: job.timezone,
+    userId: job.user_id,
+  })
 
-    const result = await generateImage(options)
+  // Apply style preset to prompt (throws if the preset was deleted or made private)
+  const preset = requireStylePreset(job.style_preset, job.user_id)
+  const styledPrompt = applyStylePreset(prompt, preset)
 
-    if (!result.data?.[0]?.url) {
-      throw new Error("No image URL in response")
-    }
+  // Generate the image with the job's provider (or the server default)
+  const provider = resolveImageProvider(job.provider)
+  if ("error" in provider) {
+    throw new Error(provider.error)
+  }
+  const sizeError = validateProviderOptions(provider, { size: job.size })
+  if (sizeError) {
+    throw new Error(sizeError)
+  }
 
-    // Save to gallery
-    const galleryImage = generatedImageQueries.create.get(
-      job.user_id,
-      result.data[0].url,
-      job.prompt,
-      result.data[0].revised_prompt || null,
-      "dall-e-3",
-      job.size || "1024x1024",
-      job.style_preset || null,
-      0, // is_edit
-      null // parent_image_id
-    )
+  const options: ProviderGenerateOptions = {
+    prompt: styledPrompt,
+    model: "dall-e-3",
+    size: job.size as any || "1024x1024",
+    quality: preset?.quality || "standard",
+    style: preset?.style || undefined,
+    negativePrompt: getPresetNegativePrompt(null, preset, provider),
+    usage: { userId: job.user_id, source: "schedule", sourceId: job.id },
+  }
 
-    if (galleryImage) {
-      await saveImageToGallery(result.data[0].url, job.user_id, galleryImage.id)
-      const permanentUrl = getGalleryImageUrl(galleryImage.id)
+  const quotaPeriod = getQuotaPeriod()
+  const denied = consumeQuota(job.user_id, "images", 1, quotaPeriod)
+  if (denied) {
+    throw new Error(denied.error)
+  }
 
-      // Update the database with the permanent URL (replace expired DALL-E URL)
-      generatedImageQueries.updateImageUrl.run(permanentUrl, galleryImage.id)
+  // A failure anywhere past this point (provider, gallery save, schedule update) makes the
+  // queue retry the run, which generates and charges for it again, so this attempt's quota goes back
+  try {
+    await runScheduledGeneration(job, prompt, provider, options)
+  } catch (error) {
+    refundQuota(job.user_id, "images", quotaPeriod)
+    throw error
+  }
+}
 
-      log("INFO", "Scheduled image saved to gallery", { 
-        jobId: job.id, 
-        userId: job.user_id, 
-        galleryId: galleryImage.id,
-        permanentUrl
-      })
+// Generate a scheduled job's image, save it to the gallery and move the schedule on
+async function runScheduledGeneration(
+  job: ScheduledJob,
+  prompt: string,
+  provider: ImageProvider,
+  options: ProviderGenerateOptions
+): Promise<void> {
+  const result = await provider.generate(options)
+
+  if (!result.data?.[0]?.url) {
+    throw new Error("No image URL in response")
+  }
 
-      // Auto-sync to TRMNL if enabled
-      if (job.auto_sync_trmnl) {
-        try {
-          // Check if user has any devices configured
-          const deviceCount = userDeviceQueries.countByUserId.get(job.user_id)
-          if (deviceCount && deviceCount.count > 0) {
-            await syncToTrmnl(permanentUrl, job.prompt, job.user_id)
-            log("INFO", "Scheduled image synced to TRMNL", { jobId: job.id, userId: job.user_id })
-          }
-        } catch (syncError) {
-          log("WARN", "Failed to sync scheduled image to TRMNL", syncError)
+  // Save to gallery
+  const galleryImage = generatedImageQueries.create.get(
+    job.user_id,
+    result.data[0].url,
+    prompt,
+    result.data[0].revised_prompt || null,
+    provider.getModel({ model: options.model }),
+    job.size || "1024x1024",
+    job.style_preset || null,
+    0, // is_edit
+    null // parent_image_id
+  )
+
+  if (galleryImage) {
+    await saveImageToGallery(result.data[0].url, job.user_id, galleryImage.id)
+    const permanentUrl = getGalleryImageUrl(galleryImage.id)
+
+    // Update the database with the permanent URL (replace expired DALL-E URL)
+    generatedImageQueries.updateImageUrl.run(permanentUrl, galleryImage.id)
+
+    log("INFO", "Scheduled image saved to gallery", { 
+      jobId: job.id, 
+      userId: job.user_id, 
+      galleryId: galleryImage.id,
+      permanentUrl
+    })
+
+    // Auto-sync to TRMNL if enabled
+    if (job.auto_sync_trmnl) {
+      try {
+        // Check if user has any devices configured
+        const deviceCount = userDeviceQueries.countByUserId.get(job.user_id)
+        if (deviceCount && deviceCount.count > 0) {
+          await syncToTrmnl(permanentUrl, prompt, job.user_id)
+          log("INFO", "Scheduled image synced to TRMNL", { jobId: job.id, userId: job.user_id })
         }
+      } catch (syncError) {
+        log("WARN", "Failed to sync scheduled image to TRMNL", syncError)
       }
     }
+  }
 
-    // Calculate next run time
-    const nextRunAt = calculateNextRunTime(
-      job.schedule_type,
-      job.schedule_time,
-      job.schedule_days,
-      job.scheduled_at,
-      job.timezone
-    )
+  // Calculate next run time
+  const nextRunAt = calculateNextRunTime(
+    job.schedule_type,
+    job.schedule_time,
+    job.schedule_days,
+    job.scheduled_at,
+    job.timezone,
+    job.cron_expression,
+    job.interval_minutes,
+    job.next_run_at
+  )
+
+  // Update job with last run and next run times
+  scheduledJobQueries.updateLastRun.run(
+    new Date().toISOString(),
+    nextRunAt,
+    job.id
+  )
+
+  // Clear any previous error on successful execution
+  scheduledJobQueries.clearError.run(job.id)
+
+  // If no next run (one-time job completed), disable it
+  if (!nextRunAt) {
+    scheduledJobQueries.updateEnabled.run(0, job.id, job.user_id)
+    log("INFO", "One-time scheduled job completed and disabled", { jobId: job.id })
+  }
+
+  publishUserEvent(job.user_id, {
+    type: "schedule.run",
+    jobId: job.id,
+    status: "completed",
+    imageId: galleryImage?.id ?? null,
+    imageUrl: galleryImage ? getGalleryImageUrl(galleryImage.id) : null,
+    error: null,
+    nextRunAt,
+  })
+}
+
+// Record a run that failed on every attempt and move the schedule on
+function recordScheduledJobFailure(job: ScheduledJob, errorMessage: string): void {
+  log("ERROR", "Failed to execute scheduled job", { jobId: job.id, error: errorMessage })
+
+  // Save the error to the database
+  scheduledJobQueries.updateError.run(errorMessage, job.id)
 
-    // Update job with last run and next run times
+  // Tell the owner once the schedule reaches the threshold, not on every later failure
+  const failedJob = scheduledJobQueries.findById.get(job.id)
+  if (failedJob?.consecutive_failures === SCHEDULE_FAILURE_NOTIFY_THRESHOLD) {
+    void notifyScheduleFailing(failedJob, errorMessage)
+  }
+
+  // Calculate next run time even on failure (for recurring jobs)
+  const nextRunAt = calculateNextRunTime(
+    job.schedule_type,
+    job.schedule_time,
+    job.schedule_days,
+    job.scheduled_at,
+    job.timezone,
+    job.cron_expression,
+    job.interval_minutes,
+    job.next_run_at
+  )
+
+  // Update next run time so the job can retry
+  if (nextRunAt) {
     scheduledJobQueries.updateLastRun.run(
       new Date().toISOString(),
       nextRunAt,
       job.id
     )
+  } else {
+    // One-time job failed - disable it
+    scheduledJobQueries.updateEnabled.run(0, job.id, job.user_id)
+    log("INFO", "One-time scheduled job failed and disabled", { jobId: job.id })
+  }
 
-    // Clear any previous error on successful execution
-    scheduledJobQueries.clearError.run(job.id)
-
-    // If no next run (one-time job completed), disable it
-    if (!nextRunAt) {
-      scheduledJobQueries.updateEnabled.run(0, job.id, job.user_id)
-      log("INFO", "One-time scheduled job completed and disabled", { jobId: job.id })
-    }
+  publishUserEvent(job.user_id, {
+    type: "schedule.run",
+    jobId: job.id,
+    status: "failed",
+    imageId: null,
+    imageUrl: null,
+    error: errorMessage,
+    nextRunAt,
+  })
+}
 
-  } catch (error) {
-    const errorMessage = String(error).replace(/^Error:\s*/, '')
-    log("ERROR", "Failed to execute scheduled job", { jobId: job.id, error: errorMessage })
-
-    // Save the error to the database
-    scheduledJobQueries.updateError.run(errorMessage, job.id)
-
-    // Calculate next run time even on failure (for recurring jobs)
-    const nextRunAt = calculateNextRunTime(
-      job.schedule_type,
-      job.schedule_time,
-      job.schedule_days,
-      job.scheduled_at,
-      job.timezone
-    )
+// Scheduler interval (runs every minute)
+let schedulerInterval: Timer | null = null
 
-    // Update next run time so the job can retry
-    if (nextRunAt) {
-      scheduledJobQueries.updateLastRun.run(
-        new Date().toISOString(),
-        nextRunAt,
-        job.id
-      )
-    } else {
-      // One-time job failed - disable it
-      scheduledJobQueries.updateEnabled.run(0, job.id, job.user_id)
-      log("INFO", "One-time scheduled job failed and disabled", { jobId: job.id })
-    }
+interface ScheduledRunJobPayload {
+  scheduledJobId: number
+  runAt: string // next_run_at the run was queued for
+}
 
-    throw error
+// Load the schedule a queued run belongs to, or null if it changed since it was queued
+function findQueuedSchedule(payload: ScheduledRunJobPayload): ScheduledJob | null {
+  const job = scheduledJobQueries.findById.get(payload.scheduledJobId)
+  if (!job || !job.is_enabled || job.next_run_at !== payload.runAt) {
+    return null
   }
+  return job
 }
 
-// Scheduler interval (runs every minute)
-let schedulerInterval: Timer | null = null
+registerJobHandler("scheduled_job", {
+  // Retrying won't help until the user subscribes, pays or the month ends
+  isPermanentFailure: isEntitlementError,
+  run: async (queued) => {
+    const job = findQueuedSchedule(parseJobPayload<ScheduledRunJobPayload>(queued))
+    if (!job) {
+      log("DEBUG", "Skipping scheduled run for a changed or disabled schedule", { queuedJobId: queued.id })
+      return
+    }
+    await executeScheduledJob(job)
+  },
+  onDeadLetter: (queued, error) => {
+    const job = findQueuedSchedule(parseJobPayload<ScheduledRunJobPayload>(queued))
+    if (job) {
+      recordScheduledJobFailure(job, error)
+    }
+  },
+})
 
-// Check and run due jobs
-async function checkDueJobs(): Promise<void> {
+// Queue due jobs and run them (exported for tests)
+export async function checkDueJobs(): Promise<void> {
   const now = new Date().toISOString()
   
   try {
@@ -330,21 +517,22 @@ async function checkDueJobs(): Promise<void> {
     
     // Log every check for debugging (can be removed later)
     log("DEBUG", `Scheduler check: now=${now}, found ${dueJobs.length} due job(s)`)
-    
-    if (dueJobs.length > 0) {
-      log("INFO", `Found ${dueJobs.length} due scheduled job(s)`, {
-        jobs: dueJobs.map(j => ({ id: j.id, next_run_at: j.next_run_at, prompt: j.prompt.substring(0, 30) }))
+
+    // A run stays due until it succeeds or runs out of retries; the dedupe key keeps it queued once
+    const queued = dueJobs.filter(job => enqueueJob({
+      type: "scheduled_job",
+      userId: job.user_id,
+      payload: { scheduledJobId: job.id, runAt: job.next_run_at! } satisfies ScheduledRunJobPayload,
+      dedupeKey: `scheduled_job:${job.id}:${job.next_run_at}`,
+    }))
+
+    if (queued.length > 0) {
+      log("INFO", `Queued ${queued.length} due scheduled job(s)`, {
+        jobs: queued.map(j => ({ id: j.id, next_run_at: j.next_run_at, prompt: j.prompt.substring(0, 30) }))
       })
     }
 
-    for (const job of dueJobs) {
-      try {
-        await executeScheduledJob(job)
-      } catch (error) {
-        // Log error but continue with other jobs
-        log("ERROR", "Scheduled job failed", { jobId: job.id, error: String(error) })
-      }
-    }
+    await runQueuedJobs("scheduled_job")
   } catch (error) {
     log("ERROR", "Error checking due jobs", error)
   }
@@ -367,7 +555,7 @@ export function startScheduler(): void {
   schedulerInterval = setInterval(checkDueJobs, 60 * 1000)
 
   // Schedule periodic token cleanup (every hour)
-  // Clean up expired tokens from token_blacklist and refresh_tokens tables
+  // Clean up expired tokens from token_blacklist and refresh_tokens tables, old completed queue jobs and old email log entries
   const TOKEN_CLEANUP_INTERVAL_MS = 60 * 60 * 1000 // 1 hour
   setInterval(() => {
     try {
@@ -375,6 +563,16 @@ export function startScheduler(): void {
     } catch (error) {
       log("ERROR", "Token cleanup failed", error)
     }
+    try {
+      cleanupFinishedJobs()
+    } catch (error) {
+      log("ERROR", "Job queue cleanup failed", error)
+    }
+    try {
+      cleanupSentEmails()
+    } catch (error) {
+      log("ERROR", "Email log cleanup failed", error)
+    }
   }, TOKEN_CLEANUP_INTERVAL_MS)
 }
 
@@ -387,20 +585,22 @@ export function stopScheduler(): void {
   }
 }
 
-// Helper to validate schedule input
-export function validateScheduleInput(input: {
-  prompt?: string
+// Validate the timing part of a schedule (everything except the prompt)
+export function validateScheduleRule(input: {
   scheduleType?: string
   scheduleTime?: string
   scheduleDays?: number[]
   scheduledAt?: string
+  timezone?: string
+  cronExpression?: string
+  intervalMinutes?: number
 }): string | null {
-  if (!input.prompt || input.prompt.trim().length === 0) {
-    return "Prompt is required"
+  if (!isScheduleType(input.scheduleType)) {
+    return "Invalid schedule type. Must be 'once', 'daily', 'weekly', 'cron', or 'interval'"
   }
 
-  if (!input.scheduleType || !['once', 'daily', 'weekly'].includes(input.scheduleType)) {
-    return "Invalid schedule type. Must be 'once', 'daily', or 'weekly'"
+  if (input.timezone && !isValidTimezone(input.timezone)) {
+    return "Invalid timezone"
   }
 
   if (input.scheduleType === 'once') {
@@ -414,6 +614,16 @@ export function validateScheduleInput(input: {
     if (scheduledDate <= new Date()) {
       return "Scheduled time must be in the future"
     }
+  } else if (input.scheduleType === 'cron') {
+    return validateCronExpression(input.cronExpression, input.timezone || "UTC")
+  } else if (input.scheduleType === 'interval') {
+    const interval = input.intervalMinutes
+    if (typeof interval !== 'number' || !Number.isInteger(interval)) {
+      return "Interval must be a whole number of minutes"
+    }
+    if (interval < MIN_SCHEDULE_INTERVAL_MINUTES || interval > MAX_SCHEDULE_INTERVAL_MINUTES) {
+      return `Interval must be between ${MIN_SCHEDULE_INTERVAL_MINUTES} minutes and ${MAX_SCHEDULE_INTERVAL_MINUTES / (24 * 60)} days`
+    }
   } else {
     if (!input.scheduleTime || !/^\d{2}:\d{2}$/.test(input.scheduleTime)) {
       return "Schedule time must be in HH:MM format"
@@ -440,3 +650,52 @@ export function validateScheduleInput(input: {
 
   return null // Valid
 }
+
+function validateCronExpression(cronExpression: string | undefined, timezone: string): string | null {
+  if (!cronExpression || splitCronExpressions(cronExpression).length === 0) {
+    return "Cron expression is required for cron schedules"
+  }
+  if (cronExpression.length > MAX_CRON_EXPRESSION_LENGTH) {
+    return `Cron expression must be at most ${MAX_CRON_EXPRESSION_LENGTH} characters`
+  }
+
+  try {
+    splitCronExpressions(cronExpression).forEach(parseCronExpression)
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid cron expression"
+  }
+
+  // Reject expressions that never fire or fire more often than the minimum interval
+  let previous = getNextCronRun(cronExpression, new Date(), timezone)
+  if (!previous) {
+    return "Cron expression never matches a date"
+  }
+  for (let i = 1; i < CRON_SPACING_SAMPLE_SIZE; i++) {
+    const next = getNextCronRun(cronExpression, previous, timezone)
+    if (!next) break
+    if (next.getTime() - previous.getTime() < MIN_SCHEDULE_INTERVAL_MINUTES * 60 * 1000) {
+      return `Cron schedules may not run more often than every ${MIN_SCHEDULE_INTERVAL_MINUTES} minutes`
+    }
+    previous = next
+  }
+
+  return null
+}
+
+// Helper to validate schedule input
+export function validateScheduleInput(input: {
+  prompt?: string
+  scheduleType?: string
+  scheduleTime?: string
+  scheduleDays?: number[]
+  scheduledAt?: string
+  timezone?: string
+  cronExpression?: string
+  intervalMinutes?: number
+}): string | null {
+  if (!input.prompt || input.prompt.trim().length === 0) {
+    return "Prompt is required"
+  }
+
+  return validateScheduleRule(input)
+}
@@ -0,0 +1,262 @@
+import { stylePresetQueries, type StylePreset } from "../db"
+import { toISODate } from "../utils"
+import type { ImageProvider } from "./image-provider-service"
+
+/**
+ * Style preset registry: the built-in presets plus presets stored in `style_presets`
+ * (users' own, shared by other users, and global presets published by admins).
+ * Every generation path resolves a preset key through here.
+ *
+ * Keys: built-in presets use their slug ("anime"); stored presets use "custom:<id>".
+ */
+
+// Built-in presets. Their suffixes are unchanged from the original per-route copies,
+// so existing batches and schedules keep generating the same prompts.
+const BUILT_IN_STYLE_PRESETS: Record<string, { name: string; suffix: string }> = {
+  "none": { name: "None", suffix: "" },
+  "photorealistic": { name: "Photorealistic", suffix: "photorealistic, high-resolution photography, detailed, sharp focus, professional photography" },
+  "anime": { name: "Anime/Manga", suffix: "anime style, Japanese animation, vibrant colors, cel-shaded, manga-inspired" },
+  "watercolor": { name: "Watercolor", suffix: "watercolor painting style, soft brushstrokes, flowing colors, artistic, traditional watercolor on paper" },
+  "oil-painting": { name: "Oil Painting", suffix: "oil painting style, textured brushstrokes, rich colors, classical art technique, canvas texture" },
+  "pixel-art": { name: "Pixel Art", suffix: "pixel art style, 8-bit, retro video game aesthetic, blocky pixels, nostalgic" },
+  "3d-render": { name: "3D Render", suffix: "3D render, CGI, Blender style, realistic lighting, raytraced, octane render" },
+  "sketch": { name: "Pencil Sketch", suffix: "pencil sketch style, hand-drawn, graphite, charcoal drawing, artistic sketch on paper" },
+  "pop-art": { name: "Pop Art", suffix: "pop art style, bold colors, comic book style, Roy Lichtenstein inspired, halftone dots" },
+  "minimalist": { name: "Minimalist", suffix: "minimalist style, clean lines, simple shapes, flat design, negative space, modern" },
+  "cinematic": { name: "Cinematic", suffix: "cinematic style, dramatic lighting, movie poster aesthetic, film grain, wide aspect, epic" },
+}
+
+const CUSTOM_KEY_PREFIX = "custom:"
+
+export const MAX_STYLE_PRESETS_PER_USER = 50
+export const MAX_STYLE_PRESET_NAME_LENGTH = 60
+export const MAX_STYLE_PRESET_TEXT_LENGTH = 500
+
+export const STYLE_PRESET_QUALITIES = ["standard", "hd"] as const
+export const STYLE_PRESET_STYLES = ["vivid", "natural"] as const
+
+// Visibilities a user can choose; "global" is set by admins only
+export const USER_STYLE_PRESET_VISIBILITIES = ["private", "shared"] as const
+
+export type StylePresetSource = "built_in" | "global" | "shared" | "own"
+
+// A preset as the generation paths and the API see it
+export interface ResolvedStylePreset {
+  key: string
+  id: number | null // null for built-in presets
+  name: string
+  source: StylePresetSource
+  visibility: StylePreset["visibility"] | null
+  promptPrefix: string | null
+  promptSuffix: string | null
+  negativePrompt: string | null
+  size: string | null
+  quality: StylePreset["quality"]
+  style: StylePreset["style"]
+  updatedAt: string | null
+}
+
+export interface StylePresetInput {
+  name: string
+  promptPrefix: string | null
+  promptSuffix: string | null
+  negativePrompt: string | null
+  size: string | null
+  quality: StylePreset["quality"]
+  style: StylePreset["style"]
+  visibility: StylePreset["visibility"]
+}
+
+export function toStylePresetKey(id: number): string {
+  return `${CUSTOM_KEY_PREFIX}${id}`
+}
+
+function toBuiltInPreset(key: string): ResolvedStylePreset | null {
+  const preset = Object.hasOwn(BUILT_IN_STYLE_PRESETS, key) ? BUILT_IN_STYLE_PRESETS[key] : undefined
+  if (!preset) return null
+  return {
+    key,
+    id: null,
+    name: preset.name,
+    source: "built_in",
+    visibility: null,
+    promptPrefix: null,
+    promptSuffix: preset.suffix || null,
+    negativePrompt: null,
+    size: null,
+    quality: null,
+    style: null,
+    updatedAt: null,
+  }
+}
+
+export function toResolvedStylePreset(preset: StylePreset, userId: number | null): ResolvedStylePreset {
+  const source: StylePresetSource = preset.visibility === "global"
+    ? "global"
+    : preset.user_id === userId ? "own" : "shared"
+  return {
+    key: toStylePresetKey(preset.id),
+    id: preset.id,
+    name: preset.name,
+    source,
+    visibility: preset.visibility,
+    promptPrefix: preset.prompt_prefix,
+    promptSuffix: preset.prompt_suffix,
+    negativePrompt: preset.negative_prompt,
+    size: preset.size,
+    quality: preset.quality,
+    style: preset.style,
+    updatedAt: toISODate(preset.updated_at),
+  }
+}
+
+// Whether a user may use a stored preset (anonymous requests only see global and shared ones)
+function canUseStylePreset(preset: StylePreset, userId: number | null): boolean {
+  return preset.visibility !== "private" || (userId !== null && preset.user_id === userId)
+}
+
+// Look up a preset key for a user; null when it doesn't exist or isn't available to them
+export function findStylePreset(key: string | null | undefined, userId: number | null): ResolvedStylePreset | null {
+  if (!key) return null
+
+  if (key.startsWith(CUSTOM_KEY_PREFIX)) {
+    const id = Number(key.slice(CUSTOM_KEY_PREFIX.length))
+    const preset = Number.isInteger(id) ? stylePresetQueries.findById.get(id) : null
+    return preset && canUseStylePreset(preset, userId) ? toResolvedStylePreset(preset, userId) : null
+  }
+
+  return toBuiltInPreset(key)
+}
+
+// Check that a preset key can be used by the user; null when valid or not set
+export function validateStylePreset(key: unknown, userId: number | null): string | null {
+  if (key === undefined || key === null || key === "") return null
+  if (typeof key !== "string" || !findStylePreset(key, userId)) {
+    return `Unknown style preset "${String(key)}"`
+  }
+  return null
+}
+
+// Resolve a stored preset key at generation time; throws when the preset was deleted or made private
+export function requireStylePreset(key: string | null | undefined, userId: number): ResolvedStylePreset | null {
+  if (!key) return null
+  const preset = findStylePreset(key, userId)
+  if (!preset) {
+    throw new Error(`Style preset "${key}" is no longer available`)
+  }
+  return preset
+}
+
+// Built-in presets followed by the stored presets available to the user
+export function listStylePresets(userId: number | null): ResolvedStylePreset[] {
+  const builtIn = Object.keys(BUILT_IN_STYLE_PRESETS).map(key => toBuiltInPreset(key)!)
+  const stored = stylePresetQueries.findAvailable.all(userId ?? 0).map(preset => toResolvedStylePreset(preset, userId))
+  return [...builtIn, ...stored]
+}
+
+// Wrap the prompt with the preset's prefix and suffix
+export function applyStylePreset(prompt: string, preset: ResolvedStylePreset | null): string {
+  if (!preset) return prompt
+  let styled = prompt
+  if (preset.promptPrefix) styled = `${preset.promptPrefix} ${styled}`
+  if (preset.promptSuffix) styled = `${styled}, ${preset.promptSuffix}`
+  return styled
+}
+
+// The request's negative prompt plus the preset's negative terms, for providers that support them
+export function getPresetNegativePrompt(
+  negativePrompt: string | null | undefined,
+  preset: ResolvedStylePreset | null,
+  provider: ImageProvider
+): string | undefined {
+  if (!provider.capabilities.negativePrompt) {
+    return negativePrompt || undefined
+  }
+  return [negativePrompt, preset?.negativePrompt].filter(Boolean).join(", ") || undefined
+}
+
+function optionalText(value: unknown, field: string): { value: string | null } | { error: string } {
+  if (value === undefined || value === null || value === "") return { value: null }
+  if (typeof value !== "string") return { error: `${field} must be text` }
+  const trimmed = value.trim()
+  if (trimmed.length > MAX_STYLE_PRESET_TEXT_LENGTH) {
+    return { error: `${field} must be at most ${MAX_STYLE_PRESET_TEXT_LENGTH} characters` }
+  }
+  return { value: trimmed || null }
+}
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === "string" && (values as readonly string[]).includes(value)
+}
+
+// Validate preset fields from a request body
+export function normalizeStylePresetInput(
+  body: Record<string, unknown>,
+  allowedVisibilities: readonly StylePreset["visibility"][]
+): StylePresetInput | { error: string } {
+  const name = typeof body.name === "string" ? body.name.trim() : ""
+  if (!name || name.length > MAX_STYLE_PRESET_NAME_LENGTH) {
+    return { error: `Name must be 1-${MAX_STYLE_PRESET_NAME_LENGTH} characters` }
+  }
+
+  const promptPrefix = optionalText(body.promptPrefix, "Prompt prefix")
+  if ("error" in promptPrefix) return promptPrefix
+  const promptSuffix = optionalText(body.promptSuffix, "Prompt suffix")
+  if ("error" in promptSuffix) return promptSuffix
+  const negativePrompt = optionalText(body.negativePrompt, "Negative terms")
+  if ("error" in negativePrompt) return negativePrompt
+  if (!promptPrefix.value && !promptSuffix.value && !negativePrompt.value) {
+    return { error: "A preset needs a prompt prefix, suffix or negative terms" }
+  }
+
+  // Sizes are checked against the provider when the preset is used
+  const size = body.size || null
+  if (size !== null && (typeof size !== "string" || !/^\d{2,4}x\d{2,4}$/.test(size))) {
+    return { error: "Size must look like 1024x1024" }
+  }
+
+  const quality = body.quality || null
+  if (quality !== null && !isOneOf(STYLE_PRESET_QUALITIES, quality)) {
+    return { error: `Quality must be one of: ${STYLE_PRESET_QUALITIES.join(", ")}` }
+  }
+
+  const style = body.style || null
+  if (style !== null && !isOneOf(STYLE_PRESET_STYLES, style)) {
+    return { error: `Style must be one of: ${STYLE_PRESET_STYLES.join(", ")}` }
+  }
+
+  const visibility = body.visibility ?? allowedVisibilities[0]
+  if (!isOneOf(allowedVisibilities, visibility)) {
+    return { error: `Visibility must be one of: ${allowedVisibilities.join(", ")}` }
+  }
+
+  return {
+    name,
+    promptPrefix: promptPrefix.value,
+    promptSuffix: promptSuffix.value,
+    negativePrompt: negativePrompt.value,
+    size,
+    quality,
+    style,
+    visibility,
+  }
+}
+
+// Insert or update a stored preset from validated input
+export function saveStylePreset(userId: number | null, input: StylePresetInput, id?: number): StylePreset | null {
+  const values = [
+    input.name,
+    input.promptPrefix,
+    input.promptSuffix,
+    input.negativePrompt,
+    input.size,
+    input.quality,
+    input.style,
+  ] as const
+
+  if (id !== undefined) {
+    stylePresetQueries.update.run(...values, input.visibility, id)
+    return stylePresetQueries.findById.get(id)
+  }
+  return stylePresetQueries.create.get(userId, ...values, input.visibility)
+}
@@ -1,6 +1,7 @@
 import { userQueries, orderQueries, type UserSubscriptionStatus } from "../db"
 import { log } from "../utils"
 import { hasCompletedOrder, getPaidOrderCount } from "./order-service"
+import { notifySubscriptionPastDue } from "./notification-service"
 
 // Subscription status response
 export interface SubscriptionStatusResponse {
@@ -196,8 +197,14 @@ export function pauseSubscription(userId: number): boolean {
 // Mark subscription as past due
 export function markSubscriptionPastDue(userId: number): boolean {
   try {
+    const previousStatus = userQueries.getSubscriptionStatus.get(userId)?.subscription_status
     userQueries.updateSubscriptionStatus.run("past_due", userId)
     log("INFO", "Subscription marked as past due", { userId })
+
+    // Razorpay repeats pending/halted webhooks; only the first one notifies
+    if (previousStatus !== "past_due") {
+      void notifySubscriptionPastDue(userId)
+    }
     return true
   } catch (error) {
     log("ERROR", "Failed to mark subscription as past due", error)
@@ -0,0 +1,288 @@
+import { createHash, createHmac, randomBytes } from "crypto"
+import { db, recoveryCodeQueries, twoFactorQueries, type UserTwoFactor } from "../db"
+import { log, renderQrSvg, toISODate } from "../utils"
+
+/**
+ * TOTP two-factor authentication (RFC 6238: HMAC-SHA1, 6 digits, 30-second steps), as
+ * used by Google Authenticator, 1Password, Authy and friends.
+ *
+ * Enrollment is two steps: `startTwoFactorEnrollment` stores a new secret and returns it as
+ * an otpauth:// URL and QR code; the secret only takes effect once
+ * `confirmTwoFactorEnrollment` sees a valid code from the user's app, which also issues the
+ * one-time recovery codes. Each time step is accepted once, so an observed code can't be
+ * replayed within its validity window.
+ */
+
+const ISSUER = "Promptink"
+const TOTP_DIGITS = 6
+const TOTP_PERIOD_MS = 30 * 1000
+// Steps either side of the current one that are still accepted (clock drift, slow typing)
+const TOTP_DRIFT_STEPS = 1
+const SECRET_BYTES = 20
+
+const RECOVERY_CODE_COUNT = 10
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789" // No 0/o, 1/l/i
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567"
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  pending: boolean // Enrollment started but not confirmed
+  enabledAt: string | null
+  recoveryCodesRemaining: number
+}
+
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0
+  let value = 0
+  let output = ""
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+  return output
+}
+
+function base32Decode(encoded: string): Buffer {
+  const clean = encoded.toUpperCase().replace(/[\s=-]/g, "")
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) throw new Error("Invalid base32 character")
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+function generateTotpForStep(secret: string, step: number): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest()
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1]! & 0x0f
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS
+  return binary.toString().padStart(TOTP_DIGITS, "0")
+}
+
+/**
+ * The TOTP code for a base32 secret at the given time
+ */
+export function generateTotp(secret: string, timeMs = Date.now()): string {
+  return generateTotpForStep(secret, Math.floor(timeMs / TOTP_PERIOD_MS))
+}
+
+// Time step a code belongs to, or null when it matches none within the drift window
+function findTotpStep(secret: string, code: string, timeMs: number): number | null {
+  const current = Math.floor(timeMs / TOTP_PERIOD_MS)
+  for (let step = current - TOTP_DRIFT_STEPS; step <= current + TOTP_DRIFT_STEPS; step++) {
+    if (generateTotpForStep(secret, step) === code) return step
+  }
+  return null
+}
+
+function normalizeTotpCode(code: string): string | null {
+  const digits = code.replace(/\s/g, "")
+  return new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(digits) ? digits : null
+}
+
+// Recovery codes are shown as xxxxx-xxxxx; case, spaces and dashes don't matter when entered
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, "")
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex")
+}
+
+function generateRecoveryCode(): string {
+  const bytes = randomBytes(10)
+  const chars = Array.from(bytes, byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length])
+  return `${chars.slice(0, 5).join("")}-${chars.slice(5).join("")}`
+}
+
+// Replace a user's recovery codes with a fresh set, returned in plain text this once
+function replaceRecoveryCodes(userId: number): string[] {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode)
+  db.transaction(() => {
+    recoveryCodeQueries.deleteByUserId.run(userId)
+    for (const code of codes) {
+      recoveryCodeQueries.create.get(userId, hashRecoveryCode(code))
+    }
+  })()
+  return codes
+}
+
+// Check a TOTP code against the drift window and the last used step; callers mark the step used
+function verifyTotp(twoFactor: UserTwoFactor, code: string): { step: number } | { error: string } {
+  const digits = normalizeTotpCode(code)
+  const step = digits ? findTotpStep(twoFactor.secret, digits, Date.now()) : null
+  if (step === null) {
+    return { error: "Invalid verification code" }
+  }
+  if (twoFactor.last_used_step !== null && step <= twoFactor.last_used_step) {
+    return { error: "This code was already used. Wait for the next one." }
+  }
+  return { step }
+}
+
+/**
+ * The user's confirmed TOTP settings, or null when two-factor authentication is off
+ */
+export function getEnabledTwoFactor(userId: number): UserTwoFactor | null {
+  const twoFactor = twoFactorQueries.findByUserId.get(userId)
+  return twoFactor?.enabled ? twoFactor : null
+}
+
+export function getTwoFactorStatus(userId: number): TwoFactorStatus {
+  const twoFactor = twoFactorQueries.findByUserId.get(userId)
+  const enabled = !!twoFactor?.enabled
+  return {
+    enabled,
+    pending: !!twoFactor && !enabled,
+    enabledAt: enabled && twoFactor?.enabled_at ? toISODate(twoFactor.enabled_at) : null,
+    recoveryCodesRemaining: enabled ? recoveryCodeQueries.countUnused.get(userId)?.count ?? 0 : 0,
+  }
+}
+
+/**
+ * Create a new TOTP secret for the user, replacing any unconfirmed one
+ */
+export function startTwoFactorEnrollment(
+  user: { id: number; email: string }
+): { secret: string; otpauthUrl: string; qrCode: string } | { error: string } {
+  if (getEnabledTwoFactor(user.id)) {
+    return { error: "Two-factor authentication is already enabled" }
+  }
+
+  const secret = base32Encode(randomBytes(SECRET_BYTES))
+  twoFactorQueries.startEnrollment.get(user.id, secret)
+
+  const label = encodeURIComponent(`${ISSUER}:${user.email}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_MS / 1000),
+  })
+  const otpauthUrl = `otpauth://totp/${label}?${params}`
+  const qrCode = `data:image/svg+xml;base64,${Buffer.from(renderQrSvg(otpauthUrl)).toString("base64")}`
+
+  log("INFO", "Two-factor enrollment started", { userId: user.id })
+  return { secret, otpauthUrl, qrCode }
+}
+
+/**
+ * Turn two-factor authentication on once the user proves their app has the secret
+ */
+export function confirmTwoFactorEnrollment(
+  userId: number,
+  code: string
+): { recoveryCodes: string[] } | { error: string } {
+  const twoFactor = twoFactorQueries.findByUserId.get(userId)
+  if (!twoFactor) {
+    return { error: "Start two-factor setup first" }
+  }
+  if (twoFactor.enabled) {
+    return { error: "Two-factor authentication is already enabled" }
+  }
+
+  const result = verifyTotp(twoFactor, code)
+  if ("error" in result) {
+    return result
+  }
+
+  twoFactorQueries.enable.run(result.step, userId)
+  const recoveryCodes = replaceRecoveryCodes(userId)
+
+  log("INFO", "Two-factor authentication enabled", { userId })
+  return { recoveryCodes }
+}
+
+/**
+ * Check a second factor for a user with two-factor authentication on: a code from their
+ * app, or one of their recovery codes (which is then used up)
+ */
+export function verifySecondFactor(
+  userId: number,
+  code: string
+): { method: "totp" | "recovery" } | { error: string } {
+  const twoFactor = getEnabledTwoFactor(userId)
+  if (!twoFactor) {
+    return { error: "Two-factor authentication is not enabled" }
+  }
+
+  if (normalizeTotpCode(code)) {
+    const result = verifyTotp(twoFactor, code)
+    if ("error" in result) {
+      return result
+    }
+    // Another request may have used the same step in the meantime
+    if (twoFactorQueries.markStepUsed.run(result.step, userId).changes === 0) {
+      return { error: "This code was already used. Wait for the next one." }
+    }
+    return { method: "totp" }
+  }
+
+  if (recoveryCodeQueries.use.run(userId, hashRecoveryCode(code)).changes === 0) {
+    log("WARN", "Invalid recovery code", { userId })
+    return { error: "Invalid verification code" }
+  }
+
+  log("INFO", "Recovery code used", {
+    userId,
+    remaining: recoveryCodeQueries.countUnused.get(userId)?.count ?? 0,
+  })
+  return { method: "recovery" }
+}
+
+/**
+ * Issue a fresh set of recovery codes, invalidating the old ones; needs a code from the app
+ */
+export function regenerateRecoveryCodes(
+  userId: number,
+  code: string
+): { recoveryCodes: string[] } | { error: string } {
+  const twoFactor = getEnabledTwoFactor(userId)
+  if (!twoFactor) {
+    return { error: "Two-factor authentication is not enabled" }
+  }
+
+  const result = verifyTotp(twoFactor, code)
+  if ("error" in result) {
+    return result
+  }
+  if (twoFactorQueries.markStepUsed.run(result.step, userId).changes === 0) {
+    return { error: "This code was already used. Wait for the next one." }
+  }
+
+  log("INFO", "Recovery codes regenerated", { userId })
+  return { recoveryCodes: replaceRecoveryCodes(userId) }
+}
+
+/**
+ * Remove the user's TOTP secret and recovery codes. Remembered devices stop being trusted
+ * too, since their cookies are signed with the secret.
+ */
+export function disableTwoFactor(userId: number): void {
+  db.transaction(() => {
+    twoFactorQueries.deleteByUserId.run(userId)
+    recoveryCodeQueries.deleteByUserId.run(userId)
+  })()
+  log("INFO", "Two-factor authentication disabled", { userId })
+}
@@ -0,0 +1,154 @@
+import {
+  usageEventQueries,
+  type UsageEvent,
+  type UsageSourceTotals,
+  type UsageTotals,
+  type UserUsageTotals,
+} from "../db"
+import { log } from "../utils"
+
+/**
+ * Usage ledger: every OpenAI call in openai-service.ts, the prompt suggestions and speech
+ * input records who made it, for what and an estimated cost, so spend can be broken down
+ * per user and job. OpenAI's billing API (admin dashboard) stays the source of truth for
+ * what was actually charged.
+ */
+
+export const USAGE_SOURCES = ["chat", "infographic", "batch", "schedule", "suggestions"] as const
+
+export type UsageSource = typeof USAGE_SOURCES[number]
+
+// Who a call is made for; passed down from the route or job that triggers it
+export interface UsageContext {
+  userId: number | null
+  source: UsageSource
+  sourceId?: number // Batch or scheduled job id
+}
+
+export interface UsageRecord {
+  operation: UsageEvent["operation"]
+  model: string
+  size?: string | null
+  quality?: string | null
+  imageCount?: number
+  inputTokens?: number
+  outputTokens?: number
+  audioSeconds?: number
+}
+
+// List prices in USD. Calls to models missing here are recorded with a cost of 0.
+const IMAGE_PRICES: Record<string, Record<string, number>> = {
+  "dall-e-3": {
+    "standard|1024x1024": 0.04,
+    "standard|1024x1792": 0.08,
+    "standard|1792x1024": 0.08,
+    "hd|1024x1024": 0.08,
+    "hd|1024x1792": 0.12,
+    "hd|1792x1024": 0.12,
+  },
+  "dall-e-2": {
+    "standard|1024x1024": 0.02,
+    "standard|512x512": 0.018,
+    "standard|256x256": 0.016,
+  },
+}
+
+// Per million tokens
+const TOKEN_PRICES: Record<string, { input: number; output: number }> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+}
+
+// Per minute of audio
+const AUDIO_PRICES: Record<string, number> = {
+  "whisper-1": 0.006,
+}
+
+const PERIOD_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/
+
+export function estimateCost(record: UsageRecord): number {
+  let cost = 0
+  switch (record.operation) {
+    case "image_generation":
+    case "image_edit":
+    case "image_variation": {
+      const key = `${record.quality || "standard"}|${record.size || "1024x1024"}`
+      cost = (IMAGE_PRICES[record.model]?.[key] ?? 0) * (record.imageCount ?? 1)
+      break
+    }
+    case "chat_completion": {
+      const prices = TOKEN_PRICES[record.model]
+      if (prices) {
+        cost = ((record.inputTokens ?? 0) * prices.input + (record.outputTokens ?? 0) * prices.output) / 1_000_000
+      }
+      break
+    }
+    case "transcription":
+      cost = (AUDIO_PRICES[record.model] ?? 0) * (record.audioSeconds ?? 0) / 60
+      break
+  }
+  return Math.round(cost * 1_000_000) / 1_000_000
+}
+
+// Never throws: a failed ledger write must not fail the call it describes
+export function recordUsage(context: UsageContext, record: UsageRecord): void {
+  try {
+    usageEventQueries.create.run(
+      context.userId,
+      context.source,
+      context.sourceId ?? null,
+      record.operation,
+      record.model,
+      record.size ?? null,
+      record.quality ?? null,
+      record.imageCount ?? 0,
+      record.inputTokens ?? 0,
+      record.outputTokens ?? 0,
+      record.audioSeconds ?? 0,
+      estimateCost(record)
+    )
+  } catch (error) {
+    log("ERROR", "Failed to record usage", { ...context, operation: record.operation, error: String(error) })
+  }
+}
+
+// Calendar month in UTC, e.g. "2026-10"
+export function isUsagePeriod(value: unknown): value is string {
+  return typeof value === "string" && PERIOD_PATTERN.test(value)
+}
+
+// Bounds of a month in the format SQLite's CURRENT_TIMESTAMP uses, end exclusive
+function getPeriodBounds(period: string): [string, string] {
+  const [year, month] = period.split("-").map(Number)
+  const format = (date: Date) => date.toISOString().slice(0, 19).replace("T", " ")
+  return [format(new Date(Date.UTC(year!, month! - 1, 1))), format(new Date(Date.UTC(year!, month!, 1)))]
+}
+
+export function getUserUsage(userId: number, period: string, limit: number, offset: number): {
+  totals: UsageTotals
+  bySource: UsageSourceTotals[]
+  events: UsageEvent[]
+  total: number
+} {
+  const [start, end] = getPeriodBounds(period)
+  return {
+    totals: usageEventQueries.totalsByUser.get(userId, start, end)!,
+    bySource: usageEventQueries.totalsBySourceForUser.all(userId, start, end),
+    events: usageEventQueries.findPageByUser.all(userId, start, end, limit, offset),
+    total: usageEventQueries.countByUser.get(userId, start, end)?.count ?? 0,
+  }
+}
+
+// Per-user totals for a month, costliest first
+export function getUsageRollup(period: string, limit: number, offset: number): {
+  totals: UsageTotals
+  users: UserUsageTotals[]
+  total: number
+} {
+  const [start, end] = getPeriodBounds(period)
+  return {
+    totals: usageEventQueries.totals.get(start, end)!,
+    users: usageEventQueries.rollupByUser.all(start, end, limit, offset),
+    total: usageEventQueries.countUsers.get(start, end)?.count ?? 0,
+  }
+}
@@ -0,0 +1,126 @@
+import { createCipheriv, createECDH, createPrivateKey, hkdfSync, randomBytes, sign } from "crypto"
+import { config } from "../config"
+import { log } from "../utils"
+
+/**
+ * Web Push delivery (RFC 8030) with VAPID authentication (RFC 8292) and
+ * aes128gcm payload encryption (RFC 8291), implemented on node:crypto.
+ */
+
+const { publicKey: VAPID_PUBLIC_KEY, privateKey: VAPID_PRIVATE_KEY, subject: VAPID_SUBJECT } = config.webPush
+
+// How long a push service keeps an undelivered message (seconds)
+const PUSH_TTL_SECONDS = 24 * 60 * 60
+
+// Single-record messages, so the record size only has to exceed the payload
+const RECORD_SIZE = 4096
+
+export interface PushTarget {
+  endpoint: string
+  p256dh: string // base64url
+  auth: string // base64url
+}
+
+export type PushResult =
+  | { success: true }
+  | { success: false; error: string; expired: boolean } // expired: the subscription is gone and should be deleted
+
+export function isWebPushConfigured(): boolean {
+  return Boolean(VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY)
+}
+
+// Application server key the browser subscribes with
+export function getVapidPublicKey(): string | null {
+  return isWebPushConfigured() ? VAPID_PUBLIC_KEY! : null
+}
+
+function base64UrlEncode(data: Buffer | string): string {
+  return Buffer.from(data).toString("base64url")
+}
+
+// Encrypt a payload for one subscription (RFC 8291), returning the request body
+export function encryptPushPayload(payload: string, target: Pick<PushTarget, "p256dh" | "auth">): Buffer {
+  const userAgentPublicKey = Buffer.from(target.p256dh, "base64url")
+  const authSecret = Buffer.from(target.auth, "base64url")
+
+  const ecdh = createECDH("prime256v1")
+  const serverPublicKey = ecdh.generateKeys()
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey)
+  const salt = randomBytes(16)
+
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), userAgentPublicKey, serverPublicKey])
+  const ikm = Buffer.from(hkdfSync("sha256", sharedSecret, authSecret, keyInfo, 32))
+  const contentKey = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16))
+  const nonce = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12))
+
+  // 0x02 marks the last (only) record
+  const cipher = createCipheriv("aes-128-gcm", contentKey, nonce)
+  const ciphertext = Buffer.concat([cipher.update(Buffer.from(payload)), cipher.update(Buffer.from([2])), cipher.final(), cipher.getAuthTag()])
+
+  const header = Buffer.alloc(21)
+  salt.copy(header, 0)
+  header.writeUInt32BE(RECORD_SIZE, 16)
+  header.writeUInt8(serverPublicKey.length, 20)
+  return Buffer.concat([header, serverPublicKey, ciphertext])
+}
+
+// VAPID JWT for the push service's origin, signed with the server's P-256 key
+function createVapidAuthorization(endpoint: string): string {
+  const publicKey = Buffer.from(VAPID_PUBLIC_KEY!, "base64url")
+  const privateKey = createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: VAPID_PRIVATE_KEY!,
+      x: base64UrlEncode(publicKey.subarray(1, 33)),
+      y: base64UrlEncode(publicKey.subarray(33, 65)),
+    },
+    format: "jwk",
+  })
+
+  const header = base64UrlEncode(JSON.stringify({ typ: "JWT", alg: "ES256" }))
+  const claims = base64UrlEncode(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+    sub: VAPID_SUBJECT,
+  }))
+  const signature = sign("sha256", Buffer.from(`${header}.${claims}`), { key: privateKey, dsaEncoding: "ieee-p1363" })
+
+  return `vapid t=${header}.${claims}.${base64UrlEncode(signature)}, k=${VAPID_PUBLIC_KEY}`
+}
+
+// Send one push message; never throws
+export async function sendWebPush(target: PushTarget, payload: object): Promise<PushResult> {
+  if (!isWebPushConfigured()) {
+    return { success: false, error: "Web Push is not configured", expired: false }
+  }
+
+  try {
+    const response = await fetch(target.endpoint, {
+      method: "POST",
+      headers: {
+        "Authorization": createVapidAuthorization(target.endpoint),
+        "Content-Encoding": "aes128gcm",
+        "Content-Type": "application/octet-stream",
+        "TTL": String(PUSH_TTL_SECONDS),
+        "Urgency": "normal",
+      },
+      body: encryptPushPayload(JSON.stringify(payload), target),
+    })
+
+    if (response.ok) {
+      return { success: true }
+    }
+
+    // 404/410: the browser unsubscribed or the subscription expired
+    const expired = response.status === 404 || response.status === 410
+    const error = `Push service responded with ${response.status}`
+    if (!expired) {
+      log("WARN", "Web Push delivery failed", { status: response.status, endpoint: new URL(target.endpoint).origin })
+    }
+    return { success: false, error, expired }
+  } catch (error) {
+    log("WARN", "Web Push request failed", { error: String(error) })
+    return { success: false, error: String(error), expired: false }
+  }
+}
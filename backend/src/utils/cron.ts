@@ -0,0 +1,259 @@
+/**
+ * Minimal 5-field cron support (minute hour day-of-month month day-of-week) evaluated
+ * against wall-clock time in an IANA timezone.
+ *
+ * Supports `*`, lists (`1,15`), ranges (`1-5`), steps (`*\/15`, `0-30/10`), month and
+ * weekday names (`JAN`, `MON`), `7` as Sunday and the `@hourly`/`@daily`/`@weekly`/
+ * `@monthly`/`@yearly` shortcuts. Several expressions can be combined with `;` or
+ * newlines (e.g. "0 7 * * 1-5; 30 12 * * 1-5") and run at the union of their times.
+ *
+ * DST: times skipped by a spring-forward transition run at the shifted wall time
+ * (02:30 becomes 03:30), and times repeated by a fall-back transition run once, at
+ * the first occurrence.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  // Standard cron semantics: when both day fields are restricted, either may match
+  daysOfMonthRestricted: boolean
+  daysOfWeekRestricted: boolean
+}
+
+const CRON_MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+}
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"]
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"]
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+// Give up looking for a match after this many years (e.g. "0 0 30 2 *" never matches)
+const MAX_SEARCH_YEARS = 5
+
+interface FieldSpec {
+  name: string
+  min: number
+  max: number
+  names?: string[]
+  namesOffset?: number
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, namesOffset: 1 },
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES, namesOffset: 0 },
+]
+
+function parseValue(raw: string, spec: FieldSpec): number {
+  const upper = raw.toUpperCase()
+  const nameIndex = spec.names?.indexOf(upper) ?? -1
+  const value = nameIndex >= 0 ? nameIndex + (spec.namesOffset ?? 0) : Number(raw)
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new Error(`Invalid ${spec.name} value "${raw}" (expected ${spec.min}-${spec.max})`)
+  }
+  return value
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/")
+    if (!rangePart || part.split("/").length > 2) {
+      throw new Error(`Invalid ${spec.name} field "${field}"`)
+    }
+
+    const step = stepPart === undefined ? 1 : Number(stepPart)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${spec.name} step "${stepPart}"`)
+    }
+
+    let start: number
+    let end: number
+    if (rangePart === "*") {
+      start = spec.min
+      end = spec.max
+    } else if (rangePart.includes("-")) {
+      const [from, to] = rangePart.split("-")
+      start = parseValue(from ?? "", spec)
+      end = parseValue(to ?? "", spec)
+      if (start > end) {
+        throw new Error(`Invalid ${spec.name} range "${rangePart}"`)
+      }
+    } else {
+      start = parseValue(rangePart, spec)
+      // "5/15" means every 15 starting at 5
+      end = stepPart === undefined ? start : spec.max
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+// Parse a single 5-field cron expression, throwing a descriptive error if it is invalid
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim()
+  const normalized = CRON_MACROS[trimmed.toLowerCase()] ?? trimmed
+  const fields = normalized.split(/\s+/)
+
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${trimmed}" must have 5 fields (minute hour day month weekday)`)
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [string, string, string, string, string]
+  const daysOfWeek = parseField(dayOfWeek, FIELDS[4]!)
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7)
+    daysOfWeek.add(0)
+  }
+
+  return {
+    minutes: parseField(minute, FIELDS[0]!),
+    hours: parseField(hour, FIELDS[1]!),
+    daysOfMonth: parseField(dayOfMonth, FIELDS[2]!),
+    months: parseField(month, FIELDS[3]!),
+    daysOfWeek,
+    daysOfMonthRestricted: dayOfMonth !== "*",
+    daysOfWeekRestricted: dayOfWeek !== "*",
+  }
+}
+
+// Split a stored cron value into its individual expressions
+export function splitCronExpressions(value: string): string[] {
+  return value.split(/[;\n]/).map(expression => expression.trim()).filter(Boolean)
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      hourCycle: "h23",
+    })
+    formatters.set(timezone, formatter)
+  }
+  return formatter
+}
+
+// Wall-clock time of an instant in a timezone, encoded as a UTC timestamp
+// (so getUTCHours() etc. return the local values)
+export function toWallTime(instantMs: number, timezone: string): number {
+  const parts = getFormatter(timezone).formatToParts(new Date(instantMs))
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || "0", 10)
+  return Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"))
+}
+
+// Convert a wall-clock time (encoded as a UTC timestamp) in a timezone to a real instant.
+// Skipped times shift forward by the size of the gap; repeated times resolve to the first occurrence.
+export function wallTimeToInstant(wallMs: number, timezone: string): number {
+  // Offsets either side of any transition near this date (transitions are months apart)
+  const offsetBefore = toWallTime(wallMs - 2 * DAY_MS, timezone) - (wallMs - 2 * DAY_MS)
+  const offsetAfter = toWallTime(wallMs + 2 * DAY_MS, timezone) - (wallMs + 2 * DAY_MS)
+
+  const candidates = [wallMs - offsetBefore, wallMs - offsetAfter]
+    .filter(instant => toWallTime(instant, timezone) === wallMs)
+
+  if (candidates.length === 0) {
+    // In a spring-forward gap - the pre-transition offset lands just after the gap
+    return wallMs - offsetBefore
+  }
+  return Math.min(...candidates)
+}
+
+function matchesDay(schedule: CronSchedule, wall: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(wall.getUTCDate())
+  const dowMatch = schedule.daysOfWeek.has(wall.getUTCDay())
+
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return domMatch || dowMatch
+  }
+  if (schedule.daysOfMonthRestricted) return domMatch
+  if (schedule.daysOfWeekRestricted) return dowMatch
+  return true
+}
+
+function getNextRunForSchedule(schedule: CronSchedule, after: Date, timezone: string): Date | null {
+  const afterMs = after.getTime()
+  const startWall = toWallTime(afterMs, timezone)
+  let wall = new Date(Math.floor(startWall / MINUTE_MS) * MINUTE_MS + MINUTE_MS)
+  const lastYear = wall.getUTCFullYear() + MAX_SEARCH_YEARS
+
+  while (wall.getUTCFullYear() <= lastYear) {
+    const year = wall.getUTCFullYear()
+    const month = wall.getUTCMonth()
+    const day = wall.getUTCDate()
+    const hour = wall.getUTCHours()
+
+    if (!schedule.months.has(month + 1)) {
+      wall = new Date(Date.UTC(year, month + 1, 1))
+      continue
+    }
+    if (!matchesDay(schedule, wall)) {
+      wall = new Date(Date.UTC(year, month, day + 1))
+      continue
+    }
+    if (!schedule.hours.has(hour)) {
+      wall = new Date(Date.UTC(year, month, day, hour + 1))
+      continue
+    }
+    if (!schedule.minutes.has(wall.getUTCMinutes())) {
+      wall = new Date(wall.getTime() + MINUTE_MS)
+      continue
+    }
+
+    const instant = wallTimeToInstant(wall.getTime(), timezone)
+    if (instant > afterMs) {
+      return new Date(instant)
+    }
+    wall = new Date(wall.getTime() + MINUTE_MS)
+  }
+
+  return null
+}
+
+// Next run strictly after `after` for one or more cron expressions (see splitCronExpressions)
+export function getNextCronRun(cronExpressions: string, after: Date, timezone: string): Date | null {
+  let next: Date | null = null
+  for (const expression of splitCronExpressions(cronExpressions)) {
+    const candidate = getNextRunForSchedule(parseCronExpression(expression), after, timezone)
+    if (candidate && (!next || candidate < next)) {
+      next = candidate
+    }
+  }
+  return next
+}
@@ -0,0 +1,59 @@
+/**
+ * Minimal RFC 4180 CSV parser: comma separated, double-quoted fields may contain
+ * commas, newlines and doubled quotes (""). Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0]!.trim() !== "") {
+      rows.push(row)
+    }
+    row = []
+    field = ""
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]!
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Unterminated quoted field")
+  }
+  if (field !== "" || row.length > 0) {
+    endRow()
+  }
+
+  return rows
+}
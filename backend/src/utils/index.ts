@@ -1,2 +1,6 @@
 export { log } from "./logger"
 export { toISODate } from "./date"
+export { parseCronExpression, splitCronExpressions, getNextCronRun, isValidTimezone, toWallTime, wallTimeToInstant } from "./cron"
+export { parseCsv } from "./csv"
+export { getClientIp, isIpInRanges, parseIp, parseIpRanges, type IpRange } from "./ip"
+export { encodeQr, renderQrSvg } from "./qr"
@@ -0,0 +1,114 @@
+/**
+ * Client IP resolution behind reverse proxies. X-Forwarded-For is only believed for hops
+ * added by trusted proxies: the chain is walked from the socket address backwards and the
+ * first untrusted address is the client, so entries a client writes into the header itself
+ * are ignored.
+ */
+
+export interface IpRange {
+  value: bigint
+  prefix: number
+  bits: 32 | 128
+}
+
+// Named groups usable in RATE_LIMIT_TRUSTED_PROXIES
+const PROXY_PRESETS: Record<string, string[]> = {
+  loopback: ["127.0.0.0/8", "::1/128"],
+  // RFC 1918, carrier-grade NAT (Railway, Fly), IPv6 unique and link local
+  private: ["10.0.0.0/8", "172.16.0.0/12", "192.168.0.0/16", "100.64.0.0/10", "fc00::/7", "fe80::/10"],
+}
+
+function parseIPv4(address: string): bigint | null {
+  const parts = address.split(".")
+  if (parts.length !== 4) return null
+  let value = 0n
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null
+    value = (value << 8n) | BigInt(part)
+  }
+  return value
+}
+
+function parseIPv6(address: string): bigint | null {
+  const halves = address.split("::")
+  if (halves.length > 2) return null
+
+  const toGroups = (half: string): string[] | null => {
+    if (!half) return []
+    const groups = half.split(":")
+    // An embedded IPv4 address counts as two groups
+    const last = groups[groups.length - 1]!
+    if (last.includes(".")) {
+      const ipv4 = parseIPv4(last)
+      if (ipv4 === null) return null
+      groups.splice(-1, 1, (ipv4 >> 16n).toString(16), (ipv4 & 0xffffn).toString(16))
+    }
+    return groups
+  }
+
+  const head = toGroups(halves[0]!)
+  const tail = halves.length === 2 ? toGroups(halves[1]!) : []
+  if (!head || !tail) return null
+
+  const missing = 8 - head.length - tail.length
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null
+
+  let value = 0n
+  for (const group of [...head, ...Array<string>(missing).fill("0"), ...tail]) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null
+    value = (value << 16n) | BigInt(parseInt(group, 16))
+  }
+  return value
+}
+
+// IPv4-mapped IPv6 addresses (::ffff:1.2.3.4) are treated as IPv4
+export function parseIp(address: string): { value: bigint; bits: 32 | 128 } | null {
+  const trimmed = address.trim().replace(/^\[|\]$/g, "").split("%")[0]!
+  const ipv4 = parseIPv4(trimmed)
+  if (ipv4 !== null) return { value: ipv4, bits: 32 }
+
+  const ipv6 = parseIPv6(trimmed)
+  if (ipv6 === null) return null
+  if (ipv6 >> 32n === 0xffffn) return { value: ipv6 & 0xffffffffn, bits: 32 }
+  return { value: ipv6, bits: 128 }
+}
+
+// Parse IPs, CIDR ranges and presets ("loopback", "private"); invalid entries are skipped
+export function parseIpRanges(entries: string[]): IpRange[] {
+  const ranges: IpRange[] = []
+  for (const entry of entries.flatMap(entry => PROXY_PRESETS[entry] ?? [entry])) {
+    const [address, prefixText] = entry.split("/")
+    const ip = parseIp(address || "")
+    if (!ip) continue
+    const prefix = prefixText === undefined ? ip.bits : Number(prefixText)
+    if (!Number.isInteger(prefix) || prefix < 0 || prefix > ip.bits) continue
+    ranges.push({ value: ip.value, prefix, bits: ip.bits })
+  }
+  return ranges
+}
+
+export function isIpInRanges(address: string, ranges: IpRange[]): boolean {
+  const ip = parseIp(address)
+  if (!ip) return false
+  return ranges.some(range => {
+    if (range.bits !== ip.bits) return false
+    const shift = BigInt(range.bits - range.prefix)
+    return ip.value >> shift === range.value >> shift
+  })
+}
+
+// The client's address given the socket peer and X-Forwarded-For; "unknown" without a peer
+export function getClientIp(req: Request, peerAddress: string | null, trustedProxies: IpRange[]): string {
+  if (!peerAddress) return "unknown"
+
+  const forwarded = (req.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map(hop => hop.trim())
+    .filter(Boolean)
+  const chain = [...forwarded, peerAddress]
+
+  for (let i = chain.length - 1; i > 0; i--) {
+    if (!isIpInRanges(chain[i]!, trustedProxies)) return chain[i]!
+  }
+  return chain[0]!
+}
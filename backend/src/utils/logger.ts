@@ -1,6 +1,15 @@
 type LogLevel = "INFO" | "ERROR" | "DEBUG" | "WARN"
 
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = { DEBUG: 0, INFO: 1, WARN: 2, ERROR: 3 }
+
+// LOG_LEVEL=warn hides DEBUG/INFO, LOG_LEVEL=silent hides everything (used by tests)
+const configuredLevel = (process.env.LOG_LEVEL || "debug").toUpperCase()
+const minLevel = configuredLevel === "SILENT"
+  ? Infinity
+  : LOG_LEVEL_ORDER[configuredLevel as LogLevel] ?? 0
+
 export function log(level: LogLevel, message: string, data?: unknown) {
+  if (LOG_LEVEL_ORDER[level] < minLevel) return
   const timestamp = new Date().toISOString()
   const dataStr = data !== undefined ? ` ${JSON.stringify(data)}` : ""
   console.log(`[${timestamp}] [${level}] ${message}${dataStr}`)
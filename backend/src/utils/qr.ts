@@ -0,0 +1,357 @@
+/**
+ * Minimal QR code encoder (ISO/IEC 18004) for short texts such as otpauth:// URLs.
+ * Byte mode, error correction level M, versions 1-40, mask chosen by the standard penalty
+ * rules. Returns the module matrix, or an SVG for showing it in the browser.
+ */
+
+// Error correction level M, indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+  26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+]
+const ERROR_CORRECTION_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+  17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+]
+// Format bits for level M
+const ECL_FORMAT_BITS = 0
+
+const PENALTY_N1 = 3
+const PENALTY_N2 = 3
+const PENALTY_N3 = 40
+const PENALTY_N4 = 10
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0
+}
+
+// Modules available for data and error correction after the function patterns
+function getRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2
+    result -= (25 * alignments - 10) * alignments - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+function getDataCodewords(version: number): number {
+  return Math.floor(getRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version]! * ERROR_CORRECTION_BLOCKS[version]!
+}
+
+function getAlignmentPositions(version: number): number[] {
+  if (version === 1) return []
+  const alignments = Math.floor(version / 7) + 2
+  const step = Math.floor((version * 8 + alignments * 3 + 5) / (alignments * 4 - 4)) * 2
+  const positions = [6]
+  for (let position = version * 4 + 10; positions.length < alignments; position -= step) {
+    positions.splice(1, 0, position)
+  }
+  return positions
+}
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j]!, root)
+      if (j + 1 < result.length) result[j]! ^= result[j + 1]!
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+function reedSolomonRemainder(data: number[], degree: number): number[] {
+  const divisor = reedSolomonDivisor(degree)
+  const result = new Array<number>(degree).fill(0)
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!
+    result.push(0)
+    divisor.forEach((coefficient, i) => {
+      result[i]! ^= gfMultiply(coefficient, factor)
+    })
+  }
+  return result
+}
+
+// Split data into blocks, add error correction to each and interleave them
+function addErrorCorrection(data: number[], version: number): number[] {
+  const blocks = ERROR_CORRECTION_BLOCKS[version]!
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version]!
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8)
+  const shortBlocks = blocks - (rawCodewords % blocks)
+  const shortBlockLength = Math.floor(rawCodewords / blocks)
+
+  const result: number[][] = []
+  for (let i = 0, offset = 0; i < blocks; i++) {
+    const block = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1))
+    offset += block.length
+    const ecc = reedSolomonRemainder(block, eccLength)
+    if (i < shortBlocks) block.push(0)
+    result.push(block.concat(ecc))
+  }
+
+  const interleaved: number[] = []
+  for (let i = 0; i < result[0]!.length; i++) {
+    result.forEach((block, j) => {
+      // Skip the padding byte of short blocks
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) interleaved.push(block[i]!)
+    })
+  }
+  return interleaved
+}
+
+// Data codewords for a byte mode segment, in the smallest version that fits
+function encodeData(bytes: Uint8Array): { version: number; codewords: number[] } {
+  let version = 1
+  for (; version <= 40; version++) {
+    const countBits = version <= 9 ? 8 : 16
+    if (bytes.length < 2 ** countBits && 4 + countBits + bytes.length * 8 <= getDataCodewords(version) * 8) break
+  }
+  if (version > 40) throw new Error("Text too long for a QR code")
+
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+  append(0b0100, 4)
+  append(bytes.length, version <= 9 ? 8 : 16)
+  bytes.forEach(byte => append(byte, 8))
+
+  const capacity = getDataCodewords(version) * 8
+  append(0, Math.min(4, capacity - bits.length))
+  append(0, (8 - (bits.length % 8)) % 8)
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8)
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  return { version, codewords }
+}
+
+class QrMatrix {
+  readonly size: number
+  readonly modules: boolean[][]
+  private readonly reserved: boolean[][]
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+    this.drawFunctionPatterns()
+  }
+
+  private setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y]![x] = dark
+    this.reserved[y]![x] = true
+  }
+
+  private drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0)
+      this.setFunction(i, 6, i % 2 === 0)
+    }
+
+    // Finder patterns with their separators
+    for (const [cx, cy] of [[3, 3], [this.size - 4, 3], [3, this.size - 4]] as const) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx
+          const y = cy + dy
+          const distance = Math.max(Math.abs(dx), Math.abs(dy))
+          if (x >= 0 && x < this.size && y >= 0 && y < this.size) this.setFunction(x, y, distance !== 2 && distance !== 4)
+        }
+      }
+    }
+
+    // Alignment patterns, except where they would overlap a finder
+    const positions = getAlignmentPositions(this.version)
+    const last = positions.length - 1
+    positions.forEach((cx, i) => {
+      positions.forEach((cy, j) => {
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+          }
+        }
+      })
+    })
+
+    // Reserve the format areas now; drawFormat fills them in per mask
+    this.drawFormat(0)
+
+    if (this.version >= 7) {
+      let remainder = this.version
+      for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+      const bits = (this.version << 12) | remainder
+      for (let i = 0; i < 18; i++) {
+        const a = this.size - 11 + (i % 3)
+        const b = Math.floor(i / 3)
+        this.setFunction(a, b, getBit(bits, i))
+        this.setFunction(b, a, getBit(bits, i))
+      }
+    }
+  }
+
+  drawFormat(mask: number): void {
+    const data = (ECL_FORMAT_BITS << 3) | mask
+    let remainder = data
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    const bits = ((data << 10) | remainder) ^ 0x5412
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i))
+    this.setFunction(8, 7, getBit(bits, 6))
+    this.setFunction(8, 8, getBit(bits, 7))
+    this.setFunction(7, 8, getBit(bits, 8))
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i))
+
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, getBit(bits, i))
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, getBit(bits, i))
+    this.setFunction(8, this.size - 8, true)
+  }
+
+  // Zigzag through two-module columns from the bottom right, skipping function patterns
+  drawCodewords(codewords: number[]): void {
+    let i = 0
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const upward = ((right + 1) & 2) === 0
+          const y = upward ? this.size - 1 - vertical : vertical
+          if (!this.reserved[y]![x] && i < codewords.length * 8) {
+            this.modules[y]![x] = getBit(codewords[i >>> 3]!, 7 - (i & 7))
+            i++
+          }
+        }
+      }
+    }
+  }
+
+  // XOR the data modules with a mask pattern; applying it twice undoes it
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        let invert: boolean
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break
+          case 1: invert = y % 2 === 0; break
+          case 2: invert = x % 3 === 0; break
+          case 3: invert = (x + y) % 3 === 0; break
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break
+          case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break
+          case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break
+          default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0; break
+        }
+        if (!this.reserved[y]![x] && invert) this.modules[y]![x] = !this.modules[y]![x]
+      }
+    }
+  }
+
+  penalty(): number {
+    let result = 0
+    const size = this.size
+    const line = (get: (i: number) => boolean) => {
+      let runColor = false
+      let runLength = 0
+      const history = [0, 0, 0, 0, 0, 0, 0]
+      const addHistory = (length: number) => {
+        if (history[0] === 0) length += size // Light border before the first run
+        history.pop()
+        history.unshift(length)
+      }
+      // Dark-light-dark-dark-dark-light-dark runs with four light modules on either side
+      const countFinderLike = () => {
+        const n = history[1]!
+        const core = n > 0 && history[2] === n && history[3] === n * 3 && history[4] === n && history[5] === n
+        return (core && history[0]! >= n * 4 && history[6]! >= n ? 1 : 0) + (core && history[6]! >= n * 4 && history[0]! >= n ? 1 : 0)
+      }
+      for (let i = 0; i < size; i++) {
+        if (get(i) === runColor) {
+          runLength++
+          if (runLength === 5) result += PENALTY_N1
+          else if (runLength > 5) result++
+        } else {
+          addHistory(runLength)
+          if (!runColor) result += countFinderLike() * PENALTY_N3
+          runColor = get(i)
+          runLength = 1
+        }
+      }
+      if (runColor) {
+        addHistory(runLength)
+        runLength = 0
+      }
+      addHistory(runLength + size) // Light border after the last run
+      result += countFinderLike() * PENALTY_N3
+    }
+
+    for (let y = 0; y < size; y++) line(x => this.modules[y]![x]!)
+    for (let x = 0; x < size; x++) line(y => this.modules[y]![x]!)
+
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = this.modules[y]![x]
+        if (color === this.modules[y]![x + 1] && color === this.modules[y + 1]![x] && color === this.modules[y + 1]![x + 1]) {
+          result += PENALTY_N2
+        }
+      }
+    }
+
+    const dark = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0)
+    const total = size * size
+    result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * PENALTY_N4
+    return result
+  }
+}
+
+// Module matrix for the text: rows of booleans, true for dark
+export function encodeQr(text: string): boolean[][] {
+  const { version, codewords } = encodeData(new TextEncoder().encode(text))
+  const matrix = new QrMatrix(version)
+  matrix.drawCodewords(addErrorCorrection(codewords, version))
+
+  let bestMask = 0
+  let bestPenalty = Infinity
+  for (let mask = 0; mask < 8; mask++) {
+    matrix.applyMask(mask)
+    matrix.drawFormat(mask)
+    const penalty = matrix.penalty()
+    if (penalty < bestPenalty) {
+      bestMask = mask
+      bestPenalty = penalty
+    }
+    matrix.applyMask(mask)
+  }
+  matrix.applyMask(bestMask)
+  matrix.drawFormat(bestMask)
+  return matrix.modules
+}
+
+// SVG with a four-module quiet zone, scaled by the viewer
+export function renderQrSvg(text: string): string {
+  const modules = encodeQr(text)
+  const size = modules.length + 8
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + 4},${y + 4}h1v1h-1z` : "")))
+    .join("")
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">` +
+    `<rect width="${size}" height="${size}" fill="#fff"/><path d="${path}" fill="#000"/></svg>`
+}
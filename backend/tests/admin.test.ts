@@ -0,0 +1,118 @@
+import { describe, expect, test } from "bun:test"
+import { db } from "../src/db"
+import { adminLogin, createTestUser, requestJson } from "./helpers"
+
+async function createAdmin(token: string, email: string, role: string): Promise<{ id: number; token: string }> {
+  const created = await requestJson("/api/admin/admins", {
+    token,
+    body: { email, name: role, password: "operator-pass-1", role },
+  })
+  expect(created.status).toBe(201)
+  return { id: created.body.admin.id, token: await adminLogin(email, "operator-pass-1") }
+}
+
+describe("admin accounts", () => {
+  test("first login with ADMIN_EMAIL and ADMIN_PASSWORD creates a superadmin", async () => {
+    expect((await requestJson("/api/admin/login", { body: { password: "admin123" } })).status).toBe(400)
+    expect((await requestJson("/api/admin/login", { body: { email: "admin@promptink.local", password: "wrong" } })).status).toBe(401)
+
+    // Only the hops added by trusted proxies (loopback here) count toward the audited IP
+    const login = await requestJson("/api/admin/login", {
+      body: { email: "Admin@promptink.local", password: "admin123" },
+      headers: { "X-Forwarded-For": "203.0.113.9, 198.51.100.7" },
+    })
+    expect(login.status).toBe(200)
+    expect(login.body.admin).toMatchObject({ email: "admin@promptink.local", role: "superadmin", disabled: false })
+
+    const verify = await requestJson("/api/admin/verify", { token: login.body.token })
+    expect(verify.body).toMatchObject({ valid: true, admin: { role: "superadmin" } })
+
+    const audit = await requestJson(`/api/admin/audit-log?action=admin.login&adminId=${login.body.admin.id}`, { token: login.body.token })
+    expect(audit.body.entries[0]).toMatchObject({
+      admin_email: "admin@promptink.local",
+      action: "admin.login",
+      ip_address: "198.51.100.7",
+    })
+  })
+
+  test("production never creates the bootstrap superadmin with the default password", async () => {
+    // Other test files may have signed in already, so empty the table and put it back afterwards
+    db.run("SAVEPOINT no_admins")
+    process.env.NODE_ENV = "production"
+    try {
+      db.run("DELETE FROM admin_users")
+      const login = await requestJson("/api/admin/login", { body: { email: "admin@promptink.local", password: "admin123" } })
+      expect(login.status).toBe(401)
+      expect(db.query("SELECT COUNT(*) as count FROM admin_users").get()).toEqual({ count: 0 })
+    } finally {
+      process.env.NODE_ENV = "test"
+      db.run("ROLLBACK TO no_admins")
+      db.run("RELEASE no_admins")
+    }
+  })
+
+  test("routes check the operator's role and audit who changed what", async () => {
+    const superadmin = await adminLogin()
+    const viewer = await createAdmin(superadmin, "viewer@example.com", "viewer")
+    const support = await createAdmin(superadmin, "support@example.com", "support")
+    const { user } = await createTestUser()
+
+    expect((await requestJson("/api/admin/users", { token: viewer.token })).status).toBe(200)
+    expect((await requestJson("/api/admin/audit-log", { token: viewer.token })).status).toBe(403)
+    expect((await requestJson(`/api/admin/users/${user.id}/devices`, { token: viewer.token, body: { name: "Kitchen" } })).status).toBe(403)
+    expect((await requestJson("/api/admin/admins", { token: support.token })).status).toBe(403)
+
+    const created = await requestJson(`/api/admin/users/${user.id}/devices`, { token: support.token, body: { name: "Kitchen" } })
+    expect(created.status).toBe(200)
+    const deviceId = created.body.device.id
+    const updated = await requestJson(`/api/admin/devices/${deviceId}`, {
+      token: support.token,
+      method: "PUT",
+      body: { name: "Hallway", background_color: "white" },
+    })
+    expect(updated.status).toBe(200)
+
+    const { body } = await requestJson(`/api/admin/audit-log?targetType=device&targetId=${deviceId}`, { token: support.token })
+    expect(body.pagination.total).toBe(2)
+    expect(body.entries[0]).toMatchObject({
+      admin_user_id: support.id,
+      admin_email: "support@example.com",
+      action: "device.update",
+      user_id: user.id,
+      details: { fields: ["name", "background_color"] },
+    })
+    expect(body.entries[1].action).toBe("device.create")
+
+    const byUser = await requestJson(`/api/admin/audit-log?userId=${user.id}&action=device.create`, { token: support.token })
+    expect(byUser.body.entries).toHaveLength(1)
+    expect((await requestJson("/api/admin/audit-log?action=device.explode", { token: support.token })).status).toBe(400)
+  })
+
+  test("disabled operators lose access immediately and can't lock out the last superadmin", async () => {
+    const superadmin = await adminLogin()
+    const operator = await createAdmin(superadmin, "leaver@example.com", "support")
+
+    const duplicate = await requestJson("/api/admin/admins", {
+      token: superadmin,
+      body: { email: "leaver@example.com", password: "operator-pass-1", role: "viewer" },
+    })
+    expect(duplicate.status).toBe(400)
+
+    const disabled = await requestJson(`/api/admin/admins/${operator.id}`, { token: superadmin, method: "PUT", body: { disabled: true } })
+    expect(disabled.body.admin.disabled).toBe(true)
+    expect((await requestJson("/api/admin/verify", { token: operator.token })).status).toBe(401)
+    expect((await requestJson("/api/admin/login", { body: { email: "leaver@example.com", password: "operator-pass-1" } })).status).toBe(401)
+
+    const self = (await requestJson("/api/admin/verify", { token: superadmin })).body.admin
+    const demoteSelf = await requestJson(`/api/admin/admins/${self.id}`, { token: superadmin, method: "PUT", body: { role: "viewer" } })
+    expect(demoteSelf.status).toBe(400)
+
+    const audit = await requestJson(`/api/admin/audit-log?targetType=admin_user&targetId=${operator.id}`, { token: superadmin })
+    expect(audit.body.entries.map((entry: { action: string }) => entry.action)).toEqual(["admin_user.update", "admin_user.create"])
+  })
+
+  test("the audit log is append-only", () => {
+    expect(() => db.run("UPDATE admin_audit_log SET action = 'admin.login'")).toThrow("append-only")
+    expect(() => db.run("DELETE FROM admin_audit_log")).toThrow("append-only")
+  })
+})
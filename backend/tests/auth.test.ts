@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test"
+import { createTestUser, requestJson } from "./helpers"
+
+afterEach(() => {
+  setSystemTime()
+})
+
+describe("auth tokens", () => {
+  test("login returns a token pair that authenticates requests", async () => {
+    const { user, password } = await createTestUser("Login User")
+
+    const login = await requestJson("/api/auth/login", { body: { email: user.email, password } })
+    expect(login.status).toBe(200)
+    expect(login.body.accessToken).toBeString()
+    expect(login.body.refreshToken).toBeString()
+
+    const me = await requestJson("/api/auth/me", { token: login.body.accessToken })
+    expect(me.status).toBe(200)
+    expect(me.body.user.email).toBe(user.email)
+  })
+
+  test("refresh issues a new access token after the old one expires", async () => {
+    const { accessToken, refreshToken } = await createTestUser()
+
+    // Access tokens last 15 minutes
+    setSystemTime(new Date(Date.now() + 16 * 60 * 1000))
+    expect((await requestJson("/api/auth/me", { token: accessToken })).status).toBe(401)
+
+    const refreshed = await requestJson("/api/auth/refresh", { body: { refreshToken } })
+    expect(refreshed.status).toBe(200)
+    expect(refreshed.body.accessToken).not.toBe(accessToken)
+
+    const me = await requestJson("/api/auth/me", { token: refreshed.body.accessToken })
+    expect(me.status).toBe(200)
+  })
+
+  test("refresh rejects access tokens and unknown tokens", async () => {
+    const { accessToken } = await createTestUser()
+
+    expect((await requestJson("/api/auth/refresh", { body: { refreshToken: accessToken } })).status).toBe(401)
+    expect((await requestJson("/api/auth/refresh", { body: { refreshToken: "not.a.token" } })).status).toBe(401)
+    expect((await requestJson("/api/auth/refresh", { body: {} })).status).toBe(400)
+  })
+
+  test("refresh tokens expire after 7 days", async () => {
+    const { refreshToken } = await createTestUser()
+
+    setSystemTime(new Date(Date.now() + 8 * 24 * 60 * 60 * 1000))
+    expect((await requestJson("/api/auth/refresh", { body: { refreshToken } })).status).toBe(401)
+  })
+
+  test("logout revokes the access token and the refresh token", async () => {
+    const { accessToken, refreshToken } = await createTestUser()
+
+    const logout = await requestJson("/api/auth/logout", { token: accessToken, body: { refreshToken } })
+    expect(logout.status).toBe(200)
+
+    expect((await requestJson("/api/auth/me", { token: accessToken })).status).toBe(401)
+    expect((await requestJson("/api/auth/refresh", { body: { refreshToken } })).status).toBe(401)
+  })
+
+  test("logout-all revokes refresh tokens from every session", async () => {
+    const { user, password, accessToken, refreshToken } = await createTestUser()
+    const otherSession = await requestJson("/api/auth/login", { body: { email: user.email, password } })
+
+    expect((await requestJson("/api/auth/logout-all", { token: accessToken, method: "POST" })).status).toBe(200)
+
+    expect((await requestJson("/api/auth/refresh", { body: { refreshToken } })).status).toBe(401)
+    expect((await requestJson("/api/auth/refresh", { body: { refreshToken: otherSession.body.refreshToken } })).status).toBe(401)
+    // Other sessions' access tokens stay valid until they expire
+    expect((await requestJson("/api/auth/me", { token: otherSession.body.accessToken })).status).toBe(200)
+  })
+})
@@ -0,0 +1,129 @@
+import { describe, expect, test } from "bun:test"
+import { batchJobItemQueries, collectionImageQueries, collectionQueries, jobQueueQueries, userDeviceQueries } from "../src/db"
+import { processPendingBatches } from "../src/services/batch-service"
+import { parseCsv } from "../src/utils"
+import { createTestUser, requestJson } from "./helpers"
+
+async function createTargets(userId: number) {
+  const collection = collectionQueries.create.get(userId, "Landscapes", null)!
+  const device = userDeviceQueries.create.get(userId, "Kitchen", "webhook-kitchen", "black", 1, null, null, `poll-${userId}`)!
+  return { collection, device }
+}
+
+describe("parseCsv", () => {
+  test("handles quoted commas, doubled quotes, newlines and blank lines", () => {
+    const csv = 'prompt,size\r\n"A cat, sleeping",1024x1024\n\n"Say ""hi""\nagain",\n'
+    expect(parseCsv(csv)).toEqual([
+      ["prompt", "size"],
+      ["A cat, sleeping", "1024x1024"],
+      ['Say "hi"\nagain', ""],
+    ])
+  })
+
+  test("rejects an unterminated quote", () => {
+    expect(() => parseCsv('prompt\n"Never closed')).toThrow("Unterminated")
+  })
+})
+
+describe("batch import", () => {
+  test("reports row-level errors for a CSV file", async () => {
+    const { user, accessToken } = await createTestUser()
+    const { device } = await createTargets(user.id)
+
+    const content = [
+      "Prompt,Size,Style,Collection,Device",
+      `"Misty hills, at dawn",1792x1024,watercolor,landscapes,${device.id}`,
+      ",,,,",
+      "A robot,64x64,glitter,Portraits,Garage",
+    ].join("\n")
+
+    const preview = await requestJson("/api/batch/import", {
+      token: accessToken,
+      body: { format: "csv", content, provider: "placeholder" },
+    })
+    expect(preview.status).toBe(200)
+    expect(preview.body.valid).toBe(false)
+    expect(preview.body.rows[0]).toEqual({
+      prompt: "Misty hills, at dawn",
+      size: "1792x1024",
+      stylePreset: "watercolor",
+      collection: "landscapes",
+      device: String(device.id),
+    })
+    expect(preview.body.errors.map((error: { row: number; field: string }) => `${error.row}:${error.field}`)).toEqual([
+      "2:prompt",
+      "3:size",
+      "3:stylePreset",
+      "3:collection",
+      "3:device",
+    ])
+  })
+
+  test("rejects files without a prompt column or with too many rows", async () => {
+    const { accessToken } = await createTestUser()
+
+    const noPrompt = await requestJson("/api/batch/import", {
+      token: accessToken,
+      body: { format: "csv", content: "size\n1024x1024" },
+    })
+    expect(noPrompt.status).toBe(400)
+
+    const tooMany = await requestJson("/api/batch/import", {
+      token: accessToken,
+      body: { format: "json", content: JSON.stringify(Array.from({ length: 51 }, (_, i) => `Prompt ${i}`)) },
+    })
+    expect(tooMany.status).toBe(400)
+  })
+
+  test("creates a batch whose items keep their own settings", async () => {
+    const { user, accessToken } = await createTestUser()
+    const { collection, device } = await createTargets(user.id)
+
+    const invalid = await requestJson("/api/batch", {
+      token: accessToken,
+      body: { provider: "placeholder", items: [{ prompt: "" }] },
+    })
+    expect(invalid.status).toBe(400)
+    expect(invalid.body.errors).toHaveLength(1)
+
+    const created = await requestJson("/api/batch", {
+      token: accessToken,
+      body: {
+        name: "Imported",
+        provider: "placeholder",
+        size: "1024x1024",
+        items: [
+          { prompt: "Tall tower", size: "1024x1792", stylePreset: "Sketch", collection: "Landscapes" },
+          { prompt: "Wide field", device: "Kitchen" },
+        ],
+      },
+    })
+    expect(created.status).toBe(200)
+
+    const [first, second] = batchJobItemQueries.findByBatchId.all(created.body.batch.id)
+    expect(first).toMatchObject({ size: "1024x1792", style_preset: "sketch", collection_id: collection.id, device_id: null })
+    expect(second).toMatchObject({ size: null, style_preset: null, collection_id: null, device_id: device.id })
+
+    // Both items belong to one user, so they run one budget apart
+    await processPendingBatches()
+    const images = collectionImageQueries.findAllImagesByCollectionId.all(collection.id)
+    expect(images).toHaveLength(1)
+    expect(images[0]!.size).toBe("1024x1792")
+  })
+
+  test("queues a TRMNL sync to the item's device only", async () => {
+    const { user, accessToken } = await createTestUser()
+    const { device } = await createTargets(user.id)
+
+    const created = await requestJson("/api/batch", {
+      token: accessToken,
+      body: { provider: "placeholder", items: [{ prompt: "Kitchen art", device: String(device.id) }] },
+    })
+    expect(created.status).toBe(200)
+
+    await processPendingBatches()
+    const sync = jobQueueQueries.findAllByStatus.all("queued", 100, 0)
+      .find(job => job.type === "trmnl_sync" && job.user_id === user.id)
+    expect(JSON.parse(sync!.payload).deviceIds).toEqual([device.id])
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test"
+import { batchJobItemQueries, collectionImageQueries, collectionQueries, generatedImageQueries } from "../src/db"
+import { expandPromptMatrix, parsePromptAlternatives } from "../src/services/batch-matrix-service"
+import { processPendingBatches } from "../src/services/batch-service"
+import { createTestUser, requestJson } from "./helpers"
+
+describe("prompt matrix expansion", () => {
+  test("expands phrase alternatives, styles and sizes", () => {
+    const basePrompt = "A {cat|dog} in {rain|snow}"
+    const items = expandPromptMatrix({
+      basePrompt,
+      phrases: parsePromptAlternatives(basePrompt),
+      stylePresets: ["anime", "sketch"],
+      sizes: ["1024x1024"],
+    })
+
+    expect(items).toHaveLength(8)
+    expect(items.slice(0, 3)).toEqual([
+      { prompt: "A cat in rain", stylePreset: "anime", size: "1024x1024" },
+      { prompt: "A cat in rain", stylePreset: "sketch", size: "1024x1024" },
+      { prompt: "A cat in snow", stylePreset: "anime", size: "1024x1024" },
+    ])
+    expect(items[7]!.prompt).toBe("A dog in snow")
+  })
+
+  test("leaves template variables alone", () => {
+    expect(parsePromptAlternatives("{{weather}} over {hills|sea}")).toEqual([["hills", "sea"]])
+  })
+})
+
+describe("matrix batches", () => {
+  test("rejects unknown styles and matrices over the limit", async () => {
+    const { accessToken } = await createTestUser()
+
+    const unknownStyle = await requestJson("/api/batch/matrix", {
+      token: accessToken,
+      body: { basePrompt: "A lighthouse", stylePresets: ["glitter"], provider: "placeholder" },
+    })
+    expect(unknownStyle.status).toBe(400)
+
+    // 6 x 3 x 3 = 54 images
+    const tooBig = await requestJson("/api/batch/matrix", {
+      token: accessToken,
+      body: {
+        basePrompt: "A {a|b|c|d|e|f} tower",
+        stylePresets: ["anime", "sketch", "pop-art"],
+        sizes: ["1024x1024", "1792x1024", "1024x1792"],
+        provider: "placeholder",
+      },
+    })
+    expect(tooBig.status).toBe(400)
+    expect(tooBig.body.error).toContain("54")
+  })
+
+  test("creates the matrix batch and picks a winner", async () => {
+    const { user, accessToken } = await createTestUser()
+    const collection = collectionQueries.create.get(user.id, "Winners", null)!
+
+    const created = await requestJson("/api/batch/matrix", {
+      token: accessToken,
+      body: { name: "Lighthouse study", basePrompt: "A lighthouse at {dawn|dusk}", stylePresets: ["watercolor"], provider: "placeholder" },
+    })
+    expect(created.status).toBe(200)
+    expect(created.body.batch.total_count).toBe(2)
+    expect(created.body.batch.matrix).toEqual({
+      basePrompt: "A lighthouse at {dawn|dusk}",
+      phrases: [["dawn", "dusk"]],
+      stylePresets: ["watercolor"],
+      sizes: ["1024x1024"],
+    })
+
+    const [first] = batchJobItemQueries.findByBatchId.all(created.body.batch.id)
+    const pickPath = `/api/batch/${created.body.batch.id}/items/${first!.id}/pick`
+
+    // Nothing to pick until the image exists
+    expect((await requestJson(pickPath, { token: accessToken, body: { favorite: true } })).status).toBe(400)
+
+    await processPendingBatches()
+    const picked = await requestJson(pickPath, { token: accessToken, body: { favorite: true, collectionId: collection.id } })
+    expect(picked.status).toBe(200)
+    expect(picked.body.item.picked).toBe(1)
+
+    const imageId = batchJobItemQueries.findById.get(first!.id)!.image_id!
+    expect(generatedImageQueries.findByIdAndUserId.get(imageId, user.id)?.is_favorite).toBe(1)
+    expect(collectionImageQueries.findAllImagesByCollectionId.all(collection.id).map(image => image.id)).toEqual([imageId])
+
+    // Other users can't pick from the batch
+    const other = await createTestUser()
+    expect((await requestJson(pickPath, { token: other.accessToken, body: { favorite: true } })).status).toBe(400)
+  })
+})
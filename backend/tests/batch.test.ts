@@ -0,0 +1,316 @@
+import { afterAll, beforeEach, describe, expect, setSystemTime, test } from "bun:test"
+import { join } from "path"
+import { db, batchJobQueries, batchJobItemQueries, generatedImageQueries, jobQueueQueries } from "../src/db"
+import { classifyBatchFailure, processPendingBatches } from "../src/services/batch-service"
+import { createTestUser, requestJson } from "./helpers"
+
+// Free users start one item every 30 seconds, subscribers one every 10
+const RATE_LIMIT_STEP_MS = 31 * 1000
+const SUBSCRIBER_STEP_MS = 11 * 1000
+
+let clock = Date.now()
+
+// Run one processor cycle with the clock moved past the rate limit (or further)
+async function processCycle(stepMs = RATE_LIMIT_STEP_MS): Promise<void> {
+  clock += stepMs
+  setSystemTime(new Date(clock))
+  await processPendingBatches()
+}
+
+// Run cycles until the batch finishes, far enough apart for retry backoff to pass
+async function drainBatch(batchId: number): Promise<void> {
+  for (let i = 0; i < 20; i++) {
+    const status = batchJobQueries.findById.get(batchId)?.status
+    if (status !== "pending" && status !== "processing") return
+    await processCycle(5 * 60 * 1000)
+  }
+  throw new Error(`Batch ${batchId} did not finish`)
+}
+
+// The queue rate-limits by each user's last start time, so the test clock only moves forward
+beforeEach(() => {
+  setSystemTime(new Date(clock))
+})
+
+afterAll(() => {
+  setSystemTime()
+})
+
+async function createBatch(token: string, prompts: string[]) {
+  const created = await requestJson("/api/batch", {
+    token,
+    body: { name: "Test batch", prompts, size: "1024x1024", provider: "placeholder" },
+  })
+  expect(created.status).toBe(200)
+  return created.body.batch as { id: number; status: string }
+}
+
+describe("batch processing", () => {
+  test("moves from pending to processing to completed, one item per cycle", async () => {
+    const { user, accessToken } = await createTestUser()
+    const batch = await createBatch(accessToken, ["A red kite", "A blue kite"])
+    expect(batch.status).toBe("pending")
+
+    await processCycle()
+    let status = await requestJson(`/api/batch/${batch.id}/status`, { token: accessToken })
+    expect(status.body).toMatchObject({ status: "processing", completed: 1, failed: 0, progress: 50 })
+
+    // The last item closes the batch
+    await processCycle()
+    status = await requestJson(`/api/batch/${batch.id}/status`, { token: accessToken })
+    expect(status.body).toMatchObject({ status: "completed", completed: 2, progress: 100 })
+
+    const items = batchJobItemQueries.findByBatchId.all(batch.id)
+    expect(items.every(item => item.status === "completed" && item.image_id !== null)).toBe(true)
+    const image = generatedImageQueries.findByIdAndUserId.get(items[0]!.image_id!, user.id)
+    expect(image?.image_url).toBe(`http://localhost:3000/api/gallery/image/${image?.id}`)
+  })
+
+  test("waits for the rate limit between generations", async () => {
+    const { accessToken } = await createTestUser()
+    const batch = await createBatch(accessToken, ["One", "Two"])
+
+    await processCycle()
+    // Same clock: the next item has to wait
+    await processPendingBatches()
+    expect(batchJobQueries.findById.get(batch.id)?.completed_count).toBe(1)
+
+    await processCycle()
+    expect(batchJobQueries.findById.get(batch.id)?.status).toBe("completed")
+  })
+
+  test("retries failed items, then marks the batch failed when every item fails", async () => {
+    const { accessToken } = await createTestUser()
+    const batch = await createBatch(accessToken, ["Broken one", "Broken two"])
+    // Provider that isn't configured in tests
+    db.run("UPDATE batch_jobs SET provider = 'comfyui' WHERE id = ?", [batch.id])
+
+    // First failure is retried rather than failing the item
+    await processCycle()
+    expect(batchJobQueries.findById.get(batch.id)?.failed_count).toBe(0)
+
+    await drainBatch(batch.id)
+
+    const finished = batchJobQueries.findById.get(batch.id)!
+    expect(finished.status).toBe("failed")
+    expect(finished.failed_count).toBe(2)
+    const items = batchJobItemQueries.findByBatchId.all(batch.id)
+    expect(items.every(item => item.status === "failed" && item.error_message?.includes("not configured"))).toBe(true)
+
+    const deadJobs = jobQueueQueries.findAllByStatus.all("dead", 100, 0).filter(job => job.group_key === `batch:${batch.id}`)
+    expect(deadJobs).toHaveLength(2)
+    expect(deadJobs.every(job => job.attempts === 3)).toBe(true)
+  })
+
+  test("gives the quota back when an item fails after generating, so retries aren't charged twice", async () => {
+    const { user, accessToken } = await createTestUser()
+    // A file where the user's gallery directory should be makes every gallery save fail
+    await Bun.write(join(process.env.IMAGES_DIR!, "gallery", `user_${user.id}`), "")
+    const batch = await createBatch(accessToken, ["Never saved"])
+
+    await drainBatch(batch.id)
+
+    expect(batchJobQueries.findById.get(batch.id)?.status).toBe("failed")
+    const { body } = await requestJson("/api/subscription/quota", { token: accessToken })
+    expect(body.quota.quotas.images.used).toBe(0)
+  })
+
+  test("a large batch doesn't hold up other users", async () => {
+    const first = await createTestUser()
+    const second = await createTestUser()
+    const bigBatch = await createBatch(first.accessToken, ["First A", "First B", "First C", "First D"])
+    const smallBatch = await createBatch(second.accessToken, ["Second A"])
+
+    // Both users get a turn in the same cycle, but each only within their own budget
+    await processCycle()
+    expect(batchJobQueries.findById.get(smallBatch.id)?.status).toBe("completed")
+    expect(batchJobQueries.findById.get(bigBatch.id)?.completed_count).toBe(1)
+
+    await drainBatch(bigBatch.id)
+  })
+
+  test("subscribers get a larger budget than free users", async () => {
+    const subscriber = await createTestUser()
+    const free = await createTestUser()
+    db.run("UPDATE users SET subscription_status = 'active' WHERE id = ?", [subscriber.user.id])
+    const subscriberBatch = await createBatch(subscriber.accessToken, ["Fast A", "Fast B"])
+    const freeBatch = await createBatch(free.accessToken, ["Slow A", "Slow B"])
+
+    await processCycle()
+    await processCycle(SUBSCRIBER_STEP_MS)
+    expect(batchJobQueries.findById.get(subscriberBatch.id)?.status).toBe("completed")
+    expect(batchJobQueries.findById.get(freeBatch.id)?.completed_count).toBe(1)
+
+    await drainBatch(freeBatch.id)
+  })
+
+  test("reports an estimated completion time while the batch runs", async () => {
+    const { accessToken } = await createTestUser()
+    const batch = await createBatch(accessToken, ["Later A", "Later B", "Later C"])
+
+    const pending = await requestJson(`/api/batch/${batch.id}`, { token: accessToken })
+    const estimate = new Date(pending.body.batch.estimated_completion_at).getTime()
+    // At least two more 30-second turns after the first item
+    expect(estimate).toBeGreaterThanOrEqual(clock + 60 * 1000)
+
+    await processCycle()
+    const status = await requestJson(`/api/batch/${batch.id}/status`, { token: accessToken })
+    expect(new Date(status.body.estimatedCompletionAt).getTime()).toBeGreaterThan(clock)
+
+    await drainBatch(batch.id)
+    const done = await requestJson(`/api/batch/${batch.id}`, { token: accessToken })
+    expect(done.body.batch.estimated_completion_at).toBeNull()
+  })
+
+  test("picks up items whose worker stopped mid-generation", async () => {
+    const { accessToken } = await createTestUser()
+    const batch = await createBatch(accessToken, ["Interrupted"])
+
+    // Simulate a crash: the job is leased but its worker never finishes it
+    db.run(
+      "UPDATE job_queue SET status = 'running', attempts = 1, locked_by = 'crashed', locked_until = ?, started_at = ? WHERE group_key = ?",
+      [new Date(clock + 60 * 1000).toISOString(), new Date(clock).toISOString(), `batch:${batch.id}`]
+    )
+
+    // Still leased: nothing happens
+    await processCycle()
+    expect(batchJobQueries.findById.get(batch.id)?.completed_count).toBe(0)
+
+    await drainBatch(batch.id)
+    expect(batchJobQueries.findById.get(batch.id)).toMatchObject({ status: "completed", completed_count: 1 })
+  })
+
+  test("a worker whose lease was taken over can't overwrite the new run", async () => {
+    const { accessToken } = await createTestUser()
+    const batch = await createBatch(accessToken, ["Taken over"])
+    const job = jobQueueQueries.findAllByStatus.all("queued", 100, 0).find(job => job.group_key === `batch:${batch.id}`)!
+
+    // The first worker's lease expired and another worker claimed the job again
+    db.run(
+      "UPDATE job_queue SET status = 'running', attempts = 2, locked_by = 'second-worker', locked_until = ? WHERE id = ?",
+      [new Date(clock + 60 * 1000).toISOString(), job.id]
+    )
+
+    const finishedAt = new Date(clock).toISOString()
+    expect(jobQueueQueries.complete.run(finishedAt, job.id, "first-worker", 1).changes).toBe(0)
+    expect(jobQueueQueries.retry.run(finishedAt, "late failure", job.id, "first-worker", 1).changes).toBe(0)
+    expect(jobQueueQueries.markDead.run("late failure", finishedAt, job.id, "second-worker", 1).changes).toBe(0)
+    expect(jobQueueQueries.findById.get(job.id)).toMatchObject({ status: "running", locked_by: "second-worker", last_error: null })
+
+    expect(jobQueueQueries.complete.run(finishedAt, job.id, "second-worker", 2).changes).toBe(1)
+    expect(jobQueueQueries.findById.get(job.id)?.status).toBe("completed")
+  })
+
+  test("cancelled batches are not processed", async () => {
+    const { accessToken } = await createTestUser()
+    const batch = await createBatch(accessToken, ["Never generated"])
+
+    const cancelled = await requestJson(`/api/batch/${batch.id}`, {
+      token: accessToken,
+      method: "PATCH",
+      body: { action: "cancel" },
+    })
+    expect(cancelled.status).toBe(200)
+
+    await processCycle()
+    const stored = batchJobQueries.findById.get(batch.id)!
+    expect(stored.status).toBe("cancelled")
+    expect(jobQueueQueries.findAllByStatus.all("queued", 100, 0).some(job => job.group_key === `batch:${batch.id}`)).toBe(false)
+    expect(batchJobItemQueries.findByBatchId.all(batch.id)[0]!.status).toBe("pending")
+
+    // Finished batches can't be cancelled again
+    const again = await requestJson(`/api/batch/${batch.id}`, {
+      token: accessToken,
+      method: "PATCH",
+      body: { action: "cancel" },
+    })
+    expect(again.status).toBe(400)
+  })
+
+  test("rejects providers that can't produce the batch size", async () => {
+    const { accessToken } = await createTestUser()
+    const created = await requestJson("/api/batch", {
+      token: accessToken,
+      body: { prompts: ["Tiny"], size: "64x64", provider: "placeholder" },
+    })
+    expect(created.status).toBe(400)
+  })
+})
+
+describe("batch controls", () => {
+  test("classifies provider errors", () => {
+    expect(classifyBatchFailure("Your request was rejected as a result of our safety system")).toBe("content_policy")
+    expect(classifyBatchFailure("Rate limit reached for images (HTTP 429)")).toBe("rate_limit")
+    expect(classifyBatchFailure("TypeError: fetch failed")).toBe("network")
+    expect(classifyBatchFailure("Placeholder supports sizes: 1024x1024")).toBe("invalid_size")
+    expect(classifyBatchFailure("Image provider \"comfyui\" is not configured on this server")).toBe("other")
+  })
+
+  test("a paused batch runs nothing until it's resumed", async () => {
+    const { accessToken } = await createTestUser()
+    const batch = await createBatch(accessToken, ["Paused A", "Paused B"])
+
+    await processCycle()
+    const paused = await requestJson(`/api/batch/${batch.id}`, {
+      token: accessToken,
+      method: "PATCH",
+      body: { action: "pause" },
+    })
+    expect(paused.status).toBe(200)
+
+    await processCycle()
+    expect(batchJobQueries.findById.get(batch.id)).toMatchObject({ status: "paused", completed_count: 1 })
+    expect(jobQueueQueries.findAllByStatus.all("queued", 100, 0).some(job => job.group_key === `batch:${batch.id}`)).toBe(false)
+
+    const resumed = await requestJson(`/api/batch/${batch.id}`, {
+      token: accessToken,
+      method: "PATCH",
+      body: { action: "resume" },
+    })
+    expect(resumed.status).toBe(200)
+    expect(batchJobQueries.findById.get(batch.id)?.status).toBe("processing")
+
+    await drainBatch(batch.id)
+    expect(batchJobQueries.findById.get(batch.id)).toMatchObject({ status: "completed", completed_count: 2 })
+  })
+
+  test("retries a failed item after its prompt is edited", async () => {
+    const { user, password, accessToken: firstToken } = await createTestUser()
+    const batch = await createBatch(firstToken, ["Typo promt", "Also broken"])
+    db.run("UPDATE batch_jobs SET provider = 'comfyui' WHERE id = ?", [batch.id])
+    await drainBatch(batch.id)
+    // Retry backoff has outlived the first access token
+    const login = await requestJson("/api/auth/login", { body: { email: user.email, password } })
+    const accessToken = login.body.accessToken as string
+
+    const [first, second] = batchJobItemQueries.findByBatchId.all(batch.id)
+    expect(first).toMatchObject({ status: "failed", failure_reason: "other" })
+
+    // Only failed items can be retried
+    const notFailed = await requestJson(`/api/batch/${batch.id}/retry`, { token: accessToken, body: { itemIds: [first!.id, 0] } })
+    expect(notFailed.status).toBe(400)
+
+    db.run("UPDATE batch_jobs SET provider = 'placeholder' WHERE id = ?", [batch.id])
+    const edited = await requestJson(`/api/batch/${batch.id}/items/${first!.id}`, {
+      token: accessToken,
+      method: "PATCH",
+      body: { prompt: "Fixed prompt" },
+    })
+    expect(edited.status).toBe(200)
+
+    const retried = await requestJson(`/api/batch/${batch.id}/retry`, { token: accessToken, body: { itemIds: [first!.id] } })
+    expect(retried.status).toBe(200)
+    expect(retried.body.batch).toMatchObject({ status: "processing", failed_count: 1 })
+
+    await drainBatch(batch.id)
+    expect(batchJobQueries.findById.get(batch.id)).toMatchObject({ status: "completed", completed_count: 1, failed_count: 1 })
+    expect(batchJobItemQueries.findById.get(first!.id)).toMatchObject({
+      status: "completed",
+      prompt: "Fixed prompt",
+      error_message: null,
+      failure_reason: null,
+      retry_count: 1,
+    })
+    expect(batchJobItemQueries.findById.get(second!.id)?.status).toBe("failed")
+  })
+})
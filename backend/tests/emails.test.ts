@@ -0,0 +1,131 @@
+import { describe, expect, test } from "bun:test"
+import { createServer, type AddressInfo } from "net"
+import { sendSmtpMail } from "../src/services/email-transport-service"
+import { adminLogin, createTestUser, requestJson } from "./helpers"
+
+// Minimal SMTP server that accepts one message and records the session
+function startFakeSmtpServer() {
+  const commands: string[] = []
+  let data = ""
+
+  const server = createServer(socket => {
+    let buffer = ""
+    let inData = false
+    const reply = (line: string) => socket.write(`${line}\r\n`)
+    reply("220 fake.smtp ESMTP")
+
+    socket.on("data", chunk => {
+      buffer += chunk.toString("utf8")
+      if (inData) {
+        const end = buffer.indexOf("\r\n.\r\n")
+        if (end === -1) return
+        data = buffer.slice(0, end)
+        buffer = buffer.slice(end + 5)
+        inData = false
+        reply("250 Queued")
+      }
+
+      let end: number
+      while ((end = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, end)
+        buffer = buffer.slice(end + 2)
+        commands.push(line)
+        if (line.startsWith("EHLO")) {
+          reply("250-fake.smtp")
+          reply("250 AUTH LOGIN PLAIN")
+        } else if (line.startsWith("AUTH")) {
+          reply("235 Authenticated")
+        } else if (line === "DATA") {
+          inData = true
+          reply("354 Go ahead")
+          return
+        } else if (line === "QUIT") {
+          reply("221 Bye")
+          socket.end()
+        } else {
+          reply("250 OK")
+        }
+      }
+    })
+  })
+
+  return new Promise<{ port: number; commands: string[]; getData: () => string; close: () => void }>(resolve => {
+    server.listen(0, "127.0.0.1", () => {
+      resolve({
+        port: (server.address() as AddressInfo).port,
+        commands,
+        getData: () => data,
+        close: () => server.close(),
+      })
+    })
+  })
+}
+
+function decodeMimePart(message: string, type: string): string {
+  const part = message.split(/--promptink-[0-9a-f]+/).find(section => section.includes(`Content-Type: ${type}`))!
+  return Buffer.from(part.split("\r\n\r\n")[1]!.replace(/\s/g, ""), "base64").toString("utf8")
+}
+
+describe("email transports", () => {
+  test("sends multipart mail over SMTP with authentication", async () => {
+    const smtp = await startFakeSmtpServer()
+    try {
+      const messageId = await sendSmtpMail(
+        { host: "127.0.0.1", port: smtp.port, secure: false, user: "mailer", password: "secret" },
+        {
+          from: "Promptink <noreply@promptink.app>",
+          to: "lin@example.com",
+          subject: "订单 PI-1 已确认 - Promptink",
+          html: "<p>你好</p>",
+          text: "你好",
+        }
+      )
+
+      expect(messageId).toMatch(/^<.+@promptink\.app>$/)
+      expect(smtp.commands).toContain(`AUTH PLAIN ${Buffer.from("\0mailer\0secret").toString("base64")}`)
+      expect(smtp.commands).toContain("MAIL FROM:<noreply@promptink.app>")
+      expect(smtp.commands).toContain("RCPT TO:<lin@example.com>")
+
+      const data = smtp.getData()
+      expect(data).toContain(`Message-ID: ${messageId}`)
+      expect(data).toContain(`Subject: =?UTF-8?B?${Buffer.from("订单 PI-1 已确认 - Promptink").toString("base64")}?=`)
+      expect(decodeMimePart(data, "text/html")).toBe("<p>你好</p>")
+      expect(decodeMimePart(data, "text/plain")).toBe("你好")
+    } finally {
+      smtp.close()
+    }
+  })
+})
+
+describe("admin email log", () => {
+  test("records sent emails and resends them", async () => {
+    const { user } = await createTestUser()
+    const forgot = await requestJson("/api/auth/forgot-password", { body: { email: user.email } })
+    expect(forgot.status).toBe(200)
+
+    const token = await adminLogin()
+    const list = await requestJson(`/api/admin/emails?search=${encodeURIComponent(user.email)}`, { token })
+    expect(list.status).toBe(200)
+    expect(list.body.transport).toMatchObject({ id: "file", delivers: false })
+    expect(list.body.pagination.total).toBe(1)
+    expect(list.body.emails[0]).toMatchObject({
+      to_address: user.email,
+      subject: "Reset Your Promptink Password",
+      status: "captured",
+      attempts: 1,
+    })
+    expect(list.body.emails[0].html_content).toBeUndefined()
+
+    const emailId = list.body.emails[0].id
+    const detail = await requestJson(`/api/admin/emails/${emailId}`, { token })
+    expect(detail.body.email.html_content).toContain("/reset-password?token=")
+
+    const resent = await requestJson(`/api/admin/emails/${emailId}/resend`, { token, method: "POST" })
+    expect(resent.status).toBe(200)
+    expect(resent.body.email).toMatchObject({ id: emailId, status: "captured", attempts: 2 })
+
+    expect((await requestJson("/api/admin/emails?status=bounced", { token })).status).toBe(400)
+    expect((await requestJson("/api/admin/emails/999999/resend", { token, method: "POST" })).status).toBe(404)
+    expect((await requestJson("/api/admin/emails")).status).toBe(401)
+  })
+})
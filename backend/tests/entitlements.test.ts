@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test"
+import { db, userQueries } from "../src/db"
+import { classifyBatchFailure } from "../src/services/batch-service"
+import { consumeQuota, getQuotaPeriod, refundQuota } from "../src/services/entitlement-service"
+import { createTestUser, request, requestJson } from "./helpers"
+
+// Free plan: 1000 images (tests/setup.ts), no transcriptions. Subscribers: 300 of each.
+function setImagesUsed(userId: number, count: number) {
+  db.run(
+    `INSERT INTO generation_usage (user_id, period, kind, count) VALUES (?, ?, 'images', ?)
+     ON CONFLICT(user_id, period, kind) DO UPDATE SET count = excluded.count`,
+    [userId, getQuotaPeriod(), count]
+  )
+}
+
+const generateBody = { prompt: "A paper boat", provider: "placeholder" }
+
+afterEach(() => {
+  setSystemTime()
+})
+
+describe("entitlements", () => {
+  test("generation requires a signed-in user", async () => {
+    const response = await requestJson("/api/images/generate", { body: generateBody })
+    expect(response.status).toBe(401)
+  })
+
+  test("counts generations and reports the remaining quota", async () => {
+    const { user, accessToken } = await createTestUser()
+
+    expect((await requestJson("/api/images/generate", { token: accessToken, body: generateBody })).status).toBe(200)
+
+    const { body } = await requestJson("/api/subscription/quota", { token: accessToken })
+    expect(body.quota).toMatchObject({
+      plan: "free",
+      period: getQuotaPeriod(),
+      quotas: {
+        images: { limit: 1000, used: 1, remaining: 999 },
+        transcriptions: { limit: 0, used: 0, remaining: 0 },
+      },
+    })
+
+    // Refunds never take the counter below zero
+    refundQuota(user.id, "images", getQuotaPeriod(), 5)
+    expect(consumeQuota(user.id, "images", 1000)).toBeNull()
+    expect(consumeQuota(user.id, "images")).toMatchObject({ status: 402, code: "quota_exceeded" })
+  })
+
+  test("refunds go back to the month that was charged", async () => {
+    setSystemTime(new Date("2026-10-31T23:59:00Z"))
+    const { user, accessToken } = await createTestUser()
+    const chargedPeriod = getQuotaPeriod()
+    expect(consumeQuota(user.id, "images", 1, chargedPeriod)).toBeNull()
+
+    // The job fails after midnight
+    setSystemTime(new Date("2026-11-01T00:01:00Z"))
+    expect(consumeQuota(user.id, "images")).toBeNull()
+    refundQuota(user.id, "images", chargedPeriod)
+
+    const { body } = await requestJson("/api/subscription/quota", { token: accessToken })
+    expect(body.quota.period).toBe("2026-11")
+    expect(body.quota.quotas.images.used).toBe(1)
+    expect(db.query("SELECT count FROM generation_usage WHERE user_id = ? AND period = '2026-10'").get(user.id)).toEqual({ count: 0 })
+  })
+
+  test("free users over quota and past-due users get 402, subscribers over quota 403", async () => {
+    const free = await createTestUser()
+    setImagesUsed(free.user.id, 1000)
+    const overFree = await requestJson("/api/images/generate", { token: free.accessToken, body: generateBody })
+    expect(overFree.status).toBe(402)
+    expect(overFree.body.code).toBe("quota_exceeded")
+
+    const pastDue = await createTestUser()
+    userQueries.updateSubscriptionStatus.run("past_due", pastDue.user.id)
+    const blocked = await requestJson("/api/images/generate", { token: pastDue.accessToken, body: generateBody })
+    expect(blocked.status).toBe(402)
+    expect(blocked.body.code).toBe("payment_past_due")
+    const schedule = await requestJson("/api/schedule", {
+      token: pastDue.accessToken,
+      body: { prompt: "A lighthouse", scheduleType: "daily", scheduleTime: "08:00" },
+    })
+    expect(schedule.status).toBe(402)
+
+    const subscriber = await createTestUser()
+    userQueries.updateSubscriptionStatus.run("active", subscriber.user.id)
+    setImagesUsed(subscriber.user.id, 299)
+    const batch = await requestJson("/api/batch", {
+      token: subscriber.accessToken,
+      body: { prompts: ["A fox", "A hare"], provider: "placeholder" },
+    })
+    expect(batch.status).toBe(403)
+    expect(batch.body.code).toBe("quota_exceeded")
+    expect((await requestJson("/api/images/generate", { token: subscriber.accessToken, body: generateBody })).status).toBe(200)
+    expect((await requestJson("/api/images/generate", { token: subscriber.accessToken, body: generateBody })).status).toBe(403)
+  })
+
+  test("speech input needs a plan that includes transcriptions", async () => {
+    const { accessToken } = await createTestUser()
+    const response = await request("/api/speech/transcribe", {
+      token: accessToken,
+      body: "x".repeat(200),
+      headers: { "Content-Type": "audio/webm" },
+    })
+    expect(response.status).toBe(402)
+    expect(((await response.json()) as { code: string }).code).toBe("subscription_required")
+  })
+
+  test("queued jobs stop retrying on entitlement failures", async () => {
+    const { user } = await createTestUser()
+    const denial = consumeQuota(user.id, "transcriptions")!
+    expect(classifyBatchFailure(denial.error)).toBe("plan_limit")
+    expect(classifyBatchFailure("You exceeded your current quota, please check your plan")).toBe("rate_limit")
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, expect, setSystemTime, test } from "bun:test"
+import { processPendingBatches } from "../src/services/batch-service"
+import {
+  MAX_EVENT_STREAMS_PER_USER,
+  getEventConnectionCount,
+  publishUserEvent,
+  subscribeToUserEvents,
+  type ServerEvent,
+} from "../src/services/event-service"
+import { createTestUser, request, requestJson } from "./helpers"
+
+// Read an event stream until `done` is satisfied by the events received so far
+async function readEvents(
+  reader: Awaited<ReturnType<typeof openEventStream>>,
+  done: (events: ServerEvent[]) => boolean
+): Promise<ServerEvent[]> {
+  const decoder = new TextDecoder()
+  const events: ServerEvent[] = []
+  let buffer = ""
+
+  while (!done(events)) {
+    const { value, done: ended } = await reader.read()
+    if (ended) throw new Error("Event stream ended")
+    buffer += decoder.decode(value, { stream: true })
+
+    const messages = buffer.split("\n\n")
+    buffer = messages.pop() || ""
+    for (const message of messages) {
+      const data = message.split("\n").find(line => line.startsWith("data: "))
+      const event = message.split("\n").find(line => line.startsWith("event: "))
+      if (data && event && event !== "event: ready") {
+        events.push(JSON.parse(data.slice("data: ".length)))
+      }
+    }
+  }
+  return events
+}
+
+async function openEventStream(token: string) {
+  const response = await request("/api/events", { token })
+  expect(response.status).toBe(200)
+  expect(response.headers.get("Content-Type")).toContain("text/event-stream")
+
+  const reader = response.body!.getReader()
+  const first = new TextDecoder().decode((await reader.read()).value)
+  expect(first).toContain("retry:")
+  return reader
+}
+
+describe("server events", () => {
+  test("delivers events to the user's listeners only", () => {
+    const received: ServerEvent[] = []
+    const unsubscribe = subscribeToUserEvents(1001, event => received.push(event))
+    const unsubscribeFailing = subscribeToUserEvents(1001, () => { throw new Error("closed") })
+
+    const event: ServerEvent = { type: "sync.result", deviceId: 1, deviceName: "Kitchen", success: true, error: null }
+    publishUserEvent(1001, event)
+    publishUserEvent(1002, { ...event, deviceId: 2 })
+    expect(received).toEqual([event])
+
+    unsubscribe()
+    unsubscribeFailing()
+    publishUserEvent(1001, event)
+    expect(received).toHaveLength(1)
+  })
+
+  test("requires authentication", async () => {
+    const response = await request("/api/events")
+    expect(response.status).toBe(401)
+  })
+
+  test("streams generation progress and batch results", async () => {
+    const { accessToken } = await createTestUser()
+    const connectionsBefore = getEventConnectionCount()
+    const reader = await openEventStream(accessToken)
+    expect(getEventConnectionCount()).toBe(connectionsBefore + 1)
+
+    const generated = await requestJson("/api/images/generate", {
+      token: accessToken,
+      body: { prompt: "A red kite", provider: "placeholder", requestId: "req-1" },
+    })
+    expect(generated.status).toBe(200)
+
+    const progress = await readEvents(reader, events => events.some(e => e.type === "generation.progress" && e.stage === "completed"))
+    expect(progress.map(e => e.type === "generation.progress" && e.stage)).toEqual(["generating", "saving", "completed"])
+
+    const created = await requestJson("/api/batch", {
+      token: accessToken,
+      body: { prompts: ["A blue kite"], provider: "placeholder" },
+    })
+    const batchId = created.body.batch.id
+    await processPendingBatches()
+
+    const batchEvents = await readEvents(reader, events => events.some(e => e.type === "batch.progress"))
+    expect(batchEvents[0]).toMatchObject({ type: "batch.item", batchId, item: { status: "completed" } })
+    expect(batchEvents[1]).toMatchObject({ type: "batch.progress", batchId, status: "completed", completed: 1, total: 1 })
+
+    await reader.cancel()
+    await Bun.sleep(10)
+    expect(getEventConnectionCount()).toBe(connectionsBefore)
+  })
+
+  test("closes streams when their token is revoked", async () => {
+    const { user, password, accessToken } = await createTestUser()
+    const login = await requestJson("/api/auth/login", { body: { email: user.email, password } })
+    const otherSession = await openEventStream(login.body.accessToken)
+    const reader = await openEventStream(accessToken)
+
+    const logout = await requestJson("/api/auth/logout", { token: accessToken, method: "POST" })
+    expect(logout.status).toBe(200)
+    await expect(readEvents(reader, () => false)).rejects.toThrow("Event stream ended")
+
+    // Streams of the user's other sessions stay open
+    publishUserEvent(user.id, { type: "sync.result", deviceId: 1, deviceName: "Kitchen", success: true, error: null })
+    expect(await readEvents(otherSession, events => events.length > 0)).toHaveLength(1)
+    await otherSession.cancel()
+  })
+
+  test("closes streams when their access token expires", async () => {
+    // Access tokens last 15 minutes; issue one that has about a second left
+    setSystemTime(new Date(Date.now() - 15 * 60 * 1000 + 1500))
+    const { accessToken } = await createTestUser()
+    setSystemTime()
+
+    const reader = await openEventStream(accessToken)
+    await expect(readEvents(reader, () => false)).rejects.toThrow("Event stream ended")
+  })
+
+  test("limits how many streams a user can open", async () => {
+    const { accessToken } = await createTestUser()
+    const readers = []
+    for (let i = 0; i < MAX_EVENT_STREAMS_PER_USER; i++) {
+      readers.push(await openEventStream(accessToken))
+    }
+    const refused = await request("/api/events", { token: accessToken })
+    expect(refused.status).toBe(429)
+
+    // Logging out of every device frees them all
+    await requestJson("/api/auth/logout-all", { token: accessToken, method: "POST" })
+    for (const reader of readers) {
+      expect((await reader.read()).done).toBe(true)
+    }
+  })
+})
@@ -0,0 +1,95 @@
+import type { Server } from "bun"
+import { routes } from "../src/routes"
+import { registerUser } from "../src/services"
+import { userQueries, type User } from "../src/db"
+
+/**
+ * Test helpers. Requests go through a real Bun server on a random port serving the
+ * route table from routes/index.ts, so path params and method matching behave as in production.
+ */
+
+let server: Server<undefined> | null = null
+let userCounter = 0
+
+function getServer(): Server<undefined> {
+  if (!server) {
+    server = Bun.serve({
+      port: 0,
+      routes,
+      fetch: () => new Response("Not Found", { status: 404 }),
+    })
+  }
+  return server
+}
+
+export function stopTestServer(): void {
+  server?.stop(true)
+  server = null
+}
+
+export interface TestRequestOptions {
+  method?: string
+  token?: string
+  body?: unknown
+  headers?: Record<string, string>
+}
+
+export async function request(path: string, options: TestRequestOptions = {}): Promise<Response> {
+  const headers = new Headers(options.headers)
+  if (options.token) {
+    headers.set("Authorization", `Bearer ${options.token}`)
+  }
+
+  let body: string | FormData | undefined
+  if (typeof options.body === "string" || options.body instanceof FormData) {
+    body = options.body
+  } else if (options.body !== undefined) {
+    headers.set("Content-Type", "application/json")
+    body = JSON.stringify(options.body)
+  }
+
+  return fetch(new URL(path, getServer().url), {
+    method: options.method || (body ? "POST" : "GET"),
+    headers,
+    body,
+  })
+}
+
+export async function requestJson<T = any>(
+  path: string,
+  options: TestRequestOptions = {}
+): Promise<{ status: number; body: T }> {
+  const response = await request(path, options)
+  return { status: response.status, body: await response.json() as T }
+}
+
+export interface TestUser {
+  user: User
+  password: string
+  accessToken: string
+  refreshToken: string
+}
+
+// Register a fresh user; tests share one database, so every user gets a unique email
+export async function createTestUser(name = "Test User"): Promise<TestUser> {
+  userCounter++
+  const email = `user${userCounter}-${Date.now()}@example.com`
+  const password = "password123"
+  const result = await registerUser(email, password, name)
+  if ("error" in result) {
+    throw new Error(`Failed to create test user: ${result.error}`)
+  }
+
+  return {
+    user: userQueries.findById.get(result.user.id)!,
+    password,
+    accessToken: result.tokens.accessToken,
+    refreshToken: result.tokens.refreshToken,
+  }
+}
+
+// Sign in to the admin dashboard; the default credentials create the bootstrap superadmin
+export async function adminLogin(email = "admin@promptink.local", password = "admin123"): Promise<string> {
+  const { body } = await requestJson<{ token: string }>("/api/admin/login", { body: { email, password } })
+  return body.token
+}
@@ -0,0 +1,180 @@
+import { describe, expect, test } from "bun:test"
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes, verify } from "crypto"
+import { pushSubscriptionQueries } from "../src/db"
+import { notifyUser } from "../src/services/notification-service"
+import { createTestUser, requestJson } from "./helpers"
+
+// A browser's push keys, as PushSubscription.toJSON() reports them
+function createBrowserKeys() {
+  const ecdh = createECDH("prime256v1")
+  const publicKey = ecdh.generateKeys()
+  const authSecret = randomBytes(16)
+  return { ecdh, publicKey, authSecret, p256dh: publicKey.toString("base64url"), auth: authSecret.toString("base64url") }
+}
+
+// Decrypt an aes128gcm push message the way the browser does (RFC 8291)
+function decryptPushMessage(body: Buffer, browser: ReturnType<typeof createBrowserKeys>) {
+  const salt = body.subarray(0, 16)
+  const keyLength = body[20]!
+  const serverPublicKey = body.subarray(21, 21 + keyLength)
+  const ciphertext = body.subarray(21 + keyLength)
+
+  const sharedSecret = browser.ecdh.computeSecret(serverPublicKey)
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), browser.publicKey, serverPublicKey])
+  const ikm = Buffer.from(hkdfSync("sha256", sharedSecret, browser.authSecret, keyInfo, 32))
+  const contentKey = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16))
+  const nonce = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12))
+
+  const decipher = createDecipheriv("aes-128-gcm", contentKey, nonce)
+  decipher.setAuthTag(ciphertext.subarray(-16))
+  const plaintext = Buffer.concat([decipher.update(ciphertext.subarray(0, -16)), decipher.final()])
+  expect(plaintext.at(-1)).toBe(2) // last-record delimiter
+  return JSON.parse(plaintext.subarray(0, -1).toString())
+}
+
+// Stand-in push service that records requests and answers with `status`
+function startPushService(status: number) {
+  const requests: { authorization: string; encoding: string | null; body: Buffer }[] = []
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      requests.push({
+        authorization: req.headers.get("Authorization") || "",
+        encoding: req.headers.get("Content-Encoding"),
+        body: Buffer.from(await req.arrayBuffer()),
+      })
+      return new Response(null, { status })
+    },
+  })
+  return { server, requests, endpoint: `http://localhost:${server.port}/push/${crypto.randomUUID()}` }
+}
+
+const shippedNotification = {
+  event: "order_shipped" as const,
+  title: "Your order has shipped",
+  body: "Order PI-1 is on its way.",
+  path: "/#orders",
+}
+
+describe("notifications", () => {
+  test("manages preferences and push subscriptions", async () => {
+    const { accessToken } = await createTestUser()
+
+    const initial = await requestJson("/api/notifications/preferences", { token: accessToken })
+    expect(initial.body.preferences.batch_finished).toEqual({ push: true, email: false })
+    expect(initial.body.push.publicKey).toBe(process.env.VAPID_PUBLIC_KEY)
+
+    const updated = await requestJson("/api/notifications/preferences", {
+      method: "PUT",
+      token: accessToken,
+      body: { preferences: { batch_finished: { email: true }, schedule_failing: { push: false } } },
+    })
+    expect(updated.status).toBe(200)
+    expect(updated.body.preferences.batch_finished).toEqual({ push: true, email: true })
+    expect(updated.body.preferences.schedule_failing).toEqual({ push: false, email: true })
+
+    const unknown = await requestJson("/api/notifications/preferences", {
+      method: "PUT",
+      token: accessToken,
+      body: { preferences: { weekly_digest: { email: true } } },
+    })
+    expect(unknown.status).toBe(400)
+
+    const browser = createBrowserKeys()
+    const invalid = await requestJson("/api/notifications/push-subscriptions", {
+      token: accessToken,
+      body: { endpoint: "https://push.example.com/1", keys: { p256dh: "short", auth: browser.auth } },
+    })
+    expect(invalid.status).toBe(400)
+
+    const subscription = { endpoint: "https://push.example.com/1", keys: { p256dh: browser.p256dh, auth: browser.auth } }
+    const saved = await requestJson("/api/notifications/push-subscriptions", { token: accessToken, body: subscription })
+    expect(saved.status).toBe(201)
+
+    const removed = await requestJson("/api/notifications/push-subscriptions", {
+      method: "DELETE",
+      token: accessToken,
+      body: { endpoint: subscription.endpoint },
+    })
+    expect(removed.status).toBe(200)
+  })
+
+  test("delivers encrypted push messages signed with the VAPID key", async () => {
+    const { user } = await createTestUser()
+    const browser = createBrowserKeys()
+    const pushService = startPushService(201)
+
+    try {
+      pushSubscriptionQueries.upsert.get(user.id, pushService.endpoint, browser.p256dh, browser.auth, null)
+
+      const delivery = await notifyUser(user.id, shippedNotification)
+      expect(delivery.push).toBe(1)
+      expect(pushService.requests).toHaveLength(1)
+
+      const [request] = pushService.requests
+      expect(request!.encoding).toBe("aes128gcm")
+      expect(decryptPushMessage(request!.body, browser)).toEqual({
+        title: shippedNotification.title,
+        body: shippedNotification.body,
+        url: "/#orders",
+        tag: "order_shipped",
+      })
+
+      // The JWT is signed by the advertised VAPID key and scoped to the push service's origin
+      const [, token, key] = /^vapid t=([^,]+), k=(.+)$/.exec(request!.authorization)!
+      expect(key).toBe(process.env.VAPID_PUBLIC_KEY)
+      const [header, claims, signature] = token!.split(".")
+      const publicKey = Buffer.from(key!, "base64url")
+      const verified = verify(
+        "sha256",
+        Buffer.from(`${header}.${claims}`),
+        {
+          key: createPublicKey({
+            key: {
+              kty: "EC",
+              crv: "P-256",
+              x: publicKey.subarray(1, 33).toString("base64url"),
+              y: publicKey.subarray(33).toString("base64url"),
+            },
+            format: "jwk",
+          }),
+          dsaEncoding: "ieee-p1363",
+        },
+        Buffer.from(signature!, "base64url")
+      )
+      expect(verified).toBe(true)
+      expect(JSON.parse(Buffer.from(claims!, "base64url").toString()).aud).toBe(new URL(pushService.endpoint).origin)
+    } finally {
+      pushService.server.stop(true)
+    }
+  })
+
+  test("respects disabled channels and drops expired subscriptions", async () => {
+    const { user, accessToken } = await createTestUser()
+    const browser = createBrowserKeys()
+    const pushService = startPushService(410)
+
+    try {
+      pushSubscriptionQueries.upsert.get(user.id, pushService.endpoint, browser.p256dh, browser.auth, null)
+
+      await requestJson("/api/notifications/preferences", {
+        method: "PUT",
+        token: accessToken,
+        body: { preferences: { order_shipped: { push: false, email: false } } },
+      })
+      expect(await notifyUser(user.id, shippedNotification)).toEqual({ push: 0, email: false })
+      expect(pushService.requests).toHaveLength(0)
+
+      await requestJson("/api/notifications/preferences", {
+        method: "PUT",
+        token: accessToken,
+        body: { preferences: { order_shipped: { push: true } } },
+      })
+      expect(await notifyUser(user.id, shippedNotification)).toEqual({ push: 0, email: false })
+      expect(pushService.requests).toHaveLength(1)
+      expect(pushSubscriptionQueries.findByUserId.all(user.id)).toHaveLength(0)
+    } finally {
+      pushService.server.stop(true)
+    }
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, expect, test } from "bun:test"
+import { readdirSync, readFileSync } from "fs"
+import { join } from "path"
+import { addOrderTracking, createOrder, markOrderPaid, updateOrderStatus } from "../src/services/order-service"
+import { createTestUser } from "./helpers"
+
+interface OutboxEmail {
+  to: string
+  subject: string
+  text: string
+  html: string
+}
+
+// Emails written to the test outbox for one address, oldest first
+async function waitForEmails(to: string, count: number): Promise<OutboxEmail[]> {
+  const outboxDir = process.env.EMAIL_OUTBOX_DIR!
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const emails = readdirSync(outboxDir)
+      .filter(file => file.endsWith(".json"))
+      .sort()
+      .map(file => {
+        const email = JSON.parse(readFileSync(join(outboxDir, file), "utf-8"))
+        return { ...email, html: readFileSync(join(outboxDir, file.replace(/\.json$/, ".html")), "utf-8") }
+      })
+      .filter(email => email.to === to)
+    if (emails.length >= count) return emails
+    await Bun.sleep(10)
+  }
+  throw new Error(`Expected ${count} emails to ${to}`)
+}
+
+function placeOrder(userId: number, language: "en" | "zh", gift?: { recipientEmail: string; message: string }) {
+  const result = createOrder({
+    userId,
+    quantity: 2,
+    language,
+    shipping: {
+      name: gift ? "Mei Chen" : "Test User",
+      email: gift?.recipientEmail,
+      phone: "+65 5555 0100",
+      addressLine1: "1 Example Road",
+      city: "Singapore",
+      state: "Singapore",
+      postalCode: "123456",
+      country: "SG",
+    },
+    gift: gift ? { isGift: true, recipientName: "Mei", message: gift.message } : undefined,
+  })
+  if ("error" in result) throw new Error(result.error)
+  return result.order
+}
+
+describe("order emails", () => {
+  test("sends confirmation, receipt, shipped and delivered emails in the order's language", async () => {
+    const { user } = await createTestUser("Ann")
+    const order = placeOrder(user.id, "en")
+
+    expect("order" in markOrderPaid(order.id, "pay_123")).toBe(true)
+    const [confirmation, receipt] = await waitForEmails(user.email, 2)
+    expect(confirmation!.subject).toBe(`Order ${order.orderNumber} confirmed - Promptink`)
+    expect(confirmation!.text).toContain("1 Example Road")
+    expect(receipt!.subject).toBe(`Receipt for order ${order.orderNumber} - Promptink`)
+    expect(receipt!.text).toContain("2 × $120.00")
+    expect(receipt!.text).toContain(`Total paid: $${(order.totalAmount / 100).toFixed(2)}`)
+    expect(receipt!.text).toContain("Payment ID: pay_123")
+
+    addOrderTracking(order.id, "TRK123", "DHL", "https://track.example.com/TRK123")
+    const shipped = (await waitForEmails(user.email, 3))[2]!
+    expect(shipped.subject).toBe(`Order ${order.orderNumber} has shipped - Promptink`)
+    expect(shipped.text).toContain("Tracking number: TRK123")
+    expect(shipped.html).toContain('href="https://track.example.com/TRK123"')
+
+    // Updating the tracking again doesn't re-send the shipped email
+    addOrderTracking(order.id, "TRK124", "DHL")
+    const delivered = updateOrderStatus(order.id, "delivered")
+    expect("order" in delivered && delivered.order.deliveredAt).toBeTruthy()
+    const emails = await waitForEmails(user.email, 4)
+    expect(emails).toHaveLength(4)
+    expect(emails[3]!.subject).toBe(`Order ${order.orderNumber} was delivered - Promptink`)
+  })
+
+  test("sends Chinese emails and a gift notice to the recipient", async () => {
+    const { user } = await createTestUser("Lin")
+    const recipientEmail = `gift-${Date.now()}@example.com`
+    const order = placeOrder(user.id, "zh", { recipientEmail, message: "Happy birthday <3" })
+
+    markOrderPaid(order.id, "pay_456")
+    const [confirmation] = await waitForEmails(user.email, 2)
+    expect(confirmation!.subject).toBe(`订单 ${order.orderNumber} 已确认 - Promptink`)
+    expect(confirmation!.html).toContain('<html lang="zh">')
+    expect(confirmation!.html).toContain("Happy birthday &lt;3")
+
+    updateOrderStatus(order.id, "shipped")
+    const [gift] = await waitForEmails(recipientEmail, 1)
+    expect(gift!.subject).toBe("Lin 送了您一份礼物 - Promptink")
+    expect(gift!.text).toContain("Mei，您好：")
+    expect(gift!.text).toContain("“Happy birthday <3”")
+  })
+  test("correcting the tracking of a delivered order doesn't announce the shipment again", async () => {
+    const { user } = await createTestUser("Ravi")
+    const recipientEmail = `gift-delivered-${Date.now()}@example.com`
+    const order = placeOrder(user.id, "en", { recipientEmail, message: "Enjoy" })
+
+    markOrderPaid(order.id, "pay_789")
+    addOrderTracking(order.id, "TRK200", "DHL")
+    updateOrderStatus(order.id, "delivered")
+    await waitForEmails(user.email, 4)
+    await waitForEmails(recipientEmail, 1)
+
+    const corrected = addOrderTracking(order.id, "TRK201", "DHL")
+    expect("order" in corrected && corrected.order.status).toBe("delivered")
+    updateOrderStatus(order.id, "shipped")
+    await Bun.sleep(100)
+    expect(await waitForEmails(user.email, 4)).toHaveLength(4)
+    expect(await waitForEmails(recipientEmail, 1)).toHaveLength(1)
+  })
+})
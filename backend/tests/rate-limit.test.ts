@@ -0,0 +1,174 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test"
+import { db } from "../src/db"
+import { apiLimiter, authLimiter, getRateLimitStats, rateLimit, setRateLimitStore } from "../src/middleware/rate-limit"
+import { createMemoryStore, createSqliteStore } from "../src/middleware/rate-limit-store"
+import { getClientIp, isIpInRanges, parseIpRanges } from "../src/utils"
+import { getRouteLimiter } from "../src/routes"
+import { adminLogin, createTestUser, request, requestJson } from "./helpers"
+
+const WINDOW_MS = 60 * 1000
+// Start of a window, so tests can place requests at known points within it
+const WINDOW_START = Math.ceil(Date.now() / WINDOW_MS) * WINDOW_MS + 10 * WINDOW_MS
+
+// Stand-in for Bun's server: every request arrives from the given socket address
+function peer(address: string) {
+  return { requestIP: () => ({ address }) }
+}
+
+function get(headers: Record<string, string> = {}): Request {
+  return new Request("http://localhost/api/test", { headers })
+}
+
+afterEach(() => {
+  setSystemTime()
+})
+
+describe("client IP", () => {
+  const trusted = parseIpRanges(["loopback", "private"])
+
+  test("X-Forwarded-For is ignored unless the peer is a trusted proxy", () => {
+    const spoofed = get({ "x-forwarded-for": "1.1.1.1" })
+    expect(getClientIp(spoofed, "203.0.113.7", trusted)).toBe("203.0.113.7")
+    expect(getClientIp(spoofed, "10.0.0.2", trusted)).toBe("1.1.1.1")
+  })
+
+  test("walks back through trusted proxies to the first untrusted hop", () => {
+    // The client wrote 1.1.1.1 itself; 198.51.100.4 is what the edge proxy saw
+    const req = get({ "x-forwarded-for": "1.1.1.1, 198.51.100.4, 172.16.3.1" })
+    expect(getClientIp(req, "::ffff:127.0.0.1", trusted)).toBe("198.51.100.4")
+    expect(getClientIp(get(), "10.0.0.2", trusted)).toBe("10.0.0.2")
+  })
+
+  test("parses CIDR ranges and presets for IPv4 and IPv6", () => {
+    const ranges = parseIpRanges(["192.0.2.0/24", "2001:db8::/32", "not-an-ip", "10.0.0.1/40"])
+    expect(ranges).toHaveLength(2)
+    expect(isIpInRanges("192.0.2.200", ranges)).toBe(true)
+    expect(isIpInRanges("::ffff:192.0.2.1", ranges)).toBe(true)
+    expect(isIpInRanges("2001:db8:1::5", ranges)).toBe(true)
+    expect(isIpInRanges("192.0.3.1", ranges)).toBe(false)
+    expect(isIpInRanges("::1", trusted)).toBe(true)
+    expect(isIpInRanges("fd12:3456::1", trusted)).toBe(true)
+  })
+})
+
+describe("rate limiter", () => {
+  test("uses a sliding window per client IP", async () => {
+    setRateLimitStore(createMemoryStore())
+    const limiter = rateLimit("test-window", {
+      windowMs: WINDOW_MS,
+      limits: { anonymous: 3, free: 5, subscriber: 10 },
+    })
+    const client = peer("203.0.113.7")
+
+    setSystemTime(new Date(WINDOW_START))
+    for (let i = 0; i < 3; i++) {
+      expect(await limiter(get(), client)).toBeNull()
+    }
+    const limited = await limiter(get(), client)
+    expect(limited?.status).toBe(429)
+    expect(limited?.headers.get("X-RateLimit-Limit")).toBe("3")
+    // 4 requests this window: allowed again once a quarter of the next window has passed
+    expect(limited?.headers.get("Retry-After")).toBe("75")
+    expect(await limiter(get(), peer("203.0.113.8"))).toBeNull()
+
+    // Halfway through the next window the previous one counts for half: 4 × 0.5 + 1
+    setSystemTime(new Date(WINDOW_START + WINDOW_MS * 1.5))
+    expect(await limiter(get(), client)).toBeNull()
+    expect((await limiter(get(), client))?.status).toBe(429)
+
+    setSystemTime(new Date(WINDOW_START + WINDOW_MS * 3))
+    expect(await limiter(get(), client)).toBeNull()
+  })
+
+  test("keys signed-in users by ID with their plan's limit, and keeps counts across restarts", async () => {
+    setRateLimitStore(createSqliteStore())
+    const limiter = rateLimit("test-tiers", {
+      windowMs: WINDOW_MS,
+      limits: { anonymous: 1, free: 2, subscriber: 4 },
+    })
+    const client = peer("198.51.100.20")
+    const free = await createTestUser()
+    const subscriber = await createTestUser()
+    db.run("UPDATE users SET subscription_status = 'active' WHERE id = ?", [subscriber.user.id])
+    const as = (token: string) => get({ Authorization: `Bearer ${token}` })
+
+    setSystemTime(new Date(WINDOW_START))
+    expect(await limiter(get(), client)).toBeNull()
+    expect((await limiter(get(), client))?.status).toBe(429)
+
+    // Same address, but each user has their own counter and limit
+    expect(await limiter(as(free.accessToken), client)).toBeNull()
+    expect(await limiter(as(free.accessToken), client)).toBeNull()
+    expect((await limiter(as(free.accessToken), client))?.status).toBe(429)
+    for (let i = 0; i < 4; i++) {
+      expect(await limiter(as(subscriber.accessToken), client)).toBeNull()
+    }
+
+    // A new store on the same database (a restart) still sees the counters
+    setRateLimitStore(createSqliteStore())
+    expect((await limiter(as(subscriber.accessToken), client))?.status).toBe(429)
+
+    const stats = await getRateLimitStats("test-tiers")
+    expect(stats.activeEntries).toBe(3)
+    expect(stats.totalRequests).toBe(2 + 3 + 5)
+    expect(stats.keys.map(({ subject, tier, limit }) => ({ subject, tier, limit }))).toEqual([
+      { subject: "ip:198.51.100.20", tier: "anonymous", limit: 1 },
+      { subject: `user:${free.user.id}`, tier: "free", limit: 2 },
+      { subject: `user:${subscriber.user.id}`, tier: "subscriber", limit: 4 },
+    ])
+
+    // Admins see the same usage, with the user's email
+    setSystemTime(new Date(WINDOW_START + 1000))
+    const { status, body } = await requestJson("/api/admin/rate-limits", { token: await adminLogin() })
+    expect(status).toBe(200)
+    expect(body.store).toBe("sqlite")
+    const tiers = body.limiters.find((limiter: { name: string }) => limiter.name === "test-tiers")
+    expect(tiers.limits).toEqual({ anonymous: 1, free: 2, subscriber: 4 })
+    expect(tiers.keys[1]).toMatchObject({ userId: free.user.id, email: free.user.email, count: 3 })
+    expect(body.limiters.map((limiter: { name: string }) => limiter.name)).toContain("auth")
+  })
+})
+
+describe("route limits", () => {
+  test("token polling and image URLs never share the anonymous per-IP limit", () => {
+    for (const path of [
+      "/api/trmnl/poll/:token",
+      "/api/trmnl/images/:token",
+      "/api/trmnl/images/:token/original",
+      "/api/health",
+    ]) {
+      expect(getRouteLimiter(path)).toBeNull()
+    }
+    expect(getRouteLimiter("/api/sync/status")).toBe(apiLimiter)
+    expect(getRouteLimiter("/api/auth/login")).toBe(authLimiter)
+  })
+
+  test("legacy numeric polling URLs keep the general limit", async () => {
+    for (const path of [
+      "/api/trmnl/webhook/:userId",
+      "/api/trmnl/webhook/:userId/:deviceId",
+      "/api/images/synced/:userId",
+      "/api/images/synced/:userId/:deviceId",
+    ]) {
+      expect(getRouteLimiter(path)).toBe(apiLimiter)
+    }
+
+    // Enumerating user IDs from one address runs into the anonymous limit of 100 a minute
+    setRateLimitStore(createMemoryStore())
+    setSystemTime(new Date(WINDOW_START))
+    const limiter = getRouteLimiter("/api/trmnl/webhook/:userId")!
+    const client = peer("203.0.113.50")
+    for (let userId = 1; userId <= 100; userId++) {
+      expect(await limiter(new Request(`http://localhost/api/trmnl/webhook/${userId}`), client)).toBeNull()
+    }
+    const limited = await limiter(new Request("http://localhost/api/trmnl/webhook/101"), client)
+    expect(limited?.status).toBe(429)
+  })
+
+  test("security headers are added with the limiters turned off", async () => {
+    // tests/setup.ts sets RATE_LIMIT_ENABLED=false
+    const response = await request("/api/health")
+    expect(response.headers.get("X-Content-Type-Options")).toBe("nosniff")
+    expect(response.headers.get("Content-Security-Policy")).toStartWith("default-src 'self'")
+  })
+})
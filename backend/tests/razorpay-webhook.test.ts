@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test"
+import { createHmac } from "crypto"
+import { userQueries } from "../src/db"
+import { createOrder, getOrderById, updateOrderRazorpayId, updateRazorpayCustomerId } from "../src/services"
+import { createTestUser, request } from "./helpers"
+
+let eventCounter = 0
+
+// Razorpay signs the raw body with the webhook secret (set in tests/setup.ts)
+function sign(body: string, secret = process.env.RAZORPAY_WEBHOOK_SECRET!): string {
+  return createHmac("sha256", secret).update(body).digest("hex")
+}
+
+function webhookBody(event: string, payload: Record<string, unknown>): string {
+  eventCounter++
+  return JSON.stringify({ event, created_at: 1760000000 + eventCounter, payload })
+}
+
+async function sendWebhook(body: string, signature = sign(body)) {
+  const response = await request("/api/razorpay/webhook", {
+    body,
+    headers: { "Content-Type": "application/json", "X-Razorpay-Signature": signature },
+  })
+  return { status: response.status, body: await response.json() as any }
+}
+
+function subscriptionPayload(id: string, customerId: string) {
+  return { subscription: { entity: { id, customer_id: customerId, status: "active", current_end: 1790000000 } } }
+}
+
+describe("Razorpay webhook", () => {
+  test("rejects a bad or missing signature", async () => {
+    const body = webhookBody("subscription.activated", subscriptionPayload("sub_bad", "cust_bad"))
+
+    const forged = await sendWebhook(body, sign(body, "some-other-secret"))
+    expect(forged.status).toBe(400)
+    expect(forged.body.error).toBe("Invalid webhook signature")
+
+    expect((await sendWebhook(body, "")).status).toBe(400)
+  })
+
+  test("rejects a body that was changed after signing", async () => {
+    const body = webhookBody("subscription.activated", subscriptionPayload("sub_tamper", "cust_tamper"))
+    const tampered = body.replace("sub_tamper", "sub_other")
+
+    expect((await sendWebhook(tampered, sign(body))).status).toBe(400)
+  })
+
+  test("subscription.activated finds the user by customer ID and activates them", async () => {
+    const { user } = await createTestUser()
+    updateRazorpayCustomerId(user.id, "cust_activate")
+
+    const result = await sendWebhook(webhookBody("subscription.activated", subscriptionPayload("sub_activate", "cust_activate")))
+    expect(result.status).toBe(200)
+    expect(result.body.success).toBe(true)
+
+    const updated = userQueries.findById.get(user.id)!
+    expect(updated.subscription_status).toBe("active")
+    expect(updated.subscription_id).toBe("sub_activate")
+    expect(updated.subscription_current_period_end).toBe(new Date(1790000000 * 1000).toISOString())
+  })
+
+  test("replayed events are acknowledged but not applied twice", async () => {
+    const { user } = await createTestUser()
+    updateRazorpayCustomerId(user.id, "cust_replay")
+    const activated = webhookBody("subscription.activated", subscriptionPayload("sub_replay", "cust_replay"))
+    await sendWebhook(activated)
+
+    const cancelled = webhookBody("subscription.cancelled", subscriptionPayload("sub_replay", "cust_replay"))
+    await sendWebhook(cancelled)
+    expect(userQueries.findById.get(user.id)!.subscription_status).toBe("cancelled")
+
+    // Replaying the activation must not reactivate the cancelled subscription
+    const replay = await sendWebhook(activated)
+    expect(replay.status).toBe(200)
+    expect(replay.body.message).toBe("Event already processed")
+    expect(userQueries.findById.get(user.id)!.subscription_status).toBe("cancelled")
+  })
+
+  test("payment.captured marks the pending order as paid", async () => {
+    const { user } = await createTestUser()
+    const created = createOrder({
+      userId: user.id,
+      quantity: 1,
+      shipping: {
+        name: "Test User",
+        phone: "+6512345678",
+        addressLine1: "1 Test Street",
+        city: "Singapore",
+        state: "Singapore",
+        postalCode: "123456",
+        country: "Singapore",
+      },
+    })
+    if ("error" in created) throw new Error(created.error)
+    updateOrderRazorpayId(created.order.id, "order_webhook")
+
+    const result = await sendWebhook(webhookBody("payment.captured", {
+      payment: { entity: { id: "pay_webhook", order_id: "order_webhook", amount: 19900, status: "captured" } },
+    }))
+    expect(result.status).toBe(200)
+
+    const order = getOrderById(created.order.id, user.id)
+    expect("order" in order && order.order.status).toBe("paid")
+  })
+})
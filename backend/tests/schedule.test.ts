@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test"
+import { db, scheduledJobQueries } from "../src/db"
+import { calculateNextRunTime, checkDueJobs } from "../src/services/scheduler-service"
+import { getNextCronRun } from "../src/utils"
+import { createTestUser, requestJson } from "./helpers"
+
+// 2026 DST changes: US on Mar 8 / Nov 1, EU on Mar 29 / Oct 25
+const NEW_YORK = "America/New_York"
+const LONDON = "Europe/London"
+
+afterEach(() => {
+  setSystemTime()
+})
+
+describe("calculateNextRunTime across DST", () => {
+  test("daily run keeps its wall-clock time when clocks spring forward", () => {
+    // Saturday 3pm EST
+    setSystemTime(new Date("2026-03-07T20:00:00Z"))
+    // Sunday 9am is EDT (UTC-4)
+    expect(calculateNextRunTime("daily", "09:00", null, null, NEW_YORK)).toBe("2026-03-08T13:00:00.000Z")
+  })
+
+  test("daily run keeps its wall-clock time when clocks fall back", () => {
+    // Saturday 4pm EDT
+    setSystemTime(new Date("2026-10-31T20:00:00Z"))
+    // Sunday 9am is EST (UTC-5)
+    expect(calculateNextRunTime("daily", "09:00", null, null, NEW_YORK)).toBe("2026-11-01T14:00:00.000Z")
+  })
+
+  test("weekly run after the change uses the new offset", () => {
+    // Friday before the EU change, 10am GMT
+    setSystemTime(new Date("2026-03-27T10:00:00Z"))
+    // Monday 8am BST (UTC+1)
+    expect(calculateNextRunTime("weekly", "08:00", "[1]", null, LONDON)).toBe("2026-03-30T07:00:00.000Z")
+  })
+
+  test("one-off run in the skipped hour moves forward", () => {
+    setSystemTime(new Date("2026-03-01T00:00:00Z"))
+    // 02:30 doesn't exist on Mar 8 in New York; it runs at 03:30 EDT
+    expect(calculateNextRunTime("once", "", null, "2026-03-08T02:30", NEW_YORK)).toBe("2026-03-08T07:30:00.000Z")
+  })
+
+  test("one-off run in the past has no next run", () => {
+    setSystemTime(new Date("2026-03-10T00:00:00Z"))
+    expect(calculateNextRunTime("once", "", null, "2026-03-08T09:00", NEW_YORK)).toBeNull()
+  })
+
+  test("interval runs stay aligned to the previous run", () => {
+    setSystemTime(new Date("2026-03-08T12:10:00Z"))
+    expect(
+      calculateNextRunTime("interval", "", null, null, NEW_YORK, null, 60, "2026-03-08T10:00:00.000Z")
+    ).toBe("2026-03-08T13:00:00.000Z")
+  })
+})
+
+describe("getNextCronRun across DST", () => {
+  test("fires at local time on both sides of the spring change", () => {
+    const first = getNextCronRun("0 9 * * *", new Date("2026-03-07T15:00:00Z"), NEW_YORK)
+    expect(first?.toISOString()).toBe("2026-03-08T13:00:00.000Z")
+    const second = getNextCronRun("0 9 * * *", first!, NEW_YORK)
+    expect(second?.toISOString()).toBe("2026-03-09T13:00:00.000Z")
+  })
+
+  test("runs once during the repeated hour when clocks fall back", () => {
+    const first = getNextCronRun("30 1 * * *", new Date("2026-11-01T04:00:00Z"), NEW_YORK)
+    expect(first?.toISOString()).toBe("2026-11-01T05:30:00.000Z")
+    const next = getNextCronRun("30 1 * * *", first!, NEW_YORK)
+    expect(next?.toISOString()).toBe("2026-11-02T06:30:00.000Z")
+  })
+})
+
+describe("schedule routes", () => {
+  test("creating a daily schedule stores the next run in UTC", async () => {
+    setSystemTime(new Date("2026-03-07T20:00:00Z"))
+    const { accessToken } = await createTestUser()
+
+    const created = await requestJson("/api/schedule", {
+      token: accessToken,
+      body: { prompt: "Morning skyline", scheduleType: "daily", scheduleTime: "09:00", timezone: NEW_YORK },
+    })
+    expect(created.status).toBe(201)
+    expect(created.body.next_run_at).toBe("2026-03-08T13:00:00.000Z")
+  })
+
+  test("invalid timezones are rejected", async () => {
+    const { accessToken } = await createTestUser()
+
+    const created = await requestJson("/api/schedule", {
+      token: accessToken,
+      body: { prompt: "Morning skyline", scheduleType: "daily", scheduleTime: "09:00", timezone: "Mars/Olympus" },
+    })
+    expect(created.status).toBe(400)
+  })
+})
+
+describe("running due schedules", () => {
+  async function createDailySchedule(prompt: string) {
+    setSystemTime(new Date("2026-03-07T20:00:00Z"))
+    const { accessToken } = await createTestUser()
+    const created = await requestJson("/api/schedule", {
+      token: accessToken,
+      body: { prompt, scheduleType: "daily", scheduleTime: "09:00", timezone: NEW_YORK },
+    })
+    expect(created.status).toBe(201)
+    return created.body.id as number
+  }
+
+  test("a due schedule runs once and moves to its next run", async () => {
+    const jobId = await createDailySchedule("Queued skyline")
+
+    setSystemTime(new Date("2026-03-08T13:00:30Z"))
+    await checkDueJobs()
+    // Checking again doesn't queue the same run twice
+    await checkDueJobs()
+
+    const job = scheduledJobQueries.findById.get(jobId)!
+    expect(job.run_count).toBe(1)
+    expect(job.next_run_at).toBe("2026-03-09T13:00:00.000Z")
+    expect(job.last_error).toBeNull()
+  })
+
+  test("a failing run is retried before the error is recorded", async () => {
+    const jobId = await createDailySchedule("Broken skyline")
+    // Provider that isn't configured in tests
+    db.run("UPDATE scheduled_jobs SET provider = 'comfyui' WHERE id = ?", [jobId])
+
+    setSystemTime(new Date("2026-03-08T13:00:30Z"))
+    await checkDueJobs()
+    let job = scheduledJobQueries.findById.get(jobId)!
+    expect(job.last_error).toBeNull()
+    expect(job.next_run_at).toBe("2026-03-08T13:00:00.000Z")
+
+    // Retries back off 30s, then 60s; the third failure is final
+    setSystemTime(new Date("2026-03-08T13:01:01Z"))
+    await checkDueJobs()
+    setSystemTime(new Date("2026-03-08T13:02:02Z"))
+    await checkDueJobs()
+
+    job = scheduledJobQueries.findById.get(jobId)!
+    expect(job.last_error).toContain("not configured")
+    expect(job.next_run_at).toBe("2026-03-09T13:00:00.000Z")
+  })
+})
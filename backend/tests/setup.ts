@@ -0,0 +1,47 @@
+import { afterAll } from "bun:test"
+import { generateKeyPairSync } from "crypto"
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+
+// Preloaded by `bun test` (see bunfig.toml). The environment has to be in place before
+// any src module loads, because config, db and services read it at import time.
+const imagesDir = mkdtempSync(join(tmpdir(), "promptink-test-"))
+const outboxDir = mkdtempSync(join(tmpdir(), "promptink-outbox-"))
+
+process.env.NODE_ENV = "test"
+process.env.TZ = "UTC"
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || "silent"
+process.env.DB_PATH = ":memory:"
+process.env.IMAGES_DIR = imagesDir
+process.env.EMAIL_OUTBOX_DIR = outboxDir
+process.env.BASE_URL = "http://localhost:3000"
+process.env.JWT_SECRET = "test-jwt-secret"
+process.env.JWT_REFRESH_SECRET = "test-jwt-refresh-secret"
+process.env.OPENAI_MOCK = "true"
+process.env.OPENAI_API_KEY = ""
+process.env.IMAGE_PROVIDER = "placeholder"
+process.env.RAZORPAY_WEBHOOK_SECRET = "test-webhook-secret"
+// Test users have no subscription; let the free plan generate so route tests don't need one
+process.env.QUOTA_FREE_IMAGES_PER_MONTH = "1000"
+// Route tests log in many times from one address; tests/rate-limit.test.ts calls the limiters directly
+process.env.RATE_LIMIT_ENABLED = "false"
+
+// VAPID keys so push notifications can be delivered to a local stand-in push service
+const vapid = generateKeyPairSync("ec", { namedCurve: "P-256" }).privateKey.export({ format: "jwk" })
+process.env.VAPID_PRIVATE_KEY = vapid.d
+process.env.VAPID_PUBLIC_KEY = Buffer.concat([
+  Buffer.from([4]),
+  Buffer.from(vapid.x!, "base64url"),
+  Buffer.from(vapid.y!, "base64url"),
+]).toString("base64url")
+
+const { initDatabase } = await import("../src/db")
+initDatabase()
+
+afterAll(async () => {
+  const { stopTestServer } = await import("./helpers")
+  stopTestServer()
+  rmSync(imagesDir, { recursive: true, force: true })
+  rmSync(outboxDir, { recursive: true, force: true })
+})
@@ -0,0 +1,74 @@
+import { afterEach, beforeAll, describe, expect, setSystemTime, test } from "bun:test"
+import { renderPlaceholderImage } from "../src/services"
+import { createTestUser, request, requestJson } from "./helpers"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+let imageUrl = ""
+
+beforeAll(async () => {
+  // Data URLs go through the same download path as remote images
+  const image = await renderPlaceholderImage("share-test", "256x256", "Share test")
+  imageUrl = `data:image/png;base64,${image.toString("base64")}`
+})
+
+afterEach(() => {
+  setSystemTime()
+})
+
+async function createShare(token: string, expiresInDays?: number): Promise<string> {
+  const created = await requestJson("/api/share/create", {
+    token,
+    body: { imageUrl, prompt: "A shared test image", expiresInDays },
+  })
+  expect(created.status).toBe(200)
+  return created.body.shareId
+}
+
+describe("shared images", () => {
+  test("share info, image and page are served and count views", async () => {
+    const { accessToken } = await createTestUser()
+    const shareId = await createShare(accessToken, 7)
+
+    const first = await requestJson(`/api/share/${shareId}`)
+    expect(first.status).toBe(200)
+    expect(first.body.prompt).toBe("A shared test image")
+    expect(first.body.viewCount).toBe(1)
+    expect((await requestJson(`/api/share/${shareId}`)).body.viewCount).toBe(2)
+
+    const image = await request(`/api/share/${shareId}/image`)
+    expect(image.status).toBe(200)
+    expect(image.headers.get("Content-Type")).toContain("image/")
+
+    expect((await request(`/s/${shareId}`)).status).toBe(200)
+  })
+
+  test("expired shares return 410 everywhere", async () => {
+    const { accessToken } = await createTestUser()
+    const createdAt = Date.now()
+    const shareId = await createShare(accessToken, 7)
+
+    setSystemTime(new Date(createdAt + 6 * DAY_MS))
+    expect((await request(`/api/share/${shareId}`)).status).toBe(200)
+
+    setSystemTime(new Date(createdAt + 8 * DAY_MS))
+    const info = await requestJson(`/api/share/${shareId}`)
+    expect(info.status).toBe(410)
+    expect(info.body.error).toBe("This share has expired")
+    expect((await request(`/api/share/${shareId}/image`)).status).toBe(410)
+    expect((await request(`/s/${shareId}`)).status).toBe(410)
+  })
+
+  test("shares without an expiry never expire", async () => {
+    const { accessToken } = await createTestUser()
+    const shareId = await createShare(accessToken)
+
+    setSystemTime(new Date(Date.now() + 365 * DAY_MS))
+    expect((await request(`/api/share/${shareId}`)).status).toBe(200)
+  })
+
+  test("unknown shares return 404", async () => {
+    expect((await request("/api/share/does-not-exist")).status).toBe(404)
+    expect((await request("/api/share/does-not-exist/image")).status).toBe(404)
+  })
+})
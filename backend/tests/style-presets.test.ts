@@ -0,0 +1,90 @@
+import { describe, expect, test } from "bun:test"
+import { applyStylePreset, findStylePreset, requireStylePreset } from "../src/services/style-preset-service"
+import { createTestUser, requestJson } from "./helpers"
+
+describe("style preset registry", () => {
+  test("built-in presets keep their original suffixes", () => {
+    const preset = findStylePreset("anime", null)
+    expect(preset?.source).toBe("built_in")
+    expect(applyStylePreset("A fox", preset)).toBe(
+      "A fox, anime style, Japanese animation, vibrant colors, cel-shaded, manga-inspired"
+    )
+    expect(applyStylePreset("A fox", findStylePreset("none", null))).toBe("A fox")
+    expect(findStylePreset("glitter", null)).toBeNull()
+  })
+
+  test("creates, edits and deletes a user preset", async () => {
+    const { user, accessToken } = await createTestUser()
+
+    const invalid = await requestJson("/api/style-presets", {
+      token: accessToken,
+      body: { name: "Empty" },
+    })
+    expect(invalid.status).toBe(400)
+
+    const created = await requestJson("/api/style-presets", {
+      token: accessToken,
+      body: { name: "Noir", promptPrefix: "Film noir still of", promptSuffix: "high contrast", size: "1792x1024", quality: "hd" },
+    })
+    expect(created.status).toBe(201)
+    const preset = created.body.preset
+    expect(preset).toMatchObject({ source: "own", visibility: "private", size: "1792x1024", quality: "hd", style: null })
+    expect(applyStylePreset("a detective", findStylePreset(preset.key, user.id)))
+      .toBe("Film noir still of a detective, high contrast")
+
+    // Missing fields keep their values
+    const updated = await requestJson(`/api/style-presets/${preset.id}`, {
+      method: "PUT",
+      token: accessToken,
+      body: { style: "natural" },
+    })
+    expect(updated.status).toBe(200)
+    expect(updated.body.preset).toMatchObject({ name: "Noir", promptPrefix: "Film noir still of", style: "natural" })
+
+    const list = await requestJson("/api/style-presets", { token: accessToken })
+    expect(list.body.presets.map((p: { key: string }) => p.key)).toContain(preset.key)
+
+    const deleted = await requestJson(`/api/style-presets/${preset.id}`, { method: "DELETE", token: accessToken })
+    expect(deleted.status).toBe(200)
+    expect(() => requireStylePreset(preset.key, user.id)).toThrow("no longer available")
+  })
+
+  test("private presets are only usable by their owner, shared ones by everyone", async () => {
+    const owner = await createTestUser()
+    const other = await createTestUser()
+
+    const created = await requestJson("/api/style-presets", {
+      token: owner.accessToken,
+      body: { name: "Cyanotype", promptSuffix: "cyanotype print, prussian blue" },
+    })
+    const { id, key } = created.body.preset
+
+    const batchBody = { prompts: ["A fern"], stylePreset: key, provider: "placeholder" }
+    expect((await requestJson("/api/batch", { token: other.accessToken, body: batchBody })).status).toBe(400)
+    expect((await requestJson("/api/batch", { token: owner.accessToken, body: batchBody })).status).toBe(200)
+
+    // Only the owner may edit it
+    const hijack = await requestJson(`/api/style-presets/${id}`, {
+      method: "PUT",
+      token: other.accessToken,
+      body: { visibility: "shared" },
+    })
+    expect(hijack.status).toBe(404)
+
+    await requestJson(`/api/style-presets/${id}`, {
+      method: "PUT",
+      token: owner.accessToken,
+      body: { visibility: "shared" },
+    })
+    const shared = await requestJson("/api/style-presets", { token: other.accessToken })
+    expect(shared.body.presets.find((p: { key: string }) => p.key === key)?.source).toBe("shared")
+    expect((await requestJson("/api/batch", { token: other.accessToken, body: batchBody })).status).toBe(200)
+
+    // Users cannot publish global presets
+    const global = await requestJson("/api/style-presets", {
+      token: owner.accessToken,
+      body: { name: "Everyone", promptSuffix: "gold leaf", visibility: "global" },
+    })
+    expect(global.status).toBe(400)
+  })
+})
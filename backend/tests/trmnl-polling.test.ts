@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test"
+import { join } from "path"
+import sharp from "sharp"
+import { db, devicePlaylistQueries, generatedImageQueries, userDeviceQueries } from "../src/db"
+import { getGalleryImagePath } from "../src/routes/gallery"
+import { setPlaylistImages } from "../src/services/playlist-service"
+import { createTestUser, requestJson } from "./helpers"
+
+// A device with an image already synced to it
+async function createSyncedDevice() {
+  const { user } = await createTestUser()
+  const pollingToken = `poll-token-${user.id}`
+  const device = userDeviceQueries.create.get(user.id, "Desk", `webhook-${user.id}`, "black", 1, null, null, pollingToken)!
+  await Bun.write(join(process.env.IMAGES_DIR!, `user_${user.id}_device_${device.id}.png`), new Uint8Array([137, 80, 78, 71]))
+  return { user, device, pollingToken }
+}
+
+// A synced device with a playlist of two gallery images that is due to advance
+async function createPlaylistDevice() {
+  const synced = await createSyncedDevice()
+  const png = await sharp({ create: { width: 8, height: 8, channels: 3, background: "#888" } }).png().toBuffer()
+  const imageIds: number[] = []
+  for (const prompt of ["First", "Second"]) {
+    const image = generatedImageQueries.create.get(synced.user.id, "", prompt, null, "placeholder", "1024x1024", null, 0, null)!
+    await Bun.write(getGalleryImagePath(synced.user.id, image.id), png)
+    imageIds.push(image.id)
+  }
+  const playlist = devicePlaylistQueries.upsert.get(synced.device.id, synced.user.id, "images", null, "sequential", 15, 1)!
+  setPlaylistImages(playlist.id, imageIds)
+  return { ...synced, imageIds }
+}
+
+describe("TRMNL polling", () => {
+  test("the token polling URL returns the token image URL", async () => {
+    const { pollingToken } = await createSyncedDevice()
+
+    const { status, body } = await requestJson(`/api/trmnl/poll/${pollingToken}`)
+    expect(status).toBe(200)
+    expect(body.has_image).toBe(true)
+    expect(body.image_url).toBe(`http://localhost:3000/api/trmnl/images/${pollingToken}`)
+  })
+
+  test("legacy numeric URLs never reveal the polling token", async () => {
+    const { user, device, pollingToken } = await createSyncedDevice()
+    const legacyImageUrl = `http://localhost:3000/api/images/synced/${user.id}/${device.id}`
+
+    for (const path of [`/api/trmnl/webhook/${user.id}`, `/api/trmnl/webhook/${user.id}/${device.id}`]) {
+      const { status, body } = await requestJson(path)
+      expect(status).toBe(200)
+      expect(body.image_url).toBe(legacyImageUrl)
+      expect(JSON.stringify(body)).not.toContain(pollingToken)
+    }
+  })
+
+  test("only token polls advance the playlist, and polls arriving together advance it once", async () => {
+    const { user, device, pollingToken, imageIds } = await createPlaylistDevice()
+    const currentImageId = () => devicePlaylistQueries.findByDeviceId.get(device.id)!.current_image_id
+    const syncCount = () =>
+      db.query<{ count: number }, [number]>("SELECT COUNT(*) as count FROM synced_images WHERE device_id = ?").get(device.id)!.count
+
+    await requestJson(`/api/trmnl/webhook/${user.id}/${device.id}`)
+    await requestJson(`/api/trmnl/webhook/${user.id}`)
+    expect(currentImageId()).toBeNull()
+
+    const poll = `/api/trmnl/poll/${pollingToken}`
+    const responses = await Promise.all([requestJson(poll), requestJson(poll)])
+    expect(responses.map(response => response.status)).toEqual([200, 200])
+    expect(currentImageId()).toBe(imageIds[0]!)
+    expect(syncCount()).toBe(1)
+  })
+})
@@ -0,0 +1,239 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test"
+import { generateTotp } from "../src/services"
+import { encodeQr } from "../src/utils"
+import { adminLogin, createTestUser, request, requestJson, type TestUser } from "./helpers"
+
+const STEP_MS = 30 * 1000
+
+afterEach(() => {
+  setSystemTime()
+})
+
+// Turn on two-factor authentication for a user, returning the secret and recovery codes
+async function enableTwoFactor({ accessToken, password }: TestUser) {
+  const setup = await requestJson("/api/auth/2fa/setup", { token: accessToken, body: { password } })
+  expect(setup.status).toBe(200)
+  const { secret } = setup.body
+
+  const enable = await requestJson("/api/auth/2fa/enable", { token: accessToken, body: { code: generateTotp(secret) } })
+  expect(enable.status).toBe(200)
+  return { secret: secret as string, recoveryCodes: enable.body.recoveryCodes as string[] }
+}
+
+async function login({ user, password }: TestUser, headers?: Record<string, string>) {
+  return requestJson("/api/auth/login", { body: { email: user.email, password }, headers })
+}
+
+describe("TOTP", () => {
+  test("matches the RFC 6238 test vectors", () => {
+    // Base32 of the ASCII secret "12345678901234567890"
+    const secret = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ"
+    expect(generateTotp(secret, 59 * 1000)).toBe("287082")
+    expect(generateTotp(secret, 1111111109 * 1000)).toBe("081804")
+    expect(generateTotp(secret, 1234567890 * 1000)).toBe("005924")
+    expect(generateTotp(secret, 2000000000 * 1000)).toBe("279037")
+  })
+
+  test("setup returns the secret as an otpauth URL and QR code", async () => {
+    const testUser = await createTestUser()
+
+    const wrongPassword = await requestJson("/api/auth/2fa/setup", { token: testUser.accessToken, body: { password: "nope" } })
+    expect(wrongPassword.status).toBe(401)
+
+    const { status, body } = await requestJson("/api/auth/2fa/setup", {
+      token: testUser.accessToken,
+      body: { password: testUser.password },
+    })
+    expect(status).toBe(200)
+    expect(body.secret).toMatch(/^[A-Z2-7]{32}$/)
+    expect(body.otpauthUrl).toStartWith("otpauth://totp/Promptink%3A")
+    expect(body.otpauthUrl).toContain(`secret=${body.secret}`)
+    expect(body.qrCode).toStartWith("data:image/svg+xml;base64,")
+
+    // A square of 4 × version + 17 modules, with finder patterns in three corners
+    const modules = encodeQr(body.otpauthUrl)
+    expect((modules.length - 17) % 4).toBe(0)
+    expect(modules.every(row => row.length === modules.length)).toBe(true)
+    for (const [x, y] of [[0, 0], [modules.length - 7, 0], [0, modules.length - 7]] as const) {
+      expect(modules[y]![x]).toBe(true)
+      expect(modules[y + 1]![x + 1]).toBe(false)
+      expect(modules[y + 3]![x + 3]).toBe(true)
+    }
+
+    // Not enabled until confirmed with a code
+    expect((await requestJson("/api/auth/2fa", { token: testUser.accessToken })).body).toMatchObject({
+      enabled: false,
+      pending: true,
+    })
+    expect((await login(testUser)).body.accessToken).toBeString()
+  })
+})
+
+describe("two-factor login", () => {
+  test("asks for a code after the password and accepts each code once", async () => {
+    const testUser = await createTestUser()
+    setSystemTime(new Date(Math.floor(Date.now() / STEP_MS) * STEP_MS))
+    const { secret, recoveryCodes } = await enableTwoFactor(testUser)
+    expect(recoveryCodes).toHaveLength(10)
+
+    // The code used to enable is spent; move on to the next step
+    setSystemTime(new Date(Date.now() + STEP_MS))
+    const challenge = await login(testUser)
+    expect(challenge.status).toBe(200)
+    expect(challenge.body).toMatchObject({ twoFactorRequired: true })
+    expect(challenge.body.accessToken).toBeUndefined()
+
+    // The challenge token isn't an access token
+    expect((await requestJson("/api/auth/me", { token: challenge.body.challengeToken })).status).toBe(401)
+
+    const { challengeToken } = challenge.body
+    expect((await requestJson("/api/auth/2fa/verify", { body: { challengeToken, code: "000000" } })).status).toBe(401)
+
+    const code = generateTotp(secret)
+    const verified = await requestJson("/api/auth/2fa/verify", { body: { challengeToken, code } })
+    expect(verified.status).toBe(200)
+    expect(verified.body.user.id).toBe(testUser.user.id)
+    expect((await requestJson("/api/auth/me", { token: verified.body.accessToken })).status).toBe(200)
+
+    // Neither the challenge nor the code can be used again
+    expect((await requestJson("/api/auth/2fa/verify", { body: { challengeToken, code } })).status).toBe(401)
+    const second = await login(testUser)
+    const replayed = await requestJson("/api/auth/2fa/verify", { body: { challengeToken: second.body.challengeToken, code } })
+    expect(replayed.status).toBe(401)
+
+    // Challenges expire after 5 minutes
+    setSystemTime(new Date(Date.now() + 6 * 60 * 1000))
+    const expired = await requestJson("/api/auth/2fa/verify", {
+      body: { challengeToken: second.body.challengeToken, code: generateTotp(secret) },
+    })
+    expect(expired.status).toBe(401)
+  })
+
+  test("a challenge is revoked after five wrong codes", async () => {
+    const testUser = await createTestUser()
+    setSystemTime(new Date(Math.floor(Date.now() / STEP_MS) * STEP_MS))
+    const { secret } = await enableTwoFactor(testUser)
+    setSystemTime(new Date(Date.now() + STEP_MS))
+
+    const { challengeToken } = (await login(testUser)).body
+    for (let i = 1; i <= 5; i++) {
+      const wrong = await requestJson("/api/auth/2fa/verify", { body: { challengeToken, code: "wrong-code" } })
+      expect(wrong.status).toBe(401)
+      expect(wrong.body.error).toBe(i < 5 ? "Invalid verification code" : "Too many incorrect codes. Please enter your password again.")
+    }
+
+    // Even the right code no longer works with this challenge, but a new sign-in does
+    const code = generateTotp(secret)
+    expect((await requestJson("/api/auth/2fa/verify", { body: { challengeToken, code } })).status).toBe(401)
+    const fresh = await login(testUser)
+    expect((await requestJson("/api/auth/2fa/verify", { body: { challengeToken: fresh.body.challengeToken, code } })).status).toBe(200)
+  })
+
+  test("recovery codes work once each", async () => {
+    const testUser = await createTestUser()
+    const { recoveryCodes } = await enableTwoFactor(testUser)
+    const recoveryCode = recoveryCodes[0]!
+
+    const first = await login(testUser)
+    const verified = await requestJson("/api/auth/2fa/verify", {
+      body: { challengeToken: first.body.challengeToken, code: ` ${recoveryCode.toUpperCase()} ` },
+    })
+    expect(verified.status).toBe(200)
+    expect(verified.body).toMatchObject({ usedRecoveryCode: true, recoveryCodesRemaining: 9 })
+
+    const second = await login(testUser)
+    const reused = await requestJson("/api/auth/2fa/verify", {
+      body: { challengeToken: second.body.challengeToken, code: recoveryCode },
+    })
+    expect(reused.status).toBe(401)
+  })
+
+  test("a remembered device skips the code until two-factor is turned off", async () => {
+    const testUser = await createTestUser()
+    setSystemTime(new Date(Math.floor(Date.now() / STEP_MS) * STEP_MS))
+    const { secret } = await enableTwoFactor(testUser)
+    setSystemTime(new Date(Date.now() + STEP_MS))
+
+    const challenge = await login(testUser)
+    const response = await request("/api/auth/2fa/verify", {
+      body: { challengeToken: challenge.body.challengeToken, code: generateTotp(secret), rememberDevice: true },
+    })
+    expect(response.status).toBe(200)
+    const setCookie = response.headers.get("set-cookie")!
+    expect(setCookie).toContain("HttpOnly")
+    expect(setCookie).toContain("Path=/api/auth")
+    const cookie = setCookie.split(";")[0]!
+
+    const remembered = await login(testUser, { Cookie: cookie })
+    expect(remembered.body.accessToken).toBeString()
+
+    // Cookies are per user and can't be forged
+    const otherUser = await createTestUser()
+    await enableTwoFactor(otherUser)
+    expect((await login(otherUser, { Cookie: cookie })).body.twoFactorRequired).toBe(true)
+    const forged = cookie.replace(/\.[^.]+$/, ".forged")
+    expect((await login(testUser, { Cookie: forged })).body.twoFactorRequired).toBe(true)
+
+    // Remembered for 30 days
+    setSystemTime(new Date(Date.now() + 31 * 24 * 60 * 60 * 1000))
+    expect((await login(testUser, { Cookie: cookie })).body.twoFactorRequired).toBe(true)
+    setSystemTime(new Date(Date.now() - 31 * 24 * 60 * 60 * 1000 + STEP_MS))
+
+    const disable = await request("/api/auth/2fa/disable", {
+      token: remembered.body.accessToken,
+      body: { password: testUser.password, code: generateTotp(secret) },
+    })
+    expect(disable.status).toBe(200)
+    expect(disable.headers.get("set-cookie")).toContain("Max-Age=0")
+    expect((await requestJson("/api/auth/2fa", { token: remembered.body.accessToken })).body.enabled).toBe(false)
+
+    // Re-enrolling creates a new secret, so the old cookie no longer counts
+    setSystemTime(new Date(Date.now() + STEP_MS))
+    await enableTwoFactor({ ...testUser, accessToken: remembered.body.accessToken })
+    expect((await login(testUser, { Cookie: cookie })).body.twoFactorRequired).toBe(true)
+  })
+
+  test("recovery codes can be regenerated with a current code", async () => {
+    const testUser = await createTestUser()
+    setSystemTime(new Date(Math.floor(Date.now() / STEP_MS) * STEP_MS))
+    const { secret, recoveryCodes } = await enableTwoFactor(testUser)
+    setSystemTime(new Date(Date.now() + STEP_MS))
+
+    const regenerated = await requestJson("/api/auth/2fa/recovery-codes", {
+      token: testUser.accessToken,
+      body: { code: generateTotp(secret) },
+    })
+    expect(regenerated.status).toBe(200)
+    expect(regenerated.body.recoveryCodes).toHaveLength(10)
+    expect(regenerated.body.recoveryCodes).not.toContain(recoveryCodes[0])
+
+    const challenge = await login(testUser)
+    const oldCode = await requestJson("/api/auth/2fa/verify", {
+      body: { challengeToken: challenge.body.challengeToken, code: recoveryCodes[0] },
+    })
+    expect(oldCode.status).toBe(401)
+  })
+})
+
+describe("admin two-factor reset", () => {
+  test("support staff can reset a locked-out user's two-factor authentication", async () => {
+    const testUser = await createTestUser()
+    await enableTwoFactor(testUser)
+    const token = await adminLogin()
+
+    const users = await requestJson("/api/admin/users?limit=100", { token })
+    const listed = users.body.users.find((user: { id: number }) => user.id === testUser.user.id)
+    expect(listed.two_factor_enabled).toBe(true)
+
+    const reset = await requestJson(`/api/admin/users/${testUser.user.id}/two-factor`, { method: "DELETE", token })
+    expect(reset.status).toBe(200)
+    expect((await login(testUser)).body.accessToken).toBeString()
+
+    const again = await requestJson(`/api/admin/users/${testUser.user.id}/two-factor`, { method: "DELETE", token })
+    expect(again.status).toBe(400)
+
+    const audit = await requestJson(`/api/admin/audit-log?action=two_factor.reset&userId=${testUser.user.id}`, { token })
+    expect(audit.body.entries).toHaveLength(1)
+    expect(audit.body.entries[0].details).toEqual({ email: testUser.user.email })
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test"
+import { userQueries } from "../src/db"
+import { getQuotaPeriod } from "../src/services/entitlement-service"
+import { estimateCost } from "../src/services/usage-service"
+import { adminLogin, createTestUser, request, requestJson } from "./helpers"
+
+describe("usage ledger", () => {
+  test("estimates cost from list prices", () => {
+    expect(estimateCost({ operation: "image_generation", model: "dall-e-3", size: "1792x1024", quality: "hd", imageCount: 2 })).toBe(0.24)
+    expect(estimateCost({ operation: "image_edit", model: "dall-e-2", size: "512x512" })).toBe(0.018)
+    expect(estimateCost({ operation: "chat_completion", model: "gpt-4o-mini", inputTokens: 1000, outputTokens: 500 })).toBe(0.00045)
+    expect(estimateCost({ operation: "transcription", model: "whisper-1", audioSeconds: 90 })).toBe(0.009)
+    expect(estimateCost({ operation: "image_generation", model: "sdxl" })).toBe(0)
+  })
+
+  test("records each OpenAI call and reports monthly usage per user", async () => {
+    const { user, accessToken } = await createTestUser()
+    userQueries.updateSubscriptionStatus.run("active", user.id)
+
+    const generated = await requestJson("/api/images/generate", {
+      token: accessToken,
+      body: { prompt: "A paper boat", provider: "openai", language: "zh" },
+    })
+    expect(generated.status).toBe(200)
+
+    // 8000 bytes is two seconds of audio to the mock
+    const transcribed = await request("/api/speech/transcribe", {
+      token: accessToken,
+      body: "x".repeat(8000),
+      headers: { "Content-Type": "audio/webm" },
+    })
+    expect(transcribed.status).toBe(200)
+
+    const { status, body } = await requestJson("/api/usage", { token: accessToken })
+    expect(status).toBe(200)
+    expect(body.period).toBe(getQuotaPeriod())
+    expect(body.totals).toMatchObject({ requests: 3, images: 1, audio_seconds: 2 })
+    expect(body.bySource).toEqual([expect.objectContaining({ source: "chat", requests: 3 })])
+
+    const operations = body.events.map((event: { operation: string }) => event.operation).sort()
+    expect(operations).toEqual(["chat_completion", "image_generation", "transcription"])
+    const image = body.events.find((event: { operation: string }) => event.operation === "image_generation")
+    expect(image).toMatchObject({ user_id: user.id, model: "dall-e-3", size: "1024x1024", quality: "standard", estimated_cost: 0.04 })
+    const translation = body.events.find((event: { operation: string }) => event.operation === "chat_completion")
+    expect(translation.input_tokens).toBeGreaterThan(0)
+
+    const token = await adminLogin()
+    const rollup = await requestJson(`/api/admin/usage?period=${getQuotaPeriod()}&limit=100`, { token })
+    expect(rollup.status).toBe(200)
+    const row = rollup.body.users.find((entry: { user_id: number | null }) => entry.user_id === user.id)
+    expect(row).toMatchObject({ email: user.email, requests: 3, images: 1 })
+    expect(row.estimated_cost).toBeCloseTo(body.totals.estimated_cost, 6)
+    expect(rollup.body.totals.estimated_cost).toBeGreaterThanOrEqual(row.estimated_cost)
+
+    const lastMonth = await requestJson("/api/usage?period=2020-01", { token: accessToken })
+    expect(lastMonth.body.totals).toMatchObject({ requests: 0, estimated_cost: 0 })
+    expect((await requestJson("/api/usage?period=2020-13", { token: accessToken })).status).toBe(400)
+    expect((await requestJson("/api/admin/usage")).status).toBe(401)
+  })
+})
@@ -185,3 +185,40 @@ self.addEventListener('message', (event) => {
     })
   }
 })
+
+// Show push notifications sent by the server (see backend notification-service.ts)
+self.addEventListener('push', (event) => {
+  if (!event.data) return
+
+  let data
+  try {
+    data = event.data.json()
+  } catch {
+    data = { title: 'Promptink', body: event.data.text() }
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Promptink', {
+      body: data.body,
+      icon: '/public/favicon.svg',
+      tag: data.tag,
+      data: { url: data.url || '/' }
+    })
+  )
+})
+
+// Focus an open Promptink tab on the notification's page, or open one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => c.url.startsWith(self.location.origin))
+      if (client) {
+        return client.navigate(url).then((navigated) => (navigated || client).focus())
+      }
+      return self.clients.openWindow(url)
+    })
+  )
+})
@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect, lazy, Suspense, useCallback, useMemo } from "react"
-import { Sparkles, Plus, LogOut, Settings, ShoppingBag, CreditCard, Image, Menu, X, RefreshCw, Calendar, Layers, ChevronDown } from "lucide-react"
+import { Sparkles, Plus, LogOut, Settings, ShoppingBag, CreditCard, BarChart3, Image, Menu, X, RefreshCw, Calendar, Layers, ChevronDown, History } from "lucide-react"
 import { Button } from "./components/ui/button"
 import { ScrollArea } from "./components/ui/scroll-area"
 import { ChatMessage } from "./components/ChatMessage"
@@ -10,6 +10,7 @@ import { AuthGuard } from "./components/AuthGuard"
 import { PromptEnhanceModal } from "./components/PromptEnhanceModal"
 import { OfflineIndicator } from "./components/OfflineIndicator"
 import { KeyboardShortcutsHelp } from "./components/KeyboardShortcutsHelp"
+import { ConversationSidebar } from "./components/ConversationSidebar"
 import { LoginPage } from "./pages/LoginPage"
 import { RegisterPage } from "./pages/RegisterPage"
 import { ForgotPasswordPage } from "./pages/ForgotPasswordPage"
@@ -26,6 +27,9 @@ import { useTrmnlSync } from "./hooks/useTrmnlSync"
 import { useAuth } from "./hooks/useAuth"
 import { useSubscription } from "./hooks/useSubscription"
 import { useSuggestions } from "./hooks/useSuggestions"
+import { useConversations, type ConversationMessage, type ConversationMessageInput } from "./hooks/useConversations"
+import { useImageProviders } from "./hooks/useImageProviders"
+import { useStylePresets } from "./hooks/useStylePresets"
 import { useSEO } from "./hooks/useSEO"
 import { useKeyboardShortcuts } from "./hooks/useKeyboardShortcuts"
 import type { ShortcutDef } from "./hooks/useKeyboardShortcuts"
@@ -35,6 +39,7 @@ const SettingsPage = lazy(() => import("./pages/SettingsPage").then(m => ({ defa
 const GalleryPage = lazy(() => import("./pages/GalleryPage").then(m => ({ default: m.GalleryPage })))
 const SchedulePage = lazy(() => import("./pages/SchedulePage").then(m => ({ default: m.SchedulePage })))
 const BatchPage = lazy(() => import("./pages/BatchPage"))
+const UsagePage = lazy(() => import("./pages/UsagePage").then(m => ({ default: m.UsagePage })))
 
 // Loading fallback for lazy-loaded pages
 const PageLoader = () => (
@@ -48,15 +53,23 @@ interface Message {
   type: "user" | "assistant"
   content: string
   imageUrl?: string
+  imageId?: number // gallery image ID, used as the parent when refining
   isLoading?: boolean
 }
 
+// Gallery image picked with "Refine", attached to the next edit request
+interface RefineSource {
+  file: File
+  imageId?: number
+  imageUrl: string
+}
+
 type AuthPage = "login" | "register" | "forgot-password" | "reset-password"
-type AppPage = "chat" | "settings" | "purchase" | "order-confirmation" | "orders" | "subscription" | "gallery" | "schedule" | "batch" | "keyboard-shortcuts"
+type AppPage = "chat" | "settings" | "purchase" | "order-confirmation" | "orders" | "subscription" | "usage" | "gallery" | "schedule" | "batch" | "keyboard-shortcuts"
 type ImageSize = "1024x1024" | "1792x1024" | "1024x1792"
 
 // Valid app pages that can be restored from URL hash
-const validAppPages: AppPage[] = ["chat", "settings", "orders", "subscription", "gallery", "schedule", "batch", "keyboard-shortcuts"]
+const validAppPages: AppPage[] = ["chat", "settings", "orders", "subscription", "usage", "gallery", "schedule", "batch", "keyboard-shortcuts"]
 
 // Get initial page from URL hash
 const getInitialPage = (): AppPage => {
@@ -67,10 +80,11 @@ const getInitialPage = (): AppPage => {
   return "chat"
 }
 
-// Storage key for chat messages - scoped per user
+// Legacy storage key for chat messages - scoped per user.
+// Chats are now stored server-side; anything left here is imported once as a conversation.
 const getChatMessagesKey = (userId: number) => `promptink_chat_messages_${userId}`
 
-// Load messages from localStorage for a specific user
+// Load legacy messages from localStorage for a specific user
 const loadMessagesForUser = (userId: number): Message[] => {
   try {
     const stored = localStorage.getItem(getChatMessagesKey(userId))
@@ -85,8 +99,31 @@ const loadMessagesForUser = (userId: number): Message[] => {
   return []
 }
 
+const toChatMessage = (message: ConversationMessage): Message => ({
+  id: String(message.id),
+  type: message.type,
+  content: message.content,
+  imageUrl: message.imageUrl ?? undefined,
+  imageId: message.imageId ?? undefined,
+})
+
+const toConversationMessageInput = (message: Message): ConversationMessageInput => ({
+  type: message.type,
+  content: message.content,
+  imageUrl: message.imageUrl,
+  imageId: message.imageId,
+})
+
 export default function App() {
   const [messages, setMessages] = useState<Message[]>([])
+  const [activeConversationId, setActiveConversationId] = useState<number | null>(null)
+  const [conversationsOpen, setConversationsOpen] = useState(false)
+  const [refineSource, setRefineSource] = useState<RefineSource | null>(null)
+  const [pendingImage, setPendingImage] = useState<File | null>(null)
+  // Refs so in-flight generations save to the conversation they started in
+  const activeConversationRef = useRef<number | null>(null)
+  const chatSessionRef = useRef(0)
+  const importedLegacyChatRef = useRef<number | null>(null)
   const [authPage, setAuthPage] = useState<AuthPage>("login")
   const [appPage, setAppPage] = useState<AppPage>(getInitialPage)
   const [confirmationOrderId, setConfirmationOrderId] = useState<number | null>(null)
@@ -95,19 +132,37 @@ export default function App() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
   const [selectedSize, setSelectedSize] = useState<ImageSize>("1024x1024")
   const [selectedStyle, setSelectedStyle] = useState<ImageStylePreset>("none")
+  // Empty provider means the server default
+  const [selectedProvider, setSelectedProvider] = useState("")
+  const [negativePrompt, setNegativePrompt] = useState("")
   const [resetToken, setResetToken] = useState<string>("")
   // Prompt enhancement modal state
   const [enhanceModalOpen, setEnhanceModalOpen] = useState(false)
   const [enhanceOriginalPrompt, setEnhanceOriginalPrompt] = useState("")
   const [enhanceEnhancedPrompt, setEnhanceEnhancedPrompt] = useState("")
   const [enhanceLoading, setEnhanceLoading] = useState(false)
-  const { generateImage, isLoading } = useImageGeneration()
+  const { generateImage, isLoading, progress: generationProgress } = useImageGeneration()
   const { theme, themeMode, toggleTheme } = useTheme()
   const { language, toggleLanguage, t } = useLanguage()
   const { syncToTrmnl, devices, isLoadingDevices } = useTrmnlSync()
-  const { user, isLoading: authLoading, isAuthenticated, login, register, logout, authFetch } = useAuth()
+  const { user, isLoading: authLoading, isAuthenticated, login, verifyTwoFactor, register, logout, authFetch } = useAuth()
   const { subscription, isLoading: subscriptionLoading, needsToPurchase, needsToReactivate, hasFullAccess } = useSubscription()
   const { suggestions, isLoading: suggestionsLoading, refresh: refreshSuggestions } = useSuggestions(language)
+  const {
+    conversations,
+    isLoading: conversationsLoading,
+    getConversation,
+    createConversation,
+    appendMessages,
+    renameConversation,
+    deleteConversation,
+  } = useConversations()
+  const { providers: imageProviders, getProvider } = useImageProviders()
+  const { presets: stylePresets, getPreset: getStylePreset } = useStylePresets()
+  const customStylePresets = stylePresets.filter(preset => preset.source !== "built_in")
+  const activeProvider = getProvider(selectedProvider)
+  const supportsSize = (size: ImageSize) => !activeProvider || activeProvider.capabilities.sizes.includes(size)
+  const canEditImages = !activeProvider || activeProvider.capabilities.edit
   const scrollRef = useRef<HTMLDivElement>(null)
   const [showScrollToBottom, setShowScrollToBottom] = useState(false)
 
@@ -154,6 +209,24 @@ export default function App() {
     { enabled: isAuthenticated }
   )
 
+  // Presets with a default size switch the chat to it
+  const handleStyleChange = (key: ImageStylePreset) => {
+    setSelectedStyle(key)
+    const presetSize = getStylePreset(key)?.size as ImageSize | null | undefined
+    if (presetSize && (["1024x1024", "1792x1024", "1024x1792"] as string[]).includes(presetSize)
+      && (!activeProvider || activeProvider.capabilities.sizes.includes(presetSize))) {
+      setSelectedSize(presetSize)
+    }
+  }
+
+  // Switch to a size the selected provider can produce
+  useEffect(() => {
+    if (!activeProvider || activeProvider.capabilities.sizes.includes(selectedSize)) return
+    const fallback = (["1024x1024", "1792x1024", "1024x1792"] as ImageSize[])
+      .find(size => activeProvider.capabilities.sizes.includes(size))
+    if (fallback) setSelectedSize(fallback)
+  }, [activeProvider, selectedSize])
+
   // Check if user needs to be redirected to purchase page
   useEffect(() => {
     if (isAuthenticated && !subscriptionLoading && subscription) {
@@ -204,26 +277,53 @@ export default function App() {
     }
   }, [appPage, scrollToBottom, messages.length])
 
-  // Load user-specific messages when user changes
+  const setActiveConversation = (id: number | null) => {
+    activeConversationRef.current = id
+    setActiveConversationId(id)
+  }
+
+  // Start a fresh chat when the user changes, importing any chat left in localStorage
   useEffect(() => {
-    if (user?.id) {
-      setMessages(loadMessagesForUser(user.id))
-    } else {
-      setMessages([])
-    }
+    chatSessionRef.current += 1
+    setMessages([])
+    setActiveConversation(null)
+    if (!user?.id || importedLegacyChatRef.current === user.id) return
+    importedLegacyChatRef.current = user.id
+
+    const legacyMessages = loadMessagesForUser(user.id).slice(-100)
+    if (legacyMessages.length === 0) return
+
+    const session = chatSessionRef.current
+    const userId = user.id
+    createConversation(legacyMessages.map(toConversationMessageInput))
+      .then((conversation) => {
+        localStorage.removeItem(getChatMessagesKey(userId))
+        if (chatSessionRef.current === session) {
+          setActiveConversation(conversation.id)
+          setMessages(legacyMessages)
+        }
+      })
+      .catch((e) => console.error("Failed to import chat history:", e))
   }, [user?.id])
 
-  // Persist messages to localStorage when they change (scoped per user)
-  useEffect(() => {
-    if (!user?.id) return
+  // Save finished messages to the conversation that was active when they were sent
+  const saveToConversation = async (conversationId: number | null, session: number, newMessages: Message[]) => {
+    const payload = newMessages.map(toConversationMessageInput)
+    // A chat started by an earlier message in the same session may have been created meanwhile
+    const targetId = conversationId ?? (chatSessionRef.current === session ? activeConversationRef.current : null)
     try {
-      // Only persist non-loading messages
-      const messagesToPersist = messages.filter(msg => !msg.isLoading)
-      localStorage.setItem(getChatMessagesKey(user.id), JSON.stringify(messagesToPersist))
+      if (targetId) {
+        await appendMessages(targetId, payload)
+        return
+      }
+      const conversation = await createConversation(payload)
+      if (chatSessionRef.current === session) {
+        setActiveConversation(conversation.id)
+      }
     } catch (e) {
-      console.error("Failed to save messages to storage:", e)
+      console.error(t.conversations.saveError, e)
     }
-  }, [messages, user?.id])
+  }
 
   // Close mobile menu when clicking outside
   useEffect(() => {
@@ -280,6 +380,11 @@ export default function App() {
   ) => {
     const userMessageId = Date.now().toString()
     const assistantMessageId = (Date.now() + 1).toString()
+    const conversationId = activeConversationRef.current
+    const session = chatSessionRef.current
+    // Editing an image picked with "Refine" keeps its gallery lineage
+    const refine = imageFile && refineSource?.file === imageFile ? refineSource : null
+    setRefineSource(null)
 
     // Create user message with optional image preview
     let userContent = prompt
@@ -287,14 +392,12 @@ export default function App() {
 
     if (imageFile) {
       // If mask was drawn, show the mask preview (with red overlay), otherwise show original
-      userImageUrl = maskPreviewUrl || URL.createObjectURL(imageFile)
+      userImageUrl = maskPreviewUrl || refine?.imageUrl || URL.createObjectURL(imageFile)
       userContent = `[Image attached] ${prompt}`
     }
 
-    setMessages((prev) => [
-      ...prev,
-      { id: userMessageId, type: "user", content: userContent, imageUrl: userImageUrl },
-    ])
+    const userMessage: Message = { id: userMessageId, type: "user", content: userContent, imageUrl: userImageUrl }
+    setMessages((prev) => [...prev, userMessage])
 
     setMessages((prev) => [
       ...prev,
@@ -318,11 +421,20 @@ export default function App() {
         formData.append("image", imageFile)
         formData.append("prompt", prompt)
         formData.append("size", selectedSize)
+        if (selectedProvider) {
+          formData.append("provider", selectedProvider)
+        }
+        if (negativePrompt && activeProvider?.capabilities.negativePrompt) {
+          formData.append("negativePrompt", negativePrompt)
+        }
         
         // Include mask if user marked an area
         if (maskFile) {
           formData.append("mask", maskFile)
         }
+        if (refine?.imageId) {
+          formData.append("parentImageId", String(refine.imageId))
+        }
 
         const response = await authFetch("/api/images/edit", {
           method: "POST",
@@ -337,7 +449,11 @@ export default function App() {
         result = await response.json()
       } else if (isInfographic) {
         // Use infographic API
-        const body: { content?: string; url?: string; size?: string } = { size: selectedSize }
+        const body: { content?: string; url?: string; size?: string; provider?: string; stylePreset?: string } = {
+          size: selectedSize,
+          provider: selectedProvider || undefined,
+          stylePreset: selectedStyle === "none" ? undefined : selectedStyle,
+        }
         if (infographicUrl) {
           body.url = infographicUrl
         } else {
@@ -362,25 +478,31 @@ export default function App() {
       } else {
         // Use regular image generation
         console.log("Generating image with size:", selectedSize, "style:", selectedStyle)
-        result = await generateImage({ prompt, language, size: selectedSize, stylePreset: selectedStyle })
+        result = await generateImage({
+          prompt,
+          language,
+          size: selectedSize,
+          stylePreset: selectedStyle,
+          provider: selectedProvider || undefined,
+          negativePrompt: activeProvider?.capabilities.negativePrompt ? negativePrompt : undefined,
+        })
       }
 
       // Prefer permanent gallery URL over temporary OpenAI URL (which expires after ~1 hour)
       const imageUrl = result.galleryUrl || result.data[0]?.url
       const revisedPrompt = result.data[0]?.revised_prompt
+      const assistantMessage: Message = {
+        id: assistantMessageId,
+        type: "assistant",
+        content: revisedPrompt || t.defaultImageMessage,
+        imageUrl,
+        imageId: result.galleryId,
+      }
 
       setMessages((prev) =>
-        prev.map((msg) =>
-          msg.id === assistantMessageId
-            ? {
-                ...msg,
-                content: revisedPrompt || t.defaultImageMessage,
-                imageUrl,
-                isLoading: false,
-              }
-            : msg
-        )
+        prev.map((msg) => msg.id === assistantMessageId ? assistantMessage : msg)
       )
+      await saveToConversation(conversationId, session, [userMessage, assistantMessage])
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Failed to generate image"
       
@@ -392,17 +514,16 @@ export default function App() {
         return
       }
       
+      const assistantMessage: Message = {
+        id: assistantMessageId,
+        type: "assistant",
+        content: `${t.errorPrefix} ${errorMessage}`,
+      }
+
       setMessages((prev) =>
-        prev.map((msg) =>
-          msg.id === assistantMessageId
-            ? {
-                ...msg,
-                content: `${t.errorPrefix} ${errorMessage}`,
-                isLoading: false,
-              }
-            : msg
-        )
+        prev.map((msg) => msg.id === assistantMessageId ? assistantMessage : msg)
       )
+      await saveToConversation(conversationId, session, [userMessage, assistantMessage])
     }
   }
 
@@ -457,9 +578,47 @@ export default function App() {
   }
 
   const handleNewChat = () => {
+    chatSessionRef.current += 1
     setMessages([])
-    if (user?.id) {
-      localStorage.removeItem(getChatMessagesKey(user.id))
+    setActiveConversation(null)
+    setRefineSource(null)
+    setConversationsOpen(false)
+  }
+
+  // Resume a saved conversation
+  const handleSelectConversation = async (id: number) => {
+    const session = ++chatSessionRef.current
+    try {
+      const { messages: saved } = await getConversation(id)
+      if (chatSessionRef.current !== session) return
+      setMessages(saved.map(toChatMessage))
+      setActiveConversation(id)
+      setRefineSource(null)
+      setConversationsOpen(false)
+    } catch (e) {
+      console.error(t.conversations.loadError, e)
+    }
+  }
+
+  const handleDeleteConversation = async (id: number) => {
+    await deleteConversation(id)
+    if (activeConversationRef.current === id) {
+      handleNewChat()
+    }
+  }
+
+  // Attach an earlier image to the input so the next prompt edits it
+  const handleRefine = async (message: Message) => {
+    if (!message.imageUrl) return
+    try {
+      const response = await fetch(message.imageUrl)
+      if (!response.ok) throw new Error(`Failed to fetch image (${response.status})`)
+      const blob = await response.blob()
+      const file = new File([blob], "image.png", { type: blob.type || "image/png" })
+      setRefineSource({ file, imageId: message.imageId, imageUrl: message.imageUrl })
+      setPendingImage(file)
+    } catch (e) {
+      console.error("Failed to load image for refining:", e)
     }
   }
 
@@ -527,6 +686,7 @@ export default function App() {
       return (
         <LoginPage
           onLogin={handleLogin}
+          onVerifyTwoFactor={verifyTwoFactor}
           onSwitchToRegister={() => setAuthPage("register")}
           onForgotPassword={() => setAuthPage("forgot-password")}
           translations={t.auth.login}
@@ -579,6 +739,16 @@ export default function App() {
           >
             <Plus className="h-5 w-5" />
           </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setConversationsOpen(true)}
+            className="h-9 w-9 shrink-0"
+            aria-label={t.conversations.show}
+            title={t.conversations.title}
+          >
+            <History className="h-5 w-5" />
+          </Button>
           <div className="flex items-center gap-2">
             <div className="h-7 w-7 sm:h-8 sm:w-8 rounded-lg bg-gradient-to-br from-teal-400 to-emerald-500 flex items-center justify-center shrink-0">
               <Sparkles className="h-3.5 w-3.5 sm:h-4 sm:w-4 text-white" />
@@ -648,6 +818,16 @@ export default function App() {
             >
               <CreditCard className="h-4 w-4" />
             </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setAppPage("usage")}
+              className="h-9 w-9 shrink-0 text-muted-foreground hover:text-foreground"
+              aria-label="Usage"
+              title={t.usage.title}
+            >
+              <BarChart3 className="h-4 w-4" />
+            </Button>
             <Button
               variant="ghost"
               size="icon"
@@ -723,6 +903,13 @@ export default function App() {
                   <CreditCard className="h-4 w-4" />
                   {t.subscription.title}
                 </button>
+                <button
+                  onClick={() => { setAppPage("usage"); setMobileMenuOpen(false) }}
+                  className="w-full px-4 py-2.5 text-left text-sm flex items-center gap-3 hover:bg-muted transition-colors"
+                >
+                  <BarChart3 className="h-4 w-4" />
+                  {t.usage.title}
+                </button>
                 <button
                   onClick={() => { setAppPage("settings"); setMobileMenuOpen(false) }}
                   className="w-full px-4 py-2.5 text-left text-sm flex items-center gap-3 hover:bg-muted transition-colors"
@@ -832,7 +1019,7 @@ export default function App() {
                   isLoading={message.isLoading}
                   userLabel={t.you}
                   assistantLabel={t.assistant}
-                  generatingText={t.generatingImage}
+                  generatingText={generationProgress === "saving" ? t.savingImage : t.generatingImage}
                   openFullSizeText={t.openFullSize}
                   syncText={t.syncToTrmnl}
                   syncingText={t.syncing}
@@ -850,6 +1037,8 @@ export default function App() {
                   devices={devices.map(d => ({ id: d.id, name: d.name, is_default: d.is_default }))}
                   isLoadingDevices={isLoadingDevices}
                   onSync={handleSyncWithAuth}
+                  refineText={t.conversations.refine}
+                  onRefine={message.imageUrl && !message.isLoading && canEditImages ? () => handleRefine(message) : undefined}
                 />
               ))}
             </div>
@@ -877,7 +1066,8 @@ export default function App() {
             <span className="text-xs text-muted-foreground mr-1">{t.imageSize}:</span>
             <button
               onClick={() => setSelectedSize("1024x1024")}
-              className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs transition-all ${
+              disabled={!supportsSize("1024x1024")}
+              className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
                 selectedSize === "1024x1024"
                   ? "bg-teal-500 text-white ring-2 ring-teal-500/50"
                   : "bg-secondary/50 text-muted-foreground hover:bg-secondary"
@@ -891,7 +1081,8 @@ export default function App() {
             </button>
             <button
               onClick={() => setSelectedSize("1792x1024")}
-              className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs transition-all ${
+              disabled={!supportsSize("1792x1024")}
+              className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
                 selectedSize === "1792x1024"
                   ? "bg-teal-500 text-white ring-2 ring-teal-500/50"
                   : "bg-secondary/50 text-muted-foreground hover:bg-secondary"
@@ -905,7 +1096,8 @@ export default function App() {
             </button>
             <button
               onClick={() => setSelectedSize("1024x1792")}
-              className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs transition-all ${
+              disabled={!supportsSize("1024x1792")}
+              className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
                 selectedSize === "1024x1792"
                   ? "bg-teal-500 text-white ring-2 ring-teal-500/50"
                   : "bg-secondary/50 text-muted-foreground hover:bg-secondary"
@@ -924,7 +1116,7 @@ export default function App() {
             <span className="text-xs text-muted-foreground mr-1">{t.imageStyle}:</span>
             <select
               value={selectedStyle}
-              onChange={(e) => setSelectedStyle(e.target.value as ImageStylePreset)}
+              onChange={(e) => handleStyleChange(e.target.value)}
               className="px-2 py-1 rounded-md text-xs bg-secondary/50 text-foreground border-none outline-none cursor-pointer hover:bg-secondary transition-all"
             >
               <option value="none">{t.styleNone}</option>
@@ -938,9 +1130,45 @@ export default function App() {
               <option value="pop-art">{t.stylePopArt}</option>
               <option value="minimalist">{t.styleMinimalist}</option>
               <option value="cinematic">{t.styleCinematic}</option>
+              {customStylePresets.length > 0 && (
+                <optgroup label={t.stylePresets.custom}>
+                  {customStylePresets.map(preset => (
+                    <option key={preset.key} value={preset.key}>{preset.name}</option>
+                  ))}
+                </optgroup>
+              )}
             </select>
           </div>
+
+          {/* Provider Selector - only when the server offers a choice */}
+          {imageProviders.length > 1 && (
+            <div className="flex items-center gap-1">
+              <span className="text-xs text-muted-foreground mr-1">{t.imageProvider}:</span>
+              <select
+                value={selectedProvider}
+                onChange={(e) => setSelectedProvider(e.target.value)}
+                className="px-2 py-1 rounded-md text-xs bg-secondary/50 text-foreground border-none outline-none cursor-pointer hover:bg-secondary transition-all"
+              >
+                <option value="">{t.providerDefault}</option>
+                {imageProviders.map(provider => (
+                  <option key={provider.id} value={provider.id}>{provider.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
+        {activeProvider?.capabilities.negativePrompt && (
+          <div className="flex justify-center mb-2 px-4">
+            <input
+              type="text"
+              value={negativePrompt}
+              onChange={(e) => setNegativePrompt(e.target.value)}
+              placeholder={t.negativePromptPlaceholder}
+              maxLength={1000}
+              className="w-full max-w-md px-2 py-1 rounded-md text-xs bg-secondary/50 text-foreground border-none outline-none placeholder:text-muted-foreground"
+            />
+          </div>
+        )}
         <ChatInput
           onSend={handleSend}
           disabled={isLoading}
@@ -949,9 +1177,23 @@ export default function App() {
           placeholderEdit={t.placeholderEdit}
           placeholderListening={t.placeholderListening}
           footer={t.footer}
+          pendingImage={pendingImage}
+          onPendingImageAttached={() => setPendingImage(null)}
         />
       </div>
 
+      <ConversationSidebar
+        isOpen={conversationsOpen}
+        conversations={conversations}
+        activeConversationId={activeConversationId}
+        isLoading={conversationsLoading}
+        onClose={() => setConversationsOpen(false)}
+        onSelect={handleSelectConversation}
+        onNewChat={handleNewChat}
+        onRename={renameConversation}
+        onDelete={handleDeleteConversation}
+      />
+
       {/* Prompt Enhancement Modal */}
       <PromptEnhanceModal
         isOpen={enhanceModalOpen}
@@ -1029,6 +1271,13 @@ export default function App() {
     />
   )
 
+  // Usage page rendering
+  const renderUsagePage = () => (
+    <Suspense fallback={<PageLoader />}>
+      <UsagePage onNavigate={(page) => setAppPage(page)} onLogout={logout} />
+    </Suspense>
+  )
+
   // Gallery page rendering
   const renderGalleryPage = () => (
     <Suspense fallback={<PageLoader />}>
@@ -1062,6 +1311,8 @@ export default function App() {
         return renderOrdersPage()
       case "subscription":
         return renderSubscriptionPage()
+      case "usage":
+        return renderUsagePage()
       case "gallery":
         return renderGalleryPage()
       case "schedule":
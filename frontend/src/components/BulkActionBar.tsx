@@ -10,10 +10,12 @@ interface BulkActionBarProps {
   onDelete: () => void
   onExport: (format: "png" | "jpg" | "webp") => void
   onShare: () => void
+  onPlayOnDevice?: () => void
   onCancel: () => void
   isDeleting?: boolean
   isExporting?: boolean
   isSharing?: boolean
+  isSettingPlaylist?: boolean
 }
 
 export function BulkActionBar({
@@ -24,17 +26,19 @@ export function BulkActionBar({
   onDelete,
   onExport,
   onShare,
+  onPlayOnDevice,
   onCancel,
   isDeleting,
   isExporting,
   isSharing,
+  isSettingPlaylist,
 }: BulkActionBarProps) {
   const { t } = useLanguage()
   const [showExportMenu, setShowExportMenu] = useState(false)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
 
   const allSelected = selectedCount === totalCount && totalCount > 0
-  const isBusy = isDeleting || isExporting || isSharing
+  const isBusy = isDeleting || isExporting || isSharing || isSettingPlaylist
 
   return (
     <div className="fixed bottom-0 inset-x-0 z-50 pb-[env(safe-area-inset-bottom)]">
@@ -125,6 +129,28 @@ export function BulkActionBar({
               )}
             </div>
 
+            {/* Play on TRMNL button (sets the default device's playlist) */}
+            {onPlayOnDevice && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onPlayOnDevice}
+                disabled={isBusy}
+              >
+                {isSettingPlaylist ? (
+                  <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                  </svg>
+                ) : (
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M5.25 5.653c0-.856.917-1.398 1.667-.986l11.54 6.348a1.125 1.125 0 010 1.971l-11.54 6.347a1.125 1.125 0 01-1.667-.985V5.653z" />
+                  </svg>
+                )}
+                <span className="hidden sm:inline ml-1.5">{t.gallery.bulkPlayOnDevice}</span>
+              </Button>
+            )}
+
             {/* Share button */}
             <Button
               variant="outline"
@@ -15,6 +15,9 @@ interface ChatInputProps {
   placeholderEdit: string
   placeholderListening: string
   footer: string
+  // Image to attach for editing (e.g. "Refine" on an earlier message)
+  pendingImage?: File | null
+  onPendingImageAttached?: () => void
 }
 
 export function ChatInput({
@@ -25,6 +28,8 @@ export function ChatInput({
   placeholderEdit,
   placeholderListening,
   footer,
+  pendingImage,
+  onPendingImageAttached,
 }: ChatInputProps) {
   const [input, setInput] = useState("")
   const [attachedImage, setAttachedImage] = useState<File | null>(null)
@@ -119,26 +124,39 @@ export function ChatInput({
     })
   }
 
+  const attachImage = async (file: File) => {
+    try {
+      // Convert to PNG if not already PNG
+      const pngFile = file.type === "image/png" ? file : await convertToPng(file)
+      setAttachedImage(pngFile)
+      setMaskFile(null)
+      setMaskPreview(null)
+      const reader = new FileReader()
+      reader.onload = () => {
+        setImagePreview(reader.result as string)
+      }
+      reader.readAsDataURL(pngFile)
+    } catch (error) {
+      console.error("Failed to process image:", error)
+    }
+  }
+
   const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (file && file.type.startsWith("image/")) {
-      try {
-        // Convert to PNG if not already PNG
-        const pngFile = file.type === "image/png" ? file : await convertToPng(file)
-        setAttachedImage(pngFile)
-        const reader = new FileReader()
-        reader.onload = () => {
-          setImagePreview(reader.result as string)
-        }
-        reader.readAsDataURL(pngFile)
-      } catch (error) {
-        console.error("Failed to process image:", error)
-      }
+      await attachImage(file)
     }
     // Reset input so same file can be selected again
     e.target.value = ""
   }
 
+  useEffect(() => {
+    if (!pendingImage) return
+    attachImage(pendingImage)
+    onPendingImageAttached?.()
+    textareaRef.current?.focus()
+  }, [pendingImage])
+
   const handleRemoveImage = () => {
     setAttachedImage(null)
     setImagePreview(null)
@@ -1,4 +1,4 @@
-import { User, Sparkles, Copy, Check, Download, RefreshCw, ChevronDown } from "lucide-react"
+import { User, Sparkles, Copy, Check, Download, RefreshCw, ChevronDown, Wand2 } from "lucide-react"
 import { useState, useRef, useEffect } from "react"
 import { cn } from "../lib/utils"
 import { Avatar, AvatarFallback } from "./ui/avatar"
@@ -36,6 +36,8 @@ interface ChatMessageProps {
   devices?: Device[]
   isLoadingDevices?: boolean
   onSync?: (imageUrl: string, prompt?: string, deviceIds?: number[]) => Promise<unknown>
+  refineText?: string
+  onRefine?: () => void
 }
 
 export function ChatMessage({
@@ -63,6 +65,8 @@ export function ChatMessage({
   devices = [],
   isLoadingDevices = false,
   onSync,
+  refineText = "Refine",
+  onRefine,
 }: ChatMessageProps) {
   const [copied, setCopied] = useState(false)
   const [isSyncing, setIsSyncing] = useState(false)
@@ -290,6 +294,17 @@ export function ChatMessage({
                       )}
                     </div>
                   )}
+                  {onRefine && type === "assistant" && (
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={onRefine}
+                      className="gap-1.5 sm:gap-2 text-xs sm:text-sm h-9 sm:h-8 touch-manipulation"
+                    >
+                      <Wand2 className="h-4 w-4" />
+                      <span className="hidden xs:inline">{refineText}</span>
+                    </Button>
+                  )}
                   <ShareButton
                     imageUrl={imageUrl}
                     prompt={content}
@@ -0,0 +1,194 @@
+import { useState } from "react"
+import { Check, MessageSquare, Pencil, Plus, Trash2, X } from "lucide-react"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { cn } from "../lib/utils"
+import { useLanguage } from "../hooks/useLanguage"
+import type { Conversation } from "../hooks/useConversations"
+
+interface ConversationSidebarProps {
+  isOpen: boolean
+  conversations: Conversation[]
+  activeConversationId: number | null
+  isLoading?: boolean
+  onClose: () => void
+  onSelect: (id: number) => void
+  onNewChat: () => void
+  onRename: (id: number, title: string) => Promise<void>
+  onDelete: (id: number) => Promise<void>
+}
+
+function ConversationRow({
+  conversation,
+  isActive,
+  onSelect,
+  onRename,
+  onDelete,
+}: {
+  conversation: Conversation
+  isActive: boolean
+  onSelect: () => void
+  onRename: (title: string) => Promise<void>
+  onDelete: () => Promise<void>
+}) {
+  const { t } = useLanguage()
+  const [isEditing, setIsEditing] = useState(false)
+  const [title, setTitle] = useState(conversation.title)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const handleRename = async () => {
+    const trimmed = title.trim()
+    if (!trimmed || trimmed === conversation.title) {
+      setTitle(conversation.title)
+      setIsEditing(false)
+      return
+    }
+    setIsBusy(true)
+    try {
+      await onRename(trimmed)
+      setIsEditing(false)
+    } catch (err) {
+      console.error("Failed to rename conversation:", err)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!confirm(t.conversations.deleteConfirm)) return
+    setIsBusy(true)
+    try {
+      await onDelete()
+    } catch (err) {
+      console.error("Failed to delete conversation:", err)
+      setIsBusy(false)
+    }
+  }
+
+  if (isEditing) {
+    return (
+      <div className="flex items-center gap-1 px-2 py-1.5">
+        <Input
+          value={title}
+          onChange={e => setTitle(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === "Enter") handleRename()
+            if (e.key === "Escape") {
+              setTitle(conversation.title)
+              setIsEditing(false)
+            }
+          }}
+          maxLength={100}
+          autoFocus
+          className="h-8 text-sm"
+        />
+        <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" onClick={handleRename} disabled={isBusy}>
+          <Check className="h-4 w-4" />
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div
+      className={cn(
+        "group flex items-center gap-2 px-2 py-1.5 rounded-lg cursor-pointer hover:bg-muted transition-colors",
+        isActive && "bg-muted"
+      )}
+      onClick={onSelect}
+    >
+      {conversation.lastImageUrl ? (
+        <img
+          src={conversation.lastImageUrl}
+          alt=""
+          loading="lazy"
+          className="h-9 w-9 rounded-md object-cover shrink-0 bg-muted"
+        />
+      ) : (
+        <div className="h-9 w-9 rounded-md bg-secondary flex items-center justify-center shrink-0">
+          <MessageSquare className="h-4 w-4 text-muted-foreground" />
+        </div>
+      )}
+      <div className="flex-1 min-w-0">
+        <p className="text-sm truncate">{conversation.title}</p>
+        <p className="text-xs text-muted-foreground">
+          {conversation.messageCount} {t.conversations.messages}
+        </p>
+      </div>
+      <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+        <button
+          type="button"
+          onClick={e => { e.stopPropagation(); setIsEditing(true) }}
+          className="p-1 rounded text-muted-foreground hover:text-foreground"
+          title={t.conversations.rename}
+        >
+          <Pencil className="h-3.5 w-3.5" />
+        </button>
+        <button
+          type="button"
+          onClick={e => { e.stopPropagation(); handleDelete() }}
+          disabled={isBusy}
+          className="p-1 rounded text-muted-foreground hover:text-destructive"
+          title={t.conversations.delete}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export function ConversationSidebar({
+  isOpen,
+  conversations,
+  activeConversationId,
+  isLoading,
+  onClose,
+  onSelect,
+  onNewChat,
+  onRename,
+  onDelete,
+}: ConversationSidebarProps) {
+  const { t } = useLanguage()
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-[60] flex">
+      <aside className="safe-area-top w-72 max-w-[85vw] h-full flex flex-col bg-background border-r shadow-xl">
+        <div className="flex items-center justify-between px-3 py-3 border-b">
+          <span className="font-semibold text-sm">{t.conversations.title}</span>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onNewChat} title={t.newChat}>
+              <Plus className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose} title={t.conversations.hide}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto p-2 space-y-0.5">
+          {isLoading && conversations.length === 0 ? (
+            Array.from({ length: 4 }).map((_, i) => (
+              <div key={i} className="h-12 rounded-lg bg-muted animate-pulse" />
+            ))
+          ) : conversations.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-8">{t.conversations.empty}</p>
+          ) : (
+            conversations.map(conversation => (
+              <ConversationRow
+                key={conversation.id}
+                conversation={conversation}
+                isActive={conversation.id === activeConversationId}
+                onSelect={() => onSelect(conversation.id)}
+                onRename={title => onRename(conversation.id, title)}
+                onDelete={() => onDelete(conversation.id)}
+              />
+            ))
+          )}
+        </div>
+      </aside>
+      <div className="flex-1 bg-black/40" onClick={onClose} />
+    </div>
+  )
+}
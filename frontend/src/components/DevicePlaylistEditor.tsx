@@ -0,0 +1,236 @@
+import { useState, useEffect } from "react"
+import { Loader2, ChevronUp, ChevronDown, X } from "lucide-react"
+import { Button } from "./ui/button"
+import { useCollections } from "../hooks/useCollections"
+import { useLanguage } from "../hooks/useLanguage"
+import { usePlaylist, type PlaylistImage, type PlaylistMode, type PlaylistSource } from "../hooks/usePlaylist"
+
+interface DevicePlaylistEditorProps {
+  deviceId: number
+}
+
+const DEFAULT_DWELL_MINUTES = 60
+
+export function DevicePlaylistEditor({ deviceId }: DevicePlaylistEditorProps) {
+  const { t } = useLanguage()
+  const { collections } = useCollections()
+  const { getPlaylist, savePlaylist, removePlaylist } = usePlaylist()
+
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [hasPlaylist, setHasPlaylist] = useState(false)
+  const [sourceType, setSourceType] = useState<PlaylistSource>("collection")
+  const [collectionId, setCollectionId] = useState<number | null>(null)
+  const [images, setImages] = useState<PlaylistImage[]>([])
+  const [mode, setMode] = useState<PlaylistMode>("sequential")
+  const [dwellMinutes, setDwellMinutes] = useState(DEFAULT_DWELL_MINUTES)
+  const [isEnabled, setIsEnabled] = useState(true)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  useEffect(() => {
+    setIsLoading(true)
+    getPlaylist(deviceId)
+      .then((playlist) => {
+        setHasPlaylist(!!playlist)
+        if (playlist) {
+          setSourceType(playlist.source_type)
+          setCollectionId(playlist.collection_id)
+          setImages(playlist.source_type === "images" ? playlist.images : [])
+          setMode(playlist.mode)
+          setDwellMinutes(playlist.dwell_minutes)
+          setIsEnabled(playlist.is_enabled)
+        }
+      })
+      .catch((err) => console.error("Failed to load playlist:", err))
+      .finally(() => setIsLoading(false))
+  }, [deviceId, getPlaylist])
+
+  const moveImage = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= images.length) return
+    const reordered = [...images]
+    const [moved] = reordered.splice(index, 1)
+    reordered.splice(target, 0, moved!)
+    setImages(reordered)
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      const playlist = await savePlaylist(deviceId, {
+        source_type: sourceType,
+        collection_id: sourceType === "collection" ? collectionId ?? undefined : undefined,
+        image_ids: sourceType === "images" ? images.map((image) => image.id) : undefined,
+        mode,
+        dwell_minutes: dwellMinutes,
+        is_enabled: isEnabled,
+      })
+      setHasPlaylist(true)
+      if (playlist.source_type === "images") setImages(playlist.images)
+      setMessage({ type: "success", text: t.playlist.saved })
+    } catch (err) {
+      setMessage({ type: "error", text: err instanceof Error ? err.message : t.playlist.saveError })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRemove = async () => {
+    if (!confirm(t.playlist.removeConfirm)) return
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      await removePlaylist(deviceId)
+      setHasPlaylist(false)
+      setImages([])
+    } catch (err) {
+      setMessage({ type: "error", text: err instanceof Error ? err.message : t.playlist.saveError })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-3">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const canSave = sourceType === "collection" ? collectionId !== null : images.length > 0
+  const selectClassName = "w-full px-3 py-2 bg-background border border-border rounded-xl text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/50"
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        {hasPlaylist ? t.playlist.description : t.playlist.none}
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <label className="text-xs text-muted-foreground">{t.playlist.source}</label>
+          <select
+            value={sourceType}
+            onChange={(e) => setSourceType(e.target.value as PlaylistSource)}
+            className={selectClassName}
+          >
+            <option value="collection">{t.playlist.sourceCollection}</option>
+            <option value="images">{t.playlist.sourceImages}</option>
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-xs text-muted-foreground">{t.playlist.mode}</label>
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as PlaylistMode)}
+            className={selectClassName}
+          >
+            <option value="sequential">{t.playlist.modeSequential}</option>
+            <option value="shuffle">{t.playlist.modeShuffle}</option>
+            <option value="weighted">{t.playlist.modeWeighted}</option>
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-xs text-muted-foreground">{t.playlist.dwell}</label>
+          <input
+            type="number"
+            min={1}
+            max={10080}
+            value={dwellMinutes}
+            onChange={(e) => setDwellMinutes(parseInt(e.target.value, 10) || DEFAULT_DWELL_MINUTES)}
+            className={selectClassName}
+          />
+        </div>
+      </div>
+
+      {sourceType === "collection" ? (
+        <select
+          value={collectionId ?? ""}
+          onChange={(e) => setCollectionId(e.target.value ? parseInt(e.target.value, 10) : null)}
+          className={selectClassName}
+        >
+          <option value="">{t.playlist.selectCollection}</option>
+          {collections.map((collection) => (
+            <option key={collection.id} value={collection.id}>
+              {collection.name} ({t.playlist.imageCount.replace("{count}", String(collection.imageCount))})
+            </option>
+          ))}
+        </select>
+      ) : images.length === 0 ? (
+        <p className="text-xs text-muted-foreground">{t.playlist.noImages}</p>
+      ) : (
+        <div className="space-y-1 max-h-64 overflow-y-auto">
+          {images.map((image, index) => (
+            <div key={image.id} className="flex items-center gap-2 p-1.5 bg-background border border-border rounded-lg">
+              <img src={image.thumbnail_url} alt="" className="w-10 h-10 rounded object-cover shrink-0" />
+              <span className="flex-1 text-xs truncate">{image.prompt}</span>
+              <button
+                onClick={() => moveImage(index, -1)}
+                disabled={index === 0}
+                className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                title={t.playlist.moveUp}
+              >
+                <ChevronUp className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => moveImage(index, 1)}
+                disabled={index === images.length - 1}
+                className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                title={t.playlist.moveDown}
+              >
+                <ChevronDown className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => setImages(images.filter((item) => item.id !== image.id))}
+                className="p-1 text-muted-foreground hover:text-red-500"
+                title={t.playlist.removeImage}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          id={`playlist-enabled-${deviceId}`}
+          checked={isEnabled}
+          onChange={(e) => setIsEnabled(e.target.checked)}
+          className="w-4 h-4"
+        />
+        <label htmlFor={`playlist-enabled-${deviceId}`} className="text-sm">
+          {t.playlist.enabled}
+        </label>
+      </div>
+
+      <p className="text-xs text-muted-foreground">{t.playlist.pollingNote}</p>
+
+      {message && (
+        <p className={message.type === "success" ? "text-xs text-emerald-500" : "text-xs text-red-500"}>
+          {message.text}
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {hasPlaylist && (
+          <Button variant="outline" size="sm" onClick={handleRemove} disabled={isSaving}>
+            {t.playlist.remove}
+          </Button>
+        )}
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={isSaving || !canSave}
+          className="bg-teal-600 hover:bg-teal-700 text-white"
+        >
+          {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+          {t.playlist.save}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -58,7 +58,7 @@ export function ImageDetailModal({
 }: ImageDetailModalProps) {
   const { t } = useLanguage()
   const { accessToken: token } = useAuth()
-  const { syncToTrmnl, isSyncing, devices, hasDevices, isLoadingDevices } = useTrmnlSync()
+  const { syncToTrmnl, isSyncing, devices, hasDevices, isLoadingDevices, previewOnDevice } = useTrmnlSync()
   const [imageError, setImageError] = useState(false)
   const [showExportMenu, setShowExportMenu] = useState(false)
   const [isExporting, setIsExporting] = useState(false)
@@ -66,6 +66,8 @@ export function ImageDetailModal({
   const [showDeviceMenu, setShowDeviceMenu] = useState(false)
   const [selectedDevices, setSelectedDevices] = useState<number[]>([])
   const [showCollectionPicker, setShowCollectionPicker] = useState(false)
+  const [einkPreviewUrl, setEinkPreviewUrl] = useState<string | null>(null)
+  const [isRenderingPreview, setIsRenderingPreview] = useState(false)
   const exportMenuRef = useRef<HTMLDivElement>(null)
   const deviceMenuRef = useRef<HTMLDivElement>(null)
 
@@ -89,8 +91,35 @@ export function ImageDetailModal({
     setSyncSuccess(false)
     setShowDeviceMenu(false)
     setSelectedDevices([])
+    setEinkPreviewUrl(null)
   }, [image?.id])
 
+  // Release the rendered preview blob when it is replaced or the modal unmounts
+  useEffect(() => {
+    return () => {
+      if (einkPreviewUrl) URL.revokeObjectURL(einkPreviewUrl)
+    }
+  }, [einkPreviewUrl])
+
+  // Toggle the e-ink preview, rendered with the default device's settings
+  const handleToggleEinkPreview = useCallback(async () => {
+    if (einkPreviewUrl) {
+      setEinkPreviewUrl(null)
+      return
+    }
+    const device = devices.find(d => d.is_default) || devices[0]
+    if (!image || !device) return
+
+    setIsRenderingPreview(true)
+    try {
+      setEinkPreviewUrl(await previewOnDevice(image.imageUrl, device.id))
+    } catch (err) {
+      console.error("Failed to render e-ink preview:", err)
+    } finally {
+      setIsRenderingPreview(false)
+    }
+  }, [einkPreviewUrl, devices, image, previewOnDevice])
+
   // Action callbacks (must be before early return since they are hooks)
   const handleExport = useCallback(async (format: "png" | "jpg" | "webp") => {
     if (!token || isExporting || !image) return
@@ -327,7 +356,7 @@ export function ImageDetailModal({
             <ModalImagePlaceholder />
           ) : (
             <img
-              src={image.imageUrl}
+              src={einkPreviewUrl || image.imageUrl}
               alt={image.originalPrompt}
               className="max-w-full max-h-[70vh] object-contain rounded-lg"
               onError={() => setImageError(true)}
@@ -525,6 +554,27 @@ export function ImageDetailModal({
               </div>
             </div>
 
+            {/* E-ink preview toggle */}
+            {hasDevices && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={handleToggleEinkPreview}
+                disabled={isRenderingPreview}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4 mr-1">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M2.036 12.322a1.012 1.012 0 010-.639C3.423 7.51 7.36 4.5 12 4.5c4.638 0 8.573 3.007 9.963 7.178.07.207.07.431 0 .639C20.577 16.49 16.64 19.5 12 19.5c-4.638 0-8.573-3.007-9.963-7.178z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                </svg>
+                {isRenderingPreview
+                  ? t.einkPreviewLoading
+                  : einkPreviewUrl
+                    ? t.showOriginal
+                    : t.einkPreview}
+              </Button>
+            )}
+
             {/* Sync to TRMNL button */}
             <div className="relative" ref={deviceMenuRef}>
               {isLoadingDevices ? (
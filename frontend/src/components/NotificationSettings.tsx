@@ -0,0 +1,113 @@
+import { useState } from "react"
+import { Bell, ChevronDown, ChevronUp, Loader2 } from "lucide-react"
+import { Button } from "./ui/button"
+import { useLanguage } from "../hooks/useLanguage"
+import { useNotifications, type NotificationChannel, type NotificationEvent } from "../hooks/useNotifications"
+
+const EVENTS: NotificationEvent[] = ["batch_finished", "schedule_failing", "subscription_past_due", "order_shipped"]
+const CHANNELS: NotificationChannel[] = ["push", "email"]
+
+export function NotificationSettings() {
+  const { t } = useLanguage()
+  const { preferences, pushState, updatePreference, enablePush, disablePush } = useNotifications()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isTogglingPush, setIsTogglingPush] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleTogglePush = async () => {
+    setIsTogglingPush(true)
+    setError(null)
+    try {
+      if (pushState === "enabled") {
+        await disablePush()
+      } else {
+        await enablePush()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.notifications.saveError)
+    } finally {
+      setIsTogglingPush(false)
+    }
+  }
+
+  const handleChange = async (event: NotificationEvent, channel: NotificationChannel, enabled: boolean) => {
+    setError(null)
+    try {
+      await updatePreference(event, channel, enabled)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.notifications.saveError)
+    }
+  }
+
+  const pushStatus = {
+    unsupported: t.notifications.pushUnsupported,
+    unconfigured: t.notifications.pushUnconfigured,
+    denied: t.notifications.pushDenied,
+    disabled: t.notifications.pushDisabled,
+    enabled: t.notifications.pushEnabled,
+  }[pushState]
+
+  return (
+    <div className="mb-6 border rounded-lg">
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex items-center justify-between p-3 text-sm font-medium hover:bg-muted/50 rounded-lg"
+      >
+        <span className="flex items-center gap-2">
+          <Bell className="h-4 w-4" />
+          {t.notifications.title}
+        </span>
+        {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+      {isOpen && (
+        <div className="p-3 pt-0 space-y-3">
+          <p className="text-xs text-muted-foreground">{t.notifications.description}</p>
+
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">{pushStatus}</p>
+            {(pushState === "enabled" || pushState === "disabled") && (
+              <Button size="sm" variant="outline" onClick={handleTogglePush} disabled={isTogglingPush}>
+                {isTogglingPush && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                {pushState === "enabled" ? t.notifications.disablePush : t.notifications.enablePush}
+              </Button>
+            )}
+          </div>
+
+          {preferences && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-muted-foreground">
+                  <th className="text-left font-normal py-1">{t.notifications.event}</th>
+                  {CHANNELS.map(channel => (
+                    <th key={channel} className="font-normal py-1 w-16">{t.notifications.channels[channel]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {EVENTS.map(event => (
+                  <tr key={event} className="border-t">
+                    <td className="py-2">{t.notifications.events[event]}</td>
+                    {CHANNELS.map(channel => (
+                      <td key={channel} className="py-2 text-center">
+                        <input
+                          type="checkbox"
+                          checked={preferences[event][channel]}
+                          onChange={e => handleChange(event, channel, e.target.checked)}
+                          aria-label={`${t.notifications.events[event]} - ${t.notifications.channels[channel]}`}
+                          className="rounded border-border"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
 import { ReactNode } from "react"
-import { Sparkles, LogOut, Settings, Image, Calendar, Layers, ShoppingBag, CreditCard, Menu, X } from "lucide-react"
+import { Sparkles, LogOut, Settings, Image, Calendar, Layers, ShoppingBag, CreditCard, BarChart3, Menu, X } from "lucide-react"
 import { Button } from "./ui/button"
 import { ThemeToggle } from "./ThemeToggle"
 import { LanguageToggle } from "./LanguageToggle"
@@ -10,7 +10,7 @@ import { useState, useEffect } from "react"
 
 export interface PageHeaderProps {
   title?: string
-  onNavigate: (page: "chat" | "gallery" | "schedule" | "batch" | "orders" | "subscription" | "settings") => void
+  onNavigate: (page: "chat" | "gallery" | "schedule" | "batch" | "orders" | "subscription" | "usage" | "settings") => void
   currentPage?: string
   rightContent?: ReactNode
   onLogout?: () => void
@@ -45,6 +45,7 @@ export function PageHeader({ title, onNavigate, currentPage, rightContent, onLog
     { page: "batch" as const, icon: Layers, label: t.batch?.title || "Batch" },
     { page: "orders" as const, icon: ShoppingBag, label: t.orders?.title || "Orders" },
     { page: "subscription" as const, icon: CreditCard, label: t.subscription?.title || "Subscription" },
+    { page: "usage" as const, icon: BarChart3, label: t.usage?.title || "Usage" },
     { page: "settings" as const, icon: Settings, label: t.settings?.title || "Settings" },
   ]
 
@@ -0,0 +1,126 @@
+import { useState } from "react"
+import { ChevronDown, ChevronUp, ListPlus, Loader2, Trash2 } from "lucide-react"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { useLanguage } from "../hooks/useLanguage"
+import { usePromptLists, type PromptList } from "../hooks/usePromptLists"
+
+function parseItems(text: string): string[] {
+  return text.split("\n").map(item => item.trim()).filter(Boolean)
+}
+
+interface PromptListRowProps {
+  list: PromptList | null
+  onSave: (name: string, items: string[]) => Promise<void>
+  onDelete?: () => Promise<void>
+}
+
+function PromptListRow({ list, onSave, onDelete }: PromptListRowProps) {
+  const { t } = useLanguage()
+  const [name, setName] = useState(list?.name || "")
+  const [itemsText, setItemsText] = useState(list?.items.join("\n") || "")
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isDirty = !list || name !== list.name || itemsText !== list.items.join("\n")
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onSave(name.trim(), parseItems(itemsText))
+      if (!list) {
+        setName("")
+        setItemsText("")
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.promptLists.saveError)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!onDelete || !confirm(t.promptLists.deleteConfirm)) return
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onDelete()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.promptLists.saveError)
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2 p-3 border rounded-md bg-background">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground font-mono">{"{{list:"}</span>
+        <Input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder={t.promptLists.namePlaceholder}
+          className="h-8 font-mono text-sm"
+        />
+        <span className="text-xs text-muted-foreground font-mono">{"}}"}</span>
+      </div>
+      <textarea
+        value={itemsText}
+        onChange={e => setItemsText(e.target.value)}
+        placeholder={t.promptLists.itemsPlaceholder}
+        className="w-full min-h-[72px] p-2 border rounded-md bg-background text-sm resize-y"
+      />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      <div className="flex justify-end gap-2">
+        {onDelete && (
+          <Button size="sm" variant="ghost" onClick={handleDelete} disabled={isSaving} title={t.promptLists.delete}>
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        )}
+        <Button size="sm" onClick={handleSave} disabled={isSaving || !isDirty || !name.trim() || !itemsText.trim()}>
+          {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+          {list ? t.promptLists.save : t.promptLists.create}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export function PromptListsManager() {
+  const { t } = useLanguage()
+  const { lists, createList, updateList, deleteList } = usePromptLists()
+  const [isOpen, setIsOpen] = useState(false)
+
+  return (
+    <div className="mb-6 border rounded-lg">
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex items-center justify-between p-3 text-sm font-medium hover:bg-muted/50 rounded-lg"
+      >
+        <span className="flex items-center gap-2">
+          <ListPlus className="h-4 w-4" />
+          {t.promptLists.title} ({lists.length})
+        </span>
+        {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+      {isOpen && (
+        <div className="p-3 pt-0 space-y-3">
+          <p className="text-xs text-muted-foreground">{t.promptLists.description}</p>
+          {lists.map(list => (
+            <PromptListRow
+              key={list.id}
+              list={list}
+              onSave={async (name, items) => { await updateList(list.id, name, items) }}
+              onDelete={() => deleteList(list.id)}
+            />
+          ))}
+          <PromptListRow
+            list={null}
+            onSave={async (name, items) => { await createList(name, items) }}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,11 +2,12 @@ import { useState, useMemo, useEffect, useCallback, useRef } from "react"
 import { ChevronLeft, ChevronRight, X } from "lucide-react"
 import { Button } from "./ui/button"
 import { useLanguage } from "../hooks/useLanguage"
-import type { ScheduledJob } from "../hooks/useSchedule"
+import type { ScheduledJob, ScheduleOccurrences, ScheduleDayOccurrences } from "../hooks/useSchedule"
 
 interface ScheduleCalendarProps {
   jobs: ScheduledJob[]
   userTimezone: string
+  fetchOccurrences: (from: string, to: string, timezone: string) => Promise<ScheduleOccurrences>
 }
 
 interface CalendarCell {
@@ -16,6 +17,17 @@ interface CalendarCell {
   isCurrentMonth: boolean
   isToday: boolean
   jobs: ScheduledJob[]
+  // Run times of cron/interval jobs on this day, by job id
+  runTimes: Record<number, ScheduleDayOccurrences>
+}
+
+// Cron and interval runs are computed by the server (see fetchOccurrences)
+function hasServerOccurrences(job: ScheduledJob): boolean {
+  return job.schedule_type === "cron" || job.schedule_type === "interval"
+}
+
+function toDateKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month + 1).padStart(2, "0")}-${String(day).padStart(2, "0")}`
 }
 
 function getDaysInMonth(year: number, month: number): number {
@@ -30,7 +42,7 @@ function isSameDay(a: { day: number; month: number; year: number }, b: { day: nu
   return a.day === b.day && a.month === b.month && a.year === b.year
 }
 
-function computeCalendarCells(year: number, month: number, jobs: ScheduledJob[]): CalendarCell[] {
+function computeCalendarCells(year: number, month: number, jobs: ScheduledJob[], occurrences: ScheduleOccurrences): CalendarCell[] {
   const daysInMonth = getDaysInMonth(year, month)
   const firstDay = getFirstDayOfWeek(year, month)
 
@@ -60,6 +72,7 @@ function computeCalendarCells(year: number, month: number, jobs: ScheduledJob[])
       isCurrentMonth: false,
       isToday: d === todayDay && prevMonth === todayMonth && prevYear === todayYear,
       jobs: [],
+      runTimes: {},
     })
   }
 
@@ -72,6 +85,7 @@ function computeCalendarCells(year: number, month: number, jobs: ScheduledJob[])
       isCurrentMonth: true,
       isToday: d === todayDay && month === todayMonth && year === todayYear,
       jobs: [],
+      runTimes: {},
     })
   }
 
@@ -86,6 +100,7 @@ function computeCalendarCells(year: number, month: number, jobs: ScheduledJob[])
       isCurrentMonth: false,
       isToday: d === todayDay && nextMonth === todayMonth && nextYear === todayYear,
       jobs: [],
+      runTimes: {},
     })
   }
 
@@ -114,17 +129,32 @@ function computeCalendarCells(year: number, month: number, jobs: ScheduledJob[])
           cell.jobs.push(job)
         }
       }
+    } else if (hasServerOccurrences(job)) {
+      const jobOccurrences = occurrences[job.id] || {}
+      for (const cell of cells) {
+        const runs = jobOccurrences[toDateKey(cell.year, cell.month, cell.day)]
+        if (runs) {
+          cell.jobs.push(job)
+          cell.runTimes[job.id] = runs
+        }
+      }
     }
   }
 
   return cells
 }
 
-/** Count how many distinct jobs have at least one run in the given month. */
-function countJobsInMonth(year: number, month: number, jobs: ScheduledJob[]): number {
+/**
+ * Count how many distinct jobs have at least one run in the given month.
+ * Without occurrences (months outside the visible grid) cron and interval jobs are assumed to run.
+ */
+function countJobsInMonth(year: number, month: number, jobs: ScheduledJob[], occurrences?: ScheduleOccurrences): number {
+  const monthPrefix = toDateKey(year, month, 1).slice(0, 8)
   let count = 0
   for (const job of jobs) {
-    if (job.schedule_type === "daily") {
+    if (hasServerOccurrences(job)) {
+      if (!occurrences || Object.keys(occurrences[job.id] || {}).some(day => day.startsWith(monthPrefix))) count++
+    } else if (job.schedule_type === "daily") {
       count++
     } else if (job.schedule_type === "weekly") {
       if (job.schedule_days && job.schedule_days.length > 0) count++
@@ -142,12 +172,16 @@ function getDotColor(job: ScheduledJob): string {
   if (!job.is_enabled) return "bg-muted-foreground/30"
   if (job.schedule_type === "once") return "bg-blue-500"
   if (job.schedule_type === "daily") return "bg-teal-500"
+  if (job.schedule_type === "cron") return "bg-amber-500"
+  if (job.schedule_type === "interval") return "bg-pink-500"
   return "bg-violet-500"
 }
 
 function getTypeBadgeClass(type: string): string {
   if (type === "once") return "bg-blue-500/15 text-blue-600 dark:text-blue-400"
   if (type === "daily") return "bg-teal-500/15 text-teal-600 dark:text-teal-400"
+  if (type === "cron") return "bg-amber-500/15 text-amber-600 dark:text-amber-400"
+  if (type === "interval") return "bg-pink-500/15 text-pink-600 dark:text-pink-400"
   return "bg-violet-500/15 text-violet-600 dark:text-violet-400"
 }
 
@@ -273,9 +307,16 @@ function DayPopover({ cell, language, onClose, anchorRect }: DayPopoverProps) {
                 <div className="min-w-0 flex-1">
                   <p className="text-sm truncate">{job.prompt}</p>
                   <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
-                    {job.schedule_type !== "once" && (
+                    {(job.schedule_type === "daily" || job.schedule_type === "weekly") && (
                       <span>@ {job.schedule_time}</span>
                     )}
+                    {cell.runTimes[job.id] && (
+                      <span className="truncate">
+                        @ {cell.runTimes[job.id]!.times.join(", ")}
+                        {cell.runTimes[job.id]!.count > cell.runTimes[job.id]!.times.length &&
+                          ` +${cell.runTimes[job.id]!.count - cell.runTimes[job.id]!.times.length}`}
+                      </span>
+                    )}
                     <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${getTypeBadgeClass(job.schedule_type)}`}>
                       {t.schedule?.[job.schedule_type] || job.schedule_type}
                     </span>
@@ -293,7 +334,7 @@ function DayPopover({ cell, language, onClose, anchorRect }: DayPopoverProps) {
   )
 }
 
-export function ScheduleCalendar({ jobs, userTimezone: _userTimezone }: ScheduleCalendarProps) {
+export function ScheduleCalendar({ jobs, userTimezone, fetchOccurrences }: ScheduleCalendarProps) {
   const { language, t } = useLanguage()
   const [currentMonth, setCurrentMonth] = useState(() => {
     const now = new Date()
@@ -301,11 +342,35 @@ export function ScheduleCalendar({ jobs, userTimezone: _userTimezone }: Schedule
   })
   const [selectedCell, setSelectedCell] = useState<CalendarCell | null>(null)
   const [anchorRect, setAnchorRect] = useState<DOMRect | null>(null)
+  const [occurrences, setOccurrences] = useState<ScheduleOccurrences>({})
 
   const year = currentMonth.getFullYear()
   const month = currentMonth.getMonth()
 
-  const cells = useMemo(() => computeCalendarCells(year, month, jobs), [year, month, jobs])
+  // Load cron/interval runs for the visible grid (up to six weeks around the month)
+  useEffect(() => {
+    if (!jobs.some(hasServerOccurrences)) {
+      setOccurrences({})
+      return
+    }
+    let cancelled = false
+    const from = new Date(year, month, 1 - getFirstDayOfWeek(year, month))
+    const to = new Date(from.getFullYear(), from.getMonth(), from.getDate() + 42)
+    fetchOccurrences(
+      toDateKey(from.getFullYear(), from.getMonth(), from.getDate()),
+      toDateKey(to.getFullYear(), to.getMonth(), to.getDate()),
+      userTimezone
+    )
+      .then(result => {
+        if (!cancelled) setOccurrences(result)
+      })
+      .catch(err => console.error("Failed to load schedule occurrences:", err))
+    return () => {
+      cancelled = true
+    }
+  }, [year, month, jobs, userTimezone, fetchOccurrences])
+
+  const cells = useMemo(() => computeCalendarCells(year, month, jobs, occurrences), [year, month, jobs, occurrences])
 
   const monthLabel = useMemo(() => {
     return new Intl.DateTimeFormat(language === "zh" ? "zh-CN" : "en-US", {
@@ -360,7 +425,7 @@ export function ScheduleCalendar({ jobs, userTimezone: _userTimezone }: Schedule
     return year === now.getFullYear() && month === now.getMonth()
   }, [year, month])
 
-  const jobsThisMonth = useMemo(() => countJobsInMonth(year, month, jobs), [year, month, jobs])
+  const jobsThisMonth = useMemo(() => countJobsInMonth(year, month, jobs, occurrences), [year, month, jobs, occurrences])
   const prevMonthNum = month === 0 ? 11 : month - 1
   const prevYearNum = month === 0 ? year - 1 : year
   const nextMonthNum = month === 11 ? 0 : month + 1
@@ -418,6 +483,14 @@ export function ScheduleCalendar({ jobs, userTimezone: _userTimezone }: Schedule
           <span className="h-2 w-2 rounded-full bg-violet-500 shrink-0" />
           {t.schedule?.weekly || "Weekly"}
         </span>
+        <span className="flex items-center gap-1.5 whitespace-nowrap">
+          <span className="h-2 w-2 rounded-full bg-amber-500 shrink-0" />
+          {t.schedule?.cron || "Cron"}
+        </span>
+        <span className="flex items-center gap-1.5 whitespace-nowrap">
+          <span className="h-2 w-2 rounded-full bg-pink-500 shrink-0" />
+          {t.schedule?.interval || "Interval"}
+        </span>
         <span className="flex items-center gap-1.5 whitespace-nowrap">
           <span className="h-2 w-2 rounded-full bg-red-500 shrink-0" />
           {t.schedule?.error || "Error"}
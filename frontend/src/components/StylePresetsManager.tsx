@@ -0,0 +1,195 @@
+import { useState } from "react"
+import { ChevronDown, ChevronUp, Loader2, Palette, Trash2 } from "lucide-react"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { useLanguage } from "../hooks/useLanguage"
+import { useStylePresets, type StylePreset, type StylePresetInput } from "../hooks/useStylePresets"
+
+const SIZES = ["1024x1024", "1792x1024", "1024x1792"]
+
+function toInput(preset: StylePreset | null): StylePresetInput {
+  return {
+    name: preset?.name || "",
+    promptPrefix: preset?.promptPrefix || null,
+    promptSuffix: preset?.promptSuffix || null,
+    negativePrompt: preset?.negativePrompt || null,
+    size: preset?.size || null,
+    quality: preset?.quality || null,
+    style: preset?.style || null,
+    visibility: preset?.visibility === "shared" ? "shared" : "private",
+  }
+}
+
+interface StylePresetRowProps {
+  preset: StylePreset | null
+  onSave: (input: StylePresetInput) => Promise<void>
+  onDelete?: () => Promise<void>
+}
+
+function StylePresetRow({ preset, onSave, onDelete }: StylePresetRowProps) {
+  const { t } = useLanguage()
+  const [input, setInput] = useState<StylePresetInput>(() => toInput(preset))
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isDirty = !preset || JSON.stringify(input) !== JSON.stringify(toInput(preset))
+  const hasText = !!(input.promptPrefix || input.promptSuffix || input.negativePrompt)
+
+  const setField = <K extends keyof StylePresetInput>(field: K, value: StylePresetInput[K]) => {
+    setInput(prev => ({ ...prev, [field]: value }))
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onSave({ ...input, name: input.name.trim() })
+      if (!preset) {
+        setInput(toInput(null))
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.stylePresets.saveError)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!onDelete || !confirm(t.stylePresets.deleteConfirm)) return
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onDelete()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.stylePresets.saveError)
+      setIsSaving(false)
+    }
+  }
+
+  const selectClass = "h-8 px-2 border rounded-md bg-background text-xs"
+
+  return (
+    <div className="space-y-2 p-3 border rounded-md bg-background">
+      <Input
+        value={input.name}
+        onChange={e => setField("name", e.target.value)}
+        placeholder={t.stylePresets.namePlaceholder}
+        className="h-8 text-sm"
+      />
+      <Input
+        value={input.promptPrefix || ""}
+        onChange={e => setField("promptPrefix", e.target.value || null)}
+        placeholder={t.stylePresets.prefixPlaceholder}
+        className="h-8 text-sm"
+      />
+      <Input
+        value={input.promptSuffix || ""}
+        onChange={e => setField("promptSuffix", e.target.value || null)}
+        placeholder={t.stylePresets.suffixPlaceholder}
+        className="h-8 text-sm"
+      />
+      <Input
+        value={input.negativePrompt || ""}
+        onChange={e => setField("negativePrompt", e.target.value || null)}
+        placeholder={t.stylePresets.negativePlaceholder}
+        className="h-8 text-sm"
+      />
+      <div className="flex flex-wrap gap-2">
+        <select value={input.size || ""} onChange={e => setField("size", e.target.value || null)} className={selectClass}>
+          <option value="">{t.stylePresets.anySize}</option>
+          {SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+        </select>
+        <select
+          value={input.quality || ""}
+          onChange={e => setField("quality", (e.target.value || null) as StylePresetInput["quality"])}
+          className={selectClass}
+        >
+          <option value="">{t.stylePresets.defaultQuality}</option>
+          <option value="standard">{t.stylePresets.qualityStandard}</option>
+          <option value="hd">{t.stylePresets.qualityHd}</option>
+        </select>
+        <select
+          value={input.style || ""}
+          onChange={e => setField("style", (e.target.value || null) as StylePresetInput["style"])}
+          className={selectClass}
+        >
+          <option value="">{t.stylePresets.defaultStyle}</option>
+          <option value="vivid">{t.stylePresets.styleVivid}</option>
+          <option value="natural">{t.stylePresets.styleNatural}</option>
+        </select>
+        <select
+          value={input.visibility}
+          onChange={e => setField("visibility", e.target.value as StylePresetInput["visibility"])}
+          className={selectClass}
+        >
+          <option value="private">{t.stylePresets.private}</option>
+          <option value="shared">{t.stylePresets.shared}</option>
+        </select>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      <div className="flex justify-end gap-2">
+        {onDelete && (
+          <Button size="sm" variant="ghost" onClick={handleDelete} disabled={isSaving} title={t.stylePresets.delete}>
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        )}
+        <Button size="sm" onClick={handleSave} disabled={isSaving || !isDirty || !input.name.trim() || !hasText}>
+          {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+          {preset ? t.stylePresets.save : t.stylePresets.create}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export function StylePresetsManager() {
+  const { t } = useLanguage()
+  const { presets, createPreset, updatePreset, deletePreset } = useStylePresets()
+  const [isOpen, setIsOpen] = useState(false)
+
+  const ownPresets = presets.filter(preset => preset.source === "own")
+  const otherPresets = presets.filter(preset => preset.source === "global" || preset.source === "shared")
+
+  return (
+    <div className="mb-6 border rounded-lg">
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex items-center justify-between p-3 text-sm font-medium hover:bg-muted/50 rounded-lg"
+      >
+        <span className="flex items-center gap-2">
+          <Palette className="h-4 w-4" />
+          {t.stylePresets.title} ({ownPresets.length})
+        </span>
+        {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+      {isOpen && (
+        <div className="p-3 pt-0 space-y-3">
+          <p className="text-xs text-muted-foreground">{t.stylePresets.description}</p>
+          {ownPresets.map(preset => (
+            <StylePresetRow
+              key={preset.key}
+              preset={preset}
+              onSave={async input => { await updatePreset(preset.id!, input) }}
+              onDelete={() => deletePreset(preset.id!)}
+            />
+          ))}
+          <StylePresetRow
+            preset={null}
+            onSave={async input => { await createPreset(input) }}
+          />
+          {otherPresets.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">{t.stylePresets.available}</p>
+              {otherPresets.map(preset => (
+                <p key={preset.key} className="text-xs text-muted-foreground">
+                  {preset.name} · {preset.source === "global" ? t.stylePresets.global : t.stylePresets.shared}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,227 @@
+import { useState, FormEvent } from "react"
+import { Check, ChevronDown, ChevronUp, Copy, Loader2, ShieldCheck } from "lucide-react"
+import { Button } from "./ui/button"
+import { useLanguage } from "../hooks/useLanguage"
+import { useTwoFactor, type TwoFactorSetup } from "../hooks/useTwoFactor"
+
+// password: confirm password before setup; scan: QR code and first code; codes: show recovery codes once
+type Step = "idle" | "password" | "scan" | "codes" | "regenerate" | "disable"
+
+const inputClassName =
+  "w-full px-3 py-2 bg-muted border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/50"
+
+export function TwoFactorSettings() {
+  const { t, language } = useLanguage()
+  const { status, startSetup, enable, disable, regenerateRecoveryCodes } = useTwoFactor()
+  const [isOpen, setIsOpen] = useState(false)
+  const [step, setStep] = useState<Step>("idle")
+  const [password, setPassword] = useState("")
+  const [code, setCode] = useState("")
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([])
+  const [copied, setCopied] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reset = (next: Step = "idle") => {
+    setStep(next)
+    setPassword("")
+    setCode("")
+    setError(null)
+  }
+
+  // Run a two-factor action, showing its error message on failure
+  const submit = (action: () => Promise<void>) => async (e: FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.twoFactor.error)
+      setCode("")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleStartSetup = submit(async () => {
+    setSetup(await startSetup(password))
+    reset("scan")
+  })
+
+  const handleEnable = submit(async () => {
+    setRecoveryCodes(await enable(code))
+    setSetup(null)
+    reset("codes")
+  })
+
+  const handleRegenerate = submit(async () => {
+    setRecoveryCodes(await regenerateRecoveryCodes(code))
+    reset("codes")
+  })
+
+  const handleDisable = submit(async () => {
+    await disable(password, code)
+    reset()
+  })
+
+  const handleCopyCodes = async () => {
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"))
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const statusText = status?.enabled
+    ? t.twoFactor.enabled
+        .replace("{date}", status.enabledAt ? new Date(status.enabledAt).toLocaleDateString(language) : "")
+        .replace("{count}", String(status.recoveryCodesRemaining))
+    : t.twoFactor.disabled
+
+  const submitButton = (label: string, disabled: boolean) => (
+    <Button type="submit" size="sm" disabled={isSubmitting || disabled}>
+      {isSubmitting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+      {label}
+    </Button>
+  )
+
+  const cancelButton = (
+    <Button type="button" size="sm" variant="ghost" onClick={() => reset()}>
+      {t.twoFactor.cancel}
+    </Button>
+  )
+
+  const codeInput = (
+    <input
+      type="text"
+      autoComplete="one-time-code"
+      value={code}
+      onChange={e => setCode(e.target.value)}
+      placeholder={t.twoFactor.codeLabel}
+      aria-label={t.twoFactor.codeLabel}
+      className={inputClassName}
+    />
+  )
+
+  const passwordInput = (
+    <input
+      type="password"
+      autoComplete="current-password"
+      value={password}
+      onChange={e => setPassword(e.target.value)}
+      placeholder={t.twoFactor.passwordLabel}
+      aria-label={t.twoFactor.passwordLabel}
+      className={inputClassName}
+    />
+  )
+
+  return (
+    <div className="mb-6 border rounded-lg">
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex items-center justify-between p-3 text-sm font-medium hover:bg-muted/50 rounded-lg"
+      >
+        <span className="flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4" />
+          {t.twoFactor.title}
+        </span>
+        {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+      {isOpen && status && (
+        <div className="p-3 pt-0 space-y-3">
+          <p className="text-xs text-muted-foreground">{t.twoFactor.description}</p>
+
+          {step === "idle" && (
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground">{statusText}</p>
+              {status.enabled ? (
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => reset("regenerate")}>
+                    {t.twoFactor.regenerate}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => reset("disable")}>
+                    {t.twoFactor.disable}
+                  </Button>
+                </div>
+              ) : (
+                <Button size="sm" variant="outline" onClick={() => reset("password")}>
+                  {t.twoFactor.enable}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {step === "password" && (
+            <form onSubmit={handleStartSetup} className="space-y-2">
+              {passwordInput}
+              <div className="flex gap-2">
+                {submitButton(t.twoFactor.continue, !password)}
+                {cancelButton}
+              </div>
+            </form>
+          )}
+
+          {step === "scan" && setup && (
+            <form onSubmit={handleEnable} className="space-y-2">
+              <p className="text-xs text-muted-foreground">{t.twoFactor.scanQr}</p>
+              <img src={setup.qrCode} alt={setup.otpauthUrl} className="w-48 h-48 bg-white rounded-lg" />
+              <code className="block text-xs break-all select-all">{setup.secret}</code>
+              {codeInput}
+              <div className="flex gap-2">
+                {submitButton(t.twoFactor.confirm, !code.trim())}
+                {cancelButton}
+              </div>
+            </form>
+          )}
+
+          {step === "codes" && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">{t.twoFactor.recoveryCodesTitle}</p>
+              <p className="text-xs text-muted-foreground">{t.twoFactor.recoveryCodesDescription}</p>
+              <div className="grid grid-cols-2 gap-1 p-2 bg-muted rounded-lg font-mono text-sm">
+                {recoveryCodes.map(recoveryCode => (
+                  <span key={recoveryCode}>{recoveryCode}</span>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={handleCopyCodes}>
+                  {copied ? <Check className="h-4 w-4 mr-1" /> : <Copy className="h-4 w-4 mr-1" />}
+                  {copied ? t.twoFactor.copied : t.twoFactor.copyCodes}
+                </Button>
+                <Button size="sm" onClick={() => { setRecoveryCodes([]); reset() }}>
+                  {t.twoFactor.done}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {step === "regenerate" && (
+            <form onSubmit={handleRegenerate} className="space-y-2">
+              <p className="text-xs text-muted-foreground">{t.twoFactor.regenerateDescription}</p>
+              {codeInput}
+              <div className="flex gap-2">
+                {submitButton(t.twoFactor.regenerate, !code.trim())}
+                {cancelButton}
+              </div>
+            </form>
+          )}
+
+          {step === "disable" && (
+            <form onSubmit={handleDisable} className="space-y-2">
+              <p className="text-xs text-muted-foreground">{t.twoFactor.disableDescription}</p>
+              {passwordInput}
+              {codeInput}
+              <div className="flex gap-2">
+                {submitButton(t.twoFactor.disable, !password || !code.trim())}
+                {cancelButton}
+              </div>
+            </form>
+          )}
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
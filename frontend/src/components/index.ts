@@ -10,10 +10,15 @@ export { MaskDrawer } from "./MaskDrawer"
 export { PromptEnhanceModal } from "./PromptEnhanceModal"
 export { CollectionPicker } from "./CollectionPicker"
 export { CollectionManager } from "./CollectionManager"
+export { DevicePlaylistEditor } from "./DevicePlaylistEditor"
 export { BulkActionBar } from "./BulkActionBar"
 export { OfflineIndicator } from "./OfflineIndicator"
 export { KeyboardShortcutsHelp } from "./KeyboardShortcutsHelp"
 export { ScheduleCalendar } from "./ScheduleCalendar"
+export { PromptListsManager } from "./PromptListsManager"
+export { StylePresetsManager } from "./StylePresetsManager"
+export { NotificationSettings } from "./NotificationSettings"
+export { ConversationSidebar } from "./ConversationSidebar"
 export { Button } from "./ui/button"
 export { Input } from "./ui/input"
 export { Textarea } from "./ui/textarea"
@@ -10,15 +10,34 @@ export { useGallery } from "./useGallery"
 export { useSchedule } from "./useSchedule"
 export { useBatch } from "./useBatch"
 export { useCollections } from "./useCollections"
+export { usePlaylist } from "./usePlaylist"
+export { usePromptLists } from "./usePromptLists"
+export { useStylePresets } from "./useStylePresets"
+export { useConversations } from "./useConversations"
+export { useImageProviders } from "./useImageProviders"
+export { useServerEvents } from "./useServerEvents"
+export { useNotifications } from "./useNotifications"
+export { useTwoFactor } from "./useTwoFactor"
+export { useUsage, getCurrentUsagePeriod } from "./useUsage"
 export { useSEO, usePageTitle } from "./useSEO"
 export { useOnlineStatus } from "./useOnlineStatus"
 export { useKeyboardShortcuts, getModifierLabel } from "./useKeyboardShortcuts"
 export type { ShortcutDef } from "./useKeyboardShortcuts"
 export type { Language } from "./useLanguage"
-export type { User } from "./useAuth"
+export type { User, LoginResult } from "./useAuth"
+export type { EinkSettings, DitherAlgorithm, EinkOrientation, EinkFit } from "./useTrmnlSync"
 export type { Order, CreateOrderInput, CreateOrderResponse, VerifyPaymentInput, VerifyPaymentResponse } from "./useOrders"
-export type { SubscriptionStatus, SubscriptionInfo, AccessStatus } from "./useSubscription"
+export type { SubscriptionStatus, SubscriptionInfo, AccessStatus, QuotaKind, QuotaUsage, QuotaSummary } from "./useSubscription"
+export type { UsageEvent, UsageSource, UsageOperation, UsageTotals, UsagePagination } from "./useUsage"
 export type { GalleryImage, GalleryPagination, GalleryStats } from "./useGallery"
-export type { ScheduledJob, CreateScheduledJobInput, SchedulePagination } from "./useSchedule"
+export type { ScheduledJob, ScheduleType, CreateScheduledJobInput, SchedulePagination, ScheduleOccurrences, ScheduleDayOccurrences, SchedulePreview, SchedulePreviewInput } from "./useSchedule"
 export type { BatchJob, BatchJobItem, BatchJobWithItems, CreateBatchJobInput, BatchStatus, BatchPagination } from "./useBatch"
 export type { Collection } from "./useCollections"
+export type { DevicePlaylist, PlaylistImage, PlaylistMode, PlaylistSource, SavePlaylistInput } from "./usePlaylist"
+export type { PromptList } from "./usePromptLists"
+export type { StylePreset, StylePresetInput, StylePresetSource, StylePresetVisibility } from "./useStylePresets"
+export type { Conversation, ConversationMessage, ConversationMessageInput } from "./useConversations"
+export type { ImageProvider, ImageProviderCapabilities } from "./useImageProviders"
+export type { ServerEvent, GenerationStage } from "./useServerEvents"
+export type { NotificationEvent, NotificationChannel, NotificationPreferences, PushState } from "./useNotifications"
+export type { TwoFactorStatus, TwoFactorSetup } from "./useTwoFactor"
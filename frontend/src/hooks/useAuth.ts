@@ -34,6 +34,18 @@ interface AuthResponse {
   message: string
 }
 
+// Password accepted; the account needs a code from the authenticator app
+interface TwoFactorChallengeResponse {
+  twoFactorRequired: true
+  challengeToken: string
+}
+
+export interface LoginResult {
+  success: boolean
+  error?: string
+  challengeToken?: string // Set when a second factor is needed
+}
+
 interface RefreshResponse {
   accessToken: string
   expiresIn: number
@@ -214,9 +226,37 @@ export function useAuth() {
     }
   }, [clearAuth])
 
+  // Store a new session and schedule its token refresh
+  const startSession = useCallback(
+    (authData: AuthResponse) => {
+      localStorage.setItem(ACCESS_TOKEN_KEY, authData.accessToken)
+      localStorage.setItem(REFRESH_TOKEN_KEY, authData.refreshToken)
+      localStorage.setItem(USER_KEY, JSON.stringify(authData.user))
+
+      setState({
+        user: authData.user,
+        accessToken: authData.accessToken,
+        refreshToken: authData.refreshToken,
+        isLoading: false,
+        isAuthenticated: true,
+      })
+
+      // Schedule token refresh (refresh 1 minute before expiry)
+      // Ensure minimum delay of 10 seconds to prevent negative timeout
+      const refreshIn = Math.max((authData.expiresIn - 60) * 1000, 10000)
+      if (refreshTimeoutRef.current) {
+        clearTimeout(refreshTimeoutRef.current)
+      }
+      refreshTimeoutRef.current = window.setTimeout(() => {
+        refreshAccessToken()
+      }, refreshIn)
+    },
+    [refreshAccessToken]
+  )
+
   // Login
   const login = useCallback(
-    async (credentials: LoginCredentials): Promise<{ success: boolean; error?: string }> => {
+    async (credentials: LoginCredentials): Promise<LoginResult> => {
       try {
         const response = await fetch("/api/auth/login", {
           method: "POST",
@@ -226,41 +266,50 @@ export function useAuth() {
           body: JSON.stringify(credentials),
         })
 
-        const data: AuthResponse | AuthError = await response.json()
+        const data: AuthResponse | TwoFactorChallengeResponse | AuthError = await response.json()
 
         if (!response.ok || "error" in data) {
           return { success: false, error: (data as AuthError).error }
         }
 
-        const authData = data as AuthResponse
-        localStorage.setItem(ACCESS_TOKEN_KEY, authData.accessToken)
-        localStorage.setItem(REFRESH_TOKEN_KEY, authData.refreshToken)
-        localStorage.setItem(USER_KEY, JSON.stringify(authData.user))
+        if ("twoFactorRequired" in data) {
+          return { success: false, challengeToken: data.challengeToken }
+        }
 
-        setState({
-          user: authData.user,
-          accessToken: authData.accessToken,
-          refreshToken: authData.refreshToken,
-          isLoading: false,
-          isAuthenticated: true,
+        startSession(data)
+        return { success: true }
+      } catch (error) {
+        return { success: false, error: "Login failed. Please try again." }
+      }
+    },
+    [startSession]
+  )
+
+  // Second login step: a code from the authenticator app or a recovery code
+  const verifyTwoFactor = useCallback(
+    async (challengeToken: string, code: string, rememberDevice: boolean): Promise<{ success: boolean; error?: string }> => {
+      try {
+        const response = await fetch("/api/auth/2fa/verify", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ challengeToken, code, rememberDevice }),
         })
 
-        // Schedule token refresh (refresh 1 minute before expiry)
-        // Ensure minimum delay of 10 seconds to prevent negative timeout
-        const refreshIn = Math.max((authData.expiresIn - 60) * 1000, 10000)
-        if (refreshTimeoutRef.current) {
-          clearTimeout(refreshTimeoutRef.current)
+        const data: AuthResponse | AuthError = await response.json()
+
+        if (!response.ok || "error" in data) {
+          return { success: false, error: (data as AuthError).error }
         }
-        refreshTimeoutRef.current = window.setTimeout(() => {
-          refreshAccessToken()
-        }, refreshIn)
 
+        startSession(data)
         return { success: true }
       } catch (error) {
-        return { success: false, error: "Login failed. Please try again." }
+        return { success: false, error: "Verification failed. Please try again." }
       }
     },
-    [refreshAccessToken]
+    [startSession]
   )
 
   // Register
@@ -281,35 +330,13 @@ export function useAuth() {
           return { success: false, error: (data as AuthError).error }
         }
 
-        const authData = data as AuthResponse
-        localStorage.setItem(ACCESS_TOKEN_KEY, authData.accessToken)
-        localStorage.setItem(REFRESH_TOKEN_KEY, authData.refreshToken)
-        localStorage.setItem(USER_KEY, JSON.stringify(authData.user))
-
-        setState({
-          user: authData.user,
-          accessToken: authData.accessToken,
-          refreshToken: authData.refreshToken,
-          isLoading: false,
-          isAuthenticated: true,
-        })
-
-        // Schedule token refresh (refresh 1 minute before expiry)
-        // Ensure minimum delay of 10 seconds to prevent negative timeout
-        const refreshIn = Math.max((authData.expiresIn - 60) * 1000, 10000)
-        if (refreshTimeoutRef.current) {
-          clearTimeout(refreshTimeoutRef.current)
-        }
-        refreshTimeoutRef.current = window.setTimeout(() => {
-          refreshAccessToken()
-        }, refreshIn)
-
+        startSession(data as AuthResponse)
         return { success: true }
       } catch (error) {
         return { success: false, error: "Registration failed. Please try again." }
       }
     },
-    [refreshAccessToken]
+    [startSession]
   )
 
   // Logout
@@ -388,6 +415,7 @@ export function useAuth() {
     isLoading: state.isLoading,
     isAuthenticated: state.isAuthenticated,
     login,
+    verifyTwoFactor,
     register,
     logout,
     getAuthHeader,
@@ -1,20 +1,25 @@
 import { useState, useEffect, useCallback, useRef } from "react"
 import { useAuth } from "./useAuth"
+import { useServerEvents, type ServerEvent } from "./useServerEvents"
 
 export interface BatchJob {
   id: number
   user_id: number
   name: string | null
-  status: "pending" | "processing" | "completed" | "failed" | "cancelled"
+  status: "pending" | "processing" | "paused" | "completed" | "failed" | "cancelled"
   total_count: number
   completed_count: number
   failed_count: number
   size: string
   style_preset: string | null
+  provider: string | null
   auto_sync_trmnl: number
+  matrix: PromptMatrix | null // Set for prompt matrix (variation sweep) batches
   created_at: string
   started_at: string | null
   completed_at: string | null
+  // Only returned for a single batch and by progress events
+  estimated_completion_at?: string | null
 }
 
 export interface BatchJobItem {
@@ -27,6 +32,32 @@ export interface BatchJobItem {
   created_at: string
   completed_at: string | null
   synced_to_trmnl: number // 0 = not synced, 1 = synced
+  // Per-item overrides from imported batches (null = batch setting)
+  size: string | null
+  style_preset: string | null
+  collection_id: number | null
+  device_id: number | null
+  picked: number // 1 = picked as a winner in the comparison grid
+  failure_reason: BatchFailureReason | null
+  retry_count: number
+}
+
+export type BatchFailureReason = "content_policy" | "plan_limit" | "rate_limit" | "network" | "invalid_size" | "other"
+
+export interface PromptMatrix {
+  basePrompt: string
+  phrases: string[][]
+  stylePresets: string[]
+  sizes: string[]
+}
+
+export interface CreateMatrixBatchInput {
+  name?: string
+  basePrompt: string
+  stylePresets: string[]
+  sizes: string[]
+  provider?: string
+  autoSyncTrmnl?: boolean
 }
 
 export interface BatchJobWithItems extends BatchJob {
@@ -35,12 +66,44 @@ export interface BatchJobWithItems extends BatchJob {
 
 export interface CreateBatchJobInput {
   name?: string
-  prompts: string[]
+  prompts?: string[]
+  // Imported rows with their own settings (instead of prompts)
+  items?: BatchImportRow[]
   size?: string
   stylePreset?: string
+  provider?: string
   autoSyncTrmnl?: boolean
 }
 
+// An imported row: empty fields use the batch setting; collection and device are an ID or name
+export interface BatchImportRow {
+  prompt: string
+  size: string
+  stylePreset: string
+  collection: string
+  device: string
+}
+
+export interface BatchImportRowError {
+  row: number // 1-based
+  field: keyof BatchImportRow
+  message: string
+}
+
+export interface BatchImportPreview {
+  rows: BatchImportRow[]
+  errors: BatchImportRowError[]
+  valid: boolean
+  maxRows: number
+}
+
+export interface BatchImportInput {
+  format?: "csv" | "json"
+  content?: string
+  rows?: BatchImportRow[]
+  provider?: string
+}
+
 export interface BatchStatus {
   id: number
   status: string
@@ -48,6 +111,7 @@ export interface BatchStatus {
   completed: number
   failed: number
   progress: number
+  estimatedCompletionAt: string | null
 }
 
 export interface BatchPagination {
@@ -67,10 +131,15 @@ interface UseBatchReturn {
   fetchBatches: (page?: number, limit?: number) => Promise<void>
   fetchBatch: (id: number) => Promise<BatchJobWithItems | null>
   createBatch: (input: CreateBatchJobInput) => Promise<BatchJob | null>
+  previewImport: (input: BatchImportInput) => Promise<BatchImportPreview | null>
+  createMatrixBatch: (input: CreateMatrixBatchInput) => Promise<BatchJob | null>
+  pickItem: (batchId: number, itemId: number, options: { favorite?: boolean; collectionId?: number }) => Promise<boolean>
   cancelBatch: (id: number) => Promise<boolean>
+  pauseBatch: (id: number) => Promise<boolean>
+  resumeBatch: (id: number) => Promise<boolean>
+  retryItems: (batchId: number, itemIds?: number[]) => Promise<boolean>
+  updateItemPrompt: (batchId: number, itemId: number, prompt: string) => Promise<boolean>
   deleteBatch: (id: number) => Promise<boolean>
-  pollStatus: (id: number, onUpdate?: (status: BatchStatus) => void) => void
-  stopPolling: () => void
   nextPage: () => Promise<void>
   prevPage: () => Promise<void>
   goToPage: (page: number) => Promise<void>
@@ -83,7 +152,18 @@ export function useBatch(): UseBatchReturn {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const { authFetch, isAuthenticated, isLoading: authLoading } = useAuth()
-  const pollIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  // The first "ready" event is the initial connection, when everything was just fetched
+  const hasConnectedRef = useRef(false)
+  const currentBatchIdRef = useRef<number | null>(null)
+  const pageRef = useRef<{ page: number; limit: number }>({ page: 1, limit: 10 })
+
+  useEffect(() => {
+    currentBatchIdRef.current = currentBatch?.id ?? null
+  }, [currentBatch?.id])
+
+  useEffect(() => {
+    if (pagination) pageRef.current = { page: pagination.page, limit: pagination.limit }
+  }, [pagination])
 
   const fetchBatches = useCallback(async (page: number = 1, limit: number = 10) => {
     // Don't fetch if not authenticated
@@ -170,6 +250,84 @@ export function useBatch(): UseBatchReturn {
     }
   }, [authFetch])
 
+  // Parse and validate an import file or edited rows; nothing is created
+  const previewImport = useCallback(async (input: BatchImportInput): Promise<BatchImportPreview | null> => {
+    setError(null)
+    try {
+      const response = await authFetch("/api/batch/import", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(input),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to read import file")
+      }
+      return data
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+      return null
+    }
+  }, [authFetch])
+
+  const createMatrixBatch = useCallback(async (input: CreateMatrixBatchInput): Promise<BatchJob | null> => {
+    setError(null)
+    try {
+      const response = await authFetch("/api/batch/matrix", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(input),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create matrix batch")
+      }
+
+      setBatches(prev => [data.batch, ...prev])
+      return data.batch
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+      return null
+    }
+  }, [authFetch])
+
+  // Pick a result as a winner: favorite its image and/or add it to a collection
+  const pickItem = useCallback(async (
+    batchId: number,
+    itemId: number,
+    options: { favorite?: boolean; collectionId?: number }
+  ): Promise<boolean> => {
+    setError(null)
+    try {
+      const response = await authFetch(`/api/batch/${batchId}/items/${itemId}/pick`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(options),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to pick image")
+      }
+
+      setCurrentBatch(prev => prev && prev.id === batchId
+        ? { ...prev, items: prev.items.map(item => (item.id === itemId ? data.item : item)) }
+        : prev)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+      return false
+    }
+  }, [authFetch])
+
   const cancelBatch = useCallback(async (id: number): Promise<boolean> => {
     setError(null)
     try {
@@ -196,6 +354,90 @@ export function useBatch(): UseBatchReturn {
     }
   }, [authFetch])
 
+  // Pause or resume a running batch
+  const setBatchPaused = useCallback(async (id: number, paused: boolean): Promise<boolean> => {
+    setError(null)
+    try {
+      const response = await authFetch(`/api/batch/${id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ action: paused ? "pause" : "resume" }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || `Failed to ${paused ? "pause" : "resume"} batch job`)
+      }
+
+      const status = paused ? "paused" as const : "processing" as const
+      setBatches(prev => prev.map(b => (b.id === id ? { ...b, status } : b)))
+      setCurrentBatch(prev => (prev && prev.id === id ? { ...prev, status } : prev))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+      return false
+    }
+  }, [authFetch])
+
+  const pauseBatch = useCallback((id: number) => setBatchPaused(id, true), [setBatchPaused])
+
+  const resumeBatch = useCallback((id: number) => setBatchPaused(id, false), [setBatchPaused])
+
+  // Retry failed items: all of them, or the given ones
+  const retryItems = useCallback(async (batchId: number, itemIds?: number[]): Promise<boolean> => {
+    setError(null)
+    try {
+      const response = await authFetch(`/api/batch/${batchId}/retry`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(itemIds ? { itemIds } : {}),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to retry batch items")
+      }
+
+      setCurrentBatch(data.batch)
+      setBatches(prev => prev.map(b => (b.id === batchId ? { ...b, ...data.batch } : b)))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+      return false
+    }
+  }, [authFetch])
+
+  // Edit a failed item's prompt before retrying it
+  const updateItemPrompt = useCallback(async (batchId: number, itemId: number, prompt: string): Promise<boolean> => {
+    setError(null)
+    try {
+      const response = await authFetch(`/api/batch/${batchId}/items/${itemId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ prompt }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update prompt")
+      }
+
+      setCurrentBatch(prev => prev && prev.id === batchId
+        ? { ...prev, items: prev.items.map(item => (item.id === itemId ? data.item : item)) }
+        : prev)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred")
+      return false
+    }
+  }, [authFetch])
+
   const deleteBatch = useCallback(async (id: number): Promise<boolean> => {
     setError(null)
     try {
@@ -215,64 +457,33 @@ export function useBatch(): UseBatchReturn {
     }
   }, [authFetch])
 
-  const stopPolling = useCallback(() => {
-    if (pollIntervalRef.current) {
-      clearInterval(pollIntervalRef.current)
-      pollIntervalRef.current = null
-    }
-  }, [])
-
-  const pollStatus = useCallback((id: number, onUpdate?: (status: BatchStatus) => void) => {
-    // Clear any existing polling
-    stopPolling()
-
-    const poll = async () => {
-      try {
-        const response = await authFetch(`/api/batch/${id}/status`)
-
-        if (!response.ok) {
-          stopPolling()
-          return
-        }
-
-        const status: BatchStatus = await response.json()
-        
-        if (onUpdate) {
-          onUpdate(status)
-        }
-
-        // Update batches list
-        setBatches(prev => prev.map(b => 
-          b.id === id ? { 
-            ...b, 
-            status: status.status as BatchJob["status"],
-            completed_count: status.completed,
-            failed_count: status.failed,
-          } : b
-        ))
-
-        // Stop polling if batch is done
-        if (status.status === "completed" || status.status === "failed" || status.status === "cancelled") {
-          stopPolling()
-          // Fetch full batch details
-          fetchBatch(id)
-        }
-      } catch (err) {
-        console.error("Error polling batch status:", err)
+  // Batch progress and finished items arrive over the server event stream instead of polling
+  const handleServerEvent = useCallback((event: ServerEvent) => {
+    if (event.type === "batch.progress") {
+      const update = {
+        status: event.status,
+        completed_count: event.completed,
+        failed_count: event.failed,
+        estimated_completion_at: event.estimatedCompletionAt,
       }
+      setBatches(prev => prev.map(b => b.id === event.batchId ? { ...b, ...update } : b))
+      setCurrentBatch(prev => prev && prev.id === event.batchId ? { ...prev, ...update } : prev)
+    } else if (event.type === "batch.item") {
+      setCurrentBatch(prev => prev && prev.id === event.batchId
+        ? { ...prev, items: prev.items.map(item => item.id === event.item.id ? event.item : item) }
+        : prev
+      )
+    } else if (event.type === "ready") {
+      // After a reconnect, catch up on events missed while disconnected
+      if (hasConnectedRef.current) {
+        fetchBatches(pageRef.current.page, pageRef.current.limit)
+        if (currentBatchIdRef.current) fetchBatch(currentBatchIdRef.current)
+      }
+      hasConnectedRef.current = true
     }
+  }, [fetchBatches, fetchBatch])
 
-    // Poll immediately and then every 3 seconds
-    poll()
-    pollIntervalRef.current = setInterval(poll, 3000)
-  }, [authFetch, stopPolling, fetchBatch])
-
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      stopPolling()
-    }
-  }, [stopPolling])
+  useServerEvents(handleServerEvent)
 
   // Fetch batches on mount (only after auth is loaded)
   useEffect(() => {
@@ -290,10 +501,15 @@ export function useBatch(): UseBatchReturn {
     fetchBatches,
     fetchBatch,
     createBatch,
+    previewImport,
+    createMatrixBatch,
+    pickItem,
     cancelBatch,
+    pauseBatch,
+    resumeBatch,
+    retryItems,
+    updateItemPrompt,
     deleteBatch,
-    pollStatus,
-    stopPolling,
     nextPage,
     prevPage,
     goToPage,
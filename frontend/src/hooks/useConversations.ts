@@ -0,0 +1,154 @@
+import { useState, useEffect, useCallback } from "react"
+import { useAuth } from "./useAuth"
+
+export interface Conversation {
+  id: number
+  title: string
+  messageCount: number
+  lastImageUrl: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ConversationMessage {
+  id: number
+  type: "user" | "assistant"
+  content: string
+  imageUrl: string | null
+  imageId: number | null
+  createdAt: string
+}
+
+export interface ConversationMessageInput {
+  type: "user" | "assistant"
+  content: string
+  imageUrl?: string
+  imageId?: number
+}
+
+export function useConversations() {
+  const { authFetch, isAuthenticated } = useAuth()
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  const fetchConversations = useCallback(async () => {
+    if (!isAuthenticated) return
+    setIsLoading(true)
+    try {
+      const response = await authFetch("/api/conversations")
+      if (response.ok) {
+        const data = await response.json()
+        setConversations(data.conversations || [])
+      }
+    } catch (err) {
+      console.error("Failed to fetch conversations:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [authFetch, isAuthenticated])
+
+  const getConversation = useCallback(async (id: number): Promise<{ conversation: Conversation; messages: ConversationMessage[] }> => {
+    const response = await authFetch(`/api/conversations/${id}`)
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to load conversation")
+    }
+
+    return data
+  }, [authFetch])
+
+  const createConversation = useCallback(async (messages: ConversationMessageInput[], title?: string): Promise<Conversation> => {
+    const response = await authFetch("/api/conversations", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ title, messages }),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to save conversation")
+    }
+
+    const created: ConversationMessage[] = data.messages || []
+    const conversation: Conversation = {
+      ...data.conversation,
+      messageCount: created.length,
+      lastImageUrl: [...created].reverse().find(m => m.type === "assistant" && m.imageUrl)?.imageUrl ?? null,
+    }
+    setConversations(prev => [conversation, ...prev])
+    return conversation
+  }, [authFetch])
+
+  const appendMessages = useCallback(async (id: number, messages: ConversationMessageInput[]): Promise<ConversationMessage[]> => {
+    const response = await authFetch(`/api/conversations/${id}/messages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ messages }),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to save messages")
+    }
+
+    const created: ConversationMessage[] = data.messages || []
+    const lastImageUrl = [...created].reverse().find(m => m.type === "assistant" && m.imageUrl)?.imageUrl
+    // Most recently active conversation moves to the top
+    setConversations(prev => {
+      const existing = prev.find(c => c.id === id)
+      if (!existing) return prev
+      const updated = {
+        ...existing,
+        messageCount: existing.messageCount + created.length,
+        lastImageUrl: lastImageUrl ?? existing.lastImageUrl,
+        updatedAt: new Date().toISOString(),
+      }
+      return [updated, ...prev.filter(c => c.id !== id)]
+    })
+    return created
+  }, [authFetch])
+
+  const renameConversation = useCallback(async (id: number, title: string): Promise<void> => {
+    const response = await authFetch(`/api/conversations/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ title }),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to rename conversation")
+    }
+
+    setConversations(prev => prev.map(c => c.id === id ? { ...c, title: data.conversation.title } : c))
+  }, [authFetch])
+
+  const deleteConversation = useCallback(async (id: number): Promise<void> => {
+    const response = await authFetch(`/api/conversations/${id}`, {
+      method: "DELETE",
+    })
+
+    if (!response.ok) {
+      const data = await response.json()
+      throw new Error(data.error || "Failed to delete conversation")
+    }
+
+    setConversations(prev => prev.filter(c => c.id !== id))
+  }, [authFetch])
+
+  useEffect(() => {
+    fetchConversations()
+  }, [fetchConversations])
+
+  return {
+    conversations,
+    isLoading,
+    fetchConversations,
+    getConversation,
+    createConversation,
+    appendMessages,
+    renameConversation,
+    deleteConversation,
+  }
+}
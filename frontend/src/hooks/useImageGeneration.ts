@@ -1,6 +1,7 @@
-import { useState } from "react"
+import { useCallback, useRef, useState } from "react"
 import type { Language } from "./useLanguage"
 import { useAuth } from "./useAuth"
+import { useServerEvents, type GenerationStage, type ServerEvent } from "./useServerEvents"
 
 interface GeneratedImage {
   url?: string
@@ -19,41 +20,48 @@ interface AuthHeaders {
   Authorization?: string
 }
 
-// Style presets that modify the prompt for different visual styles
-export type ImageStylePreset = 
-  | "none"
-  | "photorealistic"
-  | "anime"
-  | "watercolor"
-  | "oil-painting"
-  | "pixel-art"
-  | "3d-render"
-  | "sketch"
-  | "pop-art"
-  | "minimalist"
-  | "cinematic"
+// Style preset key: a built-in slug ("anime") or a stored preset ("custom:<id>")
+export type ImageStylePreset = string
 
 interface GenerateImageOptions {
   prompt: string
   language?: Language
   size?: "1024x1024" | "1792x1024" | "1024x1792"
   stylePreset?: ImageStylePreset
+  provider?: string
+  negativePrompt?: string
 }
 
 interface UseImageGenerationReturn {
   generateImage: (options: GenerateImageOptions) => Promise<ImageGenerationResponse>
   isLoading: boolean
   error: string | null
+  // Stage of the request in flight, pushed by the server; null before the first update
+  progress: GenerationStage | null
 }
 
 export function useImageGeneration(): UseImageGenerationReturn {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [progress, setProgress] = useState<GenerationStage | null>(null)
   const { authFetch } = useAuth()
+  const requestIdRef = useRef<string | null>(null)
 
-  const generateImage = async ({ prompt, language, size = "1024x1024", stylePreset = "none" }: GenerateImageOptions): Promise<ImageGenerationResponse> => {
+  const handleServerEvent = useCallback((event: ServerEvent) => {
+    if (event.type === "generation.progress" && event.requestId === requestIdRef.current) {
+      setProgress(event.stage)
+    }
+  }, [])
+
+  useServerEvents(handleServerEvent)
+
+  const generateImage = async ({ prompt, language, size = "1024x1024", stylePreset = "none", provider, negativePrompt }: GenerateImageOptions): Promise<ImageGenerationResponse> => {
+    // Matches this request's progress events; crypto.randomUUID needs a secure context
+    const requestId = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`
+    requestIdRef.current = requestId
     setIsLoading(true)
     setError(null)
+    setProgress(null)
 
     try {
       const response = await authFetch("/api/images/generate", {
@@ -66,8 +74,11 @@ export function useImageGeneration(): UseImageGenerationReturn {
           language,
           model: "dall-e-3",
           size,
-          quality: "standard",
+          // Quality comes from the style preset, or the provider's default
           stylePreset,
+          provider,
+          negativePrompt: negativePrompt || undefined,
+          requestId,
         }),
       })
 
@@ -83,9 +94,13 @@ export function useImageGeneration(): UseImageGenerationReturn {
       setError(message)
       throw err
     } finally {
+      if (requestIdRef.current === requestId) {
+        requestIdRef.current = null
+        setProgress(null)
+      }
       setIsLoading(false)
     }
   }
 
-  return { generateImage, isLoading, error }
+  return { generateImage, isLoading, error, progress }
 }
@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from "react"
+import { useAuth } from "./useAuth"
+
+export interface ImageProviderCapabilities {
+  sizes: string[]
+  edit: boolean
+  variation: boolean
+  negativePrompt: boolean
+}
+
+export interface ImageProvider {
+  id: string
+  name: string
+  model: string
+  capabilities: ImageProviderCapabilities
+}
+
+export function useImageProviders() {
+  const { authFetch, isAuthenticated } = useAuth()
+  const [providers, setProviders] = useState<ImageProvider[]>([])
+  const [defaultProvider, setDefaultProvider] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const fetchProviders = useCallback(async () => {
+    if (!isAuthenticated) return
+    setIsLoading(true)
+    try {
+      const response = await authFetch("/api/images/providers")
+      if (response.ok) {
+        const data = await response.json()
+        setProviders(data.providers || [])
+        setDefaultProvider(data.defaultProvider || null)
+      }
+    } catch (err) {
+      console.error("Failed to fetch image providers:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [authFetch, isAuthenticated])
+
+  // Falls back to the server default when no provider is chosen
+  const getProvider = useCallback((id?: string | null): ImageProvider | undefined => {
+    return providers.find(p => p.id === (id || defaultProvider))
+  }, [providers, defaultProvider])
+
+  useEffect(() => {
+    fetchProviders()
+  }, [fetchProviders])
+
+  return {
+    providers,
+    defaultProvider,
+    isLoading,
+    fetchProviders,
+    getProvider,
+  }
+}
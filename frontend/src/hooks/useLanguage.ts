@@ -13,6 +13,7 @@ export const translations = {
     generate: "Generate",
     generating: "Generating...",
     generatingImage: "Generating image",
+    savingImage: "Saving image",
     editingImage: "Editing image...",
     newChat: "New chat",
     openFullSize: "Open Full Size",
@@ -23,6 +24,9 @@ export const translations = {
     selectAll: "Select All",
     syncSelected: "Sync",
     noDevicesConfigured: "No devices configured",
+    einkPreview: "Preview on TRMNL",
+    einkPreviewLoading: "Rendering...",
+    showOriginal: "Show original",
     share: "Share",
     sharing: "Creating link...",
     shareSuccess: "Link ready!",
@@ -50,6 +54,9 @@ export const translations = {
     sizeLandscape: "Landscape",
     sizePortrait: "Portrait",
     imageStyle: "Style",
+    imageProvider: "Provider",
+    providerDefault: "Server default",
+    negativePromptPlaceholder: "Negative prompt (things to avoid)...",
     styleNone: "None",
     stylePhotorealistic: "Photorealistic",
     styleAnime: "Anime",
@@ -78,6 +85,14 @@ export const translations = {
         noAccount: "Don't have an account?",
         signUp: "Sign up",
         forgotPassword: "Forgot password?",
+        twoFactorTitle: "Two-factor authentication",
+        twoFactorSubtitle: "Enter the 6-digit code from your authenticator app, or one of your recovery codes",
+        codeLabel: "Verification code",
+        codePlaceholder: "123456",
+        rememberDevice: "Remember this device for 30 days",
+        verifyButton: "Verify",
+        verifying: "Verifying...",
+        backToLogin: "Back to sign in",
       },
       register: {
         title: "Create account",
@@ -159,6 +174,31 @@ export const translations = {
         webhookUrl: "Webhook URL",
         copyWebhook: "Copy",
         copied: "Copied!",
+        einkTitle: "E-ink Rendering",
+        ditherLabel: "Dithering",
+        ditherFloydSteinberg: "Floyd–Steinberg",
+        ditherAtkinson: "Atkinson",
+        ditherOrdered: "Ordered (Bayer)",
+        ditherNone: "None (threshold)",
+        bitDepthLabel: "Gray Levels",
+        bitDepth1: "1-bit (black & white)",
+        bitDepth2: "2-bit (4 grays)",
+        orientationLabel: "Orientation",
+        orientationLandscape: "Landscape",
+        orientationPortrait: "Portrait",
+        orientationLandscapeFlipped: "Landscape (flipped)",
+        orientationPortraitFlipped: "Portrait (flipped)",
+        fitLabel: "Image Fit",
+        fitCover: "Crop to fill",
+        fitContain: "Fit whole image",
+        preview: "Preview",
+        previewNote: "Renders your latest synced image with these settings",
+        previewUnavailable: "Sync an image first to preview it here",
+        previewError: "Failed to render preview",
+        pollingUrl: "Polling URL",
+        rotateToken: "Rotate polling token",
+        rotateTokenConfirm: "Rotate this device's polling token? The current polling URL will stop working and the plugin must be updated.",
+        downloadPluginSettings: "Download settings.yml",
       },
       changePassword: {
         title: "Change Password",
@@ -191,6 +231,13 @@ export const translations = {
       priceValue: "$6.53/month (incl. GST)",
       nextBillingDate: "Next billing date",
       totalOrders: "Total orders:",
+      usageTitle: "This month's usage",
+      usageImages: "Images",
+      usageTranscriptions: "Speech input",
+      usageRemaining: "{remaining} of {limit} left",
+      usageNotIncluded: "Not included",
+      usageResets: "Resets on {date}",
+      viewUsage: "View usage details",
       cancelSubscription: "Cancel Subscription",
       keepSubscription: "Keep Subscription",
       yesCancel: "Yes, Cancel",
@@ -229,6 +276,37 @@ export const translations = {
         },
       },
     },
+    usage: {
+      title: "Usage",
+      subtitle: "What your generations used each month",
+      requests: "Requests",
+      images: "Images",
+      tokens: "Text tokens",
+      audio: "Speech audio",
+      estimatedCost: "Estimated cost",
+      costNote: "Estimated from OpenAI list prices. It isn't what you're billed.",
+      bySource: "By source",
+      recent: "Activity",
+      empty: "No usage in this month",
+      seconds: "{count}s",
+      pageOf: "Page {page} of {total}",
+      previous: "Previous",
+      next: "Next",
+      sources: {
+        chat: "Chat",
+        infographic: "Infographics",
+        batch: "Batch",
+        schedule: "Schedules",
+        suggestions: "Suggestions",
+      },
+      operations: {
+        image_generation: "Image",
+        image_edit: "Image edit",
+        image_variation: "Image variation",
+        chat_completion: "Text",
+        transcription: "Speech input",
+      },
+    },
     orders: {
       title: "My Orders",
       orderCount: "{count} order",
@@ -364,6 +442,9 @@ export const translations = {
       bulkDelete: "Delete Selected",
       bulkExport: "Export Selected",
       bulkShare: "Share Selected",
+      bulkPlayOnDevice: "Play on TRMNL",
+      bulkPlayOnDeviceSuccess: "Playlist of {count} images set on {device}",
+      bulkPlayOnDeviceNoDevice: "Add a TRMNL device in Settings first",
       deleting: "Deleting...",
       bulkDeleteConfirm: "Delete {count} images?",
       bulkDeleteSuccess: "{count} images deleted",
@@ -385,6 +466,16 @@ export const translations = {
       once: "Once",
       daily: "Daily",
       weekly: "Weekly",
+      cron: "Cron",
+      interval: "Interval",
+      cronExpression: "Cron expression",
+      cronHint: "minute hour day month weekday, evaluated in your timezone. Separate multiple rules with ; (e.g. 0 7 * * 1-5; 30 12 * * 1-5 for weekdays at 7:00 and 12:30).",
+      intervalEvery: "Run every",
+      minutes: "minutes",
+      hours: "hours",
+      everyInterval: "Every {interval}",
+      upcomingRuns: "Upcoming runs",
+      templateHint: "Variables: {{date}} {{weekday}} {{month}} {{season}} {{time_of_day}} {{holiday}} {{random:a|b}} {{list:name}}",
       scheduleTime: "Time",
       scheduleDays: "Days",
       scheduledAt: "Date & Time",
@@ -443,6 +534,37 @@ export const translations = {
       batchesProcessing: "batches are being processed...",
       duplicateBatch: "Duplicate Batch",
       syncedToTrmnl: "Synced to TRMNL",
+      estimatedCompletion: "Estimated completion",
+      import: "Import",
+      importBatch: "Import Batch",
+      importFile: "CSV or JSON file",
+      importHint: "Columns: prompt, size, style, collection, device. Empty cells use the batch defaults; collections and devices can be given by name or ID.",
+      collection: "Collection",
+      device: "Device",
+      useDefault: "Default",
+      checkRows: "Check Rows",
+      importErrors: "problems to fix before starting",
+      matrix: "Matrix",
+      matrixBatch: "Prompt Matrix",
+      basePrompt: "Base Prompt",
+      matrixHint: "Write alternatives as {cat|dog}; every combination is generated.",
+      matrixImages: "images",
+      compare: "Compare",
+      pickFavorite: "Pick and favorite",
+      pickCollection: "Pick and add to collection",
+      paused: "Paused",
+      pause: "Pause",
+      resume: "Resume",
+      retry: "Retry",
+      retryFailed: "Retry failed",
+      editPrompt: "Edit prompt",
+      saveAndRetry: "Save and retry",
+      reasonContentPolicy: "Content policy",
+      reasonPlanLimit: "Plan limit",
+      reasonRateLimit: "Rate limit",
+      reasonNetwork: "Network",
+      reasonInvalidSize: "Invalid size",
+      reasonOther: "Other",
     },
     collections: {
       title: "Collections",
@@ -466,6 +588,125 @@ export const translations = {
       save: "Save",
       cancel: "Cancel",
     },
+    // Device playlists
+    conversations: {
+      title: "Conversations",
+      show: "Show conversations",
+      hide: "Hide conversations",
+      empty: "No saved conversations yet",
+      rename: "Rename",
+      delete: "Delete conversation",
+      deleteConfirm: "Delete this conversation? Images stay in your gallery.",
+      messages: "messages",
+      refine: "Refine",
+      loadError: "Failed to load conversation",
+      saveError: "Couldn't save this message to your history",
+    },
+    promptLists: {
+      title: "Prompt lists",
+      description: "Named lists for prompt templates. {{list:name}} picks a random item each time a schedule runs. One item per line.",
+      namePlaceholder: "animals",
+      itemsPlaceholder: "fox\nowl\nbear",
+      create: "Add list",
+      save: "Save",
+      delete: "Delete list",
+      deleteConfirm: "Delete this list? Schedules that use it will fail until it is recreated.",
+      saveError: "Failed to save list",
+    },
+    notifications: {
+      title: "Notifications",
+      description: "Choose how you hear about finished batches, failing schedules, payment problems and shipped orders.",
+      event: "Event",
+      channels: { push: "Push", email: "Email" },
+      events: {
+        batch_finished: "Batch finished",
+        schedule_failing: "Schedule failed 3 times in a row",
+        subscription_past_due: "Subscription payment failed",
+        order_shipped: "Order shipped",
+      },
+      enablePush: "Enable push",
+      disablePush: "Disable push",
+      pushEnabled: "Push notifications are on for this browser.",
+      pushDisabled: "Push notifications are off for this browser.",
+      pushDenied: "Notifications are blocked for this site in your browser settings.",
+      pushUnsupported: "This browser doesn't support push notifications.",
+      pushUnconfigured: "Push notifications aren't set up on this server. Email still works.",
+      saveError: "Failed to update notifications",
+    },
+    twoFactor: {
+      title: "Two-factor authentication",
+      description: "Ask for a code from an authenticator app (Google Authenticator, 1Password, Authy...) when signing in.",
+      enabled: "On since {date}. {count} recovery codes left.",
+      disabled: "Off. Signing in only needs your password.",
+      enable: "Set up",
+      passwordLabel: "Confirm your password",
+      continue: "Continue",
+      scanQr: "Scan this QR code with your authenticator app, or enter the key by hand:",
+      codeLabel: "Code from the app",
+      confirm: "Turn on",
+      cancel: "Cancel",
+      recoveryCodesTitle: "Recovery codes",
+      recoveryCodesDescription: "Each code signs you in once if you lose your phone. Save them somewhere safe - they won't be shown again.",
+      copyCodes: "Copy codes",
+      copied: "Copied",
+      done: "I've saved them",
+      regenerate: "New recovery codes",
+      regenerateDescription: "Enter a code from your app to replace your recovery codes. The old ones stop working.",
+      disable: "Turn off",
+      disableDescription: "Enter your password and a code from your app (or a recovery code) to turn off two-factor authentication.",
+      error: "Two-factor request failed",
+    },
+    stylePresets: {
+      title: "Style presets",
+      description: "Your own styles for chat, batch and scheduled generation. Shared presets can be used by everyone.",
+      namePlaceholder: "Preset name",
+      prefixPlaceholder: "Prompt prefix (e.g. Film noir still of)",
+      suffixPlaceholder: "Prompt suffix (e.g. high contrast, grainy)",
+      negativePlaceholder: "Negative terms (providers that support them)",
+      anySize: "Any size",
+      defaultQuality: "Default quality",
+      qualityStandard: "Standard",
+      qualityHd: "HD",
+      defaultStyle: "Default style",
+      styleVivid: "Vivid",
+      styleNatural: "Natural",
+      private: "Private",
+      shared: "Shared",
+      global: "Global",
+      available: "Also available",
+      create: "Add preset",
+      save: "Save",
+      delete: "Delete preset",
+      deleteConfirm: "Delete this preset? Batches and schedules that use it will fail until you pick another style.",
+      saveError: "Failed to save preset",
+      custom: "Custom presets",
+    },
+    playlist: {
+      title: "Playlist",
+      description: "Rotate gallery images on this device each time it refreshes",
+      none: "No playlist - shows the last synced image",
+      source: "Source",
+      sourceCollection: "Collection",
+      sourceImages: "Hand-picked images",
+      selectCollection: "Select a collection",
+      mode: "Order",
+      modeSequential: "In order",
+      modeShuffle: "Shuffle",
+      modeWeighted: "Shuffle, favor favorites",
+      dwell: "Show each image for (minutes)",
+      enabled: "Rotation enabled",
+      imageCount: "{count} images",
+      noImages: "Select images in the Gallery and choose \"Play on TRMNL\" to build a hand-picked list.",
+      moveUp: "Move up",
+      moveDown: "Move down",
+      removeImage: "Remove from playlist",
+      save: "Save Playlist",
+      remove: "Remove Playlist",
+      removeConfirm: "Remove this device's playlist? The current image stays on screen.",
+      saved: "Playlist saved",
+      saveError: "Failed to save playlist",
+      pollingNote: "The next image is picked when TRMNL polls this device's polling URL.",
+    },
     // Keyboard Shortcuts
     shortcuts: {
       title: "Keyboard Shortcuts",
@@ -507,6 +748,7 @@ export const translations = {
     generate: "生成",
     generating: "生成中...",
     generatingImage: "正在生成图像",
+    savingImage: "正在保存图像",
     editingImage: "正在编辑图像...",
     newChat: "新对话",
     openFullSize: "查看原图",
@@ -517,6 +759,9 @@ export const translations = {
     selectAll: "全选",
     syncSelected: "同步",
     noDevicesConfigured: "未配置设备",
+    einkPreview: "TRMNL 效果预览",
+    einkPreviewLoading: "渲染中...",
+    showOriginal: "显示原图",
     share: "分享",
     sharing: "创建链接...",
     shareSuccess: "链接已就绪！",
@@ -544,6 +789,9 @@ export const translations = {
     sizeLandscape: "横版",
     sizePortrait: "竖版",
     imageStyle: "风格",
+    imageProvider: "模型服务",
+    providerDefault: "服务器默认",
+    negativePromptPlaceholder: "反向提示词（需要避免的内容）...",
     styleNone: "无",
     stylePhotorealistic: "写实",
     styleAnime: "动漫",
@@ -572,6 +820,14 @@ export const translations = {
         noAccount: "还没有账户？",
         signUp: "注册",
         forgotPassword: "忘记密码？",
+        twoFactorTitle: "两步验证",
+        twoFactorSubtitle: "输入身份验证器应用中的 6 位验证码，或一个恢复码",
+        codeLabel: "验证码",
+        codePlaceholder: "123456",
+        rememberDevice: "在此设备上 30 天内免验证",
+        verifyButton: "验证",
+        verifying: "验证中...",
+        backToLogin: "返回登录",
       },
       register: {
         title: "创建账户",
@@ -653,6 +909,31 @@ export const translations = {
         webhookUrl: "Webhook URL",
         copyWebhook: "复制",
         copied: "已复制！",
+        einkTitle: "墨水屏渲染",
+        ditherLabel: "抖动算法",
+        ditherFloydSteinberg: "Floyd–Steinberg",
+        ditherAtkinson: "Atkinson",
+        ditherOrdered: "有序抖动 (Bayer)",
+        ditherNone: "无 (阈值)",
+        bitDepthLabel: "灰度级别",
+        bitDepth1: "1 位 (黑白)",
+        bitDepth2: "2 位 (4 级灰度)",
+        orientationLabel: "方向",
+        orientationLandscape: "横向",
+        orientationPortrait: "纵向",
+        orientationLandscapeFlipped: "横向 (翻转)",
+        orientationPortraitFlipped: "纵向 (翻转)",
+        fitLabel: "图像适配",
+        fitCover: "裁剪填充",
+        fitContain: "完整显示",
+        preview: "预览",
+        previewNote: "使用这些设置渲染您最近同步的图像",
+        previewUnavailable: "请先同步一张图像以在此预览",
+        previewError: "预览渲染失败",
+        pollingUrl: "轮询 URL",
+        rotateToken: "轮换轮询令牌",
+        rotateTokenConfirm: "确定要轮换此设备的轮询令牌吗？当前轮询 URL 将失效，需要更新插件设置。",
+        downloadPluginSettings: "下载 settings.yml",
       },
       changePassword: {
         title: "修改密码",
@@ -685,6 +966,13 @@ export const translations = {
       priceValue: "$6.53/月 (含消费税)",
       nextBillingDate: "下次计费日期",
       totalOrders: "订单总数：",
+      usageTitle: "本月用量",
+      usageImages: "图片",
+      usageTranscriptions: "语音输入",
+      usageRemaining: "剩余 {remaining} / {limit}",
+      usageNotIncluded: "未包含",
+      usageResets: "{date} 重置",
+      viewUsage: "查看用量明细",
       cancelSubscription: "取消订阅",
       keepSubscription: "保留订阅",
       yesCancel: "确认取消",
@@ -723,6 +1011,37 @@ export const translations = {
         },
       },
     },
+    usage: {
+      title: "用量",
+      subtitle: "每月生成所用的资源",
+      requests: "请求数",
+      images: "图片",
+      tokens: "文本 Token",
+      audio: "语音时长",
+      estimatedCost: "预估费用",
+      costNote: "按 OpenAI 公开价格估算，并非实际账单金额。",
+      bySource: "按来源",
+      recent: "明细",
+      empty: "本月暂无用量",
+      seconds: "{count} 秒",
+      pageOf: "第 {page} / {total} 页",
+      previous: "上一页",
+      next: "下一页",
+      sources: {
+        chat: "对话",
+        infographic: "信息图",
+        batch: "批量",
+        schedule: "定时",
+        suggestions: "提示建议",
+      },
+      operations: {
+        image_generation: "图片",
+        image_edit: "图片编辑",
+        image_variation: "图片变体",
+        chat_completion: "文本",
+        transcription: "语音输入",
+      },
+    },
     orders: {
       title: "我的订单",
       orderCount: "{count} 个订单",
@@ -858,6 +1177,9 @@ export const translations = {
       bulkDelete: "删除所选",
       bulkExport: "导出所选",
       bulkShare: "分享所选",
+      bulkPlayOnDevice: "在 TRMNL 上播放",
+      bulkPlayOnDeviceSuccess: "已在 {device} 上设置 {count} 张图片的播放列表",
+      bulkPlayOnDeviceNoDevice: "请先在设置中添加 TRMNL 设备",
       deleting: "删除中...",
       bulkDeleteConfirm: "删除 {count} 张图片？",
       bulkDeleteSuccess: "已删除 {count} 张图片",
@@ -879,6 +1201,16 @@ export const translations = {
       once: "一次性",
       daily: "每天",
       weekly: "每周",
+      cron: "Cron",
+      interval: "间隔",
+      cronExpression: "Cron 表达式",
+      cronHint: "分 时 日 月 星期，按您的时区计算。多条规则用 ; 分隔（例如 0 7 * * 1-5; 30 12 * * 1-5 表示工作日 7:00 和 12:30）。",
+      intervalEvery: "每隔",
+      minutes: "分钟",
+      hours: "小时",
+      everyInterval: "每 {interval}",
+      upcomingRuns: "即将运行",
+      templateHint: "变量：{{date}} {{weekday}} {{month}} {{season}} {{time_of_day}} {{holiday}} {{random:a|b}} {{list:名称}}",
       scheduleTime: "时间",
       scheduleDays: "日期",
       scheduledAt: "日期和时间",
@@ -937,6 +1269,37 @@ export const translations = {
       batchesProcessing: "个批量任务正在处理中...",
       duplicateBatch: "复制批量任务",
       syncedToTrmnl: "已同步到 TRMNL",
+      estimatedCompletion: "预计完成时间",
+      import: "导入",
+      importBatch: "导入批量任务",
+      importFile: "CSV 或 JSON 文件",
+      importHint: "列：prompt、size、style、collection、device。空白单元格使用批量默认设置；合集和设备可以填写名称或 ID。",
+      collection: "合集",
+      device: "设备",
+      useDefault: "默认",
+      checkRows: "检查行",
+      importErrors: "个问题需要在开始前修复",
+      matrix: "矩阵",
+      matrixBatch: "提示词矩阵",
+      basePrompt: "基础提示词",
+      matrixHint: "用 {cat|dog} 写出可选项，将生成所有组合。",
+      matrixImages: "张图片",
+      compare: "对比",
+      pickFavorite: "选中并收藏",
+      pickCollection: "选中并加入合集",
+      paused: "已暂停",
+      pause: "暂停",
+      resume: "继续",
+      retry: "重试",
+      retryFailed: "重试失败项",
+      editPrompt: "编辑提示词",
+      saveAndRetry: "保存并重试",
+      reasonContentPolicy: "内容政策",
+      reasonPlanLimit: "套餐限制",
+      reasonRateLimit: "频率限制",
+      reasonNetwork: "网络",
+      reasonInvalidSize: "尺寸无效",
+      reasonOther: "其他",
     },
     collections: {
       title: "合集",
@@ -960,6 +1323,125 @@ export const translations = {
       save: "保存",
       cancel: "取消",
     },
+    // Device playlists
+    conversations: {
+      title: "对话记录",
+      show: "显示对话记录",
+      hide: "隐藏对话记录",
+      empty: "暂无保存的对话",
+      rename: "重命名",
+      delete: "删除对话",
+      deleteConfirm: "删除此对话？图片仍会保留在图库中。",
+      messages: "条消息",
+      refine: "继续修改",
+      loadError: "加载对话失败",
+      saveError: "无法将此消息保存到历史记录",
+    },
+    promptLists: {
+      title: "提示词列表",
+      description: "用于提示词模板的命名列表。每次任务运行时 {{list:名称}} 会随机选取一项。每行一项。",
+      namePlaceholder: "animals",
+      itemsPlaceholder: "狐狸\n猫头鹰\n熊",
+      create: "添加列表",
+      save: "保存",
+      delete: "删除列表",
+      deleteConfirm: "删除此列表？使用它的任务在重新创建前将运行失败。",
+      saveError: "保存列表失败",
+    },
+    notifications: {
+      title: "通知",
+      description: "选择批量完成、定时任务失败、付款问题和订单发货时的通知方式。",
+      event: "事件",
+      channels: { push: "推送", email: "邮件" },
+      events: {
+        batch_finished: "批量任务完成",
+        schedule_failing: "定时任务连续失败 3 次",
+        subscription_past_due: "订阅付款失败",
+        order_shipped: "订单已发货",
+      },
+      enablePush: "开启推送",
+      disablePush: "关闭推送",
+      pushEnabled: "此浏览器已开启推送通知。",
+      pushDisabled: "此浏览器未开启推送通知。",
+      pushDenied: "浏览器设置已阻止本站的通知。",
+      pushUnsupported: "此浏览器不支持推送通知。",
+      pushUnconfigured: "服务器未配置推送通知，邮件通知仍可使用。",
+      saveError: "更新通知设置失败",
+    },
+    twoFactor: {
+      title: "两步验证",
+      description: "登录时需要输入身份验证器应用（Google Authenticator、1Password、Authy 等）中的验证码。",
+      enabled: "自 {date} 起已开启，剩余 {count} 个恢复码。",
+      disabled: "未开启，登录只需密码。",
+      enable: "设置",
+      passwordLabel: "确认您的密码",
+      continue: "继续",
+      scanQr: "用身份验证器应用扫描此二维码，或手动输入密钥：",
+      codeLabel: "应用中的验证码",
+      confirm: "开启",
+      cancel: "取消",
+      recoveryCodesTitle: "恢复码",
+      recoveryCodesDescription: "手机丢失时，每个恢复码可登录一次。请妥善保存，它们不会再次显示。",
+      copyCodes: "复制恢复码",
+      copied: "已复制",
+      done: "我已保存",
+      regenerate: "生成新的恢复码",
+      regenerateDescription: "输入应用中的验证码以替换恢复码，旧的恢复码将失效。",
+      disable: "关闭",
+      disableDescription: "输入密码和应用中的验证码（或恢复码）以关闭两步验证。",
+      error: "两步验证请求失败",
+    },
+    stylePresets: {
+      title: "风格预设",
+      description: "用于聊天、批量和定时生成的自定义风格。共享的预设所有用户都可以使用。",
+      namePlaceholder: "预设名称",
+      prefixPlaceholder: "提示词前缀（如：黑色电影剧照）",
+      suffixPlaceholder: "提示词后缀（如：高对比度、颗粒感）",
+      negativePlaceholder: "反向提示词（仅支持的服务商）",
+      anySize: "任意尺寸",
+      defaultQuality: "默认质量",
+      qualityStandard: "标准",
+      qualityHd: "高清",
+      defaultStyle: "默认风格",
+      styleVivid: "鲜艳",
+      styleNatural: "自然",
+      private: "私有",
+      shared: "共享",
+      global: "全局",
+      available: "其他可用预设",
+      create: "添加预设",
+      save: "保存",
+      delete: "删除预设",
+      deleteConfirm: "删除此预设？使用它的批量任务和定时任务在选择其他风格前将运行失败。",
+      saveError: "保存预设失败",
+      custom: "自定义预设",
+    },
+    playlist: {
+      title: "播放列表",
+      description: "设备每次刷新时轮换显示图库中的图片",
+      none: "无播放列表 - 显示最后同步的图片",
+      source: "来源",
+      sourceCollection: "合集",
+      sourceImages: "手动选择的图片",
+      selectCollection: "选择合集",
+      mode: "顺序",
+      modeSequential: "按顺序",
+      modeShuffle: "随机",
+      modeWeighted: "随机，优先收藏",
+      dwell: "每张图片显示时长（分钟）",
+      enabled: "启用轮换",
+      imageCount: "{count} 张图片",
+      noImages: "在图库中选择图片并点击“在 TRMNL 上播放”来创建手动列表。",
+      moveUp: "上移",
+      moveDown: "下移",
+      removeImage: "从播放列表移除",
+      save: "保存播放列表",
+      remove: "移除播放列表",
+      removeConfirm: "移除此设备的播放列表？当前图片将保留在屏幕上。",
+      saved: "播放列表已保存",
+      saveError: "保存播放列表失败",
+      pollingNote: "TRMNL 轮询此设备的轮询 URL 时会选择下一张图片。",
+    },
     // Keyboard Shortcuts
     shortcuts: {
       title: "键盘快捷键",
@@ -0,0 +1,135 @@
+import { useState, useEffect, useCallback } from "react"
+import { useAuth } from "./useAuth"
+
+export type NotificationEvent = "batch_finished" | "schedule_failing" | "subscription_past_due" | "order_shipped"
+export type NotificationChannel = "push" | "email"
+export type NotificationPreferences = Record<NotificationEvent, Record<NotificationChannel, boolean>>
+
+// unconfigured: the server has no VAPID keys; denied: the browser blocked notifications
+export type PushState = "unsupported" | "unconfigured" | "denied" | "disabled" | "enabled"
+
+const isPushSupported = () =>
+  "serviceWorker" in navigator && "PushManager" in window && "Notification" in window
+
+// VAPID public key (base64url) -> applicationServerKey
+function toApplicationServerKey(base64Url: string): Uint8Array<ArrayBuffer> {
+  const base64 = (base64Url + "=".repeat((4 - base64Url.length % 4) % 4)).replace(/-/g, "+").replace(/_/g, "/")
+  const raw = atob(base64)
+  const bytes = new Uint8Array(raw.length)
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i)
+  return bytes
+}
+
+async function getPushSubscription(): Promise<PushSubscription | null> {
+  const registration = await navigator.serviceWorker.getRegistration()
+  return registration ? registration.pushManager.getSubscription() : null
+}
+
+export function useNotifications() {
+  const { authFetch, isAuthenticated } = useAuth()
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null)
+  const [publicKey, setPublicKey] = useState<string | null>(null)
+  const [pushState, setPushState] = useState<PushState>("disabled")
+  const [isLoading, setIsLoading] = useState(false)
+
+  const fetchPreferences = useCallback(async () => {
+    if (!isAuthenticated) return
+    setIsLoading(true)
+    try {
+      const response = await authFetch("/api/notifications/preferences")
+      if (!response.ok) return
+      const data = await response.json()
+      setPreferences(data.preferences)
+      setPublicKey(data.push?.publicKey || null)
+
+      if (!isPushSupported()) {
+        setPushState("unsupported")
+      } else if (!data.push?.publicKey) {
+        setPushState("unconfigured")
+      } else if (Notification.permission === "denied") {
+        setPushState("denied")
+      } else {
+        setPushState(await getPushSubscription() ? "enabled" : "disabled")
+      }
+    } catch (err) {
+      console.error("Failed to fetch notification preferences:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [authFetch, isAuthenticated])
+
+  const updatePreference = useCallback(async (event: NotificationEvent, channel: NotificationChannel, enabled: boolean) => {
+    const response = await authFetch("/api/notifications/preferences", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ preferences: { [event]: { [channel]: enabled } } }),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to update notification preferences")
+    }
+
+    setPreferences(data.preferences)
+  }, [authFetch])
+
+  // Ask for permission, subscribe this browser and register it with the server
+  const enablePush = useCallback(async () => {
+    if (!publicKey) return
+
+    const permission = await Notification.requestPermission()
+    if (permission !== "granted") {
+      setPushState(permission === "denied" ? "denied" : "disabled")
+      return
+    }
+
+    const registration = await navigator.serviceWorker.getRegistration()
+    if (!registration) {
+      throw new Error("Service worker is not registered")
+    }
+    const subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: toApplicationServerKey(publicKey),
+    })
+
+    const response = await authFetch("/api/notifications/push-subscriptions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(subscription.toJSON()),
+    })
+    if (!response.ok) {
+      const data = await response.json()
+      await subscription.unsubscribe()
+      throw new Error(data.error || "Failed to enable push notifications")
+    }
+
+    setPushState("enabled")
+  }, [authFetch, publicKey])
+
+  const disablePush = useCallback(async () => {
+    const subscription = await getPushSubscription()
+    if (subscription) {
+      await authFetch("/api/notifications/push-subscriptions", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ endpoint: subscription.endpoint }),
+      })
+      await subscription.unsubscribe()
+    }
+    setPushState("disabled")
+  }, [authFetch])
+
+  useEffect(() => {
+    fetchPreferences()
+  }, [fetchPreferences])
+
+  return {
+    preferences,
+    pushState,
+    isLoading,
+    fetchPreferences,
+    updatePreference,
+    enablePush,
+    disablePush,
+  }
+}
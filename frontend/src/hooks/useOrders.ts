@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from "react"
 import { useAuth } from "./useAuth"
+import type { Language } from "./useLanguage"
 
 export interface OrderShipping {
   name: string
@@ -56,6 +57,7 @@ export interface CreateOrderInput {
     recipientName?: string
     message?: string
   }
+  language?: Language // Language of the order emails
 }
 
 export interface CreateOrderResponse {
@@ -0,0 +1,80 @@
+import { useCallback } from "react"
+import { useAuth } from "./useAuth"
+
+export type PlaylistSource = "collection" | "images"
+export type PlaylistMode = "sequential" | "shuffle" | "weighted"
+
+export interface PlaylistImage {
+  id: number
+  prompt: string
+  thumbnail_url: string
+  is_favorite: boolean
+}
+
+export interface DevicePlaylist {
+  device_id: number
+  source_type: PlaylistSource
+  collection_id: number | null
+  mode: PlaylistMode
+  dwell_minutes: number
+  is_enabled: boolean
+  current_image_id: number | null
+  last_advanced_at: string | null
+  images: PlaylistImage[]
+}
+
+export interface SavePlaylistInput {
+  source_type: PlaylistSource
+  collection_id?: number
+  image_ids?: number[]
+  mode?: PlaylistMode
+  dwell_minutes?: number
+  is_enabled?: boolean
+}
+
+export function usePlaylist() {
+  const { authFetch } = useAuth()
+
+  const getPlaylist = useCallback(async (deviceId: number): Promise<DevicePlaylist | null> => {
+    const response = await authFetch(`/api/devices/${deviceId}/playlist`)
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to fetch playlist")
+    }
+
+    return data.playlist
+  }, [authFetch])
+
+  const savePlaylist = useCallback(async (deviceId: number, input: SavePlaylistInput): Promise<DevicePlaylist> => {
+    const response = await authFetch(`/api/devices/${deviceId}/playlist`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to save playlist")
+    }
+
+    return data.playlist
+  }, [authFetch])
+
+  const removePlaylist = useCallback(async (deviceId: number): Promise<void> => {
+    const response = await authFetch(`/api/devices/${deviceId}/playlist`, {
+      method: "DELETE",
+    })
+
+    if (!response.ok) {
+      const data = await response.json()
+      throw new Error(data.error || "Failed to remove playlist")
+    }
+  }, [authFetch])
+
+  return {
+    getPlaylist,
+    savePlaylist,
+    removePlaylist,
+  }
+}
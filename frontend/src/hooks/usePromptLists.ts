@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback } from "react"
+import { useAuth } from "./useAuth"
+
+export interface PromptList {
+  id: number
+  name: string
+  items: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+export function usePromptLists() {
+  const { authFetch, isAuthenticated } = useAuth()
+  const [lists, setLists] = useState<PromptList[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  const fetchLists = useCallback(async () => {
+    if (!isAuthenticated) return
+    setIsLoading(true)
+    try {
+      const response = await authFetch("/api/prompt-lists")
+      if (response.ok) {
+        const data = await response.json()
+        setLists(data.lists || [])
+      }
+    } catch (err) {
+      console.error("Failed to fetch prompt lists:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [authFetch, isAuthenticated])
+
+  const createList = useCallback(async (name: string, items: string[]): Promise<PromptList> => {
+    const response = await authFetch("/api/prompt-lists", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, items }),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to create list")
+    }
+
+    setLists(prev => [...prev, data.list].sort((a, b) => a.name.localeCompare(b.name)))
+    return data.list
+  }, [authFetch])
+
+  const updateList = useCallback(async (id: number, name: string, items: string[]): Promise<PromptList> => {
+    const response = await authFetch(`/api/prompt-lists/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, items }),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to update list")
+    }
+
+    setLists(prev => prev.map(list => list.id === id ? data.list : list))
+    return data.list
+  }, [authFetch])
+
+  const deleteList = useCallback(async (id: number): Promise<void> => {
+    const response = await authFetch(`/api/prompt-lists/${id}`, {
+      method: "DELETE",
+    })
+
+    if (!response.ok) {
+      const data = await response.json()
+      throw new Error(data.error || "Failed to delete list")
+    }
+
+    setLists(prev => prev.filter(list => list.id !== id))
+  }, [authFetch])
+
+  useEffect(() => {
+    fetchLists()
+  }, [fetchLists])
+
+  return {
+    lists,
+    isLoading,
+    fetchLists,
+    createList,
+    updateList,
+    deleteList,
+  }
+}
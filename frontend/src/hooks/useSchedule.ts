@@ -1,5 +1,8 @@
 import { useState, useEffect, useCallback } from "react"
 import { useAuth } from "./useAuth"
+import { useServerEvents, type ServerEvent } from "./useServerEvents"
+
+export type ScheduleType = "once" | "daily" | "weekly" | "cron" | "interval"
 
 export interface ScheduledJob {
   id: number
@@ -7,10 +10,13 @@ export interface ScheduledJob {
   prompt: string
   size: string
   style_preset: string | null
-  schedule_type: "once" | "daily" | "weekly"
+  provider: string | null
+  schedule_type: ScheduleType
   schedule_time: string
   schedule_days: number[] | null
   scheduled_at: string | null
+  cron_expression: string | null
+  interval_minutes: number | null
   timezone: string
   is_enabled: number
   auto_sync_trmnl: number
@@ -27,15 +33,38 @@ export interface CreateScheduledJobInput {
   prompt: string
   size?: string
   stylePreset?: string
-  scheduleType: "once" | "daily" | "weekly"
+  provider?: string
+  scheduleType: ScheduleType
   scheduleTime?: string
   scheduleDays?: number[]
   scheduledAt?: string
+  cronExpression?: string
+  intervalMinutes?: number
   timezone?: string
   isEnabled?: boolean
   autoSyncTrmnl?: boolean
 }
 
+// Upcoming runs of an unsaved schedule, with the prompt resolved for each run when one was sent
+export interface SchedulePreview {
+  runs: string[]
+  prompts?: string[]
+}
+
+export type SchedulePreviewInput = Omit<CreateScheduledJobInput, "prompt"> & {
+  prompt?: string
+  count?: number
+}
+
+// Run times of one job on one day ("HH:MM" in the requested timezone, truncated to a few entries)
+export interface ScheduleDayOccurrences {
+  times: string[]
+  count: number
+}
+
+// Job id -> day ("YYYY-MM-DD") -> runs on that day
+export type ScheduleOccurrences = Record<number, Record<string, ScheduleDayOccurrences>>
+
 export interface SchedulePagination {
   page: number
   limit: number
@@ -57,6 +86,8 @@ interface UseScheduleReturn {
   updateJob: (id: number, input: CreateScheduledJobInput) => Promise<ScheduledJob | null>
   deleteJob: (id: number) => Promise<boolean>
   toggleJob: (id: number) => Promise<ScheduledJob | null>
+  previewSchedule: (input: SchedulePreviewInput) => Promise<SchedulePreview>
+  fetchOccurrences: (from: string, to: string, timezone: string) => Promise<ScheduleOccurrences>
   nextPage: () => Promise<void>
   prevPage: () => Promise<void>
   goToPage: (page: number) => Promise<void>
@@ -223,6 +254,36 @@ export function useSchedule(): UseScheduleReturn {
     }
   }, [authFetch, fetchAllJobs])
 
+  // Upcoming run times (UTC ISO strings) for an unsaved schedule; throws with the validation error
+  const previewSchedule = useCallback(async (input: SchedulePreviewInput): Promise<SchedulePreview> => {
+    const response = await authFetch("/api/schedule/preview", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(input),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to preview schedule")
+    }
+
+    return { runs: data.runs || [], prompts: data.prompts }
+  }, [authFetch])
+
+  const fetchOccurrences = useCallback(async (from: string, to: string, timezone: string): Promise<ScheduleOccurrences> => {
+    const params = new URLSearchParams({ from, to, timezone })
+    const response = await authFetch(`/api/schedule/occurrences?${params}`)
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to fetch schedule occurrences")
+    }
+
+    return data.occurrences || {}
+  }, [authFetch])
+
   // Fetch jobs on mount (only after auth is loaded)
   useEffect(() => {
     if (!authLoading && isAuthenticated) {
@@ -231,6 +292,33 @@ export function useSchedule(): UseScheduleReturn {
     }
   }, [fetchJobs, fetchAllJobs, authLoading, isAuthenticated])
 
+  // Finished runs arrive over the server event stream, so job cards update while the page is open
+  const handleServerEvent = useCallback((event: ServerEvent) => {
+    if (event.type !== "schedule.run") return
+
+    const now = new Date().toISOString()
+    const applyRun = (job: ScheduledJob): ScheduledJob => {
+      if (job.id !== event.jobId) return job
+      // A failed one-time job is disabled; any other run moves the schedule on
+      if (event.status === "failed" && !event.nextRunAt) {
+        return { ...job, is_enabled: 0, last_error: event.error, last_error_at: now }
+      }
+      return {
+        ...job,
+        last_run_at: now,
+        next_run_at: event.nextRunAt,
+        run_count: job.run_count + 1,
+        is_enabled: event.nextRunAt ? job.is_enabled : 0,
+        last_error: event.status === "failed" ? event.error : null,
+        last_error_at: event.status === "failed" ? now : null,
+      }
+    }
+    setJobs(prev => prev.map(applyRun))
+    setAllJobs(prev => prev.map(applyRun))
+  }, [])
+
+  useServerEvents(handleServerEvent)
+
   return {
     jobs,
     allJobs,
@@ -244,6 +332,8 @@ export function useSchedule(): UseScheduleReturn {
     updateJob,
     deleteJob,
     toggleJob,
+    previewSchedule,
+    fetchOccurrences,
     nextPage,
     prevPage,
     goToPage,
@@ -0,0 +1,136 @@
+import { useEffect, useRef } from "react"
+import { useAuth } from "./useAuth"
+import type { BatchJob, BatchJobItem } from "./useBatch"
+
+// "preparing" covers work before the image request, such as writing an infographic prompt
+export type GenerationStage = "preparing" | "generating" | "saving" | "completed" | "failed"
+
+// Events pushed by GET /api/events (see backend/src/services/event-service.ts)
+export type ServerEvent =
+  | { type: "ready" } // Sent when the stream (re)connects; events before it may have been missed
+  | {
+      type: "batch.progress"
+      batchId: number
+      status: BatchJob["status"]
+      completed: number
+      failed: number
+      total: number
+      estimatedCompletionAt: string | null
+    }
+  | { type: "batch.item"; batchId: number; item: BatchJobItem }
+  | {
+      type: "schedule.run"
+      jobId: number
+      status: "completed" | "failed"
+      imageId: number | null
+      imageUrl: string | null
+      error: string | null
+      nextRunAt: string | null
+    }
+  | { type: "sync.result"; deviceId: number; deviceName: string; success: boolean; error: string | null }
+  | {
+      type: "generation.progress"
+      requestId: string
+      stage: GenerationStage
+      error: string | null
+    }
+
+type AuthFetch = (url: string, options?: RequestInit) => Promise<Response>
+type Listener = (event: ServerEvent) => void
+
+const RECONNECT_DELAY_MS = 5000
+
+// One stream is shared by every mounted hook; it closes when the last one unmounts
+const listeners = new Set<Listener>()
+let streamController: AbortController | null = null
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+
+function dispatch(message: string) {
+  let eventName = ""
+  let data = ""
+  for (const line of message.split("\n")) {
+    if (line.startsWith("event: ")) eventName = line.slice(7)
+    else if (line.startsWith("data: ")) data += line.slice(6)
+  }
+  if (!eventName || !data) return
+
+  try {
+    const event = (eventName === "ready" ? { type: "ready" } : JSON.parse(data)) as ServerEvent
+    listeners.forEach(listener => listener(event))
+  } catch (err) {
+    console.error("Failed to handle server event:", err)
+  }
+}
+
+// EventSource can't send the Authorization header, so the stream is read with fetch
+async function readStream(authFetch: AuthFetch, signal: AbortSignal) {
+  const response = await authFetch("/api/events", { signal, headers: { Accept: "text/event-stream" } })
+  if (!response.ok || !response.body) {
+    throw new Error(`Event stream failed with status ${response.status}`)
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) return
+    buffer += decoder.decode(value, { stream: true })
+    const messages = buffer.split("\n\n")
+    buffer = messages.pop() || ""
+    messages.forEach(dispatch)
+  }
+}
+
+function openStream(authFetch: AuthFetch) {
+  if (streamController) return
+  const controller = new AbortController()
+  streamController = controller
+
+  readStream(authFetch, controller.signal)
+    .catch(err => {
+      if (!controller.signal.aborted) console.warn("Event stream disconnected:", err)
+    })
+    .finally(() => {
+      if (controller.signal.aborted || streamController !== controller) return
+      streamController = null
+      if (listeners.size > 0) {
+        reconnectTimer = setTimeout(() => {
+          reconnectTimer = null
+          if (listeners.size > 0) openStream(authFetch)
+        }, RECONNECT_DELAY_MS)
+      }
+    })
+}
+
+function closeStream() {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer)
+    reconnectTimer = null
+  }
+  streamController?.abort()
+  streamController = null
+}
+
+// Subscribe to the user's server events while the component is mounted
+export function useServerEvents(onEvent: Listener) {
+  const { authFetch, isAuthenticated } = useAuth()
+  const onEventRef = useRef(onEvent)
+
+  useEffect(() => {
+    onEventRef.current = onEvent
+  }, [onEvent])
+
+  useEffect(() => {
+    if (!isAuthenticated) return
+
+    const listener: Listener = event => onEventRef.current(event)
+    listeners.add(listener)
+    openStream(authFetch)
+
+    return () => {
+      listeners.delete(listener)
+      if (listeners.size === 0) closeStream()
+    }
+  }, [authFetch, isAuthenticated])
+}
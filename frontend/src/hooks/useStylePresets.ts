@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback } from "react"
+import { useAuth } from "./useAuth"
+
+export type StylePresetSource = "built_in" | "global" | "shared" | "own"
+export type StylePresetVisibility = "private" | "shared" | "global"
+
+export interface StylePreset {
+  key: string // Built-in slug ("anime") or "custom:<id>"
+  id: number | null
+  name: string
+  source: StylePresetSource
+  visibility: StylePresetVisibility | null
+  promptPrefix: string | null
+  promptSuffix: string | null
+  negativePrompt: string | null
+  size: string | null
+  quality: "standard" | "hd" | null
+  style: "vivid" | "natural" | null
+  updatedAt: string | null
+}
+
+export interface StylePresetInput {
+  name: string
+  promptPrefix: string | null
+  promptSuffix: string | null
+  negativePrompt: string | null
+  size: string | null
+  quality: StylePreset["quality"]
+  style: StylePreset["style"]
+  visibility: "private" | "shared"
+}
+
+export function useStylePresets() {
+  const { authFetch, isAuthenticated } = useAuth()
+  const [presets, setPresets] = useState<StylePreset[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  const fetchPresets = useCallback(async () => {
+    if (!isAuthenticated) return
+    setIsLoading(true)
+    try {
+      const response = await authFetch("/api/style-presets")
+      if (response.ok) {
+        const data = await response.json()
+        setPresets(data.presets || [])
+      }
+    } catch (err) {
+      console.error("Failed to fetch style presets:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [authFetch, isAuthenticated])
+
+  const createPreset = useCallback(async (input: StylePresetInput): Promise<StylePreset> => {
+    const response = await authFetch("/api/style-presets", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to create preset")
+    }
+
+    setPresets(prev => [...prev, data.preset])
+    return data.preset
+  }, [authFetch])
+
+  const updatePreset = useCallback(async (id: number, input: StylePresetInput): Promise<StylePreset> => {
+    const response = await authFetch(`/api/style-presets/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to update preset")
+    }
+
+    setPresets(prev => prev.map(preset => preset.id === id ? data.preset : preset))
+    return data.preset
+  }, [authFetch])
+
+  const deletePreset = useCallback(async (id: number): Promise<void> => {
+    const response = await authFetch(`/api/style-presets/${id}`, {
+      method: "DELETE",
+    })
+
+    if (!response.ok) {
+      const data = await response.json()
+      throw new Error(data.error || "Failed to delete preset")
+    }
+
+    setPresets(prev => prev.filter(preset => preset.id !== id))
+  }, [authFetch])
+
+  const getPreset = useCallback((key?: string | null): StylePreset | undefined => {
+    return presets.find(preset => preset.key === key)
+  }, [presets])
+
+  useEffect(() => {
+    fetchPresets()
+  }, [fetchPresets])
+
+  return {
+    presets,
+    isLoading,
+    fetchPresets,
+    getPreset,
+    createPreset,
+    updatePreset,
+    deletePreset,
+  }
+}
@@ -18,9 +18,26 @@ export interface AccessStatus {
   needsToReactivate: boolean
 }
 
+export type QuotaKind = "images" | "transcriptions"
+
+export interface QuotaUsage {
+  limit: number
+  used: number
+  remaining: number
+}
+
+// Monthly generation quota, enforced by the server
+export interface QuotaSummary {
+  plan: "free" | "subscriber"
+  period: string
+  resetsAt: string
+  quotas: Record<QuotaKind, QuotaUsage>
+}
+
 interface SubscriptionState {
   subscription: SubscriptionInfo | null
   accessStatus: AccessStatus | null
+  quota: QuotaSummary | null
   isLoading: boolean
   error: string | null
 }
@@ -30,6 +47,7 @@ export function useSubscription() {
   const [state, setState] = useState<SubscriptionState>({
     subscription: null,
     accessStatus: null,
+    quota: null,
     isLoading: true,
     error: null,
   })
@@ -96,6 +114,23 @@ export function useSubscription() {
     }
   }, [isAuthenticated, authFetch])
 
+  // Fetch this month's generation quota
+  const fetchQuota = useCallback(async () => {
+    if (!isAuthenticated) return
+
+    try {
+      const response = await authFetch("/api/subscription/quota")
+
+      const data = await response.json()
+
+      if (response.ok && data.success) {
+        setState((prev) => ({ ...prev, quota: data.quota }))
+      }
+    } catch (error) {
+      // Silent fail, the quota is informational
+    }
+  }, [isAuthenticated, authFetch])
+
   // Cancel subscription
   const cancelSubscription = useCallback(async (): Promise<{
     success: boolean
@@ -227,16 +262,19 @@ export function useSubscription() {
     if (isAuthenticated) {
       fetchStatus()
       fetchAccessStatus()
+      fetchQuota()
     }
-  }, [isAuthenticated, fetchStatus, fetchAccessStatus])
+  }, [isAuthenticated, fetchStatus, fetchAccessStatus, fetchQuota])
 
   return {
     subscription: state.subscription,
     accessStatus: state.accessStatus,
+    quota: state.quota,
     isLoading: state.isLoading,
     error: state.error,
     fetchStatus,
     fetchAccessStatus,
+    fetchQuota,
     cancelSubscription,
     reactivateSubscription,
     createDirectSubscription,
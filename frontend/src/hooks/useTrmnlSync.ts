@@ -1,7 +1,18 @@
 import { useState, useEffect, useCallback } from "react"
 import { useAuth } from "./useAuth"
 
-interface Device {
+export type DitherAlgorithm = "floyd-steinberg" | "atkinson" | "ordered" | "none"
+export type EinkOrientation = "landscape" | "portrait" | "landscape-flipped" | "portrait-flipped"
+export type EinkFit = "cover" | "contain"
+
+export interface EinkSettings {
+  eink_dither: DitherAlgorithm
+  eink_bit_depth: 1 | 2
+  eink_orientation: EinkOrientation
+  eink_fit: EinkFit
+}
+
+interface Device extends EinkSettings {
   id: number
   name: string
   webhook_url: string | null
@@ -31,6 +42,7 @@ interface UseTrmnlSyncReturn {
   isSyncing: boolean
   error: string | null
   refreshDevices: () => Promise<void>
+  previewOnDevice: (imageUrl: string, deviceId: number, settings?: Partial<EinkSettings> & { background_color?: "black" | "white" }) => Promise<string>
 }
 
 export function useTrmnlSync(): UseTrmnlSyncReturn {
@@ -105,6 +117,28 @@ export function useTrmnlSync(): UseTrmnlSyncReturn {
     }
   }
 
+  // Render an image with a device's e-ink settings; returns an object URL the caller must revoke
+  const previewOnDevice = useCallback(async (
+    imageUrl: string,
+    deviceId: number,
+    settings?: Partial<EinkSettings> & { background_color?: "black" | "white" }
+  ): Promise<string> => {
+    const response = await authFetch(`/api/devices/${deviceId}/preview`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ imageUrl, ...settings }),
+    })
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}))
+      throw new Error(result.error || "Failed to render preview")
+    }
+
+    return URL.createObjectURL(await response.blob())
+  }, [authFetch])
+
   return { 
     devices, 
     isLoadingDevices,
@@ -112,6 +146,7 @@ export function useTrmnlSync(): UseTrmnlSyncReturn {
     syncToTrmnl, 
     isSyncing, 
     error,
-    refreshDevices: fetchDevices
+    refreshDevices: fetchDevices,
+    previewOnDevice
   }
 }
@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback } from "react"
+import { useAuth } from "./useAuth"
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  pending: boolean // Setup started but not confirmed with a code
+  enabledAt: string | null
+  recoveryCodesRemaining: number
+}
+
+export interface TwoFactorSetup {
+  secret: string
+  otpauthUrl: string
+  qrCode: string // SVG data URL
+}
+
+export function useTwoFactor() {
+  const { authFetch, isAuthenticated } = useAuth()
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+
+  const fetchStatus = useCallback(async () => {
+    if (!isAuthenticated) return
+    try {
+      const response = await authFetch("/api/auth/2fa")
+      if (!response.ok) return
+      setStatus(await response.json())
+    } catch (err) {
+      console.error("Failed to fetch two-factor status:", err)
+    }
+  }, [authFetch, isAuthenticated])
+
+  useEffect(() => {
+    fetchStatus()
+  }, [fetchStatus])
+
+  // POST a two-factor action, throwing the server's error message on failure
+  const post = useCallback(async <T>(path: string, body: Record<string, unknown>): Promise<T> => {
+    const response = await authFetch(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Two-factor request failed")
+    }
+    return data as T
+  }, [authFetch])
+
+  const startSetup = useCallback(async (password: string) => {
+    return post<TwoFactorSetup>("/api/auth/2fa/setup", { password })
+  }, [post])
+
+  // Confirm setup with a code from the app; returns the recovery codes to show once
+  const enable = useCallback(async (code: string) => {
+    const data = await post<{ recoveryCodes: string[] }>("/api/auth/2fa/enable", { code })
+    await fetchStatus()
+    return data.recoveryCodes
+  }, [post, fetchStatus])
+
+  const disable = useCallback(async (password: string, code: string) => {
+    await post("/api/auth/2fa/disable", { password, code })
+    await fetchStatus()
+  }, [post, fetchStatus])
+
+  const regenerateRecoveryCodes = useCallback(async (code: string) => {
+    const data = await post<{ recoveryCodes: string[] }>("/api/auth/2fa/recovery-codes", { code })
+    await fetchStatus()
+    return data.recoveryCodes
+  }, [post, fetchStatus])
+
+  return {
+    status,
+    startSetup,
+    enable,
+    disable,
+    regenerateRecoveryCodes,
+  }
+}
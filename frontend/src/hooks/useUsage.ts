@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from "react"
+import { useAuth } from "./useAuth"
+
+export type UsageSource = "chat" | "infographic" | "batch" | "schedule" | "suggestions"
+
+export type UsageOperation = "image_generation" | "image_edit" | "image_variation" | "chat_completion" | "transcription"
+
+// One OpenAI call from the usage ledger
+export interface UsageEvent {
+  id: number
+  source: UsageSource
+  source_id: number | null
+  operation: UsageOperation
+  model: string
+  size: string | null
+  quality: string | null
+  image_count: number
+  input_tokens: number
+  output_tokens: number
+  audio_seconds: number
+  estimated_cost: number // USD
+  created_at: string
+}
+
+export interface UsageTotals {
+  requests: number
+  images: number
+  input_tokens: number
+  output_tokens: number
+  audio_seconds: number
+  estimated_cost: number
+}
+
+export interface UsagePagination {
+  page: number
+  limit: number
+  total: number
+  totalPages: number
+}
+
+interface UsageState {
+  totals: UsageTotals | null
+  bySource: (UsageTotals & { source: UsageSource })[]
+  events: UsageEvent[]
+  pagination: UsagePagination | null
+  isLoading: boolean
+  error: string | null
+}
+
+// Calendar month in UTC, as the server counts it
+export function getCurrentUsagePeriod(): string {
+  return new Date().toISOString().slice(0, 7)
+}
+
+export function useUsage(period: string, page = 1) {
+  const { authFetch, isAuthenticated } = useAuth()
+  const [state, setState] = useState<UsageState>({
+    totals: null,
+    bySource: [],
+    events: [],
+    pagination: null,
+    isLoading: false,
+    error: null,
+  })
+
+  const fetchUsage = useCallback(async () => {
+    if (!isAuthenticated) return
+
+    setState((prev) => ({ ...prev, isLoading: true, error: null }))
+
+    try {
+      const response = await authFetch(`/api/usage?period=${period}&page=${page}`)
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setState((prev) => ({
+          ...prev,
+          isLoading: false,
+          error: data.error || "Failed to fetch usage",
+        }))
+        return
+      }
+
+      setState({
+        totals: data.totals,
+        bySource: data.bySource,
+        events: data.events,
+        pagination: data.pagination,
+        isLoading: false,
+        error: null,
+      })
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        error: "Failed to fetch usage",
+      }))
+    }
+  }, [isAuthenticated, authFetch, period, page])
+
+  useEffect(() => {
+    fetchUsage()
+  }, [fetchUsage])
+
+  return {
+    ...state,
+    fetchUsage,
+  }
+}
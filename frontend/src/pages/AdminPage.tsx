@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from "react"
-import { Lock, RefreshCw, Users, Image, CreditCard, Crown, ChevronLeft, ChevronRight, Mail, Calendar, Download, Upload, Database, AlertCircle, CheckCircle, ArrowRight, Monitor, Plus, Trash2, Edit2, X, Star, Save, Eye, EyeOff, DollarSign, Cpu, ImageIcon, Zap, Sparkles, MessageSquare, Loader2 } from "lucide-react"
+import { Lock, RefreshCw, Users, Image, CreditCard, Crown, ChevronLeft, ChevronRight, Mail, Calendar, Download, Upload, Database, AlertCircle, CheckCircle, ArrowRight, Monitor, Plus, Trash2, Edit2, X, Star, Save, Eye, EyeOff, DollarSign, Cpu, ImageIcon, Zap, Sparkles, MessageSquare, Loader2, KeyRound, Layers, Palette, Send, Search, ShieldCheck, UserCog, Gauge } from "lucide-react"
 import { Button } from "../components/ui/button"
 import { Input } from "../components/ui/input"
 
@@ -18,6 +18,63 @@ interface OpenAIUsage {
   error?: string
 }
 
+// One user's totals from the usage ledger (user_id null: calls not made by a user, or deleted users)
+interface UserUsage {
+  user_id: number | null
+  email: string | null
+  name: string | null
+  requests: number
+  images: number
+  input_tokens: number
+  output_tokens: number
+  audio_seconds: number
+  estimated_cost: number
+}
+
+interface UsageRollupResponse {
+  period: string
+  totals: Omit<UserUsage, "user_id" | "email" | "name">
+  users: UserUsage[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+}
+
+type RateLimitTier = "anonymous" | "free" | "subscriber"
+
+// One user (user:<id>) or client IP (ip:<address>) within a limiter's sliding window
+interface RateLimitKey {
+  subject: string
+  tier: RateLimitTier
+  count: number
+  limit: number
+  userId: number | null
+  email: string | null
+}
+
+interface RateLimiterUsage {
+  name: string
+  windowMs: number
+  limits: Record<RateLimitTier, number>
+  activeEntries: number
+  totalRequests: number
+  keys: RateLimitKey[]
+}
+
+interface RateLimitsResponse {
+  store: string
+  limiters: RateLimiterUsage[]
+}
+
+// Last six months in UTC, newest first, for the usage ledger picker
+const USAGE_PERIODS = Array.from({ length: 6 }, (_, i) => {
+  const now = new Date()
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1)).toISOString().slice(0, 7)
+})
+
 interface Device {
   id: number
   name: string
@@ -26,6 +83,7 @@ interface Device {
   is_default: boolean
   mac_address: string | null
   device_api_key: string | null
+  polling_url: string
   created_at: string
   updated_at: string
 }
@@ -36,6 +94,7 @@ interface User {
   name: string | null
   subscription_status: string | null
   created_at: string
+  two_factor_enabled: boolean
 }
 
 interface UsersResponse {
@@ -48,6 +107,193 @@ interface UsersResponse {
   }
 }
 
+type JobStatus = "queued" | "running" | "completed" | "dead"
+
+interface QueuedJob {
+  id: number
+  type: string
+  user_id: number | null
+  user_email: string | null
+  status: JobStatus
+  attempts: number
+  max_attempts: number
+  run_at: string
+  started_at: string | null
+  finished_at: string | null
+  last_error: string | null
+}
+
+interface JobsResponse {
+  jobs: QueuedJob[]
+  counts: Record<JobStatus, number>
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+}
+
+type EmailStatus = "sent" | "failed" | "captured"
+
+// Entry of the email log; the bodies are only loaded for the email being viewed
+interface SentEmail {
+  id: number
+  to_address: string
+  from_address: string
+  subject: string
+  transport: string
+  status: EmailStatus
+  error: string | null
+  provider_message_id: string | null
+  attempts: number
+  created_at: string
+  last_attempt_at: string
+  html_content?: string
+  text_content?: string | null
+}
+
+interface EmailsResponse {
+  emails: SentEmail[]
+  transport: { id: string; name: string; delivers: boolean }
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+}
+
+// Global style preset published by an admin
+interface GlobalStylePreset {
+  id: number
+  key: string
+  name: string
+  promptPrefix: string | null
+  promptSuffix: string | null
+  negativePrompt: string | null
+  size: string | null
+  quality: "standard" | "hd" | null
+  style: "vivid" | "natural" | null
+}
+
+type StylePresetForm = Omit<GlobalStylePreset, "id" | "key">
+
+const EMPTY_STYLE_PRESET_FORM: StylePresetForm = {
+  name: "",
+  promptPrefix: null,
+  promptSuffix: null,
+  negativePrompt: null,
+  size: null,
+  quality: null,
+  style: null,
+}
+
+// Job queue tabs; completed jobs aren't listed
+const JOB_TABS: { status: JobStatus; label: string }[] = [
+  { status: "queued", label: "Queued" },
+  { status: "running", label: "Running" },
+  { status: "dead", label: "Failed" },
+]
+
+// Email log filters; "captured" emails were kept locally by the file/outbox transports
+const EMAIL_TABS: { status: EmailStatus | null; label: string }[] = [
+  { status: null, label: "All" },
+  { status: "sent", label: "Sent" },
+  { status: "captured", label: "Outbox" },
+  { status: "failed", label: "Failed" },
+]
+
+const EMAIL_STATUS_STYLES: Record<EmailStatus, string> = {
+  sent: "bg-green-500/20 text-green-400",
+  captured: "bg-blue-500/20 text-blue-400",
+  failed: "bg-red-500/20 text-red-400",
+}
+
+type AdminRole = "viewer" | "support" | "superadmin"
+
+// An operator account; also the signed-in admin
+interface AdminAccount {
+  id: number
+  email: string
+  name: string | null
+  role: AdminRole
+  disabled: boolean
+  last_login_at: string | null
+  created_at: string
+}
+
+// One entry of the append-only admin audit log
+interface AuditEntry {
+  id: number
+  admin_user_id: number
+  admin_email: string
+  action: string
+  target_type: string | null
+  target_id: number | null
+  user_id: number | null
+  details: Record<string, unknown> | null
+  ip_address: string | null
+  created_at: string
+}
+
+interface AuditLogResponse {
+  entries: AuditEntry[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+}
+
+type AuditFilter = { action: string; targetType: string; targetId: string; userId: string }
+
+// Least to most privileged, as the server checks them
+const ADMIN_ROLES: AdminRole[] = ["viewer", "support", "superadmin"]
+
+const ADMIN_ROLE_STYLES: Record<AdminRole, string> = {
+  viewer: "bg-zinc-700/50 text-zinc-300",
+  support: "bg-blue-500/20 text-blue-400",
+  superadmin: "bg-purple-500/20 text-purple-400",
+}
+
+const AUDIT_ACTIONS = [
+  "admin.login",
+  "admin_user.create",
+  "admin_user.update",
+  "data.export",
+  "data.import",
+  "device.create",
+  "device.update",
+  "device.delete",
+  "device.rotate_polling_token",
+  "style_preset.create",
+  "style_preset.update",
+  "style_preset.delete",
+  "email.view",
+  "email.resend",
+  "two_factor.reset",
+]
+
+const AUDIT_TARGET_TYPES = ["admin_user", "device", "style_preset", "email"]
+
+const EMPTY_AUDIT_FILTER: AuditFilter = { action: "", targetType: "", targetId: "", userId: "" }
+
+const EMPTY_ADMIN_FORM = { email: "", name: "", password: "", role: "viewer" as AdminRole }
+
+function hasRole(admin: AdminAccount | null, required: AdminRole): boolean {
+  return !!admin && ADMIN_ROLES.indexOf(admin.role) >= ADMIN_ROLES.indexOf(required)
+}
+
+function formatAuditDetails(details: Record<string, unknown> | null): string {
+  if (!details) return ""
+  return Object.entries(details)
+    .filter(([, value]) => value !== null)
+    .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(", ") : String(value)}`)
+    .join(" · ")
+}
+
 // Retro flip counter digit component
 function FlipDigit({ digit, prevDigit }: { digit: string; prevDigit: string }) {
   const [isFlipping, setIsFlipping] = useState(false)
@@ -174,7 +420,9 @@ function RetroCounter({ value, label, icon: Icon }: { value: number; label: stri
 
 export function AdminPage() {
   const [isAuthenticated, setIsAuthenticated] = useState(false)
+  const [email, setEmail] = useState("")
   const [password, setPassword] = useState("")
+  const [currentAdmin, setCurrentAdmin] = useState<AdminAccount | null>(null)
   const [error, setError] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const [stats, setStats] = useState<AdminStats | null>(null)
@@ -212,6 +460,49 @@ export function AdminPage() {
   const [openaiUsage, setOpenaiUsage] = useState<OpenAIUsage | null>(null)
   const [isLoadingOpenaiUsage, setIsLoadingOpenaiUsage] = useState(false)
 
+  // Per-user usage ledger state
+  const [usageRollup, setUsageRollup] = useState<UsageRollupResponse | null>(null)
+  const [usagePeriod, setUsagePeriod] = useState(USAGE_PERIODS[0]!)
+  const [isLoadingUsageRollup, setIsLoadingUsageRollup] = useState(false)
+
+  // Rate limiter state
+  const [rateLimits, setRateLimits] = useState<RateLimitsResponse | null>(null)
+  const [rateLimiterName, setRateLimiterName] = useState("api")
+  const [isLoadingRateLimits, setIsLoadingRateLimits] = useState(false)
+  const selectedRateLimiter = rateLimits?.limiters.find(limiter => limiter.name === rateLimiterName)
+
+  // Job queue state
+  const [jobsData, setJobsData] = useState<JobsResponse | null>(null)
+  const [jobStatus, setJobStatus] = useState<JobStatus>("queued")
+  const [isLoadingJobs, setIsLoadingJobs] = useState(false)
+
+  // Global style preset state
+  const [stylePresets, setStylePresets] = useState<GlobalStylePreset[]>([])
+  const [stylePresetForm, setStylePresetForm] = useState<StylePresetForm>(EMPTY_STYLE_PRESET_FORM)
+  const [editingStylePresetId, setEditingStylePresetId] = useState<number | null>(null)
+  const [isSavingStylePreset, setIsSavingStylePreset] = useState(false)
+  const [stylePresetError, setStylePresetError] = useState("")
+
+  // Email log state
+  const [emailsData, setEmailsData] = useState<EmailsResponse | null>(null)
+  const [emailStatus, setEmailStatus] = useState<EmailStatus | null>(null)
+  const [emailSearch, setEmailSearch] = useState("")
+  const [isLoadingEmails, setIsLoadingEmails] = useState(false)
+  const [viewingEmail, setViewingEmail] = useState<SentEmail | null>(null)
+  const [resendingEmailId, setResendingEmailId] = useState<number | null>(null)
+  const [emailError, setEmailError] = useState("")
+
+  // Audit log state
+  const [auditData, setAuditData] = useState<AuditLogResponse | null>(null)
+  const [auditFilter, setAuditFilter] = useState<AuditFilter>(EMPTY_AUDIT_FILTER)
+  const [isLoadingAudit, setIsLoadingAudit] = useState(false)
+
+  // Admin accounts state
+  const [adminAccounts, setAdminAccounts] = useState<AdminAccount[]>([])
+  const [adminForm, setAdminForm] = useState(EMPTY_ADMIN_FORM)
+  const [isSavingAdmin, setIsSavingAdmin] = useState(false)
+  const [adminAccountError, setAdminAccountError] = useState("")
+
   // Check if any blocking operation is in progress
   const isBlocking = isExporting || isImporting
 
@@ -229,11 +520,8 @@ export function AdminPage() {
         headers: { Authorization: `Bearer ${tokenToVerify}` },
       })
       if (response.ok) {
-        setToken(tokenToVerify)
-        setIsAuthenticated(true)
-        fetchStats(tokenToVerify)
-        fetchOpenAIUsage(tokenToVerify)
-        fetchUsers(tokenToVerify, 1)
+        const data = await response.json()
+        loadDashboard(tokenToVerify, data.admin)
       } else {
         localStorage.removeItem("admin_token")
       }
@@ -251,7 +539,7 @@ export function AdminPage() {
       const response = await fetch("/api/admin/login", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ password }),
+        body: JSON.stringify({ email, password }),
       })
 
       if (!response.ok) {
@@ -261,11 +549,7 @@ export function AdminPage() {
 
       const data = await response.json()
       localStorage.setItem("admin_token", data.token)
-      setToken(data.token)
-      setIsAuthenticated(true)
-      fetchStats(data.token)
-      fetchOpenAIUsage(data.token)
-      fetchUsers(data.token, 1)
+      loadDashboard(data.token, data.admin)
     } catch (err) {
       setError(err instanceof Error ? err.message : "Login failed")
     } finally {
@@ -273,6 +557,23 @@ export function AdminPage() {
     }
   }
 
+  // Panels are loaded for what the operator's role may see
+  const loadDashboard = (authToken: string, admin: AdminAccount) => {
+    setToken(authToken)
+    setCurrentAdmin(admin)
+    setIsAuthenticated(true)
+    fetchStats(authToken)
+    fetchOpenAIUsage(authToken)
+    fetchUsageRollup(authToken, USAGE_PERIODS[0]!, 1)
+    fetchRateLimits(authToken)
+    fetchJobs(authToken, "queued")
+    fetchEmails(authToken, null, "", 1)
+    fetchStylePresets(authToken)
+    fetchUsers(authToken, 1)
+    if (hasRole(admin, "support")) fetchAuditLog(authToken, EMPTY_AUDIT_FILTER, 1)
+    if (hasRole(admin, "superadmin")) fetchAdminAccounts(authToken)
+  }
+
   const fetchStats = async (authToken: string) => {
     try {
       const response = await fetch("/api/admin/stats", {
@@ -304,6 +605,276 @@ export function AdminPage() {
     }
   }
 
+  const fetchUsageRollup = async (authToken: string, period: string, page: number) => {
+    setIsLoadingUsageRollup(true)
+    setUsagePeriod(period)
+    try {
+      const response = await fetch(`/api/admin/usage?period=${period}&page=${page}&limit=20`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setUsageRollup(data)
+      }
+    } catch (err) {
+      console.error("Failed to fetch usage rollup:", err)
+    } finally {
+      setIsLoadingUsageRollup(false)
+    }
+  }
+
+  const fetchRateLimits = async (authToken: string) => {
+    setIsLoadingRateLimits(true)
+    try {
+      const response = await fetch("/api/admin/rate-limits?limit=20", {
+        headers: { Authorization: `Bearer ${authToken}` },
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setRateLimits(data)
+      }
+    } catch (err) {
+      console.error("Failed to fetch rate limits:", err)
+    } finally {
+      setIsLoadingRateLimits(false)
+    }
+  }
+
+  const fetchJobs = async (authToken: string, status: JobStatus) => {
+    setIsLoadingJobs(true)
+    setJobStatus(status)
+    try {
+      const response = await fetch(`/api/admin/jobs?status=${status}&limit=50`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setJobsData(data)
+      }
+    } catch (err) {
+      console.error("Failed to fetch jobs:", err)
+    } finally {
+      setIsLoadingJobs(false)
+    }
+  }
+
+  const fetchEmails = async (authToken: string, status: EmailStatus | null, search: string, page: number) => {
+    setIsLoadingEmails(true)
+    setEmailStatus(status)
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: "20" })
+      if (status) params.set("status", status)
+      if (search.trim()) params.set("search", search.trim())
+      const response = await fetch(`/api/admin/emails?${params}`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setEmailsData(data)
+      }
+    } catch (err) {
+      console.error("Failed to fetch emails:", err)
+    } finally {
+      setIsLoadingEmails(false)
+    }
+  }
+
+  const handleViewEmail = async (email: SentEmail) => {
+    if (!token) return
+    setEmailError("")
+    try {
+      const response = await fetch(`/api/admin/emails/${email.id}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load email")
+      }
+      setViewingEmail(data.email)
+    } catch (err) {
+      setEmailError(err instanceof Error ? err.message : "Failed to load email")
+    }
+  }
+
+  const handleResendEmail = async (email: SentEmail) => {
+    if (!token || !confirm(`Send "${email.subject}" to ${email.to_address} again?`)) return
+    setResendingEmailId(email.id)
+    setEmailError("")
+
+    try {
+      const response = await fetch(`/api/admin/emails/${email.id}/resend`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to resend email")
+      }
+
+      const updated: SentEmail = data.email
+      setEmailsData(prev => prev && { ...prev, emails: prev.emails.map(e => e.id === updated.id ? updated : e) })
+      setViewingEmail(prev => prev?.id === updated.id ? updated : prev)
+      if (updated.status === "failed") {
+        setEmailError(updated.error || "Email could not be sent")
+      }
+    } catch (err) {
+      setEmailError(err instanceof Error ? err.message : "Failed to resend email")
+    } finally {
+      setResendingEmailId(null)
+    }
+  }
+
+  const fetchAuditLog = async (authToken: string, filter: AuditFilter, page: number) => {
+    setIsLoadingAudit(true)
+    setAuditFilter(filter)
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: "20" })
+      if (filter.action) params.set("action", filter.action)
+      if (filter.targetType) params.set("targetType", filter.targetType)
+      if (filter.targetId.trim()) params.set("targetId", filter.targetId.trim())
+      if (filter.userId.trim()) params.set("userId", filter.userId.trim())
+      const response = await fetch(`/api/admin/audit-log?${params}`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setAuditData(data)
+      }
+    } catch (err) {
+      console.error("Failed to fetch audit log:", err)
+    } finally {
+      setIsLoadingAudit(false)
+    }
+  }
+
+  const fetchAdminAccounts = async (authToken: string) => {
+    try {
+      const response = await fetch("/api/admin/admins", {
+        headers: { Authorization: `Bearer ${authToken}` },
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setAdminAccounts(data.admins || [])
+      }
+    } catch (err) {
+      console.error("Failed to fetch admin accounts:", err)
+    }
+  }
+
+  const handleCreateAdmin = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!token) return
+    setIsSavingAdmin(true)
+    setAdminAccountError("")
+
+    try {
+      const response = await fetch("/api/admin/admins", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify(adminForm),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create admin")
+      }
+
+      setAdminForm(EMPTY_ADMIN_FORM)
+      setAdminAccounts(prev => [...prev, data.admin])
+    } catch (err) {
+      setAdminAccountError(err instanceof Error ? err.message : "Failed to create admin")
+    } finally {
+      setIsSavingAdmin(false)
+    }
+  }
+
+  const handleUpdateAdmin = async (account: AdminAccount, changes: { role?: AdminRole; disabled?: boolean }) => {
+    if (!token) return
+    if (changes.disabled && !confirm(`Disable ${account.email}? They are signed out immediately.`)) return
+    setAdminAccountError("")
+
+    try {
+      const response = await fetch(`/api/admin/admins/${account.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify(changes),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update admin")
+      }
+
+      setAdminAccounts(prev => prev.map(a => a.id === account.id ? data.admin : a))
+    } catch (err) {
+      setAdminAccountError(err instanceof Error ? err.message : "Failed to update admin")
+    }
+  }
+
+  const fetchStylePresets = async (authToken: string) => {
+    try {
+      const response = await fetch("/api/admin/style-presets", {
+        headers: { Authorization: `Bearer ${authToken}` },
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setStylePresets(data.presets || [])
+      }
+    } catch (err) {
+      console.error("Failed to fetch style presets:", err)
+    }
+  }
+
+  const resetStylePresetForm = () => {
+    setStylePresetForm(EMPTY_STYLE_PRESET_FORM)
+    setEditingStylePresetId(null)
+    setStylePresetError("")
+  }
+
+  const handleSaveStylePreset = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!token) return
+    setIsSavingStylePreset(true)
+    setStylePresetError("")
+
+    try {
+      const url = editingStylePresetId ? `/api/admin/style-presets/${editingStylePresetId}` : "/api/admin/style-presets"
+      const response = await fetch(url, {
+        method: editingStylePresetId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify(stylePresetForm),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save style preset")
+      }
+
+      resetStylePresetForm()
+      fetchStylePresets(token)
+    } catch (err) {
+      setStylePresetError(err instanceof Error ? err.message : "Failed to save style preset")
+    } finally {
+      setIsSavingStylePreset(false)
+    }
+  }
+
+  const handleDeleteStylePreset = async (preset: GlobalStylePreset) => {
+    if (!token || !confirm(`Delete "${preset.name}"? Batches and schedules using it will fail until users pick another style.`)) return
+
+    try {
+      const response = await fetch(`/api/admin/style-presets/${preset.id}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || "Failed to delete style preset")
+      }
+      if (editingStylePresetId === preset.id) resetStylePresetForm()
+      setStylePresets(prev => prev.filter(p => p.id !== preset.id))
+    } catch (err) {
+      setStylePresetError(err instanceof Error ? err.message : "Failed to delete style preset")
+    }
+  }
+
   const fetchUsers = async (authToken: string, page: number) => {
     setIsLoadingUsers(true)
     try {
@@ -328,7 +899,14 @@ export function AdminPage() {
       setOpenaiUsage(null)
       setTimeout(() => fetchStats(token), 100)
       fetchOpenAIUsage(token)
+      fetchUsageRollup(token, usagePeriod, usageRollup?.pagination.page || 1)
+      fetchRateLimits(token)
+      fetchJobs(token, jobStatus)
+      fetchEmails(token, emailStatus, emailSearch, emailsData?.pagination.page || 1)
+      fetchStylePresets(token)
       fetchUsers(token, currentPage)
+      if (hasRole(currentAdmin, "support")) fetchAuditLog(token, auditFilter, auditData?.pagination.page || 1)
+      if (hasRole(currentAdmin, "superadmin")) fetchAdminAccounts(token)
     }
   }
 
@@ -344,6 +922,13 @@ export function AdminPage() {
     setIsAuthenticated(false)
     setStats(null)
     setUsersData(null)
+    setJobsData(null)
+    setEmailsData(null)
+    setViewingEmail(null)
+    setStylePresets([])
+    setAuditData(null)
+    setAdminAccounts([])
+    setCurrentAdmin(null)
     setPassword("")
   }
 
@@ -514,32 +1099,76 @@ export function AdminPage() {
     }
   }
 
-  const handleSetDefaultDevice = async (deviceId: number) => {
+  const handleRotatePollingToken = async (deviceId: number) => {
     if (!token || !selectedUserId) return
+    if (!confirm("Rotate this device's polling token? The old polling URL will stop working immediately.")) return
 
     try {
-      const response = await fetch(`/api/admin/devices/${deviceId}`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`
-        },
-        body: JSON.stringify({ is_default: true })
+      const response = await fetch(`/api/admin/devices/${deviceId}/polling-token`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` }
       })
 
       if (response.ok) {
         await fetchUserDevices(selectedUserId)
+      } else {
+        const error = await response.json()
+        alert(error.error || "Failed to rotate polling token")
       }
     } catch (err) {
-      console.error("Failed to set default device:", err)
+      console.error("Failed to rotate polling token:", err)
+      alert("Failed to rotate polling token")
     }
   }
 
-  const handleExport = async () => {
+  const handleResetTwoFactor = async (user: User) => {
     if (!token) return
-    
-    setIsExporting(true)
-    setBackupMessage(null)
+    if (!confirm(`Turn off two-factor authentication for ${user.email}? Only do this after confirming their identity.`)) return
+
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}/two-factor`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${token}` }
+      })
+
+      if (response.ok) {
+        await fetchUsers(token, currentPage)
+      } else {
+        const error = await response.json()
+        alert(error.error || "Failed to reset two-factor authentication")
+      }
+    } catch (err) {
+      console.error("Failed to reset two-factor authentication:", err)
+      alert("Failed to reset two-factor authentication")
+    }
+  }
+
+  const handleSetDefaultDevice = async (deviceId: number) => {
+    if (!token || !selectedUserId) return
+
+    try {
+      const response = await fetch(`/api/admin/devices/${deviceId}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`
+        },
+        body: JSON.stringify({ is_default: true })
+      })
+
+      if (response.ok) {
+        await fetchUserDevices(selectedUserId)
+      }
+    } catch (err) {
+      console.error("Failed to set default device:", err)
+    }
+  }
+
+  const handleExport = async () => {
+    if (!token) return
+    
+    setIsExporting(true)
+    setBackupMessage(null)
     setProgress(0)
     setProgressStatus("Preparing export...")
     
@@ -711,17 +1340,24 @@ export function AdminPage() {
               <Lock className="h-8 w-8 text-teal-500" />
             </div>
             <h1 className="text-2xl font-bold text-white">Admin Access</h1>
-            <p className="text-zinc-500 mt-2">Enter the admin password to continue</p>
+            <p className="text-zinc-500 mt-2">Sign in with your admin account to continue</p>
           </div>
 
           <form onSubmit={handleLogin} noValidate className="space-y-4">
+            <Input
+              type="email"
+              placeholder="Email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="bg-zinc-900 border-zinc-800 text-white placeholder:text-zinc-600"
+              autoFocus
+            />
             <Input
               type="password"
               placeholder="Password"
               value={password}
               onChange={(e) => setPassword(e.target.value)}
               className="bg-zinc-900 border-zinc-800 text-white placeholder:text-zinc-600"
-              autoFocus
             />
             
             {error && (
@@ -731,7 +1367,7 @@ export function AdminPage() {
             <Button
               type="submit"
               className="w-full bg-teal-600 hover:bg-teal-700"
-              disabled={isLoading || !password}
+              disabled={isLoading || !email || !password}
             >
               {isLoading ? "Authenticating..." : "Login"}
             </Button>
@@ -800,7 +1436,17 @@ export function AdminPage() {
         <div className="flex items-center justify-between mb-8">
           <div>
             <h1 className="text-2xl font-bold text-white">PromptInk Admin</h1>
-            <p className="text-zinc-500">Dashboard & Statistics</p>
+            <p className="text-zinc-500">
+              Dashboard & Statistics
+              {currentAdmin && (
+                <span className="ml-2 text-sm">
+                  · {currentAdmin.email}
+                  <span className={`ml-2 px-2 py-0.5 text-xs font-medium rounded-full ${ADMIN_ROLE_STYLES[currentAdmin.role]}`}>
+                    {currentAdmin.role}
+                  </span>
+                </span>
+              )}
+            </p>
           </div>
           <div className="flex items-center gap-2">
             <Button
@@ -966,8 +1612,826 @@ export function AdminPage() {
           </div>
         </div>
 
-        {/* Data Backup & Restore */}
+        {/* Usage by User */}
         <div className="mt-8 bg-zinc-900/50 rounded-2xl border border-zinc-800 overflow-hidden">
+          <div className="px-6 py-4 border-b border-zinc-800 flex flex-wrap items-center justify-between gap-3">
+            <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+              <DollarSign className="h-5 w-5 text-purple-500" />
+              Usage by User
+              {usageRollup && (
+                <span className="text-xs font-normal text-zinc-500">
+                  {usageRollup.totals.requests.toLocaleString()} requests, est. ${usageRollup.totals.estimated_cost.toFixed(2)}
+                </span>
+              )}
+            </h2>
+            <select
+              value={usagePeriod}
+              onChange={(e) => token && fetchUsageRollup(token, e.target.value, 1)}
+              className="h-8 px-2 rounded-lg bg-zinc-800 border border-zinc-700 text-sm text-white"
+            >
+              {USAGE_PERIODS.map(period => (
+                <option key={period} value={period}>{period}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-zinc-800 bg-zinc-900/50">
+                  <th className="text-left px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">User</th>
+                  <th className="text-right px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">Requests</th>
+                  <th className="text-right px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">Images</th>
+                  <th className="text-right px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">Tokens</th>
+                  <th className="text-right px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">Audio</th>
+                  <th className="text-right px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">Est. Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-800">
+                {isLoadingUsageRollup ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-8 text-center text-zinc-500">
+                      <RefreshCw className="h-5 w-5 animate-spin mx-auto mb-2" />
+                      Loading usage...
+                    </td>
+                  </tr>
+                ) : !usageRollup || usageRollup.users.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-8 text-center text-zinc-500">
+                      No usage this month
+                    </td>
+                  </tr>
+                ) : (
+                  usageRollup.users.map((row) => (
+                    <tr key={row.user_id ?? "none"} className="hover:bg-zinc-800/50 transition-colors">
+                      <td className="px-6 py-4 text-sm text-zinc-300">
+                        {row.user_id === null ? (
+                          <span className="text-zinc-500">No user (suggestions, deleted accounts)</span>
+                        ) : (
+                          <>
+                            {row.email}
+                            {row.name && <span className="ml-2 text-xs text-zinc-500">{row.name}</span>}
+                          </>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-zinc-300 text-right">{row.requests.toLocaleString()}</td>
+                      <td className="px-6 py-4 text-sm text-zinc-300 text-right">{row.images.toLocaleString()}</td>
+                      <td className="px-6 py-4 text-sm text-zinc-300 text-right">{(row.input_tokens + row.output_tokens).toLocaleString()}</td>
+                      <td className="px-6 py-4 text-sm text-zinc-300 text-right">{Math.round(row.audio_seconds)}s</td>
+                      <td className="px-6 py-4 text-sm text-white text-right font-medium">${row.estimated_cost.toFixed(4)}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {usageRollup && usageRollup.pagination.totalPages > 1 && (
+            <div className="px-6 py-3 border-t border-zinc-800 flex items-center justify-between text-sm text-zinc-400">
+              <span>
+                Page {usageRollup.pagination.page} of {usageRollup.pagination.totalPages} ({usageRollup.pagination.total} users)
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => token && fetchUsageRollup(token, usagePeriod, usageRollup.pagination.page - 1)}
+                  disabled={usageRollup.pagination.page <= 1}
+                  className="border-zinc-700 text-zinc-300"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => token && fetchUsageRollup(token, usagePeriod, usageRollup.pagination.page + 1)}
+                  disabled={usageRollup.pagination.page >= usageRollup.pagination.totalPages}
+                  className="border-zinc-700 text-zinc-300"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Rate Limits */}
+        <div className="mt-8 bg-zinc-900/50 rounded-2xl border border-zinc-800 overflow-hidden">
+          <div className="px-6 py-4 border-b border-zinc-800 flex flex-wrap items-center justify-between gap-3">
+            <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+              <Gauge className="h-5 w-5 text-orange-500" />
+              Rate Limits
+              {rateLimits && (
+                <span className="text-xs font-normal text-zinc-500">{rateLimits.store} store</span>
+              )}
+            </h2>
+            <div className="flex items-center gap-2">
+              {rateLimits?.limiters.map(limiter => (
+                <button
+                  key={limiter.name}
+                  onClick={() => setRateLimiterName(limiter.name)}
+                  className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                    rateLimiterName === limiter.name
+                      ? "bg-orange-500/20 text-orange-400"
+                      : "text-zinc-400 hover:text-white hover:bg-zinc-800"
+                  }`}
+                >
+                  {limiter.name} ({limiter.activeEntries})
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {selectedRateLimiter && (
+            <div className="px-6 py-3 border-b border-zinc-800 text-xs text-zinc-500">
+              Per {Math.round(selectedRateLimiter.windowMs / 60000)} min sliding window: {selectedRateLimiter.limits.anonymous} anonymous (per IP),{" "}
+              {selectedRateLimiter.limits.free} free, {selectedRateLimiter.limits.subscriber} subscriber · {selectedRateLimiter.totalRequests} requests now
+            </div>
+          )}
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-zinc-800 bg-zinc-900/50">
+                  <th className="text-left px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">User / IP</th>
+                  <th className="text-left px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">Tier</th>
+                  <th className="text-right px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">Requests</th>
+                  <th className="text-left px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider w-48">Of Limit</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-800">
+                {isLoadingRateLimits ? (
+                  <tr>
+                    <td colSpan={4} className="px-6 py-8 text-center text-zinc-500">
+                      <RefreshCw className="h-5 w-5 animate-spin mx-auto mb-2" />
+                      Loading rate limits...
+                    </td>
+                  </tr>
+                ) : !selectedRateLimiter || selectedRateLimiter.keys.length === 0 ? (
+                  <tr>
+                    <td colSpan={4} className="px-6 py-8 text-center text-zinc-500">
+                      No recent requests
+                    </td>
+                  </tr>
+                ) : (
+                  selectedRateLimiter.keys.map((key) => (
+                    <tr key={`${key.tier}|${key.subject}`} className="hover:bg-zinc-800/50 transition-colors">
+                      <td className="px-6 py-4 text-sm text-zinc-300">
+                        {key.email ?? key.subject.replace(/^(ip|user):/, "")}
+                        {key.userId !== null && <span className="ml-2 text-xs text-zinc-500">#{key.userId}</span>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-zinc-400">{key.tier}</td>
+                      <td className="px-6 py-4 text-sm text-zinc-300 text-right">{key.count} / {key.limit}</td>
+                      <td className="px-6 py-4">
+                        <div className="h-2 rounded-full bg-zinc-800 overflow-hidden">
+                          <div
+                            className={`h-full ${key.count >= key.limit ? "bg-red-500" : key.count >= key.limit * 0.8 ? "bg-orange-500" : "bg-teal-500"}`}
+                            style={{ width: `${Math.min(100, (key.count / key.limit) * 100)}%` }}
+                          />
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Job Queue */}
+        <div className="mt-8 bg-zinc-900/50 rounded-2xl border border-zinc-800 overflow-hidden">
+          <div className="px-6 py-4 border-b border-zinc-800 flex flex-wrap items-center justify-between gap-3">
+            <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+              <Layers className="h-5 w-5 text-teal-500" />
+              Job Queue
+            </h2>
+            <div className="flex items-center gap-2">
+              {JOB_TABS.map(tab => (
+                <button
+                  key={tab.status}
+                  onClick={() => token && fetchJobs(token, tab.status)}
+                  className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                    jobStatus === tab.status
+                      ? "bg-teal-500/20 text-teal-400"
+                      : "text-zinc-400 hover:text-white hover:bg-zinc-800"
+                  }`}
+                >
+                  {tab.label} ({jobsData?.counts[tab.status] ?? 0})
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-zinc-800 bg-zinc-900/50">
+                  <th className="text-left px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">ID</th>
+                  <th className="text-left px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">Type</th>
+                  <th className="text-left px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">User</th>
+                  <th className="text-left px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">Attempts</th>
+                  <th className="text-left px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">
+                    {jobStatus === "queued" ? "Runs At" : jobStatus === "running" ? "Started" : "Failed At"}
+                  </th>
+                  <th className="text-left px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">Last Error</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-800">
+                {isLoadingJobs ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-8 text-center text-zinc-500">
+                      <RefreshCw className="h-5 w-5 animate-spin mx-auto mb-2" />
+                      Loading jobs...
+                    </td>
+                  </tr>
+                ) : !jobsData || jobsData.jobs.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-8 text-center text-zinc-500">
+                      No jobs
+                    </td>
+                  </tr>
+                ) : (
+                  jobsData.jobs.map((job) => (
+                    <tr key={job.id} className="hover:bg-zinc-800/50 transition-colors">
+                      <td className="px-6 py-4 text-sm text-zinc-400 font-mono">#{job.id}</td>
+                      <td className="px-6 py-4">
+                        <span className="px-2 py-0.5 bg-zinc-800 rounded text-xs text-zinc-300 font-mono">{job.type}</span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-zinc-300">{job.user_email || "—"}</td>
+                      <td className="px-6 py-4 text-sm text-zinc-400">{job.attempts} / {job.max_attempts}</td>
+                      <td className="px-6 py-4 text-sm text-zinc-400">
+                        {new Date((jobStatus === "queued" ? job.run_at : jobStatus === "running" ? job.started_at : job.finished_at) || job.run_at).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-red-400 max-w-xs truncate" title={job.last_error || undefined}>
+                        {job.last_error || "—"}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Email Log */}
+        <div className="mt-8 bg-zinc-900/50 rounded-2xl border border-zinc-800 overflow-hidden">
+          <div className="px-6 py-4 border-b border-zinc-800 flex flex-wrap items-center justify-between gap-3">
+            <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+              <Mail className="h-5 w-5 text-teal-500" />
+              Email Log
+              {emailsData && (
+                <span className="text-xs font-normal text-zinc-500">
+                  via {emailsData.transport.name}{!emailsData.transport.delivers && " (not delivered)"}
+                </span>
+              )}
+            </h2>
+            <div className="flex flex-wrap items-center gap-2">
+              {EMAIL_TABS.map(tab => (
+                <button
+                  key={tab.label}
+                  onClick={() => token && fetchEmails(token, tab.status, emailSearch, 1)}
+                  className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                    emailStatus === tab.status
+                      ? "bg-teal-500/20 text-teal-400"
+                      : "text-zinc-400 hover:text-white hover:bg-zinc-800"
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  if (token) fetchEmails(token, emailStatus, emailSearch, 1)
+                }}
+                className="relative"
+              >
+                <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-zinc-500" />
+                <Input
+                  value={emailSearch}
+                  onChange={(e) => setEmailSearch(e.target.value)}
+                  placeholder="Recipient or subject"
+                  className="pl-8 h-8 w-56 bg-zinc-800 border-zinc-700 text-white text-sm"
+                />
+              </form>
+            </div>
+          </div>
+
+          {emailError && (
+            <div className="mx-6 mt-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm flex items-center gap-2">
+              <AlertCircle className="h-4 w-4 shrink-0" />
+              {emailError}
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-zinc-800 bg-zinc-900/50">
+                  <th className="text-left px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">To</th>
+                  <th className="text-left px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">Subject</th>
+                  <th className="text-left px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">Status</th>
+                  <th className="text-left px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">Last Attempt</th>
+                  <th className="text-right px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-800">
+                {isLoadingEmails ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-zinc-500">
+                      <RefreshCw className="h-5 w-5 animate-spin mx-auto mb-2" />
+                      Loading emails...
+                    </td>
+                  </tr>
+                ) : !emailsData || emailsData.emails.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-zinc-500">
+                      No emails
+                    </td>
+                  </tr>
+                ) : (
+                  emailsData.emails.map((email) => (
+                    <tr key={email.id} className={`hover:bg-zinc-800/50 transition-colors ${viewingEmail?.id === email.id ? "bg-zinc-800/50" : ""}`}>
+                      <td className="px-6 py-4 text-sm text-zinc-300">{email.to_address}</td>
+                      <td className="px-6 py-4 text-sm text-zinc-300 max-w-xs truncate" title={email.subject}>{email.subject}</td>
+                      <td className="px-6 py-4">
+                        <span
+                          className={`px-2 py-0.5 rounded text-xs ${EMAIL_STATUS_STYLES[email.status]}`}
+                          title={email.error || undefined}
+                        >
+                          {email.status === "captured" ? "outbox" : email.status}
+                        </span>
+                        <span className="ml-2 text-xs text-zinc-500 font-mono">{email.transport}</span>
+                        {email.attempts > 1 && <span className="ml-2 text-xs text-zinc-500">×{email.attempts}</span>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-zinc-400">{new Date(email.last_attempt_at).toLocaleString()}</td>
+                      <td className="px-6 py-4 text-right whitespace-nowrap">
+                        {hasRole(currentAdmin, "support") && (
+                          <>
+                            <Button size="sm" variant="ghost" onClick={() => handleViewEmail(email)} className="text-zinc-400 hover:text-white">
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleResendEmail(email)}
+                              disabled={resendingEmailId === email.id}
+                              className="text-zinc-400 hover:text-teal-400"
+                              title="Resend"
+                            >
+                              {resendingEmailId === email.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                            </Button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {emailsData && emailsData.pagination.totalPages > 1 && (
+            <div className="px-6 py-3 border-t border-zinc-800 flex items-center justify-between text-sm text-zinc-400">
+              <span>
+                Page {emailsData.pagination.page} of {emailsData.pagination.totalPages} ({emailsData.pagination.total} emails)
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => token && fetchEmails(token, emailStatus, emailSearch, emailsData.pagination.page - 1)}
+                  disabled={emailsData.pagination.page <= 1}
+                  className="border-zinc-700 text-zinc-300"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => token && fetchEmails(token, emailStatus, emailSearch, emailsData.pagination.page + 1)}
+                  disabled={emailsData.pagination.page >= emailsData.pagination.totalPages}
+                  className="border-zinc-700 text-zinc-300"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {viewingEmail && (
+            <div className="border-t border-zinc-800 p-6 space-y-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0 text-sm">
+                  <div className="text-white font-medium">{viewingEmail.subject}</div>
+                  <div className="text-zinc-400">
+                    {viewingEmail.from_address} → {viewingEmail.to_address}
+                  </div>
+                  <div className="text-zinc-500 text-xs mt-1">
+                    Created {new Date(viewingEmail.created_at).toLocaleString()}
+                    {viewingEmail.provider_message_id && <> · ID <span className="font-mono">{viewingEmail.provider_message_id}</span></>}
+                  </div>
+                  {viewingEmail.error && <div className="text-red-400 text-xs mt-1">{viewingEmail.error}</div>}
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => setViewingEmail(null)} className="text-zinc-400 hover:text-white shrink-0">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              {/* Sandboxed: no scripts, and links can't navigate the admin page */}
+              <iframe
+                title="Email preview"
+                srcDoc={viewingEmail.html_content}
+                sandbox=""
+                className="w-full h-[600px] rounded-xl bg-white"
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Global Style Presets */}
+        <div className="mt-8 bg-zinc-900/50 rounded-2xl border border-zinc-800 overflow-hidden">
+          <div className="px-6 py-4 border-b border-zinc-800">
+            <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+              <Palette className="h-5 w-5 text-teal-500" />
+              Global Style Presets
+            </h2>
+          </div>
+          <div className="p-6 space-y-4">
+            <p className="text-zinc-400 text-sm">
+              Presets published here are available to every user in chat, batch and scheduled generation.
+            </p>
+
+            {stylePresets.length > 0 && (
+              <div className="divide-y divide-zinc-800 border border-zinc-800 rounded-xl">
+                {stylePresets.map(preset => (
+                  <div key={preset.id} className="px-4 py-3 flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="text-sm text-zinc-200 font-medium">{preset.name}</div>
+                      <div className="text-xs text-zinc-500 truncate">
+                        {[preset.promptPrefix && `${preset.promptPrefix} …`, preset.promptSuffix && `… ${preset.promptSuffix}`, preset.size, preset.quality, preset.style]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </div>
+                    </div>
+                    {hasRole(currentAdmin, "support") && <div className="flex items-center gap-1 shrink-0">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => {
+                          setEditingStylePresetId(preset.id)
+                          setStylePresetForm({
+                            name: preset.name,
+                            promptPrefix: preset.promptPrefix,
+                            promptSuffix: preset.promptSuffix,
+                            negativePrompt: preset.negativePrompt,
+                            size: preset.size,
+                            quality: preset.quality,
+                            style: preset.style,
+                          })
+                        }}
+                        className="text-zinc-400 hover:text-white"
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleDeleteStylePreset(preset)}
+                        className="text-red-400 hover:text-red-300"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {hasRole(currentAdmin, "support") && <form onSubmit={handleSaveStylePreset} className="space-y-3">
+              <Input
+                value={stylePresetForm.name}
+                onChange={e => setStylePresetForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Preset name"
+                className="bg-zinc-800 border-zinc-700 text-white"
+              />
+              <Input
+                value={stylePresetForm.promptPrefix || ""}
+                onChange={e => setStylePresetForm(prev => ({ ...prev, promptPrefix: e.target.value || null }))}
+                placeholder="Prompt prefix"
+                className="bg-zinc-800 border-zinc-700 text-white"
+              />
+              <Input
+                value={stylePresetForm.promptSuffix || ""}
+                onChange={e => setStylePresetForm(prev => ({ ...prev, promptSuffix: e.target.value || null }))}
+                placeholder="Prompt suffix"
+                className="bg-zinc-800 border-zinc-700 text-white"
+              />
+              <Input
+                value={stylePresetForm.negativePrompt || ""}
+                onChange={e => setStylePresetForm(prev => ({ ...prev, negativePrompt: e.target.value || null }))}
+                placeholder="Negative terms"
+                className="bg-zinc-800 border-zinc-700 text-white"
+              />
+              <div className="flex flex-wrap gap-2">
+                <select
+                  value={stylePresetForm.size || ""}
+                  onChange={e => setStylePresetForm(prev => ({ ...prev, size: e.target.value || null }))}
+                  className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-white"
+                >
+                  <option value="">Any size</option>
+                  <option value="1024x1024">1024x1024</option>
+                  <option value="1792x1024">1792x1024</option>
+                  <option value="1024x1792">1024x1792</option>
+                </select>
+                <select
+                  value={stylePresetForm.quality || ""}
+                  onChange={e => setStylePresetForm(prev => ({ ...prev, quality: (e.target.value || null) as StylePresetForm["quality"] }))}
+                  className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-white"
+                >
+                  <option value="">Default quality</option>
+                  <option value="standard">Standard</option>
+                  <option value="hd">HD</option>
+                </select>
+                <select
+                  value={stylePresetForm.style || ""}
+                  onChange={e => setStylePresetForm(prev => ({ ...prev, style: (e.target.value || null) as StylePresetForm["style"] }))}
+                  className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-white"
+                >
+                  <option value="">Default style</option>
+                  <option value="vivid">Vivid</option>
+                  <option value="natural">Natural</option>
+                </select>
+              </div>
+              {stylePresetError && <p className="text-sm text-red-400">{stylePresetError}</p>}
+              <div className="flex gap-2">
+                <Button
+                  type="submit"
+                  disabled={isSavingStylePreset || !stylePresetForm.name.trim()}
+                  className="bg-teal-600 hover:bg-teal-700 text-white"
+                >
+                  {isSavingStylePreset ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+                  {editingStylePresetId ? "Save Preset" : "Publish Preset"}
+                </Button>
+                {editingStylePresetId && (
+                  <Button type="button" variant="ghost" onClick={resetStylePresetForm} className="text-zinc-400">
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>}
+          </div>
+        </div>
+
+        {/* Audit Log */}
+        {hasRole(currentAdmin, "support") && (
+          <div className="mt-8 bg-zinc-900/50 rounded-2xl border border-zinc-800 overflow-hidden">
+            <div className="px-6 py-4 border-b border-zinc-800 flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5 text-teal-500" />
+                Audit Log
+                {auditData && (
+                  <span className="text-xs font-normal text-zinc-500">{auditData.pagination.total} entries</span>
+                )}
+              </h2>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  if (token) fetchAuditLog(token, auditFilter, 1)
+                }}
+                className="flex flex-wrap items-center gap-2"
+              >
+                <select
+                  value={auditFilter.action}
+                  onChange={(e) => token && fetchAuditLog(token, { ...auditFilter, action: e.target.value }, 1)}
+                  className="h-8 px-2 rounded-lg bg-zinc-800 border border-zinc-700 text-sm text-white"
+                >
+                  <option value="">All actions</option>
+                  {AUDIT_ACTIONS.map(action => (
+                    <option key={action} value={action}>{action}</option>
+                  ))}
+                </select>
+                <select
+                  value={auditFilter.targetType}
+                  onChange={(e) => token && fetchAuditLog(token, { ...auditFilter, targetType: e.target.value }, 1)}
+                  className="h-8 px-2 rounded-lg bg-zinc-800 border border-zinc-700 text-sm text-white"
+                >
+                  <option value="">All targets</option>
+                  {AUDIT_TARGET_TYPES.map(type => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+                <Input
+                  value={auditFilter.targetId}
+                  onChange={(e) => setAuditFilter(prev => ({ ...prev, targetId: e.target.value }))}
+                  placeholder="Target ID"
+                  inputMode="numeric"
+                  className="h-8 w-24 bg-zinc-800 border-zinc-700 text-sm text-white"
+                />
+                <Input
+                  value={auditFilter.userId}
+                  onChange={(e) => setAuditFilter(prev => ({ ...prev, userId: e.target.value }))}
+                  placeholder="User ID"
+                  inputMode="numeric"
+                  className="h-8 w-24 bg-zinc-800 border-zinc-700 text-sm text-white"
+                />
+                <Button type="submit" size="sm" variant="outline" className="border-zinc-700 text-zinc-300">
+                  <Search className="h-4 w-4" />
+                </Button>
+              </form>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-zinc-800 bg-zinc-900/50">
+                    <th className="text-left px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">Time</th>
+                    <th className="text-left px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">Admin</th>
+                    <th className="text-left px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">Action</th>
+                    <th className="text-left px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">Target</th>
+                    <th className="text-left px-6 py-3 text-xs font-medium text-zinc-400 uppercase tracking-wider">Details</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-zinc-800">
+                  {isLoadingAudit ? (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-8 text-center text-zinc-500">
+                        <RefreshCw className="h-5 w-5 animate-spin mx-auto mb-2" />
+                        Loading audit log...
+                      </td>
+                    </tr>
+                  ) : !auditData || auditData.entries.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-8 text-center text-zinc-500">
+                        No matching entries
+                      </td>
+                    </tr>
+                  ) : (
+                    auditData.entries.map((entry) => (
+                      <tr key={entry.id} className="hover:bg-zinc-800/50 transition-colors">
+                        <td className="px-6 py-4 text-sm text-zinc-400 whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</td>
+                        <td className="px-6 py-4 text-sm text-zinc-300">
+                          {entry.admin_email}
+                          {entry.ip_address && <div className="text-xs text-zinc-500 font-mono">{entry.ip_address}</div>}
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className="px-2 py-0.5 bg-zinc-800 rounded text-xs text-zinc-300 font-mono">{entry.action}</span>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-zinc-400 whitespace-nowrap">
+                          {entry.target_type ? `${entry.target_type} #${entry.target_id}` : "—"}
+                          {entry.user_id !== null && (
+                            <button
+                              onClick={() => token && fetchAuditLog(token, { ...EMPTY_AUDIT_FILTER, userId: String(entry.user_id) }, 1)}
+                              className="block text-xs text-teal-400 hover:text-teal-300"
+                              title="Show everything done to this user"
+                            >
+                              user #{entry.user_id}
+                            </button>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-zinc-400 max-w-xs truncate" title={formatAuditDetails(entry.details)}>
+                          {formatAuditDetails(entry.details) || "—"}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {auditData && auditData.pagination.totalPages > 1 && (
+              <div className="px-6 py-3 border-t border-zinc-800 flex items-center justify-between text-sm text-zinc-400">
+                <span>
+                  Page {auditData.pagination.page} of {auditData.pagination.totalPages}
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => token && fetchAuditLog(token, auditFilter, auditData.pagination.page - 1)}
+                    disabled={auditData.pagination.page <= 1}
+                    className="border-zinc-700 text-zinc-300"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => token && fetchAuditLog(token, auditFilter, auditData.pagination.page + 1)}
+                    disabled={auditData.pagination.page >= auditData.pagination.totalPages}
+                    className="border-zinc-700 text-zinc-300"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Admin Accounts */}
+        {hasRole(currentAdmin, "superadmin") && (
+          <div className="mt-8 bg-zinc-900/50 rounded-2xl border border-zinc-800 overflow-hidden">
+            <div className="px-6 py-4 border-b border-zinc-800">
+              <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+                <UserCog className="h-5 w-5 text-teal-500" />
+                Admin Accounts
+              </h2>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-zinc-400 text-sm">
+                Viewers can only read dashboards. Support can also edit devices and style presets and read emails and the audit log.
+                Superadmins can also back up, restore and manage admin accounts.
+              </p>
+
+              <div className="divide-y divide-zinc-800 border border-zinc-800 rounded-xl">
+                {adminAccounts.map(account => (
+                  <div key={account.id} className={`px-4 py-3 flex flex-wrap items-center justify-between gap-3 ${account.disabled ? "opacity-50" : ""}`}>
+                    <div className="min-w-0">
+                      <div className="text-sm text-zinc-200 font-medium">
+                        {account.email}
+                        {account.name && <span className="ml-2 text-xs text-zinc-500">{account.name}</span>}
+                        {account.disabled && <span className="ml-2 text-xs text-red-400">disabled</span>}
+                      </div>
+                      <div className="text-xs text-zinc-500">
+                        {account.last_login_at ? `Last login ${new Date(account.last_login_at).toLocaleString()}` : "Never logged in"}
+                      </div>
+                    </div>
+                    {account.id === currentAdmin?.id ? (
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${ADMIN_ROLE_STYLES[account.role]}`}>
+                        {account.role} (you)
+                      </span>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={account.role}
+                          onChange={(e) => handleUpdateAdmin(account, { role: e.target.value as AdminRole })}
+                          className="h-8 px-2 rounded-lg bg-zinc-800 border border-zinc-700 text-sm text-white"
+                        >
+                          {ADMIN_ROLES.map(role => (
+                            <option key={role} value={role}>{role}</option>
+                          ))}
+                        </select>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleUpdateAdmin(account, { disabled: !account.disabled })}
+                          className={`border-zinc-700 ${account.disabled ? "text-teal-400" : "text-red-400"}`}
+                        >
+                          {account.disabled ? "Enable" : "Disable"}
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <form onSubmit={handleCreateAdmin} className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <Input
+                  type="email"
+                  value={adminForm.email}
+                  onChange={e => setAdminForm(prev => ({ ...prev, email: e.target.value }))}
+                  placeholder="Email"
+                  className="bg-zinc-800 border-zinc-700 text-white"
+                />
+                <Input
+                  value={adminForm.name}
+                  onChange={e => setAdminForm(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Name"
+                  className="bg-zinc-800 border-zinc-700 text-white"
+                />
+                <Input
+                  type="password"
+                  value={adminForm.password}
+                  onChange={e => setAdminForm(prev => ({ ...prev, password: e.target.value }))}
+                  placeholder="Initial password"
+                  className="bg-zinc-800 border-zinc-700 text-white"
+                />
+                <select
+                  value={adminForm.role}
+                  onChange={e => setAdminForm(prev => ({ ...prev, role: e.target.value as AdminRole }))}
+                  className="px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-white"
+                >
+                  {ADMIN_ROLES.map(role => (
+                    <option key={role} value={role}>{role}</option>
+                  ))}
+                </select>
+                {adminAccountError && <p className="sm:col-span-2 text-sm text-red-400">{adminAccountError}</p>}
+                <div className="sm:col-span-2">
+                  <Button
+                    type="submit"
+                    disabled={isSavingAdmin || !adminForm.email.trim() || !adminForm.password}
+                    className="bg-teal-600 hover:bg-teal-700 text-white"
+                  >
+                    {isSavingAdmin ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+                    Add Admin
+                  </Button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+
+        {/* Data Backup & Restore */}
+        {hasRole(currentAdmin, "superadmin") && <div className="mt-8 bg-zinc-900/50 rounded-2xl border border-zinc-800 overflow-hidden">
           <div className="px-6 py-4 border-b border-zinc-800">
             <h2 className="text-lg font-semibold text-white flex items-center gap-2">
               <Database className="h-5 w-5 text-teal-500" />
@@ -1079,7 +2543,7 @@ export function AdminPage() {
               )}
             </div>
           </div>
-        </div>
+        </div>}
 
         {/* Users List */}
         <div className="mt-8 bg-zinc-900/50 rounded-2xl border border-zinc-800 overflow-hidden">
@@ -1125,6 +2589,12 @@ export function AdminPage() {
                         <div className="flex items-center gap-2">
                           <Mail className="h-4 w-4 text-zinc-500" />
                           <span className="text-sm text-white">{user.email}</span>
+                          {user.two_factor_enabled && (
+                            <span title="Two-factor authentication on" className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-xs bg-teal-500/10 text-teal-400">
+                              <ShieldCheck className="h-3 w-3" />
+                              2FA
+                            </span>
+                          )}
                         </div>
                       </td>
                       <td className="px-6 py-4 text-sm text-zinc-300">{user.name || "—"}</td>
@@ -1145,6 +2615,17 @@ export function AdminPage() {
                           <Monitor className="h-4 w-4 mr-1" />
                           Manage
                         </Button>
+                        {user.two_factor_enabled && hasRole(currentAdmin, "support") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleResetTwoFactor(user)}
+                            className="ml-2 border-zinc-700 text-zinc-400 hover:text-white hover:border-red-500"
+                          >
+                            <ShieldCheck className="h-4 w-4 mr-1" />
+                            Reset 2FA
+                          </Button>
+                        )}
                       </td>
                     </tr>
                   ))
@@ -1233,13 +2714,15 @@ export function AdminPage() {
                   <div className="text-center py-8 text-zinc-500">
                     <Monitor className="h-8 w-8 mx-auto mb-2 opacity-50" />
                     <p>No devices configured for this user</p>
-                    <Button
-                      onClick={startAddDevice}
-                      className="mt-4 bg-teal-600 hover:bg-teal-700 text-white"
-                    >
-                      <Plus className="h-4 w-4 mr-1" />
-                      Add First Device
-                    </Button>
+                    {hasRole(currentAdmin, "support") && (
+                      <Button
+                        onClick={startAddDevice}
+                        className="mt-4 bg-teal-600 hover:bg-teal-700 text-white"
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add First Device
+                      </Button>
+                    )}
                   </div>
                 ) : (
                   <div className="space-y-4">
@@ -1378,9 +2861,12 @@ export function AdminPage() {
                                     <span>MAC: {device.mac_address}</span>
                                   )}
                                 </div>
+                                <div className="text-xs text-zinc-600 mt-1 font-mono break-all">
+                                  Polling: {device.polling_url}
+                                </div>
                               </div>
                             </div>
-                            <div className="flex items-center gap-2">
+                            {hasRole(currentAdmin, "support") && <div className="flex items-center gap-2">
                               {!device.is_default && (
                                 <button
                                   onClick={() => handleSetDefaultDevice(device.id)}
@@ -1390,6 +2876,13 @@ export function AdminPage() {
                                   <Star className="h-4 w-4" />
                                 </button>
                               )}
+                              <button
+                                onClick={() => handleRotatePollingToken(device.id)}
+                                className="p-2 text-zinc-400 hover:text-orange-400 hover:bg-zinc-700 rounded-lg transition-colors"
+                                title="Rotate polling token"
+                              >
+                                <KeyRound className="h-4 w-4" />
+                              </button>
                               <button
                                 onClick={() => startEditDevice(device)}
                                 className="p-2 text-zinc-400 hover:text-teal-400 hover:bg-zinc-700 rounded-lg transition-colors"
@@ -1404,7 +2897,7 @@ export function AdminPage() {
                               >
                                 <Trash2 className="h-4 w-4" />
                               </button>
-                            </div>
+                            </div>}
                           </div>
                         )}
                       </div>
@@ -1517,7 +3010,7 @@ export function AdminPage() {
                     )}
 
                     {/* Add Device Button */}
-                    {!isAddingDevice && !editingDevice && (
+                    {!isAddingDevice && !editingDevice && hasRole(currentAdmin, "support") && (
                       <Button
                         onClick={startAddDevice}
                         className="w-full bg-zinc-800 hover:bg-zinc-700 text-zinc-300 border border-zinc-700 border-dashed"
@@ -2,7 +2,24 @@ import { useState, useEffect } from "react"
 import { Button } from "../components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card"
 import { PageHeader } from "../components/PageHeader"
-import { useBatch, BatchJob, BatchJobWithItems, CreateBatchJobInput, BatchStatus } from "../hooks/useBatch"
+import { useImageProviders } from "../hooks/useImageProviders"
+import { useStylePresets } from "../hooks/useStylePresets"
+import {
+  useBatch,
+  BatchJob,
+  BatchJobWithItems,
+  CreateBatchJobInput,
+  BatchStatus,
+  BatchImportInput,
+  BatchImportPreview,
+  BatchImportRow,
+  BatchImportRowError,
+  CreateMatrixBatchInput,
+  PromptMatrix,
+  BatchJobItem,
+  BatchFailureReason,
+} from "../hooks/useBatch"
+import { useCollections, Collection } from "../hooks/useCollections"
 import { useLanguage } from "../hooks/useLanguage"
 import { useAuth } from "../hooks/useAuth"
 import { detectBrowserTimezone, formatDateTimeInTimezone } from "../utils"
@@ -23,29 +40,22 @@ import {
   Copy,
   ChevronLeft,
   ChevronRight,
+  Upload,
+  Grid3x3,
+  Star,
+  Pause,
+  Play,
+  RotateCcw,
+  Pencil,
 } from "lucide-react"
 
-type AppPage = "chat" | "gallery" | "schedule" | "batch" | "orders" | "subscription" | "settings"
+type AppPage = "chat" | "gallery" | "schedule" | "batch" | "orders" | "subscription" | "usage" | "settings"
 
 interface BatchPageProps {
   onNavigate: (page: AppPage) => void
   onLogout?: () => void
 }
 
-const STYLE_PRESETS = [
-  { id: "none", label: "None" },
-  { id: "photorealistic", label: "Photorealistic" },
-  { id: "anime", label: "Anime/Manga" },
-  { id: "watercolor", label: "Watercolor" },
-  { id: "oil-painting", label: "Oil Painting" },
-  { id: "pixel-art", label: "Pixel Art" },
-  { id: "3d-render", label: "3D Render" },
-  { id: "sketch", label: "Pencil Sketch" },
-  { id: "pop-art", label: "Pop Art" },
-  { id: "minimalist", label: "Minimalist" },
-  { id: "cinematic", label: "Cinematic" },
-]
-
 const SIZE_OPTIONS = [
   { value: "1024x1024", label: "Square (1024×1024)" },
   { value: "1792x1024", label: "Landscape (1792×1024)" },
@@ -69,6 +79,26 @@ function BatchForm({ initialData, onSubmit, onCancel, isSubmitting }: BatchFormP
   )
   const [size, setSize] = useState(initialData?.size || "1024x1024")
   const [stylePreset, setStylePreset] = useState(initialData?.style_preset || "none")
+  const [provider, setProvider] = useState(initialData?.provider || "")
+  const { providers: imageProviders, getProvider } = useImageProviders()
+  const { presets: styleOptions, getPreset } = useStylePresets()
+  const activeProvider = getProvider(provider)
+  const supportsSize = (value: string) => !activeProvider || activeProvider.capabilities.sizes.includes(value)
+
+  // Presets with a default size switch the batch to it
+  const handleStylePresetChange = (key: string) => {
+    setStylePreset(key)
+    const presetSize = getPreset(key)?.size
+    if (presetSize && supportsSize(presetSize)) setSize(presetSize)
+  }
+
+  // Keep the size valid when switching providers
+  useEffect(() => {
+    if (activeProvider && !activeProvider.capabilities.sizes.includes(size)) {
+      const fallback = SIZE_OPTIONS.find(opt => activeProvider.capabilities.sizes.includes(opt.value))
+      if (fallback) setSize(fallback.value)
+    }
+  }, [activeProvider, size])
   const [autoSyncTrmnl, setAutoSyncTrmnl] = useState(!!initialData?.auto_sync_trmnl)
 
   const addPrompt = () => {
@@ -101,6 +131,7 @@ function BatchForm({ initialData, onSubmit, onCancel, isSubmitting }: BatchFormP
       prompts: validPrompts,
       size,
       stylePreset: stylePreset === "none" ? undefined : stylePreset,
+      provider: provider || undefined,
       autoSyncTrmnl,
     }
 
@@ -174,7 +205,7 @@ function BatchForm({ initialData, onSubmit, onCancel, isSubmitting }: BatchFormP
             onChange={e => setSize(e.target.value)}
             className="w-full p-2 border rounded-md bg-background"
           >
-            {SIZE_OPTIONS.map(opt => (
+            {SIZE_OPTIONS.filter(opt => supportsSize(opt.value)).map(opt => (
               <option key={opt.value} value={opt.value}>
                 {opt.label}
               </option>
@@ -185,18 +216,37 @@ function BatchForm({ initialData, onSubmit, onCancel, isSubmitting }: BatchFormP
           <label className="block text-sm font-medium mb-1">{t.imageStyle || "Style Preset"}</label>
           <select
             value={stylePreset}
-            onChange={e => setStylePreset(e.target.value)}
+            onChange={e => handleStylePresetChange(e.target.value)}
             className="w-full p-2 border rounded-md bg-background"
           >
-            {STYLE_PRESETS.map(opt => (
-              <option key={opt.id} value={opt.id}>
-                {opt.label}
+            {styleOptions.map(opt => (
+              <option key={opt.key} value={opt.key}>
+                {opt.name}
               </option>
             ))}
           </select>
         </div>
       </div>
 
+      {/* Image Provider - only when the server offers a choice */}
+      {imageProviders.length > 1 && (
+        <div>
+          <label className="block text-sm font-medium mb-1">{t.imageProvider || "Image Provider"}</label>
+          <select
+            value={provider}
+            onChange={e => setProvider(e.target.value)}
+            className="w-full p-2 border rounded-md bg-background"
+          >
+            <option value="">{t.providerDefault || "Server default"}</option>
+            {imageProviders.map(opt => (
+              <option key={opt.id} value={opt.id}>
+                {opt.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {/* Auto Sync to TRMNL */}
       <div className="flex items-center gap-2">
         <input
@@ -230,16 +280,542 @@ function BatchForm({ initialData, onSubmit, onCancel, isSubmitting }: BatchFormP
   )
 }
 
+interface BatchImportFormProps {
+  onSubmit: (data: CreateBatchJobInput) => Promise<void>
+  onPreview: (input: BatchImportInput) => Promise<BatchImportPreview | null>
+  onCancel: () => void
+  isSubmitting: boolean
+}
+
+function BatchImportForm({ onSubmit, onPreview, onCancel, isSubmitting }: BatchImportFormProps) {
+  const { t } = useLanguage()
+  const [name, setName] = useState("")
+  const [provider, setProvider] = useState("")
+  const [autoSyncTrmnl, setAutoSyncTrmnl] = useState(false)
+  const [rows, setRows] = useState<BatchImportRow[]>([])
+  const [rowErrors, setRowErrors] = useState<BatchImportRowError[]>([])
+  // Rows edited since the last check must be checked again before starting
+  const [isChecked, setIsChecked] = useState(false)
+  const [isChecking, setIsChecking] = useState(false)
+  const { providers: imageProviders } = useImageProviders()
+  const { presets: styleOptions } = useStylePresets()
+
+  const applyPreview = (preview: BatchImportPreview | null) => {
+    if (!preview) return
+    setRows(preview.rows)
+    setRowErrors(preview.errors)
+    setIsChecked(preview.valid)
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setIsChecking(true)
+    try {
+      const content = await file.text()
+      const format = file.name.toLowerCase().endsWith(".json") ? "json" : "csv"
+      applyPreview(await onPreview({ format, content, provider: provider || undefined }))
+    } finally {
+      setIsChecking(false)
+      e.target.value = ""
+    }
+  }
+
+  const checkRows = async () => {
+    setIsChecking(true)
+    try {
+      applyPreview(await onPreview({ rows, provider: provider || undefined }))
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  const updateRow = (index: number, field: keyof BatchImportRow, value: string) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)))
+    setIsChecked(false)
+  }
+
+  const removeRow = (index: number) => {
+    setRows(prev => prev.filter((_, i) => i !== index))
+    // Row numbers shift, so old errors no longer line up
+    setRowErrors([])
+    setIsChecked(false)
+  }
+
+  const errorsFor = (index: number, field?: keyof BatchImportRow) =>
+    rowErrors.filter(error => error.row === index + 1 && (!field || error.field === field))
+
+  const cellClass = (index: number, field: keyof BatchImportRow) =>
+    `w-full p-1 border rounded bg-background text-sm ${errorsFor(index, field).length > 0 ? "border-red-500" : ""}`
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isChecked || rows.length === 0) return
+
+    await onSubmit({
+      name: name.trim() || undefined,
+      items: rows,
+      provider: provider || undefined,
+      autoSyncTrmnl,
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium mb-1">{t.batch?.batchName || "Batch Name (Optional)"}</label>
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          className="w-full p-2 border rounded-md bg-background"
+          placeholder={t.batch?.batchNamePlaceholder || "e.g., Nature scenes"}
+        />
+      </div>
+
+      {/* Image Provider - rows are checked against its sizes */}
+      {imageProviders.length > 1 && (
+        <div>
+          <label className="block text-sm font-medium mb-1">{t.imageProvider || "Image Provider"}</label>
+          <select
+            value={provider}
+            onChange={e => {
+              setProvider(e.target.value)
+              setIsChecked(false)
+            }}
+            className="w-full p-2 border rounded-md bg-background"
+          >
+            <option value="">{t.providerDefault || "Server default"}</option>
+            {imageProviders.map(opt => (
+              <option key={opt.id} value={opt.id}>
+                {opt.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium mb-1">{t.batch?.importFile || "CSV or JSON file"}</label>
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={handleFile}
+          className="w-full text-sm"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          {t.batch?.importHint || "Columns: prompt, size, style, collection, device. Empty cells use the batch defaults; collections and devices can be given by name or ID."}
+        </p>
+      </div>
+
+      {/* Preview */}
+      {rows.length > 0 && (
+        <div className="space-y-2">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="p-1">#</th>
+                  <th className="p-1">{t.gallery?.prompt || "Prompt"}</th>
+                  <th className="p-1">{t.imageSize || "Size"}</th>
+                  <th className="p-1">{t.imageStyle || "Style"}</th>
+                  <th className="p-1">{t.batch?.collection || "Collection"}</th>
+                  <th className="p-1">{t.batch?.device || "Device"}</th>
+                  <th className="p-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => (
+                  <tr key={index} className="align-top">
+                    <td className="p-1 text-muted-foreground">{index + 1}</td>
+                    <td className="p-1 min-w-[180px]">
+                      <textarea
+                        value={row.prompt}
+                        onChange={e => updateRow(index, "prompt", e.target.value)}
+                        className={`${cellClass(index, "prompt")} min-h-[40px] resize-none`}
+                      />
+                      {errorsFor(index).map(error => (
+                        <p key={error.field} className="text-xs text-red-500">{error.message}</p>
+                      ))}
+                    </td>
+                    <td className="p-1">
+                      <select
+                        value={row.size}
+                        onChange={e => updateRow(index, "size", e.target.value)}
+                        className={cellClass(index, "size")}
+                      >
+                        <option value="">{t.batch?.useDefault || "Default"}</option>
+                        {/* Keep an unsupported imported value visible so it can be fixed */}
+                        {row.size && !SIZE_OPTIONS.some(opt => opt.value === row.size) && (
+                          <option value={row.size}>{row.size}</option>
+                        )}
+                        {SIZE_OPTIONS.map(opt => (
+                          <option key={opt.value} value={opt.value}>{opt.value}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="p-1">
+                      <select
+                        value={row.stylePreset}
+                        onChange={e => updateRow(index, "stylePreset", e.target.value)}
+                        className={cellClass(index, "stylePreset")}
+                      >
+                        <option value="">{t.batch?.useDefault || "Default"}</option>
+                        {row.stylePreset && !styleOptions.some(opt => opt.key === row.stylePreset) && (
+                          <option value={row.stylePreset}>{row.stylePreset}</option>
+                        )}
+                        {styleOptions.filter(opt => opt.key !== "none").map(opt => (
+                          <option key={opt.key} value={opt.key}>{opt.name}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="p-1">
+                      <input
+                        type="text"
+                        value={row.collection}
+                        onChange={e => updateRow(index, "collection", e.target.value)}
+                        className={cellClass(index, "collection")}
+                      />
+                    </td>
+                    <td className="p-1">
+                      <input
+                        type="text"
+                        value={row.device}
+                        onChange={e => updateRow(index, "device", e.target.value)}
+                        className={cellClass(index, "device")}
+                      />
+                    </td>
+                    <td className="p-1">
+                      <Button type="button" size="icon" variant="ghost" onClick={() => removeRow(index)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {rowErrors.length > 0 && (
+            <p className="text-sm text-red-500 flex items-center gap-1">
+              <AlertCircle className="h-4 w-4" />
+              {rowErrors.length} {t.batch?.importErrors || "problems to fix before starting"}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Auto Sync to TRMNL (rows with a device sync to that device only) */}
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          id="importAutoSyncTrmnl"
+          checked={autoSyncTrmnl}
+          onChange={e => setAutoSyncTrmnl(e.target.checked)}
+          className="w-4 h-4"
+        />
+        <label htmlFor="importAutoSyncTrmnl" className="text-sm flex items-center gap-1">
+          <Monitor className="h-4 w-4" />
+          {t.schedule?.autoSyncTrmnl || "Auto-sync each image to TRMNL display"}
+        </label>
+      </div>
+
+      {/* Actions */}
+      <div className="flex gap-2 pt-2">
+        <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+          {t.schedule?.cancel || "Cancel"}
+        </Button>
+        {rows.length > 0 && !isChecked ? (
+          <Button type="button" onClick={checkRows} disabled={isChecking} className="flex-1">
+            <RefreshCw className={`h-4 w-4 mr-2 ${isChecking ? "animate-spin" : ""}`} />
+            {t.batch?.checkRows || "Check Rows"}
+          </Button>
+        ) : (
+          <Button type="submit" disabled={isSubmitting || isChecking || rows.length === 0} className="flex-1">
+            {isSubmitting ? (
+              <RefreshCw className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Check className="h-4 w-4 mr-2" />
+            )}
+            {t.batch?.startBatch || "Start Batch"} ({rows.length})
+          </Button>
+        )}
+      </div>
+    </form>
+  )
+}
+
+// `{cat|dog}` groups in a matrix prompt; `{{variable}}` is left alone (same as the server)
+const MATRIX_ALTERNATIVES_PATTERN = /(?<!\{)\{([^{}]*\|[^{}]*)\}(?!\})/g
+
+const MAX_MATRIX_SIZE = 50
+
+interface BatchMatrixFormProps {
+  onSubmit: (data: CreateMatrixBatchInput) => Promise<void>
+  onCancel: () => void
+  isSubmitting: boolean
+}
+
+function BatchMatrixForm({ onSubmit, onCancel, isSubmitting }: BatchMatrixFormProps) {
+  const { t } = useLanguage()
+  const [name, setName] = useState("")
+  const [basePrompt, setBasePrompt] = useState("")
+  const [stylePresets, setStylePresets] = useState<string[]>([])
+  const [sizes, setSizes] = useState<string[]>(["1024x1024"])
+  const [provider, setProvider] = useState("")
+  const [autoSyncTrmnl, setAutoSyncTrmnl] = useState(false)
+  const { providers: imageProviders, getProvider } = useImageProviders()
+  const { presets: styleOptions } = useStylePresets()
+  const activeProvider = getProvider(provider)
+  const supportsSize = (value: string) => !activeProvider || activeProvider.capabilities.sizes.includes(value)
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(entry => entry !== value) : [...list, value]
+
+  const phraseCombinations = Array.from(basePrompt.matchAll(MATRIX_ALTERNATIVES_PATTERN))
+    .reduce((count, match) => count * match[1].split("|").length, 1)
+  const imageCount = phraseCombinations * Math.max(1, stylePresets.length) * Math.max(1, sizes.length)
+  const validSizes = sizes.filter(supportsSize)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!basePrompt.trim() || imageCount > MAX_MATRIX_SIZE) return
+
+    await onSubmit({
+      name: name.trim() || undefined,
+      basePrompt: basePrompt.trim(),
+      stylePresets,
+      sizes: validSizes,
+      provider: provider || undefined,
+      autoSyncTrmnl,
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium mb-1">{t.batch?.batchName || "Batch Name (Optional)"}</label>
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          className="w-full p-2 border rounded-md bg-background"
+          placeholder={t.batch?.batchNamePlaceholder || "e.g., Nature scenes"}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-1">{t.batch?.basePrompt || "Base Prompt"}</label>
+        <textarea
+          value={basePrompt}
+          onChange={e => setBasePrompt(e.target.value)}
+          className="w-full min-h-[60px] p-2 border rounded-md bg-background resize-none"
+          placeholder="A {cat|dog} in {rain|snow}"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          {t.batch?.matrixHint || "Write alternatives as {cat|dog}; every combination is generated."}
+        </p>
+      </div>
+
+      {/* Styles */}
+      <div>
+        <label className="block text-sm font-medium mb-1">{t.imageStyle || "Style Preset"}</label>
+        <div className="flex flex-wrap gap-2">
+          {styleOptions.map(opt => (
+            <label key={opt.key} className="flex items-center gap-1 text-sm">
+              <input
+                type="checkbox"
+                checked={stylePresets.includes(opt.key)}
+                onChange={() => setStylePresets(prev => toggle(prev, opt.key))}
+              />
+              {opt.name}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Sizes */}
+      <div>
+        <label className="block text-sm font-medium mb-1">{t.imageSize || "Image Size"}</label>
+        <div className="flex flex-wrap gap-2">
+          {SIZE_OPTIONS.filter(opt => supportsSize(opt.value)).map(opt => (
+            <label key={opt.value} className="flex items-center gap-1 text-sm">
+              <input
+                type="checkbox"
+                checked={sizes.includes(opt.value)}
+                onChange={() => setSizes(prev => toggle(prev, opt.value))}
+              />
+              {opt.label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Image Provider - only when the server offers a choice */}
+      {imageProviders.length > 1 && (
+        <div>
+          <label className="block text-sm font-medium mb-1">{t.imageProvider || "Image Provider"}</label>
+          <select
+            value={provider}
+            onChange={e => setProvider(e.target.value)}
+            className="w-full p-2 border rounded-md bg-background"
+          >
+            <option value="">{t.providerDefault || "Server default"}</option>
+            {imageProviders.map(opt => (
+              <option key={opt.id} value={opt.id}>
+                {opt.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          id="matrixAutoSyncTrmnl"
+          checked={autoSyncTrmnl}
+          onChange={e => setAutoSyncTrmnl(e.target.checked)}
+          className="w-4 h-4"
+        />
+        <label htmlFor="matrixAutoSyncTrmnl" className="text-sm flex items-center gap-1">
+          <Monitor className="h-4 w-4" />
+          {t.schedule?.autoSyncTrmnl || "Auto-sync each image to TRMNL display"}
+        </label>
+      </div>
+
+      <p className={`text-sm ${imageCount > MAX_MATRIX_SIZE ? "text-red-500" : "text-muted-foreground"}`}>
+        {imageCount} {t.batch?.matrixImages || "images"} (max {MAX_MATRIX_SIZE})
+      </p>
+
+      {/* Actions */}
+      <div className="flex gap-2 pt-2">
+        <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+          {t.schedule?.cancel || "Cancel"}
+        </Button>
+        <Button
+          type="submit"
+          disabled={isSubmitting || !basePrompt.trim() || imageCount > MAX_MATRIX_SIZE}
+          className="flex-1"
+        >
+          {isSubmitting ? (
+            <RefreshCw className="h-4 w-4 animate-spin mr-2" />
+          ) : (
+            <Check className="h-4 w-4 mr-2" />
+          )}
+          {t.batch?.startBatch || "Start Batch"} ({imageCount})
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+interface MatrixComparisonGridProps {
+  batch: BatchJobWithItems
+  matrix: PromptMatrix
+  collections: Collection[]
+  onPick: (itemId: number, options: { favorite?: boolean; collectionId?: number }) => void
+}
+
+// Results laid out by phrase combination (rows) and style x size (columns)
+function MatrixComparisonGrid({ batch, matrix, collections, onPick }: MatrixComparisonGridProps) {
+  const { t } = useLanguage()
+  const prompts = Array.from(new Set(batch.items.map(item => item.prompt)))
+  const columns = matrix.stylePresets.flatMap(stylePreset => matrix.sizes.map(size => ({ stylePreset, size })))
+  const { getPreset } = useStylePresets()
+  const styleLabel = (key: string) => getPreset(key)?.name || key
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-sm">
+        <thead>
+          <tr>
+            <th className="p-1" />
+            {columns.map(column => (
+              <th key={`${column.stylePreset}-${column.size}`} className="p-1 text-xs font-medium text-muted-foreground">
+                {styleLabel(column.stylePreset)}
+                {matrix.sizes.length > 1 && <div>{column.size}</div>}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {prompts.map(prompt => (
+            <tr key={prompt}>
+              <td className="p-1 text-xs max-w-[160px] align-top">{prompt}</td>
+              {columns.map(column => {
+                const item = batch.items.find(entry =>
+                  entry.prompt === prompt && entry.style_preset === column.stylePreset && entry.size === column.size
+                )
+                return (
+                  <td key={`${column.stylePreset}-${column.size}`} className="p-1 align-top">
+                    {item?.image_id ? (
+                      <div className={`w-28 rounded-md p-1 ${item.picked ? "ring-2 ring-amber-400" : ""}`}>
+                        <a href={`/api/gallery/image/${item.image_id}`} target="_blank" rel="noopener noreferrer">
+                          <img
+                            src={`/api/gallery/thumbnail/${item.image_id}`}
+                            alt={item.prompt}
+                            className="w-full aspect-square object-cover rounded"
+                          />
+                        </a>
+                        <div className="flex items-center gap-1 mt-1">
+                          <Button
+                            type="button"
+                            size="icon"
+                            variant="ghost"
+                            className="h-6 w-6"
+                            onClick={() => onPick(item.id, { favorite: true })}
+                            title={t.batch?.pickFavorite || "Pick and favorite"}
+                          >
+                            <Star className={`h-3 w-3 ${item.picked ? "fill-amber-400 text-amber-400" : ""}`} />
+                          </Button>
+                          {collections.length > 0 && (
+                            <select
+                              value=""
+                              onChange={e => onPick(item.id, { collectionId: parseInt(e.target.value, 10) })}
+                              className="flex-1 min-w-0 text-xs border rounded bg-background"
+                              title={t.batch?.pickCollection || "Pick and add to collection"}
+                            >
+                              <option value="">+ {t.batch?.collection || "Collection"}</option>
+                              {collections.map(collection => (
+                                <option key={collection.id} value={collection.id}>{collection.name}</option>
+                              ))}
+                            </select>
+                          )}
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="w-28 aspect-square rounded-md bg-muted flex items-center justify-center">
+                        {item?.status === "failed" ? (
+                          <AlertCircle className="h-4 w-4 text-red-500" />
+                        ) : (
+                          <Clock className="h-4 w-4 text-muted-foreground" />
+                        )}
+                      </div>
+                    )}
+                  </td>
+                )
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
 interface BatchCardProps {
   batch: BatchJob
   onView: () => void
   onCancel: () => void
+  onPause: () => void
+  onResume: () => void
   onDelete: () => void
   onDuplicate: () => void
   userTimezone?: string
 }
 
-function BatchCard({ batch, onView, onCancel, onDelete, onDuplicate, userTimezone }: BatchCardProps) {
+function BatchCard({ batch, onView, onCancel, onPause, onResume, onDelete, onDuplicate, userTimezone }: BatchCardProps) {
   const { t } = useLanguage()
 
   const getStatusIcon = () => {
@@ -248,6 +824,8 @@ function BatchCard({ batch, onView, onCancel, onDelete, onDuplicate, userTimezon
         return <Clock className="h-4 w-4 text-yellow-500" />
       case "processing":
         return <RefreshCw className="h-4 w-4 text-blue-500 animate-spin" />
+      case "paused":
+        return <Pause className="h-4 w-4 text-amber-500" />
       case "completed":
         return <CheckCircle2 className="h-4 w-4 text-green-500" />
       case "failed":
@@ -269,6 +847,7 @@ function BatchCard({ batch, onView, onCancel, onDelete, onDuplicate, userTimezon
   )
 
   const isActive = batch.status === "pending" || batch.status === "processing"
+  const isPaused = batch.status === "paused"
 
   return (
     <Card>
@@ -299,10 +878,11 @@ function BatchCard({ batch, onView, onCancel, onDelete, onDuplicate, userTimezon
               {batch.style_preset && batch.style_preset !== "none" && (
                 <span>{batch.style_preset}</span>
               )}
+              {batch.provider && <span>{batch.provider}</span>}
             </div>
 
             {/* Progress Bar */}
-            {isActive && (
+            {(isActive || isPaused) && (
               <div className="mt-2">
                 <div className="h-2 bg-muted rounded-full overflow-hidden">
                   <div
@@ -312,6 +892,14 @@ function BatchCard({ batch, onView, onCancel, onDelete, onDuplicate, userTimezon
                 </div>
                 <p className="text-xs text-muted-foreground mt-1">
                   {progress}% {t.batch?.complete || "complete"}
+                  {batch.estimated_completion_at && (
+                    <>
+                      {" · "}{t.batch?.estimatedCompletion || "Estimated completion"}: {formatDateTimeInTimezone(batch.estimated_completion_at, userTimezone || "", {
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      })}
+                    </>
+                  )}
                 </p>
               </div>
             )}
@@ -331,17 +919,27 @@ function BatchCard({ batch, onView, onCancel, onDelete, onDuplicate, userTimezon
             <Button size="icon" variant="ghost" onClick={onView} title={t.batch?.view || "View"}>
               <Eye className="h-4 w-4" />
             </Button>
-            {!isActive && (
+            {!isActive && !isPaused && (
               <Button size="icon" variant="ghost" onClick={onDuplicate} title={t.batch?.duplicate || "Duplicate"}>
                 <Copy className="h-4 w-4" />
               </Button>
             )}
             {isActive && (
+              <Button size="icon" variant="ghost" onClick={onPause} title={t.batch?.pause || "Pause"}>
+                <Pause className="h-4 w-4" />
+              </Button>
+            )}
+            {isPaused && (
+              <Button size="icon" variant="ghost" onClick={onResume} title={t.batch?.resume || "Resume"}>
+                <Play className="h-4 w-4" />
+              </Button>
+            )}
+            {(isActive || isPaused) && (
               <Button size="icon" variant="ghost" onClick={onCancel} title={t.batch?.cancel || "Cancel"}>
                 <Ban className="h-4 w-4" />
               </Button>
             )}
-            {!isActive && (
+            {!isActive && !isPaused && (
               <Button size="icon" variant="ghost" onClick={onDelete} title={t.batch?.delete || "Delete"}>
                 <Trash2 className="h-4 w-4" />
               </Button>
@@ -356,10 +954,61 @@ function BatchCard({ batch, onView, onCancel, onDelete, onDuplicate, userTimezon
 interface BatchDetailModalProps {
   batch: BatchJobWithItems
   onClose: () => void
+  userTimezone?: string
+  collections: Collection[]
+  onPick: (itemId: number, options: { favorite?: boolean; collectionId?: number }) => void
+  onRetry: (itemIds?: number[]) => void
+  onUpdatePrompt: (itemId: number, prompt: string) => Promise<boolean>
+}
+
+// Translation keys for classified failure reasons
+const FAILURE_REASON_KEYS = {
+  content_policy: "reasonContentPolicy",
+  plan_limit: "reasonPlanLimit",
+  rate_limit: "reasonRateLimit",
+  network: "reasonNetwork",
+  invalid_size: "reasonInvalidSize",
+  other: "reasonOther",
+} as const
+
+const FAILURE_REASON_LABELS: Record<BatchFailureReason, string> = {
+  content_policy: "Content policy",
+  plan_limit: "Plan limit",
+  rate_limit: "Rate limit",
+  network: "Network",
+  invalid_size: "Invalid size",
+  other: "Other",
 }
 
-function BatchDetailModal({ batch, onClose }: BatchDetailModalProps) {
+function BatchDetailModal({
+  batch,
+  onClose,
+  userTimezone,
+  collections,
+  onPick,
+  onRetry,
+  onUpdatePrompt,
+}: BatchDetailModalProps) {
   const { t } = useLanguage()
+  const [editingItemId, setEditingItemId] = useState<number | null>(null)
+  const [editedPrompt, setEditedPrompt] = useState("")
+
+  const failedItems = batch.items.filter(item => item.status === "failed")
+  const canRetry = batch.status !== "cancelled"
+
+  const startEditing = (item: BatchJobItem) => {
+    setEditingItemId(item.id)
+    setEditedPrompt(item.prompt)
+  }
+
+  // Save the edited prompt, then retry the item with it
+  const saveAndRetry = async (itemId: number) => {
+    if (!editedPrompt.trim()) return
+    if (await onUpdatePrompt(itemId, editedPrompt.trim())) {
+      setEditingItemId(null)
+      onRetry([itemId])
+    }
+  }
 
   const getItemStatusIcon = (status: string) => {
     switch (status) {
@@ -378,7 +1027,7 @@ function BatchDetailModal({ batch, onClose }: BatchDetailModalProps) {
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-      <div className="bg-background rounded-lg shadow-lg max-w-2xl w-full max-h-[80vh] overflow-hidden">
+      <div className={`bg-background rounded-lg shadow-lg ${batch.matrix ? "max-w-4xl" : "max-w-2xl"} w-full max-h-[80vh] overflow-hidden`}>
         <div className="flex items-center justify-between p-4 border-b">
           <h2 className="text-lg font-semibold">
             {batch.name || `Batch #${batch.id}`}
@@ -390,7 +1039,7 @@ function BatchDetailModal({ batch, onClose }: BatchDetailModalProps) {
 
         <div className="p-4 space-y-4 overflow-y-auto max-h-[60vh]">
           {/* Summary */}
-          <div className="flex items-center gap-4 text-sm">
+          <div className="flex flex-wrap items-center gap-4 text-sm">
             <span>
               <strong>{t.batch?.status || "Status"}:</strong> {batch.status}
             </span>
@@ -405,11 +1054,36 @@ function BatchDetailModal({ batch, onClose }: BatchDetailModalProps) {
                 <strong>{t.batch?.failed || "Failed"}:</strong> {batch.failed_count}
               </span>
             )}
+            {batch.estimated_completion_at && (
+              <span>
+                <strong>{t.batch?.estimatedCompletion || "Estimated completion"}:</strong>{" "}
+                {formatDateTimeInTimezone(batch.estimated_completion_at, userTimezone || "", {
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+              </span>
+            )}
           </div>
 
+          {/* Comparison grid for matrix batches */}
+          {batch.matrix && (
+            <div className="space-y-2">
+              <h3 className="font-medium">{t.batch?.compare || "Compare"}</h3>
+              <MatrixComparisonGrid batch={batch} matrix={batch.matrix} collections={collections} onPick={onPick} />
+            </div>
+          )}
+
           {/* Items */}
           <div className="space-y-2">
-            <h3 className="font-medium">{t.batch?.images || "Images"}</h3>
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium">{t.batch?.images || "Images"}</h3>
+              {canRetry && failedItems.length > 1 && (
+                <Button size="sm" variant="outline" onClick={() => onRetry()}>
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  {t.batch?.retryFailed || "Retry failed"} ({failedItems.length})
+                </Button>
+              )}
+            </div>
             {batch.items.map((item, index) => (
               <div key={item.id} className="flex items-start gap-2 p-2 bg-muted rounded-md">
                 <div className="flex items-center gap-2 min-w-[80px]">
@@ -423,11 +1097,59 @@ function BatchDetailModal({ batch, onClose }: BatchDetailModalProps) {
                   )}
                 </div>
                 <div className="flex-1 min-w-0">
-                  <p className="text-sm truncate">{item.prompt}</p>
+                  {editingItemId === item.id ? (
+                    <div className="space-y-1">
+                      <textarea
+                        value={editedPrompt}
+                        onChange={e => setEditedPrompt(e.target.value)}
+                        className="w-full min-h-[60px] p-2 text-sm border rounded-md bg-background resize-none"
+                      />
+                      <div className="flex gap-1">
+                        <Button size="sm" onClick={() => saveAndRetry(item.id)} disabled={!editedPrompt.trim()}>
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                          {t.batch?.saveAndRetry || "Save and retry"}
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setEditingItemId(null)}>
+                          {t.schedule?.cancel || "Cancel"}
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-sm truncate">{item.prompt}</p>
+                  )}
                   {item.error_message && (
-                    <p className="text-xs text-red-500 mt-1">{item.error_message}</p>
+                    <p className="text-xs text-red-500 mt-1">
+                      {item.failure_reason && (
+                        <span className="font-medium">
+                          {t.batch?.[FAILURE_REASON_KEYS[item.failure_reason]] || FAILURE_REASON_LABELS[item.failure_reason]}:{" "}
+                        </span>
+                      )}
+                      {item.error_message}
+                    </p>
                   )}
                 </div>
+                {item.status === "failed" && canRetry && editingItemId !== item.id && (
+                  <div className="flex flex-shrink-0">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      onClick={() => startEditing(item)}
+                      title={t.batch?.editPrompt || "Edit prompt"}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      onClick={() => onRetry([item.id])}
+                      title={t.batch?.retry || "Retry"}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
                 {item.image_id && (
                   <a
                     href={`/api/gallery/image/${item.image_id}`}
@@ -469,18 +1191,25 @@ export default function BatchPage({ onNavigate, onLogout }: BatchPageProps) {
     fetchBatches,
     fetchBatch,
     createBatch,
+    previewImport,
+    createMatrixBatch,
+    pickItem,
     cancelBatch,
+    pauseBatch,
+    resumeBatch,
+    retryItems,
+    updateItemPrompt,
     deleteBatch,
-    pollStatus,
-    stopPolling,
     nextPage,
     prevPage,
   } = useBatch()
 
   const [showForm, setShowForm] = useState(false)
+  const [showImport, setShowImport] = useState(false)
+  const [showMatrix, setShowMatrix] = useState(false)
+  const { collections } = useCollections()
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [showDetail, setShowDetail] = useState(false)
-  const [pollingBatchId, setPollingBatchId] = useState<number | null>(null)
   const [duplicatingBatch, setDuplicatingBatch] = useState<BatchJobWithItems | null>(null)
   const [userTimezone, setUserTimezone] = useState<string>(() => detectBrowserTimezone())
 
@@ -510,35 +1239,50 @@ export default function BatchPage({ onNavigate, onLogout }: BatchPageProps) {
       const batch = await createBatch(data)
       if (batch) {
         setShowForm(false)
+        setShowImport(false)
         setDuplicatingBatch(null) // Reset duplicate form
-        // Start polling for this batch
-        setPollingBatchId(batch.id)
-        pollStatus(batch.id)
       }
     } finally {
       setIsSubmitting(false)
     }
   }
 
+  const handleCreateMatrix = async (data: CreateMatrixBatchInput) => {
+    setIsSubmitting(true)
+    try {
+      const batch = await createMatrixBatch(data)
+      if (batch) {
+        setShowMatrix(false)
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // Progress of the open batch arrives over the server event stream
   const handleView = async (batch: BatchJob) => {
-    stopPolling()
     await fetchBatch(batch.id)
     setShowDetail(true)
-
-    // If batch is still processing, continue polling
-    if (batch.status === "pending" || batch.status === "processing") {
-      setPollingBatchId(batch.id)
-      pollStatus(batch.id)
-    }
   }
 
   const handleCancel = async (batch: BatchJob) => {
     if (confirm(t.batch?.confirmCancelBatch || "Are you sure you want to cancel this batch?")) {
-      stopPolling()
       await cancelBatch(batch.id)
     }
   }
 
+  const handlePause = async (batch: BatchJob) => {
+    await pauseBatch(batch.id)
+  }
+
+  const handleResume = async (batch: BatchJob) => {
+    await resumeBatch(batch.id)
+  }
+
+  const handleRetry = async (batchId: number, itemIds?: number[]) => {
+    await retryItems(batchId, itemIds)
+  }
+
   const handleDelete = async (batch: BatchJob) => {
     if (confirm(t.batch?.confirmDeleteBatch || "Are you sure you want to delete this batch?")) {
       await deleteBatch(batch.id)
@@ -557,12 +1301,10 @@ export default function BatchPage({ onNavigate, onLogout }: BatchPageProps) {
 
   const closeDetail = () => {
     setShowDetail(false)
-    stopPolling()
-    setPollingBatchId(null)
     fetchBatches() // Refresh list
   }
 
-  // Check for any active batches and poll them
+  // Batches still running (kept up to date by server events)
   const activeBatches = batches.filter(
     b => b.status === "pending" || b.status === "processing"
   )
@@ -583,14 +1325,24 @@ export default function BatchPage({ onNavigate, onLogout }: BatchPageProps) {
           <p className="text-sm text-muted-foreground">
             {t.batch?.description || "Generate multiple images at once"}
           </p>
-          {!showForm && !duplicatingBatch && (
-            <Button 
-              onClick={() => setShowForm(true)}
-              className="rounded-xl font-medium text-white transition-all duration-300 bg-gradient-to-r from-teal-500 to-emerald-500 hover:from-teal-400 hover:to-emerald-400"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              {t.batch?.newBatch || "New Batch"}
-            </Button>
+          {!showForm && !showImport && !showMatrix && !duplicatingBatch && (
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setShowMatrix(true)} className="rounded-xl font-medium">
+                <Grid3x3 className="h-4 w-4 mr-2" />
+                {t.batch?.matrix || "Matrix"}
+              </Button>
+              <Button variant="outline" onClick={() => setShowImport(true)} className="rounded-xl font-medium">
+                <Upload className="h-4 w-4 mr-2" />
+                {t.batch?.import || "Import"}
+              </Button>
+              <Button 
+                onClick={() => setShowForm(true)}
+                className="rounded-xl font-medium text-white transition-all duration-300 bg-gradient-to-r from-teal-500 to-emerald-500 hover:from-teal-400 hover:to-emerald-400"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                {t.batch?.newBatch || "New Batch"}
+              </Button>
+            </div>
           )}
         </div>
 
@@ -617,6 +1369,39 @@ export default function BatchPage({ onNavigate, onLogout }: BatchPageProps) {
         </Card>
       )}
 
+      {/* Import Form */}
+      {showImport && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="text-lg">{t.batch?.importBatch || "Import Batch"}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <BatchImportForm
+              onSubmit={handleCreate}
+              onPreview={previewImport}
+              onCancel={() => setShowImport(false)}
+              isSubmitting={isSubmitting}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Matrix Form */}
+      {showMatrix && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="text-lg">{t.batch?.matrixBatch || "Prompt Matrix"}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <BatchMatrixForm
+              onSubmit={handleCreateMatrix}
+              onCancel={() => setShowMatrix(false)}
+              isSubmitting={isSubmitting}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Duplicate Form */}
       {duplicatingBatch && (
         <Card className="mb-6">
@@ -667,6 +1452,8 @@ export default function BatchPage({ onNavigate, onLogout }: BatchPageProps) {
                 batch={batch}
                 onView={() => handleView(batch)}
                 onCancel={() => handleCancel(batch)}
+                onPause={() => handlePause(batch)}
+                onResume={() => handleResume(batch)}
                 onDelete={() => handleDelete(batch)}
                 onDuplicate={() => handleDuplicate(batch)}
                 userTimezone={userTimezone}
@@ -708,7 +1495,15 @@ export default function BatchPage({ onNavigate, onLogout }: BatchPageProps) {
 
       {/* Detail Modal */}
       {showDetail && currentBatch && (
-        <BatchDetailModal batch={currentBatch} onClose={closeDetail} />
+        <BatchDetailModal
+          batch={currentBatch}
+          onClose={closeDetail}
+          userTimezone={userTimezone}
+          collections={collections}
+          onPick={(itemId, options) => pickItem(currentBatch.id, itemId, options)}
+          onRetry={itemIds => handleRetry(currentBatch.id, itemIds)}
+          onUpdatePrompt={(itemId, prompt) => updateItemPrompt(currentBatch.id, itemId, prompt)}
+        />
       )}
       </div>
     </div>
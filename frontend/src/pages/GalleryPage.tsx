@@ -8,12 +8,14 @@ import { BulkActionBar } from "../components/BulkActionBar"
 import { PageHeader } from "../components/PageHeader"
 import { useGallery, GalleryImage, BulkShareResult } from "../hooks/useGallery"
 import { useCollections } from "../hooks/useCollections"
+import { useTrmnlSync } from "../hooks/useTrmnlSync"
+import { usePlaylist } from "../hooks/usePlaylist"
 import { useLanguage } from "../hooks/useLanguage"
 import { useAuth } from "../hooks/useAuth"
 import { RefreshCw, Upload, FolderOpen, Settings2, CheckSquare, X } from "lucide-react"
 import { detectBrowserTimezone, groupImagesByDate } from "../utils"
 
-type AppPage = "chat" | "gallery" | "schedule" | "batch" | "orders" | "subscription" | "settings"
+type AppPage = "chat" | "gallery" | "schedule" | "batch" | "orders" | "subscription" | "usage" | "settings"
 
 interface GalleryPageProps {
   onNavigate: (page: AppPage) => void
@@ -52,6 +54,8 @@ export function GalleryPage({ onNavigate, onLogout }: GalleryPageProps) {
     bulkShare,
   } = useGallery()
   const { collections, refresh: refreshCollections } = useCollections()
+  const { devices } = useTrmnlSync()
+  const { savePlaylist } = usePlaylist()
 
   const [selectedImage, setSelectedImage] = useState<GalleryImage | null>(null)
   const [isModalOpen, setIsModalOpen] = useState(false)
@@ -62,6 +66,7 @@ export function GalleryPage({ onNavigate, onLogout }: GalleryPageProps) {
   const [isBulkDeleting, setIsBulkDeleting] = useState(false)
   const [isBulkExporting, setIsBulkExporting] = useState(false)
   const [isBulkSharing, setIsBulkSharing] = useState(false)
+  const [isSettingPlaylist, setIsSettingPlaylist] = useState(false)
   const [shareResult, setShareResult] = useState<BulkShareResult | null>(null)
   const [shareCopied, setShareCopied] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
@@ -176,6 +181,31 @@ export function GalleryPage({ onNavigate, onLogout }: GalleryPageProps) {
     }
   }, [selectedIds, bulkShare])
 
+  // Play the selection (in selection order) on the default device as a hand-picked playlist
+  const handleBulkPlayOnDevice = useCallback(async () => {
+    if (selectedIds.size === 0) return
+    const device = devices.find((d) => d.is_default) || devices[0]
+    if (!device) {
+      alert(t.gallery.bulkPlayOnDeviceNoDevice)
+      return
+    }
+    setIsSettingPlaylist(true)
+    try {
+      await savePlaylist(device.id, { source_type: "images", image_ids: Array.from(selectedIds) })
+      alert(
+        t.gallery.bulkPlayOnDeviceSuccess
+          .replace("{count}", String(selectedIds.size))
+          .replace("{device}", device.name)
+      )
+      exitSelectMode()
+    } catch (err) {
+      console.error("Failed to set device playlist:", err)
+      alert(err instanceof Error ? err.message : t.playlist.saveError)
+    } finally {
+      setIsSettingPlaylist(false)
+    }
+  }, [selectedIds, devices, savePlaylist, exitSelectMode, t])
+
   const handleCopyShareLink = useCallback(async () => {
     if (!shareResult) return
     try {
@@ -673,10 +703,12 @@ export function GalleryPage({ onNavigate, onLogout }: GalleryPageProps) {
           onDelete={handleBulkDelete}
           onExport={handleBulkExport}
           onShare={handleBulkShare}
+          onPlayOnDevice={handleBulkPlayOnDevice}
           onCancel={() => { exitSelectMode(); setShareResult(null) }}
           isDeleting={isBulkDeleting}
           isExporting={isBulkExporting}
           isSharing={isBulkSharing}
+          isSettingPlaylist={isSettingPlaylist}
         />
       )}
 
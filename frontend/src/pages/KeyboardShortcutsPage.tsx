@@ -2,7 +2,7 @@ import { useLanguage } from "../hooks/useLanguage"
 import { getModifierLabel } from "../hooks/useKeyboardShortcuts"
 import { PageHeader } from "../components/PageHeader"
 
-type AppPage = "chat" | "gallery" | "schedule" | "batch" | "orders" | "subscription" | "settings"
+type AppPage = "chat" | "gallery" | "schedule" | "batch" | "orders" | "subscription" | "usage" | "settings"
 
 interface KeyboardShortcutsPageProps {
   onNavigate: (page: AppPage) => void
@@ -1,10 +1,12 @@
 import { useState, FormEvent } from "react"
-import { Sparkles, Mail, Lock, Eye, EyeOff, Loader2 } from "lucide-react"
+import { Sparkles, Mail, Lock, Eye, EyeOff, Loader2, ShieldCheck } from "lucide-react"
 import { Button } from "../components/ui/button"
 import { cn } from "../lib/utils"
+import type { LoginResult } from "../hooks/useAuth"
 
 interface LoginPageProps {
-  onLogin: (email: string, password: string) => Promise<{ success: boolean; error?: string }>
+  onLogin: (email: string, password: string) => Promise<LoginResult>
+  onVerifyTwoFactor: (challengeToken: string, code: string, rememberDevice: boolean) => Promise<{ success: boolean; error?: string }>
   onSwitchToRegister: () => void
   onForgotPassword: () => void
   translations: {
@@ -19,15 +21,27 @@ interface LoginPageProps {
     noAccount: string
     signUp: string
     forgotPassword: string
+    twoFactorTitle: string
+    twoFactorSubtitle: string
+    codeLabel: string
+    codePlaceholder: string
+    rememberDevice: string
+    verifyButton: string
+    verifying: string
+    backToLogin: string
   }
 }
 
-export function LoginPage({ onLogin, onSwitchToRegister, onForgotPassword, translations: t }: LoginPageProps) {
+export function LoginPage({ onLogin, onVerifyTwoFactor, onSwitchToRegister, onForgotPassword, translations: t }: LoginPageProps) {
   const [email, setEmail] = useState("")
   const [password, setPassword] = useState("")
   const [showPassword, setShowPassword] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // Set once the password is accepted and the account asks for a second factor
+  const [challengeToken, setChallengeToken] = useState<string | null>(null)
+  const [code, setCode] = useState("")
+  const [rememberDevice, setRememberDevice] = useState(false)
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault()
@@ -36,12 +50,36 @@ export function LoginPage({ onLogin, onSwitchToRegister, onForgotPassword, trans
 
     const result = await onLogin(email, password)
 
-    if (!result.success) {
+    if (result.challengeToken) {
+      setChallengeToken(result.challengeToken)
+    } else if (!result.success) {
       setError(result.error || "Login failed")
     }
     setIsLoading(false)
   }
 
+  const handleVerify = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!challengeToken) return
+    setError(null)
+    setIsLoading(true)
+
+    const result = await onVerifyTwoFactor(challengeToken, code, rememberDevice)
+
+    if (!result.success) {
+      setError(result.error || "Verification failed")
+      setCode("")
+    }
+    setIsLoading(false)
+  }
+
+  const handleBackToLogin = () => {
+    setChallengeToken(null)
+    setCode("")
+    setPassword("")
+    setError(null)
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4 bg-background">
       {/* Animated background elements */}
@@ -59,8 +97,8 @@ export function LoginPage({ onLogin, onSwitchToRegister, onForgotPassword, trans
             <div className="h-16 w-16 rounded-2xl bg-gradient-to-br from-teal-400 to-emerald-500 flex items-center justify-center mb-4 shadow-lg shadow-teal-500/25">
               <Sparkles className="h-8 w-8 text-white" />
             </div>
-            <h1 className="text-2xl font-bold text-foreground">{t.title}</h1>
-            <p className="text-muted-foreground text-sm mt-1">{t.subtitle}</p>
+            <h1 className="text-2xl font-bold text-foreground">{challengeToken ? t.twoFactorTitle : t.title}</h1>
+            <p className="text-muted-foreground text-sm mt-1 text-center">{challengeToken ? t.twoFactorSubtitle : t.subtitle}</p>
           </div>
 
           {/* Error message */}
@@ -70,84 +108,148 @@ export function LoginPage({ onLogin, onSwitchToRegister, onForgotPassword, trans
             </div>
           )}
 
-          {/* Form */}
-          <form onSubmit={handleSubmit} noValidate className="space-y-5">
-            {/* Email field */}
-            <div className="space-y-2">
-              <label htmlFor="email" className="block text-sm font-medium text-foreground">
-                {t.emailLabel}
-              </label>
-              <div className="relative">
-                <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+          {/* Two-factor code form */}
+          {challengeToken ? (
+            <form onSubmit={handleVerify} noValidate className="space-y-5">
+              <div className="space-y-2">
+                <label htmlFor="code" className="block text-sm font-medium text-foreground">
+                  {t.codeLabel}
+                </label>
+                <div className="relative">
+                  <ShieldCheck className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                  <input
+                    id="code"
+                    type="text"
+                    inputMode="text"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder={t.codePlaceholder}
+                    required
+                    className="w-full pl-10 pr-4 py-3 bg-muted border border-border rounded-xl text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/50 focus:border-teal-500 transition-all tracking-widest"
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-muted-foreground">
                 <input
-                  id="email"
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  placeholder={t.emailPlaceholder}
-                  required
-                  className="w-full pl-10 pr-4 py-3 bg-muted border border-border rounded-xl text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/50 focus:border-teal-500 transition-all"
+                  type="checkbox"
+                  checked={rememberDevice}
+                  onChange={(e) => setRememberDevice(e.target.checked)}
+                  className="rounded border-border"
                 />
-              </div>
-            </div>
+                {t.rememberDevice}
+              </label>
 
-            {/* Password field */}
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <label htmlFor="password" className="block text-sm font-medium text-foreground">
-                  {t.passwordLabel}
+              <Button
+                type="submit"
+                disabled={isLoading || !code.trim()}
+                className={cn(
+                  "w-full py-3 rounded-xl font-semibold text-white transition-all duration-300",
+                  "bg-gradient-to-r from-teal-500 to-emerald-500",
+                  "hover:from-teal-400 hover:to-emerald-400",
+                  "disabled:opacity-50 disabled:cursor-not-allowed",
+                  "shadow-lg shadow-teal-500/25 hover:shadow-teal-500/40"
+                )}
+              >
+                {isLoading ? (
+                  <span className="flex items-center justify-center gap-2">
+                    <Loader2 className="h-5 w-5 animate-spin" />
+                    {t.verifying}
+                  </span>
+                ) : (
+                  t.verifyButton
+                )}
+              </Button>
+
+              <button
+                type="button"
+                onClick={handleBackToLogin}
+                className="w-full text-sm text-teal-500 hover:text-teal-400 transition-colors"
+              >
+                {t.backToLogin}
+              </button>
+            </form>
+          ) : (
+            <form onSubmit={handleSubmit} noValidate className="space-y-5">
+              {/* Email field */}
+              <div className="space-y-2">
+                <label htmlFor="email" className="block text-sm font-medium text-foreground">
+                  {t.emailLabel}
                 </label>
-                <button
-                  type="button"
-                  onClick={onForgotPassword}
-                  className="text-xs text-teal-500 hover:text-teal-400 transition-colors"
-                >
-                  {t.forgotPassword}
-                </button>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                  <input
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder={t.emailPlaceholder}
+                    required
+                    className="w-full pl-10 pr-4 py-3 bg-muted border border-border rounded-xl text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/50 focus:border-teal-500 transition-all"
+                  />
+                </div>
               </div>
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
-                <input
-                  id="password"
-                  type={showPassword ? "text" : "password"}
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  placeholder={t.passwordPlaceholder}
-                  required
-                  className="w-full pl-10 pr-12 py-3 bg-muted border border-border rounded-xl text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/50 focus:border-teal-500 transition-all"
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
-                >
-                  {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
-                </button>
+
+              {/* Password field */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label htmlFor="password" className="block text-sm font-medium text-foreground">
+                    {t.passwordLabel}
+                  </label>
+                  <button
+                    type="button"
+                    onClick={onForgotPassword}
+                    className="text-xs text-teal-500 hover:text-teal-400 transition-colors"
+                  >
+                    {t.forgotPassword}
+                  </button>
+                </div>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                  <input
+                    id="password"
+                    type={showPassword ? "text" : "password"}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder={t.passwordPlaceholder}
+                    required
+                    className="w-full pl-10 pr-12 py-3 bg-muted border border-border rounded-xl text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/50 focus:border-teal-500 transition-all"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
+                  >
+                    {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+                  </button>
+                </div>
               </div>
-            </div>
 
-            {/* Submit button */}
-            <Button
-              type="submit"
-              disabled={isLoading || !email || !password}
-              className={cn(
-                "w-full py-3 rounded-xl font-semibold text-white transition-all duration-300",
-                "bg-gradient-to-r from-teal-500 to-emerald-500",
-                "hover:from-teal-400 hover:to-emerald-400",
-                "disabled:opacity-50 disabled:cursor-not-allowed",
-                "shadow-lg shadow-teal-500/25 hover:shadow-teal-500/40"
-              )}
-            >
-              {isLoading ? (
-                <span className="flex items-center justify-center gap-2">
-                  <Loader2 className="h-5 w-5 animate-spin" />
-                  {t.loggingIn}
-                </span>
-              ) : (
-                t.loginButton
-              )}
-            </Button>
-          </form>
+              {/* Submit button */}
+              <Button
+                type="submit"
+                disabled={isLoading || !email || !password}
+                className={cn(
+                  "w-full py-3 rounded-xl font-semibold text-white transition-all duration-300",
+                  "bg-gradient-to-r from-teal-500 to-emerald-500",
+                  "hover:from-teal-400 hover:to-emerald-400",
+                  "disabled:opacity-50 disabled:cursor-not-allowed",
+                  "shadow-lg shadow-teal-500/25 hover:shadow-teal-500/40"
+                )}
+              >
+                {isLoading ? (
+                  <span className="flex items-center justify-center gap-2">
+                    <Loader2 className="h-5 w-5 animate-spin" />
+                    {t.loggingIn}
+                  </span>
+                ) : (
+                  t.loginButton
+                )}
+              </Button>
+            </form>
+          )}
 
           {/* Divider */}
           <div className="relative my-8">
@@ -17,7 +17,7 @@ import { PageHeader } from "../components/PageHeader"
 import { cn } from "../lib/utils"
 import { useOrders, useLanguage, type Order } from "../hooks"
 
-type AppPage = "chat" | "gallery" | "schedule" | "batch" | "orders" | "subscription" | "settings"
+type AppPage = "chat" | "gallery" | "schedule" | "batch" | "orders" | "subscription" | "usage" | "settings"
 
 interface OrdersPageProps {
   onNavigate: (page: AppPage) => void
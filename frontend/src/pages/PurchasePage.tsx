@@ -17,7 +17,7 @@ import { cn } from "../lib/utils"
 import { useOrders, useSubscription, useLanguage, type CreateOrderInput } from "../hooks"
 import photoFrameImage from "../assets/1000091170.png"
 
-type AppPage = "chat" | "gallery" | "schedule" | "batch" | "orders" | "subscription" | "settings"
+type AppPage = "chat" | "gallery" | "schedule" | "batch" | "orders" | "subscription" | "usage" | "settings"
 
 interface PurchasePageProps {
   onSuccess: (orderId: number, isFirstOrder: boolean) => void
@@ -74,7 +74,7 @@ const SUBSCRIPTION_WITH_GST = SUBSCRIPTION_FEE + SUBSCRIPTION_GST
 export function PurchasePage({ onSuccess, onNavigate, onSkip, onLogout }: PurchasePageProps) {
   const { createOrder, verifyPayment } = useOrders()
   const { subscription, markAsTrmnlOwner } = useSubscription()
-  const { t } = useLanguage()
+  const { t, language } = useLanguage()
 
   const [quantity, setQuantity] = useState(1)
   const [isGift, setIsGift] = useState(false)
@@ -193,6 +193,7 @@ export function PurchasePage({ onSuccess, onNavigate, onSkip, onLogout }: Purcha
               message: gift.message.trim() || undefined,
             }
           : undefined,
+        language,
       }
 
       const orderResult = await createOrder(orderInput)
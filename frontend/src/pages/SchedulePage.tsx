@@ -4,7 +4,10 @@ import { Input } from "../components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card"
 import { PageHeader } from "../components/PageHeader"
 import { ScheduleCalendar } from "../components/ScheduleCalendar"
-import { useSchedule, CreateScheduledJobInput, ScheduledJob } from "../hooks/useSchedule"
+import { PromptListsManager } from "../components/PromptListsManager"
+import { useImageProviders } from "../hooks/useImageProviders"
+import { useStylePresets } from "../hooks/useStylePresets"
+import { useSchedule, CreateScheduledJobInput, ScheduledJob, ScheduleType, SchedulePreview, SchedulePreviewInput } from "../hooks/useSchedule"
 import { useLanguage } from "../hooks/useLanguage"
 import { useAuth } from "../hooks/useAuth"
 import { detectBrowserTimezone, getTimezoneLabel, formatDateInTimezone, formatDateTimeInTimezone } from "../utils"
@@ -28,27 +31,13 @@ import {
   List,
 } from "lucide-react"
 
-type AppPage = "chat" | "gallery" | "schedule" | "batch" | "orders" | "subscription" | "settings"
+type AppPage = "chat" | "gallery" | "schedule" | "batch" | "orders" | "subscription" | "usage" | "settings"
 
 interface SchedulePageProps {
   onNavigate: (page: AppPage) => void
   onLogout?: () => void
 }
 
-const STYLE_PRESETS = [
-  { id: "none", label: "None" },
-  { id: "photorealistic", label: "Photorealistic" },
-  { id: "anime", label: "Anime/Manga" },
-  { id: "watercolor", label: "Watercolor" },
-  { id: "oil-painting", label: "Oil Painting" },
-  { id: "pixel-art", label: "Pixel Art" },
-  { id: "3d-render", label: "3D Render" },
-  { id: "sketch", label: "Pencil Sketch" },
-  { id: "pop-art", label: "Pop Art" },
-  { id: "minimalist", label: "Minimalist" },
-  { id: "cinematic", label: "Cinematic" },
-]
-
 const SIZE_OPTIONS = [
   { value: "1024x1024", label: "Square (1024×1024)" },
   { value: "1792x1024", label: "Landscape (1792×1024)" },
@@ -57,20 +46,49 @@ const SIZE_OPTIONS = [
 
 const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
 
+const SCHEDULE_TYPES: ScheduleType[] = ["once", "daily", "weekly", "cron", "interval"]
+
+const DEFAULT_CRON_EXPRESSION = "0 7 * * 1-5; 30 12 * * 1-5"
+const DEFAULT_INTERVAL_MINUTES = 240
+
+// Delay before previewing a cron/interval schedule while the user is typing
+const PREVIEW_DEBOUNCE_MS = 400
+
 interface ScheduleFormProps {
   initialData?: ScheduledJob | null
   onSubmit: (data: CreateScheduledJobInput) => Promise<void>
   onCancel: () => void
+  onPreview: (input: SchedulePreviewInput) => Promise<SchedulePreview>
   isSubmitting: boolean
   userTimezone: string
 }
 
-function ScheduleForm({ initialData, onSubmit, onCancel, isSubmitting, userTimezone }: ScheduleFormProps) {
+function ScheduleForm({ initialData, onSubmit, onCancel, onPreview, isSubmitting, userTimezone }: ScheduleFormProps) {
   const { t } = useLanguage()
   const [prompt, setPrompt] = useState(initialData?.prompt || "")
   const [size, setSize] = useState(initialData?.size || "1024x1024")
   const [stylePreset, setStylePreset] = useState(initialData?.style_preset || "none")
-  const [scheduleType, setScheduleType] = useState<"once" | "daily" | "weekly">(
+  const [provider, setProvider] = useState(initialData?.provider || "")
+  const { providers: imageProviders, getProvider } = useImageProviders()
+  const { presets: styleOptions, getPreset } = useStylePresets()
+  const activeProvider = getProvider(provider)
+  const supportsSize = (value: string) => !activeProvider || activeProvider.capabilities.sizes.includes(value)
+
+  // Presets with a default size switch the schedule to it
+  const handleStylePresetChange = (key: string) => {
+    setStylePreset(key)
+    const presetSize = getPreset(key)?.size
+    if (presetSize && supportsSize(presetSize)) setSize(presetSize)
+  }
+
+  // Keep the size valid when switching providers
+  useEffect(() => {
+    if (activeProvider && !activeProvider.capabilities.sizes.includes(size)) {
+      const fallback = SIZE_OPTIONS.find(opt => activeProvider.capabilities.sizes.includes(opt.value))
+      if (fallback) setSize(fallback.value)
+    }
+  }, [activeProvider, size])
+  const [scheduleType, setScheduleType] = useState<ScheduleType>(
     initialData?.schedule_type || "daily"
   )
   const [scheduleTime, setScheduleTime] = useState(initialData?.schedule_time || "09:00")
@@ -93,6 +111,56 @@ function ScheduleForm({ initialData, onSubmit, onCancel, isSubmitting, userTimez
     getLocalDatetimeString(initialData?.scheduled_at)
   )
   const [autoSyncTrmnl, setAutoSyncTrmnl] = useState(!!initialData?.auto_sync_trmnl)
+  const [cronExpression, setCronExpression] = useState(initialData?.cron_expression || DEFAULT_CRON_EXPRESSION)
+  const initialInterval = initialData?.interval_minutes || DEFAULT_INTERVAL_MINUTES
+  const [intervalUnit, setIntervalUnit] = useState<"minutes" | "hours">(
+    initialInterval % 60 === 0 ? "hours" : "minutes"
+  )
+  const [intervalValue, setIntervalValue] = useState(
+    initialInterval % 60 === 0 ? initialInterval / 60 : initialInterval
+  )
+  const intervalMinutes = intervalUnit === "hours" ? intervalValue * 60 : intervalValue
+  const [preview, setPreview] = useState<SchedulePreview | null>(null)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+
+  // Preview runs for cron/interval rules and resolved prompts for templates as they are edited
+  const hasTemplate = prompt.includes("{{")
+  const showPreview = scheduleType === "cron" || scheduleType === "interval" ||
+    (hasTemplate && (scheduleType !== "once" || !!scheduledAt))
+  useEffect(() => {
+    if (!showPreview) {
+      setPreview(null)
+      setPreviewError(null)
+      return
+    }
+    let cancelled = false
+    const timer = setTimeout(() => {
+      onPreview({
+        prompt: hasTemplate ? prompt : undefined,
+        scheduleType,
+        scheduleTime: scheduleType === "daily" || scheduleType === "weekly" ? scheduleTime : undefined,
+        scheduleDays: scheduleType === "weekly" ? scheduleDays : undefined,
+        scheduledAt: scheduleType === "once" ? scheduledAt : undefined,
+        cronExpression: scheduleType === "cron" ? cronExpression : undefined,
+        intervalMinutes: scheduleType === "interval" ? intervalMinutes : undefined,
+        timezone: userTimezone,
+      })
+        .then(result => {
+          if (cancelled) return
+          setPreview(result)
+          setPreviewError(null)
+        })
+        .catch(err => {
+          if (cancelled) return
+          setPreview(null)
+          setPreviewError(err instanceof Error ? err.message : String(err))
+        })
+    }, PREVIEW_DEBOUNCE_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [showPreview, hasTemplate, prompt, scheduleType, scheduleTime, scheduleDays, scheduledAt, cronExpression, intervalMinutes, userTimezone, onPreview])
 
   const handleDayToggle = (day: number) => {
     setScheduleDays(prev =>
@@ -109,10 +177,13 @@ function ScheduleForm({ initialData, onSubmit, onCancel, isSubmitting, userTimez
       prompt,
       size,
       stylePreset: stylePreset === "none" ? undefined : stylePreset,
+      provider: provider || undefined,
       scheduleType,
-      scheduleTime: scheduleType !== "once" ? scheduleTime : undefined,
+      scheduleTime: scheduleType === "daily" || scheduleType === "weekly" ? scheduleTime : undefined,
       scheduleDays: scheduleType === "weekly" ? scheduleDays : undefined,
       scheduledAt: scheduleType === "once" ? scheduledAt : undefined,
+      cronExpression: scheduleType === "cron" ? cronExpression : undefined,
+      intervalMinutes: scheduleType === "interval" ? intervalMinutes : undefined,
       timezone: userTimezone,
       autoSyncTrmnl,
     }
@@ -132,6 +203,7 @@ function ScheduleForm({ initialData, onSubmit, onCancel, isSubmitting, userTimez
           placeholder={t.schedule?.enterPrompt || "Enter your image prompt..."}
           required
         />
+        <p className="text-xs text-muted-foreground mt-1 font-mono break-words">{t.schedule?.templateHint}</p>
       </div>
 
       {/* Size & Style */}
@@ -143,7 +215,7 @@ function ScheduleForm({ initialData, onSubmit, onCancel, isSubmitting, userTimez
             onChange={e => setSize(e.target.value)}
             className="w-full p-2 border rounded-md bg-background"
           >
-            {SIZE_OPTIONS.map(opt => (
+            {SIZE_OPTIONS.filter(opt => supportsSize(opt.value)).map(opt => (
               <option key={opt.value} value={opt.value}>
                 {opt.label}
               </option>
@@ -154,23 +226,42 @@ function ScheduleForm({ initialData, onSubmit, onCancel, isSubmitting, userTimez
           <label className="block text-sm font-medium mb-1">{t.imageStyle || "Style Preset"}</label>
           <select
             value={stylePreset}
-            onChange={e => setStylePreset(e.target.value)}
+            onChange={e => handleStylePresetChange(e.target.value)}
             className="w-full p-2 border rounded-md bg-background"
           >
-            {STYLE_PRESETS.map(opt => (
-              <option key={opt.id} value={opt.id}>
-                {opt.label}
+            {styleOptions.map(opt => (
+              <option key={opt.key} value={opt.key}>
+                {opt.name}
               </option>
             ))}
           </select>
         </div>
       </div>
 
+      {/* Image Provider - only when the server offers a choice */}
+      {imageProviders.length > 1 && (
+        <div>
+          <label className="block text-sm font-medium mb-1">{t.imageProvider || "Image Provider"}</label>
+          <select
+            value={provider}
+            onChange={e => setProvider(e.target.value)}
+            className="w-full p-2 border rounded-md bg-background"
+          >
+            <option value="">{t.providerDefault || "Server default"}</option>
+            {imageProviders.map(opt => (
+              <option key={opt.id} value={opt.id}>
+                {opt.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {/* Schedule Type */}
       <div>
         <label className="block text-sm font-medium mb-1">{t.schedule?.scheduleType || "Schedule Type"}</label>
-        <div className="flex gap-2">
-          {(["once", "daily", "weekly"] as const).map(type => (
+        <div className="flex flex-wrap gap-2">
+          {SCHEDULE_TYPES.map(type => (
             <button
               key={type}
               type="button"
@@ -188,7 +279,7 @@ function ScheduleForm({ initialData, onSubmit, onCancel, isSubmitting, userTimez
       </div>
 
       {/* Schedule Time (for daily/weekly) */}
-      {scheduleType !== "once" && (
+      {(scheduleType === "daily" || scheduleType === "weekly") && (
         <div>
           <label className="block text-sm font-medium mb-1">{t.schedule?.scheduleTime || "Time"}</label>
           <div className="relative">
@@ -245,6 +336,69 @@ function ScheduleForm({ initialData, onSubmit, onCancel, isSubmitting, userTimez
         </div>
       )}
 
+      {/* Cron expression (for cron) */}
+      {scheduleType === "cron" && (
+        <div>
+          <label className="block text-sm font-medium mb-1">{t.schedule?.cronExpression || "Cron expression"}</label>
+          <Input
+            value={cronExpression}
+            onChange={e => setCronExpression(e.target.value)}
+            className="font-mono"
+            spellCheck={false}
+            required
+          />
+          <p className="text-xs text-muted-foreground mt-1">{t.schedule?.cronHint}</p>
+        </div>
+      )}
+
+      {/* Interval (for interval) */}
+      {scheduleType === "interval" && (
+        <div>
+          <label className="block text-sm font-medium mb-1">{t.schedule?.intervalEvery || "Run every"}</label>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              min={1}
+              value={intervalValue}
+              onChange={e => setIntervalValue(parseInt(e.target.value, 10) || 1)}
+              className="flex-1"
+              required
+            />
+            <select
+              value={intervalUnit}
+              onChange={e => setIntervalUnit(e.target.value as "minutes" | "hours")}
+              className="p-2 border rounded-md bg-background"
+            >
+              <option value="minutes">{t.schedule?.minutes || "minutes"}</option>
+              <option value="hours">{t.schedule?.hours || "hours"}</option>
+            </select>
+          </div>
+        </div>
+      )}
+
+      {/* Upcoming runs preview (cron/interval rules and prompt templates) */}
+      {showPreview && (
+        <div className="text-sm">
+          {previewError ? (
+            <p className="text-destructive text-xs">{previewError}</p>
+          ) : preview && preview.runs.length > 0 && (
+            <>
+              <p className="font-medium mb-1">{t.schedule?.upcomingRuns || "Upcoming runs"}</p>
+              <ul className="text-xs text-muted-foreground space-y-1">
+                {preview.runs.map((run, index) => (
+                  <li key={run}>
+                    {formatDateTimeInTimezone(run, userTimezone)}
+                    {preview.prompts?.[index] && (
+                      <span className="block text-foreground/80 italic">{preview.prompts[index]}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Auto Sync to TRMNL */}
       <div className="flex items-center gap-2">
         <input
@@ -311,6 +465,14 @@ function ScheduleCard({ job, onEdit, onDuplicate, onDelete, onToggle, userTimezo
     return formatDateInTimezone(dateStr, userTimezone || "")
   }
 
+  const formatInterval = (minutes: number | null) => {
+    if (!minutes) return "-"
+    const interval = minutes % 60 === 0
+      ? `${minutes / 60} ${t.schedule?.hours || "hours"}`
+      : `${minutes} ${t.schedule?.minutes || "minutes"}`
+    return (t.schedule?.everyInterval || "Every {interval}").replace("{interval}", interval)
+  }
+
   const getScheduleDescription = () => {
     if (job.schedule_type === "once") {
       if (!job.scheduled_at) return "-"
@@ -332,6 +494,12 @@ function ScheduleCard({ job, onEdit, onDuplicate, onDelete, onToggle, userTimezo
       const days = job.schedule_days?.map(d => DAY_NAMES[d]).join(", ") || ""
       return `${days} @ ${job.schedule_time}`
     }
+    if (job.schedule_type === "cron") {
+      return job.cron_expression || "-"
+    }
+    if (job.schedule_type === "interval") {
+      return formatInterval(job.interval_minutes)
+    }
     return "-"
   }
 
@@ -379,6 +547,7 @@ function ScheduleCard({ job, onEdit, onDuplicate, onDelete, onToggle, userTimezo
         <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 text-xs text-muted-foreground">
           <span>{job.size}</span>
           {job.style_preset && <span>{job.style_preset}</span>}
+          {job.provider && <span>{job.provider}</span>}
           {job.auto_sync_trmnl && (
             <span className="flex items-center gap-1">
               <Monitor className="h-3 w-3" />
@@ -410,7 +579,7 @@ function ScheduleCard({ job, onEdit, onDuplicate, onDelete, onToggle, userTimezo
 export function SchedulePage({ onNavigate, onLogout }: SchedulePageProps) {
   const { t } = useLanguage()
   const { authFetch } = useAuth()
-  const { jobs, allJobs, pagination, maxJobsAllowed, isLoading, error, createJob, updateJob, deleteJob, toggleJob, nextPage, prevPage } = useSchedule()
+  const { jobs, allJobs, pagination, maxJobsAllowed, isLoading, error, createJob, updateJob, deleteJob, toggleJob, previewSchedule, fetchOccurrences, nextPage, prevPage } = useSchedule()
   const total = pagination?.total ?? 0
   const limit = maxJobsAllowed
   const [viewMode, setViewMode] = useState<"list" | "calendar">("list")
@@ -507,6 +676,8 @@ export function SchedulePage({ onNavigate, onLogout }: SchedulePageProps) {
           )}
         </div>
 
+      <PromptListsManager />
+
       {/* Create Form */}
       {showForm && (
         <Card className="mb-6">
@@ -517,6 +688,7 @@ export function SchedulePage({ onNavigate, onLogout }: SchedulePageProps) {
             <ScheduleForm
               onSubmit={handleCreate}
               onCancel={() => setShowForm(false)}
+              onPreview={previewSchedule}
               isSubmitting={isSubmitting}
               userTimezone={userTimezone}
             />
@@ -535,6 +707,7 @@ export function SchedulePage({ onNavigate, onLogout }: SchedulePageProps) {
               initialData={editingJob}
               onSubmit={handleUpdate}
               onCancel={() => setEditingJob(null)}
+              onPreview={previewSchedule}
               isSubmitting={isSubmitting}
               userTimezone={userTimezone}
             />
@@ -557,6 +730,7 @@ export function SchedulePage({ onNavigate, onLogout }: SchedulePageProps) {
               }}
               onSubmit={handleCreate}
               onCancel={() => setDuplicatingJob(null)}
+              onPreview={previewSchedule}
               isSubmitting={isSubmitting}
               userTimezone={userTimezone}
             />
@@ -604,7 +778,7 @@ export function SchedulePage({ onNavigate, onLogout }: SchedulePageProps) {
 
       {/* Calendar View */}
       {viewMode === "calendar" ? (
-        <ScheduleCalendar jobs={allJobs} userTimezone={userTimezone} />
+        <ScheduleCalendar jobs={allJobs} userTimezone={userTimezone} fetchOccurrences={fetchOccurrences} />
       ) : (
       <>
       {/* Jobs List */}
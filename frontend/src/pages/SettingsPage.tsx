@@ -1,13 +1,18 @@
 import { useState, useEffect, FormEvent } from "react"
-import { Settings, Loader2, Check, Copy, ExternalLink, Eye, EyeOff, Monitor, Lock, Plus, Trash2, Star, StarOff, Edit2, X, User, Mail, Globe, MapPin, Keyboard, ChevronRight } from "lucide-react"
+import { Settings, Loader2, Check, Copy, ExternalLink, Eye, EyeOff, Monitor, Lock, Plus, Trash2, Star, StarOff, Edit2, X, User, Mail, Globe, MapPin, Keyboard, ChevronRight, RotateCw, Download, ListVideo } from "lucide-react"
 import { Button } from "../components/ui/button"
 import { PageHeader } from "../components/PageHeader"
+import { DevicePlaylistEditor } from "../components/DevicePlaylistEditor"
+import { StylePresetsManager } from "../components/StylePresetsManager"
+import { NotificationSettings } from "../components/NotificationSettings"
+import { TwoFactorSettings } from "../components/TwoFactorSettings"
 import { cn } from "../lib/utils"
 import { useAuth } from "../hooks/useAuth"
 import { useLanguage } from "../hooks/useLanguage"
+import type { EinkSettings } from "../hooks/useTrmnlSync"
 import { TIMEZONE_OPTIONS, detectBrowserTimezone, getTimezoneLabel } from "../utils"
 
-type AppPage = "chat" | "gallery" | "schedule" | "batch" | "orders" | "subscription" | "settings" | "keyboard-shortcuts"
+type AppPage = "chat" | "gallery" | "schedule" | "batch" | "orders" | "subscription" | "usage" | "settings" | "keyboard-shortcuts"
 
 interface SettingsPageProps {
   userId: number
@@ -64,14 +69,47 @@ interface SettingsPageProps {
       webhookUrl: string
       copyWebhook: string
       copied: string
+      einkTitle: string
+      ditherLabel: string
+      ditherFloydSteinberg: string
+      ditherAtkinson: string
+      ditherOrdered: string
+      ditherNone: string
+      bitDepthLabel: string
+      bitDepth1: string
+      bitDepth2: string
+      orientationLabel: string
+      orientationLandscape: string
+      orientationPortrait: string
+      orientationLandscapeFlipped: string
+      orientationPortraitFlipped: string
+      fitLabel: string
+      fitCover: string
+      fitContain: string
+      preview: string
+      previewNote: string
+      previewUnavailable: string
+      previewError: string
+      pollingUrl: string
+      rotateToken: string
+      rotateTokenConfirm: string
+      downloadPluginSettings: string
     }
   }
 }
 
-interface Device {
+const DEFAULT_EINK_SETTINGS: EinkSettings = {
+  eink_dither: "floyd-steinberg",
+  eink_bit_depth: 1,
+  eink_orientation: "landscape",
+  eink_fit: "cover",
+}
+
+interface Device extends EinkSettings {
   id: number
   name: string
   webhook_url: string
+  polling_url: string
   background_color: "black" | "white"
   is_default: boolean
   created_at: string
@@ -93,6 +131,12 @@ export function SettingsPage({ userId, onNavigate, onLogout, translations: t }:
   const [isSavingDevice, setIsSavingDevice] = useState(false)
   const [deviceMessage, setDeviceMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
   const [copiedDeviceId, setCopiedDeviceId] = useState<number | null>(null)
+  const [copiedPollingDeviceId, setCopiedPollingDeviceId] = useState<number | null>(null)
+  const [playlistDeviceId, setPlaylistDeviceId] = useState<number | null>(null)
+  const [newDeviceEink, setNewDeviceEink] = useState<EinkSettings>(DEFAULT_EINK_SETTINGS)
+  const [einkPreviewUrl, setEinkPreviewUrl] = useState<string | null>(null)
+  const [isRenderingPreview, setIsRenderingPreview] = useState(false)
+  const [einkPreviewError, setEinkPreviewError] = useState<string | null>(null)
 
   // Change password state
   const [currentPassword, setCurrentPassword] = useState("")
@@ -121,6 +165,31 @@ export function SettingsPage({ userId, onNavigate, onLogout, translations: t }:
     webhookUrl: "Webhook URL",
     copyWebhook: "Copy",
     copied: "Copied!",
+    einkTitle: "E-ink Rendering",
+    ditherLabel: "Dithering",
+    ditherFloydSteinberg: "Floyd–Steinberg",
+    ditherAtkinson: "Atkinson",
+    ditherOrdered: "Ordered (Bayer)",
+    ditherNone: "None (threshold)",
+    bitDepthLabel: "Gray Levels",
+    bitDepth1: "1-bit (black & white)",
+    bitDepth2: "2-bit (4 grays)",
+    orientationLabel: "Orientation",
+    orientationLandscape: "Landscape",
+    orientationPortrait: "Portrait",
+    orientationLandscapeFlipped: "Landscape (flipped)",
+    orientationPortraitFlipped: "Portrait (flipped)",
+    fitLabel: "Image Fit",
+    fitCover: "Crop to fill",
+    fitContain: "Fit whole image",
+    preview: "Preview",
+    previewNote: "Renders your latest synced image with these settings",
+    previewUnavailable: "Sync an image first to preview it here",
+    previewError: "Failed to render preview",
+    pollingUrl: "Polling URL",
+    rotateToken: "Rotate polling token",
+    rotateTokenConfirm: "Rotate this device's polling token? The current polling URL will stop working and the plugin must be updated.",
+    downloadPluginSettings: "Download settings.yml",
   }
 
   // Fetch devices
@@ -173,6 +242,7 @@ export function SettingsPage({ userId, onNavigate, onLogout, translations: t }:
           webhook_url: newDeviceWebhookUrl.trim(),
           background_color: newDeviceBackgroundColor,
           is_default: devices.length === 0,
+          ...newDeviceEink,
         }),
       })
 
@@ -182,6 +252,7 @@ export function SettingsPage({ userId, onNavigate, onLogout, translations: t }:
         setNewDeviceName("")
         setNewDeviceWebhookUrl("")
         setNewDeviceBackgroundColor("black")
+        setNewDeviceEink(DEFAULT_EINK_SETTINGS)
         setShowAddDevice(false)
         setDeviceMessage({ type: "success", text: t.saveSuccess })
       } else {
@@ -210,6 +281,7 @@ export function SettingsPage({ userId, onNavigate, onLogout, translations: t }:
           name: newDeviceName.trim(),
           webhook_url: newDeviceWebhookUrl.trim(),
           background_color: newDeviceBackgroundColor,
+          ...newDeviceEink,
         }),
       })
 
@@ -220,6 +292,8 @@ export function SettingsPage({ userId, onNavigate, onLogout, translations: t }:
         setNewDeviceName("")
         setNewDeviceWebhookUrl("")
         setNewDeviceBackgroundColor("black")
+        setNewDeviceEink(DEFAULT_EINK_SETTINGS)
+        setEinkPreviewUrl(null)
         setDeviceMessage({ type: "success", text: t.saveSuccess })
       } else {
         const error = await response.json()
@@ -280,11 +354,59 @@ export function SettingsPage({ userId, onNavigate, onLogout, translations: t }:
     setTimeout(() => setCopiedDeviceId(null), 2000)
   }
 
+  const handleCopyPollingUrl = async (device: Device) => {
+    await navigator.clipboard.writeText(device.polling_url)
+    setCopiedPollingDeviceId(device.id)
+    setTimeout(() => setCopiedPollingDeviceId(null), 2000)
+  }
+
+  const handleRotatePollingToken = async (device: Device) => {
+    if (!confirm(dt.rotateTokenConfirm)) return
+
+    try {
+      const response = await authFetch(`/api/devices/${device.id}/polling-token`, {
+        method: "POST",
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setDevices(devices.map(d => d.id === device.id ? data.device : d))
+      }
+    } catch (error) {
+      console.error("Failed to rotate polling token:", error)
+    }
+  }
+
+  const handleDownloadPluginSettings = async (device: Device) => {
+    try {
+      const response = await authFetch(`/api/devices/${device.id}/plugin-settings`)
+      if (!response.ok) return
+
+      const blob = await response.blob()
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = "settings.yml"
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error("Failed to download plugin settings:", error)
+    }
+  }
+
   const startEditDevice = (device: Device) => {
     setEditingDevice(device)
     setNewDeviceName(device.name)
     setNewDeviceWebhookUrl(device.webhook_url)
     setNewDeviceBackgroundColor(device.background_color)
+    setNewDeviceEink({
+      eink_dither: device.eink_dither,
+      eink_bit_depth: device.eink_bit_depth,
+      eink_orientation: device.eink_orientation,
+      eink_fit: device.eink_fit,
+    })
+    setEinkPreviewUrl(null)
+    setEinkPreviewError(null)
     setShowAddDevice(false)
   }
 
@@ -294,6 +416,59 @@ export function SettingsPage({ userId, onNavigate, onLogout, translations: t }:
     setNewDeviceName("")
     setNewDeviceWebhookUrl("")
     setNewDeviceBackgroundColor("black")
+    setNewDeviceEink(DEFAULT_EINK_SETTINGS)
+    setEinkPreviewUrl(null)
+    setEinkPreviewError(null)
+  }
+
+  // Release the rendered preview blob when it is replaced or the page unmounts
+  useEffect(() => {
+    return () => {
+      if (einkPreviewUrl) URL.revokeObjectURL(einkPreviewUrl)
+    }
+  }, [einkPreviewUrl])
+
+  // Render the device's latest synced image (or another device's if it has none yet)
+  // with the unsaved e-ink settings of the device being edited
+  const handlePreviewEink = async () => {
+    if (!editingDevice) return
+
+    setIsRenderingPreview(true)
+    setEinkPreviewError(null)
+
+    try {
+      const statusResponse = await authFetch("/api/sync/status")
+      const status = statusResponse.ok ? await statusResponse.json() : null
+      const syncedDevices: Array<{ deviceId: number; originalImageUrl: string | null }> = status?.devices || []
+      const sourceUrl = syncedDevices.find(d => d.deviceId === editingDevice.id)?.originalImageUrl
+        || syncedDevices.find(d => d.originalImageUrl)?.originalImageUrl
+      if (!sourceUrl) {
+        setEinkPreviewUrl(null)
+        setEinkPreviewError(dt.previewUnavailable)
+        return
+      }
+
+      const response = await authFetch(`/api/devices/${editingDevice.id}/preview`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          imageUrl: sourceUrl,
+          background_color: newDeviceBackgroundColor,
+          ...newDeviceEink,
+        }),
+      })
+
+      if (response.ok) {
+        setEinkPreviewUrl(URL.createObjectURL(await response.blob()))
+      } else {
+        const error = await response.json().catch(() => ({}))
+        setEinkPreviewError(error.error || dt.previewError)
+      }
+    } catch (error) {
+      setEinkPreviewError(dt.previewError)
+    } finally {
+      setIsRenderingPreview(false)
+    }
   }
 
   const handleChangePassword = async (e: FormEvent) => {
@@ -486,6 +661,15 @@ export function SettingsPage({ userId, onNavigate, onLogout, translations: t }:
                 </div>
               </div>
 
+              {/* Style Presets Section */}
+              <StylePresetsManager />
+
+              {/* Notifications Section */}
+              <NotificationSettings />
+
+              {/* Two-Factor Authentication Section */}
+              <TwoFactorSettings />
+
               {/* Device Message */}
               {deviceMessage && (
                 <div
@@ -601,6 +785,95 @@ export function SettingsPage({ userId, onNavigate, onLogout, translations: t }:
                       </div>
                     </div>
 
+                    {/* E-ink rendering settings */}
+                    <div className="space-y-3">
+                      <label className="block text-sm font-medium text-foreground">
+                        {dt.einkTitle}
+                      </label>
+                      <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-1">
+                          <span className="block text-xs text-muted-foreground">{dt.ditherLabel}</span>
+                          <select
+                            value={newDeviceEink.eink_dither}
+                            onChange={(e) => setNewDeviceEink({ ...newDeviceEink, eink_dither: e.target.value as EinkSettings["eink_dither"] })}
+                            className="w-full px-3 py-2 bg-background border border-border rounded-xl text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/50"
+                          >
+                            <option value="floyd-steinberg">{dt.ditherFloydSteinberg}</option>
+                            <option value="atkinson">{dt.ditherAtkinson}</option>
+                            <option value="ordered">{dt.ditherOrdered}</option>
+                            <option value="none">{dt.ditherNone}</option>
+                          </select>
+                        </div>
+                        <div className="space-y-1">
+                          <span className="block text-xs text-muted-foreground">{dt.bitDepthLabel}</span>
+                          <select
+                            value={newDeviceEink.eink_bit_depth}
+                            onChange={(e) => setNewDeviceEink({ ...newDeviceEink, eink_bit_depth: e.target.value === "2" ? 2 : 1 })}
+                            className="w-full px-3 py-2 bg-background border border-border rounded-xl text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/50"
+                          >
+                            <option value={1}>{dt.bitDepth1}</option>
+                            <option value={2}>{dt.bitDepth2}</option>
+                          </select>
+                        </div>
+                        <div className="space-y-1">
+                          <span className="block text-xs text-muted-foreground">{dt.orientationLabel}</span>
+                          <select
+                            value={newDeviceEink.eink_orientation}
+                            onChange={(e) => setNewDeviceEink({ ...newDeviceEink, eink_orientation: e.target.value as EinkSettings["eink_orientation"] })}
+                            className="w-full px-3 py-2 bg-background border border-border rounded-xl text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/50"
+                          >
+                            <option value="landscape">{dt.orientationLandscape}</option>
+                            <option value="portrait">{dt.orientationPortrait}</option>
+                            <option value="landscape-flipped">{dt.orientationLandscapeFlipped}</option>
+                            <option value="portrait-flipped">{dt.orientationPortraitFlipped}</option>
+                          </select>
+                        </div>
+                        <div className="space-y-1">
+                          <span className="block text-xs text-muted-foreground">{dt.fitLabel}</span>
+                          <select
+                            value={newDeviceEink.eink_fit}
+                            onChange={(e) => setNewDeviceEink({ ...newDeviceEink, eink_fit: e.target.value as EinkSettings["eink_fit"] })}
+                            className="w-full px-3 py-2 bg-background border border-border rounded-xl text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/50"
+                          >
+                            <option value="cover">{dt.fitCover}</option>
+                            <option value="contain">{dt.fitContain}</option>
+                          </select>
+                        </div>
+                      </div>
+
+                      {editingDevice && (
+                        <div className="space-y-2">
+                          <div className="flex items-center justify-between gap-2">
+                            <p className="text-xs text-muted-foreground">{dt.previewNote}</p>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={handlePreviewEink}
+                              disabled={isRenderingPreview}
+                            >
+                              {isRenderingPreview ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Eye className="h-4 w-4 mr-1" />
+                              )}
+                              {dt.preview}
+                            </Button>
+                          </div>
+                          {einkPreviewError && (
+                            <p className="text-xs text-red-500">{einkPreviewError}</p>
+                          )}
+                          {einkPreviewUrl && (
+                            <img
+                              src={einkPreviewUrl}
+                              alt={dt.preview}
+                              className="w-full rounded-lg border border-border"
+                            />
+                          )}
+                        </div>
+                      )}
+                    </div>
+
                     <Button
                       type="submit"
                       disabled={isSavingDevice || !newDeviceName.trim() || !newDeviceWebhookUrl.trim()}
@@ -683,6 +956,8 @@ export function SettingsPage({ userId, onNavigate, onLogout, translations: t }:
                             device.background_color === "black" ? "bg-black" : "bg-white"
                           )} />
                           <span>Background: {device.background_color}</span>
+                          <span>·</span>
+                          <span>{device.eink_dither} · {device.eink_bit_depth}-bit · {device.eink_orientation}</span>
                         </div>
 
                         <div className="flex items-center gap-2">
@@ -705,6 +980,60 @@ export function SettingsPage({ userId, onNavigate, onLogout, translations: t }:
                             )}
                           </button>
                         </div>
+
+                        <div className="mt-2 space-y-1">
+                          <span className="block text-xs text-muted-foreground">{dt.pollingUrl}</span>
+                          <div className="flex items-center gap-2">
+                            <div className="flex-1 px-3 py-2 bg-background border border-border rounded-lg text-xs font-mono truncate">
+                              {device.polling_url}
+                            </div>
+                            <button
+                              onClick={() => handleCopyPollingUrl(device)}
+                              className={cn(
+                                "p-2 rounded-lg border transition-all",
+                                copiedPollingDeviceId === device.id
+                                  ? "bg-emerald-500/20 border-emerald-500/30 text-emerald-400"
+                                  : "bg-muted border-border text-muted-foreground hover:text-foreground"
+                              )}
+                            >
+                              {copiedPollingDeviceId === device.id ? (
+                                <Check className="h-4 w-4" />
+                              ) : (
+                                <Copy className="h-4 w-4" />
+                              )}
+                            </button>
+                            <button
+                              onClick={() => handleRotatePollingToken(device)}
+                              className="p-2 rounded-lg border bg-muted border-border text-muted-foreground hover:text-foreground transition-all"
+                              title={dt.rotateToken}
+                            >
+                              <RotateCw className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDownloadPluginSettings(device)}
+                              className="p-2 rounded-lg border bg-muted border-border text-muted-foreground hover:text-foreground transition-all"
+                              title={dt.downloadPluginSettings}
+                            >
+                              <Download className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </div>
+
+                        <div className="mt-3 pt-3 border-t border-border">
+                          <button
+                            onClick={() => setPlaylistDeviceId(playlistDeviceId === device.id ? null : device.id)}
+                            className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+                          >
+                            <ListVideo className="h-4 w-4" />
+                            {fullT.playlist.title}
+                            <ChevronRight className={cn("h-4 w-4 transition-transform", playlistDeviceId === device.id && "rotate-90")} />
+                          </button>
+                          {playlistDeviceId === device.id && (
+                            <div className="mt-3">
+                              <DevicePlaylistEditor deviceId={device.id} />
+                            </div>
+                          )}
+                        </div>
                       </div>
                     ))}
                   </div>
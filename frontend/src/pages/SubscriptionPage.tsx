@@ -8,13 +8,16 @@ import {
   Calendar,
   Loader2,
   RefreshCw,
+  ImageIcon,
+  Mic,
+  BarChart3,
 } from "lucide-react"
 import { Button } from "../components/ui/button"
 import { PageHeader } from "../components/PageHeader"
 import { cn } from "../lib/utils"
-import { useSubscription, useLanguage, useAuth, type SubscriptionStatus } from "../hooks"
+import { useSubscription, useLanguage, useAuth, type SubscriptionStatus, type QuotaKind } from "../hooks"
 
-type AppPage = "chat" | "gallery" | "schedule" | "batch" | "orders" | "subscription" | "settings"
+type AppPage = "chat" | "gallery" | "schedule" | "batch" | "orders" | "subscription" | "usage" | "settings"
 
 interface SubscriptionPageProps {
   onNavigate: (page: AppPage) => void
@@ -67,6 +70,11 @@ const statusIcons: Record<SubscriptionStatus, typeof CheckCircle> = {
   past_due: AlertCircle,
 }
 
+const quotaIcons: Record<QuotaKind, typeof ImageIcon> = {
+  images: ImageIcon,
+  transcriptions: Mic,
+}
+
 const statusColors: Record<SubscriptionStatus, { color: string; bgColor: string }> = {
   none: { color: "text-slate-400", bgColor: "bg-slate-400/10" },
   active: { color: "text-emerald-400", bgColor: "bg-emerald-400/10" },
@@ -80,12 +88,14 @@ export function SubscriptionPage({ onNavigate, onLogout }: SubscriptionPageProps
   const { user, authFetch } = useAuth()
   const {
     subscription,
+    quota,
     isLoading,
     error,
     cancelSubscription,
     reactivateSubscription,
     createDirectSubscription,
     fetchStatus,
+    fetchQuota,
   } = useSubscription()
 
   const [isCancelling, setIsCancelling] = useState(false)
@@ -208,8 +218,9 @@ export function SubscriptionPage({ onNavigate, onLogout }: SubscriptionPageProps
           type: "success",
           text: t.subscription.subscribeSuccess || "Subscription activated successfully!",
         })
-        // Refresh subscription status
+        // Refresh subscription status and the quota that comes with it
         fetchStatus()
+        fetchQuota()
       } else {
         setMessage({
           type: "error",
@@ -373,6 +384,58 @@ export function SubscriptionPage({ onNavigate, onLogout }: SubscriptionPageProps
               </div>
             )}
 
+            {/* Monthly generation quota */}
+            {quota && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-muted-foreground text-sm">{t.subscription.usageTitle}</p>
+                  <p className="text-muted-foreground text-xs">
+                    {t.subscription.usageResets.replace("{date}", formatDate(quota.resetsAt))}
+                  </p>
+                </div>
+                {(Object.keys(quotaIcons) as QuotaKind[]).map((kind) => {
+                  const usage = quota.quotas[kind]
+                  const QuotaIcon = quotaIcons[kind]
+                  const percentUsed = usage.limit > 0 ? Math.min(100, (usage.used / usage.limit) * 100) : 100
+                  return (
+                    <div key={kind} className="p-4 bg-muted rounded-xl space-y-2">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="flex items-center gap-2 text-foreground">
+                          <QuotaIcon className="h-4 w-4 text-muted-foreground" />
+                          {kind === "images" ? t.subscription.usageImages : t.subscription.usageTranscriptions}
+                        </span>
+                        <span className={cn("font-medium", usage.remaining === 0 ? "text-orange-400" : "text-foreground")}>
+                          {usage.limit > 0
+                            ? t.subscription.usageRemaining
+                                .replace("{remaining}", String(usage.remaining))
+                                .replace("{limit}", String(usage.limit))
+                            : t.subscription.usageNotIncluded}
+                        </span>
+                      </div>
+                      {usage.limit > 0 && (
+                        <div className="h-1.5 bg-background rounded-full overflow-hidden">
+                          <div
+                            className={cn(
+                              "h-full rounded-full transition-all",
+                              usage.remaining === 0 ? "bg-orange-400" : "bg-teal-500"
+                            )}
+                            style={{ width: `${percentUsed}%` }}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+                <button
+                  onClick={() => onNavigate("usage")}
+                  className="flex items-center gap-2 text-sm text-teal-500 hover:text-teal-400 transition-colors"
+                >
+                  <BarChart3 className="h-4 w-4" />
+                  {t.subscription.viewUsage}
+                </button>
+              </div>
+            )}
+
             {/* Order count */}
             {subscription && (
               <div className="text-muted-foreground text-sm">
@@ -0,0 +1,205 @@
+import { useState } from "react"
+import { Activity, AudioLines, ChevronLeft, ChevronRight, ImageIcon, Loader2, MessageSquare, Type } from "lucide-react"
+import { Button } from "../components/ui/button"
+import { PageHeader } from "../components/PageHeader"
+import { cn } from "../lib/utils"
+import { useLanguage, useUsage, getCurrentUsagePeriod, type UsageOperation } from "../hooks"
+
+type AppPage = "chat" | "gallery" | "schedule" | "batch" | "orders" | "subscription" | "usage" | "settings"
+
+interface UsagePageProps {
+  onNavigate: (page: AppPage) => void
+  onLogout: () => void
+}
+
+// Months offered in the picker, newest first
+const PERIOD_COUNT = 6
+
+const operationIcons: Record<UsageOperation, typeof ImageIcon> = {
+  image_generation: ImageIcon,
+  image_edit: ImageIcon,
+  image_variation: ImageIcon,
+  chat_completion: MessageSquare,
+  transcription: AudioLines,
+}
+
+function getRecentPeriods(): string[] {
+  const [year, month] = getCurrentUsagePeriod().split("-").map(Number)
+  return Array.from({ length: PERIOD_COUNT }, (_, i) =>
+    new Date(Date.UTC(year!, month! - 1 - i, 1)).toISOString().slice(0, 7)
+  )
+}
+
+// Small amounts need more than two decimals to be meaningful
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`
+}
+
+export function UsagePage({ onNavigate, onLogout }: UsagePageProps) {
+  const { t, language } = useLanguage()
+  const locale = language === "zh" ? "zh-CN" : "en-US"
+  const periods = getRecentPeriods()
+  const [period, setPeriod] = useState(periods[0]!)
+  const [page, setPage] = useState(1)
+  const { totals, bySource, events, pagination, isLoading, error } = useUsage(period, page)
+
+  const formatPeriod = (value: string) => {
+    const [year, month] = value.split("-").map(Number)
+    return new Date(Date.UTC(year!, month! - 1, 1)).toLocaleDateString(locale, { year: "numeric", month: "short", timeZone: "UTC" })
+  }
+
+  const formatTime = (value: string) =>
+    new Date(value.replace(" ", "T") + "Z").toLocaleString(locale, {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+
+  const selectPeriod = (value: string) => {
+    setPeriod(value)
+    setPage(1)
+  }
+
+  const stats = totals
+    ? [
+        { icon: Activity, label: t.usage.requests, value: totals.requests.toLocaleString(locale) },
+        { icon: ImageIcon, label: t.usage.images, value: totals.images.toLocaleString(locale) },
+        { icon: Type, label: t.usage.tokens, value: (totals.input_tokens + totals.output_tokens).toLocaleString(locale) },
+        { icon: AudioLines, label: t.usage.audio, value: t.usage.seconds.replace("{count}", String(Math.round(totals.audio_seconds))) },
+      ]
+    : []
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PageHeader title={t.usage.title} onNavigate={onNavigate} currentPage="usage" onLogout={onLogout} />
+
+      <div className="relative max-w-2xl mx-auto p-4 space-y-6">
+        <p className="text-muted-foreground text-sm">{t.usage.subtitle}</p>
+
+        {/* Month picker */}
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {periods.map((value) => (
+            <button
+              key={value}
+              onClick={() => selectPeriod(value)}
+              className={cn(
+                "px-3 py-1.5 rounded-full text-sm whitespace-nowrap border transition-colors",
+                value === period
+                  ? "bg-teal-500/10 border-teal-500/40 text-teal-500"
+                  : "border-border text-muted-foreground hover:text-foreground"
+              )}
+            >
+              {formatPeriod(value)}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="p-4 rounded-xl text-sm bg-red-500/10 border border-red-500/20 text-red-400">{error}</div>
+        )}
+
+        {isLoading && !totals ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-teal-500" />
+          </div>
+        ) : totals && (
+          <>
+            {/* Totals */}
+            <div className="bg-card border border-border rounded-2xl p-6 space-y-4">
+              <div>
+                <p className="text-muted-foreground text-sm">{t.usage.estimatedCost}</p>
+                <p className="text-3xl font-bold text-foreground">{formatCost(totals.estimated_cost)}</p>
+                <p className="text-muted-foreground text-xs mt-1">{t.usage.costNote}</p>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {stats.map(({ icon: Icon, label, value }) => (
+                  <div key={label} className="p-3 bg-muted rounded-xl">
+                    <Icon className="h-4 w-4 text-muted-foreground mb-2" />
+                    <p className="text-foreground font-semibold">{value}</p>
+                    <p className="text-muted-foreground text-xs">{label}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* By source */}
+            {bySource.length > 0 && (
+              <div className="bg-card border border-border rounded-2xl p-6">
+                <h2 className="text-foreground font-medium mb-3">{t.usage.bySource}</h2>
+                <div className="space-y-2">
+                  {bySource.map((row) => (
+                    <div key={row.source} className="flex items-center justify-between text-sm">
+                      <span className="text-foreground">{t.usage.sources[row.source]}</span>
+                      <span className="text-muted-foreground">
+                        {row.requests.toLocaleString(locale)} · {formatCost(row.estimated_cost)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Activity */}
+            <div className="bg-card border border-border rounded-2xl p-6">
+              <h2 className="text-foreground font-medium mb-3">{t.usage.recent}</h2>
+              {events.length === 0 ? (
+                <p className="text-muted-foreground text-sm text-center py-6">{t.usage.empty}</p>
+              ) : (
+                <div className="divide-y divide-border">
+                  {events.map((event) => {
+                    const Icon = operationIcons[event.operation]
+                    const detail = [
+                      event.model,
+                      event.size,
+                      event.image_count > 1 ? `×${event.image_count}` : null,
+                      event.input_tokens + event.output_tokens > 0 ? `${event.input_tokens + event.output_tokens} tokens` : null,
+                      event.audio_seconds > 0 ? t.usage.seconds.replace("{count}", String(Math.round(event.audio_seconds))) : null,
+                    ].filter(Boolean).join(" · ")
+                    return (
+                      <div key={event.id} className="flex items-center gap-3 py-3">
+                        <Icon className="h-4 w-4 text-muted-foreground shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-foreground text-sm">
+                            {t.usage.operations[event.operation]}
+                            <span className="text-muted-foreground"> · {t.usage.sources[event.source]}</span>
+                          </p>
+                          <p className="text-muted-foreground text-xs truncate">{detail}</p>
+                        </div>
+                        <div className="text-right shrink-0">
+                          <p className="text-foreground text-sm">{formatCost(event.estimated_cost)}</p>
+                          <p className="text-muted-foreground text-xs">{formatTime(event.created_at)}</p>
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+
+              {pagination && pagination.totalPages > 1 && (
+                <div className="flex items-center justify-between pt-4">
+                  <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1 || isLoading}>
+                    <ChevronLeft className="h-4 w-4 mr-1" />
+                    {t.usage.previous}
+                  </Button>
+                  <span className="text-muted-foreground text-xs">
+                    {t.usage.pageOf.replace("{page}", String(pagination.page)).replace("{total}", String(pagination.totalPages))}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= pagination.totalPages || isLoading}
+                  >
+                    {t.usage.next}
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}